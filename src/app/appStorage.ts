@@ -0,0 +1,54 @@
+/**
+ * App Storage
+ *
+ * Small JSON key-value store for user settings and the saved profile, kept
+ * as one file per key in the app's document directory. Where there is no
+ * document directory (web) reads find nothing and writes are dropped.
+ */
+
+import * as FileSystem from 'expo-file-system';
+
+/**
+ * Profile saved from the Profile screen
+ */
+export interface StoredProfile {
+  name: string;
+  email: string;
+  gender: string;
+  /** Local birth time, YYYY-MM-DDTHH:mm */
+  birthDatetime: string;
+  /** Birth place as entered */
+  birthLocation: string;
+  /** Gazetteer id of the birth place, when picked from the suggestions */
+  birthPlaceId?: string;
+}
+
+/** Keys of the stored values */
+export type AppStorageKey = 'chartPreferences' | 'profile';
+
+const fileFor = (key: AppStorageKey): string | undefined =>
+  FileSystem.documentDirectory ? `${FileSystem.documentDirectory}${key}.json` : undefined;
+
+/**
+ * Stored value for a key, or undefined when nothing readable is saved
+ */
+export async function readStoredValue<T>(key: AppStorageKey): Promise<T | undefined> {
+  const file = fileFor(key);
+  if (!file) return undefined;
+  try {
+    const info = await FileSystem.getInfoAsync(file);
+    if (!info.exists) return undefined;
+    return JSON.parse(await FileSystem.readAsStringAsync(file)) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Save a value under a key, replacing any earlier one
+ */
+export async function writeStoredValue<T>(key: AppStorageKey, value: T): Promise<void> {
+  const file = fileFor(key);
+  if (!file) return;
+  await FileSystem.writeAsStringAsync(file, JSON.stringify(value));
+}
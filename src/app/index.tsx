@@ -1,6 +1,8 @@
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { ChartPreferencesProvider } from '../components/astrology/ChartPreferencesContext';
+import { ChartStyle, CHART_STYLES } from '../components/astrology/VedicChart';
 import AnimationsDemoPage from '../screens/AllDemos/AnimationsDemoPage';
 import BackgroundScreen from '../screens/AllDemos/BackgroundScreen';
 import BeautifulHomeScreen from '../screens/AllDemos/BeautifulHomeScreen';
@@ -14,6 +16,7 @@ import DepthEffectsScreen from '../screens/Effects/DepthEffectsScreen';
 import GlassMorphismScreen from '../screens/Effects/GlassMorphismScreen';
 import GlowEffectsScreen from '../screens/Effects/GlowEffectsScreen';
 import MagneticHoverScreen from '../screens/Effects/MagneticHoverScreen';
+import { readStoredValue, writeStoredValue } from './appStorage';
 import TabsLayout from './tabs/_layout';
 
 
@@ -25,18 +28,24 @@ import TabsLayout from './tabs/_layout';
 
 import AboutScreen from '../screens/MobileApp/AboutScreen';
 import AIChartScreen from '../screens/MobileApp/AIChartScreen';
+import AnnualChartScreen from '../screens/MobileApp/AnnualChartScreen';
+import ChartImportScreen from '../screens/MobileApp/ChartImportScreen';
 import HelpSupportScreen from '../screens/MobileApp/HelpSupportScreen';
 import LiveSupportScreen from '../screens/MobileApp/LiveSupportScreen';
 import MenuScreen from '../screens/MobileApp/MenuScreen';
+import MuhurtaScreen from '../screens/MobileApp/MuhurtaScreen';
+import NameNumerologyScreen from '../screens/MobileApp/NameNumerologyScreen';
 import NotificationsScreen from '../screens/MobileApp/NotificationsScreen';
 import OnboardingScreen from '../screens/MobileApp/OnboardingScreen';
 import PaymentScreen from '../screens/MobileApp/PaymentScreen';
 import PrivacyPolicyScreen from '../screens/MobileApp/PrivacyPolicyScreen';
 import ProfileScreen from '../screens/MobileApp/ProfileScreen';
+import RectificationScreen from '../screens/MobileApp/RectificationScreen';
 import ReportsScreen from '../screens/MobileApp/ReportsScreen';
 import SettingsScreen from '../screens/MobileApp/SettingsScreen';
 import ShareUsScreen from '../screens/MobileApp/ShareUsScreen';
 import SubscriptionScreen from '../screens/MobileApp/SubscriptionScreen';
+import TaglineAnalysisScreen from '../screens/MobileApp/TaglineAnalysisScreen';
 import ThemeScreen from '../screens/MobileApp/ThemeScreen';
 
 
@@ -72,7 +81,7 @@ import OtpScreen from '../screens/AllDemos/OtpScreen';
 
 const Stack = createNativeStackNavigator();
 
-export default function App() {
+function AppNavigator() {
   return (
     <NavigationContainer>
       <Stack.Navigator initialRouteName="MainDemo" screenOptions={{ headerShown: false }}>
@@ -111,6 +120,12 @@ export default function App() {
         <Stack.Screen name="LiveSupportScreen" component={LiveSupportScreen} />     
         <Stack.Screen name="ProfileScreen" component={ProfileScreen} />   
         <Stack.Screen name="ReportsScreen" component={ReportsScreen} />
+        <Stack.Screen name="MuhurtaScreen" component={MuhurtaScreen} />
+        <Stack.Screen name="NameNumerologyScreen" component={NameNumerologyScreen} />
+        <Stack.Screen name="TaglineAnalysisScreen" component={TaglineAnalysisScreen} />
+        <Stack.Screen name="ChartImportScreen" component={ChartImportScreen} />
+        <Stack.Screen name="RectificationScreen" component={RectificationScreen} />
+        <Stack.Screen name="AnnualChartScreen" component={AnnualChartScreen} />
         <Stack.Screen name="SubscriptionScreen" component={SubscriptionScreen} />
         <Stack.Screen name="AboutScreen" component={AboutScreen} />
         <Stack.Screen name="PaymentScreen" component={PaymentScreen} />
@@ -153,3 +168,35 @@ export default function App() {
     </NavigationContainer>
   );
 }
+
+/**
+ * Chart preferences saved between sessions
+ */
+interface StoredChartPreferences {
+  chartStyle?: ChartStyle;
+}
+
+const saveChartStyle = (chartStyle: ChartStyle) => {
+  writeStoredValue<StoredChartPreferences>('chartPreferences', { chartStyle }).catch(() => undefined);
+};
+
+export default function App() {
+  const [storedPreferences, setStoredPreferences] = useState<StoredChartPreferences | null>(null);
+
+  useEffect(() => {
+    readStoredValue<StoredChartPreferences>('chartPreferences').then(stored => setStoredPreferences(stored ?? {}));
+  }, []);
+
+  // Wait for the saved preferences so the first chart is drawn in the saved style
+  if (!storedPreferences) return null;
+
+  const chartStyle = storedPreferences.chartStyle;
+  return (
+    <ChartPreferencesProvider
+      initialChartStyle={chartStyle && CHART_STYLES.includes(chartStyle) ? chartStyle : undefined}
+      onChartStyleChange={saveChartStyle}
+    >
+      <AppNavigator />
+    </ChartPreferencesProvider>
+  );
+}
@@ -1,7 +1,23 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Modal, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { DEFAULT_OBSERVER_LOCATION, formatEventTime, localDayStart } from '../../components/astrology/horizonUtils';
+import {
+  calculateLunarPhase,
+  getNextPhaseEvents,
+  getPhaseEventsBetween,
+  MOON_PHASE_NAMES,
+  MOON_PHASE_SYMBOLS,
+} from '../../components/astrology/lunarPhaseUtils';
+import { calculatePanchang, formatTithiShort, Panchang, PAKSHA_NAMES } from '../../components/astrology/panchangUtils';
+import { RetrogradeBadge } from '../../components/astrology/RetrogradeBadge';
+import {
+  getRetrogradeData,
+  getRetrogradePhase,
+  getRetrogradeSeason,
+  RETROGRADE_PHASE_NAMES,
+} from '../../components/astrology/retrogradeUtils';
 import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
 import { useTheme } from '../../components/foundations/themes/useTheme';
 import AnimatedCard from '../../components/MobileApp/AnimatedCard';
@@ -13,6 +29,24 @@ import { ArrowLeft } from 'lucide-react-native';
 import { fontSizes } from '../../components/foundations/tokens';
 
 const daysInMonth = (month: number, year: number) => new Date(year, month + 1, 0).getDate();
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Panchang end time, marked when it falls on a later day
+const formatUntil = (date: Date, panchang: Panchang) => {
+  const { timezone } = DEFAULT_OBSERVER_LOCATION;
+  const laterDay = localDayStart(date, timezone) > localDayStart(panchang.reckonedAt, timezone);
+  return `${formatEventTime(date, timezone)}${laterDay ? ' (next day)' : ''}`;
+};
+
+// Moment of a calendar day and hour at the observer's location
+const locationTime = (year: number, month: number, day: number, hour: number = 0) =>
+  new Date(Date.UTC(year, month, day, hour) - DEFAULT_OBSERVER_LOCATION.timezone * 3600000);
+
+// Day of the month at the observer's location
+const locationDay = (date: Date) => new Date(date.getTime() + DEFAULT_OBSERVER_LOCATION.timezone * 3600000).getUTCDate();
+
+const formatShortDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
 const getToday = () => {
   const now = new Date();
   return { day: now.getDate(), month: now.getMonth(), year: now.getFullYear() };
@@ -34,6 +68,41 @@ const CalendarTab: React.FC = () => {
 
   const days = Array.from({ length: daysInMonth(currentMonth, currentYear) }, (_, i) => i + 1);
 
+  const todayPhase = useMemo(() => calculateLunarPhase(new Date()), []);
+  const nextPhaseEvent = useMemo(() => getNextPhaseEvents(new Date())[0], []);
+
+  // Retrograde cycles whose shadows touch the next six months
+  const retrogradeSeason = useMemo(() => {
+    const now = new Date();
+    return getRetrogradeSeason(now, new Date(now.getTime() + 182 * 86400000)).map(cycle => ({
+      cycle,
+      data: getRetrogradeData(cycle, now),
+      phase: getRetrogradePhase(cycle, now),
+    }));
+  }, []);
+
+  // Principal phases of the shown month, keyed by day of the month
+  const monthPhases = useMemo(() => {
+    const events = getPhaseEventsBetween(locationTime(currentYear, currentMonth, 1), locationTime(currentYear, currentMonth + 1, 1));
+    return new Map(events.map(event => [locationDay(event.date), event.phase]));
+  }, [currentMonth, currentYear]);
+
+  // Panchang of each day of the shown month, reckoned at sunrise
+  const monthPanchang = useMemo(
+    () => Array.from(
+      { length: daysInMonth(currentMonth, currentYear) },
+      (_, i) => calculatePanchang(locationTime(currentYear, currentMonth, i + 1, 12), DEFAULT_OBSERVER_LOCATION)
+    ),
+    [currentMonth, currentYear]
+  );
+
+  const selectedPanchang = selectedDate ? monthPanchang[selectedDate.day - 1] : undefined;
+
+  const selectedPhase = useMemo(
+    () => selectedDate && calculateLunarPhase(locationTime(selectedDate.year, selectedDate.month, selectedDate.day, 12)),
+    [selectedDate]
+  );
+
   const handleDayPress = (day: number) => {
     setSelectedDate({ day, month: currentMonth, year: currentYear });
     setModalVisible(true);
@@ -122,6 +191,8 @@ const CalendarTab: React.FC = () => {
             {days.map(day => {
               const isToday =
                 day === today.day && currentMonth === today.month && currentYear === today.year;
+              const phase = monthPhases.get(day);
+              const panchang = monthPanchang[day - 1];
               return (
                 <TouchableOpacity
                   key={day}
@@ -132,6 +203,9 @@ const CalendarTab: React.FC = () => {
                   onPress={() => handleDayPress(day)}
                 >
                   <Text style={[styles.dayNumber, isToday && { color: colors.brand.accent }]}> {day} </Text>
+                  <Text style={[styles.phaseMarker, { color: colors.neutral.medium }]}>
+                    {phase ? `${MOON_PHASE_SYMBOLS[phase]} ` : ''}{panchang && formatTithiShort(panchang.tithi)}
+                  </Text>
                 </TouchableOpacity>
               );
             })}
@@ -151,14 +225,33 @@ const CalendarTab: React.FC = () => {
             <MaterialCommunityIcons name="moon-waning-crescent" size={32} color={colors.brand.accent} />
             <Text style={{ color: colors.brand.accent, fontWeight: 'bold', fontSize: fontSizes.h4.size, marginLeft: 10 }}>Moon Phase</Text>
           </View>
-          <Text style={{ color: colors.neutral.light, fontSize: fontSizes.body.size }}>Waxing Crescent</Text>
+          <Text style={{ color: colors.neutral.light, fontSize: fontSizes.body.size }}>
+            {MOON_PHASE_NAMES[todayPhase.phase]} · {Math.round(todayPhase.illumination * 100)}%
+          </Text>
         </AnimatedCard>
 
         <AnimatedCard style={{ marginHorizontal: 16, marginBottom: 12 }}>
           <Text style={{ color: colors.brand.primary, fontWeight: 'bold', fontSize: fontSizes.h4.size, marginBottom: 6 }}>Today's Astro Events</Text>
           <Text style={{ color: colors.neutral.light, fontSize: fontSizes.body.size }}>• Venus enters Leo
 • Sun trine Jupiter
-• Full Moon in Aquarius tomorrow</Text>
+• {MOON_PHASE_NAMES[nextPhaseEvent.phase]} on {nextPhaseEvent.date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}, {nextPhaseEvent.date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}</Text>
+        </AnimatedCard>
+
+        <AnimatedCard style={{ marginHorizontal: 16, marginBottom: 12 }}>
+          <Text style={{ color: colors.brand.primary, fontWeight: 'bold', fontSize: fontSizes.h4.size, marginBottom: 6 }}>Retrograde Season</Text>
+          {retrogradeSeason.map(({ cycle, data, phase }) => (
+            <View key={`${cycle.planet}-${data.startDate}`} style={styles.retrogradeRow}>
+              <RetrogradeBadge data={data} size="small" variant="compact" />
+              <View style={{ flex: 1, marginLeft: 10 }}>
+                <Text style={{ color: colors.neutral.light, fontSize: fontSizes.body.size }}>
+                  {formatShortDate(cycle.stationRetrograde.date)} – {formatShortDate(cycle.stationDirect.date)}
+                </Text>
+                <Text style={{ color: colors.neutral.medium, fontSize: 12 }}>
+                  Shadow {formatShortDate(cycle.preShadowStart)} – {formatShortDate(cycle.postShadowEnd)} · {RETROGRADE_PHASE_NAMES[phase]}
+                </Text>
+              </View>
+            </View>
+          ))}
         </AnimatedCard>
 
         <AnimatedCard style={{ marginHorizontal: 16, marginBottom: 12, flexDirection: 'row', justifyContent: 'space-around', alignItems: 'center', paddingVertical: 10 }}>
@@ -192,15 +285,35 @@ const CalendarTab: React.FC = () => {
               <Text style={[styles.modalDate, { color: colors.neutral.medium }]}> 
                 {selectedDate ? `${selectedDate.day} ${monthNames[selectedDate.month]}, ${selectedDate.year}` : ''}
               </Text>
-              {/* Enhanced astrological info; structure for easy extension */}
-              <View style={{ marginBottom: 16 }}>
-                <Text style={[styles.astroInfo, { color: colors.neutral.light }]}>• Moon Phase: Waxing Crescent</Text>
-                <Text style={[styles.astroInfo, { color: colors.neutral.light }]}>• Sun Sign: Leo</Text>
-                <Text style={[styles.astroInfo, { color: colors.neutral.light }]}>• Major Aspect: Venus trine Jupiter</Text>
-                <Text style={[styles.astroInfo, { color: colors.neutral.light }]}>• Lucky Color: Gold</Text>
-                <Text style={[styles.astroInfo, { color: colors.neutral.light }]}>• Lucky Number: 7</Text>
-                <Text style={[styles.astroInfo, { color: colors.neutral.light }]}>• Affirmation: "I embrace new beginnings with confidence and joy."</Text>
-              </View>
+              {/* Panchang at sunrise for the selected day */}
+              {selectedPanchang && (
+                <View style={{ marginBottom: 16 }}>
+                  <Text style={[styles.panchangInfo, { color: colors.neutral.light }]}>
+                    • Tithi: {PAKSHA_NAMES[selectedPanchang.tithi.paksha]} {selectedPanchang.tithi.name} until {formatUntil(selectedPanchang.tithi.endsAt, selectedPanchang)}
+                  </Text>
+                  <Text style={[styles.panchangInfo, { color: colors.neutral.light }]}>
+                    • Vara: {selectedPanchang.vara.name} ({capitalize(selectedPanchang.vara.lord)})
+                  </Text>
+                  <Text style={[styles.panchangInfo, { color: colors.neutral.light }]}>
+                    • Nakshatra: {selectedPanchang.nakshatra.nakshatra.name} {selectedPanchang.nakshatra.pada} until {formatUntil(selectedPanchang.nakshatra.endsAt, selectedPanchang)}
+                  </Text>
+                  <Text style={[styles.panchangInfo, { color: colors.neutral.light }]}>
+                    • Yoga: {selectedPanchang.yoga.name} until {formatUntil(selectedPanchang.yoga.endsAt, selectedPanchang)}
+                  </Text>
+                  <Text style={[styles.panchangInfo, { color: colors.neutral.light }]}>
+                    • Karana: {selectedPanchang.karana.name} until {formatUntil(selectedPanchang.karana.endsAt, selectedPanchang)}
+                  </Text>
+                  <Text style={[styles.panchangInfo, { color: colors.neutral.light }]}>
+                    • Sunrise {formatEventTime(selectedPanchang.sunrise, DEFAULT_OBSERVER_LOCATION.timezone)} · Sunset {formatEventTime(selectedPanchang.sunset, DEFAULT_OBSERVER_LOCATION.timezone)}
+                  </Text>
+                  <Text style={[styles.panchangInfo, { color: colors.neutral.light }]}>
+                    • Sun in {capitalize(selectedPanchang.sunRashi)} · Moon in {capitalize(selectedPanchang.moonRashi)}
+                  </Text>
+                  <Text style={[styles.panchangInfo, { color: colors.neutral.light }]}>
+                    • Moon Phase: {selectedPhase ? `${MOON_PHASE_NAMES[selectedPhase.phase]} (${Math.round(selectedPhase.illumination * 100)}%)` : ''}
+                  </Text>
+                </View>
+              )}
               <TouchableOpacity onPress={closeModal} style={styles.closeBtn}>
                 <LinearGradient
                   colors={[colors.brand.primary, colors.brand.accent]}
@@ -219,6 +332,11 @@ const CalendarTab: React.FC = () => {
 };
 
 const styles = StyleSheet.create({
+  retrogradeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
   headerRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -257,6 +375,10 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     backgroundColor: 'rgba(255,255,255,0.03)',
   },
+  phaseMarker: {
+    fontSize: 10,
+    lineHeight: 12,
+  },
   emptyDayCell: {
     width: `${100 / 7}%`,
     aspectRatio: 1,
@@ -288,9 +410,9 @@ const styles = StyleSheet.create({
     fontSize: fontSizes.body.size,
     marginBottom: 12,
   },
-  astroInfo: {
+  panchangInfo: {
     fontSize: fontSizes.body.size,
-    marginBottom: 24,
+    marginBottom: 8,
     textAlign: 'center',
   },
   closeBtn: {
@@ -1,6 +1,6 @@
 // Same imports as before
-import { useNavigation } from '@react-navigation/native';
-import React from 'react';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   FlatList,
   Image as RNImage,
@@ -9,6 +9,10 @@ import {
   Text,
   View
 } from 'react-native';
+import { calculateEphemeris } from '../../components/astrology/ephemerisUtils';
+import { DEFAULT_OBSERVER_LOCATION, ObserverLocation } from '../../components/astrology/horizonUtils';
+import { getPlace, getPlaceLocation } from '../../components/astrology/placesUtils';
+import { generateHoroscope } from '../../components/astrology/transitForecastUtils';
 import { ZodiacSign } from '../../components/astrology/ZodiacCard';
 import ButtonIcon from '../../components/buttons/ButtonIcon';
 import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
@@ -33,14 +37,21 @@ import QuickActions from '../../components/MobileApp/QuickActions';
 import Statusbar from '../../components/MobileApp/Statusbar';
 import TodaysWeather from '../../components/MobileApp/TodaysWeather';
 import { Label } from '../../components/typography';
+import { readStoredValue, StoredProfile } from '../appStorage';
 
 // Typography tokens
 
-const horoscopeData = {
-  content:
-    'Today is a day for new beginnings.Trust your intuition and embrace opportunities that come your way.',
-  mood: 'excellent' as 'excellent',
-};
+// Sample birth chart until profiles supply one
+const natalChart = calculateEphemeris({
+  datetime: '1995-08-10T06:30',
+  timezone: 5.5,
+  latitude: 28.6139,
+  longitude: 77.209,
+  location: 'New Delhi, India',
+});
+
+// Sun sign of the sample chart (10 August)
+const natalSunSign: ZodiacSign = 'leo';
 
 const HomeTab: React.FC = () => {
   const { colors } = useTheme();
@@ -48,6 +59,25 @@ const HomeTab: React.FC = () => {
 
   const mainListData = [{ key: 'content' }];
 
+  // Place for today's sky times: the saved profile's place, else the default
+  const [homeLocation, setHomeLocation] = useState<ObserverLocation>(DEFAULT_OBSERVER_LOCATION);
+  useFocusEffect(useCallback(() => {
+    readStoredValue<StoredProfile>('profile').then(profile => {
+      const place = profile?.birthPlaceId ? getPlace(profile.birthPlaceId) : undefined;
+      setHomeLocation(place ? getPlaceLocation(place) : DEFAULT_OBSERVER_LOCATION);
+    });
+  }, []));
+
+  const horoscopes = useMemo(() => {
+    const day = 86400000;
+    const now = Date.now();
+    return {
+      yesterday: generateHoroscope(natalChart, 'daily', 'general', new Date(now - day)),
+      today: generateHoroscope(natalChart, 'daily', 'general', new Date(now)),
+      tomorrow: generateHoroscope(natalChart, 'daily', 'general', new Date(now + day)),
+    };
+  }, []);
+
   return (
     <View style={{ flex: 1, backgroundColor: colors.cosmos.deep }}>
       <Statusbar />
@@ -114,7 +144,12 @@ const HomeTab: React.FC = () => {
               </AnimatedCard>
 
               <AnimatedCard>
-                <ModernHoroscopeCard sign={'leo' as ZodiacSign} horoscope={horoscopeData} />
+                <ModernHoroscopeCard
+                  sign={natalSunSign}
+                  horoscope={horoscopes.today}
+                  days={horoscopes}
+                  chartLabel="Sample chart"
+                />
               </AnimatedCard>
 
               <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
@@ -151,7 +186,7 @@ const HomeTab: React.FC = () => {
   
 
               <AnimatedCard style={{ marginBottom: 20, marginTop: -20 }}>
-                <TodaysWeather />
+                <TodaysWeather location={homeLocation} />
               </AnimatedCard>
  
  
@@ -1,4 +1,5 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
 import { LinearGradient } from 'expo-linear-gradient';
 import React from 'react';
 import { Dimensions, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
@@ -7,18 +8,26 @@ import Section from './Section';
 
 const CARD_WIDTH = (Dimensions.get('window').width - 64) / 4;
 
-const businessFeatures = [
+const businessFeatures: {
+  id: string;
+  title: string;
+  icon: string;
+  gradient: string[];
+  screen?: string;
+}[] = [
   {
     id: 'name-numerology',
     title: 'Name Numerology',
     icon: 'format-letter-case',
     gradient: ['#B2FEFA', '#0ED2F7'], // Aqua clarity
+    screen: 'NameNumerologyScreen',
   },
   {
     id: 'tagline-analysis',
     title: 'Tagline Analysis',
     icon: 'text-search',
     gradient: ['#FFDEE9', '#1D2671'], // Creative branding feel
+    screen: 'TaglineAnalysisScreen',
   },
   {
     id: 'business-insights',
@@ -31,17 +40,23 @@ const businessFeatures = [
     title: 'Startup Muhurta',
     icon: 'calendar-clock',
     gradient: ['#E0C3FC', '#8EC5FC'], // Spiritual and time-aligned
+    screen: 'MuhurtaScreen',
   },
 ];
 
 const BusinessAndNumerology: React.FC = () => {
   const { colors } = useTheme();
+  const navigation = useNavigation<any>();
 
   return (
     <Section title="🔢 Business & Numerology">
       <View style={styles.row}>
         {businessFeatures.map(item => (
-          <TouchableOpacity key={item.id} activeOpacity={0.9}>
+          <TouchableOpacity
+            key={item.id}
+            activeOpacity={0.9}
+            onPress={() => item.screen && navigation.navigate(item.screen)}
+          >
             <LinearGradient
               colors={item.gradient as any}
               style={[styles.card, { borderColor: String(colors.brand.primary) + '40' }]}
@@ -0,0 +1,86 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { KARMIC_DEBT_MEANINGS, NUMBER_MEANINGS, NumberReduction } from '../../components/astrology/numerologyUtils';
+import { useTheme } from '../../components/foundations/themes/useTheme';
+
+interface CoreNumberListProps {
+  numbers: { label: string; reduction: NumberReduction }[];
+}
+
+const CoreNumberList: React.FC<CoreNumberListProps> = ({ numbers }) => {
+  const { colors } = useTheme();
+
+  return (
+    <View>
+      {numbers.map(({ label, reduction }, index) => (
+        <View
+          key={label}
+          style={[
+            styles.row,
+            { borderBottomColor: String(colors.brand.primary) + '20' },
+            index === numbers.length - 1 && { borderBottomWidth: 0 },
+          ]}
+        >
+          <View style={[styles.badge, { borderColor: colors.brand.primary }]}>
+            <Text style={[styles.badgeText, { color: colors.brand.primary }]}>{reduction.value}</Text>
+          </View>
+          <View style={styles.content}>
+            <Text style={[styles.label, { color: colors.neutral.light }]}>
+              {label}
+              {reduction.isMaster && <Text style={{ color: colors.luxury.champagne }}> · Master Number</Text>}
+            </Text>
+            <Text style={[styles.meaning, { color: colors.neutral.medium }]}>
+              {NUMBER_MEANINGS[reduction.value] ?? 'No letters to count'}
+            </Text>
+            {reduction.karmicDebt !== undefined && (
+              <Text style={[styles.meaning, { color: colors.luxury.champagne }]}>
+                Karmic Debt {reduction.karmicDebt}: {KARMIC_DEBT_MEANINGS[reduction.karmicDebt]}
+              </Text>
+            )}
+          </View>
+          <Text style={[styles.steps, { color: colors.neutral.medium }]}>{reduction.steps.join(' → ')}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  badge: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  badgeText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  content: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  meaning: {
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  steps: {
+    fontSize: 12,
+    marginLeft: 8,
+  },
+});
+
+export default CoreNumberList;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { LetterValue, NumberReduction } from '../../components/astrology/numerologyUtils';
+import { useTheme } from '../../components/foundations/themes/useTheme';
+
+interface LetterBreakdownProps {
+  letters: LetterValue[];
+  /** Reduction of all letters, shown as the running sum */
+  destiny?: NumberReduction;
+}
+
+const LetterBreakdown: React.FC<LetterBreakdownProps> = ({ letters, destiny }) => {
+  const { colors } = useTheme();
+  const words = letters.reduce<LetterValue[][]>((groups, letter) => {
+    (groups[letter.word] = groups[letter.word] ?? []).push(letter);
+    return groups;
+  }, []);
+
+  return (
+    <View>
+      {words.map((word, index) => (
+        <View key={index} style={styles.word}>
+          {word.map((letter, position) => (
+            <View
+              key={position}
+              style={[
+                styles.cell,
+                {
+                  borderColor: String(colors.brand.primary) + '40',
+                  backgroundColor: letter.isVowel ? String(colors.brand.primary) + '25' : 'transparent',
+                },
+              ]}
+            >
+              <Text style={[styles.letter, { color: colors.neutral.light }]}>{letter.letter}</Text>
+              <Text style={[styles.value, { color: colors.brand.primary }]}>{letter.value}</Text>
+            </View>
+          ))}
+          <Text style={[styles.wordTotal, { color: colors.neutral.medium }]}>
+            = {word.reduce((sum, letter) => sum + letter.value, 0)}
+          </Text>
+        </View>
+      ))}
+
+      {destiny && (
+        <Text style={[styles.reduction, { color: colors.neutral.medium }]}>
+          Total {destiny.steps.join(' → ')}
+        </Text>
+      )}
+      <Text style={[styles.legend, { color: colors.neutral.medium }]}>Highlighted letters are vowels</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  word: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  cell: {
+    width: 30,
+    alignItems: 'center',
+    paddingVertical: 4,
+    marginRight: 4,
+    marginBottom: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  letter: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  value: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  wordTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  reduction: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  legend: {
+    fontSize: 11,
+    marginTop: 6,
+  },
+});
+
+export default LetterBreakdown;
@@ -4,12 +4,20 @@ import { Text, TouchableOpacity, View } from 'react-native';
 import { ZodiacSign } from '../../components/astrology/ZodiacCard';
 import { CARD_GLASS_PRESET, createGlassMorphismStyle } from '../../components/foundations/effects/GlassMorphism';
 
+type HoroscopeTab = 'yesterday' | 'today' | 'tomorrow';
+
+interface HoroscopeContent {
+  content: string;
+  mood?: 'excellent' | 'good' | 'average' | 'bad' | 'challenging';
+}
+
 interface ModernHoroscopeCardProps {
   sign: ZodiacSign;
-  horoscope: {
-    content: string;
-    mood: 'excellent' | 'good' | 'average' | 'bad';
-  };
+  horoscope: HoroscopeContent;
+  /** Readings per tab; tabs without one show `horoscope` */
+  days?: Partial<Record<HoroscopeTab, HoroscopeContent>>;
+  /** Whose chart the readings are cast for, e.g. 'Sample chart' */
+  chartLabel?: string;
 }
 
 const zodiacSymbols: Record<ZodiacSign, string> = {
@@ -22,18 +30,21 @@ const moodColors = {
   good: '#38BDF8',
   average: '#FACC15',
   bad: '#EF4444',
+  challenging: '#F97316',
 };
 
-const ModernHoroscopeCard: React.FC<ModernHoroscopeCardProps> = ({ sign, horoscope }) => {
+const ModernHoroscopeCard: React.FC<ModernHoroscopeCardProps> = ({ sign, horoscope, days, chartLabel }) => {
   const glassCardStyle = createGlassMorphismStyle(CARD_GLASS_PRESET);
-  const [activeTab, setActiveTab] = useState<'yesterday' | 'today' | 'tomorrow'>('today');
+  const [activeTab, setActiveTab] = useState<HoroscopeTab>('today');
+  const reading = days?.[activeTab] ?? horoscope;
 
-  const getMoodEmoji = (mood: string) => {
+  const getMoodEmoji = (mood?: string) => {
     switch (mood) {
       case 'excellent': return '🌟';
       case 'good': return '😊';
       case 'average': return '😐';
       case 'bad': return '😔';
+      case 'challenging': return '💪';
       default: return '✨';
     }
   };
@@ -126,7 +137,7 @@ const ModernHoroscopeCard: React.FC<ModernHoroscopeCardProps> = ({ sign, horosco
               {tabs.find(tab => tab.key === activeTab)?.label} Horoscope
             </Text>
             <Text style={{ fontSize: 14, color: '#000' }}>
-              for {sign.charAt(0).toUpperCase() + sign.slice(1)} {getMoodEmoji(horoscope.mood)}
+              for {sign.charAt(0).toUpperCase() + sign.slice(1)}{chartLabel ? ` · ${chartLabel}` : ''} {getMoodEmoji(reading.mood)}
             </Text>
           </View>
         </View>
@@ -140,7 +151,7 @@ const ModernHoroscopeCard: React.FC<ModernHoroscopeCardProps> = ({ sign, horosco
             fontStyle: 'normal',
           }}
         >
-          “{horoscope.content}”
+          “{reading.content}”
         </Text>
       </LinearGradient>
     </View>
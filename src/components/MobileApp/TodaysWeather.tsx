@@ -1,12 +1,61 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { StyleSheet, Text, View } from 'react-native';
+import {
+  DEFAULT_OBSERVER_LOCATION,
+  formatEventTime,
+  nextLocalMidnight,
+  ObserverLocation,
+} from '../../components/astrology/horizonUtils';
+import { calculateMoonTimes } from '../../components/astrology/lunarPhaseUtils';
+import { calculateSunTimes, KAAL_PERIOD_NAMES, KaalPeriod, TimeWindow } from '../../components/astrology/sunTimesUtils';
 import { useTheme } from '../../components/foundations/themes/useTheme';
 import CustomCard from './CustomCard';
 
-const TodaysWeather: React.FC = () => {
+interface TodaysWeatherProps {
+  /** User's saved location for rise, set and kaal times (default: New Delhi) */
+  location?: ObserverLocation;
+}
+
+const KAAL_ICONS: Record<KaalPeriod, keyof typeof MaterialCommunityIcons.glyphMap> = {
+  rahu_kaal: 'alert-octagon-outline',
+  yamaganda: 'timer-sand',
+  gulika_kaal: 'clock-alert-outline',
+};
+
+const TodaysWeather: React.FC<TodaysWeatherProps> = ({ location = DEFAULT_OBSERVER_LOCATION }) => {
   const { colors } = useTheme();
+  const [now, setNow] = useState(() => new Date());
+
+  // Recalculate when the day changes at the location
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setNow(new Date()),
+      nextLocalMidnight(now, location.timezone).getTime() - Date.now() + 1000
+    );
+    return () => clearTimeout(timer);
+  }, [now, location.timezone]);
+
+  const sunTimes = useMemo(() => calculateSunTimes(now, location), [now, location]);
+  const moonTimes = useMemo(() => calculateMoonTimes(now, location), [now, location]);
+
+  const formatTime = (date?: Date) => formatEventTime(date, location.timezone);
+  const formatWindow = (window?: TimeWindow) =>
+    window ? `${formatTime(window.start)} - ${formatTime(window.end)}` : '--';
+
+  const rows: { icon: keyof typeof MaterialCommunityIcons.glyphMap; label: string; value: string }[] = [
+    { icon: 'weather-sunset-up', label: 'Sunrise', value: formatTime(sunTimes.sunrise) },
+    { icon: 'weather-sunset-down', label: 'Sunset', value: formatTime(sunTimes.sunset) },
+    { icon: 'weather-night', label: 'Civil Twilight', value: `${formatTime(sunTimes.civilDawn)} / ${formatTime(sunTimes.civilDusk)}` },
+    { icon: 'moon-waxing-crescent', label: 'Moonrise', value: formatTime(moonTimes.rise) },
+    { icon: 'moon-waning-crescent', label: 'Moonset', value: formatTime(moonTimes.set) },
+    ...(Object.keys(KAAL_PERIOD_NAMES) as KaalPeriod[]).map(period => ({
+      icon: KAAL_ICONS[period],
+      label: KAAL_PERIOD_NAMES[period],
+      value: formatWindow(sunTimes.kaal?.[period]),
+    })),
+  ];
 
   return (
     <CustomCard title="Today's Weather">
@@ -16,29 +65,17 @@ const TodaysWeather: React.FC = () => {
         end={{ x: 1, y: 1 }}
         style={styles.card}
       >
-        <View style={styles.row}>
-          <MaterialCommunityIcons name="weather-sunset-up" size={24} color="#000" />
-          <Text style={[styles.label, { color: '#000' }]}>Sunrise</Text>
-          <Text style={[styles.value, { color: '#000' }]}>6:05 AM</Text>
-        </View>
-
-        <View style={styles.row}>
-          <MaterialCommunityIcons name="weather-sunset-down" size={24} color="#000" />
-          <Text style={[styles.label, { color: '#000' }]}>Sunset</Text>
-          <Text style={[styles.value, { color: '#000' }]}>7:45 PM</Text>
-        </View>
+        {location.name && (
+          <Text style={[styles.location, { color: '#000' }]}>{location.name}</Text>
+        )}
 
-        <View style={styles.row}>
-          <MaterialCommunityIcons name="moon-waxing-crescent" size={24} color="#000" />
-          <Text style={[styles.label, { color: '#000' }]}>Moonrise</Text>
-          <Text style={[styles.value, { color: '#000' }]}>8:30 PM</Text>
-        </View>
-
-        <View style={[styles.row, { borderBottomWidth: 0 }]}>
-          <MaterialCommunityIcons name="moon-waning-crescent" size={24} color="#000" />
-          <Text style={[styles.label, { color: '#000' }]}>Moonset</Text>
-          <Text style={[styles.value, { color: '#000' }]}>7:15 AM</Text>
-        </View>
+        {rows.map((row, index) => (
+          <View key={row.label} style={[styles.row, index === rows.length - 1 && { borderBottomWidth: 0 }]}>
+            <MaterialCommunityIcons name={row.icon} size={24} color="#000" />
+            <Text style={[styles.label, { color: '#000' }]}>{row.label}</Text>
+            <Text style={[styles.value, { color: '#000' }]}>{row.value}</Text>
+          </View>
+        ))}
       </LinearGradient>
     </CustomCard>
   );
@@ -50,6 +87,11 @@ const styles = StyleSheet.create({
     padding: 18,
     marginTop: -10,
   },
+  location: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
   row: {
     flexDirection: 'row',
     alignItems: 'center',
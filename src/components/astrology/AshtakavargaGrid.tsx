@@ -0,0 +1,415 @@
+/**
+ * Corp Astro UI Library - Ashtakavarga Grid Component
+ *
+ * Tabulates the Bhinnashtakavarga of the seven planets and the
+ * Sarvashtakavarga totals across the twelve signs of a chart.
+ *
+ * Features:
+ * - One row per planet plus the Sarvashtakavarga row
+ * - Columns in zodiacal order or by house from the ascendant
+ * - Favourable signs highlighted against the classical thresholds
+ * - Contributor breakdown (prastara) for a selected planet
+ * - Cell press callback for transit timing tools
+ * - Accessibility support
+ *
+ * Design System Compliance:
+ * - Glass morphism container with cosmic gradients
+ * - Consistent spacing and typography
+ * - Planet colors matching PlanetIndicator
+ *
+ * @module AshtakavargaGrid
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ViewStyle,
+  TouchableOpacity,
+  ScrollView,
+  AccessibilityProps,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SignatureBlues } from '../foundations/tokens/colors/SignatureBlues';
+import { ProfessionalGrays } from '../foundations/tokens/colors/ProfessionalGrays';
+import { spacing } from '../foundations/tokens/spacing/SpacingScale';
+import { getFontFamily } from '../foundations/tokens/typography/FontFamilies';
+import { planetInfo } from './PlanetIndicator';
+import { NorthIndianChartData, VedicRashi, VEDIC_RASHIS } from './NorthIndianChart';
+import {
+  AshtakavargaPlanet,
+  AshtakavargaResult,
+  AshtakavargaContributor,
+  ASHTAKAVARGA_PLANETS,
+  ASHTAKAVARGA_CONTRIBUTORS,
+  SARVASHTAKAVARGA_THRESHOLD,
+  BHINNASHTAKAVARGA_THRESHOLD,
+  calculateAshtakavarga,
+} from './ashtakavargaUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A grid row: a planet's table or the Sarvashtakavarga
+ */
+export type AshtakavargaRow = AshtakavargaPlanet | 'sarva';
+
+export interface AshtakavargaGridProps extends AccessibilityProps {
+  /** Processed chart the tables are calculated from */
+  chartData: NorthIndianChartData;
+  /** Precalculated tables (calculated from chartData when omitted) */
+  ashtakavarga?: AshtakavargaResult;
+  /** Column order: zodiacal from Aries, or by house from the ascendant */
+  columnOrder?: 'rashi' | 'house';
+  /** Planet whose contributor breakdown is shown initially */
+  initialPlanet?: AshtakavargaPlanet;
+  /** Cell press handler */
+  onCellPress?: (row: AshtakavargaRow, rashi: VedicRashi, bindus: number) => void;
+  /** Custom styling */
+  style?: ViewStyle;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const RASHI_ABBREVIATIONS: Record<VedicRashi, string> = {
+  aries: 'Ar',
+  taurus: 'Ta',
+  gemini: 'Ge',
+  cancer: 'Cn',
+  leo: 'Le',
+  virgo: 'Vi',
+  libra: 'Li',
+  scorpio: 'Sc',
+  sagittarius: 'Sg',
+  capricorn: 'Cp',
+  aquarius: 'Aq',
+  pisces: 'Pi',
+};
+
+const CONTRIBUTOR_LABELS: Record<AshtakavargaContributor, string> = {
+  sun: 'Su',
+  moon: 'Mo',
+  mars: 'Ma',
+  mercury: 'Me',
+  jupiter: 'Ju',
+  venus: 'Ve',
+  saturn: 'Sa',
+  ascendant: 'As',
+};
+
+const LABEL_WIDTH = 44;
+const CELL_WIDTH = 30;
+const TOTAL_WIDTH = 36;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Ashtakavarga Grid - Bindu tables in the Corp Astro glass style
+ */
+export const AshtakavargaGrid: React.FC<AshtakavargaGridProps> = ({
+  chartData,
+  ashtakavarga,
+  columnOrder = 'house',
+  initialPlanet,
+  onCellPress,
+  style,
+  testID = 'corp-astro-ashtakavarga-grid',
+  ...accessibilityProps
+}) => {
+  // ============================================================================
+  // HOOKS & STATE
+  // ============================================================================
+
+  const [selectedPlanet, setSelectedPlanet] = useState<AshtakavargaPlanet | undefined>(initialPlanet);
+
+  const result = useMemo(() => {
+    if (ashtakavarga) return { data: ashtakavarga, error: undefined };
+    try {
+      return { data: calculateAshtakavarga(chartData), error: undefined };
+    } catch (error) {
+      return { data: undefined, error: error instanceof Error ? error.message : 'Unable to calculate Ashtakavarga' };
+    }
+  }, [ashtakavarga, chartData]);
+
+  /**
+   * Sign indices in column order
+   */
+  const columns = useMemo(() => {
+    const start = columnOrder === 'house' && result.data ? result.data.ascendantSign : 0;
+    return Array.from({ length: 12 }, (_, index) => (start + index) % 12);
+  }, [columnOrder, result.data]);
+
+  // ============================================================================
+  // RENDER HELPERS
+  // ============================================================================
+
+  /**
+   * Render the column headers
+   */
+  const renderHeader = () => (
+    <View style={styles.row}>
+      <View style={styles.labelCell} />
+      {columns.map((sign, index) => (
+        <View key={sign} style={styles.headerCell}>
+          {columnOrder === 'house' && <Text style={styles.houseText}>{index + 1}</Text>}
+          <Text style={styles.headerText}>{RASHI_ABBREVIATIONS[VEDIC_RASHIS[sign]]}</Text>
+        </View>
+      ))}
+      <View style={styles.totalCell}>
+        <Text style={styles.headerText}>Σ</Text>
+      </View>
+    </View>
+  );
+
+  /**
+   * Render a row of bindu counts
+   */
+  const renderRow = (row: AshtakavargaRow, bindus: number[], total: number) => {
+    const isSarva = row === 'sarva';
+    const threshold = isSarva ? SARVASHTAKAVARGA_THRESHOLD : BHINNASHTAKAVARGA_THRESHOLD;
+    const isSelected = row === selectedPlanet;
+
+    return (
+      <View key={row} style={[styles.row, isSarva && styles.sarvaRow, isSelected && styles.selectedRow]}>
+        <TouchableOpacity
+          style={styles.labelCell}
+          disabled={isSarva}
+          onPress={() => setSelectedPlanet(isSelected ? undefined : row as AshtakavargaPlanet)}
+          accessibilityRole="button"
+          accessibilityLabel={isSarva ? 'Sarvashtakavarga' : `${planetInfo[row].name} Ashtakavarga`}
+        >
+          <Text style={[styles.labelText, !isSarva && { color: planetInfo[row].color }]}>
+            {isSarva ? 'SAV' : `${planetInfo[row].symbol} ${CONTRIBUTOR_LABELS[row]}`}
+          </Text>
+        </TouchableOpacity>
+        {columns.map(sign => {
+          const count = bindus[sign];
+          const rashi = VEDIC_RASHIS[sign];
+          return (
+            <TouchableOpacity
+              key={sign}
+              style={[styles.cell, count >= threshold ? styles.favourableCell : styles.weakCell]}
+              onPress={() => onCellPress?.(row, rashi, count)}
+              disabled={!onCellPress}
+              accessibilityLabel={`${isSarva ? 'Sarvashtakavarga' : planetInfo[row].name} ${rashi} ${count} bindus`}
+            >
+              <Text style={[styles.cellText, isSarva && styles.sarvaText]}>{count}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        <View style={styles.totalCell}>
+          <Text style={[styles.cellText, styles.totalText]}>{total}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  /**
+   * Render the contributor breakdown of the selected planet
+   */
+  const renderContributions = (data: AshtakavargaResult) => {
+    if (!selectedPlanet) return null;
+    const table = data.bhinnashtakavarga[selectedPlanet];
+
+    return (
+      <View style={styles.breakdown}>
+        <Text style={styles.breakdownTitle}>
+          {planetInfo[selectedPlanet].name} Bhinnashtakavarga by contributor
+        </Text>
+        {ASHTAKAVARGA_CONTRIBUTORS.map(contributor => (
+          <View key={contributor} style={styles.row}>
+            <View style={styles.labelCell}>
+              <Text style={styles.labelText}>{CONTRIBUTOR_LABELS[contributor]}</Text>
+            </View>
+            {columns.map(sign => (
+              <View key={sign} style={styles.cell}>
+                <Text style={styles.cellText}>{table.contributions[contributor][sign] ? '•' : ''}</Text>
+              </View>
+            ))}
+            <View style={styles.totalCell}>
+              <Text style={[styles.cellText, styles.totalText]}>
+                {table.contributions[contributor].reduce((sum, bindu) => sum + bindu, 0)}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  return (
+    <View
+      style={[styles.container, style]}
+      testID={testID}
+      accessibilityLabel="Ashtakavarga tables"
+      {...accessibilityProps}
+    >
+      <LinearGradient
+        colors={[
+          'rgba(26, 26, 46, 0.95)',
+          'rgba(22, 33, 62, 0.9)',
+          'rgba(15, 52, 96, 0.85)',
+        ]}
+        locations={[0, 0.5, 1]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={StyleSheet.absoluteFillObject}
+      />
+
+      <Text style={styles.title}>Ashtakavarga</Text>
+
+      {result.data ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View>
+            {renderHeader()}
+            {ASHTAKAVARGA_PLANETS.map(planet => {
+              const table = result.data!.bhinnashtakavarga[planet];
+              return renderRow(planet, table.bindus, table.total);
+            })}
+            {renderRow('sarva', result.data.sarvashtakavarga, result.data.total)}
+            {renderContributions(result.data)}
+          </View>
+        </ScrollView>
+      ) : (
+        <Text style={styles.errorText}>{result.error}</Text>
+      )}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(22, 33, 62, 0.3)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    padding: spacing.md,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    color: ProfessionalGrays.white,
+    fontSize: 18,
+    fontFamily: getFontFamily('heading'),
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sarvaRow: {
+    marginTop: 4,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  selectedRow: {
+    backgroundColor: 'rgba(46, 134, 222, 0.2)',
+  },
+  labelCell: {
+    width: LABEL_WIDTH,
+    paddingVertical: 4,
+  },
+  labelText: {
+    color: ProfessionalGrays.light,
+    fontSize: 11,
+    fontFamily: getFontFamily('body'),
+    fontWeight: '600',
+  },
+  headerCell: {
+    width: CELL_WIDTH,
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  headerText: {
+    color: SignatureBlues.light,
+    fontSize: 10,
+    fontFamily: getFontFamily('body'),
+    fontWeight: '600',
+  },
+  houseText: {
+    color: ProfessionalGrays.medium,
+    fontSize: 9,
+    fontFamily: getFontFamily('body'),
+  },
+  cell: {
+    width: CELL_WIDTH,
+    height: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  favourableCell: {
+    backgroundColor: 'rgba(78, 205, 196, 0.2)',
+  },
+  weakCell: {
+    backgroundColor: 'rgba(255, 107, 107, 0.08)',
+  },
+  cellText: {
+    color: ProfessionalGrays.white,
+    fontSize: 11,
+    fontFamily: getFontFamily('body'),
+  },
+  sarvaText: {
+    fontWeight: 'bold',
+  },
+  totalCell: {
+    width: TOTAL_WIDTH,
+    alignItems: 'center',
+  },
+  totalText: {
+    color: SignatureBlues.light,
+    fontWeight: '600',
+  },
+  breakdown: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  breakdownTitle: {
+    color: ProfessionalGrays.white,
+    fontSize: 13,
+    fontFamily: getFontFamily('heading'),
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  errorText: {
+    color: ProfessionalGrays.medium,
+    fontSize: 12,
+    fontFamily: getFontFamily('body'),
+    fontStyle: 'italic',
+  },
+});
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default AshtakavargaGrid;
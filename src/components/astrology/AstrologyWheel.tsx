@@ -9,6 +9,7 @@
  * - Interactive zodiac signs and houses
  * - Planet position indicators
  * - Aspect lines
+ * - Bi-wheel mode for transits and synastry with cross-chart aspects
  * - Smooth animations and transitions
  * - Accessibility support
  * 
@@ -102,8 +103,12 @@ export interface AstrologyWheelData {
   planets: PlanetPosition[];
   /** Aspects between planets */
   aspects?: AspectData[];
+  /** Transiting or partner planets for the outer ring of a bi-wheel */
+  outerPlanets?: PlanetPosition[];
+  /** Aspects from inner-ring planets (planet1) to outer-ring planets (planet2) */
+  crossAspects?: AspectData[];
   /** Chart type */
-  chartType?: 'natal' | 'transit' | 'synastry' | 'composite';
+  chartType?: 'natal' | 'transit' | 'synastry' | 'composite' | 'solar-return' | 'lunar-return' | 'varshaphal';
   /** Chart title */
   title?: string;
   /** Chart date */
@@ -126,8 +131,8 @@ export interface AstrologyWheelProps extends AccessibilityProps {
   interactive?: boolean;
   /** Whether to animate on mount */
   animate?: boolean;
-  /** Planet press handler */
-  onPlanetPress?: (planet: Planet, position: PlanetPosition) => void;
+  /** Planet press handler; ring is 'outer' for bi-wheel transit or partner planets */
+  onPlanetPress?: (planet: Planet, position: PlanetPosition, ring: 'inner' | 'outer') => void;
   /** Sign press handler */
   onSignPress?: (sign: ZodiacSign) => void;
   /** House press handler */
@@ -207,6 +212,11 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
   const [planetValues] = useState(
     data.planets.map(() => new Animated.Value(0))
   );
+  const [outerPlanetValues] = useState(
+    (data.outerPlanets ?? []).map(() => new Animated.Value(0))
+  );
+
+  const isBiWheel = !!data.outerPlanets?.length;
 
   // Get size configurations
   const getSizeConfig = () => {
@@ -262,7 +272,7 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
       ).start();
 
       // Planet animations
-      const planetAnimations = planetValues.map((animatedValue, index) =>
+      const planetAnimations = [...planetValues, ...outerPlanetValues].map((animatedValue, index) =>
         Animated.timing(animatedValue, {
           toValue: 1,
           duration: 1000,
@@ -275,8 +285,9 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
     } else {
       scaleValue.setValue(1);
       planetValues.forEach(value => value.setValue(1));
+      outerPlanetValues.forEach(value => value.setValue(1));
     }
-  }, [animate, scaleValue, rotateValue, planetValues]);
+  }, [animate, scaleValue, rotateValue, planetValues, outerPlanetValues]);
 
   // Convert degree to radians
   const degToRad = (degrees: number) => (degrees * Math.PI) / 180;
@@ -291,6 +302,21 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
     };
   };
 
+  // Planet ring radii: one ring, or natal inside and transit/partner outside
+  const ringRadii = isBiWheel
+    ? {
+        inner: sizeConfig.outerRadius * 0.47,
+        outer: sizeConfig.outerRadius * 0.64,
+        divider: sizeConfig.outerRadius * 0.555,
+        houses: sizeConfig.outerRadius * 0.35,
+      }
+    : {
+        inner: sizeConfig.outerRadius - 60,
+        outer: sizeConfig.outerRadius - 60,
+        divider: 0,
+        houses: sizeConfig.innerRadius + 20,
+      };
+
   // Render zodiac signs
   const renderZodiacSigns = () => {
     const signs = Object.entries(zodiacInfo);
@@ -327,7 +353,7 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
     if (!showHouses) return null;
 
     return data.houses.map((house, index) => {
-      const position = getPositionOnCircle(house.cusp, sizeConfig.innerRadius + 20);
+      const position = getPositionOnCircle(house.cusp, ringRadii.houses);
       
       return (
         <TouchableOpacity
@@ -352,16 +378,20 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
     });
   };
 
-  // Render planets
-  const renderPlanets = () => {
-    return data.planets.map((planetPos, index) => {
+  // Render a ring of planets
+  const renderPlanetRing = (
+    positions: PlanetPosition[],
+    radius: number,
+    animatedValues: Animated.Value[],
+    ring: 'inner' | 'outer'
+  ) => {
+    return positions.map((planetPos, index) => {
       const planet = planetInfo[planetPos.planet];
-      const radius = sizeConfig.outerRadius - 60;
       const position = getPositionOnCircle(planetPos.degree, radius);
       
       return (
         <Animated.View
-          key={`${planetPos.planet}-${index}`}
+          key={`${ring}-${planetPos.planet}-${index}`}
           style={[
             styles.planetContainer,
             {
@@ -369,13 +399,14 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
               top: sizeConfig.outerRadius + position.y - planet.size / 2,
               width: planet.size,
               height: planet.size,
-              transform: [{ scale: planetValues[index] }],
+              transform: [{ scale: animatedValues[index] ?? 1 }],
             },
           ]}
         >
           <TouchableOpacity
             style={[
               styles.planetButton,
+              ring === 'outer' && styles.outerPlanetButton,
               {
                 backgroundColor: planet.color,
                 borderRadius: planet.size / 2,
@@ -383,7 +414,7 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
                 height: planet.size,
               },
             ]}
-            onPress={(event) => onPlanetPress?.(planetPos.planet, planetPos)}
+            onPress={() => onPlanetPress?.(planetPos.planet, planetPos, ring)}
             disabled={!interactive}
           >
             <Text style={[styles.planetSymbol, { fontSize: planet.size * 0.6 }]}>
@@ -401,6 +432,46 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
     });
   };
 
+  // Render planets
+  const renderPlanets = () => (
+    <>
+      {renderPlanetRing(data.planets, ringRadii.inner, planetValues, 'inner')}
+      {isBiWheel && renderPlanetRing(data.outerPlanets!, ringRadii.outer, outerPlanetValues, 'outer')}
+    </>
+  );
+
+  // Render a line between two points on the wheel
+  const renderAspectLine = (
+    key: string,
+    pos1: { x: number; y: number },
+    pos2: { x: number; y: number },
+    aspect: AspectData,
+    thickness: number
+  ) => {
+    const lineLength = Math.sqrt(
+      Math.pow(pos2.x - pos1.x, 2) + Math.pow(pos2.y - pos1.y, 2)
+    );
+    const angle = Math.atan2(pos2.y - pos1.y, pos2.x - pos1.x) * (180 / Math.PI);
+
+    return (
+      <View
+        key={key}
+        style={[
+          styles.aspectLine,
+          {
+            left: sizeConfig.outerRadius + pos1.x,
+            top: sizeConfig.outerRadius + pos1.y,
+            width: lineLength,
+            height: thickness,
+            backgroundColor: aspectColors[aspect.type],
+            opacity: aspect.strength / 100,
+            transform: [{ rotate: `${angle}deg` }],
+          },
+        ]}
+      />
+    );
+  };
+
   // Render aspects
   const renderAspects = () => {
     if (!showAspects || !data.aspects) return null;
@@ -411,32 +482,27 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
       
       if (!planet1Pos || !planet2Pos) return null;
 
-      const radius = sizeConfig.outerRadius - 60;
-      const pos1 = getPositionOnCircle(planet1Pos.degree, radius);
-      const pos2 = getPositionOnCircle(planet2Pos.degree, radius);
+      const pos1 = getPositionOnCircle(planet1Pos.degree, ringRadii.inner);
+      const pos2 = getPositionOnCircle(planet2Pos.degree, ringRadii.inner);
 
-      const lineLength = Math.sqrt(
-        Math.pow(pos2.x - pos1.x, 2) + Math.pow(pos2.y - pos1.y, 2)
-      );
-      const angle = Math.atan2(pos2.y - pos1.y, pos2.x - pos1.x) * (180 / Math.PI);
+      return renderAspectLine(`aspect-${index}`, pos1, pos2, aspect, 2);
+    });
+  };
 
-      return (
-        <View
-          key={`aspect-${index}`}
-          style={[
-            styles.aspectLine,
-            {
-              left: sizeConfig.outerRadius + pos1.x,
-              top: sizeConfig.outerRadius + pos1.y,
-              width: lineLength,
-              height: 2,
-              backgroundColor: aspectColors[aspect.type],
-              opacity: aspect.strength / 100,
-              transform: [{ rotate: `${angle}deg` }],
-            },
-          ]}
-        />
-      );
+  // Render aspects between the inner and outer rings of a bi-wheel
+  const renderCrossAspects = () => {
+    if (!showAspects || !isBiWheel || !data.crossAspects) return null;
+
+    return data.crossAspects.map((aspect, index) => {
+      const innerPos = data.planets.find(p => p.planet === aspect.planet1);
+      const outerPos = data.outerPlanets!.find(p => p.planet === aspect.planet2);
+
+      if (!innerPos || !outerPos) return null;
+
+      const pos1 = getPositionOnCircle(innerPos.degree, ringRadii.inner);
+      const pos2 = getPositionOnCircle(outerPos.degree, ringRadii.outer);
+
+      return renderAspectLine(`cross-aspect-${index}`, pos1, pos2, aspect, 1);
     });
   };
 
@@ -471,6 +537,23 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
         ]}
       />
       
+      {/* Divider between natal and transit/partner planets */}
+      {isBiWheel && (
+        <View
+          style={[
+            styles.wheelRing,
+            {
+              width: ringRadii.divider * 2,
+              height: ringRadii.divider * 2,
+              borderRadius: ringRadii.divider,
+              borderWidth: 1,
+              borderColor: 'rgba(255, 255, 255, 0.15)',
+              borderStyle: 'dashed',
+            },
+          ]}
+        />
+      )}
+      
       {/* Zodiac ring */}
       <View
         style={[
@@ -502,7 +585,7 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
       )}
       {data.chartType && (
         <Text style={[styles.chartType, { fontSize: sizeConfig.fontSize - 2 }]}>
-          {data.chartType.toUpperCase()}
+          {data.chartType.replace('-', ' ').toUpperCase()}
         </Text>
       )}
     </View>
@@ -562,6 +645,7 @@ export const AstrologyWheel: React.FC<AstrologyWheelProps> = ({
         {renderHouses()}
         {renderPlanets()}
         {renderAspects()}
+        {renderCrossAspects()}
         {renderCenterContent()}
       </Animated.View>
     </Animated.View>
@@ -646,6 +730,10 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
   },
+  outerPlanetButton: {
+    borderWidth: 1.5,
+    borderColor: ProfessionalGrays.white,
+  },
   retrogradeIndicator: {
     position: 'absolute',
     top: -2,
@@ -0,0 +1,140 @@
+/**
+ * Corp Astro UI Library - Chart Planet Label
+ *
+ * Planet label drawn inside the SVG of the regional chart styles: the
+ * planet's abbreviation or glyph, its degree within the sign, a
+ * retrograde marker and optionally its nakshatra and pada.
+ *
+ * @module ChartPlanetLabel
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import React from 'react';
+import { G, Rect, Text as SvgText, TSpan } from 'react-native-svg';
+import { ProfessionalGrays } from '../foundations/tokens/colors/ProfessionalGrays';
+import { VedicPlanet } from './NorthIndianChart';
+import { calculateNakshatra } from './nakshatraUtils';
+import {
+  ChartPoint,
+  PLANET_GLYPHS,
+  PLANET_BLOCK_WIDTH,
+  PLANET_BLOCK_HEIGHT,
+  CHART_COLORS,
+} from './chartLayoutUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ChartPlanetLabelProps {
+  /** Planet to label */
+  planet: VedicPlanet;
+  /** Centre of the label, from layoutPlanets */
+  slot: ChartPoint;
+  /** Font size, from layoutPlanets */
+  fontSize: number;
+  /** Sidereal longitude of the planet */
+  degree?: number;
+  /** Show the retrograde marker */
+  isRetrograde?: boolean;
+  /** Show the degree line */
+  showDegrees?: boolean;
+  /** Show the glyph instead of the abbreviation */
+  showSymbol?: boolean;
+  /** Show the nakshatra and pada line */
+  showNakshatra?: boolean;
+  /** Highlight the label */
+  selected?: boolean;
+  /** Press handler */
+  onPress?: () => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Chart Planet Label - Planet, degree and retrograde marker
+ */
+export const ChartPlanetLabel: React.FC<ChartPlanetLabelProps> = ({
+  planet,
+  slot,
+  fontSize,
+  degree,
+  isRetrograde = false,
+  showDegrees = true,
+  showSymbol = false,
+  showNakshatra = false,
+  selected = false,
+  onPress,
+}) => {
+  const glyph = PLANET_GLYPHS[planet];
+  const hasDegreeLine = showDegrees && degree !== undefined;
+  const nakshatra = showNakshatra && degree !== undefined ? calculateNakshatra(degree) : undefined;
+  const blockWidth = PLANET_BLOCK_WIDTH * fontSize;
+  const blockHeight = ((showDegrees ? PLANET_BLOCK_HEIGHT.withDegrees : PLANET_BLOCK_HEIGHT.withoutDegrees) +
+    (showNakshatra ? PLANET_BLOCK_HEIGHT.nakshatraLine : 0)) * fontSize;
+  // The nakshatra line hangs below the block, so the lines above move up by half its height
+  const offsetY = showNakshatra ? -fontSize * PLANET_BLOCK_HEIGHT.nakshatraLine / 2 : 0;
+  const labelY = offsetY + (hasDegreeLine ? slot.y - fontSize * 0.15 : slot.y + fontSize * 0.35);
+  const degreeY = offsetY + slot.y + fontSize * 0.75;
+  const retrogradeMarker = isRetrograde && (
+    <TSpan fontSize={fontSize * 0.6} fill={CHART_COLORS.retrograde}>R</TSpan>
+  );
+
+  return (
+    <G onPress={onPress}>
+      {selected && (
+        <Rect
+          x={slot.x - blockWidth / 2}
+          y={slot.y - blockHeight / 2}
+          width={blockWidth}
+          height={blockHeight}
+          rx={0.8}
+          fill={CHART_COLORS.selectedPlanet}
+        />
+      )}
+      <SvgText
+        x={slot.x}
+        y={labelY}
+        fontSize={fontSize}
+        fontWeight="bold"
+        fill={glyph.color}
+        textAnchor="middle"
+      >
+        {showSymbol ? glyph.symbol : glyph.abbreviation}
+        {!hasDegreeLine && retrogradeMarker}
+      </SvgText>
+      {hasDegreeLine && (
+        <SvgText
+          x={slot.x}
+          y={degreeY}
+          fontSize={fontSize * 0.7}
+          fill={ProfessionalGrays.light as string}
+          textAnchor="middle"
+        >
+          {`${Math.floor(((degree % 30) + 30) % 30)}°`}
+          {retrogradeMarker}
+        </SvgText>
+      )}
+      {nakshatra && (
+        <SvgText
+          x={slot.x}
+          y={(hasDegreeLine ? degreeY : labelY) + fontSize * PLANET_BLOCK_HEIGHT.nakshatraLine}
+          fontSize={fontSize * 0.6}
+          fill={ProfessionalGrays.medium as string}
+          textAnchor="middle"
+        >
+          {`${nakshatra.nakshatra.abbreviation} ${nakshatra.pada}`}
+        </SvgText>
+      )}
+    </G>
+  );
+};
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default ChartPlanetLabel;
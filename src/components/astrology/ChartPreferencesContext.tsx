@@ -0,0 +1,74 @@
+/**
+ * Corp Astro UI Library - Chart Preferences Context
+ *
+ * App-wide chart display preferences, currently the regional chart style.
+ * Settings and NorthIndianChartNavigator write the preference; VedicChart and
+ * the navigator read it when no style is passed to them. Outside a provider the defaults
+ * apply and changes are ignored, so the chart components work standalone.
+ *
+ * @module ChartPreferencesContext
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { ChartStyle, DEFAULT_CHART_STYLE } from './VedicChart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Chart preferences and their setters
+ */
+export interface ChartPreferencesContextType {
+  /** Regional style birth charts are drawn in */
+  chartStyle: ChartStyle;
+  /** Change the chart style preference */
+  setChartStyle: (chartStyle: ChartStyle) => void;
+}
+
+export interface ChartPreferencesProviderProps {
+  /** Chart style to start with, e.g. restored from storage (default: 'north') */
+  initialChartStyle?: ChartStyle;
+  /** Called when the chart style changes - persist the preference here */
+  onChartStyleChange?: (chartStyle: ChartStyle) => void;
+  children: React.ReactNode;
+}
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+export const ChartPreferencesContext = createContext<ChartPreferencesContextType | null>(null);
+
+/**
+ * Provides the chart preferences to the app
+ */
+export const ChartPreferencesProvider: React.FC<ChartPreferencesProviderProps> = ({
+  initialChartStyle = DEFAULT_CHART_STYLE,
+  onChartStyleChange,
+  children,
+}) => {
+  const [chartStyle, setChartStyleState] = useState<ChartStyle>(initialChartStyle);
+
+  const value = useMemo<ChartPreferencesContextType>(() => ({
+    chartStyle,
+    setChartStyle: (next: ChartStyle) => {
+      setChartStyleState(next);
+      onChartStyleChange?.(next);
+    },
+  }), [chartStyle, onChartStyleChange]);
+
+  return <ChartPreferencesContext.Provider value={value}>{children}</ChartPreferencesContext.Provider>;
+};
+
+/**
+ * Current chart preferences; the defaults outside a ChartPreferencesProvider
+ */
+export function useChartPreferences(): ChartPreferencesContextType {
+  // Defaults are read here rather than at load, as VedicChart imports this module
+  return useContext(ChartPreferencesContext) ?? { chartStyle: DEFAULT_CHART_STYLE, setChartStyle: () => undefined };
+}
+
+export default ChartPreferencesProvider;
@@ -0,0 +1,597 @@
+/**
+ * Corp Astro UI Library - Dasha Timeline Component
+ *
+ * A horizontal, zoomable timeline of the Vimshottari dasha periods with
+ * Mahadasha, Antardasha and Pratyantardasha tracks.
+ *
+ * Features:
+ * - Stacked tracks for each dasha level
+ * - Zoom controls from the full 120-year cycle down to single months
+ * - Current period highlighting with a "now" marker
+ * - Planet colors matching PlanetIndicator
+ * - Period details on press
+ * - Accessibility support
+ *
+ * Design System Compliance:
+ * - Glass morphism container with cosmic gradients
+ * - Consistent spacing and typography
+ * - Theme-aware styling
+ *
+ * @module DashaTimeline
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ViewStyle,
+  TouchableOpacity,
+  ScrollView,
+  AccessibilityProps,
+  LayoutChangeEvent,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SignatureBlues } from '../foundations/tokens/colors/SignatureBlues';
+import { ProfessionalGrays } from '../foundations/tokens/colors/ProfessionalGrays';
+import { spacing } from '../foundations/tokens/spacing/SpacingScale';
+import { getFontFamily } from '../foundations/tokens/typography/FontFamilies';
+import { planetInfo } from './PlanetIndicator';
+import {
+  DashaLord,
+  DashaLevel,
+  DashaPeriod,
+  VimshottariDasha,
+  DASHA_LEVEL_NAMES,
+  findActiveDashas,
+  getDashaPeriodsAtLevel,
+} from './dashaUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface DashaTimelineProps extends AccessibilityProps {
+  /** Dasha tree to display */
+  dasha: VimshottariDasha;
+  /** Date treated as "now" (default: current date) */
+  currentDate?: Date;
+  /** Initial zoom in pixels per year */
+  initialZoom?: number;
+  /** Levels to show as tracks */
+  levels?: DashaLevel[];
+  /** Show zoom controls */
+  showControls?: boolean;
+  /** Period press handler */
+  onPeriodPress?: (period: DashaPeriod) => void;
+  /** Custom styling */
+  style?: ViewStyle;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Dasha lord colors - planets follow PlanetIndicator, nodes follow the chart legend
+ */
+const DASHA_LORD_INFO: Record<DashaLord, { name: string; symbol: string; color: string; secondary: string }> = {
+  sun: planetInfo.sun,
+  moon: planetInfo.moon,
+  mercury: planetInfo.mercury,
+  venus: planetInfo.venus,
+  mars: planetInfo.mars,
+  jupiter: planetInfo.jupiter,
+  saturn: planetInfo.saturn,
+  rahu: { name: 'Rahu', symbol: '☊', color: '#8B0000', secondary: '#4B0082' },
+  ketu: { name: 'Ketu', symbol: '☋', color: '#2F4F4F', secondary: '#696969' },
+};
+
+const TRACK_HEIGHTS: Record<DashaLevel, number> = {
+  mahadasha: 40,
+  antardasha: 30,
+  pratyantardasha: 22,
+};
+
+/** Narrowest block worth drawing, in pixels */
+const MIN_BLOCK_WIDTH = 2;
+
+const MIN_ZOOM = 4;
+const MAX_ZOOM = 384;
+const DEFAULT_ZOOM = 12;
+const MS_PER_YEAR = 365.25 * 86400000;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Format a date as "15 Jul 1990"
+ */
+function formatDashaDate(date: Date): string {
+  return `${date.getDate()} ${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+}
+
+/**
+ * Format a duration in years as years, months and days
+ */
+function formatDuration(years: number): string {
+  const totalDays = Math.round(years * 365.25);
+  const wholeYears = Math.floor(totalDays / 365.25);
+  const remainingDays = totalDays - Math.round(wholeYears * 365.25);
+  const months = Math.floor(remainingDays / 30.4375);
+  const days = Math.round(remainingDays - months * 30.4375);
+  return [
+    wholeYears > 0 ? `${wholeYears}y` : '',
+    months > 0 ? `${months}m` : '',
+    days > 0 ? `${days}d` : '',
+  ].filter(Boolean).join(' ') || '0d';
+}
+
+/**
+ * Year spacing between axis ticks for a zoom level
+ */
+function getTickStep(pixelsPerYear: number): number {
+  if (pixelsPerYear >= 48) return 1;
+  if (pixelsPerYear >= 16) return 5;
+  return 10;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Zoomable Vimshottari dasha timeline
+ */
+export const DashaTimeline: React.FC<DashaTimelineProps> = ({
+  dasha,
+  currentDate,
+  initialZoom = DEFAULT_ZOOM,
+  levels = ['mahadasha', 'antardasha', 'pratyantardasha'],
+  showControls = true,
+  onPeriodPress,
+  style,
+  testID = 'corp-astro-dasha-timeline',
+  ...accessibilityProps
+}) => {
+  // ============================================================================
+  // HOOKS & STATE
+  // ============================================================================
+
+  const [pixelsPerYear, setPixelsPerYear] = useState(initialZoom);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [selectedPeriod, setSelectedPeriod] = useState<DashaPeriod | undefined>();
+  const scrollRef = useRef<ScrollView>(null);
+
+  const now = useMemo(() => currentDate ?? new Date(), [currentDate]);
+
+  // ============================================================================
+  // COMPUTED VALUES
+  // ============================================================================
+
+  const timelineStart = dasha.periods[0]?.start.getTime() ?? now.getTime();
+  const timelineEnd = dasha.periods[dasha.periods.length - 1]?.end.getTime() ?? now.getTime();
+  const totalWidth = ((timelineEnd - timelineStart) / MS_PER_YEAR) * pixelsPerYear;
+
+  const toX = useCallback((date: Date) => (
+    ((date.getTime() - timelineStart) / MS_PER_YEAR) * pixelsPerYear
+  ), [timelineStart, pixelsPerYear]);
+
+  const activePeriods = useMemo(() => findActiveDashas(dasha.periods, now), [dasha.periods, now]);
+
+  const tracks = useMemo(() => levels.map(level => ({
+    level,
+    periods: getDashaPeriodsAtLevel(dasha.periods, level),
+  })), [dasha.periods, levels]);
+
+  const ticks = useMemo(() => {
+    const step = getTickStep(pixelsPerYear);
+    const firstYear = Math.ceil(new Date(timelineStart).getFullYear() / step) * step;
+    const lastYear = new Date(timelineEnd).getFullYear();
+    const years: number[] = [];
+    for (let year = firstYear; year <= lastYear; year += step) {
+      years.push(year);
+    }
+    return years;
+  }, [pixelsPerYear, timelineStart, timelineEnd]);
+
+  // ============================================================================
+  // EFFECTS
+  // ============================================================================
+
+  /**
+   * Keep the current period centered when zooming
+   */
+  useEffect(() => {
+    if (viewportWidth === 0) return;
+    const x = Math.max(0, toX(now) - viewportWidth / 2);
+    scrollRef.current?.scrollTo({ x, animated: false });
+  }, [toX, now, viewportWidth]);
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  const handleZoom = useCallback((factor: number) => {
+    setPixelsPerYear(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev * factor)));
+  }, []);
+
+  const handlePeriodPress = useCallback((period: DashaPeriod) => {
+    setSelectedPeriod(period);
+    onPeriodPress?.(period);
+  }, [onPeriodPress]);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setViewportWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  // ============================================================================
+  // RENDER HELPERS
+  // ============================================================================
+
+  /**
+   * Render current period summary
+   */
+  const renderSummary = () => (
+    <View style={styles.summary}>
+      {activePeriods.length > 0 ? activePeriods.map(period => (
+        <Text key={period.level} style={styles.summaryText}>
+          <Text style={[styles.summaryLord, { color: DASHA_LORD_INFO[period.lord].color }]}>
+            {DASHA_LORD_INFO[period.lord].symbol} {DASHA_LORD_INFO[period.lord].name}
+          </Text>
+          {` ${DASHA_LEVEL_NAMES[period.level]} until ${formatDashaDate(period.end)}`}
+        </Text>
+      )) : (
+        <Text style={styles.summaryText}>Outside the Vimshottari cycle</Text>
+      )}
+    </View>
+  );
+
+  /**
+   * Render zoom controls
+   */
+  const renderControls = () => (
+    <View style={styles.controls}>
+      <TouchableOpacity
+        style={styles.zoomButton}
+        onPress={() => handleZoom(0.5)}
+        disabled={pixelsPerYear <= MIN_ZOOM}
+        accessibilityLabel="Zoom out"
+      >
+        <Text style={styles.zoomButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.zoomLabel}>{Math.round(pixelsPerYear)} px / year</Text>
+      <TouchableOpacity
+        style={styles.zoomButton}
+        onPress={() => handleZoom(2)}
+        disabled={pixelsPerYear >= MAX_ZOOM}
+        accessibilityLabel="Zoom in"
+      >
+        <Text style={styles.zoomButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  /**
+   * Render a single period block
+   */
+  const renderPeriod = (period: DashaPeriod) => {
+    const left = toX(period.start);
+    const width = toX(period.end) - left;
+    if (width < MIN_BLOCK_WIDTH) return null;
+
+    const info = DASHA_LORD_INFO[period.lord];
+    const isActive = activePeriods.includes(period);
+    const isSelected = selectedPeriod === period;
+
+    return (
+      <TouchableOpacity
+        key={period.path.join('-')}
+        style={[
+          styles.period,
+          { left, width, height: TRACK_HEIGHTS[period.level] },
+          isActive && styles.activePeriod,
+          isSelected && styles.selectedPeriod,
+        ]}
+        onPress={() => handlePeriodPress(period)}
+        activeOpacity={0.8}
+        accessibilityLabel={`${info.name} ${DASHA_LEVEL_NAMES[period.level]}, ${formatDashaDate(period.start)} to ${formatDashaDate(period.end)}`}
+      >
+        <LinearGradient
+          colors={[info.color, info.secondary] as [string, string]}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={[StyleSheet.absoluteFillObject, !isActive && styles.inactiveGradient]}
+        />
+        {width >= 18 && (
+          <Text style={styles.periodText} numberOfLines={1}>
+            {width >= 64 ? `${info.symbol} ${info.name}` : info.symbol}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  /**
+   * Render the year axis
+   */
+  const renderAxis = () => (
+    <View style={styles.axis}>
+      {ticks.map(year => (
+        <View key={year} style={[styles.tick, { left: toX(new Date(year, 0, 1)) }]}>
+          <Text style={styles.tickText}>{year}</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  /**
+   * Render selected period details
+   */
+  const renderDetails = () => {
+    if (!selectedPeriod) return null;
+    const info = DASHA_LORD_INFO[selectedPeriod.lord];
+
+    return (
+      <View style={styles.details}>
+        <Text style={styles.detailsTitle}>
+          {selectedPeriod.path.map(lord => DASHA_LORD_INFO[lord].name).join(' / ')}
+        </Text>
+        <Text style={styles.detailsText}>
+          <Text style={{ color: info.color }}>{info.symbol}</Text>
+          {` ${DASHA_LEVEL_NAMES[selectedPeriod.level]} · ${formatDuration(selectedPeriod.durationYears)}`}
+        </Text>
+        <Text style={styles.detailsText}>
+          {formatDashaDate(selectedPeriod.start)} – {formatDashaDate(selectedPeriod.end)}
+        </Text>
+      </View>
+    );
+  };
+
+  // ============================================================================
+  // MAIN RENDER
+  // ============================================================================
+
+  const nowX = toX(now);
+  const showNow = nowX >= 0 && nowX <= totalWidth;
+
+  return (
+    <View
+      style={[styles.container, style]}
+      testID={testID}
+      accessibilityLabel="Vimshottari dasha timeline"
+      {...accessibilityProps}
+    >
+      <LinearGradient
+        colors={[
+          'rgba(26, 26, 46, 0.95)',
+          'rgba(22, 33, 62, 0.9)',
+          'rgba(15, 52, 96, 0.85)',
+        ]}
+        locations={[0, 0.5, 1]}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+        style={StyleSheet.absoluteFillObject}
+      />
+
+      <Text style={styles.title}>Vimshottari Dasha</Text>
+      {renderSummary()}
+      {showControls && renderControls()}
+
+      <View style={styles.timelineRow}>
+        <View style={styles.trackLabels}>
+          {tracks.map(({ level }) => (
+            <View key={level} style={[styles.trackLabel, { height: TRACK_HEIGHTS[level] }]}>
+              <Text style={styles.trackLabelText}>{DASHA_LEVEL_NAMES[level].slice(0, 5)}</Text>
+            </View>
+          ))}
+        </View>
+
+        <ScrollView
+          ref={scrollRef}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          onLayout={handleLayout}
+          style={styles.scroll}
+        >
+          <View style={{ width: totalWidth }}>
+            {tracks.map(({ level, periods }) => (
+              <View key={level} style={[styles.track, { height: TRACK_HEIGHTS[level] }]}>
+                {periods.map(renderPeriod)}
+              </View>
+            ))}
+            {renderAxis()}
+            {showNow && (
+              <View style={[styles.nowMarker, { left: nowX }]} pointerEvents="none">
+                <Text style={styles.nowText}>Now</Text>
+              </View>
+            )}
+          </View>
+        </ScrollView>
+      </View>
+
+      {renderDetails()}
+    </View>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(22, 33, 62, 0.3)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    padding: spacing.md,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    color: ProfessionalGrays.white,
+    fontSize: 18,
+    fontFamily: getFontFamily('heading'),
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  summary: {
+    marginBottom: spacing.sm,
+  },
+  summaryText: {
+    color: ProfessionalGrays.light,
+    fontSize: 12,
+    fontFamily: getFontFamily('body'),
+    marginBottom: 2,
+  },
+  summaryLord: {
+    fontWeight: '600',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginBottom: spacing.sm,
+  },
+  zoomButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(46, 134, 222, 0.3)',
+    borderWidth: 1,
+    borderColor: SignatureBlues.primary,
+  },
+  zoomButtonText: {
+    color: SignatureBlues.light,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  zoomLabel: {
+    color: ProfessionalGrays.medium,
+    fontSize: 11,
+    fontFamily: getFontFamily('body'),
+    marginHorizontal: spacing.sm,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  trackLabels: {
+    width: 48,
+  },
+  trackLabel: {
+    justifyContent: 'center',
+    marginBottom: 4,
+  },
+  trackLabelText: {
+    color: ProfessionalGrays.medium,
+    fontSize: 10,
+    fontFamily: getFontFamily('body'),
+  },
+  scroll: {
+    flex: 1,
+  },
+  track: {
+    position: 'relative',
+    marginBottom: 4,
+  },
+  period: {
+    position: 'absolute',
+    top: 0,
+    borderRadius: 4,
+    overflow: 'hidden',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  inactiveGradient: {
+    opacity: 0.55,
+  },
+  activePeriod: {
+    borderWidth: 2,
+    borderColor: ProfessionalGrays.white,
+  },
+  selectedPeriod: {
+    borderWidth: 2,
+    borderColor: SignatureBlues.light,
+  },
+  periodText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '600',
+    textShadowColor: 'rgba(0, 0, 0, 0.5)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 2,
+  },
+  axis: {
+    height: 20,
+    position: 'relative',
+  },
+  tick: {
+    position: 'absolute',
+    top: 0,
+    borderLeftWidth: 1,
+    borderLeftColor: 'rgba(255, 255, 255, 0.2)',
+    paddingLeft: 2,
+  },
+  tickText: {
+    color: ProfessionalGrays.medium,
+    fontSize: 9,
+    fontFamily: getFontFamily('body'),
+  },
+  nowMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: SignatureBlues.light,
+  },
+  nowText: {
+    position: 'absolute',
+    bottom: 0,
+    left: 4,
+    color: SignatureBlues.light,
+    fontSize: 9,
+    fontWeight: '600',
+  },
+  details: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  detailsTitle: {
+    color: ProfessionalGrays.white,
+    fontSize: 14,
+    fontFamily: getFontFamily('heading'),
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  detailsText: {
+    color: ProfessionalGrays.light,
+    fontSize: 12,
+    fontFamily: getFontFamily('body'),
+  },
+});
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default DashaTimeline;
@@ -0,0 +1,121 @@
+/**
+ * Corp Astro UI Library - East Indian Chart Component
+ *
+ * East Indian (Bengali) style chart: a 3 x 3 grid with the signs in fixed
+ * places. Aries holds the top-middle cell and the zodiac runs anticlockwise;
+ * each corner cell is split along its diagonal into two signs. The ascendant
+ * sign is marked and houses are counted from it.
+ *
+ * Features:
+ * - Fixed-sign grid with split corner cells and the title in the centre
+ * - Ascendant marker and house numbers from the ascendant
+ * - Non-overlapping planet layout per sign
+ * - Degree and retrograde markers
+ * - Aspect arrows and Ashtakavarga bindu overlay
+ * - House and planet press callbacks
+ *
+ * @module EastIndianChart
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import React from 'react';
+import { ChartPoint } from './chartLayoutUtils';
+import { FixedSignChart, FixedSignChartProps, FixedSignLayout, SignGeometry } from './FixedSignChart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type EastIndianChartProps = FixedSignChartProps;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CELL = 100 / 3;
+
+/**
+ * Middle cell geometry: labels along the top, bindu at the bottom
+ */
+function middleCell(column: number, row: number): SignGeometry {
+  const x = column * CELL;
+  const y = row * CELL;
+  return {
+    points: [{ x, y }, { x: x + CELL, y }, { x: x + CELL, y: y + CELL }, { x, y: y + CELL }],
+    center: { x: x + CELL / 2, y: y + CELL / 2 + 1 },
+    width: CELL - 3,
+    height: CELL - 10,
+    ascendantLabel: { x: x + 4, y: y + 3.5 },
+    rashiLabel: { x: x + CELL / 2, y: y + 3.5 },
+    houseLabel: { x: x + CELL - 4, y: y + 3.5 },
+    binduLabel: { x: x + CELL - 3.5, y: y + CELL - 2.5 },
+  };
+}
+
+/**
+ * Corner half-cell geometry
+ *
+ * The triangle has its right angle at `corner`, its outer vertex at the
+ * chart corner and its inner vertex at the centre cell. Planets fill the
+ * square at the right angle; labels sit along the diagonal.
+ */
+function cornerTriangle(corner: ChartPoint, outer: ChartPoint, inner: ChartPoint): SignGeometry {
+  const at = (towardOuter: number, towardInner: number): ChartPoint => ({
+    x: corner.x + towardOuter * (outer.x - corner.x) + towardInner * (inner.x - corner.x),
+    y: corner.y + towardOuter * (outer.y - corner.y) + towardInner * (inner.y - corner.y),
+  });
+  return {
+    points: [corner, outer, inner],
+    center: at(0.25, 0.25),
+    width: CELL / 2 - 1.5,
+    height: CELL / 2 - 1.5,
+    rashiLabel: at(0.75, 0.1),
+    houseLabel: at(0.1, 0.75),
+    binduLabel: at(0.6, 0.3),
+    ascendantLabel: at(0.3, 0.6),
+  };
+}
+
+const TOP_LEFT = { x: 0, y: 0 };
+const TOP_RIGHT = { x: 100, y: 0 };
+const BOTTOM_LEFT = { x: 0, y: 100 };
+const BOTTOM_RIGHT = { x: 100, y: 100 };
+
+const EAST_INDIAN_LAYOUT: FixedSignLayout = {
+  signs: {
+    aries: middleCell(1, 0),
+    taurus: cornerTriangle({ x: CELL, y: 0 }, TOP_LEFT, { x: CELL, y: CELL }),
+    gemini: cornerTriangle({ x: 0, y: CELL }, TOP_LEFT, { x: CELL, y: CELL }),
+    cancer: middleCell(0, 1),
+    leo: cornerTriangle({ x: 0, y: 2 * CELL }, BOTTOM_LEFT, { x: CELL, y: 2 * CELL }),
+    virgo: cornerTriangle({ x: CELL, y: 100 }, BOTTOM_LEFT, { x: CELL, y: 2 * CELL }),
+    libra: middleCell(1, 2),
+    scorpio: cornerTriangle({ x: 2 * CELL, y: 100 }, BOTTOM_RIGHT, { x: 2 * CELL, y: 2 * CELL }),
+    sagittarius: cornerTriangle({ x: 100, y: 2 * CELL }, BOTTOM_RIGHT, { x: 2 * CELL, y: 2 * CELL }),
+    capricorn: middleCell(2, 1),
+    aquarius: cornerTriangle({ x: 100, y: CELL }, TOP_RIGHT, { x: 2 * CELL, y: CELL }),
+    pisces: cornerTriangle({ x: 2 * CELL, y: 0 }, TOP_RIGHT, { x: 2 * CELL, y: CELL }),
+  },
+  center: { center: { x: 50, y: 50 }, width: CELL, height: CELL },
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * East Indian Chart - Fixed-sign grid rendered from processed data
+ */
+export const EastIndianChart: React.FC<EastIndianChartProps> = ({
+  testID = 'corp-astro-east-indian-chart',
+  ...props
+}) => (
+  <FixedSignChart {...props} layout={EAST_INDIAN_LAYOUT} styleName="East Indian" testID={testID} />
+);
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default EastIndianChart;
@@ -0,0 +1,366 @@
+/**
+ * Corp Astro UI Library - Fixed Sign Chart
+ *
+ * Renderer shared by the chart styles that keep each sign in a fixed cell
+ * and mark the ascendant (South and East Indian). A style supplies the cell
+ * geometry; this component places the rashi names, house numbers, planets,
+ * bindus and aspect arrows.
+ *
+ * @module FixedSignChart
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import React, { useMemo } from 'react';
+import { Dimensions, View, ViewStyle, AccessibilityProps } from 'react-native';
+import Svg, { G, Line, Polygon, Rect, Text as SvgText, TSpan } from 'react-native-svg';
+import { SignatureBlues } from '../foundations/tokens/colors/SignatureBlues';
+import { ProfessionalGrays } from '../foundations/tokens/colors/ProfessionalGrays';
+import {
+  VedicPlanet,
+  VedicRashi,
+  NorthIndianHouseData,
+  NorthIndianHouseNumber,
+  NorthIndianAspectData,
+  VedicChartData,
+} from './NorthIndianChart';
+import {
+  ChartPoint,
+  PlanetArea,
+  CHART_COLORS,
+  layoutPlanets,
+  toPointsAttribute,
+  getArrowGeometry,
+} from './chartLayoutUtils';
+import { getSignCells, SignCell } from './signCellUtils';
+import { ChartPlanetLabel } from './ChartPlanetLabel';
+import { calculateNakshatra } from './nakshatraUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Geometry of a sign cell in the 100 x 100 chart space
+ */
+export interface SignGeometry extends PlanetArea {
+  /** Outline of the cell */
+  points: ChartPoint[];
+  /** Rashi name position */
+  rashiLabel: ChartPoint;
+  /** House number position */
+  houseLabel: ChartPoint;
+  /** Bindu position */
+  binduLabel: ChartPoint;
+  /** Ascendant marker position */
+  ascendantLabel: ChartPoint;
+}
+
+/**
+ * Cell layout of a fixed-sign chart style
+ */
+export interface FixedSignLayout {
+  /** Cell of every sign */
+  signs: Record<VedicRashi, SignGeometry>;
+  /** Empty area holding the chart title */
+  center: PlanetArea;
+}
+
+export interface FixedSignChartProps extends AccessibilityProps {
+  /** Processed chart data to render */
+  data: VedicChartData;
+  /** Chart width and height in pixels (default: fits the window) */
+  size?: number;
+  /** Enable press handling */
+  interactive?: boolean;
+  /** Show planet glyphs instead of abbreviations */
+  showPlanetSymbols?: boolean;
+  /** Show house numbers counted from the ascendant */
+  showHouseNumbers?: boolean;
+  /** Show the rashi name in each cell */
+  showRashiNames?: boolean;
+  /** Show planet degrees within their rashi */
+  showDegrees?: boolean;
+  /** Show the nakshatra and pada of each planet and the ascendant */
+  showNakshatras?: boolean;
+  /** Draw aspect arrows between signs */
+  showAspects?: boolean;
+  /** Highlighted planet */
+  selectedPlanet?: VedicPlanet;
+  /** Highlighted house */
+  selectedHouse?: NorthIndianHouseNumber;
+  /** Ashtakavarga bindus to overlay, keyed by house number */
+  bindus?: Partial<Record<number, number>>;
+  /** Bindus at or above which a house is highlighted (default: 28) */
+  binduThreshold?: number;
+  /** Planet press handler */
+  onPlanetPress?: (planet: VedicPlanet, house: NorthIndianHouseData) => void;
+  /** House press handler */
+  onHousePress?: (house: NorthIndianHouseData) => void;
+  /** Custom styling */
+  style?: ViewStyle;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const RASHI_ABBREVIATIONS: Record<VedicRashi, string> = {
+  aries: 'Ari',
+  taurus: 'Tau',
+  gemini: 'Gem',
+  cancer: 'Can',
+  leo: 'Leo',
+  virgo: 'Vir',
+  libra: 'Lib',
+  scorpio: 'Sco',
+  sagittarius: 'Sag',
+  capricorn: 'Cap',
+  aquarius: 'Aqu',
+  pisces: 'Pis',
+};
+
+const LINE_COLOR = SignatureBlues.light as string;
+const ASCENDANT_COLOR = '#FFD700';
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Fixed Sign Chart - Sign cells laid out by a regional chart style
+ */
+export const FixedSignChart: React.FC<FixedSignChartProps & { layout: FixedSignLayout; styleName: string }> = ({
+  data,
+  layout,
+  styleName,
+  size,
+  interactive = true,
+  showPlanetSymbols = false,
+  showHouseNumbers = false,
+  showRashiNames = true,
+  showDegrees = true,
+  showNakshatras = false,
+  showAspects = false,
+  selectedPlanet,
+  selectedHouse,
+  bindus,
+  binduThreshold = 28,
+  onPlanetPress,
+  onHousePress,
+  style,
+  testID,
+  ...accessibilityProps
+}) => {
+  const chartSize = useMemo(() => {
+    if (size) return size;
+    const dimension = Dimensions.get('window');
+    return Math.min(dimension.width, dimension.height) - 40;
+  }, [size]);
+
+  const cells = useMemo(() => getSignCells(data), [data]);
+
+  const ascendantNakshatra = showNakshatras && data.ascendantDegree !== undefined
+    ? calculateNakshatra(data.ascendantDegree)
+    : undefined;
+
+  /**
+   * Aspect arrows between signs, keeping the strongest per pair
+   */
+  const aspectArrows = useMemo(() => {
+    if (!showAspects || !data.aspects) return [];
+    const strongest = new Map<string, { aspect: NorthIndianAspectData; from: VedicRashi; to: VedicRashi }>();
+    data.aspects.forEach(aspect => {
+      const from = data.houses.find(house => house.number === aspect.fromHouse)?.rashi;
+      const to = data.houses.find(house => house.number === aspect.toHouse)?.rashi;
+      if (!from || !to || from === to) return;
+      const key = `${from}-${to}`;
+      const existing = strongest.get(key);
+      if (!existing || aspect.strength > existing.aspect.strength) {
+        strongest.set(key, { aspect, from, to });
+      }
+    });
+    return Array.from(strongest.values());
+  }, [showAspects, data.aspects, data.houses]);
+
+  // ============================================================================
+  // RENDER HELPERS
+  // ============================================================================
+
+  /**
+   * Render the outline, labels and planets of a sign
+   */
+  const renderCell = (cell: SignCell) => {
+    const geometry = layout.signs[cell.rashi];
+    const { fontSize, slots } = layoutPlanets(cell.planets.length, geometry, showDegrees, showNakshatras);
+    const isSelected = cell.house.number === selectedHouse;
+    const bindu = bindus?.[cell.house.number];
+
+    return (
+      <G key={cell.rashi}>
+        <Polygon
+          points={toPointsAttribute(geometry.points)}
+          fill={isSelected ? CHART_COLORS.selectedArea : CHART_COLORS.unselectedArea}
+          stroke={LINE_COLOR}
+          strokeWidth={0.4}
+          onPress={interactive && onHousePress ? () => onHousePress(cell.house) : undefined}
+        />
+
+        {cell.isAscendant && (
+          <SvgText
+            x={geometry.ascendantLabel.x}
+            y={geometry.ascendantLabel.y + 0.9}
+            fontSize={2.5}
+            fontWeight="bold"
+            fill={ASCENDANT_COLOR}
+            textAnchor="middle"
+          >
+            Asc
+            {ascendantNakshatra && (
+              <TSpan fontSize={1.9} fontWeight="normal">
+                {` ${ascendantNakshatra.nakshatra.abbreviation} ${ascendantNakshatra.pada}`}
+              </TSpan>
+            )}
+          </SvgText>
+        )}
+
+        {showRashiNames && (
+          <SvgText
+            x={geometry.rashiLabel.x}
+            y={geometry.rashiLabel.y + 0.9}
+            fontSize={2.6}
+            fill={ProfessionalGrays.light as string}
+            textAnchor="middle"
+          >
+            {RASHI_ABBREVIATIONS[cell.rashi]}
+          </SvgText>
+        )}
+
+        {showHouseNumbers && (
+          <SvgText
+            x={geometry.houseLabel.x}
+            y={geometry.houseLabel.y + 0.8}
+            fontSize={2.3}
+            fill={ProfessionalGrays.medium as string}
+            textAnchor="middle"
+          >
+            {`H${cell.houseNumber}`}
+          </SvgText>
+        )}
+
+        {bindu !== undefined && (
+          <SvgText
+            x={geometry.binduLabel.x}
+            y={geometry.binduLabel.y + 0.9}
+            fontSize={2.6}
+            fontWeight="bold"
+            fill={bindu >= binduThreshold ? CHART_COLORS.binduStrong : CHART_COLORS.binduWeak}
+            textAnchor="middle"
+          >
+            {bindu}
+          </SvgText>
+        )}
+
+        {cell.planets.map((planet, index) => (
+          <ChartPlanetLabel
+            key={planet}
+            planet={planet}
+            slot={slots[index]}
+            fontSize={fontSize}
+            degree={data.planetDegrees?.[planet]}
+            isRetrograde={data.retrogradePlanets?.includes(planet)}
+            showDegrees={showDegrees}
+            showSymbol={showPlanetSymbols}
+            showNakshatra={showNakshatras}
+            selected={planet === selectedPlanet}
+            onPress={interactive && onPlanetPress ? () => onPlanetPress(planet, cell.house) : undefined}
+          />
+        ))}
+      </G>
+    );
+  };
+
+  /**
+   * Render aspect arrows between signs
+   */
+  const renderAspects = () => aspectArrows.map(({ aspect, from, to }) => {
+    const arrow = getArrowGeometry(layout.signs[from].center, layout.signs[to].center, 5);
+    const color = aspect.beneficial ? CHART_COLORS.beneficAspect : CHART_COLORS.maleficAspect;
+    return (
+      <G key={`${from}-${to}`} opacity={0.3 + (aspect.strength / 100) * 0.5}>
+        <Line
+          x1={arrow.x1}
+          y1={arrow.y1}
+          x2={arrow.x2}
+          y2={arrow.y2}
+          stroke={color}
+          strokeWidth={0.4}
+          strokeDasharray={aspect.system === 'vedic' ? undefined : '1.2,0.8'}
+        />
+        <Polygon points={arrow.head} fill={color} />
+      </G>
+    );
+  });
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  const ascendantCell = cells.find(cell => cell.isAscendant);
+
+  return (
+    <View
+      style={[{ width: chartSize, height: chartSize }, style]}
+      testID={testID}
+      accessibilityLabel={`${styleName} ${data.chartType} chart`}
+      {...accessibilityProps}
+    >
+      <Svg width={chartSize} height={chartSize} viewBox="0 0 100 100">
+        <Rect x={0.25} y={0.25} width={99.5} height={99.5} stroke={LINE_COLOR} strokeWidth={0.5} fill="none" />
+
+        {cells.map(renderCell)}
+
+        {ascendantCell && (
+          <Polygon
+            points={toPointsAttribute(layout.signs[ascendantCell.rashi].points)}
+            fill="none"
+            stroke={ASCENDANT_COLOR}
+            strokeWidth={0.6}
+          />
+        )}
+
+        <SvgText
+          x={layout.center.center.x}
+          y={layout.center.center.y - 1}
+          fontSize={4}
+          fontWeight="bold"
+          fill={ProfessionalGrays.white as string}
+          textAnchor="middle"
+        >
+          {data.chartType}
+        </SvgText>
+        {data.title && (
+          <SvgText
+            x={layout.center.center.x}
+            y={layout.center.center.y + 4}
+            fontSize={2.8}
+            fill={ProfessionalGrays.light as string}
+            textAnchor="middle"
+          >
+            {data.title}
+          </SvgText>
+        )}
+
+        {renderAspects()}
+      </Svg>
+    </View>
+  );
+};
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default FixedSignChart;
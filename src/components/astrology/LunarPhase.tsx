@@ -8,6 +8,7 @@
  * - Animated phase transitions
  * - Phase name and description
  * - Illumination percentage
+ * - Next phase date and moonrise/moonset times
  * - Smooth animations
  * - Accessibility support
  * 
@@ -67,6 +68,12 @@ export interface LunarPhaseData {
   nextPhase?: MoonPhase;
   /** Days until next phase */
   daysUntilNext?: number;
+  /** Date of the next phase */
+  nextPhaseDate?: string;
+  /** Moonrise time */
+  moonrise?: string;
+  /** Moonset time */
+  moonset?: string;
   /** Astrological significance */
   significance?: string;
   /** Recommended activities */
@@ -370,9 +377,10 @@ export const LunarPhase: React.FC<LunarPhaseProps> = ({
             {nextPhase.name}
           </Text>
           
-          {data.daysUntilNext && (
+          {data.daysUntilNext !== undefined && (
             <Text style={[styles.nextPhaseTime, { fontSize: sizeConfig.detailFontSize - 1 }]}>
               in {data.daysUntilNext} day{data.daysUntilNext !== 1 ? 's' : ''}
+              {data.nextPhaseDate ? ` (${data.nextPhaseDate})` : ''}
             </Text>
           )}
         </View>
@@ -380,6 +388,24 @@ export const LunarPhase: React.FC<LunarPhaseProps> = ({
     );
   };
 
+  // Render moonrise and moonset
+  const renderMoonTimes = () => {
+    if (!showDetails || (!data.moonrise && !data.moonset)) return null;
+
+    return (
+      <View style={styles.nextPhaseContainer}>
+        <View style={styles.nextPhaseInfo}>
+          <Text style={[styles.nextPhaseName, { fontSize: sizeConfig.detailFontSize }]}>
+            Moonrise {data.moonrise ?? '--'}
+          </Text>
+          <Text style={[styles.nextPhaseName, { fontSize: sizeConfig.detailFontSize }]}>
+            Moonset {data.moonset ?? '--'}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
   // Render significance
   const renderSignificance = () => {
     if (!showDetails || !data.significance) return null;
@@ -467,6 +493,7 @@ export const LunarPhase: React.FC<LunarPhaseProps> = ({
         {renderMoonVisualization()}
         {renderPhaseInfo()}
         {renderNextPhaseInfo()}
+        {renderMoonTimes()}
         {renderSignificance()}
         {renderActivities()}
       </Component>
@@ -1,84 +1,566 @@
-import React from 'react';
-import { Dimensions, Text, View } from 'react-native';
-import Svg, { Line, Rect } from 'react-native-svg';
+/**
+ * Corp Astro UI Library - North Indian Chart Component
+ *
+ * Diamond-style (North Indian) birth chart rendered from processed
+ * NorthIndianChartData. Houses are fixed and run anticlockwise from the top
+ * diamond (the ascendant); the rashi occupying each house is shown by number.
+ *
+ * Features:
+ * - Inner diamond and diagonal house divisions
+ * - Rashi numbers in every house
+ * - Non-overlapping planet layout per house
+ * - Degree and retrograde markers
+ * - Aspect arrows between houses
+ * - Ashtakavarga bindu overlay
+ * - House and planet press callbacks
+ * - Accessibility support
+ *
+ * @module NorthIndianChart
+ * @version 1.0.0
+ * @since 2024
+ */
 
-type PlanetPosition = {
-  planet: string;
-  house: number;
+import React, { useMemo } from 'react';
+import { Dimensions, View, ViewStyle, AccessibilityProps } from 'react-native';
+import Svg, { G, Line, Polygon, Rect, Text as SvgText } from 'react-native-svg';
+import { SignatureBlues } from '../foundations/tokens/colors/SignatureBlues';
+import { ProfessionalGrays } from '../foundations/tokens/colors/ProfessionalGrays';
+import {
+  ChartPoint,
+  PlanetArea,
+  CHART_COLORS,
+  layoutPlanets,
+  toPointsAttribute,
+  getArrowGeometry,
+  sortPlanetsByDegree,
+} from './chartLayoutUtils';
+import { ChartPlanetLabel } from './ChartPlanetLabel';
+import { calculateNakshatra } from './nakshatraUtils';
+import type { AyanamsaSystem } from './ayanamsaUtils';
+import type { HouseSystem } from './houseSystemUtils';
+import type { ShadbalaResult } from './shadbalaUtils';
+
+/**
+ * Vedic grahas (plus the outer planets) placed on North Indian charts
+ */
+export type VedicPlanet =
+  | 'sun'
+  | 'moon'
+  | 'mercury'
+  | 'venus'
+  | 'mars'
+  | 'jupiter'
+  | 'saturn'
+  | 'rahu'
+  | 'ketu'
+  | 'uranus'
+  | 'neptune'
+  | 'pluto';
+
+/**
+ * Vedic rashis (signs) in zodiacal order
+ */
+export type VedicRashi =
+  | 'aries'
+  | 'taurus'
+  | 'gemini'
+  | 'cancer'
+  | 'leo'
+  | 'virgo'
+  | 'libra'
+  | 'scorpio'
+  | 'sagittarius'
+  | 'capricorn'
+  | 'aquarius'
+  | 'pisces';
+
+/**
+ * Rashis in zodiacal order, indexed by sign number (Aries = 0)
+ */
+export const VEDIC_RASHIS: VedicRashi[] = [
+  'aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo',
+  'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces',
+];
+
+/**
+ * Planet rulership
+ */
+export const PLANET_RULERSHIP: Record<VedicRashi, VedicPlanet> = {
+  aries: 'mars',
+  taurus: 'venus',
+  gemini: 'mercury',
+  cancer: 'moon',
+  leo: 'sun',
+  virgo: 'mercury',
+  libra: 'venus',
+  scorpio: 'mars',
+  sagittarius: 'jupiter',
+  capricorn: 'saturn',
+  aquarius: 'saturn',
+  pisces: 'jupiter',
+};
+
+/**
+ * Planet exaltation positions
+ */
+export const EXALTATION_POSITIONS: Record<VedicPlanet, { rashi: VedicRashi; degree: number }> = {
+  sun: { rashi: 'aries', degree: 10 },
+  moon: { rashi: 'taurus', degree: 3 },
+  mercury: { rashi: 'virgo', degree: 15 },
+  venus: { rashi: 'pisces', degree: 27 },
+  mars: { rashi: 'capricorn', degree: 28 },
+  jupiter: { rashi: 'cancer', degree: 5 },
+  saturn: { rashi: 'libra', degree: 20 },
+  rahu: { rashi: 'gemini', degree: 15 },
+  ketu: { rashi: 'sagittarius', degree: 15 },
+  uranus: { rashi: 'scorpio', degree: 15 },
+  neptune: { rashi: 'cancer', degree: 15 },
+  pluto: { rashi: 'leo', degree: 15 },
+};
+
+/**
+ * Planet debilitation positions
+ */
+export const DEBILITATION_POSITIONS: Record<VedicPlanet, { rashi: VedicRashi; degree: number }> = {
+  sun: { rashi: 'libra', degree: 10 },
+  moon: { rashi: 'scorpio', degree: 3 },
+  mercury: { rashi: 'pisces', degree: 15 },
+  venus: { rashi: 'virgo', degree: 27 },
+  mars: { rashi: 'cancer', degree: 28 },
+  jupiter: { rashi: 'capricorn', degree: 5 },
+  saturn: { rashi: 'aries', degree: 20 },
+  rahu: { rashi: 'sagittarius', degree: 15 },
+  ketu: { rashi: 'gemini', degree: 15 },
+  uranus: { rashi: 'taurus', degree: 15 },
+  neptune: { rashi: 'capricorn', degree: 15 },
+  pluto: { rashi: 'aquarius', degree: 15 },
 };
 
-type NorthIndianChartProps = {
-  positions: PlanetPosition[];
+/**
+ * House (bhava) numbers, 1 being the ascendant house
+ */
+export type NorthIndianHouseNumber = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+
+/**
+ * Divisional chart identifiers
+ */
+export type NorthIndianChartType =
+  | 'D1'
+  | 'D2'
+  | 'D3'
+  | 'D4'
+  | 'D7'
+  | 'D9'
+  | 'D10'
+  | 'D12'
+  | 'D16'
+  | 'D20'
+  | 'D24'
+  | 'D30'
+  | 'D60';
+
+/**
+ * A single house of a processed chart
+ */
+export interface NorthIndianHouseData {
+  /** House number */
+  number: NorthIndianHouseNumber;
+  /** Rashi occupying the house */
+  rashi: VedicRashi;
+  /** Planets placed in the house */
+  planets: VedicPlanet[];
+  /** Lord of the house rashi */
+  houseLord?: VedicPlanet;
+  /** House cusp in degrees */
+  cusp?: number;
+}
+
+/**
+ * Aspect between two planets for chart rendering
+ */
+export interface NorthIndianAspectData {
+  fromPlanet: VedicPlanet;
+  toPlanet: VedicPlanet;
+  aspectType: string;
+  strength: number; // 0-100
+  beneficial: boolean;
+  /** House of the aspecting planet, where the arrow starts */
+  fromHouse?: NorthIndianHouseNumber;
+  /** House of the aspected planet, where the arrow ends */
+  toHouse?: NorthIndianHouseNumber;
+  /** Tradition the aspect belongs to */
+  system?: 'vedic' | 'western';
+}
+
+/**
+ * Processed chart data consumed by the North Indian chart components
+ */
+export interface NorthIndianChartData {
+  /** Twelve houses in order */
+  houses: NorthIndianHouseData[];
+  /** House holding the ascendant */
+  ascendant: NorthIndianHouseNumber;
+  /** Sidereal longitude of the ascendant */
+  ascendantDegree?: number;
+  /** Sidereal longitude of each planet */
+  planetDegrees?: Partial<Record<VedicPlanet, number>>;
+  /** Chart type identifier */
+  chartType: NorthIndianChartType;
+  /** Date and time of the chart */
+  datetime?: string;
+  /** Location information */
+  location?: string;
+  /** Chart title or name */
+  title?: string;
+  /** Ayanamsa the sidereal positions were computed with */
+  ayanamsa?: AyanamsaSystem;
+  /** Ayanamsa value in degrees at the chart moment */
+  ayanamsaValue?: number;
+  /** House system the cusps were computed with */
+  houseSystem?: HouseSystem;
+  /** Aspects to draw on the chart */
+  aspects?: NorthIndianAspectData[];
+  /** Shadbala strengths of the seven grahas (Rasi chart only) */
+  shadbala?: ShadbalaResult[];
+  /** Why Shadbala could not be calculated, if it failed */
+  shadbalaError?: string;
+  /** Planets in retrograde motion */
+  retrogradePlanets?: VedicPlanet[];
+}
+
+/**
+ * Style-neutral name for processed chart data, rendered alike by the North,
+ * South and East Indian chart styles
+ */
+export type VedicChartData = NorthIndianChartData;
+
+
+// ============================================================================
+// COMPONENT TYPES
+// ============================================================================
+
+export interface NorthIndianChartProps extends AccessibilityProps {
+  /** Processed chart data to render */
+  data: NorthIndianChartData;
+  /** Chart width and height in pixels (default: fits the window) */
+  size?: number;
+  /** Enable press handling */
+  interactive?: boolean;
+  /** Show planet glyphs instead of abbreviations */
+  showPlanetSymbols?: boolean;
+  /** Show bhava (house) numbers next to the rashi numbers */
+  showHouseNumbers?: boolean;
+  /** Show rashi numbers in each house */
+  showRashiNumbers?: boolean;
+  /** Show planet degrees within their rashi */
+  showDegrees?: boolean;
+  /** Show the nakshatra and pada of each planet and the ascendant */
+  showNakshatras?: boolean;
+  /** Draw aspect arrows between houses */
+  showAspects?: boolean;
+  /** Highlighted planet */
+  selectedPlanet?: VedicPlanet;
+  /** Highlighted house */
+  selectedHouse?: NorthIndianHouseNumber;
+  /** Ashtakavarga bindus to overlay, keyed by house number */
+  bindus?: Partial<Record<number, number>>;
+  /** Bindus at or above which a house is highlighted (default: 28) */
+  binduThreshold?: number;
+  /** Planet press handler */
+  onPlanetPress?: (planet: VedicPlanet, house: NorthIndianHouseData) => void;
+  /** House press handler */
+  onHousePress?: (house: NorthIndianHouseData) => void;
+  /** Custom styling */
+  style?: ViewStyle;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+/**
+ * Fixed geometry of a house in the 100 x 100 chart space
+ */
+interface HouseGeometry extends PlanetArea {
+  /** Outline of the house */
+  points: ChartPoint[];
+  /** Rashi number position, towards the centre of the chart */
+  rashiLabel: ChartPoint;
+  /** House number position, beyond the rashi number */
+  houseLabel: ChartPoint;
+  /** Bindu position, towards the edge of the chart */
+  binduLabel: ChartPoint;
+}
+
+// ============================================================================
+// COMPONENT CONSTANTS
+// ============================================================================
+
+/**
+ * Houses run anticlockwise from the top diamond. The four diamonds (1, 4, 7,
+ * 10) are the kendras; the eight triangles sit between them and the frame.
+ */
+const HOUSE_GEOMETRY: Record<NorthIndianHouseNumber, HouseGeometry> = {
+  1: {
+    points: [{ x: 50, y: 0 }, { x: 25, y: 25 }, { x: 50, y: 50 }, { x: 75, y: 25 }],
+    center: { x: 50, y: 24 }, width: 24, height: 24,
+    rashiLabel: { x: 50, y: 41 }, houseLabel: { x: 50, y: 46 }, binduLabel: { x: 50, y: 7 },
+  },
+  2: {
+    points: [{ x: 0, y: 0 }, { x: 25, y: 25 }, { x: 50, y: 0 }],
+    center: { x: 25, y: 8.5 }, width: 24, height: 9,
+    rashiLabel: { x: 25, y: 16.5 }, houseLabel: { x: 25, y: 21.5 }, binduLabel: { x: 25, y: 2.6 },
+  },
+  3: {
+    points: [{ x: 0, y: 0 }, { x: 0, y: 50 }, { x: 25, y: 25 }],
+    center: { x: 9, y: 25 }, width: 8, height: 24,
+    rashiLabel: { x: 16.5, y: 25 }, houseLabel: { x: 21.5, y: 25 }, binduLabel: { x: 2.6, y: 25 },
+  },
+  4: {
+    points: [{ x: 0, y: 50 }, { x: 25, y: 75 }, { x: 50, y: 50 }, { x: 25, y: 25 }],
+    center: { x: 26, y: 50 }, width: 24, height: 24,
+    rashiLabel: { x: 41, y: 50 }, houseLabel: { x: 46, y: 50 }, binduLabel: { x: 7, y: 50 },
+  },
+  5: {
+    points: [{ x: 0, y: 50 }, { x: 0, y: 100 }, { x: 25, y: 75 }],
+    center: { x: 9, y: 75 }, width: 8, height: 24,
+    rashiLabel: { x: 16.5, y: 75 }, houseLabel: { x: 21.5, y: 75 }, binduLabel: { x: 2.6, y: 75 },
+  },
+  6: {
+    points: [{ x: 0, y: 100 }, { x: 50, y: 100 }, { x: 25, y: 75 }],
+    center: { x: 25, y: 91.5 }, width: 24, height: 9,
+    rashiLabel: { x: 25, y: 83.5 }, houseLabel: { x: 25, y: 78.5 }, binduLabel: { x: 25, y: 97.4 },
+  },
+  7: {
+    points: [{ x: 50, y: 100 }, { x: 75, y: 75 }, { x: 50, y: 50 }, { x: 25, y: 75 }],
+    center: { x: 50, y: 76 }, width: 24, height: 24,
+    rashiLabel: { x: 50, y: 59 }, houseLabel: { x: 50, y: 54 }, binduLabel: { x: 50, y: 93 },
+  },
+  8: {
+    points: [{ x: 50, y: 100 }, { x: 100, y: 100 }, { x: 75, y: 75 }],
+    center: { x: 75, y: 91.5 }, width: 24, height: 9,
+    rashiLabel: { x: 75, y: 83.5 }, houseLabel: { x: 75, y: 78.5 }, binduLabel: { x: 75, y: 97.4 },
+  },
+  9: {
+    points: [{ x: 100, y: 100 }, { x: 100, y: 50 }, { x: 75, y: 75 }],
+    center: { x: 91, y: 75 }, width: 8, height: 24,
+    rashiLabel: { x: 83.5, y: 75 }, houseLabel: { x: 78.5, y: 75 }, binduLabel: { x: 97.4, y: 75 },
+  },
+  10: {
+    points: [{ x: 100, y: 50 }, { x: 75, y: 25 }, { x: 50, y: 50 }, { x: 75, y: 75 }],
+    center: { x: 74, y: 50 }, width: 24, height: 24,
+    rashiLabel: { x: 59, y: 50 }, houseLabel: { x: 54, y: 50 }, binduLabel: { x: 93, y: 50 },
+  },
+  11: {
+    points: [{ x: 100, y: 50 }, { x: 100, y: 0 }, { x: 75, y: 25 }],
+    center: { x: 91, y: 25 }, width: 8, height: 24,
+    rashiLabel: { x: 83.5, y: 25 }, houseLabel: { x: 78.5, y: 25 }, binduLabel: { x: 97.4, y: 25 },
+  },
+  12: {
+    points: [{ x: 100, y: 0 }, { x: 50, y: 0 }, { x: 75, y: 25 }],
+    center: { x: 75, y: 8.5 }, width: 24, height: 9,
+    rashiLabel: { x: 75, y: 16.5 }, houseLabel: { x: 75, y: 21.5 }, binduLabel: { x: 75, y: 2.6 },
+  },
 };
 
-const NorthIndianChart = ({ positions }: NorthIndianChartProps) => {
-  const dimension = Dimensions.get('window');
-  const size = Math.min(dimension.width, dimension.height) - 40; // Add some margin
-
-  // Group planets by house
-  const planetsByHouse: Record<number, string> = {};
-  for (let i = 1; i <= 12; i++) {
-    const planetsInHouse = positions
-      .filter((p) => p.house === i)
-      .map((p) => p.planet)
-      .join(' ');
-    planetsByHouse[i] = planetsInHouse;
-  }
-
-  // Text positions as fractions of the chart size (0 to 1)
-  const textPositions = {
-    1: { x: 0.5, y: 0.2 },
-    2: { x: 0.75, y: 0.15 },
-    3: { x: 0.8, y: 0.3 },
-    4: { x: 0.8, y: 0.5 },
-    5: { x: 0.75, y: 0.65 },
-    6: { x: 0.75, y: 0.85 },
-    7: { x: 0.5, y: 0.8 },
-    8: { x: 0.25, y: 0.85 },
-    9: { x: 0.2, y: 0.7 },
-    10: { x: 0.2, y: 0.5 },
-    11: { x: 0.25, y: 0.35 },
-    12: { x: 0.25, y: 0.15 },
+/** Ascendant nakshatra position, between the planets and the rashi number of house 1 */
+const ASCENDANT_NAKSHATRA_LABEL: ChartPoint = { x: 50, y: 37.5 };
+
+const LINE_COLOR = SignatureBlues.light as string;
+const ASCENDANT_COLOR = '#FFD700';
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * North Indian Chart - Diamond-style chart rendered from processed data
+ */
+export const NorthIndianChart: React.FC<NorthIndianChartProps> = ({
+  data,
+  size,
+  interactive = true,
+  showPlanetSymbols = false,
+  showHouseNumbers = false,
+  showRashiNumbers = true,
+  showDegrees = true,
+  showNakshatras = false,
+  showAspects = false,
+  selectedPlanet,
+  selectedHouse,
+  bindus,
+  binduThreshold = 28,
+  onPlanetPress,
+  onHousePress,
+  style,
+  testID = 'corp-astro-north-indian-chart',
+  ...accessibilityProps
+}) => {
+  const chartSize = useMemo(() => {
+    if (size) return size;
+    const dimension = Dimensions.get('window');
+    return Math.min(dimension.width, dimension.height) - 40;
+  }, [size]);
+
+  /**
+   * Aspect arrows, keeping the strongest aspect between each pair of houses
+   */
+  const aspectArrows = useMemo(() => {
+    if (!showAspects || !data.aspects) return [];
+    const strongest = new Map<string, NorthIndianAspectData>();
+    data.aspects.forEach(aspect => {
+      if (!aspect.fromHouse || !aspect.toHouse || aspect.fromHouse === aspect.toHouse) return;
+      const key = `${aspect.fromHouse}-${aspect.toHouse}`;
+      const existing = strongest.get(key);
+      if (!existing || aspect.strength > existing.strength) {
+        strongest.set(key, aspect);
+      }
+    });
+    return Array.from(strongest.values());
+  }, [showAspects, data.aspects]);
+
+  const ascendantNakshatra = showNakshatras && data.ascendantDegree !== undefined
+    ? calculateNakshatra(data.ascendantDegree)
+    : undefined;
+
+  // ============================================================================
+  // RENDER HELPERS
+  // ============================================================================
+
+  /**
+   * Render the outline, rashi number and planets of a house
+   */
+  const renderHouse = (house: NorthIndianHouseData) => {
+    const geometry = HOUSE_GEOMETRY[house.number];
+    if (!geometry) return null;
+
+    const planets = sortPlanetsByDegree(house.planets, data.planetDegrees);
+    const { fontSize, slots } = layoutPlanets(planets.length, geometry, showDegrees, showNakshatras);
+    const isSelected = house.number === selectedHouse;
+    const bindu = bindus?.[house.number];
+
+    return (
+      <G key={house.number}>
+        <Polygon
+          points={toPointsAttribute(geometry.points)}
+          fill={isSelected ? CHART_COLORS.selectedArea : CHART_COLORS.unselectedArea}
+          onPress={interactive && onHousePress ? () => onHousePress(house) : undefined}
+        />
+
+        {showRashiNumbers && (
+          <SvgText
+            x={geometry.rashiLabel.x}
+            y={geometry.rashiLabel.y + 1.1}
+            fontSize={3.2}
+            fontWeight="bold"
+            fill={ProfessionalGrays.light as string}
+            textAnchor="middle"
+          >
+            {VEDIC_RASHIS.indexOf(house.rashi) + 1}
+          </SvgText>
+        )}
+
+        {showHouseNumbers && (
+          <SvgText
+            x={geometry.houseLabel.x}
+            y={geometry.houseLabel.y + 0.8}
+            fontSize={2.3}
+            fill={ProfessionalGrays.medium as string}
+            textAnchor="middle"
+          >
+            {`H${house.number}`}
+          </SvgText>
+        )}
+
+        {house.number === 1 && ascendantNakshatra && (
+          <SvgText
+            x={ASCENDANT_NAKSHATRA_LABEL.x}
+            y={ASCENDANT_NAKSHATRA_LABEL.y + 0.8}
+            fontSize={2.3}
+            fill={ASCENDANT_COLOR}
+            textAnchor="middle"
+          >
+            {`Asc ${ascendantNakshatra.nakshatra.abbreviation} ${ascendantNakshatra.pada}`}
+          </SvgText>
+        )}
+
+        {bindu !== undefined && (
+          <SvgText
+            x={geometry.binduLabel.x}
+            y={geometry.binduLabel.y + 0.9}
+            fontSize={2.6}
+            fontWeight="bold"
+            fill={bindu >= binduThreshold ? CHART_COLORS.binduStrong : CHART_COLORS.binduWeak}
+            textAnchor="middle"
+          >
+            {bindu}
+          </SvgText>
+        )}
+
+        {planets.map((planet, index) => (
+          <ChartPlanetLabel
+            key={planet}
+            planet={planet}
+            slot={slots[index]}
+            fontSize={fontSize}
+            degree={data.planetDegrees?.[planet]}
+            isRetrograde={data.retrogradePlanets?.includes(planet)}
+            showDegrees={showDegrees}
+            showSymbol={showPlanetSymbols}
+            showNakshatra={showNakshatras}
+            selected={planet === selectedPlanet}
+            onPress={interactive && onPlanetPress ? () => onPlanetPress(planet, house) : undefined}
+          />
+        ))}
+      </G>
+    );
   };
 
+  /**
+   * Render aspect arrows between houses
+   */
+  const renderAspects = () => aspectArrows.map(aspect => {
+    const arrow = getArrowGeometry(HOUSE_GEOMETRY[aspect.fromHouse!].center, HOUSE_GEOMETRY[aspect.toHouse!].center);
+    const color = aspect.beneficial ? CHART_COLORS.beneficAspect : CHART_COLORS.maleficAspect;
+    const opacity = 0.3 + (aspect.strength / 100) * 0.5;
+    return (
+      <G key={`${aspect.fromHouse}-${aspect.toHouse}`} opacity={opacity}>
+        <Line
+          x1={arrow.x1}
+          y1={arrow.y1}
+          x2={arrow.x2}
+          y2={arrow.y2}
+          stroke={color}
+          strokeWidth={0.4}
+          strokeDasharray={aspect.system === 'vedic' ? undefined : '1.2,0.8'}
+        />
+        <Polygon points={arrow.head} fill={color} />
+      </G>
+    );
+  });
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
   return (
-    <View className="flex-1 items-center justify-center">
-      <View style={{ width: size, height: size, position: 'relative' }}>
-        <Svg height={size} width={size} viewBox="0 0 100 100">
-          {/* Square border */}
-          <Rect x="0" y="0" width="100" height="100" stroke="black" fill="none" />
-          {/* Diagonal 1 */}
-          <Line x1="0" y1="0" x2="100" y2="100" stroke="black" />
-          {/* Diagonal 2 */}
-          <Line x1="0" y1="100" x2="100" y2="0" stroke="black" />
-          {/* Vertical line */}
-          <Line x1="50" y1="0" x2="50" y2="100" stroke="black" />
-          {/* Horizontal line */}
-          <Line x1="0" y1="50" x2="100" y2="50" stroke="black" />
-        </Svg>
-        {/* Place planet texts */}
-        {Object.entries(planetsByHouse).map(([houseStr, planets]) => {
-          if (!planets) return null;
-          const house = parseInt(houseStr);
-          const pos = textPositions[house as keyof typeof textPositions];
-          return (
-            <Text
-              key={house}
-              style={{
-                position: 'absolute',
-                left: pos.x * size - 20, // Adjust for text centering
-                top: pos.y * size - 10,
-                fontSize: 12,
-                textAlign: 'center',
-              }}
-            >
-              {planets}
-            </Text>
-          );
-        })}
-      </View>
+    <View
+      style={[{ width: chartSize, height: chartSize }, style]}
+      testID={testID}
+      accessibilityLabel={`North Indian ${data.chartType} chart`}
+      {...accessibilityProps}
+    >
+      <Svg width={chartSize} height={chartSize} viewBox="0 0 100 100">
+        {/* Frame, diagonals and inner diamond */}
+        <Rect x={0.25} y={0.25} width={99.5} height={99.5} stroke={LINE_COLOR} strokeWidth={0.5} fill="none" />
+        <Line x1={0} y1={0} x2={100} y2={100} stroke={LINE_COLOR} strokeWidth={0.4} />
+        <Line x1={100} y1={0} x2={0} y2={100} stroke={LINE_COLOR} strokeWidth={0.4} />
+        <Polygon points="50,0 100,50 50,100 0,50" stroke={LINE_COLOR} strokeWidth={0.4} fill="none" />
+
+        {data.houses.map(renderHouse)}
+
+        {renderAspects()}
+      </Svg>
     </View>
   );
 };
 
-export default NorthIndianChart;
\ No newline at end of file
+export default NorthIndianChart;
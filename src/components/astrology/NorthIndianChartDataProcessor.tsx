@@ -11,6 +11,8 @@
  * - Planetary position calculations for North Indian format
  * - House cusps and sign placement conversion
  * - Aspect calculations and strength determination
+ * - Vedic graha drishti alongside Western angular aspects
+ * - Classical yoga detection in the chart analysis
  * - Data transformation for visualization components
  * - Support for multiple chart types (D1, D9, D10, etc.)
  * - Compatibility with standard astrological data formats
@@ -35,9 +37,23 @@ import {
   VedicRashi, 
   NorthIndianHouseNumber,
   NorthIndianChartData,
+  NorthIndianChartType,
   NorthIndianHouseData,
   NorthIndianAspectData,
+  EXALTATION_POSITIONS,
+  DEBILITATION_POSITIONS,
+  PLANET_RULERSHIP,
 } from './NorthIndianChart';
+import { AyanamsaSystem, DEFAULT_AYANAMSA, applyAyanamsa } from './ayanamsaUtils';
+import {
+  HouseSystem,
+  DEFAULT_HOUSE_SYSTEM,
+  QUADRANT_HOUSE_SYSTEMS,
+  calculateHouseCusps,
+} from './houseSystemUtils';
+import { CompoundRelationship, getCompoundRelationship } from './friendshipUtils';
+import { ShadbalaResult, calculateShadbala } from './shadbalaUtils';
+import { YogaResult, detectYogas } from './yogaUtils';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -49,18 +65,36 @@ import {
 export interface RawAstrologicalData {
   /** Date and time of the chart */
   datetime: string;
+  /** Offset of the chart's local time from UTC in hours, east positive (UTC when omitted) */
+  timezone?: number;
   /** Location information */
   location?: string;
   /** Chart title or name */
   title?: string;
   /** Planetary positions in degrees */
   planets: Record<VedicPlanet, number>;
-  /** House cusps in degrees */
-  houseCusps: number[];
+  /** House cusps in degrees (computed from houseSystem when omitted) */
+  houseCusps?: number[];
   /** Ascendant degree */
   ascendant: number;
-  /** Ayanamsa used (optional) */
-  ayanamsa?: string;
+  /** House system the cusps follow, or to compute them with (optional) */
+  houseSystem?: HouseSystem;
+  /** Geographic latitude, needed for quadrant house systems */
+  latitude?: number;
+  /** Geographic longitude */
+  longitude?: number;
+  /** Local sidereal time (RAMC) in degrees, needed for quadrant house systems */
+  siderealTime?: number;
+  /** Obliquity of the ecliptic in degrees, needed for quadrant house systems */
+  obliquity?: number;
+  /** Retrograde flags per planet (optional) */
+  retrograde?: Partial<Record<VedicPlanet, boolean>>;
+  /** Ayanamsa used, or to apply when the data is tropical (optional) */
+  ayanamsa?: AyanamsaSystem;
+  /** Offset in degrees when ayanamsa is 'custom' */
+  customAyanamsa?: number;
+  /** Zodiac the longitudes are measured in (default: 'sidereal') */
+  zodiac?: 'tropical' | 'sidereal';
   /** Chart type identifier */
   chartType?: string;
 }
@@ -73,9 +107,17 @@ export interface PlanetaryDignity {
   rashi: VedicRashi;
   dignity: 'exalted' | 'debilitated' | 'own' | 'friend' | 'enemy' | 'neutral';
   strength: number; // 0-100
+  /** Five-fold relationship with the rashi lord, when not exalted, debilitated or own */
+  relationship?: CompoundRelationship;
   isRetrograde?: boolean;
+  house?: NorthIndianHouseNumber;
 }
 
+/**
+ * Aspect calculation mode: Vedic graha drishti, Western angular aspects, or both
+ */
+export type AspectMode = 'vedic' | 'western' | 'both';
+
 /**
  * Aspect information
  */
@@ -88,6 +130,10 @@ export interface AspectData {
   orb: number;
   strength: number; // 0-100
   isApplying: boolean;
+  /** Tradition the aspect belongs to */
+  system?: 'vedic' | 'western';
+  /** Sign counted from the aspecting planet, for Vedic drishti (7 = opposite sign) */
+  drishti?: number;
 }
 
 /**
@@ -110,6 +156,8 @@ export interface ChartAnalysis {
   retrogradePlanets: VedicPlanet[];
   /** Strong aspects count */
   strongAspects: number;
+  /** Classical yogas present in the chart */
+  yogas: YogaResult[];
 }
 
 /**
@@ -124,10 +172,21 @@ export interface NorthIndianChartDataProcessorProps {
   includeDignities?: boolean;
   /** Custom orb tolerance for aspects */
   orbTolerance?: number;
+  /** Aspects to calculate (default: 'western') */
+  aspectMode?: AspectMode;
+  /** Let Rahu and Ketu cast drishti on the 5th, 7th and 9th signs */
+  includeNodeAspects?: boolean;
+  /** Ayanamsa applied to tropical data (overrides rawData.ayanamsa) */
+  ayanamsa?: AyanamsaSystem;
+  /** Offset in degrees when ayanamsa is 'custom' */
+  customAyanamsa?: number;
+  /** House system used to compute cusps (overrides rawData.houseSystem) */
+  houseSystem?: HouseSystem;
   /** Children render prop */
   children: (data: {
     chartData: NorthIndianChartData;
     dignities: PlanetaryDignity[];
+    shadbala: ShadbalaResult[];
     aspects: AspectData[];
     analysis: ChartAnalysis;
     isProcessing: boolean;
@@ -158,58 +217,41 @@ const RASHI_BOUNDARIES: Record<VedicRashi, { start: number; end: number }> = {
 };
 
 /**
- * Planet exaltation positions
+ * Dignity strength for each relationship with the sign lord
  */
-const EXALTATION_POSITIONS: Record<VedicPlanet, { rashi: VedicRashi; degree: number }> = {
-  sun: { rashi: 'aries', degree: 10 },
-  moon: { rashi: 'taurus', degree: 3 },
-  mercury: { rashi: 'virgo', degree: 15 },
-  venus: { rashi: 'pisces', degree: 27 },
-  mars: { rashi: 'capricorn', degree: 28 },
-  jupiter: { rashi: 'cancer', degree: 5 },
-  saturn: { rashi: 'libra', degree: 20 },
-  rahu: { rashi: 'gemini', degree: 15 },
-  ketu: { rashi: 'sagittarius', degree: 15 },
-  uranus: { rashi: 'scorpio', degree: 15 },
-  neptune: { rashi: 'cancer', degree: 15 },
-  pluto: { rashi: 'leo', degree: 15 },
+const RELATIONSHIP_STRENGTH: Record<CompoundRelationship, number> = {
+  great_friend: 70,
+  friend: 62,
+  neutral: 50,
+  enemy: 38,
+  great_enemy: 30,
 };
 
 /**
- * Planet debilitation positions
+ * Signs aspected by each graha, counted from its own sign
+ *
+ * Every graha aspects the 7th; Mars, Jupiter and Saturn have special aspects.
+ * The outer planets cast no drishti.
  */
-const DEBILITATION_POSITIONS: Record<VedicPlanet, { rashi: VedicRashi; degree: number }> = {
-  sun: { rashi: 'libra', degree: 10 },
-  moon: { rashi: 'scorpio', degree: 3 },
-  mercury: { rashi: 'pisces', degree: 15 },
-  venus: { rashi: 'virgo', degree: 27 },
-  mars: { rashi: 'cancer', degree: 28 },
-  jupiter: { rashi: 'capricorn', degree: 5 },
-  saturn: { rashi: 'aries', degree: 20 },
-  rahu: { rashi: 'sagittarius', degree: 15 },
-  ketu: { rashi: 'gemini', degree: 15 },
-  uranus: { rashi: 'taurus', degree: 15 },
-  neptune: { rashi: 'capricorn', degree: 15 },
-  pluto: { rashi: 'aquarius', degree: 15 },
+const GRAHA_DRISHTI: Partial<Record<VedicPlanet, number[]>> = {
+  sun: [7],
+  moon: [7],
+  mercury: [7],
+  venus: [7],
+  mars: [4, 7, 8],
+  jupiter: [5, 7, 9],
+  saturn: [3, 7, 10],
 };
 
 /**
- * Planet rulership
+ * Signs aspected by the nodes when node aspects are enabled
  */
-const PLANET_RULERSHIP: Record<VedicRashi, VedicPlanet> = {
-  aries: 'mars',
-  taurus: 'venus',
-  gemini: 'mercury',
-  cancer: 'moon',
-  leo: 'sun',
-  virgo: 'mercury',
-  libra: 'venus',
-  scorpio: 'mars',
-  sagittarius: 'jupiter',
-  capricorn: 'saturn',
-  aquarius: 'saturn',
-  pisces: 'jupiter',
-};
+const NODE_DRISHTI = [5, 7, 9];
+
+/**
+ * Natural benefics, whose aspects are beneficial
+ */
+const NATURAL_BENEFICS: VedicPlanet[] = ['jupiter', 'venus', 'mercury', 'moon'];
 
 /**
  * Aspect orbs for different aspect types
@@ -255,6 +297,9 @@ function getRashiFromDegree(degree: number): VedicRashi {
  * Get house number from degree using house cusps
  */
 function getHouseFromDegree(degree: number, houseCusps: number[]): NorthIndianHouseNumber {
+  if (houseCusps.length !== 12) {
+    throw new Error(`Expected 12 house cusps, received ${houseCusps.length}`);
+  }
   const normalizedDegree = normalizeDegrees(degree);
   
   for (let i = 0; i < 12; i++) {
@@ -276,6 +321,36 @@ function getHouseFromDegree(degree: number, houseCusps: number[]): NorthIndianHo
   return 1; // Fallback
 }
 
+/**
+ * Resolve the house cusps used for processing
+ *
+ * Cusps are recomputed in the chart's zodiac whenever a house system is known,
+ * so whole sign houses stay aligned to sidereal signs after ayanamsa conversion.
+ * Supplied cusps are kept when a quadrant system lacks the angles to recompute.
+ */
+function resolveHouseCusps(
+  rawData: RawAstrologicalData,
+  chartData: RawAstrologicalData,
+  houseSystem?: HouseSystem
+): { cusps: number[]; system?: HouseSystem } {
+  const system = houseSystem ?? rawData.houseSystem;
+  const hasAngles = rawData.siderealTime !== undefined
+    && rawData.latitude !== undefined
+    && rawData.obliquity !== undefined;
+
+  if (chartData.houseCusps && (!system || (!houseSystem && QUADRANT_HOUSE_SYSTEMS.includes(system) && !hasAngles))) {
+    return { cusps: chartData.houseCusps, system };
+  }
+
+  const result = calculateHouseCusps(system ?? DEFAULT_HOUSE_SYSTEM, {
+    ascendant: chartData.ascendant,
+    siderealTime: rawData.siderealTime,
+    latitude: rawData.latitude,
+    obliquity: rawData.obliquity,
+  });
+  return { cusps: result.cusps, system: result.system };
+}
+
 /**
  * Calculate angular distance between two degrees
  */
@@ -286,11 +361,17 @@ function calculateAngularDistance(degree1: number, degree2: number): number {
 
 /**
  * Determine planetary dignity
+ *
+ * Outside exaltation, debilitation and own sign, the dignity follows the
+ * five-fold relationship between the planet and the lord of its rashi. Pass
+ * the sidereal positions of all planets to include temporary friendship;
+ * without them only the natural relationship is used.
  */
 function calculatePlanetaryDignity(
   planet: VedicPlanet,
   degree: number,
-  rashi: VedicRashi
+  rashi: VedicRashi,
+  positions?: Partial<Record<VedicPlanet, number>>
 ): PlanetaryDignity {
   const exaltation = EXALTATION_POSITIONS[planet];
   const debilitation = DEBILITATION_POSITIONS[planet];
@@ -298,6 +379,7 @@ function calculatePlanetaryDignity(
   
   let dignity: PlanetaryDignity['dignity'] = 'neutral';
   let strength = 50; // Base strength
+  let relationship: CompoundRelationship | undefined;
   
   // Check exaltation
   if (rashi === exaltation.rashi) {
@@ -316,32 +398,13 @@ function calculatePlanetaryDignity(
     dignity = 'own';
     strength = 75;
   }
-  // Determine friend/enemy relationships (simplified)
+  // Compound relationship with the sign lord
   else {
-    // This is a simplified version - full dignity calculation
-    // would require more complex friend/enemy relationships
-    const friendlySigns: Record<VedicPlanet, VedicRashi[]> = {
-      sun: ['aries', 'leo', 'sagittarius'],
-      moon: ['cancer', 'taurus', 'pisces'],
-      mercury: ['gemini', 'virgo', 'aquarius'],
-      venus: ['taurus', 'libra', 'pisces'],
-      mars: ['aries', 'scorpio', 'capricorn'],
-      jupiter: ['sagittarius', 'pisces', 'cancer'],
-      saturn: ['capricorn', 'aquarius', 'libra'],
-      rahu: ['gemini', 'virgo', 'aquarius'],
-      ketu: ['scorpio', 'sagittarius', 'pisces'],
-      uranus: ['aquarius', 'scorpio'],
-      neptune: ['pisces', 'cancer'],
-      pluto: ['scorpio', 'aries'],
-    };
-    
-    if (friendlySigns[planet]?.includes(rashi)) {
-      dignity = 'friend';
-      strength = 65;
-    } else {
-      dignity = 'enemy';
-      strength = 35;
-    }
+    relationship = getCompoundRelationship(planet, ruler, { ...positions, [planet]: degree });
+    dignity = relationship === 'great_friend' ? 'friend'
+      : relationship === 'great_enemy' ? 'enemy'
+      : relationship;
+    strength = RELATIONSHIP_STRENGTH[relationship];
   }
   
   return {
@@ -349,6 +412,7 @@ function calculatePlanetaryDignity(
     rashi,
     dignity,
     strength,
+    relationship,
   };
 }
 
@@ -395,6 +459,7 @@ function calculateAspects(
             orb,
             strength,
             isApplying: degree1 < degree2, // Simplified applying/separating
+            system: 'western',
           });
           
           break; // Only add the closest aspect type
@@ -406,6 +471,52 @@ function calculateAspects(
   return aspects.sort((a, b) => b.strength - a.strength);
 }
 
+/**
+ * Calculate Vedic graha drishti between planets
+ *
+ * Drishti is cast on whole signs, so every planet in an aspected sign
+ * receives the aspect in full regardless of degree; the orb records the
+ * distance from the exact angle. Aspects are one-way: a planet aspecting
+ * another is not necessarily aspected in return.
+ */
+function calculateVedicAspects(
+  planets: Record<VedicPlanet, number>,
+  houseCusps: number[],
+  includeNodeAspects: boolean = false
+): AspectData[] {
+  const aspects: AspectData[] = [];
+  const planetEntries = Object.entries(planets) as [VedicPlanet, number][];
+
+  planetEntries.forEach(([fromPlanet, fromDegree]) => {
+    const drishtis = fromPlanet === 'rahu' || fromPlanet === 'ketu'
+      ? (includeNodeAspects ? NODE_DRISHTI : [])
+      : GRAHA_DRISHTI[fromPlanet] ?? [];
+    const fromSign = Math.floor(normalizeDegrees(fromDegree) / 30);
+
+    planetEntries.forEach(([toPlanet, toDegree]) => {
+      if (toPlanet === fromPlanet) return;
+      const drishti = ((Math.floor(normalizeDegrees(toDegree) / 30) - fromSign + 12) % 12) + 1;
+      if (!drishtis.includes(drishti)) return;
+
+      const exactAngle = (drishti - 1) * 30;
+      aspects.push({
+        fromPlanet,
+        toPlanet,
+        fromHouse: getHouseFromDegree(fromDegree, houseCusps),
+        toHouse: getHouseFromDegree(toDegree, houseCusps),
+        type: drishti === 7 ? 'opposition' : 'special',
+        orb: calculateAngularDistance(normalizeDegrees(toDegree - fromDegree), exactAngle),
+        strength: 100,
+        isApplying: normalizeDegrees(toDegree - fromDegree) > exactAngle,
+        system: 'vedic',
+        drishti,
+      });
+    });
+  });
+
+  return aspects;
+}
+
 /**
  * Generate chart analysis
  */
@@ -463,6 +574,10 @@ function generateChartAnalysis(
   const retrogradePlanets = dignities.filter(d => d.isRetrograde).map(d => d.planet);
   
   const strongAspects = aspects.filter(a => a.strength > 70).length;
+
+  const yogas = chartData.planetDegrees && chartData.ascendantDegree !== undefined
+    ? detectYogas(chartData.planetDegrees, chartData.ascendantDegree)
+    : [];
   
   return {
     planetCount,
@@ -473,6 +588,7 @@ function generateChartAnalysis(
     debilitatedPlanets,
     retrogradePlanets,
     strongAspects,
+    yogas,
   };
 }
 
@@ -488,6 +604,11 @@ export const NorthIndianChartDataProcessor: React.FC<NorthIndianChartDataProcess
   includeAspects = true,
   includeDignities = true,
   orbTolerance = 8,
+  aspectMode = 'western',
+  includeNodeAspects = false,
+  ayanamsa,
+  customAyanamsa,
+  houseSystem,
   children,
 }) => {
   // ============================================================================
@@ -496,16 +617,25 @@ export const NorthIndianChartDataProcessor: React.FC<NorthIndianChartDataProcess
 
   const processedData = useMemo(() => {
     try {
+      // Convert tropical input to the sidereal zodiac
+      const ayanamsaSystem = ayanamsa ?? rawData.ayanamsa ?? DEFAULT_AYANAMSA;
+      const { data: siderealData, ayanamsa: ayanamsaValue } = applyAyanamsa(rawData, {
+        system: ayanamsaSystem,
+        customOffset: customAyanamsa ?? rawData.customAyanamsa,
+      });
+      const isConverted = rawData.zodiac === 'tropical';
+      const { cusps: houseCusps, system: resolvedHouseSystem } = resolveHouseCusps(rawData, siderealData, houseSystem);
+
       // Process houses and planet placements
       const houses: NorthIndianHouseData[] = [];
       
       for (let houseNum = 1; houseNum <= 12; houseNum++) {
-        const houseRashi = getRashiFromDegree(rawData.houseCusps[houseNum - 1]);
+        const houseRashi = getRashiFromDegree(houseCusps[houseNum - 1]);
         const planetsInHouse: VedicPlanet[] = [];
         
         // Find planets in this house
-        Object.entries(rawData.planets).forEach(([planet, degree]) => {
-          const planetHouse = getHouseFromDegree(degree, rawData.houseCusps);
+        Object.entries(siderealData.planets).forEach(([planet, degree]) => {
+          const planetHouse = getHouseFromDegree(degree, houseCusps);
           if (planetHouse === houseNum) {
             planetsInHouse.push(planet as VedicPlanet);
           }
@@ -516,31 +646,65 @@ export const NorthIndianChartDataProcessor: React.FC<NorthIndianChartDataProcess
           rashi: houseRashi,
           planets: planetsInHouse,
           houseLord: PLANET_RULERSHIP[houseRashi],
-          cusp: rawData.houseCusps[houseNum - 1],
+          cusp: houseCusps[houseNum - 1],
         });
       }
       
       // Create chart data
       const chartData: NorthIndianChartData = {
         houses,
-        ascendant: getHouseFromDegree(rawData.ascendant, rawData.houseCusps),
-        chartType: (rawData.chartType as 'D1' | 'D2' | 'D3' | 'D4' | 'D9' | 'D10' | 'D12' | 'D16' | 'D20' | 'D24' | 'D30' | 'D60') || 'D1',
-        datetime: rawData.datetime,
-        location: rawData.location,
-        title: rawData.title,
+        ascendant: getHouseFromDegree(siderealData.ascendant, houseCusps),
+        ascendantDegree: siderealData.ascendant,
+        planetDegrees: siderealData.planets,
+        chartType: (siderealData.chartType as NorthIndianChartType) || 'D1',
+        datetime: siderealData.datetime,
+        location: siderealData.location,
+        title: siderealData.title,
+        ayanamsa: isConverted ? ayanamsaSystem : siderealData.ayanamsa,
+        ayanamsaValue: isConverted ? ayanamsaValue : undefined,
+        houseSystem: resolvedHouseSystem,
+        retrogradePlanets: (Object.keys(siderealData.planets) as VedicPlanet[])
+          .filter(planet => siderealData.retrograde?.[planet]),
       };
       
       // Calculate dignities
       const dignities: PlanetaryDignity[] = includeDignities
-        ? Object.entries(rawData.planets).map(([planet, degree]) => {
+        ? Object.entries(siderealData.planets).map(([planet, degree]) => {
             const rashi = getRashiFromDegree(degree);
-            return calculatePlanetaryDignity(planet as VedicPlanet, degree, rashi);
+            return {
+              ...calculatePlanetaryDignity(planet as VedicPlanet, degree, rashi, siderealData.planets),
+              isRetrograde: siderealData.retrograde?.[planet as VedicPlanet] ?? false,
+              house: getHouseFromDegree(degree, houseCusps),
+            };
           })
         : [];
+
+      // Shadbala applies to the Rasi chart only; a failure there is reported on the chart data
+      // and leaves the rest of the chart intact
+      let shadbala: ShadbalaResult[] = [];
+      if (includeDignities && chartData.chartType === 'D1') {
+        try {
+          shadbala = calculateShadbala(rawData, {
+            ayanamsa: { system: ayanamsaSystem, customOffset: customAyanamsa ?? rawData.customAyanamsa },
+          });
+        } catch (error) {
+          chartData.shadbalaError = error instanceof Error ? error.message : 'Unknown Shadbala error';
+        }
+      }
+      if (shadbala.length > 0) {
+        chartData.shadbala = shadbala;
+      }
       
       // Calculate aspects
       const aspects: AspectData[] = includeAspects
-        ? calculateAspects(rawData.planets, rawData.houseCusps, orbTolerance)
+        ? [
+            ...(aspectMode !== 'western'
+              ? calculateVedicAspects(siderealData.planets, houseCusps, includeNodeAspects)
+              : []),
+            ...(aspectMode !== 'vedic'
+              ? calculateAspects(siderealData.planets, houseCusps, orbTolerance)
+              : []),
+          ]
         : [];
       
       // Add aspects to chart data if available
@@ -550,7 +714,12 @@ export const NorthIndianChartDataProcessor: React.FC<NorthIndianChartDataProcess
           toPlanet: aspect.toPlanet,
           aspectType: aspect.type,
           strength: aspect.strength,
-          beneficial: aspect.type === 'trine' || aspect.type === 'sextile',
+          beneficial: aspect.system === 'vedic'
+            ? NATURAL_BENEFICS.includes(aspect.fromPlanet)
+            : aspect.type === 'trine' || aspect.type === 'sextile',
+          fromHouse: aspect.fromHouse,
+          toHouse: aspect.toHouse,
+          system: aspect.system,
         }));
       }
       
@@ -560,6 +729,7 @@ export const NorthIndianChartDataProcessor: React.FC<NorthIndianChartDataProcess
       return {
         chartData,
         dignities,
+        shadbala,
         aspects,
         analysis,
         isProcessing: false,
@@ -569,13 +739,14 @@ export const NorthIndianChartDataProcessor: React.FC<NorthIndianChartDataProcess
       return {
         chartData: {} as NorthIndianChartData,
         dignities: [],
+        shadbala: [],
         aspects: [],
         analysis: {} as ChartAnalysis,
         isProcessing: false,
         error: error instanceof Error ? error.message : 'Unknown processing error',
       };
     }
-  }, [rawData, includeAspects, includeDignities, orbTolerance]);
+  }, [rawData, includeAspects, includeDignities, orbTolerance, aspectMode, includeNodeAspects, ayanamsa, customAyanamsa, houseSystem]);
 
   // ============================================================================
   // RENDER
@@ -595,9 +766,11 @@ export {
   normalizeDegrees,
   getRashiFromDegree,
   getHouseFromDegree,
+  resolveHouseCusps,
   calculateAngularDistance,
   calculatePlanetaryDignity,
   calculateAspects,
+  calculateVedicAspects,
   generateChartAnalysis,
 };
 
@@ -607,5 +780,6 @@ export {
   EXALTATION_POSITIONS,
   DEBILITATION_POSITIONS,
   PLANET_RULERSHIP,
+  GRAHA_DRISHTI,
   ASPECT_ORBS,
 };
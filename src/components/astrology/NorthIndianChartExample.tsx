@@ -59,7 +59,14 @@ import {
   type NorthIndianChartData,
   type RawAstrologicalData,
   type ChartViewMode,
+  type AyanamsaSystem,
+  type HouseSystem,
 } from './index';
+import { calculateEphemeris, EphemerisInput } from './ephemerisUtils';
+import { calculateVargaData, calculateDivisionalCharts } from './vargaUtils';
+import { calculateChartDasha } from './dashaUtils';
+import { DashaTimeline } from './DashaTimeline';
+import { AshtakavargaGrid } from './AshtakavargaGrid';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -81,6 +88,10 @@ export interface ExampleState {
   viewMode: ChartViewMode;
   showLegend: boolean;
   showNavigator: boolean;
+  ayanamsa: AyanamsaSystem;
+  /** Offset in degrees when ayanamsa is 'custom' */
+  customAyanamsa?: number;
+  houseSystem: HouseSystem;
   selectedPlanet?: VedicPlanet;
   selectedHouse?: NorthIndianHouseNumber;
 }
@@ -90,95 +101,22 @@ export interface ExampleState {
 // ============================================================================
 
 /**
- * Sample raw astrological data for demonstration
- * This represents a typical birth chart in Vedic astrology
+ * Sample birth details for demonstration
  */
-const sampleRawData: RawAstrologicalData = {
-  datetime: '1990-07-15T14:30:00Z',
+const sampleBirthDetails: EphemerisInput = {
+  datetime: '1990-07-15T20:00',
+  timezone: 5.5,
+  latitude: 28.6,
+  longitude: 77.2,
   location: 'New Delhi, India (28°36\'N, 77°12\'E)',
   title: 'Sample Birth Chart',
-  // Planetary positions in degrees (0-360)
-  planets: {
-    sun: 83.5,        // Cancer
-    moon: 245.2,      // Sagittarius
-    mercury: 95.7,    // Cancer
-    venus: 125.3,     // Leo
-    mars: 310.8,      // Aquarius
-    jupiter: 115.9,   // Leo
-    saturn: 285.4,    // Capricorn
-    rahu: 335.1,      // Pisces
-    ketu: 155.1,      // Virgo
-    uranus: 305.6,    // Aquarius
-    neptune: 285.9,   // Capricorn
-    pluto: 225.3,     // Scorpio
-  },
-  // House cusps in degrees
-  houseCusps: [
-    75,   // 1st house cusp (Ascendant)
-    105,  // 2nd house cusp
-    135,  // 3rd house cusp
-    165,  // 4th house cusp
-    195,  // 5th house cusp
-    225,  // 6th house cusp
-    255,  // 7th house cusp
-    285,  // 8th house cusp
-    315,  // 9th house cusp
-    345,  // 10th house cusp
-    15,   // 11th house cusp
-    45,   // 12th house cusp
-  ],
-  ascendant: 75,      // Ascendant degree
-  ayanamsa: 'Lahiri', // Ayanamsa system
-  chartType: 'D1',    // Chart type
 };
 
 /**
- * Sample Navamsa (D9) chart data
- */
-const sampleNavamsaData: RawAstrologicalData = {
-  ...sampleRawData,
-  chartType: 'D9',
-  title: 'Sample Navamsa Chart (D9)',
-  // Modified planetary positions for D9
-  planets: {
-    sun: 245.5,       // Sagittarius
-    moon: 83.2,       // Cancer
-    mercury: 155.7,   // Virgo
-    venus: 185.3,     // Libra
-    mars: 70.8,       // Cancer
-    jupiter: 275.9,   // Capricorn
-    saturn: 145.4,    // Virgo
-    rahu: 95.1,       // Cancer
-    ketu: 275.1,      // Capricorn
-    uranus: 65.6,     // Gemini
-    neptune: 45.9,    // Taurus
-    pluto: 85.3,      // Cancer
-  },
-};
-
-/**
- * Sample Dasamsa (D10) chart data
+ * Sample raw astrological data for demonstration
+ * Tropical positions cast by the ephemeris; the processor applies the ayanamsa
  */
-const sampleDasamsaData: RawAstrologicalData = {
-  ...sampleRawData,
-  chartType: 'D10',
-  title: 'Sample Dasamsa Chart (D10)',
-  // Modified planetary positions for D10
-  planets: {
-    sun: 125.5,       // Leo
-    moon: 305.2,      // Aquarius
-    mercury: 215.7,   // Scorpio
-    venus: 245.3,     // Sagittarius
-    mars: 130.8,      // Leo
-    jupiter: 335.9,   // Pisces
-    saturn: 205.4,    // Scorpio
-    rahu: 155.1,      // Virgo
-    ketu: 335.1,      // Pisces
-    uranus: 125.6,    // Leo
-    neptune: 105.9,   // Cancer
-    pluto: 145.3,     // Leo
-  },
-};
+const sampleRawData: RawAstrologicalData = calculateEphemeris(sampleBirthDetails);
 
 // ============================================================================
 // COMPONENT
@@ -205,6 +143,8 @@ export const NorthIndianChartExample: React.FC<NorthIndianChartExampleProps> = (
     viewMode: 'standard',
     showLegend: true,
     showNavigator: false,
+    ayanamsa: 'lahiri',
+    houseSystem: 'equal',
     selectedPlanet: undefined,
     selectedHouse: undefined,
   });
@@ -213,14 +153,36 @@ export const NorthIndianChartExample: React.FC<NorthIndianChartExampleProps> = (
   // COMPUTED VALUES
   // ============================================================================
 
+  /**
+   * Selected ayanamsa, with the offset for a custom one
+   */
+  const ayanamsaConfig = useMemo(() => ({
+    system: exampleState.ayanamsa,
+    customOffset: exampleState.customAyanamsa,
+  }), [exampleState.ayanamsa, exampleState.customAyanamsa]);
+
   /**
    * Available chart data for navigation
    */
   const availableCharts = useMemo(() => ({
     D1: sampleRawData,
-    D9: sampleNavamsaData,
-    D10: sampleDasamsaData,
-  }), []);
+    D9: calculateVargaData(sampleRawData, 'D9', ayanamsaConfig),
+    D10: calculateVargaData(sampleRawData, 'D10', ayanamsaConfig),
+  }), [ayanamsaConfig]);
+
+  /**
+   * Every divisional chart, for swiping in the navigator
+   */
+  const divisionalCharts = useMemo(() => (
+    calculateDivisionalCharts(sampleRawData, undefined, ayanamsaConfig)
+  ), [ayanamsaConfig]);
+
+  /**
+   * Vimshottari dasha from the sample Moon
+   */
+  const sampleDasha = useMemo(() => (
+    calculateChartDasha(sampleRawData, { ayanamsa: ayanamsaConfig })
+  ), [ayanamsaConfig]);
 
   /**
    * Current raw data based on selected chart
@@ -254,6 +216,20 @@ export const NorthIndianChartExample: React.FC<NorthIndianChartExampleProps> = (
     updateState({ viewMode: mode });
   }, [updateState]);
 
+  /**
+   * Handle ayanamsa change
+   */
+  const handleAyanamsaChange = useCallback((ayanamsa: AyanamsaSystem, customAyanamsa?: number) => {
+    updateState({ ayanamsa, customAyanamsa });
+  }, [updateState]);
+
+  /**
+   * Handle house system change
+   */
+  const handleHouseSystemChange = useCallback((houseSystem: HouseSystem) => {
+    updateState({ houseSystem });
+  }, [updateState]);
+
   /**
    * Handle element selection
    */
@@ -403,7 +379,11 @@ export const NorthIndianChartExample: React.FC<NorthIndianChartExampleProps> = (
     <NorthIndianChartDataProcessor
       rawData={currentRawData}
       includeAspects={true}
+      aspectMode="both"
       includeDignities={true}
+      ayanamsa={exampleState.ayanamsa}
+      customAyanamsa={exampleState.customAyanamsa}
+      houseSystem={exampleState.selectedChart === 'D1' ? exampleState.houseSystem : undefined}
     >
       {({ chartData, dignities, aspects, analysis, isProcessing, error }) => {
         if (isProcessing) {
@@ -438,25 +418,28 @@ export const NorthIndianChartExample: React.FC<NorthIndianChartExampleProps> = (
             {exampleState.showNavigator ? (
               <NorthIndianChartNavigator
                 chartData={chartData}
-                availableCharts={Object.fromEntries(
-                  Object.entries(availableCharts).map(([key, rawData]) => [
-                    key,
-                    chartData, // In real usage, you'd process each chart separately
-                  ])
-                )}
+                availableCharts={{
+                  ...divisionalCharts,
+                  [exampleState.selectedChart]: chartData,
+                }}
                 enableGestures={interactive}
                 onElementSelect={handleElementSelection}
                 onChartChange={handleChartSelection}
                 onViewModeChange={handleViewModeChange}
+                onAyanamsaChange={handleAyanamsaChange}
+                onHouseSystemChange={handleHouseSystemChange}
                 style={styles.navigator}
               />
             ) : (
               <View style={styles.standardChartContainer}>
                 <NorthIndianChart
                   data={chartData}
+                  size={300}
                   interactive={interactive}
                   showPlanetSymbols={true}
                   showHouseNumbers={true}
+                  selectedPlanet={exampleState.selectedPlanet}
+                  selectedHouse={exampleState.selectedHouse}
                   onPlanetPress={(planet, house) => handleElementSelection('planet', planet)}
                   onHousePress={(house) => handleElementSelection('house', house.number)}
                   style={styles.chart}
@@ -502,12 +485,17 @@ export const NorthIndianChartExample: React.FC<NorthIndianChartExampleProps> = (
                 </Text>
                 <Text style={styles.aspectsSummary}>
                   {aspects.slice(0, 3).map(aspect => 
-                    `${aspect.fromPlanet}-${aspect.toPlanet} (${aspect.type})`
+                    `${aspect.fromPlanet}-${aspect.toPlanet} (${aspect.system === 'vedic' ? `drishti ${aspect.drishti}` : aspect.type})`
                   ).join(', ')}
                   {aspects.length > 3 && '...'}
                 </Text>
               </View>
             )}
+
+            {/* Ashtakavarga */}
+            {exampleState.selectedChart === 'D1' && (
+              <AshtakavargaGrid chartData={chartData} style={styles.ashtakavargaGrid} />
+            )}
           </View>
         );
       }}
@@ -547,6 +535,9 @@ export const NorthIndianChartExample: React.FC<NorthIndianChartExampleProps> = (
           {/* Chart Display */}
           {renderChartWithProcessor()}
 
+          {/* Dasha Timeline */}
+          <DashaTimeline dasha={sampleDasha} style={styles.dashaTimeline} />
+
           {/* Usage Notes */}
           <View style={styles.notesContainer}>
             <Text style={styles.notesTitle}>Usage Notes:</Text>
@@ -603,6 +594,12 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     overflow: 'hidden',
   },
+  dashaTimeline: {
+    margin: spacing.md,
+  },
+  ashtakavargaGrid: {
+    marginTop: spacing.md,
+  },
   controlsBackground: {
     padding: spacing.md,
     borderWidth: 1,
@@ -712,8 +709,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
   },
   chart: {
-    flex: 1,
-    height: 400,
+    alignSelf: 'flex-start',
   },
   legendWrapper: {
     width: 300,
@@ -11,6 +11,7 @@
  * - House significance explanations
  * - Interactive planet and sign details
  * - Aspect explanations and strength indicators
+ * - Yogas with participating planets, houses and strength
  * - Chart type information (D1, D9, etc.)
  * - Cosmic design aesthetics matching North Indian Chart
  * - Collapsible sections for better space usage
@@ -52,12 +53,15 @@ import {
   NorthIndianHouseNumber,
   NorthIndianChartData,
 } from './NorthIndianChart';
+import { AYANAMSA_NAMES, formatAyanamsa } from './ayanamsaUtils';
+import { HOUSE_SYSTEM_NAMES } from './houseSystemUtils';
+import { YogaResult, YogaStrength, YOGA_TYPE_NAMES, detectYogas } from './yogaUtils';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-export type LegendSection = 'planets' | 'houses' | 'rashis' | 'aspects' | 'chartInfo';
+export type LegendSection = 'planets' | 'houses' | 'rashis' | 'aspects' | 'yogas' | 'chartInfo';
 
 export interface PlanetInfo {
   planet: VedicPlanet;
@@ -94,6 +98,8 @@ export interface HouseInfo {
 export interface NorthIndianChartLegendProps extends AccessibilityProps {
   /** Chart data for context */
   chartData: NorthIndianChartData;
+  /** Yogas to list (detected from the chart's degrees when omitted) */
+  yogas?: YogaResult[];
   /** Initial expanded sections */
   defaultExpandedSections?: LegendSection[];
   /** Whether to show detailed information */
@@ -490,6 +496,12 @@ const houseDetails: Record<NorthIndianHouseNumber, HouseInfo> = {
   },
 };
 
+const YOGA_STRENGTH_COLORS: Record<YogaStrength, string> = {
+  strong: '#4ECDC4',
+  moderate: '#FFD700',
+  weak: '#FF6B6B',
+};
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -499,6 +511,7 @@ const houseDetails: Record<NorthIndianHouseNumber, HouseInfo> = {
  */
 export const NorthIndianChartLegend: React.FC<NorthIndianChartLegendProps> = ({
   chartData,
+  yogas,
   defaultExpandedSections = ['planets'],
   showDetailedInfo = true,
   showSanskrit = true,
@@ -544,6 +557,15 @@ export const NorthIndianChartLegend: React.FC<NorthIndianChartLegendProps> = ({
     return chartData.houses.map(house => house.rashi);
   }, [chartData]);
 
+  /**
+   * Get yogas formed in the chart
+   */
+  const chartYogas = useMemo(() => {
+    if (yogas) return yogas;
+    if (!chartData.planetDegrees || chartData.ascendantDegree === undefined) return [];
+    return detectYogas(chartData.planetDegrees, chartData.ascendantDegree);
+  }, [yogas, chartData]);
+
   // ============================================================================
   // EVENT HANDLERS
   // ============================================================================
@@ -742,6 +764,40 @@ export const NorthIndianChartLegend: React.FC<NorthIndianChartLegendProps> = ({
     );
   };
 
+  /**
+   * Render yoga item
+   */
+  const renderYogaItem = (yoga: YogaResult, index: number) => {
+    return (
+      <View key={`${yoga.type}-${index}`} style={styles.legendItem}>
+        <View style={styles.itemHeader}>
+          <View style={styles.itemContent}>
+            <Text style={styles.itemTitle}>{yoga.name}</Text>
+            <Text style={styles.itemSubtitle}>
+              {YOGA_TYPE_NAMES[yoga.type]}{!yoga.isBenefic && ' (malefic)'}
+            </Text>
+          </View>
+          <Text style={[styles.yogaStrength, { color: YOGA_STRENGTH_COLORS[yoga.strength] }]}>
+            {yoga.strength}
+          </Text>
+        </View>
+        {showDetailedInfo && (
+          <View style={styles.itemDetails}>
+            <Text style={styles.itemDescription}>{yoga.note}</Text>
+            <View style={styles.itemProperties}>
+              <Text style={styles.propertyText}>
+                Planets: {yoga.planets.map(planet => planetDetails[planet].name).join(', ')}
+              </Text>
+              <Text style={styles.propertyText}>
+                Houses: {Array.from(new Set(yoga.houses)).join(', ')}
+              </Text>
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
   /**
    * Render chart information
    */
@@ -758,6 +814,21 @@ export const NorthIndianChartLegend: React.FC<NorthIndianChartLegendProps> = ({
             House {chartData.ascendant} ({rashiDetails[chartData.houses[chartData.ascendant - 1]?.rashi]?.name})
           </Text>
         </View>
+        {chartData.ayanamsa && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Ayanamsa:</Text>
+            <Text style={styles.infoValue}>
+              {AYANAMSA_NAMES[chartData.ayanamsa]}
+              {chartData.ayanamsaValue !== undefined && ` (${formatAyanamsa(chartData.ayanamsaValue)})`}
+            </Text>
+          </View>
+        )}
+        {chartData.houseSystem && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Houses:</Text>
+            <Text style={styles.infoValue}>{HOUSE_SYSTEM_NAMES[chartData.houseSystem]}</Text>
+          </View>
+        )}
         {chartData.title && (
           <View style={styles.infoRow}>
             <Text style={styles.infoLabel}>Title:</Text>
@@ -846,6 +917,18 @@ export const NorthIndianChartLegend: React.FC<NorthIndianChartLegendProps> = ({
               )}
             </View>
           )}
+
+          {/* Yogas Section */}
+          {chartYogas.length > 0 && (
+            <View style={styles.section}>
+              {renderSectionHeader('yogas', 'Yogas', chartYogas.length)}
+              {expandedSections.has('yogas') && (
+                <View style={styles.sectionContent}>
+                  {chartYogas.map(renderYogaItem)}
+                </View>
+              )}
+            </View>
+          )}
         </ScrollView>
       </LinearGradient>
     </View>
@@ -1048,6 +1131,12 @@ const styles = StyleSheet.create({
     flex: 2,
     textAlign: 'right',
   },
+  yogaStrength: {
+    fontSize: 11,
+    fontFamily: getFontFamily('body'),
+    fontWeight: 'bold',
+    textTransform: 'capitalize',
+  },
   comingSoonText: {
     color: ProfessionalGrays.medium,
     fontSize: 12,
@@ -9,8 +9,14 @@
  * - Interactive chart zoom and pan functionality
  * - Tooltip system with detailed planet and house information
  * - Chart overlay controls (aspects, nakshatra, degrees)
- * - Navigation between different chart types (D1, D9, D10, etc.)
+ * - Nakshatra and pada overlay for each planet and the ascendant
+ * - Shadbala strength overlay in rupas against each planet's requirement
+ * - Diamond chart with aspect arrows and degree markers per overlay
+ * - Chart style switch (North, South and East Indian)
+ * - Navigation between divisional charts (D1-D60)
  * - Time-sensitive chart progression controls
+ * - Ayanamsa selection with chart reprocessing
+ * - House system selection (Whole Sign, Equal, Sripati, Placidus, Koch)
  * - Search and filter capabilities for chart elements
  * - Accessibility-compliant navigation controls
  * - Responsive touch and mouse interactions
@@ -55,6 +61,7 @@ import { ProfessionalGrays } from '../foundations/tokens/colors/ProfessionalGray
 import { deepSpaceColors } from '../foundations/tokens/colors/DeepSpaceColors';
 import { spacing } from '../foundations/tokens/spacing/SpacingScale';
 import { getFontFamily } from '../foundations/tokens/typography/FontFamilies';
+import { NumberInput } from '../inputs/NumberInput';
 import { 
   VedicPlanet, 
   VedicRashi, 
@@ -62,6 +69,12 @@ import {
   NorthIndianChartData,
 } from './NorthIndianChart';
 import NorthIndianChartLegend from './NorthIndianChartLegend';
+import { VedicChart, ChartStyle, CHART_STYLES, CHART_STYLE_NAMES, DEFAULT_CHART_STYLE } from './VedicChart';
+import { useChartPreferences } from './ChartPreferencesContext';
+import { AyanamsaSystem, AYANAMSA_NAMES, DEFAULT_AYANAMSA } from './ayanamsaUtils';
+import { HouseSystem, HOUSE_SYSTEM_NAMES, DEFAULT_HOUSE_SYSTEM } from './houseSystemUtils';
+import { VARGA_NAMES } from './vargaUtils';
+import { SHADBALA_COMPONENT_NAMES, ShadbalaComponents } from './shadbalaUtils';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -91,6 +104,11 @@ export interface NavigationState {
   currentChart: string;
   viewMode: ChartViewMode;
   activeOverlay: ChartOverlay;
+  ayanamsa: AyanamsaSystem;
+  /** Offset in degrees used when ayanamsa is 'custom' */
+  customAyanamsa: number;
+  houseSystem: HouseSystem;
+  chartStyle: ChartStyle;
   selectedElements: {
     planet?: VedicPlanet;
     house?: NorthIndianHouseNumber;
@@ -118,12 +136,24 @@ export interface NorthIndianChartNavigatorProps extends AccessibilityProps {
   showControls?: boolean;
   /** Show chart selector */
   showChartSelector?: boolean;
+  /** Ayanamsa systems offered in the control panel */
+  availableAyanamsas?: AyanamsaSystem[];
+  /** House systems offered in the control panel */
+  availableHouseSystems?: HouseSystem[];
+  /** Chart styles offered in the control panel */
+  availableChartStyles?: ChartStyle[];
   /** Element selection handler */
   onElementSelect?: (type: 'planet' | 'house' | 'rashi', value: any) => void;
   /** Chart change handler */
   onChartChange?: (chartId: string) => void;
   /** View mode change handler */
   onViewModeChange?: (mode: ChartViewMode) => void;
+  /** Ayanamsa change handler - reprocess the chart data with the new system (and offset for 'custom') */
+  onAyanamsaChange?: (ayanamsa: AyanamsaSystem, customOffset?: number) => void;
+  /** House system change handler - reprocess the chart data with the new system */
+  onHouseSystemChange?: (houseSystem: HouseSystem) => void;
+  /** Chart style change handler, called after the shared chart style preference is updated */
+  onChartStyleChange?: (chartStyle: ChartStyle) => void;
   /** Navigation state change handler */
   onNavigationStateChange?: (state: NavigationState) => void;
   /** Custom styling */
@@ -143,26 +173,70 @@ const DEFAULT_TRANSFORM: ChartTransform = {
   rotation: 0,
 };
 
+/** Starting offset for a user-defined ayanamsa when the chart has no ayanamsa value */
+const DEFAULT_CUSTOM_AYANAMSA = 24;
+
 const DEFAULT_NAVIGATION_STATE: NavigationState = {
   currentChart: 'D1',
   viewMode: 'standard',
   activeOverlay: 'none',
+  ayanamsa: DEFAULT_AYANAMSA,
+  customAyanamsa: DEFAULT_CUSTOM_AYANAMSA,
+  houseSystem: DEFAULT_HOUSE_SYSTEM,
+  chartStyle: DEFAULT_CHART_STYLE,
   selectedElements: {},
   showLegend: true,
   showTooltips: true,
   transform: DEFAULT_TRANSFORM,
 };
 
-const CHART_TYPE_NAMES: Record<string, string> = {
-  D1: 'Rashi Chart (D1)',
-  D9: 'Navamsa Chart (D9)',
-  D10: 'Dasamsa Chart (D10)',
-  D12: 'Dwadasamsa (D12)',
-  D16: 'Shodasamsa (D16)',
-  D20: 'Vimsamsa (D20)',
-  D24: 'Chaturvimsamsa (D24)',
-  D30: 'Trimsamsa (D30)',
-  D60: 'Shashtyamsa (D60)',
+const CHART_TYPE_NAMES: Record<string, string> = VARGA_NAMES;
+
+const DEFAULT_AYANAMSA_OPTIONS: AyanamsaSystem[] = [
+  'lahiri',
+  'raman',
+  'krishnamurti',
+  'fagan_bradley',
+  'yukteshwar',
+  'custom',
+];
+
+const DEFAULT_HOUSE_SYSTEM_OPTIONS: HouseSystem[] = [
+  'whole_sign',
+  'equal',
+  'sripati',
+  'placidus',
+  'koch',
+];
+
+const PLANET_NAMES: Record<VedicPlanet, string> = {
+  sun: 'Sun',
+  moon: 'Moon',
+  mercury: 'Mercury',
+  venus: 'Venus',
+  mars: 'Mars',
+  jupiter: 'Jupiter',
+  saturn: 'Saturn',
+  rahu: 'Rahu',
+  ketu: 'Ketu',
+  uranus: 'Uranus',
+  neptune: 'Neptune',
+  pluto: 'Pluto',
+};
+
+const PLANET_ABBREVIATIONS: Record<VedicPlanet, string> = {
+  sun: 'Su',
+  moon: 'Mo',
+  mercury: 'Me',
+  venus: 'Ve',
+  mars: 'Ma',
+  jupiter: 'Ju',
+  saturn: 'Sa',
+  rahu: 'Ra',
+  ketu: 'Ke',
+  uranus: 'Ur',
+  neptune: 'Ne',
+  pluto: 'Pl',
 };
 
 const VIEW_MODE_NAMES: Record<ChartViewMode, string> = {
@@ -196,9 +270,15 @@ export const NorthIndianChartNavigator: React.FC<NorthIndianChartNavigatorProps>
   enableRotation = false,
   showControls = true,
   showChartSelector = true,
+  availableAyanamsas = DEFAULT_AYANAMSA_OPTIONS,
+  availableHouseSystems = DEFAULT_HOUSE_SYSTEM_OPTIONS,
+  availableChartStyles = CHART_STYLES,
   onElementSelect,
   onChartChange,
   onViewModeChange,
+  onAyanamsaChange,
+  onHouseSystemChange,
+  onChartStyleChange,
   onNavigationStateChange,
   style,
   testID = 'corp-astro-north-indian-chart-navigator',
@@ -209,10 +289,18 @@ export const NorthIndianChartNavigator: React.FC<NorthIndianChartNavigatorProps>
   // ============================================================================
 
   const { theme } = useTheme();
+  const chartPreferences = useChartPreferences();
   const screenData = Dimensions.get('window');
   
   const [navigationState, setNavigationState] = useState<NavigationState>({
     ...DEFAULT_NAVIGATION_STATE,
+    ayanamsa: chartData.ayanamsa ?? DEFAULT_AYANAMSA,
+    // A custom offset starts from the chart's current ayanamsa so the chart does not jump
+    customAyanamsa: chartData.ayanamsaValue !== undefined
+      ? Math.round(chartData.ayanamsaValue * 10000) / 10000
+      : DEFAULT_CUSTOM_AYANAMSA,
+    houseSystem: chartData.houseSystem ?? DEFAULT_HOUSE_SYSTEM,
+    chartStyle: chartPreferences.chartStyle,
     ...initialState,
   });
   
@@ -304,6 +392,41 @@ export const NorthIndianChartNavigator: React.FC<NorthIndianChartNavigatorProps>
     onViewModeChange?.(mode);
   }, [updateNavigationState, onViewModeChange]);
 
+  /**
+   * Handle ayanamsa change
+   */
+  const handleAyanamsaChange = useCallback((ayanamsa: AyanamsaSystem) => {
+    updateNavigationState({ ayanamsa });
+    onAyanamsaChange?.(ayanamsa, ayanamsa === 'custom' ? navigationState.customAyanamsa : undefined);
+  }, [updateNavigationState, onAyanamsaChange, navigationState.customAyanamsa]);
+
+  /**
+   * Handle custom ayanamsa offset change
+   */
+  const handleCustomAyanamsaChange = useCallback((customAyanamsa: number) => {
+    updateNavigationState({ customAyanamsa });
+    if (navigationState.ayanamsa === 'custom') {
+      onAyanamsaChange?.('custom', customAyanamsa);
+    }
+  }, [updateNavigationState, onAyanamsaChange, navigationState.ayanamsa]);
+
+  /**
+   * Handle house system change
+   */
+  const handleHouseSystemChange = useCallback((houseSystem: HouseSystem) => {
+    updateNavigationState({ houseSystem });
+    onHouseSystemChange?.(houseSystem);
+  }, [updateNavigationState, onHouseSystemChange]);
+
+  /**
+   * Handle chart style change
+   */
+  const handleChartStyleChange = useCallback((chartStyle: ChartStyle) => {
+    updateNavigationState({ chartStyle });
+    chartPreferences.setChartStyle(chartStyle);
+    onChartStyleChange?.(chartStyle);
+  }, [updateNavigationState, chartPreferences, onChartStyleChange]);
+
   /**
    * Handle overlay change
    */
@@ -534,6 +657,149 @@ export const NorthIndianChartNavigator: React.FC<NorthIndianChartNavigatorProps>
     </View>
   );
 
+  /**
+   * Render ayanamsa selector
+   */
+  const renderAyanamsaSelector = () => (
+    <View style={styles.optionSelector}>
+      <Text style={styles.selectorLabel}>Ayanamsa</Text>
+      <View style={styles.optionButtons}>
+        {availableAyanamsas.map(ayanamsa => (
+          <TouchableOpacity
+            key={ayanamsa}
+            style={[
+              styles.optionButton,
+              navigationState.ayanamsa === ayanamsa && styles.activeOption
+            ]}
+            onPress={() => handleAyanamsaChange(ayanamsa)}
+          >
+            <Text style={[
+              styles.optionText,
+              navigationState.ayanamsa === ayanamsa && styles.activeOptionText
+            ]}>
+              {AYANAMSA_NAMES[ayanamsa]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {navigationState.ayanamsa === 'custom' && (
+        <View style={styles.customAyanamsaInput}>
+          <NumberInput
+            value={navigationState.customAyanamsa}
+            onValueChange={handleCustomAyanamsaChange}
+            label={{ text: 'Offset (degrees)' }}
+            validation={{ min: 0, max: 30, decimals: 4 }}
+          />
+        </View>
+      )}
+    </View>
+  );
+
+  /**
+   * Render house system selector
+   */
+  const renderHouseSystemSelector = () => (
+    <View style={styles.optionSelector}>
+      <Text style={styles.selectorLabel}>House System</Text>
+      <View style={styles.optionButtons}>
+        {availableHouseSystems.map(houseSystem => (
+          <TouchableOpacity
+            key={houseSystem}
+            style={[
+              styles.optionButton,
+              navigationState.houseSystem === houseSystem && styles.activeOption
+            ]}
+            onPress={() => handleHouseSystemChange(houseSystem)}
+          >
+            <Text style={[
+              styles.optionText,
+              navigationState.houseSystem === houseSystem && styles.activeOptionText
+            ]}>
+              {HOUSE_SYSTEM_NAMES[houseSystem]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  /**
+   * Render chart style selector
+   */
+  const renderChartStyleSelector = () => (
+    <View style={styles.optionSelector}>
+      <Text style={styles.selectorLabel}>Chart Style</Text>
+      <View style={styles.optionButtons}>
+        {availableChartStyles.map(chartStyle => (
+          <TouchableOpacity
+            key={chartStyle}
+            style={[
+              styles.optionButton,
+              navigationState.chartStyle === chartStyle && styles.activeOption
+            ]}
+            onPress={() => handleChartStyleChange(chartStyle)}
+          >
+            <Text style={[
+              styles.optionText,
+              navigationState.chartStyle === chartStyle && styles.activeOptionText
+            ]}>
+              {CHART_STYLE_NAMES[chartStyle]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  /**
+   * Render Shadbala strength overlay
+   */
+  const renderStrengthsOverlay = () => {
+    const shadbala = currentChartData.shadbala ?? [];
+    if (currentChartData.shadbalaError) {
+      return <Text style={styles.chartSubtext}>Shadbala could not be calculated: {currentChartData.shadbalaError}</Text>;
+    }
+    if (shadbala.length === 0) {
+      return <Text style={styles.chartSubtext}>Shadbala is available for the Rasi chart</Text>;
+    }
+    const maxRatio = Math.max(2, ...shadbala.map(result => result.ratio));
+
+    return (
+      <View style={styles.strengthsOverlay}>
+        {shadbala.map(result => (
+          <TouchableOpacity
+            key={result.planet}
+            style={styles.strengthRow}
+            onPress={(event) => showTooltip(
+              event.nativeEvent.pageX,
+              event.nativeEvent.pageY,
+              `${PLANET_NAMES[result.planet]}: ${result.total.toFixed(2)} rupas`,
+              (Object.keys(SHADBALA_COMPONENT_NAMES) as (keyof ShadbalaComponents)[])
+                .map(component => `${SHADBALA_COMPONENT_NAMES[component]}: ${result.components[component].toFixed(2)}`)
+                .join('\n') +
+              `\nRequired: ${result.required.toFixed(2)}`,
+              'planet'
+            )}
+            accessibilityLabel={`${PLANET_NAMES[result.planet]} Shadbala ${result.total.toFixed(2)} of ${result.required} rupas`}
+          >
+            <Text style={styles.strengthLabel}>{PLANET_ABBREVIATIONS[result.planet]}</Text>
+            <View style={styles.strengthTrack}>
+              <View
+                style={[
+                  styles.strengthBar,
+                  { width: `${Math.min(result.ratio / maxRatio, 1) * 100}%` },
+                  result.isStrong ? styles.strengthBarStrong : styles.strengthBarWeak,
+                ]}
+              />
+              <View style={[styles.strengthRequired, { left: `${(1 / maxRatio) * 100}%` }]} />
+            </View>
+            <Text style={styles.strengthValue}>{result.total.toFixed(1)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
   /**
    * Render navigation controls
    */
@@ -620,8 +886,11 @@ export const NorthIndianChartNavigator: React.FC<NorthIndianChartNavigatorProps>
             
             <ScrollView style={styles.controlPanelContent}>
               {showChartSelector && renderChartSelector()}
+              {renderChartStyleSelector()}
               {renderViewModeSelector()}
               {renderOverlaySelector()}
+              {renderAyanamsaSelector()}
+              {renderHouseSystemSelector()}
               
               <View style={styles.toggleSection}>
                 <Text style={styles.selectorLabel}>Display Options</Text>
@@ -682,14 +951,42 @@ export const NorthIndianChartNavigator: React.FC<NorthIndianChartNavigatorProps>
                 },
               ]}
             >
-              {/* Chart content would be rendered here */}
-              <View style={styles.chartPlaceholder}>
-                <Text style={styles.chartPlaceholderText}>
+              <VedicChart
+                chartStyle={navigationState.chartStyle}
+                data={currentChartData}
+                size={Math.min(screenData.width - spacing.md * 2, 360)}
+                interactive={enableGestures}
+                showPlanetSymbols={navigationState.viewMode === 'simplified'}
+                showHouseNumbers={navigationState.viewMode === 'detailed' || navigationState.viewMode === 'analysis'}
+                showDegrees={navigationState.viewMode === 'detailed' || navigationState.activeOverlay === 'degrees'}
+                showNakshatras={navigationState.activeOverlay === 'nakshatras'}
+                showAspects={navigationState.activeOverlay === 'aspects'}
+                selectedPlanet={navigationState.selectedElements.planet}
+                selectedHouse={navigationState.selectedElements.house}
+                onPlanetPress={(planet) => handleElementSelect('planet', planet)}
+                onHousePress={(house) => handleElementSelect('house', house.number)}
+              />
+              <View style={styles.chartInfo}>
+                <Text style={styles.chartTitle}>
                   {CHART_TYPE_NAMES[navigationState.currentChart] || navigationState.currentChart}
                 </Text>
                 <Text style={styles.chartSubtext}>
                   {navigationState.viewMode} - {navigationState.activeOverlay}
                 </Text>
+                {currentChartData.ayanamsa && (
+                  <Text style={styles.chartSubtext}>
+                    {AYANAMSA_NAMES[currentChartData.ayanamsa]}
+                  </Text>
+                )}
+                {currentChartData.houseSystem && (
+                  <Text style={styles.chartSubtext}>
+                    {HOUSE_SYSTEM_NAMES[currentChartData.houseSystem]} houses
+                  </Text>
+                )}
+                {navigationState.activeOverlay === 'nakshatras' && !currentChartData.planetDegrees && (
+                  <Text style={styles.chartSubtext}>No degree data for nakshatras</Text>
+                )}
+                {navigationState.activeOverlay === 'strengths' && renderStrengthsOverlay()}
               </View>
             </Animated.View>
           </PanGestureHandler>
@@ -740,17 +1037,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
-  chartPlaceholder: {
-    width: 300,
-    height: 300,
-    backgroundColor: 'rgba(22, 33, 62, 0.8)',
-    borderRadius: 16,
+  chartInfo: {
     alignItems: 'center',
-    justifyContent: 'center',
-    borderWidth: 2,
-    borderColor: SignatureBlues.primary,
+    marginTop: spacing.sm,
   },
-  chartPlaceholderText: {
+  chartTitle: {
     color: ProfessionalGrays.white,
     fontSize: 18,
     fontFamily: getFontFamily('heading'),
@@ -764,6 +1055,53 @@ const styles = StyleSheet.create({
     fontFamily: getFontFamily('body'),
     textAlign: 'center',
   },
+  strengthsOverlay: {
+    alignSelf: 'stretch',
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+  strengthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 2,
+  },
+  strengthLabel: {
+    width: 24,
+    color: ProfessionalGrays.light,
+    fontSize: 10,
+    fontFamily: getFontFamily('body'),
+  },
+  strengthTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+  },
+  strengthBar: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  strengthBarStrong: {
+    backgroundColor: '#4ECDC4',
+  },
+  strengthBarWeak: {
+    backgroundColor: '#FF6B6B',
+  },
+  strengthRequired: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 1,
+    backgroundColor: ProfessionalGrays.white,
+  },
+  strengthValue: {
+    width: 32,
+    textAlign: 'right',
+    color: ProfessionalGrays.light,
+    fontSize: 10,
+    fontFamily: getFontFamily('body'),
+  },
   legendContainer: {
     position: 'absolute',
     right: spacing.md,
@@ -962,6 +1300,36 @@ const styles = StyleSheet.create({
   activeOverlayText: {
     color: SignatureBlues.light,
   },
+  optionSelector: {
+    marginBottom: spacing.lg,
+  },
+  optionButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionButton: {
+    backgroundColor: 'rgba(22, 33, 62, 0.6)',
+    borderRadius: 8,
+    padding: spacing.sm,
+    margin: 4,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  activeOption: {
+    backgroundColor: 'rgba(46, 134, 222, 0.3)',
+    borderColor: SignatureBlues.primary,
+  },
+  optionText: {
+    color: ProfessionalGrays.light,
+    fontSize: 12,
+    fontFamily: getFontFamily('body'),
+  },
+  activeOptionText: {
+    color: SignatureBlues.light,
+  },
+  customAyanamsaInput: {
+    marginTop: spacing.sm,
+  },
   toggleSection: {
     marginBottom: spacing.lg,
   },
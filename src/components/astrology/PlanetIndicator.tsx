@@ -102,7 +102,7 @@ export interface PlanetIndicatorProps extends AccessibilityProps {
 /**
  * Planet information
  */
-const planetInfo = {
+export const planetInfo = {
   sun: {
     name: 'Sun',
     symbol: '☉',
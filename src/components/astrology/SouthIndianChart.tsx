@@ -0,0 +1,98 @@
+/**
+ * Corp Astro UI Library - South Indian Chart Component
+ *
+ * South Indian style chart: a 4 x 4 grid whose twelve outer cells hold the
+ * signs in fixed places, Pisces in the top-left corner and the zodiac running
+ * clockwise. The ascendant sign is marked and houses are counted from it.
+ *
+ * Features:
+ * - Fixed-sign 4 x 4 grid with the chart title in the centre
+ * - Ascendant marker and house numbers from the ascendant
+ * - Non-overlapping planet layout per sign
+ * - Degree and retrograde markers
+ * - Aspect arrows and Ashtakavarga bindu overlay
+ * - House and planet press callbacks
+ *
+ * @module SouthIndianChart
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import React from 'react';
+import { VedicRashi } from './NorthIndianChart';
+import { FixedSignChart, FixedSignChartProps, FixedSignLayout, SignGeometry } from './FixedSignChart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type SouthIndianChartProps = FixedSignChartProps;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CELL = 25;
+
+/**
+ * Grid column and row of each sign
+ */
+const SIGN_CELLS: Record<VedicRashi, { column: number; row: number }> = {
+  pisces: { column: 0, row: 0 },
+  aries: { column: 1, row: 0 },
+  taurus: { column: 2, row: 0 },
+  gemini: { column: 3, row: 0 },
+  cancer: { column: 3, row: 1 },
+  leo: { column: 3, row: 2 },
+  virgo: { column: 3, row: 3 },
+  libra: { column: 2, row: 3 },
+  scorpio: { column: 1, row: 3 },
+  sagittarius: { column: 0, row: 3 },
+  capricorn: { column: 0, row: 2 },
+  aquarius: { column: 0, row: 1 },
+};
+
+/**
+ * Square cell geometry: labels along the top, bindu at the bottom
+ */
+function squareCell(column: number, row: number): SignGeometry {
+  const x = column * CELL;
+  const y = row * CELL;
+  return {
+    points: [{ x, y }, { x: x + CELL, y }, { x: x + CELL, y: y + CELL }, { x, y: y + CELL }],
+    center: { x: x + CELL / 2, y: y + 13.5 },
+    width: CELL - 3,
+    height: 15,
+    ascendantLabel: { x: x + 4, y: y + 3.5 },
+    rashiLabel: { x: x + CELL / 2, y: y + 3.5 },
+    houseLabel: { x: x + CELL - 4, y: y + 3.5 },
+    binduLabel: { x: x + CELL - 3.5, y: y + CELL - 2.5 },
+  };
+}
+
+const SOUTH_INDIAN_LAYOUT: FixedSignLayout = {
+  signs: Object.fromEntries(
+    Object.entries(SIGN_CELLS).map(([rashi, { column, row }]) => [rashi, squareCell(column, row)])
+  ) as Record<VedicRashi, SignGeometry>,
+  center: { center: { x: 50, y: 50 }, width: 2 * CELL, height: 2 * CELL },
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * South Indian Chart - Fixed-sign grid rendered from processed data
+ */
+export const SouthIndianChart: React.FC<SouthIndianChartProps> = ({
+  testID = 'corp-astro-south-indian-chart',
+  ...props
+}) => (
+  <FixedSignChart {...props} layout={SOUTH_INDIAN_LAYOUT} styleName="South Indian" testID={testID} />
+);
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default SouthIndianChart;
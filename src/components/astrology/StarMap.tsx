@@ -9,6 +9,7 @@
  * - Interactive star and constellation display
  * - Magnitude-based star brightness
  * - Constellation lines
+ * - Horizon projection with compass points and planet markers (see skyMapUtils)
  * - Smooth animations and twinkling effects
  * - Accessibility support
  * 
@@ -23,7 +24,7 @@
  * @since 2024
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -62,6 +63,8 @@ export interface StarData {
   color?: string;
   /** Constellation this star belongs to */
   constellation?: string;
+  /** Point kind; planets are ringed and always labelled */
+  type?: 'star' | 'planet';
 }
 
 /**
@@ -94,6 +97,8 @@ export interface StarMapData {
   datetime?: string;
   /** Viewing location */
   location?: string;
+  /** Whether x/y are a horizon projection (zenith at the centre, north up) */
+  horizon?: boolean;
 }
 
 /**
@@ -142,8 +147,9 @@ export const StarMap: React.FC<StarMapProps> = ({
   ...accessibilityProps
 }) => {
   const { theme } = useTheme();
-  const [twinkleValues] = useState(
-    data.stars.map(() => new Animated.Value(1))
+  const twinkleValues = useMemo(
+    () => data.stars.map(() => new Animated.Value(1)),
+    [data.stars]
   );
   const [scaleValue] = useState(new Animated.Value(0));
 
@@ -183,6 +189,13 @@ export const StarMap: React.FC<StarMapProps> = ({
 
   const sizeConfig = getSizeConfig();
 
+  // Horizon projections are drawn in the centred square the horizon circle
+  // fills, so the sky stays round on non-square maps
+  const plotWidth = data.horizon ? Math.min(sizeConfig.width, sizeConfig.height) : sizeConfig.width;
+  const plotHeight = data.horizon ? plotWidth : sizeConfig.height;
+  const toScreenX = (x: number) => (sizeConfig.width - plotWidth) / 2 + x * plotWidth;
+  const toScreenY = (y: number) => (sizeConfig.height - plotHeight) / 2 + y * plotHeight;
+
   // Start twinkling animation
   useEffect(() => {
     // Scale animation
@@ -194,12 +207,13 @@ export const StarMap: React.FC<StarMapProps> = ({
     }).start();
 
     if (twinkling) {
+      const loops: Animated.CompositeAnimation[] = [];
       const startTwinkling = () => {
         twinkleValues.forEach((value, index) => {
           const delay = Math.random() * 2000;
           const duration = 1000 + Math.random() * 2000;
           
-          Animated.loop(
+          const loop = Animated.loop(
             Animated.sequence([
               Animated.timing(value, {
                 toValue: 0.3 + Math.random() * 0.7,
@@ -212,11 +226,15 @@ export const StarMap: React.FC<StarMapProps> = ({
                 useNativeDriver: false,
               }),
             ])
-          ).start();
+          );
+          loops.push(loop);
+          loop.start();
         });
       };
 
       startTwinkling();
+      // Stop the loops of a previous star list
+      return () => loops.forEach(loop => loop.stop());
     }
   }, [twinkling, twinkleValues, scaleValue]);
 
@@ -260,8 +278,8 @@ export const StarMap: React.FC<StarMapProps> = ({
           style={[
             styles.star,
             {
-              left: star.x * sizeConfig.width - starSize / 2,
-              top: star.y * sizeConfig.height - starSize / 2,
+              left: toScreenX(star.x) - starSize / 2,
+              top: toScreenY(star.y) - starSize / 2,
               width: starSize,
               height: starSize,
               borderRadius: starSize / 2,
@@ -276,6 +294,7 @@ export const StarMap: React.FC<StarMapProps> = ({
               shadowRadius: starSize,
               elevation: 3,
             },
+            star.type === 'planet' && styles.planet,
           ]}
         >
           {interactive && (
@@ -295,7 +314,7 @@ export const StarMap: React.FC<StarMapProps> = ({
             />
           )}
           
-          {showStarNames && star.name && (
+          {(showStarNames || star.type === 'planet') && star.name && (
             <Text
               style={[
                 styles.starName,
@@ -326,10 +345,10 @@ export const StarMap: React.FC<StarMapProps> = ({
         
         if (!star1 || !star2) return null;
 
-        const x1 = star1.x * sizeConfig.width;
-        const y1 = star1.y * sizeConfig.height;
-        const x2 = star2.x * sizeConfig.width;
-        const y2 = star2.y * sizeConfig.height;
+        const x1 = toScreenX(star1.x);
+        const y1 = toScreenY(star1.y);
+        const x2 = toScreenX(star2.x);
+        const y2 = toScreenY(star2.y);
 
         const length = Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2));
         const angle = Math.atan2(y2 - y1, x2 - x1) * (180 / Math.PI);
@@ -375,8 +394,8 @@ export const StarMap: React.FC<StarMapProps> = ({
           style={[
             styles.constellationName,
             {
-              left: centerX * sizeConfig.width - 50,
-              top: centerY * sizeConfig.height - sizeConfig.fontSize,
+              left: toScreenX(centerX) - 50,
+              top: toScreenY(centerY) - sizeConfig.fontSize,
               width: 100,
               height: sizeConfig.fontSize * 2,
             },
@@ -400,6 +419,50 @@ export const StarMap: React.FC<StarMapProps> = ({
     });
   };
 
+  // Render horizon circle and compass points for horizon projections
+  const renderHorizon = () => {
+    if (!data.horizon) return null;
+
+    const compass = [
+      { label: 'N', left: 0.5, top: 0 },
+      { label: 'E', left: 0, top: 0.5 },
+      { label: 'S', left: 0.5, top: 1 },
+      { label: 'W', left: 1, top: 0.5 },
+    ];
+
+    return (
+      <>
+        <View
+          style={[
+            styles.horizon,
+            {
+              left: toScreenX(0),
+              top: toScreenY(0),
+              width: plotWidth,
+              height: plotHeight,
+              borderRadius: plotWidth / 2,
+            },
+          ]}
+        />
+        {compass.map(point => (
+          <Text
+            key={point.label}
+            style={[
+              styles.compassLabel,
+              {
+                fontSize: sizeConfig.fontSize,
+                left: Math.min(Math.max(toScreenX(point.left) - sizeConfig.fontSize / 2, 2), sizeConfig.width - sizeConfig.fontSize - 2),
+                top: Math.min(Math.max(toScreenY(point.top) - sizeConfig.fontSize / 2, 2), sizeConfig.height - sizeConfig.fontSize * 1.5),
+              },
+            ]}
+          >
+            {point.label}
+          </Text>
+        ))}
+      </>
+    );
+  };
+
   // Render info panel
   const renderInfoPanel = () => {
     if (!data.title && !data.datetime && !data.location) return null;
@@ -459,6 +522,7 @@ export const StarMap: React.FC<StarMapProps> = ({
       {renderBackground()}
       
       <View style={styles.mapContainer}>
+        {renderHorizon()}
         {renderStars()}
         {renderConstellationLines()}
         {renderConstellationNames()}
@@ -496,6 +560,21 @@ const styles = StyleSheet.create({
   starTouchable: {
     position: 'absolute',
   },
+  planet: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.9)',
+  },
+  horizon: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderColor: 'rgba(135, 206, 235, 0.3)',
+  },
+  compassLabel: {
+    position: 'absolute',
+    fontWeight: '600',
+    fontFamily: 'Inter',
+    color: SignatureBlues.light,
+  },
   starName: {
     position: 'absolute',
     fontWeight: '400',
@@ -0,0 +1,74 @@
+/**
+ * Corp Astro UI Library - Vedic Chart Component
+ *
+ * Renders one processed chart in any regional style: North Indian (fixed
+ * houses), South Indian or East Indian (fixed signs). Used wherever the user's
+ * chart style preference decides the layout.
+ *
+ * @module VedicChart
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import React from 'react';
+import { NorthIndianChart, NorthIndianChartProps } from './NorthIndianChart';
+import { SouthIndianChart } from './SouthIndianChart';
+import { EastIndianChart } from './EastIndianChart';
+import { FixedSignChartProps } from './FixedSignChart';
+import { useChartPreferences } from './ChartPreferencesContext';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Regional chart styles
+ */
+export type ChartStyle = 'north' | 'south' | 'east';
+
+export type VedicChartProps = NorthIndianChartProps & FixedSignChartProps & {
+  /** Regional style to render the chart in (default: the user's chart style preference) */
+  chartStyle?: ChartStyle;
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CHART_STYLES: ChartStyle[] = ['north', 'south', 'east'];
+
+export const CHART_STYLE_NAMES: Record<ChartStyle, string> = {
+  north: 'North Indian',
+  south: 'South Indian',
+  east: 'East Indian',
+};
+
+export const DEFAULT_CHART_STYLE: ChartStyle = 'north';
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Vedic Chart - Processed chart in the chosen regional style
+ */
+export const VedicChart: React.FC<VedicChartProps> = ({
+  chartStyle,
+  ...props
+}) => {
+  const preferences = useChartPreferences();
+  switch (chartStyle ?? preferences.chartStyle) {
+    case 'south':
+      return <SouthIndianChart {...props} />;
+    case 'east':
+      return <EastIndianChart {...props} />;
+    default:
+      return <NorthIndianChart {...props} />;
+  }
+};
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default VedicChart;
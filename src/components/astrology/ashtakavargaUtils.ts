@@ -0,0 +1,288 @@
+/**
+ * Corp Astro UI Library - Ashtakavarga
+ *
+ * Bhinnashtakavarga (individual bindu tables) for the seven classical
+ * planets and their Sarvashtakavarga total, after Brihat Parashara Hora
+ * Shastra. Each planet receives a bindu in a sign when that sign falls in
+ * one of the benefic places counted from each of the eight contributors
+ * (the seven planets and the ascendant). The Sarvashtakavarga sums to 337.
+ *
+ * @module ashtakavargaUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import {
+  VedicPlanet,
+  VedicRashi,
+  NorthIndianChartData,
+  VEDIC_RASHIS,
+} from './NorthIndianChart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Planets with an Ashtakavarga table
+ */
+export type AshtakavargaPlanet = 'sun' | 'moon' | 'mars' | 'mercury' | 'jupiter' | 'venus' | 'saturn';
+
+/**
+ * Reference points that contribute bindus
+ */
+export type AshtakavargaContributor = AshtakavargaPlanet | 'ascendant';
+
+/**
+ * Bhinnashtakavarga of a single planet
+ */
+export interface BhinnashtakavargaTable {
+  /** Planet the table belongs to */
+  planet: AshtakavargaPlanet;
+  /** Bindus per sign (index 0 = Aries) */
+  bindus: number[];
+  /** Bindu (1) or not (0) per sign from each contributor */
+  contributions: Record<AshtakavargaContributor, number[]>;
+  /** Sum of the bindus */
+  total: number;
+}
+
+/**
+ * Complete Ashtakavarga of a chart
+ */
+export interface AshtakavargaResult {
+  /** Individual tables per planet */
+  bhinnashtakavarga: Record<AshtakavargaPlanet, BhinnashtakavargaTable>;
+  /** Combined bindus per sign (index 0 = Aries) */
+  sarvashtakavarga: number[];
+  /** Sum of the Sarvashtakavarga (337) */
+  total: number;
+  /** Sign of the ascendant (0 = Aries) */
+  ascendantSign: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Planets in table order
+ */
+export const ASHTAKAVARGA_PLANETS: AshtakavargaPlanet[] = [
+  'sun', 'moon', 'mars', 'mercury', 'jupiter', 'venus', 'saturn',
+];
+
+/**
+ * Contributors in table order
+ */
+export const ASHTAKAVARGA_CONTRIBUTORS: AshtakavargaContributor[] = [...ASHTAKAVARGA_PLANETS, 'ascendant'];
+
+/**
+ * Sarvashtakavarga bindus at or above which a sign is considered favourable
+ */
+export const SARVASHTAKAVARGA_THRESHOLD = 28;
+
+/**
+ * Bhinnashtakavarga bindus at or above which a sign is considered favourable
+ */
+export const BHINNASHTAKAVARGA_THRESHOLD = 4;
+
+/**
+ * Places (counted from each contributor) where a planet receives a bindu
+ */
+const BINDU_PLACES: Record<AshtakavargaPlanet, Record<AshtakavargaContributor, number[]>> = {
+  sun: {
+    sun: [1, 2, 4, 7, 8, 9, 10, 11],
+    moon: [3, 6, 10, 11],
+    mars: [1, 2, 4, 7, 8, 9, 10, 11],
+    mercury: [3, 5, 6, 9, 10, 11, 12],
+    jupiter: [5, 6, 9, 11],
+    venus: [6, 7, 12],
+    saturn: [1, 2, 4, 7, 8, 9, 10, 11],
+    ascendant: [3, 4, 6, 10, 11, 12],
+  },
+  moon: {
+    sun: [3, 6, 7, 8, 10, 11],
+    moon: [1, 3, 6, 7, 10, 11],
+    mars: [2, 3, 5, 6, 9, 10, 11],
+    mercury: [1, 3, 4, 5, 7, 8, 10, 11],
+    jupiter: [1, 4, 7, 8, 10, 11, 12],
+    venus: [3, 4, 5, 7, 9, 10, 11],
+    saturn: [3, 5, 6, 11],
+    ascendant: [3, 6, 10, 11],
+  },
+  mars: {
+    sun: [3, 5, 6, 10, 11],
+    moon: [3, 6, 11],
+    mars: [1, 2, 4, 7, 8, 10, 11],
+    mercury: [3, 5, 6, 11],
+    jupiter: [6, 10, 11, 12],
+    venus: [6, 8, 11, 12],
+    saturn: [1, 4, 7, 8, 9, 10, 11],
+    ascendant: [1, 3, 6, 10, 11],
+  },
+  mercury: {
+    sun: [5, 6, 9, 11, 12],
+    moon: [2, 4, 6, 8, 10, 11],
+    mars: [1, 2, 4, 7, 8, 9, 10, 11],
+    mercury: [1, 3, 5, 6, 9, 10, 11, 12],
+    jupiter: [6, 8, 11, 12],
+    venus: [1, 2, 3, 4, 5, 8, 9, 11],
+    saturn: [1, 2, 4, 7, 8, 9, 10, 11],
+    ascendant: [1, 2, 4, 6, 8, 10, 11],
+  },
+  jupiter: {
+    sun: [1, 2, 3, 4, 7, 8, 9, 10, 11],
+    moon: [2, 5, 7, 9, 11],
+    mars: [1, 2, 4, 7, 8, 10, 11],
+    mercury: [1, 2, 4, 5, 6, 9, 10, 11],
+    jupiter: [1, 2, 3, 4, 7, 8, 10, 11],
+    venus: [2, 5, 6, 9, 10, 11],
+    saturn: [3, 5, 6, 12],
+    ascendant: [1, 2, 4, 5, 6, 7, 9, 10, 11],
+  },
+  venus: {
+    sun: [8, 11, 12],
+    moon: [1, 2, 3, 4, 5, 8, 9, 11, 12],
+    mars: [3, 5, 6, 9, 11, 12],
+    mercury: [3, 5, 6, 9, 11],
+    jupiter: [5, 8, 9, 10, 11],
+    venus: [1, 2, 3, 4, 5, 8, 9, 10, 11],
+    saturn: [3, 4, 5, 8, 9, 10, 11],
+    ascendant: [1, 2, 3, 4, 5, 8, 9, 11],
+  },
+  saturn: {
+    sun: [1, 2, 4, 7, 8, 10, 11],
+    moon: [3, 6, 11],
+    mars: [3, 5, 6, 10, 11, 12],
+    mercury: [6, 8, 9, 10, 11, 12],
+    jupiter: [5, 6, 11, 12],
+    venus: [6, 11, 12],
+    saturn: [3, 5, 6, 11],
+    ascendant: [1, 3, 4, 6, 10, 11],
+  },
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Sign index (Aries = 0) of a longitude
+ */
+function signOf(longitude: number): number {
+  return Math.floor((((longitude % 360) + 360) % 360) / 30);
+}
+
+/**
+ * Signs of the contributors in a processed chart
+ *
+ * Uses the sidereal degrees when present; otherwise the rashi of the house
+ * each planet is placed in.
+ */
+function getContributorSigns(chartData: NorthIndianChartData): Record<AshtakavargaContributor, number> {
+  const signs = {} as Record<AshtakavargaContributor, number>;
+
+  ASHTAKAVARGA_PLANETS.forEach(planet => {
+    const degree = chartData.planetDegrees?.[planet];
+    const house = chartData.houses.find(candidate => candidate.planets.includes(planet));
+    if (degree !== undefined) {
+      signs[planet] = signOf(degree);
+    } else if (house) {
+      signs[planet] = VEDIC_RASHIS.indexOf(house.rashi);
+    } else {
+      throw new Error(`Ashtakavarga requires the position of ${planet}`);
+    }
+  });
+
+  if (chartData.ascendantDegree !== undefined) {
+    signs.ascendant = signOf(chartData.ascendantDegree);
+  } else {
+    const ascendantHouse = chartData.houses.find(house => house.number === chartData.ascendant);
+    if (!ascendantHouse) {
+      throw new Error('Ashtakavarga requires the ascendant');
+    }
+    signs.ascendant = VEDIC_RASHIS.indexOf(ascendantHouse.rashi);
+  }
+
+  return signs;
+}
+
+/**
+ * Calculate the Bhinnashtakavarga and Sarvashtakavarga of a processed chart
+ */
+export function calculateAshtakavarga(chartData: NorthIndianChartData): AshtakavargaResult {
+  const signs = getContributorSigns(chartData);
+  const sarvashtakavarga = new Array<number>(12).fill(0);
+
+  const bhinnashtakavarga = {} as Record<AshtakavargaPlanet, BhinnashtakavargaTable>;
+  ASHTAKAVARGA_PLANETS.forEach(planet => {
+    const bindus = new Array<number>(12).fill(0);
+    const contributions = {} as Record<AshtakavargaContributor, number[]>;
+
+    ASHTAKAVARGA_CONTRIBUTORS.forEach(contributor => {
+      const row = new Array<number>(12).fill(0);
+      BINDU_PLACES[planet][contributor].forEach(place => {
+        row[(signs[contributor] + place - 1) % 12] = 1;
+      });
+      row.forEach((bindu, sign) => {
+        bindus[sign] += bindu;
+      });
+      contributions[contributor] = row;
+    });
+
+    bindus.forEach((count, sign) => {
+      sarvashtakavarga[sign] += count;
+    });
+    bhinnashtakavarga[planet] = {
+      planet,
+      bindus,
+      contributions,
+      total: bindus.reduce((sum, count) => sum + count, 0),
+    };
+  });
+
+  return {
+    bhinnashtakavarga,
+    sarvashtakavarga,
+    total: sarvashtakavarga.reduce((sum, count) => sum + count, 0),
+    ascendantSign: signs.ascendant,
+  };
+}
+
+/**
+ * Bindus of a rashi from the Sarvashtakavarga or one planet's table
+ */
+export function getRashiBindus(
+  result: AshtakavargaResult,
+  rashi: VedicRashi,
+  planet?: AshtakavargaPlanet
+): number {
+  const sign = VEDIC_RASHIS.indexOf(rashi);
+  return planet ? result.bhinnashtakavarga[planet].bindus[sign] : result.sarvashtakavarga[sign];
+}
+
+/**
+ * Bindus for each house of a chart, keyed by house number
+ *
+ * Suitable for `NorthIndianChart`'s bindu overlay. Uses the Sarvashtakavarga
+ * unless a planet is given.
+ */
+export function getHouseBindus(
+  result: AshtakavargaResult,
+  chartData: NorthIndianChartData,
+  planet?: AshtakavargaPlanet
+): Partial<Record<number, number>> {
+  const houseBindus: Partial<Record<number, number>> = {};
+  chartData.houses.forEach(house => {
+    houseBindus[house.number] = getRashiBindus(result, house.rashi, planet);
+  });
+  return houseBindus;
+}
+
+/**
+ * Whether a planet has an Ashtakavarga table
+ */
+export function isAshtakavargaPlanet(planet: VedicPlanet): planet is AshtakavargaPlanet {
+  return (ASHTAKAVARGA_PLANETS as VedicPlanet[]).includes(planet);
+}
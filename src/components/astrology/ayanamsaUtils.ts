@@ -0,0 +1,180 @@
+/**
+ * Corp Astro UI Library - Ayanamsa Systems
+ *
+ * Sidereal zodiac offsets (ayanamsas) used to convert tropical longitudes
+ * into the sidereal positions that Vedic charts are read from. Each system is
+ * defined by its value at J2000.0 and advanced with the IAU 2006 general
+ * precession in longitude.
+ *
+ * @module ayanamsaUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { VedicPlanet } from './NorthIndianChart';
+import type { RawAstrologicalData } from './NorthIndianChartDataProcessor';
+import { J2000, julianDayFromLocal } from './ephemerisUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Supported ayanamsa systems
+ */
+export type AyanamsaSystem =
+  | 'lahiri'
+  | 'raman'
+  | 'krishnamurti'
+  | 'fagan_bradley'
+  | 'yukteshwar'
+  | 'custom';
+
+/**
+ * Ayanamsa selection, including the user-defined offset
+ */
+export interface AyanamsaConfig {
+  /** Selected system */
+  system: AyanamsaSystem;
+  /** Fixed offset in degrees, used when system is 'custom' */
+  customOffset?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Mean ayanamsa at J2000.0 in degrees
+ */
+export const AYANAMSA_AT_J2000: Record<Exclude<AyanamsaSystem, 'custom'>, number> = {
+  lahiri: 23.857092,
+  raman: 22.410791,
+  krishnamurti: 23.760240,
+  fagan_bradley: 24.740300,
+  yukteshwar: 22.478803,
+};
+
+/**
+ * Display names for each system
+ */
+export const AYANAMSA_NAMES: Record<AyanamsaSystem, string> = {
+  lahiri: 'Lahiri (Chitrapaksha)',
+  raman: 'B.V. Raman',
+  krishnamurti: 'Krishnamurti (KP)',
+  fagan_bradley: 'Fagan-Bradley',
+  yukteshwar: 'Sri Yukteshwar',
+  custom: 'Custom Offset',
+};
+
+/**
+ * Default system for new charts
+ */
+export const DEFAULT_AYANAMSA: AyanamsaSystem = 'lahiri';
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Check whether a value names a supported system
+ */
+export function isAyanamsaSystem(value: unknown): value is AyanamsaSystem {
+  return typeof value === 'string' && value in AYANAMSA_NAMES;
+}
+
+/**
+ * Resolve a free-form ayanamsa label ('Lahiri', 'KP', 'Fagan Bradley', ...)
+ */
+export function parseAyanamsaSystem(label?: string): AyanamsaSystem | undefined {
+  if (!label) return undefined;
+  const key = label.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (isAyanamsaSystem(key)) return key;
+  if (key === 'kp' || key.startsWith('krishnamurti')) return 'krishnamurti';
+  if (key.startsWith('lahiri') || key.startsWith('chitrapaksha')) return 'lahiri';
+  if (key.startsWith('fagan')) return 'fagan_bradley';
+  if (key.startsWith('yukteshwar') || key.startsWith('sri_yukteshwar')) return 'yukteshwar';
+  if (key.includes('raman')) return 'raman';
+  return undefined;
+}
+
+/**
+ * Ayanamsa in degrees for a Julian Day (UT)
+ */
+export function getAyanamsa(config: AyanamsaConfig, jdUT: number): number {
+  if (config.system === 'custom') {
+    if (config.customOffset === undefined || !Number.isFinite(config.customOffset)) {
+      throw new Error('Custom ayanamsa requires a numeric offset');
+    }
+    return config.customOffset;
+  }
+  const T = (jdUT - J2000) / 36525;
+  const precession = (5028.796195 * T + 1.1054348 * T * T) / 3600;
+  return AYANAMSA_AT_J2000[config.system] + precession;
+}
+
+/**
+ * Ayanamsa in degrees for a chart's local datetime and UTC offset in hours
+ */
+export function getAyanamsaForDatetime(config: AyanamsaConfig, datetime: string, timezone: number = 0): number {
+  return getAyanamsa(config, julianDayFromLocal(datetime, timezone));
+}
+
+/**
+ * Convert a tropical longitude to sidereal
+ */
+export function toSidereal(tropicalLongitude: number, ayanamsa: number): number {
+  return normalizeDegrees(tropicalLongitude - ayanamsa);
+}
+
+/**
+ * Convert tropical chart data to sidereal using the chosen ayanamsa
+ *
+ * Data that is already sidereal is returned unchanged.
+ */
+export function applyAyanamsa(
+  rawData: RawAstrologicalData,
+  config: AyanamsaConfig
+): { data: RawAstrologicalData; ayanamsa: number } {
+  if (rawData.zodiac !== 'tropical') {
+    return { data: rawData, ayanamsa: 0 };
+  }
+
+  const ayanamsa = getAyanamsaForDatetime(config, rawData.datetime, rawData.timezone);
+  const planets = {} as Record<VedicPlanet, number>;
+  (Object.entries(rawData.planets) as [VedicPlanet, number][]).forEach(([planet, degree]) => {
+    planets[planet] = toSidereal(degree, ayanamsa);
+  });
+
+  return {
+    data: {
+      ...rawData,
+      planets,
+      houseCusps: rawData.houseCusps?.map(cusp => toSidereal(cusp, ayanamsa)),
+      ascendant: toSidereal(rawData.ascendant, ayanamsa),
+      ayanamsa: config.system,
+      customAyanamsa: config.customOffset,
+      zodiac: 'sidereal',
+    },
+    ayanamsa,
+  };
+}
+
+/**
+ * Format an ayanamsa value as degrees, minutes and seconds
+ */
+export function formatAyanamsa(value: number): string {
+  const totalSeconds = Math.round(Math.abs(value) * 3600);
+  const degrees = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${value < 0 ? '-' : ''}${degrees}°${String(minutes).padStart(2, '0')}'${String(seconds).padStart(2, '0')}"`;
+}
@@ -0,0 +1,766 @@
+/**
+ * Corp Astro UI Library - Chart Import and Export
+ *
+ * Reads and writes birth charts in the interchange formats of other
+ * astrology programs, plus the app's own versioned JSON:
+ * - Astrolog chart info files (.dat / .as): a `/qb` (or `/qa`) line with
+ *   date, time, daylight flag, zone in hours west, longitude and latitude,
+ *   and an optional `/zi "name" "place"` line
+ * - Jagannatha Hora (.jhd): one value per line: month, day, year, time
+ *   (h.mmss), zone (h.mm, west positive), longitude (d.mmss, west
+ *   positive), latitude (d.mmss), altitude; the first text line after them
+ *   is taken as the place
+ * - AAF (Astrological Exchange Format), the text export of Solar Fire and
+ *   other desktop programs: `#A93:` name/date/time/place lines each followed
+ *   by a `#B93:` Julian Day/latitude/longitude/zone/DST line
+ * - Corp Astro JSON: see `CorpAstroChartFile`
+ *
+ * Imported birth data is validated and cast with the offline ephemeris, so
+ * every import yields `RawAstrologicalData` ready for the chart processor.
+ * Daylight saving is folded into the zone offset on import and written as
+ * standard time with the full offset on export.
+ *
+ * @module chartInterchangeUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { NorthIndianChartData, VEDIC_RASHIS } from './NorthIndianChart';
+import { RawAstrologicalData } from './NorthIndianChartDataProcessor';
+import {
+  calculateEphemeris,
+  EPHEMERIS_PLANETS,
+  EPHEMERIS_RANGE,
+  EphemerisInput,
+  julianDayFromLocal,
+} from './ephemerisUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Supported file formats
+ */
+export type ChartFormat = 'astrolog' | 'jhora' | 'aaf' | 'json';
+
+/**
+ * Birth details carried by every format
+ */
+export type ChartBirthData = Pick<EphemerisInput, 'datetime' | 'timezone' | 'latitude' | 'longitude' | 'location' | 'title'>;
+
+/**
+ * One chart in a Corp Astro JSON file; `birth` or `raw` is required
+ */
+export interface CorpAstroChartEntry {
+  /** Birth details */
+  birth?: ChartBirthData;
+  /** Chart positions; recomputed from `birth` when omitted */
+  raw?: RawAstrologicalData;
+  /** Processed North Indian chart, when exported from a chart view */
+  chart?: NorthIndianChartData;
+}
+
+/**
+ * Corp Astro JSON chart file
+ *
+ * ```json
+ * {
+ *   "format": "corp-astro-chart",
+ *   "version": 1,
+ *   "exportedAt": "2024-05-01T10:00:00.000Z",
+ *   "charts": [
+ *     {
+ *       "birth": {
+ *         "datetime": "1995-08-10T06:30:00",
+ *         "timezone": 5.5,
+ *         "latitude": 28.6139,
+ *         "longitude": 77.209,
+ *         "location": "New Delhi",
+ *         "title": "Asha"
+ *       },
+ *       "raw": { "datetime": "...", "planets": { ... }, "ascendant": 125.4 }
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * Readers accept any version up to `CHART_JSON_VERSION`; later versions
+ * are rejected rather than misread.
+ */
+export interface CorpAstroChartFile {
+  /** Always `CHART_JSON_FORMAT` */
+  format: typeof CHART_JSON_FORMAT;
+  /** Schema version */
+  version: number;
+  /** Export time (ISO 8601) */
+  exportedAt?: string;
+  /** Charts in the file */
+  charts: CorpAstroChartEntry[];
+}
+
+/**
+ * Chart read from a file
+ */
+export interface ImportedChart {
+  /** Format the chart was read from */
+  format: ChartFormat;
+  /** Birth details, when the file carries them */
+  birth?: ChartBirthData;
+  /** Chart positions */
+  raw: RawAstrologicalData;
+  /** Processed North Indian chart, when the file carries one */
+  chart?: NorthIndianChartData;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Display names for each format
+ */
+export const CHART_FORMAT_NAMES: Record<ChartFormat, string> = {
+  astrolog: 'Astrolog',
+  jhora: 'Jagannatha Hora',
+  aaf: 'AAF (Solar Fire)',
+  json: 'Corp Astro JSON',
+};
+
+/**
+ * File extensions of each format; the first is used on export
+ */
+export const CHART_FORMAT_EXTENSIONS: Record<ChartFormat, string[]> = {
+  astrolog: ['dat', 'as'],
+  jhora: ['jhd'],
+  aaf: ['aaf'],
+  json: ['json'],
+};
+
+/**
+ * Every extension accepted on import
+ */
+export const CHART_FILE_EXTENSIONS: string[] = Object.values(CHART_FORMAT_EXTENSIONS).flat();
+
+/**
+ * `format` field of Corp Astro JSON files
+ */
+export const CHART_JSON_FORMAT = 'corp-astro-chart';
+
+/**
+ * Current Corp Astro JSON schema version
+ */
+export const CHART_JSON_VERSION = 1;
+
+const MONTH_ABBREVIATIONS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Whole degrees, minutes and seconds of an absolute angle or time
+ */
+function toSexagesimal(value: number): [number, number, number] {
+  const totalSeconds = Math.round(Math.abs(value) * 3600);
+  return [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60];
+}
+
+/**
+ * Value written as d.mmss (Jagannatha Hora) to decimal
+ */
+function fromDotSexagesimal(text: string): number {
+  const value = Number(text);
+  const sign = value < 0 ? -1 : 1;
+  const [whole, fraction = ''] = text.replace('-', '').split('.');
+  const digits = fraction.padEnd(4, '0');
+  return sign * (Number(whole) + Number(digits.slice(0, 2)) / 60 + Number(`${digits.slice(2, 4)}.${digits.slice(4)}`) / 3600);
+}
+
+/**
+ * Decimal value as d.mmss (Jagannatha Hora)
+ */
+function toDotSexagesimal(value: number): string {
+  const [degrees, minutes, seconds] = toSexagesimal(value);
+  return `${value < 0 ? '-' : ''}${degrees}.${pad(minutes)}${pad(seconds)}00`;
+}
+
+function splitDateTime(datetime: string): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  const match = /^(-?\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/.exec(datetime.trim());
+  if (!match) {
+    throw new Error(`Invalid datetime: ${datetime}. Expected YYYY-MM-DDTHH:mm[:ss]`);
+  }
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+  };
+}
+
+function joinDateTime(year: number, month: number, day: number, hour: number, minute: number, second: number): string {
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}`;
+}
+
+/**
+ * Check birth details before casting; messages name the offending field
+ */
+export function validateBirthData(birth: ChartBirthData): void {
+  const { year, month, day, hour, minute, second } = splitDateTime(birth.datetime);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  if (month < 1 || month > 12) {
+    throw new Error(`Month out of range: ${month}`);
+  }
+  if (day < 1 || day > daysInMonth) {
+    throw new Error(`Day out of range: ${day} (month ${month} has ${daysInMonth} days)`);
+  }
+  if (hour > 23 || minute > 59 || second > 59) {
+    throw new Error(`Time out of range: ${pad(hour)}:${pad(minute)}:${pad(second)}`);
+  }
+  if (year < EPHEMERIS_RANGE.minYear || year > EPHEMERIS_RANGE.maxYear) {
+    throw new Error(`Birth year ${year} is outside ${EPHEMERIS_RANGE.minYear}-${EPHEMERIS_RANGE.maxYear}`);
+  }
+  if (!Number.isFinite(birth.timezone) || Math.abs(birth.timezone) > 14) {
+    throw new Error(`Time zone out of range: ${birth.timezone}`);
+  }
+  if (!Number.isFinite(birth.latitude) || Math.abs(birth.latitude) >= 90) {
+    throw new Error(`Latitude out of range: ${birth.latitude}`);
+  }
+  if (!Number.isFinite(birth.longitude) || Math.abs(birth.longitude) > 180) {
+    throw new Error(`Longitude out of range: ${birth.longitude}`);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Astrolog
+// ----------------------------------------------------------------------------
+
+/**
+ * Astrolog angle: '77:12:32E', '77E12:32', '77.209E' or a plain number, in
+ * which case `plainSign` gives the direction of positive values
+ */
+function parseAstrologAngle(text: string, positive: string, negative: string, plainSign: 1 | -1): number {
+  const match = /^(-?[\d.]+)(?:[:°]([\d.]+))?(?:[:'](\d+(?:\.\d+)?))?([A-Za-z])?(?:([\d.]+)(?:[:'](\d+(?:\.\d+)?))?)?$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid coordinate: ${text}`);
+  }
+  const [, degrees, minutesA, secondsA, direction, minutesB, secondsB] = match;
+  const minutes = Number(minutesA ?? minutesB ?? 0);
+  const seconds = Number(secondsA ?? secondsB ?? 0);
+  const magnitude = Math.abs(Number(degrees)) + minutes / 60 + seconds / 3600;
+  const signed = Number(degrees) < 0 ? -magnitude : magnitude;
+
+  if (!direction) return signed * plainSign;
+  const letter = direction.toUpperCase();
+  if (letter === positive) return signed;
+  if (letter === negative) return -signed;
+  throw new Error(`Invalid direction '${direction}' in ${text}`);
+}
+
+/**
+ * Astrolog clock time: '6:30', '6:30:15', '6:30pm'
+ */
+function parseAstrologTime(text: string): [number, number, number] {
+  const match = /^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*([ap]m)?$/i.exec(text);
+  if (!match) {
+    throw new Error(`Invalid time: ${text}`);
+  }
+  const [, hours, minutes = '0', seconds = '0', meridiem] = match;
+  let hour = Number(hours);
+  if (meridiem) {
+    hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+  return [hour, Number(minutes), Number(seconds)];
+}
+
+/**
+ * Astrolog hours west: '5:30', '-5:30', '5.5', '5:00W', '5:30E'
+ */
+function parseAstrologHours(text: string): number {
+  const match = /^(-?)(\d+(?:\.\d+)?)(?::(\d{2}))?([EW])?$/i.exec(text);
+  if (!match) {
+    throw new Error(`Invalid zone or offset: ${text}`);
+  }
+  const [, sign, hours, minutes = '0', direction] = match;
+  const east = direction?.toUpperCase() === 'E';
+  return (sign ? -1 : 1) * (east ? -1 : 1) * (Number(hours) + Number(minutes) / 60);
+}
+
+function formatAstrologHours(hours: number): string {
+  const [whole, minutes] = toSexagesimal(hours);
+  return `${hours < 0 ? '-' : ''}${whole}:${pad(minutes)}`;
+}
+
+/**
+ * Birth details from an Astrolog chart info file
+ */
+export function parseAstrologChart(content: string): ChartBirthData {
+  const lines = content.split(/\r?\n/).map(line => line.replace(/;.*$/, '').trim()).filter(Boolean);
+  const dataLine = lines.find(line => /^[-/]q[ab]\s/i.test(line));
+  if (!dataLine) {
+    throw new Error('No /qb or /qa chart line found in Astrolog file');
+  }
+
+  const tokens = dataLine.split(/\s+/);
+  const hasDaylight = tokens[0].toLowerCase().endsWith('qb');
+  if (tokens.length < (hasDaylight ? 9 : 8)) {
+    throw new Error(`Incomplete Astrolog chart line: ${dataLine}`);
+  }
+
+  const [, monthText, dayText, yearText, timeText, ...rest] = tokens;
+  const daylightText = hasDaylight ? rest.shift()! : 'ST';
+  const [zoneText, longitudeText, latitudeText] = rest;
+
+  const monthIndex = MONTH_ABBREVIATIONS.indexOf(monthText.slice(0, 3).toLowerCase());
+  const month = monthIndex >= 0 ? monthIndex + 1 : Number(monthText);
+  const [hour, minute, second] = parseAstrologTime(timeText);
+  const daylight =
+    /^st$/i.test(daylightText) ? 0
+      : /^dt$/i.test(daylightText) ? 1
+        : parseAstrologHours(daylightText);
+
+  // Astrolog zones count hours west of Greenwich, and plain longitudes are west positive
+  const birth: ChartBirthData = {
+    datetime: joinDateTime(Number(yearText), month, Number(dayText), hour, minute, second),
+    timezone: -parseAstrologHours(zoneText) + daylight,
+    longitude: parseAstrologAngle(longitudeText, 'E', 'W', -1),
+    latitude: parseAstrologAngle(latitudeText, 'N', 'S', 1),
+  };
+
+  const infoLine = lines.find(line => /^[-/]zi\s/i.test(line));
+  const [title, location] = infoLine ? Array.from(infoLine.matchAll(/"([^"]*)"/g), match => match[1]) : [];
+  if (title) birth.title = title;
+  if (location) birth.location = location;
+
+  validateBirthData(birth);
+  return birth;
+}
+
+/**
+ * Astrolog chart info file for birth details
+ */
+export function serializeAstrologChart(birth: ChartBirthData): string {
+  validateBirthData(birth);
+  const { year, month, day, hour, minute, second } = splitDateTime(birth.datetime);
+  const coordinate = (value: number, positive: string, negative: string) => {
+    const [degrees, minutes, seconds] = toSexagesimal(value);
+    return `${degrees}:${pad(minutes)}:${pad(seconds)}${value < 0 ? negative : positive}`;
+  };
+
+  return [
+    '@0102  ; Astrolog chart info.',
+    `/qb ${month} ${day} ${year} ${hour}:${pad(minute)}:${pad(second)} ST ${formatAstrologHours(-birth.timezone)} ` +
+      `${coordinate(birth.longitude, 'E', 'W')} ${coordinate(birth.latitude, 'N', 'S')}`,
+    `/zi "${(birth.title ?? '').replace(/"/g, "'")}" "${(birth.location ?? '').replace(/"/g, "'")}"`,
+    '',
+  ].join('\n');
+}
+
+// ----------------------------------------------------------------------------
+// Jagannatha Hora
+// ----------------------------------------------------------------------------
+
+/**
+ * Birth details from a Jagannatha Hora .jhd file
+ */
+export function parseJHoraChart(content: string): ChartBirthData {
+  const lines = content.split(/\r?\n/).map(line => line.trim());
+  const numbers = lines.slice(0, 7);
+  const invalid = numbers.findIndex(line => !/^-?\d+(\.\d+)?$/.test(line));
+  if (numbers.length < 7 || invalid >= 0) {
+    throw new Error(`Invalid Jagannatha Hora file: line ${invalid >= 0 ? invalid + 1 : numbers.length + 1} is not a number`);
+  }
+
+  const [month, day, year] = numbers.slice(0, 3).map(Number);
+  const [hour, minute, second] = toSexagesimal(fromDotSexagesimal(numbers[3]));
+  const birth: ChartBirthData = {
+    datetime: joinDateTime(year, month, day, hour, minute, second),
+    // Zone and longitude are west positive
+    timezone: -fromDotSexagesimal(numbers[4]),
+    longitude: -fromDotSexagesimal(numbers[5]),
+    latitude: fromDotSexagesimal(numbers[6]),
+  };
+
+  const place = lines.slice(7).find(line => line && !/^-?\d+(\.\d+)?$/.test(line));
+  if (place) birth.location = place;
+
+  validateBirthData(birth);
+  return birth;
+}
+
+/**
+ * Jagannatha Hora .jhd file for birth details
+ */
+export function serializeJHoraChart(birth: ChartBirthData): string {
+  validateBirthData(birth);
+  const { year, month, day, hour, minute, second } = splitDateTime(birth.datetime);
+
+  return [
+    String(month),
+    String(day),
+    String(year),
+    toDotSexagesimal(hour + minute / 60 + second / 3600),
+    toDotSexagesimal(-birth.timezone),
+    toDotSexagesimal(-birth.longitude),
+    toDotSexagesimal(birth.latitude),
+    '0.000000',
+    birth.location ?? '',
+    '',
+  ].join('\n');
+}
+
+// ----------------------------------------------------------------------------
+// AAF
+// ----------------------------------------------------------------------------
+
+/**
+ * AAF coordinate: '28n37', '28n36:50', '77e13'
+ */
+function parseAafCoordinate(text: string, positive: string, negative: string): number {
+  const match = /^(\d+)([a-z])(\d+)(?::(\d+))?$/i.exec(text.trim());
+  const direction = match?.[2].toLowerCase();
+  if (!match || (direction !== positive && direction !== negative)) {
+    throw new Error(`Invalid AAF coordinate: ${text}`);
+  }
+  const value = Number(match[1]) + Number(match[3]) / 60 + Number(match[4] ?? 0) / 3600;
+  return direction === positive ? value : -value;
+}
+
+function formatAafCoordinate(value: number, positive: string, negative: string): string {
+  const [degrees, minutes, seconds] = toSexagesimal(value);
+  return `${degrees}${value < 0 ? negative : positive}${pad(minutes)}${seconds ? `:${pad(seconds)}` : ''}`;
+}
+
+/**
+ * AAF zone: '5hE30' (east of Greenwich), '5hW00'
+ */
+function parseAafZone(text: string): number {
+  const match = /^(\d+)h([EW])(\d+)$/i.exec(text.trim());
+  if (!match) {
+    throw new Error(`Invalid AAF zone: ${text}`);
+  }
+  const hours = Number(match[1]) + Number(match[3]) / 60;
+  return match[2].toUpperCase() === 'E' ? hours : -hours;
+}
+
+function formatAafZone(timezone: number): string {
+  const [hours, minutes] = toSexagesimal(timezone);
+  return `${hours}h${timezone < 0 ? 'W' : 'E'}${pad(minutes)}`;
+}
+
+/**
+ * Birth details of every chart in an AAF file
+ */
+export function parseAafCharts(content: string): ChartBirthData[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim());
+  const charts: ChartBirthData[] = [];
+
+  lines.forEach((line, index) => {
+    if (!/^#A93:/i.test(line)) return;
+    const lineNumber = index + 1;
+    const fields = line.slice(5).split(',');
+    const locationLine = lines.slice(index + 1).find(next => /^#[AB]93:/i.test(next));
+    if (!locationLine || !/^#B93:/i.test(locationLine)) {
+      throw new Error(`AAF line ${lineNumber}: #A93 record has no #B93 line`);
+    }
+    const location = locationLine.slice(5).split(',');
+    if (fields.length < 6 || location.length < 4) {
+      throw new Error(`AAF line ${lineNumber}: incomplete chart record`);
+    }
+
+    const [surname, firstName, , dateText, timeText, place, country] = fields.map(field => field.trim());
+    const dateMatch = /^(\d{1,2})\.(\d{1,2})\.(-?\d{1,4})([gj])?$/i.exec(dateText);
+    if (!dateMatch) {
+      throw new Error(`AAF line ${lineNumber}: invalid date ${dateText}`);
+    }
+    if (dateMatch[4]?.toLowerCase() === 'j') {
+      throw new Error(`AAF line ${lineNumber}: Julian calendar dates are not supported`);
+    }
+    const timeMatch = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(timeText);
+    if (!timeMatch) {
+      throw new Error(`AAF line ${lineNumber}: invalid time ${timeText}`);
+    }
+
+    try {
+      const [, latitudeText, longitudeText, zoneText, daylightText = '0'] = location.map(field => field.trim());
+      const birth: ChartBirthData = {
+        datetime: joinDateTime(
+          Number(dateMatch[3]), Number(dateMatch[2]), Number(dateMatch[1]),
+          Number(timeMatch[1]), Number(timeMatch[2]), Number(timeMatch[3] ?? 0)
+        ),
+        timezone: parseAafZone(zoneText) + (Number(daylightText) || 0),
+        latitude: parseAafCoordinate(latitudeText, 'n', 's'),
+        longitude: parseAafCoordinate(longitudeText, 'e', 'w'),
+      };
+      const title = [firstName, surname].filter(part => part && part !== '*').join(' ');
+      const placeName = [place, country].filter(part => part && part !== '*').join(', ');
+      if (title) birth.title = title;
+      if (placeName) birth.location = placeName;
+
+      validateBirthData(birth);
+      charts.push(birth);
+    } catch (error) {
+      throw new Error(`AAF line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  if (charts.length === 0) {
+    throw new Error('No #A93 chart records found in AAF file');
+  }
+  return charts;
+}
+
+/**
+ * AAF file for one or more charts
+ */
+export function serializeAafCharts(births: ChartBirthData[]): string {
+  const field = (value?: string) => (value ? value.replace(/,/g, ' ') : '*');
+
+  return births
+    .map(birth => {
+      validateBirthData(birth);
+      const { year, month, day, hour, minute, second } = splitDateTime(birth.datetime);
+      const time = `${pad(hour)}:${pad(minute)}${second ? `:${pad(second)}` : ''}`;
+      const julianDay = julianDayFromLocal(birth.datetime, birth.timezone);
+      return [
+        `#A93:${field(birth.title)},*,*,${pad(day)}.${pad(month)}.${year}g,${time},${field(birth.location)},*`,
+        `#B93:${julianDay.toFixed(5)},${formatAafCoordinate(birth.latitude, 'n', 's')},` +
+          `${formatAafCoordinate(birth.longitude, 'e', 'w')},${formatAafZone(birth.timezone)},0`,
+      ].join('\n');
+    })
+    .join('\n') + '\n';
+}
+
+// ----------------------------------------------------------------------------
+// Corp Astro JSON
+// ----------------------------------------------------------------------------
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHouseNumber(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 12;
+}
+
+/**
+ * Check a processed chart carried in a JSON file is drawable
+ */
+function validateChartData(chart: unknown): void {
+  if (!isObject(chart)) {
+    throw new Error('processed chart must be an object');
+  }
+  if (!Array.isArray(chart.houses) || chart.houses.length !== 12) {
+    throw new Error('processed chart must have twelve houses');
+  }
+  chart.houses.forEach((house: unknown, index) => {
+    if (
+      !isObject(house) ||
+      !isHouseNumber(house.number) ||
+      !VEDIC_RASHIS.includes(house.rashi as never) ||
+      !Array.isArray(house.planets) ||
+      !house.planets.every(planet => EPHEMERIS_PLANETS.includes(planet))
+    ) {
+      throw new Error(`processed chart house ${index + 1} is invalid`);
+    }
+  });
+  if (!isHouseNumber(chart.ascendant)) {
+    throw new Error('processed chart ascendant must be a house number');
+  }
+}
+
+/**
+ * Charts from a Corp Astro JSON file
+ */
+export function parseChartJson(content: string): CorpAstroChartEntry[] {
+  let file: Partial<CorpAstroChartFile>;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('Chart file is not valid JSON');
+  }
+
+  if (typeof file !== 'object' || file === null) {
+    throw new Error('Not a Corp Astro chart file');
+  }
+  if (file.format !== CHART_JSON_FORMAT) {
+    throw new Error(`Not a Corp Astro chart file (format '${String(file.format)}')`);
+  }
+  if (!Number.isInteger(file.version) || file.version! < 1) {
+    throw new Error(`Invalid chart file version: ${String(file.version)}`);
+  }
+  if (file.version! > CHART_JSON_VERSION) {
+    throw new Error(`Chart file version ${file.version} is newer than this app supports (${CHART_JSON_VERSION})`);
+  }
+  if (!Array.isArray(file.charts) || file.charts.length === 0) {
+    throw new Error('Chart file contains no charts');
+  }
+
+  file.charts.forEach((entry, index) => {
+    const label = `Chart ${index + 1}`;
+    if (typeof entry !== 'object' || entry === null) {
+      throw new Error(`${label}: must be an object`);
+    }
+    if (!entry.birth && !entry.raw) {
+      throw new Error(`${label}: needs birth details or chart positions`);
+    }
+    if (entry.birth) {
+      const birth = entry.birth as unknown as Record<string, unknown>;
+      if (typeof birth !== 'object' || birth === null) {
+        throw new Error(`${label}: birth details must be an object`);
+      }
+      if (typeof birth.datetime !== 'string') {
+        throw new Error(`${label}: birth datetime must be a string`);
+      }
+      (['timezone', 'latitude', 'longitude'] as const).forEach(field => {
+        if (typeof birth[field] !== 'number') {
+          throw new Error(`${label}: birth ${field} must be a number`);
+        }
+      });
+      (['location', 'title'] as const).forEach(field => {
+        if (birth[field] !== undefined && typeof birth[field] !== 'string') {
+          throw new Error(`${label}: birth ${field} must be a string`);
+        }
+      });
+      try {
+        validateBirthData(entry.birth);
+      } catch (error) {
+        throw new Error(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (entry.raw) {
+      const { planets, ascendant } = entry.raw;
+      if (!planets || typeof planets !== 'object' || !Object.values(planets).every(isFiniteNumber)) {
+        throw new Error(`${label}: planet positions must be numbers`);
+      }
+      if (!isFiniteNumber(ascendant)) {
+        throw new Error(`${label}: ascendant must be a number`);
+      }
+    }
+    if (entry.chart !== undefined) {
+      try {
+        validateChartData(entry.chart);
+      } catch (error) {
+        throw new Error(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  });
+
+  return file.charts;
+}
+
+/**
+ * Corp Astro JSON file for one or more charts
+ */
+export function serializeChartJson(charts: CorpAstroChartEntry[]): string {
+  charts.forEach(entry => entry.birth && validateBirthData(entry.birth));
+  const file: CorpAstroChartFile = {
+    format: CHART_JSON_FORMAT,
+    version: CHART_JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    charts,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// ----------------------------------------------------------------------------
+// Import and export
+// ----------------------------------------------------------------------------
+
+/**
+ * Format of a chart file from its name, or failing that its content
+ */
+export function detectChartFormat(content: string, fileName?: string): ChartFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  const byExtension = (Object.keys(CHART_FORMAT_EXTENSIONS) as ChartFormat[]).find(format =>
+    extension !== undefined && CHART_FORMAT_EXTENSIONS[format].includes(extension)
+  );
+  if (byExtension) return byExtension;
+
+  const text = content.trim();
+  if (text.startsWith('{')) return 'json';
+  if (/^#A93:/im.test(text)) return 'aaf';
+  if (/^[-/]q[ab]\s/im.test(text)) return 'astrolog';
+  if (/^(-?\d+(\.\d+)?\s*\n){7}/.test(`${text}\n`)) return 'jhora';
+  throw new Error('Unrecognised chart file format');
+}
+
+/**
+ * Cast the positions for birth details
+ */
+function castChart(format: ChartFormat, birth: ChartBirthData): ImportedChart {
+  return { format, birth, raw: calculateEphemeris(birth) };
+}
+
+/**
+ * Every chart in a file, validated and cast
+ */
+export function importCharts(content: string, fileName?: string): ImportedChart[] {
+  if (!content.trim()) {
+    throw new Error('Chart file is empty');
+  }
+
+  const format = detectChartFormat(content, fileName);
+  switch (format) {
+    case 'astrolog':
+      return [castChart(format, parseAstrologChart(content))];
+    case 'jhora':
+      return [castChart(format, parseJHoraChart(content))];
+    case 'aaf':
+      return parseAafCharts(content).map(birth => castChart(format, birth));
+    case 'json':
+      return parseChartJson(content).map(entry => ({
+        format,
+        birth: entry.birth,
+        raw: entry.raw ?? calculateEphemeris(entry.birth!),
+        chart: entry.chart,
+      }));
+  }
+}
+
+/**
+ * File content for charts in a format; Astrolog and Jagannatha Hora files
+ * hold a single chart, and every format but JSON needs birth details
+ */
+export function exportCharts(format: ChartFormat, charts: CorpAstroChartEntry[]): string {
+  if (charts.length === 0) {
+    throw new Error('No charts to export');
+  }
+  if (format === 'json') {
+    return serializeChartJson(charts);
+  }
+
+  const births = charts.map((entry, index) => {
+    if (!entry.birth) {
+      throw new Error(`Chart ${index + 1} has no birth details to export as ${CHART_FORMAT_NAMES[format]}`);
+    }
+    return entry.birth;
+  });
+  if (format === 'aaf') {
+    return serializeAafCharts(births);
+  }
+  if (births.length > 1) {
+    throw new Error(`${CHART_FORMAT_NAMES[format]} files hold a single chart`);
+  }
+  return format === 'astrolog' ? serializeAstrologChart(births[0]) : serializeJHoraChart(births[0]);
+}
+
+/**
+ * File name for an export, from the chart title
+ */
+export function getChartFileName(format: ChartFormat, title?: string): string {
+  const base = (title ?? 'chart').trim().replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'chart';
+  return `${base}.${CHART_FORMAT_EXTENSIONS[format][0]}`;
+}
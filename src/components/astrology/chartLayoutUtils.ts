@@ -0,0 +1,176 @@
+/**
+ * Corp Astro UI Library - Chart Layout
+ *
+ * Geometry shared by the regional chart styles (North, South and East
+ * Indian). Charts are drawn in a 100 x 100 space; these helpers place planet
+ * labels inside a house or sign area without overlap and draw aspect arrows.
+ *
+ * @module chartLayoutUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { VedicPlanet } from './NorthIndianChart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Point in the 100 x 100 chart space
+ */
+export interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Rectangle planet labels are laid out in
+ */
+export interface PlanetArea {
+  /** Centre of the area */
+  center: ChartPoint;
+  /** Width of the area */
+  width: number;
+  /** Height of the area */
+  height: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Planet labels and colors, matching NorthIndianChartLegend
+ */
+export const PLANET_GLYPHS: Record<VedicPlanet, { abbreviation: string; symbol: string; color: string }> = {
+  sun: { abbreviation: 'Su', symbol: '☉', color: '#FFD700' },
+  moon: { abbreviation: 'Mo', symbol: '☽', color: '#E6E6FA' },
+  mercury: { abbreviation: 'Me', symbol: '☿', color: '#87CEEB' },
+  venus: { abbreviation: 'Ve', symbol: '♀', color: '#FFB6C1' },
+  mars: { abbreviation: 'Ma', symbol: '♂', color: '#FF4500' },
+  jupiter: { abbreviation: 'Ju', symbol: '♃', color: '#DAA520' },
+  saturn: { abbreviation: 'Sa', symbol: '♄', color: '#708090' },
+  rahu: { abbreviation: 'Ra', symbol: '☊', color: '#8B0000' },
+  ketu: { abbreviation: 'Ke', symbol: '☋', color: '#2F4F4F' },
+  uranus: { abbreviation: 'Ur', symbol: '♅', color: '#40E0D0' },
+  neptune: { abbreviation: 'Ne', symbol: '♆', color: '#4169E1' },
+  pluto: { abbreviation: 'Pl', symbol: '♇', color: '#800080' },
+};
+
+/** Planet label font size in chart units, before scaling down crowded areas */
+export const PLANET_FONT_SIZE = 3.4;
+
+/** Planet label block width, in multiples of the font size */
+export const PLANET_BLOCK_WIDTH = 2.6;
+
+/** Planet label block height with and without the degree line, and the extra nakshatra line */
+export const PLANET_BLOCK_HEIGHT = { withDegrees: 1.9, withoutDegrees: 1.2, nakshatraLine: 0.7 };
+
+/**
+ * Colors shared by the chart styles
+ */
+export const CHART_COLORS = {
+  retrograde: '#FF6B6B',
+  beneficAspect: '#4ECDC4',
+  maleficAspect: '#FF6B6B',
+  binduStrong: '#2E8B57',
+  binduWeak: '#B22222',
+  selectedArea: 'rgba(84, 160, 255, 0.18)',
+  selectedPlanet: 'rgba(84, 160, 255, 0.3)',
+  unselectedArea: 'rgba(255, 255, 255, 0.01)',
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Polygon points attribute from a list of points
+ */
+export function toPointsAttribute(points: ChartPoint[]): string {
+  return points.map(point => `${point.x},${point.y}`).join(' ');
+}
+
+/**
+ * Lay out planet labels in a grid filling an area
+ *
+ * Picks the column count that lets the labels be largest; crowded areas
+ * shrink their labels rather than overlap.
+ */
+export function layoutPlanets(
+  count: number,
+  area: PlanetArea,
+  showDegrees: boolean,
+  showNakshatras: boolean = false
+): { fontSize: number; slots: ChartPoint[] } {
+  const blockHeight = (showDegrees ? PLANET_BLOCK_HEIGHT.withDegrees : PLANET_BLOCK_HEIGHT.withoutDegrees) +
+    (showNakshatras ? PLANET_BLOCK_HEIGHT.nakshatraLine : 0);
+  let columns = 1;
+  let scale = 0;
+
+  for (let candidate = 1; candidate <= count; candidate++) {
+    const rows = Math.ceil(count / candidate);
+    const candidateScale = Math.min(
+      1,
+      area.width / (candidate * PLANET_BLOCK_WIDTH * PLANET_FONT_SIZE),
+      area.height / (rows * blockHeight * PLANET_FONT_SIZE)
+    );
+    if (candidateScale > scale) {
+      scale = candidateScale;
+      columns = candidate;
+    }
+  }
+
+  const fontSize = PLANET_FONT_SIZE * scale;
+  const cellWidth = PLANET_BLOCK_WIDTH * fontSize;
+  const cellHeight = blockHeight * fontSize;
+  const rows = Math.ceil(count / columns);
+  const slots: ChartPoint[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const row = Math.floor(index / columns);
+    const inRow = row === rows - 1 ? count - row * columns : columns;
+    const column = index % columns;
+    slots.push({
+      x: area.center.x + (column - (inRow - 1) / 2) * cellWidth,
+      y: area.center.y + (row - (rows - 1) / 2) * cellHeight,
+    });
+  }
+
+  return { fontSize, slots };
+}
+
+/**
+ * Arrow between two points, stopping short of both
+ */
+export function getArrowGeometry(start: ChartPoint, end: ChartPoint, inset = 7) {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const ux = (end.x - start.x) / length;
+  const uy = (end.y - start.y) / length;
+  const tip = { x: end.x - ux * inset, y: end.y - uy * inset };
+  const head = 2.2;
+
+  return {
+    x1: start.x + ux * inset,
+    y1: start.y + uy * inset,
+    x2: tip.x,
+    y2: tip.y,
+    head: toPointsAttribute([
+      tip,
+      { x: tip.x - ux * head - uy * head * 0.6, y: tip.y - uy * head + ux * head * 0.6 },
+      { x: tip.x - ux * head + uy * head * 0.6, y: tip.y - uy * head - ux * head * 0.6 },
+    ]),
+  };
+}
+
+/**
+ * Order planets by their degree within the sign
+ */
+export function sortPlanetsByDegree(
+  planets: VedicPlanet[],
+  planetDegrees?: Partial<Record<VedicPlanet, number>>
+): VedicPlanet[] {
+  const inSign = (planet: VedicPlanet) => (((planetDegrees?.[planet] ?? 0) % 30) + 30) % 30;
+  return [...planets].sort((a, b) => inSign(a) - inSign(b));
+}
@@ -0,0 +1,266 @@
+/**
+ * Corp Astro UI Library - Vimshottari Dasha
+ *
+ * Computes the 120-year Vimshottari dasha sequence from the Moon's sidereal
+ * longitude. The nakshatra occupied by the Moon fixes the first Mahadasha
+ * lord, and the portion of the nakshatra still to be traversed fixes the
+ * balance of that period at birth. Each Mahadasha divides into Antardashas,
+ * and each Antardasha into Pratyantardashas, in the same proportions.
+ *
+ * @module dashaUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { VedicPlanet } from './NorthIndianChart';
+import type { RawAstrologicalData } from './NorthIndianChartDataProcessor';
+import { AyanamsaConfig, DEFAULT_AYANAMSA, applyAyanamsa } from './ayanamsaUtils';
+import { dateFromJulianDay, julianDayFromLocal } from './ephemerisUtils';
+import { NAKSHATRA_SPAN, calculateNakshatra } from './nakshatraUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Planets that rule Vimshottari periods
+ */
+export type DashaLord = Exclude<VedicPlanet, 'uranus' | 'neptune' | 'pluto'>;
+
+/**
+ * Depth of a period in the dasha tree
+ */
+export type DashaLevel = 'mahadasha' | 'antardasha' | 'pratyantardasha';
+
+/**
+ * A single dasha period with its sub-periods
+ */
+export interface DashaPeriod {
+  /** Ruling planet */
+  lord: DashaLord;
+  /** Depth in the tree */
+  level: DashaLevel;
+  /** Lords from Mahadasha down to this period */
+  path: DashaLord[];
+  /** Period start */
+  start: Date;
+  /** Period end */
+  end: Date;
+  /** Length in years */
+  durationYears: number;
+  /** Sub-periods, when computed to that depth */
+  children?: DashaPeriod[];
+}
+
+/**
+ * Dasha calculation options
+ */
+export interface DashaOptions {
+  /** Deepest level to compute (default: 'pratyantardasha') */
+  depth?: DashaLevel;
+  /** Days in a dasha year (default: 365.25) */
+  yearLength?: number;
+}
+
+/**
+ * Complete Vimshottari dasha for a birth
+ */
+export interface VimshottariDasha {
+  /** Moment of birth */
+  birthDate: Date;
+  /** Sidereal longitude of the Moon */
+  moonLongitude: number;
+  /** Moon's nakshatra (0 = Ashwini) */
+  nakshatraIndex: number;
+  /** Fraction of the nakshatra already traversed at birth */
+  nakshatraElapsed: number;
+  /** Mahadasha running at birth */
+  birthLord: DashaLord;
+  /** Years of the first Mahadasha remaining at birth */
+  balanceYears: number;
+  /** Mahadasha sequence, starting with the one running at birth */
+  periods: DashaPeriod[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Vimshottari lords in sequence, starting with Ashwini's lord
+ */
+export const DASHA_SEQUENCE: DashaLord[] = [
+  'ketu', 'venus', 'sun', 'moon', 'mars', 'rahu', 'jupiter', 'saturn', 'mercury',
+];
+
+/**
+ * Mahadasha length in years for each lord
+ */
+export const DASHA_YEARS: Record<DashaLord, number> = {
+  ketu: 7,
+  venus: 20,
+  sun: 6,
+  moon: 10,
+  mars: 7,
+  rahu: 18,
+  jupiter: 16,
+  saturn: 19,
+  mercury: 17,
+};
+
+/**
+ * Display names for each level
+ */
+export const DASHA_LEVEL_NAMES: Record<DashaLevel, string> = {
+  mahadasha: 'Mahadasha',
+  antardasha: 'Antardasha',
+  pratyantardasha: 'Pratyantardasha',
+};
+
+/** Full Vimshottari cycle in years */
+export const VIMSHOTTARI_TOTAL_YEARS = 120;
+
+const DASHA_LEVELS: DashaLevel[] = ['mahadasha', 'antardasha', 'pratyantardasha'];
+
+const MS_PER_DAY = 86400000;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Date a number of dasha years after another
+ */
+function addYears(date: Date, years: number, yearLength: number): Date {
+  return new Date(date.getTime() + years * yearLength * MS_PER_DAY);
+}
+
+/**
+ * Lords in sequence starting from a given lord
+ */
+function sequenceFrom(lord: DashaLord): DashaLord[] {
+  const index = DASHA_SEQUENCE.indexOf(lord);
+  return [...DASHA_SEQUENCE.slice(index), ...DASHA_SEQUENCE.slice(0, index)];
+}
+
+/**
+ * Split a period into its sub-periods, recursing to the requested depth
+ */
+function subdividePeriod(period: DashaPeriod, depthIndex: number, yearLength: number): DashaPeriod {
+  const levelIndex = DASHA_LEVELS.indexOf(period.level);
+  if (levelIndex >= depthIndex) return period;
+
+  const childLevel = DASHA_LEVELS[levelIndex + 1];
+  let cursor = period.start;
+  const children = sequenceFrom(period.lord).map(lord => {
+    const durationYears = (period.durationYears * DASHA_YEARS[lord]) / VIMSHOTTARI_TOTAL_YEARS;
+    const child: DashaPeriod = {
+      lord,
+      level: childLevel,
+      path: [...period.path, lord],
+      start: cursor,
+      end: addYears(cursor, durationYears, yearLength),
+      durationYears,
+    };
+    cursor = child.end;
+    return subdividePeriod(child, depthIndex, yearLength);
+  });
+
+  return { ...period, children };
+}
+
+/**
+ * Vimshottari lord of the nakshatra containing a sidereal longitude
+ */
+export function getNakshatraLord(longitude: number): DashaLord {
+  return calculateNakshatra(longitude).nakshatra.lord;
+}
+
+/**
+ * Calculate the Vimshottari dasha tree from the Moon's sidereal longitude
+ *
+ * The first Mahadasha is dated from its notional start before birth, so its
+ * sub-periods fall on the same dates as in a full-length period; periods
+ * that ended before birth are still included in its children.
+ */
+export function calculateVimshottariDasha(
+  moonLongitude: number,
+  birthDate: Date,
+  options: DashaOptions = {}
+): VimshottariDasha {
+  const { depth = 'pratyantardasha', yearLength = 365.25 } = options;
+  if (Number.isNaN(birthDate.getTime())) {
+    throw new Error('Invalid birth date for dasha calculation');
+  }
+
+  const { nakshatra, degreeInNakshatra, elapsed: nakshatraElapsed } = calculateNakshatra(moonLongitude);
+  const birthLord = nakshatra.lord;
+  const balanceYears = DASHA_YEARS[birthLord] * (1 - nakshatraElapsed);
+  const depthIndex = DASHA_LEVELS.indexOf(depth);
+
+  let cursor = addYears(birthDate, -DASHA_YEARS[birthLord] * nakshatraElapsed, yearLength);
+  const periods = sequenceFrom(birthLord).map(lord => {
+    const period: DashaPeriod = {
+      lord,
+      level: 'mahadasha',
+      path: [lord],
+      start: cursor,
+      end: addYears(cursor, DASHA_YEARS[lord], yearLength),
+      durationYears: DASHA_YEARS[lord],
+    };
+    cursor = period.end;
+    return subdividePeriod(period, depthIndex, yearLength);
+  });
+
+  return {
+    birthDate,
+    moonLongitude: (nakshatra.number - 1) * NAKSHATRA_SPAN + degreeInNakshatra,
+    nakshatraIndex: nakshatra.number - 1,
+    nakshatraElapsed,
+    birthLord,
+    balanceYears,
+    periods,
+  };
+}
+
+/**
+ * Calculate the Vimshottari dasha for chart data
+ *
+ * Tropical data is converted with the chart's ayanamsa (or the one given).
+ * The birth moment comes from `julianDay` when present (ephemeris output),
+ * otherwise from the chart's local datetime and time zone offset.
+ */
+export function calculateChartDasha(
+  rawData: RawAstrologicalData & { julianDay?: number },
+  options: DashaOptions & { ayanamsa?: AyanamsaConfig } = {}
+): VimshottariDasha {
+  const { ayanamsa, ...dashaOptions } = options;
+  const { data } = applyAyanamsa(rawData, ayanamsa ?? {
+    system: rawData.ayanamsa ?? DEFAULT_AYANAMSA,
+    customOffset: rawData.customAyanamsa,
+  });
+  const birthDate = rawData.julianDay !== undefined
+    ? dateFromJulianDay(rawData.julianDay)
+    : dateFromJulianDay(julianDayFromLocal(rawData.datetime, rawData.timezone ?? 0));
+
+  return calculateVimshottariDasha(data.planets.moon, birthDate, dashaOptions);
+}
+
+/**
+ * Periods running at a date, from Mahadasha down to the deepest computed level
+ */
+export function findActiveDashas(periods: DashaPeriod[], date: Date = new Date()): DashaPeriod[] {
+  const time = date.getTime();
+  const active = periods.find(period => period.start.getTime() <= time && time < period.end.getTime());
+  if (!active) return [];
+  return [active, ...(active.children ? findActiveDashas(active.children, date) : [])];
+}
+
+/**
+ * Flatten the dasha tree to the periods of one level
+ */
+export function getDashaPeriodsAtLevel(periods: DashaPeriod[], level: DashaLevel): DashaPeriod[] {
+  return periods.flatMap(period => (
+    period.level === level ? [period] : getDashaPeriodsAtLevel(period.children ?? [], level)
+  ));
+}
@@ -0,0 +1,150 @@
+/**
+ * ephemerisUtils.ts Reference Value Test
+ * Compares computed positions against published almanac positions and events
+ */
+
+import {
+  julianDay,
+  deltaT,
+  calculatePlanetPosition,
+  calculatePlanetPositions,
+  calculateEphemeris,
+  greenwichSiderealTime,
+} from './ephemerisUtils';
+import { calculateAscendant, calculateHouseCusps } from './houseSystemUtils';
+
+/** One arc-minute in degrees */
+const ARC_MINUTE = 1 / 60;
+
+let failures = 0;
+
+const angularGap = (a: number, b: number): number => {
+  const diff = Math.abs(((a - b) % 360 + 360) % 360);
+  return Math.min(diff, 360 - diff);
+};
+
+const check = (label: string, actual: number, expected: number, tolerance: number = ARC_MINUTE) => {
+  const gap = angularGap(actual, expected);
+  const passed = gap <= tolerance;
+  if (!passed) failures++;
+  console.log(
+    `${passed ? 'PASS' : 'FAIL'} ${label}: ${actual.toFixed(4)}° (expected ${expected.toFixed(4)}°, off by ${(gap * 60).toFixed(2)}')`
+  );
+};
+
+/** Julian Day (UT) for an instant given in Terrestrial Time */
+const fromTT = (year: number, month: number, day: number, hour: number = 0, minute: number = 0) => {
+  const jd = julianDay(year, month, day, hour, minute);
+  return jd - deltaT(jd) / 86400;
+};
+
+// Meeus, Astronomical Algorithms, worked examples
+console.log('=== Astronomical Algorithms Examples ===');
+check('Sun 1992-10-13 0h TT (ex. 25.b)', calculatePlanetPosition('sun', fromTT(1992, 10, 13)).longitude, 199.906060);
+check('Moon 1992-04-12 0h TT (ex. 47.a)', calculatePlanetPosition('moon', fromTT(1992, 4, 12)).longitude, 133.167265);
+check('Venus 1992-12-20 0h TT (ex. 33.a)', calculatePlanetPosition('venus', fromTT(1992, 12, 20)).longitude, 313.08102);
+check('GMST 1987-04-10 0h UT (ex. 12.a)', greenwichSiderealTime(julianDay(1987, 4, 10)), 197.693195, 0.01);
+
+// Equinoxes and solstices (Astronomical Almanac, UT)
+console.log('\n=== Equinoxes and Solstices ===');
+check('March equinox 2000-03-20 07:35', calculatePlanetPosition('sun', julianDay(2000, 3, 20, 7, 35)).longitude, 0);
+check('June solstice 2020-06-20 21:43', calculatePlanetPosition('sun', julianDay(2020, 6, 20, 21, 43)).longitude, 90);
+check('September equinox 2022-09-23 01:04', calculatePlanetPosition('sun', julianDay(2022, 9, 23, 1, 4)).longitude, 180);
+check('December solstice 2021-12-21 15:59', calculatePlanetPosition('sun', julianDay(2021, 12, 21, 15, 59)).longitude, 270);
+
+// Lunations and conjunctions (geocentric conjunction in longitude)
+console.log('\n=== Conjunctions and Oppositions ===');
+const eclipse2017 = calculatePlanetPositions(julianDay(2017, 8, 21, 18, 30));
+check('New moon 2017-08-21 18:30', eclipse2017.moon.longitude, eclipse2017.sun.longitude);
+const eclipse2019 = calculatePlanetPositions(julianDay(2019, 1, 21, 5, 16));
+check('Full moon 2019-01-21 05:16', eclipse2019.moon.longitude, eclipse2019.sun.longitude + 180);
+const greatConjunction = calculatePlanetPositions(julianDay(2020, 12, 21, 18, 20));
+check('Jupiter 2020-12-21 18:20 (0°29\' Aquarius)', greatConjunction.jupiter.longitude, 300.483);
+check('Saturn 2020-12-21 18:20 (0°29\' Aquarius)', greatConjunction.saturn.longitude, 300.483);
+const mercuryTransit = calculatePlanetPositions(julianDay(2019, 11, 11, 15, 20));
+check('Mercury inferior conjunction 2019-11-11 15:20', mercuryTransit.mercury.longitude, mercuryTransit.sun.longitude);
+const venusTransit = calculatePlanetPositions(julianDay(2012, 6, 6, 1, 9));
+check('Venus inferior conjunction 2012-06-06 01:09', venusTransit.venus.longitude, venusTransit.sun.longitude);
+const marsOpposition = calculatePlanetPositions(julianDay(2003, 8, 28, 17, 56));
+check('Mars opposition 2003-08-28 17:56', marsOpposition.mars.longitude, marsOpposition.sun.longitude + 180);
+
+// Ingresses of the outer planets
+console.log('\n=== Outer Planet Ingresses ===');
+check('Uranus enters Taurus 2019-03-06 08:27', calculatePlanetPosition('uranus', julianDay(2019, 3, 6, 8, 27)).longitude, 30);
+check('Neptune enters Pisces 2012-02-03', calculatePlanetPosition('neptune', julianDay(2012, 2, 3, 19)).longitude, 330);
+check('Pluto enters Aquarius 2023-03-23', calculatePlanetPosition('pluto', julianDay(2023, 3, 23, 12)).longitude, 300);
+
+// Edges of the supported range (Astronomy Engine 2.1, apparent longitudes of date)
+console.log('\n=== Range Edges ===');
+const rangeReferences: [string, number, number, number, number, Record<string, number>][] = [
+  ['1800-01-01 0h', 1800, 1, 1, 0, {
+    sun: 280.4293, moon: 348.4691, mercury: 268.3446, venus: 233.6276, mars: 244.3362,
+    jupiter: 84.5271, saturn: 128.7977, uranus: 177.1263, neptune: 226.6169, pluto: 331.4167,
+  }],
+  ['2100-12-01 0h', 2100, 12, 1, 0, {
+    sun: 248.8439, moon: 241.1106, mercury: 250.3448, venus: 226.9504, mars: 232.278,
+    jupiter: 221.1315, saturn: 214.0952, uranus: 22.1046, neptune: 169.4145, pluto: 33.7087,
+  }],
+];
+rangeReferences.forEach(([label, year, month, day, hour, expected]) => {
+  const positions = calculatePlanetPositions(julianDay(year, month, day, hour));
+  Object.entries(expected).forEach(([planet, longitude]) => {
+    check(`${planet} ${label}`, positions[planet as keyof typeof positions].longitude, longitude);
+  });
+});
+
+// Retrograde flags
+console.log('\n=== Retrograde Flags ===');
+const retrogradeChecks: [string, boolean, boolean][] = [
+  ['Mercury retrograde at 2019-11-11 transit', mercuryTransit.mercury.isRetrograde, true],
+  ['Mars retrograde at 2003 opposition', marsOpposition.mars.isRetrograde, true],
+  ['Jupiter direct at 2020 great conjunction', greatConjunction.jupiter.isRetrograde, false],
+  ['Mean Rahu always retrograde', greatConjunction.rahu.isRetrograde, true],
+];
+retrogradeChecks.forEach(([label, actual, expected]) => {
+  if (actual !== expected) failures++;
+  console.log(`${actual === expected ? 'PASS' : 'FAIL'} ${label}: ${actual}`);
+});
+
+// Angles: with RAMC 0° on the equator Cancer rises; with RAMC 90° Libra rises
+console.log('\n=== Chart Cast ===');
+check('Ascendant at RAMC 0°, latitude 0°', calculateAscendant(0, 0, 23.44), 90, 0.0001);
+check('Ascendant at RAMC 90°, latitude 0°', calculateAscendant(90, 0, 23.44), 180, 0.0001);
+const chart = calculateEphemeris({
+  datetime: '1990-07-15T14:30',
+  timezone: 5.5,
+  latitude: 28.6139,
+  longitude: 77.209,
+  location: 'New Delhi, India',
+});
+console.log('Ascendant:', chart.ascendant.toFixed(4), 'MC:', chart.midheaven.toFixed(4));
+console.log('House cusps:', chart.houseCusps.map(cusp => cusp.toFixed(2)).join(', '));
+console.log('Retrograde:', Object.entries(chart.retrograde).filter(([, retro]) => retro).map(([planet]) => planet).join(', '));
+
+// Houses: a Placidus cusp sits at its stated fraction of its own semi-arc
+console.log('\n=== House Systems ===');
+const angles = { siderealTime: 123.4, latitude: 51.5, obliquity: 23.44, ascendant: calculateAscendant(123.4, 51.5, 23.44) };
+const placidus = calculateHouseCusps('placidus', angles);
+const cusp11 = placidus.cusps[10] * Math.PI / 180;
+const obliquityRad = angles.obliquity * Math.PI / 180;
+const rightAscension = Math.atan2(Math.sin(cusp11) * Math.cos(obliquityRad), Math.cos(cusp11)) * 180 / Math.PI;
+const declination = Math.asin(Math.sin(obliquityRad) * Math.sin(cusp11));
+const diurnalArc = Math.acos(-Math.tan(angles.latitude * Math.PI / 180) * Math.tan(declination)) * 180 / Math.PI;
+check('Placidus cusp 11 at a third of its diurnal arc', rightAscension - angles.siderealTime, diurnalArc / 3, 0.0001);
+const equatorAngles = { ...angles, latitude: 0, ascendant: calculateAscendant(123.4, 0, 23.44) };
+check('Koch equals Placidus on the equator (cusp 12)',
+  calculateHouseCusps('koch', equatorAngles).cusps[11], calculateHouseCusps('placidus', equatorAngles).cusps[11], 0.0001);
+check('Whole sign cusp 1 at the start of the rising sign', calculateHouseCusps('whole_sign', { ascendant: 100.5 }).cusps[0], 90, 0);
+const polar = calculateHouseCusps('placidus', { ...angles, latitude: 70, ascendant: calculateAscendant(123.4, 70, 23.44) });
+if (polar.system !== 'sripati' || !polar.isFallback) failures++;
+console.log(`${polar.isFallback ? 'PASS' : 'FAIL'} Placidus at 70°N falls back to ${polar.system}`);
+
+try {
+  calculateEphemeris({ datetime: '1750-01-01T00:00', timezone: 0, latitude: 0, longitude: 0 });
+  failures++;
+  console.log('FAIL Out-of-range date was accepted');
+} catch (error) {
+  console.log('PASS Out-of-range date rejected:', (error as Error).message);
+}
+
+console.log(`\n=== ${failures === 0 ? 'All Tests Passed' : `${failures} Test(s) Failed`} ===`);
@@ -0,0 +1,836 @@
+/**
+ * Corp Astro UI Library - Planetary Ephemeris
+ *
+ * Offline geocentric ephemeris for the Vedic planets, the lunar nodes, the
+ * ascendant and house cusps. Everything is computed in pure TypeScript from
+ * analytical series, so charts can be cast inside the app without a network.
+ *
+ * Models:
+ * - Sun and Mercury to Neptune: truncated VSOP87B (see vsop87Data),
+ *   precessed to the ecliptic of date (Meeus, Astronomical Algorithms
+ *   ch. 21) and corrected for light-time and aberration
+ * - Moon: Meeus ch. 47, truncated ELP-2000/82 (about 10")
+ * - Pluto: periodic series least-squares fitted to a numerical integration
+ *   over 1790-2110
+ * - Lunar nodes: mean node, or true node with the principal oscillations
+ * - Delta T: Espenak-Meeus polynomials
+ *
+ * Positions are apparent tropical longitudes referred to the true equinox of
+ * date, within a fraction of an arc-minute between 1800 and 2100. Sidereal
+ * conversion is left to the caller.
+ *
+ * @module ephemerisUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { VedicPlanet } from './NorthIndianChart';
+import type { RawAstrologicalData } from './NorthIndianChartDataProcessor';
+import { VSOP87_SERIES, VsopBody, VsopCoordinate } from './vsop87Data';
+import {
+  HouseSystem,
+  DEFAULT_HOUSE_SYSTEM,
+  calculateAscendant,
+  calculateMidheaven,
+  calculateHouseCusps,
+} from './houseSystemUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Birth (or event) details needed to cast a chart
+ */
+export interface EphemerisInput {
+  /** Local civil date and time, e.g. '1990-07-15T14:30' or '1990-07-15T14:30:00' */
+  datetime: string;
+  /** Offset of local time from UTC in hours, east positive (IST = 5.5) */
+  timezone: number;
+  /** Geographic latitude in degrees, north positive */
+  latitude: number;
+  /** Geographic longitude in degrees, east positive */
+  longitude: number;
+  /** Location label carried into the chart */
+  location?: string;
+  /** Chart title carried into the chart */
+  title?: string;
+  /** Lunar node model (default: 'mean') */
+  nodeType?: 'mean' | 'true';
+  /** House system for the cusps (default: 'equal') */
+  houseSystem?: HouseSystem;
+}
+
+/**
+ * Geocentric position of a single body
+ */
+export interface EphemerisPosition {
+  /** Apparent ecliptic longitude (0-360) */
+  longitude: number;
+  /** Ecliptic latitude in degrees */
+  latitude: number;
+  /** Distance from Earth in AU */
+  distance: number;
+  /** Daily motion in longitude (degrees/day, negative when retrograde) */
+  speed: number;
+  /** Whether the body is moving backwards through the zodiac */
+  isRetrograde: boolean;
+}
+
+/**
+ * Full ephemeris output, compatible with the chart data processor
+ */
+export interface EphemerisResult extends RawAstrologicalData {
+  /** House cusps in the selected house system */
+  houseCusps: number[];
+  /** House system the cusps were computed with (after any polar fallback) */
+  houseSystem: HouseSystem;
+  /** Julian Day (UT) of the chart moment */
+  julianDay: number;
+  /** Detailed positions per planet */
+  positions: Record<VedicPlanet, EphemerisPosition>;
+  /** Retrograde flags per planet */
+  retrograde: Record<VedicPlanet, boolean>;
+  /** Midheaven (MC) longitude */
+  midheaven: number;
+  /** Local apparent sidereal time in degrees (RAMC) */
+  siderealTime: number;
+  /** True obliquity of the ecliptic in degrees */
+  obliquity: number;
+}
+
+type HeliocentricPlanet = 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn' | 'uranus' | 'neptune';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Supported calendar years
+ */
+export const EPHEMERIS_RANGE = { minYear: 1800, maxYear: 2100 } as const;
+
+/**
+ * Julian Day of the J2000.0 epoch
+ */
+export const J2000 = 2451545.0;
+
+const DEG = Math.PI / 180;
+
+/** Light-time for one AU, in days */
+const LIGHT_TIME_PER_AU = 0.0057755183;
+
+/**
+ * Secular part of Pluto's heliocentric J2000 ecliptic longitude, latitude
+ * (degrees) and radius vector (AU), as polynomials in T, Julian centuries
+ * from J2000 TT
+ */
+const PLUTO_POLYNOMIALS = {
+  longitude: [242.391372, 151.221636, -1.963277, -1.259846],
+  latitude: [-5.107723, -2.059972, 0.695231, 0.420825],
+  radius: [44.079691, 6.206074, -1.957485, -1.313678],
+} as const;
+
+/**
+ * Periodic terms of Pluto's position, fitted over 1790-2110:
+ * [J, S, P, N, longitude sin, cos (deg), latitude sin, cos (deg), radius sin, cos (AU)],
+ * where the argument is J·Jupiter + S·Saturn + P·Pluto + N·Neptune mean longitude
+ */
+const PLUTO_TERMS: readonly (readonly number[])[] = [
+  [0, 0, 1, 0, -20.08379, 19.72116, -5.32396, -14.97914, 6.385924, 6.838844],
+  [0, 0, 2, 0, 0.8802, -5.00495, 3.5261, 1.66546, -1.186463, -0.040147],
+  [0, 0, 3, 0, 0.58411, 1.19566, -1.05648, 0.32696, 0.158626, -0.147703],
+  [0, 0, 4, 0, -0.35886, -0.18255, 0.17509, -0.28863, -0.003161, 0.04647],
+  [0, 0, 5, 0, 0.12746, -0.02388, 0.01885, 0.10535, -0.007633, -0.009239],
+  [0, 0, 6, 0, -0.03215, 0.03076, -0.02567, -0.02174, 0.002969, -0.002136],
+  [0, 0, 7, 0, 0.00473, -0.01166, 0.00926, -0.00067, -0.001941, 0.004424],
+  [0, 0, 8, 0, 0.00196, 0.00335, -0.00203, 0.00259, 0.001009, -0.001533],
+  [0, 0, 9, 0, -0.00184, -0.00069, 0.00013, -0.00121, -0.000061, 0.000091],
+  [0, 0, 10, 0, 0.00065, -0.00027, 0.00024, 0.00041, 0.000024, -0.000065],
+  [1, 0, -1, 0, 0.00699, -0.00002, 0.00031, 0.00037, 0.000111, 0.004669],
+  [0, 1, -1, 0, 0.00648, -0.00262, -0.00008, 0.00204, 0.00308, 0.003811],
+  [0, 0, -2, 1, -4.7196, 4.34761, 1.60946, -1.512, -4.73501, 4.244889],
+  [0, 1, -2, 0, -0.00399, 0.0029, 0.00022, -0.00179, -0.003351, -0.00084],
+  [1, 0, -2, 0, -0.00169, -0.00175, -0.00019, 0.00081, 0.000848, -0.000762],
+];
+
+/**
+ * Periodic terms for the Moon's longitude and distance (Meeus table 47.A):
+ * [D, M, M', F, Σl (1e-6 deg), Σr (1e-3 km)]
+ */
+const MOON_LONGITUDE_TERMS: readonly (readonly number[])[] = [
+  [0, 0, 1, 0, 6288774, -20905355],
+  [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968],
+  [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888],
+  [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158],
+  [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733],
+  [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620],
+  [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755],
+  [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0],
+  [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782],
+  [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636],
+  [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824],
+  [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675],
+  [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445],
+  [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403],
+  [0, 1, -2, 0, -2689, -7003],
+  [2, 0, -1, 2, -2602, 0],
+  [2, -1, -2, 0, 2390, 10056],
+  [1, 0, 1, 0, -2348, 6322],
+  [2, -2, 0, 0, 2236, -9884],
+  [0, 1, 2, 0, -2120, 5751],
+  [0, 2, 0, 0, -2069, 0],
+  [2, -2, -1, 0, 2048, -4950],
+  [2, 0, 1, -2, -1773, 4130],
+  [2, 0, 0, 2, -1595, 0],
+  [4, -1, -1, 0, 1215, -3958],
+  [0, 0, 2, 2, -1110, 0],
+  [3, 0, -1, 0, -892, 3258],
+  [2, 1, 1, 0, -810, 2616],
+  [4, -1, -2, 0, 759, -1897],
+  [0, 2, -1, 0, -713, -2117],
+  [2, 2, -1, 0, -700, 2354],
+  [2, 1, -2, 0, 691, 0],
+  [2, -1, 0, -2, 596, 0],
+  [4, 0, 1, 0, 549, -1423],
+  [0, 0, 4, 0, 537, -1117],
+  [4, -1, 0, 0, 520, -1571],
+  [1, 0, -2, 0, -487, -1739],
+  [2, 1, 0, -2, -399, 0],
+  [0, 0, 2, -2, -381, -4421],
+  [1, 1, 1, 0, 351, 0],
+  [3, 0, -2, 0, -340, 0],
+  [4, 0, -3, 0, 330, 0],
+  [2, -1, 2, 0, 327, 0],
+  [0, 2, 1, 0, -323, 1165],
+  [1, 1, -1, 0, 299, 0],
+  [2, 0, 3, 0, 294, 0],
+  [2, 0, -1, -2, 0, 8752],
+];
+
+/**
+ * Periodic terms for the Moon's latitude (Meeus table 47.B):
+ * [D, M, M', F, Σb (1e-6 deg)]
+ */
+const MOON_LATITUDE_TERMS: readonly (readonly number[])[] = [
+  [0, 0, 0, 1, 5128122],
+  [0, 0, 1, 1, 280602],
+  [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237],
+  [2, 0, -1, 1, 55413],
+  [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573],
+  [0, 0, 2, 1, 17198],
+  [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822],
+  [2, -1, 0, -1, 8216],
+  [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200],
+  [2, 1, 0, -1, -3359],
+  [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211],
+  [2, -1, -1, -1, 2065],
+  [0, 1, -1, -1, -1870],
+  [4, 0, -1, -1, 1828],
+  [0, 1, 0, 1, -1794],
+  [0, 0, 0, 3, -1749],
+  [0, 1, -1, 1, -1565],
+  [1, 0, 0, 1, -1491],
+  [0, 1, 1, 1, -1475],
+  [0, 1, 1, -1, -1410],
+  [0, 1, 0, -1, -1344],
+  [1, 0, 0, -1, -1335],
+  [0, 0, 3, 1, 1107],
+  [4, 0, 0, -1, 1021],
+  [4, 0, -1, 1, 833],
+  [0, 0, 1, -3, 777],
+  [4, 0, -2, 1, 671],
+  [2, 0, 0, -3, 607],
+  [2, 0, 2, -1, 596],
+  [2, -1, 1, -1, 491],
+  [2, 0, -2, 1, -451],
+  [0, 0, 3, -1, 439],
+  [2, 0, 2, 1, 422],
+  [2, 0, -3, -1, 421],
+  [2, 1, -1, 1, -366],
+  [2, 1, 0, 1, -351],
+  [4, 0, 0, 1, 331],
+  [2, -1, 1, 1, 315],
+  [2, -2, 0, -1, 302],
+  [0, 0, 1, 3, -283],
+  [2, 1, 1, -1, -229],
+  [1, 1, 0, -1, 223],
+  [1, 1, 0, 1, 223],
+  [0, 1, -2, -1, -220],
+  [2, 1, -1, -1, -220],
+  [1, 0, 1, 1, -185],
+  [2, -1, -2, -1, 181],
+  [0, 1, 2, 1, -177],
+  [4, 0, -2, -1, 176],
+  [4, -1, -1, -1, 166],
+  [1, 0, 1, -1, -164],
+  [4, 0, 1, -1, 132],
+  [1, 0, -1, -1, -119],
+  [4, -1, 0, -1, 115],
+  [2, -2, 0, 1, 107],
+];
+
+/**
+ * Bodies returned by the ephemeris, in traditional order
+ */
+export const EPHEMERIS_PLANETS: VedicPlanet[] = [
+  'sun',
+  'moon',
+  'mercury',
+  'venus',
+  'mars',
+  'jupiter',
+  'saturn',
+  'rahu',
+  'ketu',
+  'uranus',
+  'neptune',
+  'pluto',
+];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+const sinD = (degrees: number): number => Math.sin(degrees * DEG);
+const cosD = (degrees: number): number => Math.cos(degrees * DEG);
+const atan2D = (y: number, x: number): number => Math.atan2(y, x) / DEG;
+
+/**
+ * Normalize an angle to the 0-360 range
+ */
+function normalizeAngle(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Signed difference a - b folded into (-180, 180]
+ */
+function angleDifference(a: number, b: number): number {
+  const diff = normalizeAngle(a - b);
+  return diff > 180 ? diff - 360 : diff;
+}
+
+/**
+ * Julian Day for a Gregorian calendar date (UT), Meeus ch. 7
+ */
+export function julianDay(
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  minute: number = 0,
+  second: number = 0
+): number {
+  let y = year;
+  let m = month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+  const a = Math.floor(y / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  const dayFraction = (hour + minute / 60 + second / 3600) / 24;
+  return Math.floor(365.25 * (y + 4716)) + Math.floor(30.6001 * (m + 1)) + day + dayFraction + b - 1524.5;
+}
+
+/**
+ * Julian Day (UT) for a JavaScript Date
+ */
+export function julianDayFromDate(date: Date): number {
+  return date.getTime() / 86400000 + 2440587.5;
+}
+
+/**
+ * JavaScript Date for a Julian Day (UT)
+ */
+export function dateFromJulianDay(jd: number): Date {
+  return new Date((jd - 2440587.5) * 86400000);
+}
+
+/**
+ * Convert local civil time to a Julian Day (UT)
+ */
+export function julianDayFromLocal(datetime: string, timezone: number): number {
+  const match = /^(-?\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?)?$/.exec(datetime.trim());
+  if (!match) {
+    throw new Error(`Invalid datetime: ${datetime}. Expected YYYY-MM-DDTHH:mm[:ss]`);
+  }
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) {
+    throw new Error(`Invalid datetime: ${datetime}`);
+  }
+  const localJd = julianDay(Number(year), Number(month), Number(day), Number(hour), Number(minute), Number(second));
+  return localJd - timezone / 24;
+}
+
+/**
+ * Decimal year for a Julian Day
+ */
+function decimalYear(jd: number): number {
+  return 2000 + (jd - J2000) / 365.25;
+}
+
+/**
+ * Delta T (TT - UT) in seconds, Espenak-Meeus polynomials
+ */
+export function deltaT(jd: number): number {
+  const y = decimalYear(jd);
+
+  if (y < 1800) {
+    const u = (y - 1820) / 100;
+    return -20 + 32 * u * u;
+  }
+  if (y < 1860) {
+    const t = y - 1800;
+    return 13.72 - 0.332447 * t + 0.0068612 * t ** 2 + 0.0041116 * t ** 3 - 0.00037436 * t ** 4
+      + 0.0000121272 * t ** 5 - 0.0000001699 * t ** 6 + 0.000000000875 * t ** 7;
+  }
+  if (y < 1900) {
+    const t = y - 1860;
+    return 7.62 + 0.5737 * t - 0.251754 * t ** 2 + 0.01680668 * t ** 3 - 0.0004473624 * t ** 4 + t ** 5 / 233174;
+  }
+  if (y < 1920) {
+    const t = y - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+  if (y < 1941) {
+    const t = y - 1920;
+    return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3;
+  }
+  if (y < 1961) {
+    const t = y - 1950;
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+  }
+  if (y < 1986) {
+    const t = y - 1975;
+    return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+  }
+  if (y < 2005) {
+    const t = y - 2000;
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+  }
+  if (y < 2050) {
+    const t = y - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t ** 2;
+  }
+  const u = (y - 1820) / 100;
+  return -20 + 32 * u * u - 0.5628 * (2150 - y);
+}
+
+/**
+ * Nutation in longitude and obliquity (degrees), abridged IAU 1980 series
+ */
+export function nutation(jdTT: number): { longitude: number; obliquity: number } {
+  const T = (jdTT - J2000) / 36525;
+  const omega = 125.04452 - 1934.136261 * T;
+  const sunMean = 280.4665 + 36000.7698 * T;
+  const moonMean = 218.3165 + 481267.8813 * T;
+  const longitude = (-17.2 * sinD(omega) - 1.32 * sinD(2 * sunMean) - 0.23 * sinD(2 * moonMean) + 0.21 * sinD(2 * omega)) / 3600;
+  const obliquity = (9.2 * cosD(omega) + 0.57 * cosD(2 * sunMean) + 0.1 * cosD(2 * moonMean) - 0.09 * cosD(2 * omega)) / 3600;
+  return { longitude, obliquity };
+}
+
+/**
+ * True obliquity of the ecliptic (degrees)
+ */
+export function obliquityOfEcliptic(jdTT: number): number {
+  const T = (jdTT - J2000) / 36525;
+  const mean = 23 + 26 / 60 + (21.448 - 46.815 * T - 0.00059 * T * T + 0.001813 * T ** 3) / 3600;
+  return mean + nutation(jdTT).obliquity;
+}
+
+/**
+ * Greenwich apparent sidereal time in degrees
+ */
+export function greenwichSiderealTime(jdUT: number): number {
+  const T = (jdUT - J2000) / 36525;
+  const mean = 280.46061837 + 360.98564736629 * (jdUT - J2000) + 0.000387933 * T * T - T ** 3 / 38710000;
+  const jdTT = jdUT + deltaT(jdUT) / 86400;
+  const equationOfEquinoxes = nutation(jdTT).longitude * cosD(obliquityOfEcliptic(jdTT));
+  return normalizeAngle(mean + equationOfEquinoxes);
+}
+
+/**
+ * Local apparent sidereal time (RAMC) in degrees
+ */
+export function localSiderealTime(jdUT: number, longitude: number): number {
+  return normalizeAngle(greenwichSiderealTime(jdUT) + longitude);
+}
+
+/**
+ * Convert ecliptic coordinates to right ascension and declination (degrees)
+ */
+export function eclipticToEquatorial(
+  longitude: number,
+  latitude: number,
+  obliquity: number
+): { rightAscension: number; declination: number } {
+  const rightAscension = normalizeAngle(atan2D(
+    sinD(longitude) * cosD(obliquity) - Math.tan(latitude * DEG) * sinD(obliquity),
+    cosD(longitude)
+  ));
+  const declination = Math.asin(
+    sinD(latitude) * cosD(obliquity) + cosD(latitude) * sinD(obliquity) * sinD(longitude)
+  ) / DEG;
+  return { rightAscension, declination };
+}
+
+// ============================================================================
+// BODY MODELS
+// ============================================================================
+
+/**
+ * Evaluate one VSOP87 coordinate at t Julian millennia from J2000 TT
+ */
+function vsopCoordinate(coordinate: VsopCoordinate, t: number): number {
+  let value = 0;
+  let power = 1;
+  coordinate.forEach(terms => {
+    let sum = 0;
+    terms.forEach(([amplitude, phase, frequency]) => {
+      sum += amplitude * Math.cos(phase + frequency * t);
+    });
+    value += sum * power;
+    power *= t;
+  });
+  return value;
+}
+
+/**
+ * Heliocentric J2000 ecliptic coordinates (AU) of a VSOP87 body
+ */
+function heliocentricVsop(body: VsopBody, jdTT: number): { x: number; y: number; z: number } {
+  const t = (jdTT - J2000) / 365250;
+  const [longitudeSeries, latitudeSeries, radiusSeries] = VSOP87_SERIES[body];
+  const lon = vsopCoordinate(longitudeSeries, t);
+  const lat = vsopCoordinate(latitudeSeries, t);
+  const r = vsopCoordinate(radiusSeries, t);
+  return {
+    x: r * Math.cos(lat) * Math.cos(lon),
+    y: r * Math.cos(lat) * Math.sin(lon),
+    z: r * Math.sin(lat),
+  };
+}
+
+/**
+ * Heliocentric J2000 ecliptic coordinates (AU) of Pluto
+ */
+function heliocentricPluto(jdTT: number): { x: number; y: number; z: number } {
+  const T = (jdTT - J2000) / 36525;
+  const J = 34.35 + 3034.9057 * T;
+  const S = 50.08 + 1222.1138 * T;
+  const P = 238.96 + 144.96 * T;
+  const N = 304.88 + 218.46 * T;
+  const polynomial = (coefficients: readonly number[]) =>
+    coefficients.reduce((sum, coefficient, power) => sum + coefficient * T ** power, 0);
+
+  let lon = polynomial(PLUTO_POLYNOMIALS.longitude);
+  let lat = polynomial(PLUTO_POLYNOMIALS.latitude);
+  let r = polynomial(PLUTO_POLYNOMIALS.radius);
+  PLUTO_TERMS.forEach(([j, s, p, n, lonSin, lonCos, latSin, latCos, rSin, rCos]) => {
+    const argument = j * J + s * S + p * P + n * N;
+    const sin = sinD(argument);
+    const cos = cosD(argument);
+    lon += lonSin * sin + lonCos * cos;
+    lat += latSin * sin + latCos * cos;
+    r += rSin * sin + rCos * cos;
+  });
+
+  return {
+    x: r * cosD(lat) * cosD(lon),
+    y: r * cosD(lat) * sinD(lon),
+    z: r * sinD(lat),
+  };
+}
+
+/**
+ * Precess a J2000 ecliptic vector to the mean ecliptic and equinox of date,
+ * Meeus ch. 21 (longitude and latitude in degrees, distance in AU)
+ */
+function eclipticOfDate(
+  vector: { x: number; y: number; z: number },
+  jdTT: number
+): { longitude: number; latitude: number; distance: number } {
+  const t = (jdTT - J2000) / 36525;
+  const eta = (47.0029 - 0.03302 * t + 0.00006 * t * t) * t / 3600;
+  const pi = 174.876384 - (869.8089 * t - 0.03536 * t * t) / 3600;
+  const p = (5029.0966 * t + 1.11113 * t * t - 0.000006 * t ** 3) / 3600;
+
+  const distance = Math.sqrt(vector.x ** 2 + vector.y ** 2 + vector.z ** 2);
+  const lon0 = atan2D(vector.y, vector.x);
+  const lat0 = Math.asin(vector.z / distance) / DEG;
+  const a = cosD(eta) * cosD(lat0) * sinD(pi - lon0) - sinD(eta) * sinD(lat0);
+  const b = cosD(lat0) * cosD(pi - lon0);
+  const c = cosD(eta) * sinD(lat0) + sinD(eta) * cosD(lat0) * sinD(pi - lon0);
+
+  return {
+    longitude: normalizeAngle(p + pi - atan2D(a, b)),
+    latitude: Math.asin(c) / DEG,
+    distance,
+  };
+}
+
+/**
+ * Heliocentric J2000 ecliptic coordinates of a planet
+ */
+function heliocentricPlanet(planet: HeliocentricPlanet | 'pluto', jdTT: number): { x: number; y: number; z: number } {
+  return planet === 'pluto' ? heliocentricPluto(jdTT) : heliocentricVsop(planet, jdTT);
+}
+
+/**
+ * Geocentric position of the Sun or a planet on the mean ecliptic of date
+ *
+ * Both bodies are taken at the instant the light left the planet, which
+ * corrects for light-time and, to first order, for aberration.
+ */
+function geocentricPlanet(
+  planet: HeliocentricPlanet | 'pluto' | 'sun',
+  jdTT: number
+): { longitude: number; latitude: number; distance: number } {
+  let lightTime = 0;
+  let vector = { x: 0, y: 0, z: 0 };
+  for (let iteration = 0; iteration < 3; iteration++) {
+    const earth = heliocentricVsop('earth', jdTT - lightTime);
+    const helio = planet === 'sun' ? { x: 0, y: 0, z: 0 } : heliocentricPlanet(planet, jdTT - lightTime);
+    vector = { x: helio.x - earth.x, y: helio.y - earth.y, z: helio.z - earth.z };
+    lightTime = Math.sqrt(vector.x ** 2 + vector.y ** 2 + vector.z ** 2) * LIGHT_TIME_PER_AU;
+  }
+  return eclipticOfDate(vector, jdTT);
+}
+
+/**
+ * Geocentric Moon, Meeus ch. 47 (longitude of date, distance in km)
+ */
+function moonGeometric(jdTT: number): { longitude: number; latitude: number; distance: number } {
+  const T = (jdTT - J2000) / 36525;
+  const Lp = 218.3164477 + 481267.88123421 * T - 0.0015786 * T ** 2 + T ** 3 / 538841 - T ** 4 / 65194000;
+  const D = 297.8501921 + 445267.1114034 * T - 0.0018819 * T ** 2 + T ** 3 / 545868 - T ** 4 / 113065000;
+  const M = 357.5291092 + 35999.0502909 * T - 0.0001536 * T ** 2 + T ** 3 / 24490000;
+  const Mp = 134.9633964 + 477198.8675055 * T + 0.0087414 * T ** 2 + T ** 3 / 69699 - T ** 4 / 14712000;
+  const F = 93.272095 + 483202.0175233 * T - 0.0036539 * T ** 2 - T ** 3 / 3526000 + T ** 4 / 863310000;
+  const A1 = 119.75 + 131.849 * T;
+  const A2 = 53.09 + 479264.29 * T;
+  const A3 = 313.45 + 481266.484 * T;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+
+  let sumL = 0;
+  let sumR = 0;
+  for (const [d, m, mp, f, l, r] of MOON_LONGITUDE_TERMS) {
+    const arg = d * D + m * M + mp * Mp + f * F;
+    const eFactor = Math.abs(m) === 2 ? E * E : Math.abs(m) === 1 ? E : 1;
+    sumL += l * eFactor * sinD(arg);
+    sumR += r * eFactor * cosD(arg);
+  }
+
+  let sumB = 0;
+  for (const [d, m, mp, f, b] of MOON_LATITUDE_TERMS) {
+    const arg = d * D + m * M + mp * Mp + f * F;
+    const eFactor = Math.abs(m) === 2 ? E * E : Math.abs(m) === 1 ? E : 1;
+    sumB += b * eFactor * sinD(arg);
+  }
+
+  sumL += 3958 * sinD(A1) + 1962 * sinD(Lp - F) + 318 * sinD(A2);
+  sumB += -2235 * sinD(Lp) + 382 * sinD(A3) + 175 * sinD(A1 - F) + 175 * sinD(A1 + F)
+    + 127 * sinD(Lp - Mp) - 115 * sinD(Lp + Mp);
+
+  return {
+    longitude: normalizeAngle(Lp + sumL / 1e6),
+    latitude: sumB / 1e6,
+    distance: 385000.56 + sumR / 1000,
+  };
+}
+
+/**
+ * Longitude of the Moon's ascending node (Rahu)
+ */
+function lunarNode(jdTT: number, nodeType: 'mean' | 'true'): number {
+  const T = (jdTT - J2000) / 36525;
+  const mean = 125.0445479 - 1934.1362891 * T + 0.0020754 * T ** 2 + T ** 3 / 467441 - T ** 4 / 60616000;
+  if (nodeType === 'mean') {
+    return normalizeAngle(mean);
+  }
+  const D = 297.8502042 + 445267.1115168 * T;
+  const M = 357.5291092 + 35999.0502909 * T;
+  const Mp = 134.9634114 + 477198.8676313 * T;
+  const F = 93.2720993 + 483202.0175273 * T;
+  return normalizeAngle(
+    mean
+      - 1.4979 * sinD(2 * (D - F))
+      - 0.15 * sinD(M)
+      - 0.1226 * sinD(2 * D)
+      + 0.1176 * sinD(2 * F)
+      - 0.0801 * sinD(2 * (Mp - F))
+  );
+}
+
+/**
+ * Apparent geocentric longitude, latitude and distance of a body at a TT instant
+ */
+function bodyPosition(
+  planet: VedicPlanet,
+  jdTT: number,
+  nodeType: 'mean' | 'true'
+): { longitude: number; latitude: number; distance: number } {
+  const nutationInLongitude = nutation(jdTT).longitude;
+
+  switch (planet) {
+    case 'moon': {
+      const moon = moonGeometric(jdTT);
+      return {
+        longitude: normalizeAngle(moon.longitude + nutationInLongitude),
+        latitude: moon.latitude,
+        distance: moon.distance / 149597870.7,
+      };
+    }
+    case 'rahu':
+      return { longitude: normalizeAngle(lunarNode(jdTT, nodeType) + nutationInLongitude), latitude: 0, distance: 0 };
+    case 'ketu':
+      return { longitude: normalizeAngle(lunarNode(jdTT, nodeType) + 180 + nutationInLongitude), latitude: 0, distance: 0 };
+    default: {
+      const position = geocentricPlanet(planet, jdTT);
+      return { ...position, longitude: normalizeAngle(position.longitude + nutationInLongitude) };
+    }
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Check that a Julian Day falls within the supported range
+ */
+function assertInRange(jdUT: number): void {
+  const year = decimalYear(jdUT);
+  if (year < EPHEMERIS_RANGE.minYear || year >= EPHEMERIS_RANGE.maxYear + 1) {
+    throw new Error(
+      `Date outside ephemeris range (${EPHEMERIS_RANGE.minYear}-${EPHEMERIS_RANGE.maxYear}): ${dateFromJulianDay(jdUT).toISOString()}`
+    );
+  }
+}
+
+/**
+ * Apparent tropical position of one body at a UT instant, including its speed
+ */
+export function calculatePlanetPosition(
+  planet: VedicPlanet,
+  jdUT: number,
+  nodeType: 'mean' | 'true' = 'mean'
+): EphemerisPosition {
+  const jdTT = jdUT + deltaT(jdUT) / 86400;
+  const position = bodyPosition(planet, jdTT, nodeType);
+
+  // Central difference over a few hours gives the daily motion
+  const step = planet === 'moon' ? 0.05 : 0.25;
+  const before = bodyPosition(planet, jdTT - step, nodeType).longitude;
+  const after = bodyPosition(planet, jdTT + step, nodeType).longitude;
+  const speed = angleDifference(after, before) / (2 * step);
+
+  return {
+    ...position,
+    speed,
+    isRetrograde: speed < 0,
+  };
+}
+
+/**
+ * Apparent tropical positions of every body at a UT instant
+ */
+export function calculatePlanetPositions(
+  jdUT: number,
+  nodeType: 'mean' | 'true' = 'mean'
+): Record<VedicPlanet, EphemerisPosition> {
+  assertInRange(jdUT);
+  const positions = {} as Record<VedicPlanet, EphemerisPosition>;
+  EPHEMERIS_PLANETS.forEach(planet => {
+    positions[planet] = calculatePlanetPosition(planet, jdUT, nodeType);
+  });
+  return positions;
+}
+
+/**
+ * Cast a full tropical chart from birth details
+ *
+ * House cusps follow `input.houseSystem`; Placidus and Koch fall back to
+ * Sripati/Porphyry inside the polar circles.
+ */
+export function calculateEphemeris(input: EphemerisInput): EphemerisResult {
+  const {
+    datetime,
+    timezone,
+    latitude,
+    longitude,
+    location,
+    title,
+    nodeType = 'mean',
+    houseSystem = DEFAULT_HOUSE_SYSTEM,
+  } = input;
+
+  if (!Number.isFinite(latitude) || latitude <= -90 || latitude >= 90) {
+    throw new Error(`Invalid latitude: ${latitude}`);
+  }
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new Error(`Invalid longitude: ${longitude}`);
+  }
+  if (!Number.isFinite(timezone) || Math.abs(timezone) > 14) {
+    throw new Error(`Invalid timezone offset: ${timezone}`);
+  }
+
+  const jdUT = julianDayFromLocal(datetime, timezone);
+  const positions = calculatePlanetPositions(jdUT, nodeType);
+
+  const jdTT = jdUT + deltaT(jdUT) / 86400;
+  const obliquity = obliquityOfEcliptic(jdTT);
+  const siderealTime = localSiderealTime(jdUT, longitude);
+  const ascendant = calculateAscendant(siderealTime, latitude, obliquity);
+  const midheaven = calculateMidheaven(siderealTime, obliquity);
+  const houses = calculateHouseCusps(houseSystem, { ascendant, siderealTime, latitude, obliquity });
+
+  const planets = {} as Record<VedicPlanet, number>;
+  const retrograde = {} as Record<VedicPlanet, boolean>;
+  EPHEMERIS_PLANETS.forEach(planet => {
+    planets[planet] = positions[planet].longitude;
+    retrograde[planet] = positions[planet].isRetrograde;
+  });
+
+  return {
+    datetime,
+    timezone,
+    location,
+    title,
+    planets,
+    houseCusps: houses.cusps,
+    houseSystem: houses.system,
+    ascendant,
+    retrograde,
+    chartType: 'D1',
+    zodiac: 'tropical',
+    julianDay: jdUT,
+    positions,
+    midheaven,
+    siderealTime,
+    obliquity,
+    latitude,
+    longitude,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Corp Astro UI Library - Planetary Friendship
+ *
+ * Parashari planetary relationships: natural (naisargika) friendship,
+ * temporary (tatkalika) friendship from the planets' mutual placement, and
+ * the five-fold compound (panchadha) relationship combining the two.
+ *
+ * Rahu follows Saturn and Ketu follows Mars ("Shanivat Rahu, Kujavat Ketu").
+ * The outer planets have no classical relationships and are neutral.
+ *
+ * @module friendshipUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { VedicPlanet } from './NorthIndianChart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Natural or temporary relationship
+ */
+export type Relationship = 'friend' | 'neutral' | 'enemy';
+
+/**
+ * Five-fold compound relationship
+ */
+export type CompoundRelationship = 'great_friend' | 'friend' | 'neutral' | 'enemy' | 'great_enemy';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Natural friends and enemies; planets in neither list are neutral
+ */
+const NATURAL_RELATIONSHIPS: Partial<Record<VedicPlanet, { friends: VedicPlanet[]; enemies: VedicPlanet[] }>> = {
+  sun: { friends: ['moon', 'mars', 'jupiter'], enemies: ['venus', 'saturn'] },
+  moon: { friends: ['sun', 'mercury'], enemies: [] },
+  mars: { friends: ['sun', 'moon', 'jupiter'], enemies: ['mercury'] },
+  mercury: { friends: ['sun', 'venus'], enemies: ['moon'] },
+  jupiter: { friends: ['sun', 'moon', 'mars'], enemies: ['mercury', 'venus'] },
+  venus: { friends: ['mercury', 'saturn'], enemies: ['sun', 'moon'] },
+  saturn: { friends: ['mercury', 'venus'], enemies: ['sun', 'moon', 'mars'] },
+  rahu: { friends: ['mercury', 'venus', 'saturn'], enemies: ['sun', 'moon', 'mars'] },
+  ketu: { friends: ['sun', 'moon', 'jupiter'], enemies: ['mercury'] },
+};
+
+/**
+ * Houses counted from a planet whose occupants are its temporary friends
+ */
+const TEMPORARY_FRIEND_HOUSES = [2, 3, 4, 10, 11, 12];
+
+/**
+ * Display names for compound relationships
+ */
+export const COMPOUND_RELATIONSHIP_NAMES: Record<CompoundRelationship, string> = {
+  great_friend: 'Great Friend (Adhi Mitra)',
+  friend: 'Friend (Mitra)',
+  neutral: 'Neutral (Sama)',
+  enemy: 'Enemy (Shatru)',
+  great_enemy: 'Great Enemy (Adhi Shatru)',
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Natural relationship of a planet towards another
+ */
+export function getNaturalRelationship(planet: VedicPlanet, other: VedicPlanet): Relationship {
+  const relationships = NATURAL_RELATIONSHIPS[planet];
+  if (!relationships || planet === other) return 'neutral';
+  if (relationships.friends.includes(other)) return 'friend';
+  if (relationships.enemies.includes(other)) return 'enemy';
+  return 'neutral';
+}
+
+/**
+ * Temporary relationship from sign placement
+ *
+ * A planet in the 2nd, 3rd, 4th, 10th, 11th or 12th sign from another is its
+ * temporary friend; anywhere else it is a temporary enemy.
+ */
+export function getTemporaryRelationship(planetLongitude: number, otherLongitude: number): Relationship {
+  const planetSign = Math.floor((((planetLongitude % 360) + 360) % 360) / 30);
+  const otherSign = Math.floor((((otherLongitude % 360) + 360) % 360) / 30);
+  const house = ((otherSign - planetSign + 12) % 12) + 1;
+  return TEMPORARY_FRIEND_HOUSES.includes(house) ? 'friend' : 'enemy';
+}
+
+/**
+ * Combine natural and temporary relationships into the five-fold relationship
+ */
+export function combineRelationships(natural: Relationship, temporary: Relationship): CompoundRelationship {
+  const score = (natural === 'friend' ? 1 : natural === 'enemy' ? -1 : 0)
+    + (temporary === 'friend' ? 1 : -1);
+  if (score >= 2) return 'great_friend';
+  if (score === 1) return 'friend';
+  if (score === 0) return 'neutral';
+  if (score === -1) return 'enemy';
+  return 'great_enemy';
+}
+
+/**
+ * Five-fold relationship of a planet towards another, given sidereal positions
+ *
+ * Without the other planet's position only the natural relationship is used.
+ * Planets without classical relationships are neutral towards every planet.
+ */
+export function getCompoundRelationship(
+  planet: VedicPlanet,
+  other: VedicPlanet,
+  positions: Partial<Record<VedicPlanet, number>>
+): CompoundRelationship {
+  const natural = getNaturalRelationship(planet, other);
+  const planetLongitude = positions[planet];
+  const otherLongitude = positions[other];
+  if (!NATURAL_RELATIONSHIPS[planet] || planet === other) {
+    return 'neutral';
+  }
+  if (planetLongitude === undefined || otherLongitude === undefined) {
+    return natural;
+  }
+  return combineRelationships(natural, getTemporaryRelationship(planetLongitude, otherLongitude));
+}
@@ -0,0 +1,587 @@
+/**
+ * Corp Astro UI Library - Ashtakoota Guna Milan
+ *
+ * Vedic matchmaking from the Moon of two birth charts: the eight kootas
+ * (Varna, Vashya, Tara, Yoni, Graha Maitri, Gana, Bhakoot and Nadi) worth
+ * 36 gunas in total, and Manglik (Kuja) dosha for both partners. The result
+ * maps onto the CompatibilityChart's scores, strengths and challenges.
+ *
+ * The first chart is the groom's and the second the bride's; Varna, Vashya,
+ * Tara and Gana are read directionally as in the classical tables.
+ *
+ * @module gunaMilanUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { VedicPlanet, VedicRashi, VedicChartData, VEDIC_RASHIS, PLANET_RULERSHIP } from './NorthIndianChart';
+import { calculateNakshatra, NakshatraInfo } from './nakshatraUtils';
+import { getNaturalRelationship, Relationship } from './friendshipUtils';
+import type { CompatibilityAspect, CompatibilityData, CompatibilityScore } from './CompatibilityChart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * The eight kootas
+ */
+export type Koota = 'varna' | 'vashya' | 'tara' | 'yoni' | 'graha_maitri' | 'gana' | 'bhakoot' | 'nadi';
+
+/**
+ * Chart positions needed for matching: sidereal Moon, Mars and ascendant
+ */
+export type GunaMilanChart = Pick<VedicChartData, 'planetDegrees' | 'ascendantDegree' | 'title'>;
+
+/**
+ * Score of one koota
+ */
+export interface KootaScore {
+  /** Koota scored */
+  koota: Koota;
+  /** Gunas obtained */
+  points: number;
+  /** Maximum gunas */
+  maxPoints: number;
+  /** Groom's attribute, e.g. 'Brahmin' or 'Horse' */
+  groomValue: string;
+  /** Bride's attribute */
+  brideValue: string;
+}
+
+/**
+ * Manglik dosha of one chart
+ */
+export interface ManglikStatus {
+  /** Whether Mars falls in a dosha house from the ascendant or the Moon */
+  isManglik: boolean;
+  /** House of Mars from the ascendant, if the ascendant is known */
+  houseFromAscendant?: number;
+  /** House of Mars from the Moon */
+  houseFromMoon: number;
+}
+
+/**
+ * Overall verdict on the guna total
+ */
+export type MatchVerdict = 'excellent' | 'good' | 'average' | 'not_recommended';
+
+/**
+ * Full Ashtakoota result
+ */
+export interface GunaMilanResult {
+  /** Scores in classical order */
+  kootas: KootaScore[];
+  /** Total gunas (0-36) */
+  total: number;
+  /** Maximum gunas (36) */
+  maxTotal: number;
+  /** Verdict on the total */
+  verdict: MatchVerdict;
+  /** Groom's Moon sign */
+  groomRashi: VedicRashi;
+  /** Bride's Moon sign */
+  brideRashi: VedicRashi;
+  /** Groom's Moon nakshatra */
+  groomNakshatra: NakshatraInfo;
+  /** Bride's Moon nakshatra */
+  brideNakshatra: NakshatraInfo;
+  /** Groom's Manglik status */
+  groomManglik: ManglikStatus;
+  /** Bride's Manglik status */
+  brideManglik: ManglikStatus;
+  /** Whether Manglik dosha is absent or present on both sides */
+  manglikCompatible: boolean;
+}
+
+type Varna = 'brahmin' | 'kshatriya' | 'vaishya' | 'shudra';
+type Vashya = 'chatushpada' | 'manava' | 'jalachara' | 'vanachara' | 'keeta';
+type Yoni =
+  | 'horse' | 'elephant' | 'sheep' | 'serpent' | 'dog' | 'cat' | 'rat'
+  | 'cow' | 'buffalo' | 'tiger' | 'deer' | 'monkey' | 'mongoose' | 'lion';
+type Nadi = 'adi' | 'madhya' | 'antya';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Maximum gunas of each koota, in classical order
+ */
+export const KOOTA_MAX_POINTS: Record<Koota, number> = {
+  varna: 1,
+  vashya: 2,
+  tara: 3,
+  yoni: 4,
+  graha_maitri: 5,
+  gana: 6,
+  bhakoot: 7,
+  nadi: 8,
+};
+
+/**
+ * Display names for each koota
+ */
+export const KOOTA_NAMES: Record<Koota, string> = {
+  varna: 'Varna',
+  vashya: 'Vashya',
+  tara: 'Tara',
+  yoni: 'Yoni',
+  graha_maitri: 'Graha Maitri',
+  gana: 'Gana',
+  bhakoot: 'Bhakoot',
+  nadi: 'Nadi',
+};
+
+/**
+ * Display names for each verdict
+ */
+export const MATCH_VERDICT_NAMES: Record<MatchVerdict, string> = {
+  excellent: 'Excellent match',
+  good: 'Good match',
+  average: 'Average match',
+  not_recommended: 'Not recommended',
+};
+
+/**
+ * Houses from the ascendant or Moon in which Mars causes Manglik dosha
+ */
+export const MANGLIK_HOUSES = [1, 2, 4, 7, 8, 12];
+
+/** Total gunas */
+const MAX_GUNAS = 36;
+
+/** Fraction of a koota's gunas counted as a strength */
+const STRENGTH_RATIO = 0.75;
+
+/** Fraction of a koota's gunas below which it is a challenge */
+const CHALLENGE_RATIO = 0.5;
+
+const VARNA_RANK: Record<Varna, number> = { brahmin: 4, kshatriya: 3, vaishya: 2, shudra: 1 };
+
+/**
+ * Varna by element: water signs Brahmin, fire Kshatriya, earth Vaishya, air Shudra
+ */
+const RASHI_VARNA: Record<VedicRashi, Varna> = {
+  aries: 'kshatriya',
+  taurus: 'vaishya',
+  gemini: 'shudra',
+  cancer: 'brahmin',
+  leo: 'kshatriya',
+  virgo: 'vaishya',
+  libra: 'shudra',
+  scorpio: 'brahmin',
+  sagittarius: 'kshatriya',
+  capricorn: 'vaishya',
+  aquarius: 'shudra',
+  pisces: 'brahmin',
+};
+
+const VASHYA_ORDER: Vashya[] = ['chatushpada', 'manava', 'jalachara', 'vanachara', 'keeta'];
+
+/**
+ * Vashya points, groom's group by row and bride's by column (VASHYA_ORDER)
+ */
+const VASHYA_POINTS: number[][] = [
+  [2, 1, 1, 0.5, 1],
+  [0, 2, 0.5, 0, 1],
+  [1, 0.5, 2, 1, 1],
+  [0.5, 0, 1, 2, 0],
+  [1, 1, 1, 0, 2],
+];
+
+const YONI_ORDER: Yoni[] = [
+  'horse', 'elephant', 'sheep', 'serpent', 'dog', 'cat', 'rat',
+  'cow', 'buffalo', 'tiger', 'deer', 'monkey', 'mongoose', 'lion',
+];
+
+/**
+ * Yoni animal of each nakshatra (Ashwini first)
+ */
+const NAKSHATRA_YONI: Yoni[] = [
+  'horse', 'elephant', 'sheep', 'serpent', 'serpent', 'dog', 'cat', 'sheep', 'cat',
+  'rat', 'rat', 'cow', 'buffalo', 'tiger', 'buffalo', 'tiger', 'deer', 'deer',
+  'dog', 'monkey', 'mongoose', 'monkey', 'lion', 'horse', 'lion', 'cow', 'elephant',
+];
+
+/**
+ * Yoni points between animals (YONI_ORDER); sworn enemies score 0
+ */
+const YONI_POINTS: number[][] = [
+  [4, 2, 2, 3, 2, 2, 2, 1, 0, 1, 3, 3, 2, 1],
+  [2, 4, 3, 3, 2, 2, 2, 2, 3, 1, 2, 3, 2, 0],
+  [2, 3, 4, 2, 1, 2, 1, 3, 3, 1, 2, 0, 3, 1],
+  [3, 3, 2, 4, 2, 1, 1, 1, 1, 2, 2, 2, 0, 2],
+  [2, 2, 1, 2, 4, 2, 1, 2, 2, 1, 0, 2, 1, 1],
+  [2, 2, 2, 1, 2, 4, 0, 2, 2, 1, 3, 3, 2, 1],
+  [2, 2, 1, 1, 1, 0, 4, 2, 2, 2, 2, 2, 1, 2],
+  [1, 2, 3, 1, 2, 2, 2, 4, 3, 0, 3, 2, 2, 1],
+  [0, 3, 3, 1, 2, 2, 2, 3, 4, 1, 2, 2, 2, 1],
+  [1, 1, 1, 2, 1, 1, 2, 0, 1, 4, 1, 1, 2, 1],
+  [3, 2, 2, 2, 0, 3, 2, 3, 2, 1, 4, 2, 2, 1],
+  [3, 3, 0, 2, 2, 3, 2, 2, 2, 1, 2, 4, 3, 2],
+  [2, 2, 3, 0, 1, 2, 1, 2, 2, 2, 2, 3, 4, 2],
+  [1, 0, 1, 2, 1, 1, 2, 1, 1, 1, 1, 2, 2, 4],
+];
+
+/**
+ * Graha Maitri points by the two Moon sign lords' natural relationships
+ */
+const MAITRI_POINTS: Record<string, number> = {
+  'friend-friend': 5,
+  'friend-neutral': 4,
+  'neutral-neutral': 3,
+  'enemy-friend': 1,
+  'enemy-neutral': 0.5,
+  'enemy-enemy': 0,
+};
+
+/**
+ * Gana points, groom's gana by row and bride's by column
+ */
+const GANA_POINTS: Record<NakshatraInfo['gana'], Record<NakshatraInfo['gana'], number>> = {
+  deva: { deva: 6, manushya: 6, rakshasa: 1 },
+  manushya: { deva: 5, manushya: 6, rakshasa: 0 },
+  rakshasa: { deva: 1, manushya: 0, rakshasa: 6 },
+};
+
+/**
+ * Sign distances (counted inclusively) that cause Bhakoot dosha: 2/12, 5/9, 6/8
+ */
+const BHAKOOT_DOSHA_DISTANCES = [2, 12, 5, 9, 6, 8];
+
+/**
+ * Taras (nakshatra counts modulo 9) that are inauspicious: Vipat, Pratyak, Naidhana
+ */
+const INAUSPICIOUS_TARAS = [3, 5, 7];
+
+/**
+ * Nadi of each nakshatra in the zigzag order Adi, Madhya, Antya, Antya, Madhya, Adi
+ */
+const NADI_CYCLE: Nadi[] = ['adi', 'madhya', 'antya', 'antya', 'madhya', 'adi'];
+
+/**
+ * Compatibility aspects drawn from each koota
+ */
+const ASPECT_KOOTAS: Record<Exclude<CompatibilityAspect, 'overall'>, Koota[]> = {
+  love: ['yoni', 'bhakoot'],
+  friendship: ['graha_maitri'],
+  communication: ['gana'],
+  trust: ['nadi', 'tara'],
+  values: ['varna', 'vashya'],
+};
+
+const KOOTA_STRENGTHS: Record<Koota, string> = {
+  varna: 'Spiritual and ethical outlooks are in harmony',
+  vashya: 'Natural mutual attraction and influence',
+  tara: 'Birth stars support each other\'s wellbeing',
+  yoni: 'Strong physical and emotional compatibility',
+  graha_maitri: 'Moon sign lords are friendly, giving mental rapport',
+  gana: 'Temperaments suit each other',
+  bhakoot: 'Moon signs favour family welfare and prosperity',
+  nadi: 'Different nadis support health and progeny',
+};
+
+const KOOTA_CHALLENGES: Record<Koota, string> = {
+  varna: 'Differing spiritual and ethical outlooks',
+  vashya: 'Little natural mutual influence',
+  tara: 'Birth stars are inauspicious for each other',
+  yoni: 'Physical and emotional natures may clash',
+  graha_maitri: 'Moon sign lords are unfriendly, straining mental rapport',
+  gana: 'Temperaments are at odds',
+  bhakoot: 'Bhakoot dosha: Moon signs strain family welfare',
+  nadi: 'Nadi dosha: both share the same nadi',
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Sign index (Aries = 0) of a longitude
+ */
+function signIndex(longitude: number): number {
+  return Math.floor(normalizeDegrees(longitude) / 30);
+}
+
+/**
+ * Count from one sign or nakshatra to another, inclusive of both
+ */
+function inclusiveCount(from: number, to: number, cycle: number): number {
+  return ((to - from + cycle) % cycle) + 1;
+}
+
+/**
+ * Vashya group of a Moon longitude
+ *
+ * Sagittarius is human in its first half and quadruped in its second;
+ * Capricorn is quadruped in its first half and aquatic in its second.
+ */
+function getVashya(longitude: number): Vashya {
+  const rashi = VEDIC_RASHIS[signIndex(longitude)];
+  const firstHalf = normalizeDegrees(longitude) % 30 < 15;
+  switch (rashi) {
+    case 'aries':
+    case 'taurus':
+      return 'chatushpada';
+    case 'sagittarius':
+      return firstHalf ? 'manava' : 'chatushpada';
+    case 'capricorn':
+      return firstHalf ? 'chatushpada' : 'jalachara';
+    case 'cancer':
+    case 'pisces':
+      return 'jalachara';
+    case 'leo':
+      return 'vanachara';
+    case 'scorpio':
+      return 'keeta';
+    default:
+      return 'manava';
+  }
+}
+
+/**
+ * Nadi of a nakshatra number (1-27)
+ */
+function getNadi(nakshatraNumber: number): Nadi {
+  return NADI_CYCLE[(nakshatraNumber - 1) % NADI_CYCLE.length];
+}
+
+/**
+ * Capitalize an identifier for display
+ */
+function titleCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Sidereal longitude of a planet, required for matching
+ */
+function requirePlanet(chart: GunaMilanChart, planet: VedicPlanet): number {
+  const longitude = chart.planetDegrees?.[planet];
+  if (longitude === undefined || !Number.isFinite(longitude)) {
+    throw new Error(`Guna Milan requires the ${planet} longitude of ${chart.title ?? 'each chart'}`);
+  }
+  return longitude;
+}
+
+/**
+ * Manglik dosha of a chart: Mars in the 1st, 2nd, 4th, 7th, 8th or 12th
+ * house counted from the ascendant or from the Moon
+ */
+export function getManglikStatus(chart: GunaMilanChart): ManglikStatus {
+  const marsSign = signIndex(requirePlanet(chart, 'mars'));
+  const houseFromMoon = inclusiveCount(signIndex(requirePlanet(chart, 'moon')), marsSign, 12);
+  const houseFromAscendant = chart.ascendantDegree !== undefined
+    ? inclusiveCount(signIndex(chart.ascendantDegree), marsSign, 12)
+    : undefined;
+
+  return {
+    isManglik:
+      MANGLIK_HOUSES.includes(houseFromMoon) ||
+      (houseFromAscendant !== undefined && MANGLIK_HOUSES.includes(houseFromAscendant)),
+    houseFromAscendant,
+    houseFromMoon,
+  };
+}
+
+/**
+ * Verdict on a guna total
+ */
+export function getMatchVerdict(total: number): MatchVerdict {
+  if (total >= 33) return 'excellent';
+  if (total >= 25) return 'good';
+  if (total >= 18) return 'average';
+  return 'not_recommended';
+}
+
+/**
+ * Ashtakoota Guna Milan between a groom's and a bride's chart
+ */
+export function calculateGunaMilan(groom: GunaMilanChart, bride: GunaMilanChart): GunaMilanResult {
+  const groomMoon = requirePlanet(groom, 'moon');
+  const brideMoon = requirePlanet(bride, 'moon');
+  const groomSign = signIndex(groomMoon);
+  const brideSign = signIndex(brideMoon);
+  const groomRashi = VEDIC_RASHIS[groomSign];
+  const brideRashi = VEDIC_RASHIS[brideSign];
+  const groomNakshatra = calculateNakshatra(groomMoon).nakshatra;
+  const brideNakshatra = calculateNakshatra(brideMoon).nakshatra;
+
+  const score = (koota: Koota, points: number, groomValue: string, brideValue: string): KootaScore => ({
+    koota,
+    points,
+    maxPoints: KOOTA_MAX_POINTS[koota],
+    groomValue,
+    brideValue,
+  });
+
+  // Varna: the groom's varna should be equal to or higher than the bride's
+  const groomVarna = RASHI_VARNA[groomRashi];
+  const brideVarna = RASHI_VARNA[brideRashi];
+  const varna = score('varna', VARNA_RANK[groomVarna] >= VARNA_RANK[brideVarna] ? 1 : 0, titleCase(groomVarna), titleCase(brideVarna));
+
+  // Vashya
+  const groomVashya = getVashya(groomMoon);
+  const brideVashya = getVashya(brideMoon);
+  const vashya = score(
+    'vashya',
+    VASHYA_POINTS[VASHYA_ORDER.indexOf(groomVashya)][VASHYA_ORDER.indexOf(brideVashya)],
+    titleCase(groomVashya),
+    titleCase(brideVashya)
+  );
+
+  // Tara: 1.5 for each direction whose count lands on an auspicious tara
+  const taraFromBride = inclusiveCount(brideNakshatra.number, groomNakshatra.number, 27) % 9;
+  const taraFromGroom = inclusiveCount(groomNakshatra.number, brideNakshatra.number, 27) % 9;
+  const tara = score(
+    'tara',
+    (INAUSPICIOUS_TARAS.includes(taraFromBride) ? 0 : 1.5) + (INAUSPICIOUS_TARAS.includes(taraFromGroom) ? 0 : 1.5),
+    groomNakshatra.name,
+    brideNakshatra.name
+  );
+
+  // Yoni
+  const groomYoni = NAKSHATRA_YONI[groomNakshatra.number - 1];
+  const brideYoni = NAKSHATRA_YONI[brideNakshatra.number - 1];
+  const yoni = score(
+    'yoni',
+    YONI_POINTS[YONI_ORDER.indexOf(groomYoni)][YONI_ORDER.indexOf(brideYoni)],
+    titleCase(groomYoni),
+    titleCase(brideYoni)
+  );
+
+  // Graha Maitri: natural relationship of each Moon sign lord to the other
+  const groomLord = PLANET_RULERSHIP[groomRashi];
+  const brideLord = PLANET_RULERSHIP[brideRashi];
+  const relationships: Relationship[] = [
+    getNaturalRelationship(groomLord, brideLord),
+    getNaturalRelationship(brideLord, groomLord),
+  ].sort() as Relationship[];
+  const grahaMaitri = score(
+    'graha_maitri',
+    groomLord === brideLord ? 5 : MAITRI_POINTS[relationships.join('-')],
+    titleCase(groomLord),
+    titleCase(brideLord)
+  );
+
+  // Gana
+  const gana = score(
+    'gana',
+    GANA_POINTS[groomNakshatra.gana][brideNakshatra.gana],
+    titleCase(groomNakshatra.gana),
+    titleCase(brideNakshatra.gana)
+  );
+
+  // Bhakoot: 2/12, 5/9 and 6/8 sign relationships score nothing
+  const signDistance = inclusiveCount(brideSign, groomSign, 12);
+  const bhakoot = score(
+    'bhakoot',
+    BHAKOOT_DOSHA_DISTANCES.includes(signDistance) ? 0 : 7,
+    titleCase(groomRashi),
+    titleCase(brideRashi)
+  );
+
+  // Nadi: the same nadi scores nothing
+  const groomNadi = getNadi(groomNakshatra.number);
+  const brideNadi = getNadi(brideNakshatra.number);
+  const nadi = score('nadi', groomNadi === brideNadi ? 0 : 8, titleCase(groomNadi), titleCase(brideNadi));
+
+  const kootas = [varna, vashya, tara, yoni, grahaMaitri, gana, bhakoot, nadi];
+  const total = kootas.reduce((sum, koota) => sum + koota.points, 0);
+  const groomManglik = getManglikStatus(groom);
+  const brideManglik = getManglikStatus(bride);
+
+  return {
+    kootas,
+    total,
+    maxTotal: MAX_GUNAS,
+    verdict: getMatchVerdict(total),
+    groomRashi,
+    brideRashi,
+    groomNakshatra,
+    brideNakshatra,
+    groomManglik,
+    brideManglik,
+    manglikCompatible: groomManglik.isManglik === brideManglik.isManglik,
+  };
+}
+
+/**
+ * Compatibility scores from a Guna Milan result
+ *
+ * Each aspect is the percentage of gunas obtained in the kootas it draws on;
+ * 'overall' is the percentage of the 36-guna total.
+ */
+export function getGunaMilanScores(result: GunaMilanResult): CompatibilityScore[] {
+  const aspectScores = (Object.entries(ASPECT_KOOTAS) as [CompatibilityAspect, Koota[]][]).map(([aspect, kootas]) => {
+    const scores = result.kootas.filter(koota => kootas.includes(koota.koota));
+    const points = scores.reduce((sum, koota) => sum + koota.points, 0);
+    const maxPoints = scores.reduce((sum, koota) => sum + koota.maxPoints, 0);
+    return {
+      aspect,
+      score: Math.round((points / maxPoints) * 100),
+      description: scores.map(koota => `${KOOTA_NAMES[koota.koota]} ${koota.points}/${koota.maxPoints}`).join(', '),
+    };
+  });
+
+  return [
+    ...aspectScores,
+    {
+      aspect: 'overall',
+      score: Math.round((result.total / result.maxTotal) * 100),
+      description: `${result.total} of ${result.maxTotal} gunas`,
+    },
+  ];
+}
+
+/**
+ * Strengths and challenges from the kootas that passed or failed
+ *
+ * Manglik dosha on only one side is added as a challenge; when both partners
+ * are Manglik the dosha is considered cancelled and noted as a strength.
+ */
+export function getGunaMilanHighlights(result: GunaMilanResult): { strengths: string[]; challenges: string[] } {
+  const strengths = result.kootas
+    .filter(koota => koota.points >= koota.maxPoints * STRENGTH_RATIO)
+    .map(koota => KOOTA_STRENGTHS[koota.koota]);
+  const challenges = result.kootas
+    .filter(koota => koota.points < koota.maxPoints * CHALLENGE_RATIO)
+    .map(koota => KOOTA_CHALLENGES[koota.koota]);
+
+  if (!result.manglikCompatible) {
+    const partner = result.groomManglik.isManglik ? 'groom' : 'bride';
+    challenges.push(`Manglik dosha in the ${partner}'s chart only`);
+  } else if (result.groomManglik.isManglik) {
+    strengths.push('Manglik dosha on both sides cancels out');
+  }
+
+  return { strengths, challenges };
+}
+
+/**
+ * CompatibilityChart data from a Guna Milan result, with the Moon signs as
+ * the two signs shown
+ */
+export function getGunaMilanCompatibilityData(result: GunaMilanResult): CompatibilityData {
+  const { strengths, challenges } = getGunaMilanHighlights(result);
+  return {
+    sign1: result.groomRashi,
+    sign2: result.brideRashi,
+    overallScore: Math.round((result.total / result.maxTotal) * 100),
+    scores: getGunaMilanScores(result),
+    strengths,
+    challenges,
+    description:
+      `${MATCH_VERDICT_NAMES[result.verdict]}: ${result.total} of ${result.maxTotal} gunas ` +
+      `(${result.groomNakshatra.name} and ${result.brideNakshatra.name} Moons).`,
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Corp Astro UI Library - Horizon Events
+ *
+ * Observer-based helpers shared by the solar and lunar calculators and the
+ * sky map: the altitude and azimuth of a body for a place and instant, the local calendar day of a
+ * place, and the search for the moments a body crosses a given altitude
+ * (rising and setting, twilight).
+ *
+ * @module horizonUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { VedicPlanet } from './NorthIndianChart';
+import {
+  calculatePlanetPosition,
+  dateFromJulianDay,
+  deltaT,
+  eclipticToEquatorial,
+  julianDay,
+  localSiderealTime,
+  obliquityOfEcliptic,
+} from './ephemerisUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Observer position and local time offset
+ */
+export interface ObserverLocation {
+  /** Geographic latitude in degrees, north positive */
+  latitude: number;
+  /** Geographic longitude in degrees, east positive */
+  longitude: number;
+  /** Offset of local time from UTC in hours, east positive (IST = 5.5) */
+  timezone: number;
+  /** Place name */
+  name?: string;
+}
+
+/**
+ * Upward and downward crossings of an altitude within a day; either may
+ * not occur
+ */
+export interface HorizonCrossings {
+  /** Moment the body climbs through the altitude */
+  rise?: Date;
+  /** Moment the body sinks through the altitude */
+  set?: Date;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Observer used when no location is known (New Delhi)
+ */
+export const DEFAULT_OBSERVER_LOCATION: ObserverLocation = {
+  latitude: 28.6139,
+  longitude: 77.209,
+  timezone: 5.5,
+  name: 'New Delhi',
+};
+
+/** Bisection steps per crossing (one hour / 2^16, about 0.05 s) */
+const BISECTION_STEPS = 16;
+
+const DEG = Math.PI / 180;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Altitude and azimuth (from north through east) of an equatorial
+ * position, in degrees
+ */
+export function calculateHorizontalPosition(
+  rightAscension: number,
+  declination: number,
+  jdUT: number,
+  location: ObserverLocation
+): { altitude: number; azimuth: number } {
+  const hourAngle = (localSiderealTime(jdUT, location.longitude) - rightAscension) * DEG;
+  const latitude = location.latitude * DEG;
+  const dec = declination * DEG;
+  const altitude = Math.asin(
+    Math.sin(latitude) * Math.sin(dec) + Math.cos(latitude) * Math.cos(dec) * Math.cos(hourAngle)
+  ) / DEG;
+  const azimuth = Math.atan2(
+    -Math.cos(dec) * Math.sin(hourAngle),
+    Math.sin(dec) * Math.cos(latitude) - Math.cos(dec) * Math.sin(latitude) * Math.cos(hourAngle)
+  ) / DEG;
+
+  return { altitude, azimuth: (azimuth + 360) % 360 };
+}
+
+/**
+ * Geometric altitude of a body's centre above the horizon, in degrees,
+ * together with its distance in AU
+ */
+export function calculateAltitude(
+  planet: VedicPlanet,
+  jdUT: number,
+  location: ObserverLocation
+): { altitude: number; distance: number } {
+  const jdTT = jdUT + deltaT(jdUT) / 86400;
+  const position = calculatePlanetPosition(planet, jdUT);
+  const { rightAscension, declination } = eclipticToEquatorial(
+    position.longitude,
+    position.latitude,
+    obliquityOfEcliptic(jdTT)
+  );
+  const { altitude } = calculateHorizontalPosition(rightAscension, declination, jdUT, location);
+
+  return { altitude, distance: position.distance };
+}
+
+/**
+ * Julian Day (UT) of local midnight starting the location's calendar day
+ */
+export function localDayStart(date: Date, timezone: number): number {
+  const local = new Date(date.getTime() + timezone * 3600000);
+  return julianDay(local.getUTCFullYear(), local.getUTCMonth() + 1, local.getUTCDate()) - timezone / 24;
+}
+
+/**
+ * First upward and downward zero crossings of a function within 24 hours
+ *
+ * `heightAt` returns the body's height above the target altitude. The day is
+ * scanned hourly and each sign change refined by bisection.
+ */
+export function findHorizonCrossings(heightAt: (jdUT: number) => number, startJd: number): HorizonCrossings {
+  const crossings: HorizonCrossings = {};
+  const hour = 1 / 24;
+
+  let previous = heightAt(startJd);
+  for (let step = 1; step <= 24; step++) {
+    const jd = startJd + step * hour;
+    const current = heightAt(jd);
+
+    if ((previous < 0) !== (current < 0)) {
+      let low = jd - hour;
+      let high = jd;
+      for (let iteration = 0; iteration < BISECTION_STEPS; iteration++) {
+        const middle = (low + high) / 2;
+        if ((heightAt(middle) < 0) === (previous < 0)) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      const event = dateFromJulianDay((low + high) / 2);
+      if (previous < 0) {
+        crossings.rise = crossings.rise ?? event;
+      } else {
+        crossings.set = crossings.set ?? event;
+      }
+    }
+
+    previous = current;
+  }
+
+  return crossings;
+}
+
+/**
+ * Next local midnight at a location after a date
+ */
+export function nextLocalMidnight(date: Date, timezone: number): Date {
+  return dateFromJulianDay(localDayStart(date, timezone) + 1);
+}
+
+/**
+ * Format an instant as local clock time at a location, e.g. '8:30 PM'
+ */
+export function formatEventTime(date: Date | undefined, timezone: number): string {
+  if (!date) return '--';
+  const local = new Date(date.getTime() + timezone * 3600000);
+  const hours = local.getUTCHours();
+  const minutes = local.getUTCMinutes().toString().padStart(2, '0');
+  return `${hours % 12 || 12}:${minutes} ${hours < 12 ? 'AM' : 'PM'}`;
+}
@@ -0,0 +1,313 @@
+/**
+ * Corp Astro UI Library - House Systems
+ *
+ * House (bhava) cusp calculation for the house systems our astrologers use:
+ * Whole Sign, Equal (from the ascendant), Sripati/Porphyry, Placidus and Koch.
+ *
+ * Quadrant systems (Sripati, Placidus, Koch) need the local sidereal time,
+ * geographic latitude and obliquity. Placidus and Koch are undefined inside
+ * the polar circles, where some ecliptic degrees never rise or set; there they
+ * fall back to Sripati/Porphyry and the result is flagged.
+ *
+ * @module houseSystemUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Supported house systems
+ */
+export type HouseSystem = 'whole_sign' | 'equal' | 'sripati' | 'placidus' | 'koch';
+
+/**
+ * Chart angles needed to derive house cusps
+ */
+export interface HouseAngles {
+  /** Ascendant longitude in the chart's zodiac */
+  ascendant: number;
+  /** Local sidereal time (RAMC) in degrees - required for quadrant systems */
+  siderealTime?: number;
+  /** Geographic latitude in degrees - required for quadrant systems */
+  latitude?: number;
+  /** True obliquity of the ecliptic in degrees - required for quadrant systems */
+  obliquity?: number;
+}
+
+/**
+ * House cusp calculation result
+ */
+export interface HouseCuspResult {
+  /** Twelve cusp longitudes, house 1 first */
+  cusps: number[];
+  /** System the cusps were actually computed with */
+  system: HouseSystem;
+  /** System that was requested */
+  requestedSystem: HouseSystem;
+  /** Whether the requested system fell back (polar latitudes) */
+  isFallback: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Display names for each house system
+ */
+export const HOUSE_SYSTEM_NAMES: Record<HouseSystem, string> = {
+  whole_sign: 'Whole Sign',
+  equal: 'Equal (from Ascendant)',
+  sripati: 'Sripati / Porphyry',
+  placidus: 'Placidus',
+  koch: 'Koch',
+};
+
+/**
+ * Systems that divide the quadrants between the angles
+ */
+export const QUADRANT_HOUSE_SYSTEMS: HouseSystem[] = ['sripati', 'placidus', 'koch'];
+
+/**
+ * Default system for new charts
+ */
+export const DEFAULT_HOUSE_SYSTEM: HouseSystem = 'equal';
+
+const DEG = Math.PI / 180;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+const sinD = (degrees: number): number => Math.sin(degrees * DEG);
+const cosD = (degrees: number): number => Math.cos(degrees * DEG);
+const tanD = (degrees: number): number => Math.tan(degrees * DEG);
+const atan2D = (y: number, x: number): number => Math.atan2(y, x) / DEG;
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Forward arc from a to b (0-360)
+ */
+function forwardArc(from: number, to: number): number {
+  return normalizeDegrees(to - from);
+}
+
+/**
+ * Tropical ascendant longitude for a sidereal time, latitude and obliquity
+ */
+export function calculateAscendant(ramc: number, latitude: number, obliquity: number): number {
+  return normalizeDegrees(atan2D(
+    cosD(ramc),
+    -(sinD(ramc) * cosD(obliquity) + tanD(latitude) * sinD(obliquity))
+  ));
+}
+
+/**
+ * Tropical midheaven (MC) longitude for a sidereal time and obliquity
+ */
+export function calculateMidheaven(ramc: number, obliquity: number): number {
+  return normalizeDegrees(atan2D(sinD(ramc), cosD(ramc) * cosD(obliquity)));
+}
+
+/**
+ * Whether Placidus and Koch are defined at a latitude
+ */
+export function isPolarLatitude(latitude: number, obliquity: number): boolean {
+  return Math.abs(latitude) >= 90 - obliquity;
+}
+
+/**
+ * Ecliptic longitude with a given right ascension
+ */
+function longitudeFromRightAscension(rightAscension: number, obliquity: number): number {
+  return normalizeDegrees(atan2D(sinD(rightAscension), cosD(rightAscension) * cosD(obliquity)));
+}
+
+/**
+ * Whole Sign cusps: each house is one full sign, starting with the rising sign
+ */
+function wholeSignCusps(ascendant: number): number[] {
+  const firstSign = Math.floor(normalizeDegrees(ascendant) / 30) * 30;
+  return Array.from({ length: 12 }, (_, index) => normalizeDegrees(firstSign + index * 30));
+}
+
+/**
+ * Equal cusps: 30° houses measured from the ascendant degree
+ */
+function equalCusps(ascendant: number): number[] {
+  return Array.from({ length: 12 }, (_, index) => normalizeDegrees(ascendant + index * 30));
+}
+
+/**
+ * Sripati / Porphyry cusps: each quadrant between the angles trisected in longitude
+ */
+function sripatiCusps(ascendant: number, midheaven: number): number[] {
+  const ic = normalizeDegrees(midheaven + 180);
+  const descendant = normalizeDegrees(ascendant + 180);
+  const eastern = forwardArc(ascendant, ic) / 3;
+  const western = forwardArc(ic, descendant) / 3;
+
+  return [
+    ascendant,
+    ascendant + eastern,
+    ascendant + 2 * eastern,
+    ic,
+    ic + western,
+    ic + 2 * western,
+    descendant,
+    descendant + eastern,
+    descendant + 2 * eastern,
+    midheaven,
+    midheaven + western,
+    midheaven + 2 * western,
+  ].map(normalizeDegrees);
+}
+
+/**
+ * Placidus intermediate cusp by iterating on the cusp's own semi-arc
+ *
+ * @param fraction - Fraction of the semi-arc (1/3 or 2/3)
+ * @param aboveHorizon - Houses 11/12 use the diurnal arc, houses 2/3 the nocturnal arc
+ */
+function placidusCusp(
+  ramc: number,
+  latitude: number,
+  obliquity: number,
+  fraction: number,
+  aboveHorizon: boolean
+): number {
+  let longitude = longitudeFromRightAscension(ramc + (aboveHorizon ? 90 : 180) * fraction, obliquity);
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const declination = Math.asin(sinD(obliquity) * sinD(longitude)) / DEG;
+    const diurnalArc = Math.acos(-tanD(latitude) * tanD(declination)) / DEG;
+    const rightAscension = aboveHorizon
+      ? ramc + fraction * diurnalArc
+      : ramc + 180 - fraction * (180 - diurnalArc);
+    const next = longitudeFromRightAscension(rightAscension, obliquity);
+    const change = Math.abs(forwardArc(longitude, next) > 180 ? forwardArc(next, longitude) : forwardArc(longitude, next));
+    longitude = next;
+    if (change < 1e-7) break;
+  }
+  return longitude;
+}
+
+/**
+ * Placidus cusps: time trisection of each point's diurnal and nocturnal arcs
+ */
+function placidusCusps(ramc: number, latitude: number, obliquity: number, ascendant: number, midheaven: number): number[] {
+  const cusp11 = placidusCusp(ramc, latitude, obliquity, 1 / 3, true);
+  const cusp12 = placidusCusp(ramc, latitude, obliquity, 2 / 3, true);
+  const cusp2 = placidusCusp(ramc, latitude, obliquity, 2 / 3, false);
+  const cusp3 = placidusCusp(ramc, latitude, obliquity, 1 / 3, false);
+  return [
+    ascendant,
+    cusp2,
+    cusp3,
+    midheaven + 180,
+    cusp11 + 180,
+    cusp12 + 180,
+    ascendant + 180,
+    cusp2 + 180,
+    cusp3 + 180,
+    midheaven,
+    cusp11,
+    cusp12,
+  ].map(normalizeDegrees);
+}
+
+/**
+ * Koch cusps: trisection of the MC degree's ascensional time, projected on the horizon
+ */
+function kochCusps(ramc: number, latitude: number, obliquity: number, ascendant: number, midheaven: number): number[] {
+  const mcDeclination = Math.asin(sinD(obliquity) * sinD(midheaven)) / DEG;
+  const ascensionalDifference = Math.asin(
+    Math.max(-1, Math.min(1, tanD(latitude) * tanD(mcDeclination)))
+  ) / DEG;
+  const third = ascensionalDifference / 3;
+  // A point with right ascension x rises when the RAMC is x - 90
+  const risingPoint = (rightAscension: number) => calculateAscendant(rightAscension - 90, latitude, obliquity);
+
+  const cusp11 = risingPoint(ramc + 30 - 2 * third);
+  const cusp12 = risingPoint(ramc + 60 - third);
+  const cusp2 = risingPoint(ramc + 120 + third);
+  const cusp3 = risingPoint(ramc + 150 + 2 * third);
+  return [
+    ascendant,
+    cusp2,
+    cusp3,
+    midheaven + 180,
+    cusp11 + 180,
+    cusp12 + 180,
+    ascendant + 180,
+    cusp2 + 180,
+    cusp3 + 180,
+    midheaven,
+    cusp11,
+    cusp12,
+  ].map(normalizeDegrees);
+}
+
+/**
+ * Calculate the twelve house cusps for a house system
+ *
+ * Quadrant systems are computed from the sidereal time in the tropical zodiac
+ * and then shifted so that cusp 1 matches `angles.ascendant`. This keeps the
+ * cusps in whatever zodiac the ascendant is given in (tropical or sidereal).
+ */
+export function calculateHouseCusps(system: HouseSystem, angles: HouseAngles): HouseCuspResult {
+  const ascendant = normalizeDegrees(angles.ascendant);
+
+  if (system === 'whole_sign') {
+    return { cusps: wholeSignCusps(ascendant), system, requestedSystem: system, isFallback: false };
+  }
+  if (system === 'equal') {
+    return { cusps: equalCusps(ascendant), system, requestedSystem: system, isFallback: false };
+  }
+
+  const { siderealTime, latitude, obliquity } = angles;
+  if (siderealTime === undefined || latitude === undefined || obliquity === undefined) {
+    throw new Error(`${HOUSE_SYSTEM_NAMES[system]} houses need sidereal time, latitude and obliquity`);
+  }
+  if (latitude <= -90 || latitude >= 90) {
+    throw new Error(`Invalid latitude for house calculation: ${latitude}`);
+  }
+
+  const tropicalAscendant = calculateAscendant(siderealTime, latitude, obliquity);
+  const tropicalMidheaven = calculateMidheaven(siderealTime, obliquity);
+  const zodiacOffset = tropicalAscendant - ascendant;
+
+  let usedSystem: HouseSystem = system;
+  let tropicalCusps: number[];
+  if (system !== 'sripati' && isPolarLatitude(latitude, obliquity)) {
+    usedSystem = 'sripati';
+  }
+
+  switch (usedSystem) {
+    case 'placidus':
+      tropicalCusps = placidusCusps(siderealTime, latitude, obliquity, tropicalAscendant, tropicalMidheaven);
+      break;
+    case 'koch':
+      tropicalCusps = kochCusps(siderealTime, latitude, obliquity, tropicalAscendant, tropicalMidheaven);
+      break;
+    default:
+      tropicalCusps = sripatiCusps(tropicalAscendant, tropicalMidheaven);
+  }
+
+  return {
+    cusps: tropicalCusps.map(cusp => normalizeDegrees(cusp - zodiacOffset)),
+    system: usedSystem,
+    requestedSystem: system,
+    isFallback: usedSystem !== system,
+  };
+}
@@ -28,6 +28,8 @@ export type { HouseData, PlanetPosition, AspectData, AstrologyWheelData } from '
 export { StarMap, type StarMapProps } from './StarMap';
 export type { StarData, ConstellationData, StarMapData } from './StarMap';
 
+export { DashaTimeline, type DashaTimelineProps } from './DashaTimeline';
+
 // North Indian Chart Components - Module 171-174
 export { NorthIndianChart, type NorthIndianChartProps } from './NorthIndianChart';
 export type { 
@@ -37,6 +39,8 @@ export type {
   NorthIndianChartData,
   NorthIndianHouseData,
   NorthIndianAspectData,
+  NorthIndianChartType,
+  VedicChartData,
 } from './NorthIndianChart';
 
 export { NorthIndianChartLegend, type NorthIndianChartLegendProps } from './NorthIndianChartLegend';
@@ -52,6 +56,7 @@ export type {
   RawAstrologicalData,
   PlanetaryDignity,
   AspectData as NorthIndianAspectDataExtended,
+  AspectMode,
   ChartAnalysis,
 } from './NorthIndianChartDataProcessor';
 export {
@@ -61,11 +66,13 @@ export {
   calculateAngularDistance,
   calculatePlanetaryDignity,
   calculateAspects,
+  calculateVedicAspects,
   generateChartAnalysis,
   RASHI_BOUNDARIES,
   EXALTATION_POSITIONS,
   DEBILITATION_POSITIONS,
   PLANET_RULERSHIP,
+  GRAHA_DRISHTI,
   ASPECT_ORBS,
 } from './NorthIndianChartDataProcessor';
 
@@ -81,3 +88,430 @@ export type {
 
 // North Indian Chart Example - Module 175
 export { NorthIndianChartExample, type NorthIndianChartExampleProps } from './NorthIndianChartExample';
+
+// Ephemeris
+export {
+  calculateEphemeris,
+  calculatePlanetPosition,
+  calculatePlanetPositions,
+  julianDay,
+  julianDayFromDate,
+  julianDayFromLocal,
+  dateFromJulianDay,
+  deltaT,
+  nutation,
+  obliquityOfEcliptic,
+  greenwichSiderealTime,
+  localSiderealTime,
+  eclipticToEquatorial,
+  EPHEMERIS_PLANETS,
+  EPHEMERIS_RANGE,
+  J2000,
+} from './ephemerisUtils';
+export type { EphemerisInput, EphemerisResult, EphemerisPosition } from './ephemerisUtils';
+
+// House Systems
+export {
+  calculateHouseCusps,
+  calculateAscendant,
+  calculateMidheaven,
+  isPolarLatitude,
+  HOUSE_SYSTEM_NAMES,
+  QUADRANT_HOUSE_SYSTEMS,
+  DEFAULT_HOUSE_SYSTEM,
+} from './houseSystemUtils';
+export type { HouseSystem, HouseAngles, HouseCuspResult } from './houseSystemUtils';
+
+// Divisional Charts
+export {
+  calculateVargaLongitude,
+  calculateVargaData,
+  calculateDivisionalChart,
+  calculateDivisionalCharts,
+  VARGA_CHART_TYPES,
+  VARGA_DIVISIONS,
+  VARGA_NAMES,
+} from './vargaUtils';
+
+// Ayanamsa
+export {
+  getAyanamsa,
+  getAyanamsaForDatetime,
+  applyAyanamsa,
+  toSidereal,
+  formatAyanamsa,
+  isAyanamsaSystem,
+  parseAyanamsaSystem,
+  AYANAMSA_AT_J2000,
+  AYANAMSA_NAMES,
+  DEFAULT_AYANAMSA,
+} from './ayanamsaUtils';
+export type { AyanamsaSystem, AyanamsaConfig } from './ayanamsaUtils';
+
+// Vimshottari Dasha
+export {
+  calculateVimshottariDasha,
+  calculateChartDasha,
+  findActiveDashas,
+  getDashaPeriodsAtLevel,
+  getNakshatraLord,
+  DASHA_SEQUENCE,
+  DASHA_YEARS,
+  DASHA_LEVEL_NAMES,
+  VIMSHOTTARI_TOTAL_YEARS,
+} from './dashaUtils';
+export type { DashaLord, DashaLevel, DashaPeriod, DashaOptions, VimshottariDasha } from './dashaUtils';
+
+// Nakshatras
+export {
+  calculateNakshatra,
+  formatNakshatra,
+  NAKSHATRAS,
+  NAKSHATRA_NATURE_NAMES,
+  NAKSHATRA_SPAN,
+  PADA_SPAN,
+} from './nakshatraUtils';
+export type { NakshatraInfo, NakshatraPosition, NakshatraNature, NakshatraGana } from './nakshatraUtils';
+
+// Planetary friendship
+export {
+  getNaturalRelationship,
+  getTemporaryRelationship,
+  combineRelationships,
+  getCompoundRelationship,
+  COMPOUND_RELATIONSHIP_NAMES,
+} from './friendshipUtils';
+export type { Relationship, CompoundRelationship } from './friendshipUtils';
+
+// Shadbala
+export {
+  calculateShadbala,
+  SHADBALA_PLANETS,
+  SHADBALA_COMPONENT_NAMES,
+  REQUIRED_SHADBALA,
+  VIRUPAS_PER_RUPA,
+} from './shadbalaUtils';
+export type {
+  ShadbalaPlanet,
+  ShadbalaComponents,
+  ShadbalaDetails,
+  ShadbalaResult,
+  ShadbalaOptions,
+  ShadbalaInput,
+} from './shadbalaUtils';
+
+// Yogas
+export { detectYogas, YOGA_TYPE_NAMES } from './yogaUtils';
+export type { YogaType, YogaStrength, YogaResult } from './yogaUtils';
+
+// Ashtakavarga
+export { AshtakavargaGrid, type AshtakavargaGridProps, type AshtakavargaRow } from './AshtakavargaGrid';
+export {
+  calculateAshtakavarga,
+  getRashiBindus,
+  getHouseBindus,
+  isAshtakavargaPlanet,
+  ASHTAKAVARGA_PLANETS,
+  ASHTAKAVARGA_CONTRIBUTORS,
+  SARVASHTAKAVARGA_THRESHOLD,
+  BHINNASHTAKAVARGA_THRESHOLD,
+} from './ashtakavargaUtils';
+export type {
+  AshtakavargaPlanet,
+  AshtakavargaContributor,
+  BhinnashtakavargaTable,
+  AshtakavargaResult,
+} from './ashtakavargaUtils';
+
+// Regional chart styles
+export { VedicChart, type VedicChartProps, CHART_STYLES, CHART_STYLE_NAMES, DEFAULT_CHART_STYLE } from './VedicChart';
+export type { ChartStyle } from './VedicChart';
+export { ChartPreferencesProvider, ChartPreferencesContext, useChartPreferences } from './ChartPreferencesContext';
+export type { ChartPreferencesContextType, ChartPreferencesProviderProps } from './ChartPreferencesContext';
+export { SouthIndianChart, type SouthIndianChartProps } from './SouthIndianChart';
+export { EastIndianChart, type EastIndianChartProps } from './EastIndianChart';
+export type { FixedSignChartProps, FixedSignLayout, SignGeometry } from './FixedSignChart';
+export { getSignCells, getAscendantSign } from './signCellUtils';
+export type { SignCell } from './signCellUtils';
+
+// Transit, synastry and composite charts
+export {
+  WHEEL_ASPECTS,
+  TRANSIT_ORB_SCALE,
+  getMidpoint,
+  getWheelHouse,
+  calculateWheelAspects,
+  calculateCrossAspects,
+  createBiWheelData,
+  calculateCompositeChart,
+} from './synastryUtils';
+export type { WheelAspectType, WheelAspectOptions, BiWheelOptions } from './synastryUtils';
+
+// Ashtakoota matchmaking
+export {
+  KOOTA_MAX_POINTS,
+  KOOTA_NAMES,
+  MATCH_VERDICT_NAMES,
+  MANGLIK_HOUSES,
+  calculateGunaMilan,
+  getManglikStatus,
+  getMatchVerdict,
+  getGunaMilanScores,
+  getGunaMilanHighlights,
+  getGunaMilanCompatibilityData,
+} from './gunaMilanUtils';
+export type { Koota, GunaMilanChart, KootaScore, ManglikStatus, MatchVerdict, GunaMilanResult } from './gunaMilanUtils';
+
+// Lunar phases and moon times
+export {
+  SYNODIC_MONTH,
+  PRINCIPAL_PHASE_ANGLES,
+  MOON_PHASE_NAMES,
+  MOON_PHASE_SYMBOLS,
+  calculateLunarPhase,
+  findNextPhase,
+  getNextPhaseEvents,
+  getPhaseEventsBetween,
+  calculateMoonTimes,
+  getCurrentLunarPhaseData,
+} from './lunarPhaseUtils';
+export type { PrincipalPhase, LunarPhaseState, PhaseEvent, MoonTimes } from './lunarPhaseUtils';
+
+// Observer, sunrise/sunset and kaal periods
+export {
+  DEFAULT_OBSERVER_LOCATION,
+  calculateHorizontalPosition,
+  calculateAltitude,
+  localDayStart,
+  findHorizonCrossings,
+  nextLocalMidnight,
+  formatEventTime,
+} from './horizonUtils';
+export type { ObserverLocation, HorizonCrossings } from './horizonUtils';
+export {
+  SUNRISE_ALTITUDE,
+  CIVIL_TWILIGHT_ALTITUDE,
+  KAAL_PERIOD_NAMES,
+  KAAL_SEGMENTS,
+  calculateKaalPeriods,
+  calculateSunTimes,
+} from './sunTimesUtils';
+export type { KaalPeriod, TimeWindow, SunTimes } from './sunTimesUtils';
+
+// Panchang
+export {
+  PAKSHA_NAMES,
+  TITHI_NAMES,
+  VARAS,
+  YOGA_NAMES,
+  MOVABLE_KARANAS,
+  getTithiName,
+  getKaranaName,
+  formatTithiShort,
+  calculatePanchang,
+} from './panchangUtils';
+export type { Paksha, TithiInfo, VaraInfo, NakshatraLimb, YogaInfo, KaranaInfo, Panchang } from './panchangUtils';
+
+// Muhurta
+export {
+  MUHURTA_FACTOR_NAMES,
+  MUHURTA_RATING_NAMES,
+  AUSPICIOUS_TITHIS,
+  RIKTA_TITHIS,
+  NAKSHATRA_NATURE_POINTS,
+  VARA_POINTS,
+  KAAL_PENALTIES,
+  getMuhurtaRating,
+  scoreMuhurtaWindow,
+  findMuhurtas,
+} from './muhurtaUtils';
+export type { MuhurtaFactor, MuhurtaRating, MuhurtaReason, MuhurtaWindow, MuhurtaSearchOptions } from './muhurtaUtils';
+
+// Numerology
+export {
+  NUMEROLOGY_SYSTEM_NAMES,
+  NUMBER_HARMONY_NAMES,
+  LETTER_VALUES,
+  MASTER_NUMBERS,
+  KARMIC_DEBT_NUMBERS,
+  NUMBER_MEANINGS,
+  KARMIC_DEBT_MEANINGS,
+  reduceNumber,
+  getRootNumber,
+  getLetterValues,
+  calculateNameNumerology,
+  calculateBirthNumerology,
+  calculateNumerologyProfile,
+  getNumberHarmony,
+  analyzeBusinessName,
+} from './numerologyUtils';
+export type {
+  NumerologySystem,
+  NumberHarmony,
+  LetterValue,
+  NumberReduction,
+  NameNumerology,
+  BirthNumerology,
+  NumerologyProfile,
+  BusinessNameAnalysis,
+} from './numerologyUtils';
+
+// Retrogrades
+export {
+  RETROGRADE_PLANETS,
+  RETROGRADE_PHASE_NAMES,
+  RETROGRADE_EFFECTS,
+  STATION_ORB_DAYS,
+  findStations,
+  findRetrogradeCycles,
+  getRetrogradeSeason,
+  getRetrogradePhase,
+  getRetrogradeData,
+} from './retrogradeUtils';
+export type { RetrogradePlanet, RetrogradePhase, Station, RetrogradeCycle } from './retrogradeUtils';
+
+// Transit forecasts
+export {
+  FORECAST_PLANETS,
+  NATAL_FORECAST_PLANETS,
+  HOROSCOPE_CATEGORY_NAMES,
+  PLANET_CATEGORIES,
+  HOUSE_CATEGORIES,
+  PLANET_KEYWORDS,
+  HOUSE_AREAS,
+  PLANET_NUMBERS,
+  PLANET_COLORS,
+  getForecastRange,
+  findTransitEvents,
+  buildHoroscope,
+  generateHoroscope,
+  generateHoroscopes,
+} from './transitForecastUtils';
+export type { ForecastNatalChart, TransitEventKind, TransitEvent, ForecastOptions } from './transitForecastUtils';
+
+// Sky map
+export { BRIGHT_STARS, CONSTELLATION_FIGURES } from './starCatalogue';
+export type { CatalogueStar, ConstellationFigure } from './starCatalogue';
+export {
+  SKY_MAP_PLANETS,
+  PLANET_MAGNITUDES,
+  PLANET_MARKER_COLORS,
+  getStarColor,
+  precessFromJ2000,
+  getStarPosition,
+  getPlanetSkyPosition,
+  projectHorizontal,
+  createSkyMap,
+} from './skyMapUtils';
+export type { HorizontalPosition, SkyMapOptions } from './skyMapUtils';
+
+// Chart interchange
+export {
+  CHART_FORMAT_NAMES,
+  CHART_FORMAT_EXTENSIONS,
+  CHART_FILE_EXTENSIONS,
+  CHART_JSON_FORMAT,
+  CHART_JSON_VERSION,
+  validateBirthData,
+  parseAstrologChart,
+  serializeAstrologChart,
+  parseJHoraChart,
+  serializeJHoraChart,
+  parseAafCharts,
+  serializeAafCharts,
+  parseChartJson,
+  serializeChartJson,
+  detectChartFormat,
+  importCharts,
+  exportCharts,
+  getChartFileName,
+} from './chartInterchangeUtils';
+export type {
+  ChartFormat,
+  ChartBirthData,
+  CorpAstroChartEntry,
+  CorpAstroChartFile,
+  ImportedChart,
+} from './chartInterchangeUtils';
+
+// Rectification
+export {
+  LIFE_EVENT_NAMES,
+  LIFE_EVENT_SIGNIFICATORS,
+  RECTIFICATION_FACTOR_NAMES,
+  DASHA_LEVEL_WEIGHTS,
+  RECTIFICATION_TRANSITS,
+  rectifyBirthTime,
+  rectifyBirthTimeAsync,
+} from './rectificationUtils';
+export type {
+  LifeEventType,
+  LifeEvent,
+  EventSignificators,
+  RectificationFactor,
+  RectificationReason,
+  EventScore,
+  RectificationCandidate,
+  AscendantCandidate,
+  RectificationOptions,
+  RectificationProgressOptions,
+  RectificationResult,
+} from './rectificationUtils';
+
+// Places and historical time zones
+export { COUNTRY_NAMES, PLACES } from './placesData';
+export type { Place } from './placesData';
+export {
+  DEFAULT_PLACE_SEARCH_LIMIT,
+  normalizePlaceName,
+  getPlace,
+  getPlaceLocation,
+  formatPlaceName,
+  searchPlaces,
+  formatUtcOffset,
+  resolveBirthPlace,
+} from './placesUtils';
+export type { PlaceSearchOptions, PlaceMatch, ResolvedBirthPlace } from './placesUtils';
+export {
+  DAYLIGHT_RULES,
+  TIME_ZONES,
+  localMeanTimeOffset,
+  getZoneOffset,
+  resolveLocalTime,
+  julianDayInZone,
+} from './timeZoneUtils';
+export type { RuleDay, DaylightRule, TimeZoneEra, ZoneOffset, LocalTimeResolution } from './timeZoneUtils';
+
+// Solar, lunar and annual (Varshaphal) charts
+export {
+  RETURN_MEAN_MOTION,
+  findSolarReturn,
+  findLunarReturn,
+  findLunarReturns,
+  createWheelData,
+  castReturnChart,
+  calculateSolarReturn,
+  calculateLunarReturns,
+} from './returnChartUtils';
+export type { ReturnBody, ReturnZodiac, ReturnNatalChart, ReturnOptions, ReturnChart } from './returnChartUtils';
+export {
+  TAJIKA_PLANETS,
+  TAJIKA_OFFICE_NAMES,
+  calculatePanchavargiyaBala,
+  calculateSahams,
+  calculateMuntha,
+  calculateVarshaphal,
+} from './varshaphalUtils';
+export type {
+  VarshaphalNatalChart,
+  VarshaphalOptions,
+  TajikaPlanet,
+  TajikaOffice,
+  MunthaEffect,
+  SahamId,
+  Muntha,
+  PanchavargiyaBala,
+  OfficeBearer,
+  Saham,
+  VarshaphalResult,
+} from './varshaphalUtils';
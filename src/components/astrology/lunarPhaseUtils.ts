@@ -1,62 +1,316 @@
+/**
+ * Corp Astro UI Library - Lunar Phases
+ *
+ * Astronomical Moon phases from the offline ephemeris: the Sun-Moon
+ * elongation and illuminated fraction at any instant, the exact times of the
+ * principal phases (new, first quarter, full and last quarter) and moonrise
+ * and moonset for an observer.
+ *
+ * Models:
+ * - Phase angle and illuminated fraction: Meeus, Astronomical Algorithms ch. 48
+ * - Principal phases: Newton iteration on the apparent elongation (seconds)
+ * - Moonrise/moonset: upper limb on the horizon with refraction and the
+ *   Moon's horizontal parallax, located by hourly scan and bisection
+ *
+ * @module lunarPhaseUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
 import { LunarPhaseData, MoonPhase } from './LunarPhase';
+import { calculatePlanetPosition, dateFromJulianDay, julianDayFromDate } from './ephemerisUtils';
+import {
+  ObserverLocation,
+  HorizonCrossings,
+  DEFAULT_OBSERVER_LOCATION,
+  calculateAltitude,
+  findHorizonCrossings,
+  formatEventTime,
+  localDayStart,
+} from './horizonUtils';
 
-// Simple moon phase calculation (not astronomically perfect, but good for UI)
-// Source: https://www.subsystems.us/uploads/9/8/9/4/98948044/moonphase.pdf
-function calculateMoonPhase(date: Date): { phase: MoonPhase; illumination: number; nextPhase: MoonPhase; daysUntilNext: number } {
-  const phases: MoonPhase[] = [
-    'new_moon',
-    'waxing_crescent',
-    'first_quarter',
-    'waxing_gibbous',
-    'full_moon',
-    'waning_gibbous',
-    'last_quarter',
-    'waning_crescent',
-  ];
-  const activities: Record<MoonPhase, string[]> = {
-    new_moon: ['Set intentions', 'Start new projects', 'Meditate'],
-    waxing_crescent: ['Plan', 'Take first steps', 'Nourish ideas'],
-    first_quarter: ['Take action', 'Overcome obstacles', 'Push forward'],
-    waxing_gibbous: ['Refine', 'Adjust plans', 'Analyze'],
-    full_moon: ['Celebrate', 'Express gratitude', 'Harvest'],
-    waning_gibbous: ['Share wisdom', 'Give back', 'Declutter'],
-    last_quarter: ['Release', 'Forgive', 'Let go'],
-    waning_crescent: ['Rest', 'Reflect', 'Surrender'],
-  };
-  // Days since known new moon (2000-01-06)
-  const knownNewMoon = new Date(Date.UTC(2000, 0, 6, 18, 14));
-  const diff = date.getTime() - knownNewMoon.getTime();
-  const days = diff / (1000 * 60 * 60 * 24);
-  const lunations = days / 29.53058867;
-  const phaseIndex = Math.floor((lunations % 1) * 8) % 8;
-  const phase = phases[phaseIndex];
-  // Illumination (approximate)
-  const illumination = Math.round(50 * (1 - Math.cos(2 * Math.PI * ((lunations % 1)))));
-  // Next phase
-  const nextPhase = phases[(phaseIndex + 1) % 8];
-  const daysUntilNext = Math.round(29.53058867 / 8);
-  return { phase, illumination, nextPhase, daysUntilNext };
-}
-
-export function getCurrentLunarPhaseData(): LunarPhaseData {
-  const now = new Date();
-  const { phase, illumination, nextPhase, daysUntilNext } = calculateMoonPhase(now);
-  const activities: Record<MoonPhase, string[]> = {
-    new_moon: ['Set intentions', 'Start new projects', 'Meditate'],
-    waxing_crescent: ['Plan', 'Take first steps', 'Nourish ideas'],
-    first_quarter: ['Take action', 'Overcome obstacles', 'Push forward'],
-    waxing_gibbous: ['Refine', 'Adjust plans', 'Analyze'],
-    full_moon: ['Celebrate', 'Express gratitude', 'Harvest'],
-    waning_gibbous: ['Share wisdom', 'Give back', 'Declutter'],
-    last_quarter: ['Release', 'Forgive', 'Let go'],
-    waning_crescent: ['Rest', 'Reflect', 'Surrender'],
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * The four principal phases
+ */
+export type PrincipalPhase = 'new_moon' | 'first_quarter' | 'full_moon' | 'last_quarter';
+
+/**
+ * Phase of the Moon at an instant
+ */
+export interface LunarPhaseState {
+  /** Phase name (eight phases) */
+  phase: MoonPhase;
+  /** Apparent elongation of the Moon east of the Sun (0-360) */
+  elongation: number;
+  /** Sun-Moon-Earth phase angle in degrees (0 = full, 180 = new) */
+  phaseAngle: number;
+  /** Illuminated fraction of the disc (0-1) */
+  illumination: number;
+  /** Days since the previous new moon */
+  age: number;
+  /** Whether the illuminated fraction is increasing */
+  waxing: boolean;
+}
+
+/**
+ * Exact instant of a principal phase
+ */
+export interface PhaseEvent {
+  /** Principal phase */
+  phase: PrincipalPhase;
+  /** Instant of the phase */
+  date: Date;
+}
+
+/**
+ * Moonrise and moonset within a local day; either may not occur
+ */
+export type MoonTimes = HorizonCrossings;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Mean synodic month in days */
+export const SYNODIC_MONTH = 29.530588853;
+
+/**
+ * Elongation of each principal phase
+ */
+export const PRINCIPAL_PHASE_ANGLES: Record<PrincipalPhase, number> = {
+  new_moon: 0,
+  first_quarter: 90,
+  full_moon: 180,
+  last_quarter: 270,
+};
+
+/**
+ * Display names for each phase
+ */
+export const MOON_PHASE_NAMES: Record<MoonPhase, string> = {
+  new_moon: 'New Moon',
+  waxing_crescent: 'Waxing Crescent',
+  first_quarter: 'First Quarter',
+  waxing_gibbous: 'Waxing Gibbous',
+  full_moon: 'Full Moon',
+  waning_gibbous: 'Waning Gibbous',
+  last_quarter: 'Last Quarter',
+  waning_crescent: 'Waning Crescent',
+};
+
+/**
+ * Symbols for each phase
+ */
+export const MOON_PHASE_SYMBOLS: Record<MoonPhase, string> = {
+  new_moon: '🌑',
+  waxing_crescent: '🌒',
+  first_quarter: '🌓',
+  waxing_gibbous: '🌔',
+  full_moon: '🌕',
+  waning_gibbous: '🌖',
+  last_quarter: '🌗',
+  waning_crescent: '🌘',
+};
+
+const PHASES: MoonPhase[] = [
+  'new_moon',
+  'waxing_crescent',
+  'first_quarter',
+  'waxing_gibbous',
+  'full_moon',
+  'waning_gibbous',
+  'last_quarter',
+  'waning_crescent',
+];
+
+const PRINCIPAL_PHASES: PrincipalPhase[] = ['new_moon', 'first_quarter', 'full_moon', 'last_quarter'];
+
+const PHASE_ACTIVITIES: Record<MoonPhase, string[]> = {
+  new_moon: ['Set intentions', 'Start new projects', 'Meditate'],
+  waxing_crescent: ['Plan', 'Take first steps', 'Nourish ideas'],
+  first_quarter: ['Take action', 'Overcome obstacles', 'Push forward'],
+  waxing_gibbous: ['Refine', 'Adjust plans', 'Analyze'],
+  full_moon: ['Celebrate', 'Express gratitude', 'Harvest'],
+  waning_gibbous: ['Share wisdom', 'Give back', 'Declutter'],
+  last_quarter: ['Release', 'Forgive', 'Let go'],
+  waning_crescent: ['Rest', 'Reflect', 'Surrender'],
+};
+
+/** Mean daily gain of the Moon on the Sun in degrees */
+const MEAN_ELONGATION_RATE = 360 / SYNODIC_MONTH;
+
+/** Equatorial radius of the Earth and the astronomical unit in km */
+const EARTH_RADIUS_KM = 6378.14;
+const AU_KM = 149597870.7;
+
+/** Refraction and semi-diameter lowering of the horizon in degrees */
+const HORIZON_REFRACTION = 0.5667;
+
+const DEG = Math.PI / 180;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Signed difference a - b in degrees (-180 to 180)
+ */
+function angleDifference(a: number, b: number): number {
+  const diff = normalizeDegrees(a - b);
+  return diff > 180 ? diff - 360 : diff;
+}
+
+/**
+ * Apparent elongation of the Moon east of the Sun at a Julian Day (UT)
+ */
+function elongationAt(jdUT: number): number {
+  const moon = calculatePlanetPosition('moon', jdUT);
+  const sun = calculatePlanetPosition('sun', jdUT);
+  return normalizeDegrees(moon.longitude - sun.longitude);
+}
+
+/**
+ * Instant nearest an estimate at which the elongation equals a target
+ */
+function solveElongation(targetAngle: number, estimateJd: number): number {
+  let jd = estimateJd;
+  for (let iteration = 0; iteration < 8; iteration++) {
+    const correction = angleDifference(targetAngle, elongationAt(jd)) / MEAN_ELONGATION_RATE;
+    jd += correction;
+    if (Math.abs(correction) < 1e-5) break;
+  }
+  return jd;
+}
+
+/**
+ * Phase name for an elongation: each phase spans 45° centred on its angle
+ */
+function phaseFromElongation(elongation: number): MoonPhase {
+  return PHASES[Math.floor(normalizeDegrees(elongation + 22.5) / 45) % 8];
+}
+
+/**
+ * Phase of the Moon at an instant
+ */
+export function calculateLunarPhase(date: Date): LunarPhaseState {
+  const jd = julianDayFromDate(date);
+  const moon = calculatePlanetPosition('moon', jd);
+  const sun = calculatePlanetPosition('sun', jd);
+  const elongation = normalizeDegrees(moon.longitude - sun.longitude);
+
+  // Geocentric elongation, then the phase angle seen from the Moon (Meeus 48.2, 48.3)
+  const psi = Math.acos(Math.cos(moon.latitude * DEG) * Math.cos((moon.longitude - sun.longitude) * DEG));
+  const phaseAngle = Math.atan2(
+    sun.distance * Math.sin(psi),
+    moon.distance - sun.distance * Math.cos(psi)
+  ) / DEG;
+
+  const previousNewMoon = solveElongation(0, jd - elongation / MEAN_ELONGATION_RATE);
+
+  return {
+    phase: phaseFromElongation(elongation),
+    elongation,
+    phaseAngle,
+    illumination: (1 + Math.cos(phaseAngle * DEG)) / 2,
+    age: jd - previousNewMoon,
+    waxing: elongation < 180,
   };
+}
+
+/**
+ * First instant of a principal phase after a date
+ */
+export function findNextPhase(phase: PrincipalPhase, after: Date): Date {
+  const jd = julianDayFromDate(after);
+  const gap = normalizeDegrees(PRINCIPAL_PHASE_ANGLES[phase] - elongationAt(jd));
+  let eventJd = solveElongation(PRINCIPAL_PHASE_ANGLES[phase], jd + gap / MEAN_ELONGATION_RATE);
+  if (eventJd <= jd) {
+    eventJd = solveElongation(PRINCIPAL_PHASE_ANGLES[phase], eventJd + SYNODIC_MONTH);
+  }
+  return dateFromJulianDay(eventJd);
+}
+
+/**
+ * The next new, first-quarter, full and last-quarter moons after a date, in
+ * order of occurrence
+ */
+export function getNextPhaseEvents(after: Date): PhaseEvent[] {
+  return PRINCIPAL_PHASES
+    .map(phase => ({ phase, date: findNextPhase(phase, after) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Principal phases falling within a period, in order
+ */
+export function getPhaseEventsBetween(start: Date, end: Date): PhaseEvent[] {
+  const events: PhaseEvent[] = [];
+  let cursor = start;
+  while (cursor < end) {
+    const next = getNextPhaseEvents(cursor)[0];
+    if (next.date >= end) break;
+    events.push(next);
+    cursor = new Date(next.date.getTime() + 60000);
+  }
+  return events;
+}
+
+/**
+ * Height of the Moon's upper limb above the apparent horizon, in degrees
+ */
+function moonHeightAboveHorizon(jdUT: number, location: ObserverLocation): number {
+  const { altitude, distance } = calculateAltitude('moon', jdUT, location);
+  const parallax = Math.asin(EARTH_RADIUS_KM / (distance * AU_KM)) / DEG;
+  return altitude - (0.7275 * parallax - HORIZON_REFRACTION);
+}
+
+/**
+ * Moonrise and moonset on the location's calendar day containing a date
+ *
+ * The Moon rises about 50 minutes later each day, so roughly once a month a
+ * day has no moonrise or no moonset; the missing event is left undefined.
+ */
+export function calculateMoonTimes(date: Date, location: ObserverLocation = DEFAULT_OBSERVER_LOCATION): MoonTimes {
+  return findHorizonCrossings(
+    jd => moonHeightAboveHorizon(jd, location),
+    localDayStart(date, location.timezone)
+  );
+}
+
+/**
+ * Lunar phase card data for an instant and location
+ *
+ * The next phase is the next principal phase, with the days until it.
+ */
+export function getCurrentLunarPhaseData(
+  date: Date = new Date(),
+  location: ObserverLocation = DEFAULT_OBSERVER_LOCATION
+): LunarPhaseData {
+  const state = calculateLunarPhase(date);
+  const next = getNextPhaseEvents(date)[0];
+  const moonTimes = calculateMoonTimes(date, location);
+
   return {
-    phase,
-    illumination,
-    date: now.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }),
-    nextPhase,
-    daysUntilNext,
-    activities: activities[phase],
+    phase: state.phase,
+    illumination: Math.round(state.illumination * 100),
+    date: date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }),
+    nextPhase: next.phase,
+    daysUntilNext: Math.round(((next.date.getTime() - date.getTime()) / 86400000) * 10) / 10,
+    nextPhaseDate: next.date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    moonrise: formatEventTime(moonTimes.rise, location.timezone),
+    moonset: formatEventTime(moonTimes.set, location.timezone),
+    activities: PHASE_ACTIVITIES[state.phase],
   };
-} 
\ No newline at end of file
+}
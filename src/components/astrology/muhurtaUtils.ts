@@ -0,0 +1,414 @@
+/**
+ * Corp Astro UI Library - Muhurta Finder
+ *
+ * Searches a date range for auspicious windows to begin a venture
+ * (Vyapara Arambha) at a given place. Daytime is cut into equal windows from
+ * sunrise and each is scored on five factors reckoned at its start:
+ * - Tithi: Rikta tithis and Amavasya are avoided, the waxing fortnight favoured
+ * - Nakshatra: fixed, swift and soft nakshatras favoured, fierce and sharp avoided
+ * - Vara: weekdays of Mercury, Jupiter and Venus favoured, Mars and Saturn avoided
+ * - Kaal: overlap with Rahu Kaal, Yamaganda or Gulika Kaal is penalised
+ * - Lagna: fixed rising signs and benefic-ruled signs favoured
+ *
+ * Every window carries the reasons behind its score.
+ *
+ * @module muhurtaUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { PLANET_RULERSHIP, VedicPlanet, VedicRashi, VEDIC_RASHIS } from './NorthIndianChart';
+import { AyanamsaConfig, DEFAULT_AYANAMSA, getAyanamsa } from './ayanamsaUtils';
+import {
+  calculatePlanetPosition,
+  dateFromJulianDay,
+  deltaT,
+  julianDayFromDate,
+  localSiderealTime,
+  obliquityOfEcliptic,
+} from './ephemerisUtils';
+import { ObserverLocation, DEFAULT_OBSERVER_LOCATION, localDayStart } from './horizonUtils';
+import { calculateAscendant } from './houseSystemUtils';
+import { NAKSHATRA_NATURE_NAMES, NakshatraInfo, NakshatraNature, calculateNakshatra } from './nakshatraUtils';
+import { PAKSHA_NAMES, Paksha, VARAS, getTithiName } from './panchangUtils';
+import { KAAL_PERIOD_NAMES, KaalPeriod, TimeWindow, calculateSunTimes } from './sunTimesUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Factors a window is scored on
+ */
+export type MuhurtaFactor = 'tithi' | 'nakshatra' | 'vara' | 'kaal' | 'lagna';
+
+/**
+ * Overall quality of a window
+ */
+export type MuhurtaRating = 'excellent' | 'good' | 'fair' | 'poor';
+
+/**
+ * Contribution of one factor to a window's score
+ */
+export interface MuhurtaReason {
+  /** Factor scored */
+  factor: MuhurtaFactor;
+  /** Points awarded (negative for faults) */
+  points: number;
+  /** Explanation */
+  description: string;
+}
+
+/**
+ * A scored candidate window
+ */
+export interface MuhurtaWindow extends TimeWindow {
+  /** Total points */
+  score: number;
+  /** Highest total possible */
+  maxScore: number;
+  /** Overall quality */
+  rating: MuhurtaRating;
+  /** Tithi of the month (1-30) at the start */
+  tithi: number;
+  /** Fortnight at the start */
+  paksha: Paksha;
+  /** Moon's nakshatra at the start */
+  nakshatra: NakshatraInfo;
+  /** Lord of the weekday */
+  varaLord: VedicPlanet;
+  /** Sidereal rising sign at the start */
+  lagna: VedicRashi;
+  /** Per-factor breakdown */
+  reasons: MuhurtaReason[];
+}
+
+/**
+ * Muhurta search parameters
+ */
+export interface MuhurtaSearchOptions {
+  /** Start of the range */
+  start: Date;
+  /** End of the range */
+  end: Date;
+  /** Place of the event (default: New Delhi) */
+  location?: ObserverLocation;
+  /** Window length in minutes (default: 60) */
+  windowMinutes?: number;
+  /** Number of windows returned (default: 10) */
+  limit?: number;
+  /** Ayanamsa for the nakshatra and lagna (default: Lahiri) */
+  ayanamsaConfig?: AyanamsaConfig;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Display names for each factor
+ */
+export const MUHURTA_FACTOR_NAMES: Record<MuhurtaFactor, string> = {
+  tithi: 'Tithi',
+  nakshatra: 'Nakshatra',
+  vara: 'Weekday',
+  kaal: 'Rahu Kaal',
+  lagna: 'Ascendant',
+};
+
+/**
+ * Display names for each rating
+ */
+export const MUHURTA_RATING_NAMES: Record<MuhurtaRating, string> = {
+  excellent: 'Excellent',
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Avoid',
+};
+
+/**
+ * Tithis within a fortnight favoured for beginnings, and the Rikta (empty) tithis
+ */
+export const AUSPICIOUS_TITHIS = [2, 3, 5, 7, 10, 11, 13];
+export const RIKTA_TITHIS = [4, 9, 14];
+
+/**
+ * Points for the Moon's nakshatra by nature
+ */
+export const NAKSHATRA_NATURE_POINTS: Record<NakshatraNature, number> = {
+  fixed: 3,
+  swift: 3,
+  soft: 2,
+  movable: 1,
+  mixed: -1,
+  fierce: -3,
+  sharp: -3,
+};
+
+/**
+ * Points for the weekday, Sunday first
+ */
+export const VARA_POINTS = [0, 1, -2, 3, 3, 2, -2];
+
+/**
+ * Penalty for a window overlapping each period
+ */
+export const KAAL_PENALTIES: Record<KaalPeriod, number> = {
+  rahu_kaal: -5,
+  yamaganda: -2,
+  gulika_kaal: -1,
+};
+
+/** Points for a window clear of every kaal period */
+const KAAL_CLEAR_POINTS = 1;
+
+/** Best score of each factor */
+const MAX_POINTS: Record<MuhurtaFactor, number> = {
+  tithi: 3,
+  nakshatra: 3,
+  vara: 3,
+  kaal: KAAL_CLEAR_POINTS,
+  lagna: 3,
+};
+
+const MODALITIES = ['movable', 'fixed', 'dual'] as const;
+
+const BENEFIC_LORDS: VedicPlanet[] = ['jupiter', 'venus', 'mercury'];
+const MALEFIC_LORDS: VedicPlanet[] = ['mars', 'saturn'];
+
+/** Longest range searched, in days */
+const MAX_SEARCH_DAYS = 90;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatPoints(points: number): string {
+  return points > 0 ? `+${points}` : `${points}`;
+}
+
+/**
+ * Rating for a score out of the maximum
+ */
+export function getMuhurtaRating(score: number, maxScore: number): MuhurtaRating {
+  const ratio = score / maxScore;
+  if (ratio >= 0.7) return 'excellent';
+  if (ratio >= 0.4) return 'good';
+  if (ratio >= 0.1) return 'fair';
+  return 'poor';
+}
+
+/**
+ * Score the tithi (1-30)
+ */
+function scoreTithi(tithi: number): MuhurtaReason {
+  const paksha: Paksha = tithi <= 15 ? 'shukla' : 'krishna';
+  const pakshaNumber = ((tithi - 1) % 15) + 1;
+  const name = `${PAKSHA_NAMES[paksha]} ${getTithiName(tithi)}`;
+
+  let points = paksha === 'shukla' ? 1 : 0;
+  let quality = paksha === 'shukla' ? 'waxing Moon' : 'waning Moon';
+  if (tithi === 30) {
+    points = -3;
+    quality = 'new Moon, avoided for beginnings';
+  } else if (RIKTA_TITHIS.includes(pakshaNumber)) {
+    points -= 2;
+    quality = 'Rikta (empty) tithi, avoided for beginnings';
+  } else if (AUSPICIOUS_TITHIS.includes(pakshaNumber)) {
+    points += 2;
+    quality = `auspicious tithi, ${quality}`;
+  }
+
+  return { factor: 'tithi', points, description: `${name}: ${quality} (${formatPoints(points)})` };
+}
+
+/**
+ * Score the Moon's nakshatra
+ */
+function scoreNakshatra(nakshatra: NakshatraInfo): MuhurtaReason {
+  const points = NAKSHATRA_NATURE_POINTS[nakshatra.nature];
+  const quality = points > 0 ? 'favourable' : 'unfavourable';
+  return {
+    factor: 'nakshatra',
+    points,
+    description: `${nakshatra.name}: ${NAKSHATRA_NATURE_NAMES[nakshatra.nature]} nakshatra, ${quality} for starting a venture (${formatPoints(points)})`,
+  };
+}
+
+/**
+ * Score the weekday (Sunday = 0)
+ */
+function scoreVara(weekday: number): MuhurtaReason {
+  const points = VARA_POINTS[weekday];
+  const { name, lord } = VARAS[weekday];
+  const quality = points > 0 ? 'favourable' : points < 0 ? 'unfavourable' : 'neutral';
+  return {
+    factor: 'vara',
+    points,
+    description: `${name}: ruled by ${capitalize(lord)}, ${quality} for commerce (${formatPoints(points)})`,
+  };
+}
+
+/**
+ * Score the overlap of a window with the day's kaal periods
+ */
+function scoreKaal(window: TimeWindow, kaal: Record<KaalPeriod, TimeWindow>): MuhurtaReason {
+  const overlapping = (Object.keys(KAAL_PENALTIES) as KaalPeriod[]).filter(
+    period => window.start < kaal[period].end && window.end > kaal[period].start
+  );
+  if (overlapping.length === 0) {
+    return {
+      factor: 'kaal',
+      points: KAAL_CLEAR_POINTS,
+      description: `Clear of Rahu Kaal, Yamaganda and Gulika Kaal (${formatPoints(KAAL_CLEAR_POINTS)})`,
+    };
+  }
+
+  const points = overlapping.reduce((sum, period) => sum + KAAL_PENALTIES[period], 0);
+  return {
+    factor: 'kaal',
+    points,
+    description: `Overlaps ${overlapping.map(period => KAAL_PERIOD_NAMES[period]).join(' and ')} (${formatPoints(points)})`,
+  };
+}
+
+/**
+ * Score the rising sign
+ */
+function scoreLagna(lagna: VedicRashi): MuhurtaReason {
+  const modality = MODALITIES[VEDIC_RASHIS.indexOf(lagna) % 3];
+  const lord = PLANET_RULERSHIP[lagna];
+
+  let points = modality === 'fixed' ? 2 : modality === 'dual' ? 1 : 0;
+  const notes = [`${modality} sign`];
+  if (modality === 'fixed') notes[0] += ' lends permanence';
+  if (BENEFIC_LORDS.includes(lord)) {
+    points += 1;
+    notes.push(`ruled by benefic ${capitalize(lord)}`);
+  } else if (MALEFIC_LORDS.includes(lord)) {
+    points -= 1;
+    notes.push(`ruled by malefic ${capitalize(lord)}`);
+  }
+
+  return {
+    factor: 'lagna',
+    points,
+    description: `${capitalize(lagna)} rising: ${notes.join(', ')} (${formatPoints(points)})`,
+  };
+}
+
+/**
+ * Sidereal rising sign at an instant and place
+ */
+function siderealLagna(jdUT: number, location: ObserverLocation, ayanamsa: number): VedicRashi {
+  const jdTT = jdUT + deltaT(jdUT) / 86400;
+  const ascendant = calculateAscendant(
+    localSiderealTime(jdUT, location.longitude),
+    location.latitude,
+    obliquityOfEcliptic(jdTT)
+  );
+  return VEDIC_RASHIS[Math.floor(normalizeDegrees(ascendant - ayanamsa) / 30)];
+}
+
+/**
+ * Score a window on the day whose weekday and kaal periods are given
+ */
+export function scoreMuhurtaWindow(
+  window: TimeWindow,
+  weekday: number,
+  kaal: Record<KaalPeriod, TimeWindow>,
+  location: ObserverLocation = DEFAULT_OBSERVER_LOCATION,
+  ayanamsaConfig: AyanamsaConfig = { system: DEFAULT_AYANAMSA }
+): MuhurtaWindow {
+  const jd = julianDayFromDate(window.start);
+  const ayanamsa = getAyanamsa(ayanamsaConfig, jd);
+  const sun = calculatePlanetPosition('sun', jd).longitude;
+  const moon = calculatePlanetPosition('moon', jd).longitude;
+
+  const tithi = Math.floor(normalizeDegrees(moon - sun) / 12) + 1;
+  const nakshatra = calculateNakshatra(normalizeDegrees(moon - ayanamsa)).nakshatra;
+  const lagna = siderealLagna(jd, location, ayanamsa);
+
+  const reasons = [
+    scoreTithi(tithi),
+    scoreNakshatra(nakshatra),
+    scoreVara(weekday),
+    scoreKaal(window, kaal),
+    scoreLagna(lagna),
+  ];
+  const score = reasons.reduce((sum, reason) => sum + reason.points, 0);
+  const maxScore = Object.values(MAX_POINTS).reduce((sum, points) => sum + points, 0);
+
+  return {
+    start: window.start,
+    end: window.end,
+    score,
+    maxScore,
+    rating: getMuhurtaRating(score, maxScore),
+    tithi,
+    paksha: tithi <= 15 ? 'shukla' : 'krishna',
+    nakshatra,
+    varaLord: VARAS[weekday].lord,
+    lagna,
+    reasons,
+  };
+}
+
+/**
+ * Best windows for beginning a venture within a date range, highest score
+ * first (earlier windows first among equals)
+ *
+ * Only daytime is searched; days on which the Sun does not rise are skipped.
+ */
+export function findMuhurtas(options: MuhurtaSearchOptions): MuhurtaWindow[] {
+  const {
+    start,
+    end,
+    location = DEFAULT_OBSERVER_LOCATION,
+    windowMinutes = 60,
+    limit = 10,
+    ayanamsaConfig = { system: DEFAULT_AYANAMSA },
+  } = options;
+
+  if (end <= start) {
+    throw new Error('Muhurta search range must end after it starts');
+  }
+  if ((end.getTime() - start.getTime()) / 86400000 > MAX_SEARCH_DAYS) {
+    throw new Error(`Muhurta search range cannot exceed ${MAX_SEARCH_DAYS} days`);
+  }
+  if (!(windowMinutes >= 10)) {
+    throw new Error(`Invalid muhurta window length: ${windowMinutes} minutes`);
+  }
+
+  const windowLength = windowMinutes * 60000;
+  const windows: MuhurtaWindow[] = [];
+
+  for (let dayJd = localDayStart(start, location.timezone); dayJd < julianDayFromDate(end); dayJd += 1) {
+    const noon = dateFromJulianDay(dayJd + 0.5);
+    const { sunrise, sunset, kaal } = calculateSunTimes(noon, location);
+    if (!sunrise || !sunset || !kaal) continue;
+
+    const weekday = new Date(noon.getTime() + location.timezone * 3600000).getUTCDay();
+    for (let time = sunrise.getTime(); time + windowLength <= sunset.getTime(); time += windowLength) {
+      if (time < start.getTime() || time + windowLength > end.getTime()) continue;
+      const window = { start: new Date(time), end: new Date(time + windowLength) };
+      windows.push(scoreMuhurtaWindow(window, weekday, kaal, location, ayanamsaConfig));
+    }
+  }
+
+  return windows
+    .sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime())
+    .slice(0, limit);
+}
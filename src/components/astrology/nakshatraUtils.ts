@@ -0,0 +1,158 @@
+/**
+ * Corp Astro UI Library - Nakshatras
+ *
+ * The 27 lunar mansions of 13°20' each, measured from 0° sidereal Aries,
+ * with their padas (quarters of 3°20'), Vimshottari lords, presiding deities
+ * and nature (the seven-fold Dhruva/Chara/Ugra/Mishra/Kshipra/Mridu/Tikshna
+ * classification).
+ *
+ * @module nakshatraUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { DashaLord } from './dashaUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Seven-fold nakshatra nature
+ */
+export type NakshatraNature = 'fixed' | 'movable' | 'fierce' | 'mixed' | 'swift' | 'soft' | 'sharp';
+
+/**
+ * Temperament (gana) of a nakshatra
+ */
+export type NakshatraGana = 'deva' | 'manushya' | 'rakshasa';
+
+/**
+ * Static information about a nakshatra
+ */
+export interface NakshatraInfo {
+  /** Nakshatra number (1 = Ashwini ... 27 = Revati) */
+  number: number;
+  /** Name */
+  name: string;
+  /** Three-letter abbreviation for chart labels */
+  abbreviation: string;
+  /** Vimshottari lord */
+  lord: DashaLord;
+  /** Presiding deity */
+  deity: string;
+  /** Nature */
+  nature: NakshatraNature;
+  /** Temperament */
+  gana: NakshatraGana;
+}
+
+/**
+ * Nakshatra placement of a longitude
+ */
+export interface NakshatraPosition {
+  /** Nakshatra occupied */
+  nakshatra: NakshatraInfo;
+  /** Pada (1-4) */
+  pada: number;
+  /** Degrees traversed within the nakshatra (0 - 13.333) */
+  degreeInNakshatra: number;
+  /** Fraction of the nakshatra traversed (0-1) */
+  elapsed: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Arc of one nakshatra in degrees (13°20') */
+export const NAKSHATRA_SPAN = 360 / 27;
+
+/** Arc of one pada in degrees (3°20') */
+export const PADA_SPAN = NAKSHATRA_SPAN / 4;
+
+/**
+ * Display names for each nature, with the Sanskrit term
+ */
+export const NAKSHATRA_NATURE_NAMES: Record<NakshatraNature, string> = {
+  fixed: 'Fixed (Dhruva)',
+  movable: 'Movable (Chara)',
+  fierce: 'Fierce (Ugra)',
+  mixed: 'Mixed (Mishra)',
+  swift: 'Swift (Kshipra)',
+  soft: 'Soft (Mridu)',
+  sharp: 'Sharp (Tikshna)',
+};
+
+/**
+ * The 27 nakshatras in zodiacal order
+ */
+export const NAKSHATRAS: NakshatraInfo[] = [
+  { number: 1, name: 'Ashwini', abbreviation: 'Ash', lord: 'ketu', deity: 'Ashwini Kumaras', nature: 'swift', gana: 'deva' },
+  { number: 2, name: 'Bharani', abbreviation: 'Bha', lord: 'venus', deity: 'Yama', nature: 'fierce', gana: 'manushya' },
+  { number: 3, name: 'Krittika', abbreviation: 'Kri', lord: 'sun', deity: 'Agni', nature: 'mixed', gana: 'rakshasa' },
+  { number: 4, name: 'Rohini', abbreviation: 'Roh', lord: 'moon', deity: 'Brahma', nature: 'fixed', gana: 'manushya' },
+  { number: 5, name: 'Mrigashira', abbreviation: 'Mri', lord: 'mars', deity: 'Soma', nature: 'soft', gana: 'deva' },
+  { number: 6, name: 'Ardra', abbreviation: 'Ard', lord: 'rahu', deity: 'Rudra', nature: 'sharp', gana: 'manushya' },
+  { number: 7, name: 'Punarvasu', abbreviation: 'Pun', lord: 'jupiter', deity: 'Aditi', nature: 'movable', gana: 'deva' },
+  { number: 8, name: 'Pushya', abbreviation: 'Pus', lord: 'saturn', deity: 'Brihaspati', nature: 'swift', gana: 'deva' },
+  { number: 9, name: 'Ashlesha', abbreviation: 'Asl', lord: 'mercury', deity: 'Nagas', nature: 'sharp', gana: 'rakshasa' },
+  { number: 10, name: 'Magha', abbreviation: 'Mag', lord: 'ketu', deity: 'Pitris', nature: 'fierce', gana: 'rakshasa' },
+  { number: 11, name: 'Purva Phalguni', abbreviation: 'PPh', lord: 'venus', deity: 'Bhaga', nature: 'fierce', gana: 'manushya' },
+  { number: 12, name: 'Uttara Phalguni', abbreviation: 'UPh', lord: 'sun', deity: 'Aryaman', nature: 'fixed', gana: 'manushya' },
+  { number: 13, name: 'Hasta', abbreviation: 'Has', lord: 'moon', deity: 'Savitar', nature: 'swift', gana: 'deva' },
+  { number: 14, name: 'Chitra', abbreviation: 'Chi', lord: 'mars', deity: 'Vishvakarma', nature: 'soft', gana: 'rakshasa' },
+  { number: 15, name: 'Swati', abbreviation: 'Swa', lord: 'rahu', deity: 'Vayu', nature: 'movable', gana: 'deva' },
+  { number: 16, name: 'Vishakha', abbreviation: 'Vis', lord: 'jupiter', deity: 'Indra and Agni', nature: 'mixed', gana: 'rakshasa' },
+  { number: 17, name: 'Anuradha', abbreviation: 'Anu', lord: 'saturn', deity: 'Mitra', nature: 'soft', gana: 'deva' },
+  { number: 18, name: 'Jyeshtha', abbreviation: 'Jye', lord: 'mercury', deity: 'Indra', nature: 'sharp', gana: 'rakshasa' },
+  { number: 19, name: 'Mula', abbreviation: 'Mul', lord: 'ketu', deity: 'Nirriti', nature: 'sharp', gana: 'rakshasa' },
+  { number: 20, name: 'Purva Ashadha', abbreviation: 'PSh', lord: 'venus', deity: 'Apas', nature: 'fierce', gana: 'manushya' },
+  { number: 21, name: 'Uttara Ashadha', abbreviation: 'USh', lord: 'sun', deity: 'Vishvedevas', nature: 'fixed', gana: 'manushya' },
+  { number: 22, name: 'Shravana', abbreviation: 'Shr', lord: 'moon', deity: 'Vishnu', nature: 'movable', gana: 'deva' },
+  { number: 23, name: 'Dhanishta', abbreviation: 'Dha', lord: 'mars', deity: 'Vasus', nature: 'movable', gana: 'rakshasa' },
+  { number: 24, name: 'Shatabhisha', abbreviation: 'Sha', lord: 'rahu', deity: 'Varuna', nature: 'movable', gana: 'rakshasa' },
+  { number: 25, name: 'Purva Bhadrapada', abbreviation: 'PBh', lord: 'jupiter', deity: 'Aja Ekapada', nature: 'fierce', gana: 'manushya' },
+  { number: 26, name: 'Uttara Bhadrapada', abbreviation: 'UBh', lord: 'saturn', deity: 'Ahir Budhnya', nature: 'fixed', gana: 'manushya' },
+  { number: 27, name: 'Revati', abbreviation: 'Rev', lord: 'mercury', deity: 'Pushan', nature: 'soft', gana: 'deva' },
+];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Nakshatra, pada and position within the nakshatra for a sidereal longitude
+ */
+export function calculateNakshatra(longitude: number): NakshatraPosition {
+  if (!Number.isFinite(longitude)) {
+    throw new Error(`Invalid longitude: ${longitude}`);
+  }
+  const normalized = normalizeDegrees(longitude);
+  const index = Math.min(Math.floor(normalized / NAKSHATRA_SPAN), 26);
+  const degreeInNakshatra = normalized - index * NAKSHATRA_SPAN;
+
+  return {
+    nakshatra: NAKSHATRAS[index],
+    pada: Math.min(Math.floor(degreeInNakshatra / PADA_SPAN), 3) + 1,
+    degreeInNakshatra,
+    elapsed: degreeInNakshatra / NAKSHATRA_SPAN,
+  };
+}
+
+/**
+ * Format a nakshatra placement as "Pushya 2 (5°12')"
+ */
+export function formatNakshatra(position: NakshatraPosition): string {
+  const degrees = Math.floor(position.degreeInNakshatra);
+  const minutes = Math.floor((position.degreeInNakshatra - degrees) * 60);
+  return `${position.nakshatra.name} ${position.pada} (${degrees}°${String(minutes).padStart(2, '0')}')`;
+}
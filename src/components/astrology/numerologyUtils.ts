@@ -0,0 +1,388 @@
+/**
+ * Corp Astro UI Library - Numerology
+ *
+ * Name and birth-date numerology in the Pythagorean and Chaldean systems:
+ * - Destiny (Expression): all letters of the name
+ * - Soul Urge (Heart's Desire): the vowels
+ * - Personality: the consonants
+ * - Life Path: month, day and year of birth, each reduced before summing
+ * - Birthday: the day of the month
+ *
+ * Sums are reduced digit by digit until a single digit or a master number
+ * (11, 22, 33) remains. A compound of 13, 14, 16 or 19 met on the way marks a
+ * karmic debt. A, E, I, O and U are vowels; Y counts as a consonant.
+ *
+ * @module numerologyUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Letter-to-number tables
+ */
+export type NumerologySystem = 'pythagorean' | 'chaldean';
+
+/**
+ * Harmony between two core numbers
+ */
+export type NumberHarmony = 'natural' | 'compatible' | 'challenging';
+
+/**
+ * Value of one letter
+ */
+export interface LetterValue {
+  /** Letter (upper case) */
+  letter: string;
+  /** Number assigned */
+  value: number;
+  /** Whether the letter is a vowel */
+  isVowel: boolean;
+  /** Word of the text the letter belongs to (0-based) */
+  word: number;
+}
+
+/**
+ * A sum reduced to a core number
+ */
+export interface NumberReduction {
+  /** Unreduced sum */
+  total: number;
+  /** Core number (1-9, 11, 22 or 33; 0 for an empty sum) */
+  value: number;
+  /** Sums passed through, from the total to the core number */
+  steps: number[];
+  /** Whether the core number is a master number */
+  isMaster: boolean;
+  /** Karmic debt number met during reduction */
+  karmicDebt?: number;
+}
+
+/**
+ * Numbers of a name or phrase
+ */
+export interface NameNumerology {
+  /** Letter table used */
+  system: NumerologySystem;
+  /** Letters in order, with their values */
+  letters: LetterValue[];
+  /** All letters */
+  destiny: NumberReduction;
+  /** Vowels */
+  soulUrge: NumberReduction;
+  /** Consonants */
+  personality: NumberReduction;
+}
+
+/**
+ * Numbers of a date of birth
+ */
+export interface BirthNumerology {
+  /** Month, day and year reduced and summed */
+  lifePath: NumberReduction;
+  /** Day of the month */
+  birthday: NumberReduction;
+}
+
+/**
+ * Full numerology profile of a person
+ */
+export interface NumerologyProfile extends NameNumerology, BirthNumerology {
+  /** Master numbers among the core numbers */
+  masterNumbers: number[];
+  /** Karmic debt numbers among the core numbers */
+  karmicDebts: number[];
+}
+
+/**
+ * Fit of a business name with its owner's life path
+ */
+export interface BusinessNameAnalysis {
+  /** Numbers of the business name */
+  name: NameNumerology;
+  /** Owner's life path number */
+  lifePath: number;
+  /** Harmony of the name's destiny number with the life path */
+  harmony: NumberHarmony;
+  /** Match score (0-100) */
+  score: number;
+  /** Explanation */
+  description: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Display names for each system
+ */
+export const NUMEROLOGY_SYSTEM_NAMES: Record<NumerologySystem, string> = {
+  pythagorean: 'Pythagorean',
+  chaldean: 'Chaldean',
+};
+
+/**
+ * Display names for each harmony
+ */
+export const NUMBER_HARMONY_NAMES: Record<NumberHarmony, string> = {
+  natural: 'Natural Match',
+  compatible: 'Compatible',
+  challenging: 'Challenging',
+};
+
+/**
+ * Letter values in each system; Chaldean uses 1-8 only
+ */
+export const LETTER_VALUES: Record<NumerologySystem, Record<string, number>> = {
+  pythagorean: {
+    A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8, I: 9,
+    J: 1, K: 2, L: 3, M: 4, N: 5, O: 6, P: 7, Q: 8, R: 9,
+    S: 1, T: 2, U: 3, V: 4, W: 5, X: 6, Y: 7, Z: 8,
+  },
+  chaldean: {
+    A: 1, B: 2, C: 3, D: 4, E: 5, F: 8, G: 3, H: 5, I: 1,
+    J: 1, K: 2, L: 3, M: 4, N: 5, O: 7, P: 8, Q: 1, R: 2,
+    S: 3, T: 4, U: 6, V: 6, W: 6, X: 5, Y: 1, Z: 7,
+  },
+};
+
+/** Numbers kept unreduced */
+export const MASTER_NUMBERS = [11, 22, 33];
+
+/** Compound numbers marking a karmic debt */
+export const KARMIC_DEBT_NUMBERS = [13, 14, 16, 19];
+
+/**
+ * Keywords for each core number
+ */
+export const NUMBER_MEANINGS: Record<number, string> = {
+  1: 'Leadership, independence, pioneering drive',
+  2: 'Partnership, diplomacy, sensitivity',
+  3: 'Creativity, expression, optimism',
+  4: 'Structure, discipline, hard work',
+  5: 'Freedom, change, adaptability',
+  6: 'Responsibility, care, harmony',
+  7: 'Analysis, wisdom, introspection',
+  8: 'Ambition, authority, material success',
+  9: 'Compassion, completion, humanitarian vision',
+  11: 'Master intuition and inspiration',
+  22: 'Master builder of lasting achievements',
+  33: 'Master teacher of compassion',
+};
+
+/**
+ * Lessons of each karmic debt number
+ */
+export const KARMIC_DEBT_MEANINGS: Record<number, string> = {
+  13: 'Hard work and patience where shortcuts were taken',
+  14: 'Moderation and commitment where freedom was abused',
+  16: 'Humility and rebuilding after the fall of ego',
+  19: 'Independence balanced with accepting help',
+};
+
+/**
+ * Natural and compatible partners of each number; all others are challenging.
+ * Numbers of one triad (1-5-7, 2-4-8, 3-6-9) are natural matches.
+ */
+const NUMBER_HARMONY: Record<number, { natural: number[]; compatible: number[] }> = {
+  1: { natural: [1, 5, 7], compatible: [2, 3, 9] },
+  2: { natural: [2, 4, 8], compatible: [1, 3, 6] },
+  3: { natural: [3, 6, 9], compatible: [1, 2, 5] },
+  4: { natural: [2, 4, 8], compatible: [6, 7] },
+  5: { natural: [1, 5, 7], compatible: [3, 9] },
+  6: { natural: [3, 6, 9], compatible: [2, 4, 8] },
+  7: { natural: [1, 5, 7], compatible: [4] },
+  8: { natural: [2, 4, 8], compatible: [6] },
+  9: { natural: [3, 6, 9], compatible: [1, 5] },
+};
+
+/** Match score of each harmony */
+const HARMONY_SCORES: Record<NumberHarmony, number> = {
+  natural: 90,
+  compatible: 70,
+  challenging: 35,
+};
+
+const VOWELS = ['A', 'E', 'I', 'O', 'U'];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Sum of the decimal digits of a number
+ */
+function digitSum(value: number): number {
+  return String(value).split('').reduce((sum, digit) => sum + Number(digit), 0);
+}
+
+/**
+ * Reduce a sum to a single digit or master number
+ */
+export function reduceNumber(total: number): NumberReduction {
+  if (!Number.isInteger(total) || total < 0) {
+    throw new Error(`Cannot reduce ${total}: expected a non-negative integer`);
+  }
+
+  const steps = [total];
+  let value = total;
+  while (value > 9 && !MASTER_NUMBERS.includes(value)) {
+    value = digitSum(value);
+    steps.push(value);
+  }
+
+  return {
+    total,
+    value,
+    steps,
+    isMaster: MASTER_NUMBERS.includes(value),
+    karmicDebt: steps.find(step => KARMIC_DEBT_NUMBERS.includes(step)),
+  };
+}
+
+/**
+ * Number a master number reduces to (11 → 2); other numbers unchanged
+ */
+export function getRootNumber(value: number): number {
+  return value > 9 ? reduceNumber(digitSum(value)).value : value;
+}
+
+/**
+ * Values of the letters of a text; other characters are skipped and spaces
+ * separate words
+ */
+export function getLetterValues(text: string, system: NumerologySystem = 'pythagorean'): LetterValue[] {
+  const table = LETTER_VALUES[system];
+  return text
+    .normalize('NFD')
+    .toUpperCase()
+    .split(/\s+/)
+    .filter(word => /[A-Z]/.test(word))
+    .flatMap((word, index) =>
+      word
+        .split('')
+        .filter(letter => table[letter] !== undefined)
+        .map(letter => ({ letter, value: table[letter], isVowel: VOWELS.includes(letter), word: index }))
+    );
+}
+
+/**
+ * Destiny, Soul Urge and Personality numbers of a name or phrase
+ */
+export function calculateNameNumerology(text: string, system: NumerologySystem = 'pythagorean'): NameNumerology {
+  const letters = getLetterValues(text, system);
+  const sum = (filter: (letter: LetterValue) => boolean) =>
+    letters.filter(filter).reduce((total, letter) => total + letter.value, 0);
+
+  return {
+    system,
+    letters,
+    destiny: reduceNumber(sum(() => true)),
+    soulUrge: reduceNumber(sum(letter => letter.isVowel)),
+    personality: reduceNumber(sum(letter => !letter.isVowel)),
+  };
+}
+
+/**
+ * Life Path and Birthday numbers of a date of birth (calendar date as given)
+ */
+export function calculateBirthNumerology(year: number, month: number, day: number): BirthNumerology {
+  if (!Number.isInteger(year) || year < 1 || month < 1 || month > 12 || day < 1 || day > 31) {
+    throw new Error(`Invalid date of birth: ${year}-${month}-${day}`);
+  }
+
+  const parts = [month, day, year].map(part => reduceNumber(part).value);
+
+  return {
+    lifePath: reduceNumber(parts.reduce((sum, part) => sum + part, 0)),
+    birthday: reduceNumber(day),
+  };
+}
+
+/**
+ * Complete profile from a full name and a date of birth
+ */
+export function calculateNumerologyProfile(
+  name: string,
+  birthDate: Date,
+  system: NumerologySystem = 'pythagorean'
+): NumerologyProfile {
+  const nameNumbers = calculateNameNumerology(name, system);
+  const birthNumbers = calculateBirthNumerology(
+    birthDate.getFullYear(),
+    birthDate.getMonth() + 1,
+    birthDate.getDate()
+  );
+  const core = [
+    nameNumbers.destiny,
+    nameNumbers.soulUrge,
+    nameNumbers.personality,
+    birthNumbers.lifePath,
+    birthNumbers.birthday,
+  ];
+
+  return {
+    ...nameNumbers,
+    ...birthNumbers,
+    masterNumbers: [...new Set(core.filter(number => number.isMaster).map(number => number.value))],
+    karmicDebts: [...new Set(core.flatMap(number => (number.karmicDebt ? [number.karmicDebt] : [])))],
+  };
+}
+
+/**
+ * Harmony between two core numbers; master numbers count as their roots
+ */
+export function getNumberHarmony(a: number, b: number): NumberHarmony {
+  const rootA = getRootNumber(a);
+  const rootB = getRootNumber(b);
+  const partners = NUMBER_HARMONY[rootA];
+  if (!partners || !NUMBER_HARMONY[rootB]) {
+    throw new Error(`Cannot compare numbers ${a} and ${b}`);
+  }
+  if (partners.natural.includes(rootB)) return 'natural';
+  if (partners.compatible.includes(rootB)) return 'compatible';
+  return 'challenging';
+}
+
+/**
+ * How well a business name suits its owner's life path
+ *
+ * Business names are read in the Chaldean system by default. A master or
+ * shared number lifts the score; a karmic debt in the name lowers it.
+ */
+export function analyzeBusinessName(
+  businessName: string,
+  lifePath: number,
+  system: NumerologySystem = 'chaldean'
+): BusinessNameAnalysis {
+  const name = calculateNameNumerology(businessName, system);
+  if (name.letters.length === 0) {
+    throw new Error('Business name must contain at least one letter');
+  }
+
+  const destiny = name.destiny.value;
+  const harmony = getNumberHarmony(destiny, lifePath);
+  let score = HARMONY_SCORES[harmony];
+  if (getRootNumber(destiny) === getRootNumber(lifePath)) score += 5;
+  if (name.destiny.isMaster) score += 5;
+  if (name.destiny.karmicDebt) score -= 10;
+
+  const notes = [
+    `Name number ${destiny} (${NUMBER_MEANINGS[destiny]}) with life path ${lifePath}: ${NUMBER_HARMONY_NAMES[harmony]}.`,
+  ];
+  if (name.destiny.karmicDebt) {
+    notes.push(`The name carries karmic debt ${name.destiny.karmicDebt}: ${KARMIC_DEBT_MEANINGS[name.destiny.karmicDebt]}.`);
+  }
+
+  return {
+    name,
+    lifePath,
+    harmony,
+    score: Math.max(0, Math.min(100, score)),
+    description: notes.join(' '),
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * Corp Astro UI Library - Panchang
+ *
+ * The five limbs of the Hindu almanac for a date and place, reckoned at
+ * local sunrise as in printed panchangs:
+ * - Tithi: lunar day, each 12° of Moon-Sun elongation (30 per month)
+ * - Vara: weekday, running from sunrise to sunrise
+ * - Nakshatra: the Moon's sidereal lunar mansion
+ * - Yoga: each 13°20' of the sum of sidereal Sun and Moon (27 yogas)
+ * - Karana: half a tithi (60 per month, 11 names)
+ *
+ * Each limb carries the instant it ends, found by Newton iteration on the
+ * underlying angle. Where the Sun does not rise, local midnight is used.
+ *
+ * @module panchangUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { VedicPlanet, VedicRashi, VEDIC_RASHIS } from './NorthIndianChart';
+import { AyanamsaConfig, DEFAULT_AYANAMSA, getAyanamsa } from './ayanamsaUtils';
+import { calculatePlanetPosition, dateFromJulianDay, julianDayFromDate } from './ephemerisUtils';
+import { ObserverLocation, DEFAULT_OBSERVER_LOCATION, localDayStart } from './horizonUtils';
+import { NAKSHATRA_SPAN, NakshatraInfo, calculateNakshatra } from './nakshatraUtils';
+import { calculateSunTimes } from './sunTimesUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Lunar fortnight
+ */
+export type Paksha = 'shukla' | 'krishna';
+
+/**
+ * Lunar day
+ */
+export interface TithiInfo {
+  /** Tithi of the month (1-30; 15 = Purnima, 30 = Amavasya) */
+  number: number;
+  /** Tithi within its fortnight (1-15) */
+  pakshaNumber: number;
+  /** Fortnight */
+  paksha: Paksha;
+  /** Name */
+  name: string;
+  /** End of the tithi */
+  endsAt: Date;
+}
+
+/**
+ * Weekday
+ */
+export interface VaraInfo {
+  /** Weekday (Sunday = 0) */
+  number: number;
+  /** Sanskrit name */
+  name: string;
+  /** Ruling planet */
+  lord: VedicPlanet;
+  /** Next sunrise, if the Sun rises */
+  endsAt?: Date;
+}
+
+/**
+ * Moon's nakshatra
+ */
+export interface NakshatraLimb {
+  /** Nakshatra occupied */
+  nakshatra: NakshatraInfo;
+  /** Pada (1-4) */
+  pada: number;
+  /** End of the nakshatra */
+  endsAt: Date;
+}
+
+/**
+ * Sun-Moon yoga
+ */
+export interface YogaInfo {
+  /** Yoga number (1-27) */
+  number: number;
+  /** Name */
+  name: string;
+  /** End of the yoga */
+  endsAt: Date;
+}
+
+/**
+ * Half-tithi
+ */
+export interface KaranaInfo {
+  /** Karana of the month (1-60) */
+  number: number;
+  /** Name */
+  name: string;
+  /** End of the karana */
+  endsAt: Date;
+}
+
+/**
+ * Panchang of one day
+ */
+export interface Panchang {
+  /** Instant the limbs are reckoned at (sunrise, or local midnight) */
+  reckonedAt: Date;
+  /** Sunrise */
+  sunrise?: Date;
+  /** Sunset */
+  sunset?: Date;
+  /** Lunar day */
+  tithi: TithiInfo;
+  /** Weekday */
+  vara: VaraInfo;
+  /** Moon's nakshatra */
+  nakshatra: NakshatraLimb;
+  /** Sun-Moon yoga */
+  yoga: YogaInfo;
+  /** Half-tithi */
+  karana: KaranaInfo;
+  /** Sidereal sign of the Sun */
+  sunRashi: VedicRashi;
+  /** Sidereal sign of the Moon */
+  moonRashi: VedicRashi;
+  /** Ayanamsa used, in degrees */
+  ayanamsa: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Display names for each fortnight
+ */
+export const PAKSHA_NAMES: Record<Paksha, string> = {
+  shukla: 'Shukla',
+  krishna: 'Krishna',
+};
+
+/**
+ * Tithi names within a fortnight; the 15th is Purnima or Amavasya
+ */
+export const TITHI_NAMES = [
+  'Pratipada', 'Dwitiya', 'Tritiya', 'Chaturthi', 'Panchami',
+  'Shashthi', 'Saptami', 'Ashtami', 'Navami', 'Dashami',
+  'Ekadashi', 'Dwadashi', 'Trayodashi', 'Chaturdashi', 'Purnima',
+];
+
+/**
+ * Weekday names and lords, Sunday first
+ */
+export const VARAS: { name: string; lord: VedicPlanet }[] = [
+  { name: 'Ravivara', lord: 'sun' },
+  { name: 'Somavara', lord: 'moon' },
+  { name: 'Mangalavara', lord: 'mars' },
+  { name: 'Budhavara', lord: 'mercury' },
+  { name: 'Guruvara', lord: 'jupiter' },
+  { name: 'Shukravara', lord: 'venus' },
+  { name: 'Shanivara', lord: 'saturn' },
+];
+
+/**
+ * The 27 yogas in order
+ */
+export const YOGA_NAMES = [
+  'Vishkambha', 'Priti', 'Ayushman', 'Saubhagya', 'Shobhana', 'Atiganda', 'Sukarma',
+  'Dhriti', 'Shula', 'Ganda', 'Vriddhi', 'Dhruva', 'Vyaghata', 'Harshana',
+  'Vajra', 'Siddhi', 'Vyatipata', 'Variyana', 'Parigha', 'Shiva', 'Siddha',
+  'Sadhya', 'Shubha', 'Shukla', 'Brahma', 'Indra', 'Vaidhriti',
+];
+
+/**
+ * The seven movable karanas, repeating from the second half of Shukla Pratipada
+ */
+export const MOVABLE_KARANAS = ['Bava', 'Balava', 'Kaulava', 'Taitila', 'Gara', 'Vanija', 'Vishti'];
+
+/** Arc of a tithi and a karana in degrees */
+const TITHI_SPAN = 12;
+const KARANA_SPAN = 6;
+
+/** Mean daily motion of the elongation, the Moon and the Sun + Moon sum */
+const ELONGATION_RATE = 12.19;
+const MOON_RATE = 13.18;
+const YOGA_RATE = 14.17;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Signed difference a - b in degrees (-180 to 180)
+ */
+function angleDifference(a: number, b: number): number {
+  const diff = normalizeDegrees(a - b);
+  return diff > 180 ? diff - 360 : diff;
+}
+
+/**
+ * Instant after `jd` at which an increasing angle reaches a target
+ */
+function findAngleInstant(angleAt: (jd: number) => number, target: number, jd: number, rate: number): number {
+  let estimate = jd + normalizeDegrees(target - angleAt(jd)) / rate;
+  for (let iteration = 0; iteration < 8; iteration++) {
+    const correction = angleDifference(target, angleAt(estimate)) / rate;
+    estimate += correction;
+    if (Math.abs(correction) < 1e-5) break;
+  }
+  return estimate;
+}
+
+/**
+ * Name of a tithi of the month (1-30)
+ */
+export function getTithiName(number: number): string {
+  return number === 30 ? 'Amavasya' : TITHI_NAMES[(number - 1) % 15];
+}
+
+/**
+ * Name of a karana (1-60)
+ */
+export function getKaranaName(number: number): string {
+  if (number === 1) return 'Kimstughna';
+  if (number === 58) return 'Shakuni';
+  if (number === 59) return 'Chatushpada';
+  if (number === 60) return 'Naga';
+  return MOVABLE_KARANAS[(number - 2) % MOVABLE_KARANAS.length];
+}
+
+/**
+ * Short tithi label for compact displays, e.g. 'S11' or 'K3'
+ */
+export function formatTithiShort(tithi: TithiInfo): string {
+  return `${tithi.paksha === 'shukla' ? 'S' : 'K'}${tithi.pakshaNumber}`;
+}
+
+/**
+ * Panchang on the location's calendar day containing a date
+ */
+export function calculatePanchang(
+  date: Date,
+  location: ObserverLocation = DEFAULT_OBSERVER_LOCATION,
+  ayanamsaConfig: AyanamsaConfig = { system: DEFAULT_AYANAMSA }
+): Panchang {
+  const sunTimes = calculateSunTimes(date, location);
+  const jd = sunTimes.sunrise ? julianDayFromDate(sunTimes.sunrise) : localDayStart(date, location.timezone);
+  const ayanamsa = getAyanamsa(ayanamsaConfig, jd);
+
+  const longitudes = (time: number) => ({
+    sun: calculatePlanetPosition('sun', time).longitude,
+    moon: calculatePlanetPosition('moon', time).longitude,
+  });
+  const elongationAt = (time: number) => {
+    const { sun, moon } = longitudes(time);
+    return normalizeDegrees(moon - sun);
+  };
+  const siderealMoonAt = (time: number) => normalizeDegrees(longitudes(time).moon - ayanamsa);
+  const yogaSumAt = (time: number) => {
+    const { sun, moon } = longitudes(time);
+    return normalizeDegrees(sun + moon - 2 * ayanamsa);
+  };
+
+  const elongation = elongationAt(jd);
+  const siderealMoon = siderealMoonAt(jd);
+  const yogaSum = yogaSumAt(jd);
+  const siderealSun = normalizeDegrees(longitudes(jd).sun - ayanamsa);
+
+  // Tithi
+  const tithiIndex = Math.floor(elongation / TITHI_SPAN);
+  const paksha: Paksha = tithiIndex < 15 ? 'shukla' : 'krishna';
+  const pakshaNumber = (tithiIndex % 15) + 1;
+  const tithi: TithiInfo = {
+    number: tithiIndex + 1,
+    pakshaNumber,
+    paksha,
+    name: getTithiName(tithiIndex + 1),
+    endsAt: dateFromJulianDay(findAngleInstant(elongationAt, (tithiIndex + 1) * TITHI_SPAN, jd, ELONGATION_RATE)),
+  };
+
+  // Vara
+  const weekday = new Date(dateFromJulianDay(jd).getTime() + location.timezone * 3600000).getUTCDay();
+  const vara: VaraInfo = {
+    number: weekday,
+    ...VARAS[weekday],
+    endsAt: calculateSunTimes(new Date(date.getTime() + 86400000), location).sunrise,
+  };
+
+  // Nakshatra
+  const nakshatraPosition = calculateNakshatra(siderealMoon);
+  const nakshatra: NakshatraLimb = {
+    nakshatra: nakshatraPosition.nakshatra,
+    pada: nakshatraPosition.pada,
+    endsAt: dateFromJulianDay(
+      findAngleInstant(siderealMoonAt, nakshatraPosition.nakshatra.number * NAKSHATRA_SPAN, jd, MOON_RATE)
+    ),
+  };
+
+  // Yoga
+  const yogaIndex = Math.min(Math.floor(yogaSum / NAKSHATRA_SPAN), 26);
+  const yoga: YogaInfo = {
+    number: yogaIndex + 1,
+    name: YOGA_NAMES[yogaIndex],
+    endsAt: dateFromJulianDay(findAngleInstant(yogaSumAt, (yogaIndex + 1) * NAKSHATRA_SPAN, jd, YOGA_RATE)),
+  };
+
+  // Karana
+  const karanaIndex = Math.floor(elongation / KARANA_SPAN);
+  const karana: KaranaInfo = {
+    number: karanaIndex + 1,
+    name: getKaranaName(karanaIndex + 1),
+    endsAt: dateFromJulianDay(findAngleInstant(elongationAt, (karanaIndex + 1) * KARANA_SPAN, jd, ELONGATION_RATE)),
+  };
+
+  return {
+    reckonedAt: dateFromJulianDay(jd),
+    sunrise: sunTimes.sunrise,
+    sunset: sunTimes.sunset,
+    tithi,
+    vara,
+    nakshatra,
+    yoga,
+    karana,
+    sunRashi: VEDIC_RASHIS[Math.floor(siderealSun / 30)],
+    moonRashi: VEDIC_RASHIS[Math.floor(siderealMoon / 30)],
+    ayanamsa,
+  };
+}
@@ -0,0 +1,339 @@
+/**
+ * Corp Astro UI Library - Places Gazetteer
+ *
+ * Bundled offline places database for birth-place lookup: Indian cities down
+ * to district headquarters and pilgrimage towns, their neighbours, and the
+ * cities with the largest Indian diaspora. Coordinates are rounded to about
+ * ten metres; populations (thousands, urban area) rank search matches.
+ *
+ * Each place names the historical time zone it follows in TIME_ZONES, which
+ * is how Mumbai and Kolkata pick up their pre-1955 city times.
+ *
+ * @module placesData
+ * @version 1.0.0
+ * @since 2024
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Gazetteer entry for one place
+ */
+export interface Place {
+  /** Name slug with ISO country code, e.g. 'mumbai-in' */
+  id: string;
+  /** Current official name */
+  name: string;
+  /** State, province or region */
+  region?: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  /** Latitude in degrees, north positive */
+  latitude: number;
+  /** Longitude in degrees, east positive */
+  longitude: number;
+  /** Time zone id in TIME_ZONES */
+  timeZone: string;
+  /** Population in thousands */
+  population: number;
+  /** Former and alternative names */
+  aliases?: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Country names by ISO code
+ */
+export const COUNTRY_NAMES: Record<string, string> = {
+  AE: 'United Arab Emirates',
+  AU: 'Australia',
+  BD: 'Bangladesh',
+  BH: 'Bahrain',
+  BT: 'Bhutan',
+  CA: 'Canada',
+  CN: 'China',
+  DE: 'Germany',
+  FR: 'France',
+  GB: 'United Kingdom',
+  IN: 'India',
+  JP: 'Japan',
+  KE: 'Kenya',
+  KW: 'Kuwait',
+  LK: 'Sri Lanka',
+  MY: 'Malaysia',
+  NG: 'Nigeria',
+  NP: 'Nepal',
+  OM: 'Oman',
+  PK: 'Pakistan',
+  QA: 'Qatar',
+  SA: 'Saudi Arabia',
+  SG: 'Singapore',
+  TH: 'Thailand',
+  US: 'United States',
+  ZA: 'South Africa',
+};
+
+/**
+ * Places grouped by region
+ */
+export const PLACES: Place[] = [
+  // India
+  { id: 'mumbai-in', name: 'Mumbai', region: 'Maharashtra', country: 'IN', latitude: 19.076, longitude: 72.8777, timeZone: 'India/Bombay', population: 12442, aliases: ['Bombay'] },
+  { id: 'delhi-in', name: 'Delhi', region: 'Delhi', country: 'IN', latitude: 28.7041, longitude: 77.1025, timeZone: 'Asia/Kolkata', population: 16787, aliases: ['Dilli'] },
+  { id: 'new-delhi-in', name: 'New Delhi', region: 'Delhi', country: 'IN', latitude: 28.6139, longitude: 77.209, timeZone: 'Asia/Kolkata', population: 250 },
+  { id: 'bengaluru-in', name: 'Bengaluru', region: 'Karnataka', country: 'IN', latitude: 12.9716, longitude: 77.5946, timeZone: 'Asia/Kolkata', population: 8443, aliases: ['Bangalore'] },
+  { id: 'hyderabad-in', name: 'Hyderabad', region: 'Telangana', country: 'IN', latitude: 17.385, longitude: 78.4867, timeZone: 'Asia/Kolkata', population: 6810 },
+  { id: 'ahmedabad-in', name: 'Ahmedabad', region: 'Gujarat', country: 'IN', latitude: 23.0225, longitude: 72.5714, timeZone: 'Asia/Kolkata', population: 5577, aliases: ['Amdavad'] },
+  { id: 'chennai-in', name: 'Chennai', region: 'Tamil Nadu', country: 'IN', latitude: 13.0827, longitude: 80.2707, timeZone: 'Asia/Kolkata', population: 4646, aliases: ['Madras'] },
+  { id: 'kolkata-in', name: 'Kolkata', region: 'West Bengal', country: 'IN', latitude: 22.5726, longitude: 88.3639, timeZone: 'India/Calcutta', population: 4496, aliases: ['Calcutta'] },
+  { id: 'howrah-in', name: 'Howrah', region: 'West Bengal', country: 'IN', latitude: 22.5958, longitude: 88.2636, timeZone: 'India/Calcutta', population: 1077 },
+  { id: 'surat-in', name: 'Surat', region: 'Gujarat', country: 'IN', latitude: 21.1702, longitude: 72.8311, timeZone: 'Asia/Kolkata', population: 4467 },
+  { id: 'pune-in', name: 'Pune', region: 'Maharashtra', country: 'IN', latitude: 18.5204, longitude: 73.8567, timeZone: 'Asia/Kolkata', population: 3124, aliases: ['Poona'] },
+  { id: 'jaipur-in', name: 'Jaipur', region: 'Rajasthan', country: 'IN', latitude: 26.9124, longitude: 75.7873, timeZone: 'Asia/Kolkata', population: 3046 },
+  { id: 'lucknow-in', name: 'Lucknow', region: 'Uttar Pradesh', country: 'IN', latitude: 26.8467, longitude: 80.9462, timeZone: 'Asia/Kolkata', population: 2817 },
+  { id: 'kanpur-in', name: 'Kanpur', region: 'Uttar Pradesh', country: 'IN', latitude: 26.4499, longitude: 80.3319, timeZone: 'Asia/Kolkata', population: 2765, aliases: ['Cawnpore'] },
+  { id: 'nagpur-in', name: 'Nagpur', region: 'Maharashtra', country: 'IN', latitude: 21.1458, longitude: 79.0882, timeZone: 'Asia/Kolkata', population: 2406 },
+  { id: 'indore-in', name: 'Indore', region: 'Madhya Pradesh', country: 'IN', latitude: 22.7196, longitude: 75.8577, timeZone: 'Asia/Kolkata', population: 1960 },
+  { id: 'thane-in', name: 'Thane', region: 'Maharashtra', country: 'IN', latitude: 19.2183, longitude: 72.9781, timeZone: 'India/Bombay', population: 1841, aliases: ['Thana'] },
+  { id: 'bhopal-in', name: 'Bhopal', region: 'Madhya Pradesh', country: 'IN', latitude: 23.2599, longitude: 77.4126, timeZone: 'Asia/Kolkata', population: 1798 },
+  { id: 'visakhapatnam-in', name: 'Visakhapatnam', region: 'Andhra Pradesh', country: 'IN', latitude: 17.6868, longitude: 83.2185, timeZone: 'Asia/Kolkata', population: 1730, aliases: ['Vizag', 'Vishakhapatnam', 'Waltair'] },
+  { id: 'patna-in', name: 'Patna', region: 'Bihar', country: 'IN', latitude: 25.5941, longitude: 85.1376, timeZone: 'Asia/Kolkata', population: 1684 },
+  { id: 'vadodara-in', name: 'Vadodara', region: 'Gujarat', country: 'IN', latitude: 22.3072, longitude: 73.1812, timeZone: 'Asia/Kolkata', population: 1670, aliases: ['Baroda'] },
+  { id: 'ghaziabad-in', name: 'Ghaziabad', region: 'Uttar Pradesh', country: 'IN', latitude: 28.6692, longitude: 77.4538, timeZone: 'Asia/Kolkata', population: 1648 },
+  { id: 'ludhiana-in', name: 'Ludhiana', region: 'Punjab', country: 'IN', latitude: 30.901, longitude: 75.8573, timeZone: 'Asia/Kolkata', population: 1618 },
+  { id: 'agra-in', name: 'Agra', region: 'Uttar Pradesh', country: 'IN', latitude: 27.1767, longitude: 78.0081, timeZone: 'Asia/Kolkata', population: 1585 },
+  { id: 'nashik-in', name: 'Nashik', region: 'Maharashtra', country: 'IN', latitude: 19.9975, longitude: 73.7898, timeZone: 'Asia/Kolkata', population: 1486, aliases: ['Nasik'] },
+  { id: 'faridabad-in', name: 'Faridabad', region: 'Haryana', country: 'IN', latitude: 28.4089, longitude: 77.3178, timeZone: 'Asia/Kolkata', population: 1404 },
+  { id: 'meerut-in', name: 'Meerut', region: 'Uttar Pradesh', country: 'IN', latitude: 28.9845, longitude: 77.7064, timeZone: 'Asia/Kolkata', population: 1305 },
+  { id: 'rajkot-in', name: 'Rajkot', region: 'Gujarat', country: 'IN', latitude: 22.3039, longitude: 70.8022, timeZone: 'Asia/Kolkata', population: 1286 },
+  { id: 'kalyan-in', name: 'Kalyan', region: 'Maharashtra', country: 'IN', latitude: 19.2403, longitude: 73.1305, timeZone: 'Asia/Kolkata', population: 1247, aliases: ['Kalyan-Dombivli'] },
+  { id: 'asansol-in', name: 'Asansol', region: 'West Bengal', country: 'IN', latitude: 23.6739, longitude: 86.9524, timeZone: 'Asia/Kolkata', population: 1243 },
+  { id: 'varanasi-in', name: 'Varanasi', region: 'Uttar Pradesh', country: 'IN', latitude: 25.3176, longitude: 82.9739, timeZone: 'Asia/Kolkata', population: 1201, aliases: ['Benares', 'Banaras', 'Kashi'] },
+  { id: 'srinagar-in', name: 'Srinagar', region: 'Jammu and Kashmir', country: 'IN', latitude: 34.0837, longitude: 74.7973, timeZone: 'Asia/Kolkata', population: 1180 },
+  { id: 'aurangabad-in', name: 'Aurangabad', region: 'Maharashtra', country: 'IN', latitude: 19.8762, longitude: 75.3433, timeZone: 'Asia/Kolkata', population: 1175, aliases: ['Chhatrapati Sambhajinagar'] },
+  { id: 'dhanbad-in', name: 'Dhanbad', region: 'Jharkhand', country: 'IN', latitude: 23.7957, longitude: 86.4304, timeZone: 'Asia/Kolkata', population: 1162 },
+  { id: 'amritsar-in', name: 'Amritsar', region: 'Punjab', country: 'IN', latitude: 31.634, longitude: 74.8723, timeZone: 'Asia/Kolkata', population: 1132 },
+  { id: 'navi-mumbai-in', name: 'Navi Mumbai', region: 'Maharashtra', country: 'IN', latitude: 19.033, longitude: 73.0297, timeZone: 'Asia/Kolkata', population: 1120, aliases: ['New Bombay'] },
+  { id: 'prayagraj-in', name: 'Prayagraj', region: 'Uttar Pradesh', country: 'IN', latitude: 25.4358, longitude: 81.8463, timeZone: 'Asia/Kolkata', population: 1117, aliases: ['Allahabad'] },
+  { id: 'ranchi-in', name: 'Ranchi', region: 'Jharkhand', country: 'IN', latitude: 23.3441, longitude: 85.3096, timeZone: 'Asia/Kolkata', population: 1073 },
+  { id: 'jabalpur-in', name: 'Jabalpur', region: 'Madhya Pradesh', country: 'IN', latitude: 23.1815, longitude: 79.9864, timeZone: 'Asia/Kolkata', population: 1055, aliases: ['Jubbulpore'] },
+  { id: 'gwalior-in', name: 'Gwalior', region: 'Madhya Pradesh', country: 'IN', latitude: 26.2183, longitude: 78.1828, timeZone: 'Asia/Kolkata', population: 1054 },
+  { id: 'coimbatore-in', name: 'Coimbatore', region: 'Tamil Nadu', country: 'IN', latitude: 11.0168, longitude: 76.9558, timeZone: 'Asia/Kolkata', population: 1050, aliases: ['Kovai'] },
+  { id: 'vijayawada-in', name: 'Vijayawada', region: 'Andhra Pradesh', country: 'IN', latitude: 16.5062, longitude: 80.648, timeZone: 'Asia/Kolkata', population: 1048, aliases: ['Bezawada'] },
+  { id: 'jodhpur-in', name: 'Jodhpur', region: 'Rajasthan', country: 'IN', latitude: 26.2389, longitude: 73.0243, timeZone: 'Asia/Kolkata', population: 1033 },
+  { id: 'madurai-in', name: 'Madurai', region: 'Tamil Nadu', country: 'IN', latitude: 9.9252, longitude: 78.1198, timeZone: 'Asia/Kolkata', population: 1017 },
+  { id: 'raipur-in', name: 'Raipur', region: 'Chhattisgarh', country: 'IN', latitude: 21.2514, longitude: 81.6296, timeZone: 'Asia/Kolkata', population: 1010 },
+  { id: 'kota-in', name: 'Kota', region: 'Rajasthan', country: 'IN', latitude: 25.2138, longitude: 75.8648, timeZone: 'Asia/Kolkata', population: 1001 },
+  { id: 'guwahati-in', name: 'Guwahati', region: 'Assam', country: 'IN', latitude: 26.1445, longitude: 91.7362, timeZone: 'Asia/Kolkata', population: 968, aliases: ['Gauhati'] },
+  { id: 'chandigarh-in', name: 'Chandigarh', region: 'Chandigarh', country: 'IN', latitude: 30.7333, longitude: 76.7794, timeZone: 'Asia/Kolkata', population: 961 },
+  { id: 'solapur-in', name: 'Solapur', region: 'Maharashtra', country: 'IN', latitude: 17.6599, longitude: 75.9064, timeZone: 'Asia/Kolkata', population: 951, aliases: ['Sholapur'] },
+  { id: 'hubballi-in', name: 'Hubballi', region: 'Karnataka', country: 'IN', latitude: 15.3647, longitude: 75.124, timeZone: 'Asia/Kolkata', population: 943, aliases: ['Hubli', 'Hubli-Dharwad'] },
+  { id: 'bareilly-in', name: 'Bareilly', region: 'Uttar Pradesh', country: 'IN', latitude: 28.367, longitude: 79.4304, timeZone: 'Asia/Kolkata', population: 904 },
+  { id: 'mysuru-in', name: 'Mysuru', region: 'Karnataka', country: 'IN', latitude: 12.2958, longitude: 76.6394, timeZone: 'Asia/Kolkata', population: 893, aliases: ['Mysore'] },
+  { id: 'moradabad-in', name: 'Moradabad', region: 'Uttar Pradesh', country: 'IN', latitude: 28.8386, longitude: 78.7733, timeZone: 'Asia/Kolkata', population: 887 },
+  { id: 'gurugram-in', name: 'Gurugram', region: 'Haryana', country: 'IN', latitude: 28.4595, longitude: 77.0266, timeZone: 'Asia/Kolkata', population: 877, aliases: ['Gurgaon'] },
+  { id: 'tiruppur-in', name: 'Tiruppur', region: 'Tamil Nadu', country: 'IN', latitude: 11.1085, longitude: 77.3411, timeZone: 'Asia/Kolkata', population: 877, aliases: ['Tirupur'] },
+  { id: 'aligarh-in', name: 'Aligarh', region: 'Uttar Pradesh', country: 'IN', latitude: 27.8974, longitude: 78.088, timeZone: 'Asia/Kolkata', population: 874 },
+  { id: 'jalandhar-in', name: 'Jalandhar', region: 'Punjab', country: 'IN', latitude: 31.326, longitude: 75.5762, timeZone: 'Asia/Kolkata', population: 862, aliases: ['Jullundur'] },
+  { id: 'tiruchirappalli-in', name: 'Tiruchirappalli', region: 'Tamil Nadu', country: 'IN', latitude: 10.7905, longitude: 78.7047, timeZone: 'Asia/Kolkata', population: 847, aliases: ['Trichy', 'Trichinopoly'] },
+  { id: 'bhubaneswar-in', name: 'Bhubaneswar', region: 'Odisha', country: 'IN', latitude: 20.2961, longitude: 85.8245, timeZone: 'Asia/Kolkata', population: 837 },
+  { id: 'salem-in', name: 'Salem', region: 'Tamil Nadu', country: 'IN', latitude: 11.6643, longitude: 78.146, timeZone: 'Asia/Kolkata', population: 829 },
+  { id: 'warangal-in', name: 'Warangal', region: 'Telangana', country: 'IN', latitude: 17.9689, longitude: 79.5941, timeZone: 'Asia/Kolkata', population: 811 },
+  { id: 'thiruvananthapuram-in', name: 'Thiruvananthapuram', region: 'Kerala', country: 'IN', latitude: 8.5241, longitude: 76.9366, timeZone: 'Asia/Kolkata', population: 752, aliases: ['Trivandrum'] },
+  { id: 'guntur-in', name: 'Guntur', region: 'Andhra Pradesh', country: 'IN', latitude: 16.3067, longitude: 80.4365, timeZone: 'Asia/Kolkata', population: 743 },
+  { id: 'gorakhpur-in', name: 'Gorakhpur', region: 'Uttar Pradesh', country: 'IN', latitude: 26.7606, longitude: 83.3732, timeZone: 'Asia/Kolkata', population: 674 },
+  { id: 'amravati-in', name: 'Amravati', region: 'Maharashtra', country: 'IN', latitude: 20.9374, longitude: 77.7796, timeZone: 'Asia/Kolkata', population: 647, aliases: ['Amraoti'] },
+  { id: 'bikaner-in', name: 'Bikaner', region: 'Rajasthan', country: 'IN', latitude: 28.0229, longitude: 73.3119, timeZone: 'Asia/Kolkata', population: 644 },
+  { id: 'noida-in', name: 'Noida', region: 'Uttar Pradesh', country: 'IN', latitude: 28.5355, longitude: 77.391, timeZone: 'Asia/Kolkata', population: 642 },
+  { id: 'jamshedpur-in', name: 'Jamshedpur', region: 'Jharkhand', country: 'IN', latitude: 22.8046, longitude: 86.2029, timeZone: 'Asia/Kolkata', population: 629, aliases: ['Tatanagar'] },
+  { id: 'bhilai-in', name: 'Bhilai', region: 'Chhattisgarh', country: 'IN', latitude: 21.1938, longitude: 81.3509, timeZone: 'Asia/Kolkata', population: 625 },
+  { id: 'cuttack-in', name: 'Cuttack', region: 'Odisha', country: 'IN', latitude: 20.4625, longitude: 85.883, timeZone: 'Asia/Kolkata', population: 606 },
+  { id: 'bhavnagar-in', name: 'Bhavnagar', region: 'Gujarat', country: 'IN', latitude: 21.7645, longitude: 72.1519, timeZone: 'Asia/Kolkata', population: 605 },
+  { id: 'kochi-in', name: 'Kochi', region: 'Kerala', country: 'IN', latitude: 9.9312, longitude: 76.2673, timeZone: 'Asia/Kolkata', population: 602, aliases: ['Cochin', 'Ernakulam'] },
+  { id: 'dehradun-in', name: 'Dehradun', region: 'Uttarakhand', country: 'IN', latitude: 30.3165, longitude: 78.0322, timeZone: 'Asia/Kolkata', population: 578, aliases: ['Dehra Dun'] },
+  { id: 'durgapur-in', name: 'Durgapur', region: 'West Bengal', country: 'IN', latitude: 23.5204, longitude: 87.3119, timeZone: 'Asia/Kolkata', population: 566 },
+  { id: 'bokaro-in', name: 'Bokaro', region: 'Jharkhand', country: 'IN', latitude: 23.6693, longitude: 86.1511, timeZone: 'Asia/Kolkata', population: 564, aliases: ['Bokaro Steel City'] },
+  { id: 'nanded-in', name: 'Nanded', region: 'Maharashtra', country: 'IN', latitude: 19.1383, longitude: 77.321, timeZone: 'Asia/Kolkata', population: 550 },
+  { id: 'kolhapur-in', name: 'Kolhapur', region: 'Maharashtra', country: 'IN', latitude: 16.705, longitude: 74.2433, timeZone: 'Asia/Kolkata', population: 549 },
+  { id: 'ajmer-in', name: 'Ajmer', region: 'Rajasthan', country: 'IN', latitude: 26.4499, longitude: 74.6399, timeZone: 'Asia/Kolkata', population: 542 },
+  { id: 'kalaburagi-in', name: 'Kalaburagi', region: 'Karnataka', country: 'IN', latitude: 17.3297, longitude: 76.8343, timeZone: 'Asia/Kolkata', population: 533, aliases: ['Gulbarga'] },
+  { id: 'jamnagar-in', name: 'Jamnagar', region: 'Gujarat', country: 'IN', latitude: 22.4707, longitude: 70.0577, timeZone: 'Asia/Kolkata', population: 529 },
+  { id: 'ujjain-in', name: 'Ujjain', region: 'Madhya Pradesh', country: 'IN', latitude: 23.1765, longitude: 75.7885, timeZone: 'Asia/Kolkata', population: 515, aliases: ['Avantika'] },
+  { id: 'siliguri-in', name: 'Siliguri', region: 'West Bengal', country: 'IN', latitude: 26.7271, longitude: 88.3953, timeZone: 'Asia/Kolkata', population: 513 },
+  { id: 'jhansi-in', name: 'Jhansi', region: 'Uttar Pradesh', country: 'IN', latitude: 25.4484, longitude: 78.5685, timeZone: 'Asia/Kolkata', population: 505 },
+  { id: 'nellore-in', name: 'Nellore', region: 'Andhra Pradesh', country: 'IN', latitude: 14.4426, longitude: 79.9865, timeZone: 'Asia/Kolkata', population: 505 },
+  { id: 'jammu-in', name: 'Jammu', region: 'Jammu and Kashmir', country: 'IN', latitude: 32.7266, longitude: 74.857, timeZone: 'Asia/Kolkata', population: 503 },
+  { id: 'sangli-in', name: 'Sangli', region: 'Maharashtra', country: 'IN', latitude: 16.8524, longitude: 74.5815, timeZone: 'Asia/Kolkata', population: 502 },
+  { id: 'erode-in', name: 'Erode', region: 'Tamil Nadu', country: 'IN', latitude: 11.341, longitude: 77.7172, timeZone: 'Asia/Kolkata', population: 498 },
+  { id: 'mangaluru-in', name: 'Mangaluru', region: 'Karnataka', country: 'IN', latitude: 12.9141, longitude: 74.856, timeZone: 'Asia/Kolkata', population: 488, aliases: ['Mangalore'] },
+  { id: 'belagavi-in', name: 'Belagavi', region: 'Karnataka', country: 'IN', latitude: 15.8497, longitude: 74.4977, timeZone: 'Asia/Kolkata', population: 488, aliases: ['Belgaum'] },
+  { id: 'rourkela-in', name: 'Rourkela', region: 'Odisha', country: 'IN', latitude: 22.2604, longitude: 84.8536, timeZone: 'Asia/Kolkata', population: 483 },
+  { id: 'tirunelveli-in', name: 'Tirunelveli', region: 'Tamil Nadu', country: 'IN', latitude: 8.7139, longitude: 77.7567, timeZone: 'Asia/Kolkata', population: 474, aliases: ['Tinnevelly'] },
+  { id: 'gaya-in', name: 'Gaya', region: 'Bihar', country: 'IN', latitude: 24.7914, longitude: 85.0002, timeZone: 'Asia/Kolkata', population: 470 },
+  { id: 'jalgaon-in', name: 'Jalgaon', region: 'Maharashtra', country: 'IN', latitude: 21.0077, longitude: 75.5626, timeZone: 'Asia/Kolkata', population: 460 },
+  { id: 'bilaspur-in', name: 'Bilaspur', region: 'Chhattisgarh', country: 'IN', latitude: 22.0797, longitude: 82.1409, timeZone: 'Asia/Kolkata', population: 452 },
+  { id: 'udaipur-in', name: 'Udaipur', region: 'Rajasthan', country: 'IN', latitude: 24.5854, longitude: 73.7125, timeZone: 'Asia/Kolkata', population: 451 },
+  { id: 'patiala-in', name: 'Patiala', region: 'Punjab', country: 'IN', latitude: 30.3398, longitude: 76.3869, timeZone: 'Asia/Kolkata', population: 446 },
+  { id: 'mathura-in', name: 'Mathura', region: 'Uttar Pradesh', country: 'IN', latitude: 27.4924, longitude: 77.6737, timeZone: 'Asia/Kolkata', population: 441, aliases: ['Muttra'] },
+  { id: 'davanagere-in', name: 'Davanagere', region: 'Karnataka', country: 'IN', latitude: 14.4644, longitude: 75.9218, timeZone: 'Asia/Kolkata', population: 435, aliases: ['Davangere'] },
+  { id: 'kozhikode-in', name: 'Kozhikode', region: 'Kerala', country: 'IN', latitude: 11.2588, longitude: 75.7804, timeZone: 'Asia/Kolkata', population: 432, aliases: ['Calicut'] },
+  { id: 'akola-in', name: 'Akola', region: 'Maharashtra', country: 'IN', latitude: 20.7002, longitude: 77.0082, timeZone: 'Asia/Kolkata', population: 428 },
+  { id: 'kurnool-in', name: 'Kurnool', region: 'Andhra Pradesh', country: 'IN', latitude: 15.8281, longitude: 78.0373, timeZone: 'Asia/Kolkata', population: 424 },
+  { id: 'vellore-in', name: 'Vellore', region: 'Tamil Nadu', country: 'IN', latitude: 12.9165, longitude: 79.1325, timeZone: 'Asia/Kolkata', population: 423 },
+  { id: 'ballari-in', name: 'Ballari', region: 'Karnataka', country: 'IN', latitude: 15.1394, longitude: 76.9214, timeZone: 'Asia/Kolkata', population: 410, aliases: ['Bellary'] },
+  { id: 'agartala-in', name: 'Agartala', region: 'Tripura', country: 'IN', latitude: 23.8315, longitude: 91.2868, timeZone: 'Asia/Kolkata', population: 400 },
+  { id: 'bhagalpur-in', name: 'Bhagalpur', region: 'Bihar', country: 'IN', latitude: 25.2425, longitude: 86.9842, timeZone: 'Asia/Kolkata', population: 400 },
+  { id: 'muzaffarpur-in', name: 'Muzaffarpur', region: 'Bihar', country: 'IN', latitude: 26.1209, longitude: 85.3647, timeZone: 'Asia/Kolkata', population: 393 },
+  { id: 'latur-in', name: 'Latur', region: 'Maharashtra', country: 'IN', latitude: 18.4088, longitude: 76.5604, timeZone: 'Asia/Kolkata', population: 382 },
+  { id: 'tirupati-in', name: 'Tirupati', region: 'Andhra Pradesh', country: 'IN', latitude: 13.6288, longitude: 79.4192, timeZone: 'Asia/Kolkata', population: 374 },
+  { id: 'rohtak-in', name: 'Rohtak', region: 'Haryana', country: 'IN', latitude: 28.8955, longitude: 76.6066, timeZone: 'Asia/Kolkata', population: 374 },
+  { id: 'bhilwara-in', name: 'Bhilwara', region: 'Rajasthan', country: 'IN', latitude: 25.3407, longitude: 74.6313, timeZone: 'Asia/Kolkata', population: 360 },
+  { id: 'berhampur-in', name: 'Berhampur', region: 'Odisha', country: 'IN', latitude: 19.315, longitude: 84.7941, timeZone: 'Asia/Kolkata', population: 356, aliases: ['Brahmapur'] },
+  { id: 'ahmednagar-in', name: 'Ahmednagar', region: 'Maharashtra', country: 'IN', latitude: 19.0948, longitude: 74.748, timeZone: 'Asia/Kolkata', population: 350, aliases: ['Ahilyanagar'] },
+  { id: 'kollam-in', name: 'Kollam', region: 'Kerala', country: 'IN', latitude: 8.8932, longitude: 76.6141, timeZone: 'Asia/Kolkata', population: 349, aliases: ['Quilon'] },
+  { id: 'bardhaman-in', name: 'Bardhaman', region: 'West Bengal', country: 'IN', latitude: 23.2324, longitude: 87.8615, timeZone: 'Asia/Kolkata', population: 347, aliases: ['Burdwan'] },
+  { id: 'alwar-in', name: 'Alwar', region: 'Rajasthan', country: 'IN', latitude: 27.553, longitude: 76.6346, timeZone: 'Asia/Kolkata', population: 341 },
+  { id: 'rajahmundry-in', name: 'Rajahmundry', region: 'Andhra Pradesh', country: 'IN', latitude: 17.0005, longitude: 81.804, timeZone: 'Asia/Kolkata', population: 341, aliases: ['Rajamahendravaram'] },
+  { id: 'shivamogga-in', name: 'Shivamogga', region: 'Karnataka', country: 'IN', latitude: 13.9299, longitude: 75.5681, timeZone: 'Asia/Kolkata', population: 322, aliases: ['Shimoga'] },
+  { id: 'junagadh-in', name: 'Junagadh', region: 'Gujarat', country: 'IN', latitude: 21.5222, longitude: 70.4579, timeZone: 'Asia/Kolkata', population: 320 },
+  { id: 'thrissur-in', name: 'Thrissur', region: 'Kerala', country: 'IN', latitude: 10.5276, longitude: 76.2144, timeZone: 'Asia/Kolkata', population: 315, aliases: ['Trichur'] },
+  { id: 'kakinada-in', name: 'Kakinada', region: 'Andhra Pradesh', country: 'IN', latitude: 16.9891, longitude: 82.2475, timeZone: 'Asia/Kolkata', population: 312, aliases: ['Cocanada'] },
+  { id: 'nizamabad-in', name: 'Nizamabad', region: 'Telangana', country: 'IN', latitude: 18.6725, longitude: 78.0941, timeZone: 'Asia/Kolkata', population: 311 },
+  { id: 'purnia-in', name: 'Purnia', region: 'Bihar', country: 'IN', latitude: 25.7771, longitude: 87.4753, timeZone: 'Asia/Kolkata', population: 310, aliases: ['Purnea'] },
+  { id: 'darbhanga-in', name: 'Darbhanga', region: 'Bihar', country: 'IN', latitude: 26.1542, longitude: 85.8918, timeZone: 'Asia/Kolkata', population: 306 },
+  { id: 'hisar-in', name: 'Hisar', region: 'Haryana', country: 'IN', latitude: 29.1492, longitude: 75.7217, timeZone: 'Asia/Kolkata', population: 301, aliases: ['Hissar'] },
+  { id: 'panipat-in', name: 'Panipat', region: 'Haryana', country: 'IN', latitude: 29.3909, longitude: 76.9635, timeZone: 'Asia/Kolkata', population: 294 },
+  { id: 'aizawl-in', name: 'Aizawl', region: 'Mizoram', country: 'IN', latitude: 23.7271, longitude: 92.7176, timeZone: 'Asia/Kolkata', population: 293 },
+  { id: 'kharagpur-in', name: 'Kharagpur', region: 'West Bengal', country: 'IN', latitude: 22.346, longitude: 87.232, timeZone: 'Asia/Kolkata', population: 293 },
+  { id: 'gandhinagar-in', name: 'Gandhinagar', region: 'Gujarat', country: 'IN', latitude: 23.2156, longitude: 72.6369, timeZone: 'Asia/Kolkata', population: 292 },
+  { id: 'bathinda-in', name: 'Bathinda', region: 'Punjab', country: 'IN', latitude: 30.211, longitude: 74.9455, timeZone: 'Asia/Kolkata', population: 285, aliases: ['Bhatinda'] },
+  { id: 'satna-in', name: 'Satna', region: 'Madhya Pradesh', country: 'IN', latitude: 24.6005, longitude: 80.8322, timeZone: 'Asia/Kolkata', population: 283 },
+  { id: 'sagar-in', name: 'Sagar', region: 'Madhya Pradesh', country: 'IN', latitude: 23.8388, longitude: 78.7378, timeZone: 'Asia/Kolkata', population: 274, aliases: ['Saugor'] },
+  { id: 'durg-in', name: 'Durg', region: 'Chhattisgarh', country: 'IN', latitude: 21.1904, longitude: 81.2849, timeZone: 'Asia/Kolkata', population: 268 },
+  { id: 'imphal-in', name: 'Imphal', region: 'Manipur', country: 'IN', latitude: 24.817, longitude: 93.9368, timeZone: 'Asia/Kolkata', population: 268 },
+  { id: 'karimnagar-in', name: 'Karimnagar', region: 'Telangana', country: 'IN', latitude: 18.4386, longitude: 79.1288, timeZone: 'Asia/Kolkata', population: 261 },
+  { id: 'bharatpur-in', name: 'Bharatpur', region: 'Rajasthan', country: 'IN', latitude: 27.2152, longitude: 77.503, timeZone: 'Asia/Kolkata', population: 252 },
+  { id: 'puducherry-in', name: 'Puducherry', region: 'Puducherry', country: 'IN', latitude: 11.9416, longitude: 79.8083, timeZone: 'Asia/Kolkata', population: 244, aliases: ['Pondicherry'] },
+  { id: 'sikar-in', name: 'Sikar', region: 'Rajasthan', country: 'IN', latitude: 27.6094, longitude: 75.1399, timeZone: 'Asia/Kolkata', population: 237 },
+  { id: 'rewa-in', name: 'Rewa', region: 'Madhya Pradesh', country: 'IN', latitude: 24.5362, longitude: 81.3037, timeZone: 'Asia/Kolkata', population: 235 },
+  { id: 'mirzapur-in', name: 'Mirzapur', region: 'Uttar Pradesh', country: 'IN', latitude: 25.1337, longitude: 82.5644, timeZone: 'Asia/Kolkata', population: 234 },
+  { id: 'kannur-in', name: 'Kannur', region: 'Kerala', country: 'IN', latitude: 11.8745, longitude: 75.3704, timeZone: 'Asia/Kolkata', population: 233, aliases: ['Cannanore'] },
+  { id: 'haldwani-in', name: 'Haldwani', region: 'Uttarakhand', country: 'IN', latitude: 29.2183, longitude: 79.513, timeZone: 'Asia/Kolkata', population: 232 },
+  { id: 'haridwar-in', name: 'Haridwar', region: 'Uttarakhand', country: 'IN', latitude: 29.9457, longitude: 78.1642, timeZone: 'Asia/Kolkata', population: 228, aliases: ['Hardwar'] },
+  { id: 'thanjavur-in', name: 'Thanjavur', region: 'Tamil Nadu', country: 'IN', latitude: 10.787, longitude: 79.1378, timeZone: 'Asia/Kolkata', population: 222, aliases: ['Tanjore'] },
+  { id: 'secunderabad-in', name: 'Secunderabad', region: 'Telangana', country: 'IN', latitude: 17.4399, longitude: 78.4983, timeZone: 'Asia/Kolkata', population: 217 },
+  { id: 'anand-in', name: 'Anand', region: 'Gujarat', country: 'IN', latitude: 22.5645, longitude: 72.9289, timeZone: 'Asia/Kolkata', population: 209 },
+  { id: 'ambala-in', name: 'Ambala', region: 'Haryana', country: 'IN', latitude: 30.3782, longitude: 76.7767, timeZone: 'Asia/Kolkata', population: 207 },
+  { id: 'puri-in', name: 'Puri', region: 'Odisha', country: 'IN', latitude: 19.8135, longitude: 85.8312, timeZone: 'Asia/Kolkata', population: 201, aliases: ['Jagannath Puri'] },
+  { id: 'sambalpur-in', name: 'Sambalpur', region: 'Odisha', country: 'IN', latitude: 21.4669, longitude: 83.9812, timeZone: 'Asia/Kolkata', population: 184 },
+  { id: 'mohali-in', name: 'Mohali', region: 'Punjab', country: 'IN', latitude: 30.7046, longitude: 76.7179, timeZone: 'Asia/Kolkata', population: 176, aliases: ['Sahibzada Ajit Singh Nagar'] },
+  { id: 'alappuzha-in', name: 'Alappuzha', region: 'Kerala', country: 'IN', latitude: 9.4981, longitude: 76.3388, timeZone: 'Asia/Kolkata', population: 174, aliases: ['Alleppey'] },
+  { id: 'shimla-in', name: 'Shimla', region: 'Himachal Pradesh', country: 'IN', latitude: 31.1048, longitude: 77.1734, timeZone: 'Asia/Kolkata', population: 170, aliases: ['Simla'] },
+  { id: 'udupi-in', name: 'Udupi', region: 'Karnataka', country: 'IN', latitude: 13.3409, longitude: 74.7421, timeZone: 'Asia/Kolkata', population: 165 },
+  { id: 'kanchipuram-in', name: 'Kanchipuram', region: 'Tamil Nadu', country: 'IN', latitude: 12.8342, longitude: 79.7036, timeZone: 'Asia/Kolkata', population: 165, aliases: ['Conjeevaram', 'Kanchi'] },
+  { id: 'kurukshetra-in', name: 'Kurukshetra', region: 'Haryana', country: 'IN', latitude: 29.9695, longitude: 76.8783, timeZone: 'Asia/Kolkata', population: 164 },
+  { id: 'dibrugarh-in', name: 'Dibrugarh', region: 'Assam', country: 'IN', latitude: 27.4728, longitude: 94.912, timeZone: 'Asia/Kolkata', population: 154 },
+  { id: 'porbandar-in', name: 'Porbandar', region: 'Gujarat', country: 'IN', latitude: 21.6417, longitude: 69.6293, timeZone: 'Asia/Kolkata', population: 152 },
+  { id: 'bhuj-in', name: 'Bhuj', region: 'Gujarat', country: 'IN', latitude: 23.242, longitude: 69.6669, timeZone: 'Asia/Kolkata', population: 148 },
+  { id: 'shillong-in', name: 'Shillong', region: 'Meghalaya', country: 'IN', latitude: 25.5788, longitude: 91.8933, timeZone: 'Asia/Kolkata', population: 143 },
+  { id: 'palakkad-in', name: 'Palakkad', region: 'Kerala', country: 'IN', latitude: 10.7867, longitude: 76.6548, timeZone: 'Asia/Kolkata', population: 131, aliases: ['Palghat'] },
+  { id: 'darjeeling-in', name: 'Darjeeling', region: 'West Bengal', country: 'IN', latitude: 27.041, longitude: 88.2663, timeZone: 'Asia/Kolkata', population: 118 },
+  { id: 'panaji-in', name: 'Panaji', region: 'Goa', country: 'IN', latitude: 15.4909, longitude: 73.8278, timeZone: 'Asia/Kolkata', population: 115, aliases: ['Panjim'] },
+  { id: 'port-blair-in', name: 'Port Blair', region: 'Andaman and Nicobar Islands', country: 'IN', latitude: 11.6234, longitude: 92.7265, timeZone: 'Asia/Kolkata', population: 108, aliases: ['Sri Vijaya Puram'] },
+  { id: 'rishikesh-in', name: 'Rishikesh', region: 'Uttarakhand', country: 'IN', latitude: 30.0869, longitude: 78.2676, timeZone: 'Asia/Kolkata', population: 103 },
+  { id: 'gangtok-in', name: 'Gangtok', region: 'Sikkim', country: 'IN', latitude: 27.3389, longitude: 88.6065, timeZone: 'Asia/Kolkata', population: 100 },
+  { id: 'kohima-in', name: 'Kohima', region: 'Nagaland', country: 'IN', latitude: 25.6751, longitude: 94.1086, timeZone: 'Asia/Kolkata', population: 100 },
+  { id: 'ooty-in', name: 'Ooty', region: 'Tamil Nadu', country: 'IN', latitude: 11.4102, longitude: 76.695, timeZone: 'Asia/Kolkata', population: 88, aliases: ['Udhagamandalam', 'Ootacamund'] },
+  { id: 'margao-in', name: 'Margao', region: 'Goa', country: 'IN', latitude: 15.2832, longitude: 73.9862, timeZone: 'Asia/Kolkata', population: 87, aliases: ['Madgaon'] },
+  { id: 'ratnagiri-in', name: 'Ratnagiri', region: 'Maharashtra', country: 'IN', latitude: 16.9902, longitude: 73.312, timeZone: 'Asia/Kolkata', population: 76 },
+  { id: 'jaisalmer-in', name: 'Jaisalmer', region: 'Rajasthan', country: 'IN', latitude: 26.9157, longitude: 70.9083, timeZone: 'Asia/Kolkata', population: 65 },
+  { id: 'itanagar-in', name: 'Itanagar', region: 'Arunachal Pradesh', country: 'IN', latitude: 27.0844, longitude: 93.6053, timeZone: 'Asia/Kolkata', population: 60 },
+  { id: 'ayodhya-in', name: 'Ayodhya', region: 'Uttar Pradesh', country: 'IN', latitude: 26.7922, longitude: 82.1998, timeZone: 'Asia/Kolkata', population: 55, aliases: ['Ajodhya', 'Faizabad'] },
+  { id: 'nainital-in', name: 'Nainital', region: 'Uttarakhand', country: 'IN', latitude: 29.3919, longitude: 79.4542, timeZone: 'Asia/Kolkata', population: 41, aliases: ['Naini Tal'] },
+  { id: 'dwarka-in', name: 'Dwarka', region: 'Gujarat', country: 'IN', latitude: 22.2394, longitude: 68.9678, timeZone: 'Asia/Kolkata', population: 38, aliases: ['Dwaraka'] },
+  { id: 'leh-in', name: 'Leh', region: 'Ladakh', country: 'IN', latitude: 34.1526, longitude: 77.5771, timeZone: 'Asia/Kolkata', population: 31 },
+  { id: 'dharamshala-in', name: 'Dharamshala', region: 'Himachal Pradesh', country: 'IN', latitude: 32.219, longitude: 76.3234, timeZone: 'Asia/Kolkata', population: 30, aliases: ['Dharamsala', 'McLeod Ganj'] },
+  { id: 'kanyakumari-in', name: 'Kanyakumari', region: 'Tamil Nadu', country: 'IN', latitude: 8.0883, longitude: 77.5385, timeZone: 'Asia/Kolkata', population: 30, aliases: ['Cape Comorin'] },
+  { id: 'manali-in', name: 'Manali', region: 'Himachal Pradesh', country: 'IN', latitude: 32.2432, longitude: 77.1892, timeZone: 'Asia/Kolkata', population: 8 },
+  // Neighbouring countries
+  { id: 'karachi-pk', name: 'Karachi', region: 'Sindh', country: 'PK', latitude: 24.8607, longitude: 67.0011, timeZone: 'Asia/Karachi', population: 14910 },
+  { id: 'lahore-pk', name: 'Lahore', region: 'Punjab', country: 'PK', latitude: 31.5204, longitude: 74.3587, timeZone: 'Asia/Karachi', population: 11126 },
+  { id: 'faisalabad-pk', name: 'Faisalabad', region: 'Punjab', country: 'PK', latitude: 31.4504, longitude: 73.135, timeZone: 'Asia/Karachi', population: 3204, aliases: ['Lyallpur'] },
+  { id: 'rawalpindi-pk', name: 'Rawalpindi', region: 'Punjab', country: 'PK', latitude: 33.5651, longitude: 73.0169, timeZone: 'Asia/Karachi', population: 2098 },
+  { id: 'peshawar-pk', name: 'Peshawar', region: 'Khyber Pakhtunkhwa', country: 'PK', latitude: 34.0151, longitude: 71.5249, timeZone: 'Asia/Karachi', population: 1970 },
+  { id: 'multan-pk', name: 'Multan', region: 'Punjab', country: 'PK', latitude: 30.1575, longitude: 71.5249, timeZone: 'Asia/Karachi', population: 1871 },
+  { id: 'hyderabad-pk', name: 'Hyderabad', region: 'Sindh', country: 'PK', latitude: 25.396, longitude: 68.3578, timeZone: 'Asia/Karachi', population: 1733 },
+  { id: 'islamabad-pk', name: 'Islamabad', region: 'Islamabad Capital Territory', country: 'PK', latitude: 33.6844, longitude: 73.0479, timeZone: 'Asia/Karachi', population: 1015 },
+  { id: 'quetta-pk', name: 'Quetta', region: 'Balochistan', country: 'PK', latitude: 30.1798, longitude: 66.975, timeZone: 'Asia/Karachi', population: 1001 },
+  { id: 'sialkot-pk', name: 'Sialkot', region: 'Punjab', country: 'PK', latitude: 32.4945, longitude: 74.5229, timeZone: 'Asia/Karachi', population: 655 },
+  { id: 'dhaka-bd', name: 'Dhaka', region: 'Dhaka', country: 'BD', latitude: 23.8103, longitude: 90.4125, timeZone: 'Asia/Dhaka', population: 8906, aliases: ['Dacca'] },
+  { id: 'chattogram-bd', name: 'Chattogram', region: 'Chittagong', country: 'BD', latitude: 22.3569, longitude: 91.7832, timeZone: 'Asia/Dhaka', population: 2581, aliases: ['Chittagong'] },
+  { id: 'khulna-bd', name: 'Khulna', region: 'Khulna', country: 'BD', latitude: 22.8456, longitude: 89.5403, timeZone: 'Asia/Dhaka', population: 664 },
+  { id: 'sylhet-bd', name: 'Sylhet', region: 'Sylhet', country: 'BD', latitude: 24.8949, longitude: 91.8687, timeZone: 'Asia/Dhaka', population: 526 },
+  { id: 'kathmandu-np', name: 'Kathmandu', region: 'Bagmati', country: 'NP', latitude: 27.7172, longitude: 85.324, timeZone: 'Asia/Kathmandu', population: 1442 },
+  { id: 'pokhara-np', name: 'Pokhara', region: 'Gandaki', country: 'NP', latitude: 28.2096, longitude: 83.9856, timeZone: 'Asia/Kathmandu', population: 414 },
+  { id: 'biratnagar-np', name: 'Biratnagar', region: 'Koshi', country: 'NP', latitude: 26.4525, longitude: 87.2718, timeZone: 'Asia/Kathmandu', population: 244 },
+  { id: 'thimphu-bt', name: 'Thimphu', region: 'Thimphu', country: 'BT', latitude: 27.4728, longitude: 89.639, timeZone: 'Asia/Thimphu', population: 115 },
+  { id: 'colombo-lk', name: 'Colombo', region: 'Western', country: 'LK', latitude: 6.9271, longitude: 79.8612, timeZone: 'Asia/Colombo', population: 753 },
+  { id: 'kandy-lk', name: 'Kandy', region: 'Central', country: 'LK', latitude: 7.2906, longitude: 80.6337, timeZone: 'Asia/Colombo', population: 125 },
+  { id: 'jaffna-lk', name: 'Jaffna', region: 'Northern', country: 'LK', latitude: 9.6615, longitude: 80.0255, timeZone: 'Asia/Colombo', population: 88 },
+  // Gulf
+  { id: 'dubai-ae', name: 'Dubai', region: 'Dubai', country: 'AE', latitude: 25.2048, longitude: 55.2708, timeZone: 'Asia/Dubai', population: 3331 },
+  { id: 'abu-dhabi-ae', name: 'Abu Dhabi', region: 'Abu Dhabi', country: 'AE', latitude: 24.4539, longitude: 54.3773, timeZone: 'Asia/Dubai', population: 1483 },
+  { id: 'sharjah-ae', name: 'Sharjah', region: 'Sharjah', country: 'AE', latitude: 25.3463, longitude: 55.4209, timeZone: 'Asia/Dubai', population: 1274 },
+  { id: 'muscat-om', name: 'Muscat', region: 'Muscat', country: 'OM', latitude: 23.588, longitude: 58.3829, timeZone: 'Asia/Dubai', population: 1421 },
+  { id: 'doha-qa', name: 'Doha', region: 'Doha', country: 'QA', latitude: 25.2854, longitude: 51.531, timeZone: 'Asia/Qatar', population: 2382 },
+  { id: 'manama-bh', name: 'Manama', region: 'Capital', country: 'BH', latitude: 26.2285, longitude: 50.586, timeZone: 'Asia/Qatar', population: 157 },
+  { id: 'riyadh-sa', name: 'Riyadh', region: 'Riyadh', country: 'SA', latitude: 24.7136, longitude: 46.6753, timeZone: 'Asia/Riyadh', population: 7231 },
+  { id: 'jeddah-sa', name: 'Jeddah', region: 'Makkah', country: 'SA', latitude: 21.4858, longitude: 39.1925, timeZone: 'Asia/Riyadh', population: 4697, aliases: ['Jiddah'] },
+  { id: 'mecca-sa', name: 'Mecca', region: 'Makkah', country: 'SA', latitude: 21.3891, longitude: 39.8579, timeZone: 'Asia/Riyadh', population: 2042, aliases: ['Makkah'] },
+  { id: 'kuwait-city-kw', name: 'Kuwait City', region: 'Al Asimah', country: 'KW', latitude: 29.3759, longitude: 47.9774, timeZone: 'Asia/Riyadh', population: 3115, aliases: ['Kuwait'] },
+  // East and South-East Asia
+  { id: 'singapore-sg', name: 'Singapore', country: 'SG', latitude: 1.3521, longitude: 103.8198, timeZone: 'Asia/Singapore', population: 5686 },
+  { id: 'kuala-lumpur-my', name: 'Kuala Lumpur', region: 'Federal Territory', country: 'MY', latitude: 3.139, longitude: 101.6869, timeZone: 'Asia/Singapore', population: 1982, aliases: ['KL'] },
+  { id: 'bangkok-th', name: 'Bangkok', region: 'Bangkok', country: 'TH', latitude: 13.7563, longitude: 100.5018, timeZone: 'Asia/Bangkok', population: 10539, aliases: ['Krung Thep'] },
+  { id: 'beijing-cn', name: 'Beijing', region: 'Beijing', country: 'CN', latitude: 39.9042, longitude: 116.4074, timeZone: 'Asia/Shanghai', population: 21540, aliases: ['Peking'] },
+  { id: 'shanghai-cn', name: 'Shanghai', region: 'Shanghai', country: 'CN', latitude: 31.2304, longitude: 121.4737, timeZone: 'Asia/Shanghai', population: 24870 },
+  { id: 'shenzhen-cn', name: 'Shenzhen', region: 'Guangdong', country: 'CN', latitude: 22.5431, longitude: 114.0579, timeZone: 'Asia/Shanghai', population: 12590 },
+  { id: 'tokyo-jp', name: 'Tokyo', region: 'Tokyo', country: 'JP', latitude: 35.6762, longitude: 139.6503, timeZone: 'Asia/Tokyo', population: 13960 },
+  { id: 'osaka-jp', name: 'Osaka', region: 'Osaka', country: 'JP', latitude: 34.6937, longitude: 135.5023, timeZone: 'Asia/Tokyo', population: 2691 },
+  // Europe
+  { id: 'leicester-gb', name: 'Leicester', region: 'England', country: 'GB', latitude: 52.6369, longitude: -1.1398, timeZone: 'Europe/London', population: 355 },
+  { id: 'london-gb', name: 'London', region: 'England', country: 'GB', latitude: 51.5074, longitude: -0.1278, timeZone: 'Europe/London', population: 8982 },
+  { id: 'birmingham-gb', name: 'Birmingham', region: 'England', country: 'GB', latitude: 52.4862, longitude: -1.8904, timeZone: 'Europe/London', population: 1141 },
+  { id: 'glasgow-gb', name: 'Glasgow', region: 'Scotland', country: 'GB', latitude: 55.8642, longitude: -4.2518, timeZone: 'Europe/London', population: 633 },
+  { id: 'manchester-gb', name: 'Manchester', region: 'England', country: 'GB', latitude: 53.4808, longitude: -2.2426, timeZone: 'Europe/London', population: 553 },
+  { id: 'edinburgh-gb', name: 'Edinburgh', region: 'Scotland', country: 'GB', latitude: 55.9533, longitude: -3.1883, timeZone: 'Europe/London', population: 525 },
+  { id: 'paris-fr', name: 'Paris', region: 'Île-de-France', country: 'FR', latitude: 48.8566, longitude: 2.3522, timeZone: 'Europe/Paris', population: 2161 },
+  { id: 'berlin-de', name: 'Berlin', region: 'Berlin', country: 'DE', latitude: 52.52, longitude: 13.405, timeZone: 'Europe/Berlin', population: 3645 },
+  { id: 'munich-de', name: 'Munich', region: 'Bavaria', country: 'DE', latitude: 48.1351, longitude: 11.582, timeZone: 'Europe/Berlin', population: 1472, aliases: ['München'] },
+  { id: 'frankfurt-de', name: 'Frankfurt', region: 'Hesse', country: 'DE', latitude: 50.1109, longitude: 8.6821, timeZone: 'Europe/Berlin', population: 753, aliases: ['Frankfurt am Main'] },
+  // North America
+  { id: 'new-york-us', name: 'New York', region: 'New York', country: 'US', latitude: 40.7128, longitude: -74.006, timeZone: 'America/New_York', population: 8336, aliases: ['New York City', 'NYC'] },
+  { id: 'washington-us', name: 'Washington', region: 'District of Columbia', country: 'US', latitude: 38.9072, longitude: -77.0369, timeZone: 'America/New_York', population: 705, aliases: ['Washington DC'] },
+  { id: 'boston-us', name: 'Boston', region: 'Massachusetts', country: 'US', latitude: 42.3601, longitude: -71.0589, timeZone: 'America/New_York', population: 692 },
+  { id: 'atlanta-us', name: 'Atlanta', region: 'Georgia', country: 'US', latitude: 33.749, longitude: -84.388, timeZone: 'America/New_York', population: 498 },
+  { id: 'miami-us', name: 'Miami', region: 'Florida', country: 'US', latitude: 25.7617, longitude: -80.1918, timeZone: 'America/New_York', population: 467 },
+  { id: 'toronto-ca', name: 'Toronto', region: 'Ontario', country: 'CA', latitude: 43.6532, longitude: -79.3832, timeZone: 'America/Toronto', population: 2731 },
+  { id: 'chicago-us', name: 'Chicago', region: 'Illinois', country: 'US', latitude: 41.8781, longitude: -87.6298, timeZone: 'America/Chicago', population: 2693 },
+  { id: 'houston-us', name: 'Houston', region: 'Texas', country: 'US', latitude: 29.7604, longitude: -95.3698, timeZone: 'America/Chicago', population: 2320 },
+  { id: 'dallas-us', name: 'Dallas', region: 'Texas', country: 'US', latitude: 32.7767, longitude: -96.797, timeZone: 'America/Chicago', population: 1343 },
+  { id: 'denver-us', name: 'Denver', region: 'Colorado', country: 'US', latitude: 39.7392, longitude: -104.9903, timeZone: 'America/Denver', population: 715 },
+  { id: 'phoenix-us', name: 'Phoenix', region: 'Arizona', country: 'US', latitude: 33.4484, longitude: -112.074, timeZone: 'America/Phoenix', population: 1680 },
+  { id: 'los-angeles-us', name: 'Los Angeles', region: 'California', country: 'US', latitude: 34.0522, longitude: -118.2437, timeZone: 'America/Los_Angeles', population: 3979, aliases: ['LA'] },
+  { id: 'san-jose-us', name: 'San Jose', region: 'California', country: 'US', latitude: 37.3382, longitude: -121.8863, timeZone: 'America/Los_Angeles', population: 1013 },
+  { id: 'san-francisco-us', name: 'San Francisco', region: 'California', country: 'US', latitude: 37.7749, longitude: -122.4194, timeZone: 'America/Los_Angeles', population: 874, aliases: ['SF'] },
+  { id: 'seattle-us', name: 'Seattle', region: 'Washington', country: 'US', latitude: 47.6062, longitude: -122.3321, timeZone: 'America/Los_Angeles', population: 753 },
+  // Oceania and Africa
+  { id: 'sydney-au', name: 'Sydney', region: 'New South Wales', country: 'AU', latitude: -33.8688, longitude: 151.2093, timeZone: 'Australia/Sydney', population: 5312 },
+  { id: 'melbourne-au', name: 'Melbourne', region: 'Victoria', country: 'AU', latitude: -37.8136, longitude: 144.9631, timeZone: 'Australia/Sydney', population: 5078 },
+  { id: 'johannesburg-za', name: 'Johannesburg', region: 'Gauteng', country: 'ZA', latitude: -26.2041, longitude: 28.0473, timeZone: 'Africa/Johannesburg', population: 5635, aliases: ['Joburg'] },
+  { id: 'durban-za', name: 'Durban', region: 'KwaZulu-Natal', country: 'ZA', latitude: -29.8587, longitude: 31.0218, timeZone: 'Africa/Johannesburg', population: 3720 },
+  { id: 'nairobi-ke', name: 'Nairobi', region: 'Nairobi', country: 'KE', latitude: -1.2921, longitude: 36.8219, timeZone: 'Africa/Nairobi', population: 4397 },
+  { id: 'lagos-ng', name: 'Lagos', region: 'Lagos', country: 'NG', latitude: 6.5244, longitude: 3.3792, timeZone: 'Africa/Lagos', population: 14368 },
+];
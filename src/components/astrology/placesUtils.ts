@@ -0,0 +1,280 @@
+/**
+ * Corp Astro UI Library - Place Search & Birth Place Resolution
+ *
+ * Fuzzy search over the bundled places gazetteer, and resolution of a place
+ * plus a local birth time to coordinates, the UTC offset in force and the
+ * UTC instant, ready for the ephemeris and chart calculations.
+ *
+ * Search ignores case, accents and punctuation, matches former names
+ * (Bombay, Madras, Calcutta), prefixes and words within names, and tolerates
+ * a spelling slip or two ('Mumbay', 'Banglore'). A qualifier after a comma
+ * ('Hyderabad, Sindh') narrows matches by region or country.
+ *
+ * @module placesUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { ObserverLocation } from './horizonUtils';
+import { COUNTRY_NAMES, Place, PLACES } from './placesData';
+import { getZoneOffset, resolveLocalTime } from './timeZoneUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Place search options
+ */
+export interface PlaceSearchOptions {
+  /** Most matches returned (default 10) */
+  limit?: number;
+  /** Restrict to an ISO country code */
+  country?: string;
+}
+
+/**
+ * Place found by a search
+ */
+export interface PlaceMatch {
+  /** The place */
+  place: Place;
+  /** Relevance, higher is better */
+  score: number;
+  /** Name or alias the query matched */
+  matchedName: string;
+}
+
+/**
+ * Birth place and local birth time resolved for chart calculation
+ */
+export interface ResolvedBirthPlace extends ObserverLocation {
+  /** Gazetteer entry */
+  place: Place;
+  /** Local birth time as given (YYYY-MM-DDTHH:mm[:ss]) */
+  datetime: string;
+  /** Birth instant */
+  utc: Date;
+  /** Standard part of the UTC offset in hours */
+  standardOffset: number;
+  /** Daylight or war time part of the UTC offset in hours */
+  daylightSaving: number;
+  /** Name of the time kept, e.g. 'Bombay Time' */
+  timeName: string;
+  /** Local time occurred twice because clocks were turned back */
+  ambiguous: boolean;
+  /** Local time never occurred because clocks were turned forward */
+  skipped: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Matches returned when no limit is given */
+export const DEFAULT_PLACE_SEARCH_LIMIT = 10;
+
+/** Score of each kind of match before the population bonus */
+const MATCH_SCORES = {
+  exact: 1,
+  prefix: 0.9,
+  wordPrefix: 0.8,
+  substring: 0.7,
+  fuzzy: 0.6,
+  region: 0.4,
+} as const;
+
+/** Score lost per spelling edit in a fuzzy match */
+const EDIT_PENALTY = 0.15;
+
+/** Share of the score kept when matching a former or alternative name */
+const ALIAS_FACTOR = 0.95;
+
+/** Share of the score kept when the region or country qualifier does not match */
+const QUALIFIER_MISS_FACTOR = 0.5;
+
+/** Largest bonus for population, enough to order equally good matches */
+const POPULATION_BONUS = 0.05;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Lowercase a name and strip accents and punctuation for comparison
+ */
+export function normalizePlaceName(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance allowing adjacent transpositions (optimal string alignment)
+ */
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i].push(j);
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, rows[i - 2][j - 2] + 1);
+      }
+      rows[i].push(distance);
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Spelling edits tolerated for a query length
+ */
+function allowedEdits(length: number): number {
+  if (length < 4) return 0;
+  return length < 7 ? 1 : 2;
+}
+
+/**
+ * Score a normalized query against a normalized name; 0 for no match
+ */
+function scoreName(query: string, name: string): number {
+  if (name === query) return MATCH_SCORES.exact;
+  if (name.startsWith(query)) return MATCH_SCORES.prefix;
+  if (name.split(' ').some(word => word.startsWith(query))) return MATCH_SCORES.wordPrefix;
+  if (name.includes(query)) return MATCH_SCORES.substring;
+
+  const allowed = allowedEdits(query.length);
+  if (allowed === 0) return 0;
+  // Compare with the whole name and with its start, for names still being typed
+  const edits = Math.min(editDistance(query, name), editDistance(query, name.slice(0, query.length)));
+  return edits <= allowed ? MATCH_SCORES.fuzzy - edits * EDIT_PENALTY : 0;
+}
+
+/**
+ * Whether a normalized qualifier names a place's region or country
+ */
+function matchesQualifier(place: Place, qualifier: string): boolean {
+  const names = [place.region, COUNTRY_NAMES[place.country], place.country]
+    .filter((name): name is string => !!name)
+    .map(normalizePlaceName);
+  return names.some(name => scoreName(qualifier, name) >= MATCH_SCORES.wordPrefix);
+}
+
+/**
+ * Place by gazetteer id
+ */
+export function getPlace(id: string): Place | undefined {
+  return PLACES.find(place => place.id === id);
+}
+
+/**
+ * Observer location of a place, with the UTC offset in force at an instant
+ */
+export function getPlaceLocation(place: Place, date: Date = new Date()): ObserverLocation {
+  return {
+    latitude: place.latitude,
+    longitude: place.longitude,
+    timezone: getZoneOffset(place.timeZone, date, place.longitude).offset,
+    name: formatPlaceName(place),
+  };
+}
+
+/**
+ * Display name with region and country, e.g. 'Mumbai, Maharashtra, India'
+ */
+export function formatPlaceName(place: Place): string {
+  const country = COUNTRY_NAMES[place.country] ?? place.country;
+  return [place.name, place.region !== place.name ? place.region : undefined, country]
+    .filter(part => !!part)
+    .join(', ');
+}
+
+/**
+ * Search the gazetteer, best matches first
+ */
+export function searchPlaces(query: string, options: PlaceSearchOptions = {}): PlaceMatch[] {
+  const { limit = DEFAULT_PLACE_SEARCH_LIMIT, country } = options;
+  const [namePart, ...qualifierParts] = query.split(',');
+  const nameQuery = normalizePlaceName(namePart);
+  const qualifier = normalizePlaceName(qualifierParts.join(' '));
+  if (!nameQuery) return [];
+
+  const matches: PlaceMatch[] = [];
+  PLACES.forEach(place => {
+    if (country && place.country !== country.toUpperCase()) return;
+
+    let best = 0;
+    let matchedName = place.name;
+    [place.name, ...(place.aliases ?? [])].forEach((name, index) => {
+      const score = scoreName(nameQuery, normalizePlaceName(name)) * (index === 0 ? 1 : ALIAS_FACTOR);
+      if (score > best) {
+        best = score;
+        matchedName = name;
+      }
+    });
+    // A state or region name ('Goa') lists its places after any name match
+    if (best === 0 && place.region && scoreName(nameQuery, normalizePlaceName(place.region)) >= MATCH_SCORES.wordPrefix) {
+      best = MATCH_SCORES.region;
+      matchedName = place.region;
+    }
+    if (best === 0) return;
+
+    if (qualifier && !matchesQualifier(place, qualifier)) {
+      best *= QUALIFIER_MISS_FACTOR;
+    }
+    const populationBonus = (POPULATION_BONUS * Math.min(Math.log10(place.population + 1), 5)) / 5;
+    matches.push({ place, score: best + populationBonus, matchedName });
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * UTC offset as text, e.g. 'UTC+5:30' or 'UTC+5:53:20'
+ */
+export function formatUtcOffset(hours: number): string {
+  const totalSeconds = Math.round(Math.abs(hours) * 3600);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  const seconds = s > 0 ? `:${String(s).padStart(2, '0')}` : '';
+  return `UTC${hours < 0 ? '-' : '+'}${h}:${String(m).padStart(2, '0')}${seconds}`;
+}
+
+/**
+ * Resolve a birth place and local birth time to coordinates, the UTC offset
+ * in force and the birth instant
+ *
+ * `place` may be a gazetteer entry, a place id or a name to search for.
+ */
+export function resolveBirthPlace(place: Place | string, datetime: string): ResolvedBirthPlace {
+  const target = typeof place === 'string' ? getPlace(place) ?? searchPlaces(place, { limit: 1 })[0]?.place : place;
+  if (!target) {
+    throw new Error(`Unknown place: ${place}`);
+  }
+
+  const time = resolveLocalTime(target.timeZone, datetime, target.longitude);
+  return {
+    latitude: target.latitude,
+    longitude: target.longitude,
+    timezone: time.offset,
+    name: formatPlaceName(target),
+    place: target,
+    datetime,
+    utc: time.utc,
+    standardOffset: time.standardOffset,
+    daylightSaving: time.daylightSaving,
+    timeName: time.name,
+    ambiguous: time.ambiguous,
+    skipped: time.skipped,
+  };
+}
@@ -0,0 +1,608 @@
+/**
+ * Corp Astro UI Library - Birth-Time Rectification
+ *
+ * Narrows an uncertain birth time using dated life events. Candidate times
+ * are stepped through the birth window, and each is scored on how well its
+ * chart times the events:
+ * - Dasha lords: the Mahadasha, Antardasha and Pratyantardasha lords running
+ *   at an event score when they rule or occupy the houses the event belongs
+ *   to (counted from the candidate's sidereal lagna), or naturally signify it
+ * - Dasha changes: an Antardasha or Pratyantardasha beginning or ending near an
+ *   event scores, since events tend to arrive with a new sub-period
+ * - Transits to angles: Saturn, Jupiter, the nodes and Mars conjunct,
+ *   opposite or square the candidate's Ascendant or Midheaven at an event
+ *   score by weight and closeness
+ *
+ * The Moon, which sets the dasha dates, and the angles are recomputed for
+ * every candidate; the slower planets are taken at the middle of the window.
+ * Candidates sharing a rising sign are grouped into ranked ascendants.
+ * rectifyBirthTimeAsync runs the same search in slices, reporting progress
+ * and yielding between slices so the UI stays responsive.
+ *
+ * @module rectificationUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { PLANET_RULERSHIP, VedicPlanet, VedicRashi, VEDIC_RASHIS } from './NorthIndianChart';
+import { AyanamsaConfig, DEFAULT_AYANAMSA, getAyanamsa } from './ayanamsaUtils';
+import {
+  DASHA_LEVEL_NAMES,
+  DashaLevel,
+  DashaLord,
+  DashaPeriod,
+  calculateVimshottariDasha,
+  findActiveDashas,
+} from './dashaUtils';
+import {
+  calculatePlanetPosition,
+  calculatePlanetPositions,
+  deltaT,
+  julianDayFromDate,
+  localSiderealTime,
+  obliquityOfEcliptic,
+} from './ephemerisUtils';
+import { DEFAULT_OBSERVER_LOCATION, ObserverLocation } from './horizonUtils';
+import { calculateAscendant, calculateMidheaven } from './houseSystemUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Kinds of life event used for rectification
+ */
+export type LifeEventType =
+  | 'marriage'
+  | 'childbirth'
+  | 'career'
+  | 'relocation'
+  | 'education'
+  | 'property'
+  | 'health'
+  | 'bereavement';
+
+/**
+ * A dated life event
+ */
+export interface LifeEvent {
+  /** Kind of event */
+  type: LifeEventType;
+  /** When it happened */
+  date: Date;
+  /** Optional description */
+  label?: string;
+}
+
+/**
+ * Houses and natural significators of an event
+ */
+export interface EventSignificators {
+  /** Houses counted from the lagna */
+  houses: number[];
+  /** Planets that naturally signify the event */
+  karakas: DashaLord[];
+}
+
+/**
+ * Factors a candidate is scored on
+ */
+export type RectificationFactor = 'dasha' | 'dasha_change' | 'transit';
+
+/**
+ * Contribution of one finding to an event's score
+ */
+export interface RectificationReason {
+  /** Factor scored */
+  factor: RectificationFactor;
+  /** Points awarded */
+  points: number;
+  /** Explanation */
+  description: string;
+}
+
+/**
+ * How well a candidate times one event
+ */
+export interface EventScore {
+  /** Event scored */
+  event: LifeEvent;
+  /** Total points */
+  score: number;
+  /** Mahadasha, Antardasha and Pratyantardasha lords at the event */
+  dashaLords: DashaLord[];
+  /** Findings behind the score */
+  reasons: RectificationReason[];
+}
+
+/**
+ * A scored candidate birth time
+ */
+export interface RectificationCandidate {
+  /** Candidate birth time */
+  time: Date;
+  /** Sidereal ascendant longitude */
+  ascendant: number;
+  /** Sidereal rising sign */
+  lagna: VedicRashi;
+  /** Sidereal Midheaven longitude */
+  midheaven: number;
+  /** Total points over all events */
+  score: number;
+  /** Points from dasha lords and changes */
+  dashaScore: number;
+  /** Points from transits to the angles */
+  transitScore: number;
+  /** Per-event breakdown */
+  events: EventScore[];
+}
+
+/**
+ * Candidates sharing a rising sign
+ */
+export interface AscendantCandidate {
+  /** Rising sign */
+  lagna: VedicRashi;
+  /** First candidate time with this lagna */
+  start: Date;
+  /** End of the span with this lagna within the window */
+  end: Date;
+  /** Highest-scoring time in the span */
+  best: RectificationCandidate;
+  /** Best score as a percentage of the leading ascendant's (0-100) */
+  strength: number;
+}
+
+/**
+ * Rectification parameters
+ */
+export interface RectificationOptions {
+  /** Earliest possible birth time */
+  start: Date;
+  /** Latest possible birth time */
+  end: Date;
+  /** Place of birth (default: New Delhi) */
+  location?: ObserverLocation;
+  /** Dated life events, all after birth */
+  events: LifeEvent[];
+  /** Minutes between candidate times (default: 4) */
+  stepMinutes?: number;
+  /** Ayanamsa for the lagna and dashas (default: Lahiri) */
+  ayanamsaConfig?: AyanamsaConfig;
+}
+
+/**
+ * Progress reporting and cancellation for rectifyBirthTimeAsync
+ */
+export interface RectificationProgressOptions {
+  /** Called after each slice with the fraction of candidates scored (0-1) */
+  onProgress?: (fraction: number) => void;
+  /** Checked between slices; the search rejects once it returns true */
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Rectification outcome
+ */
+export interface RectificationResult {
+  /** Rising signs in the window, best first */
+  ascendants: AscendantCandidate[];
+  /** Every candidate time, best first (earlier first among equals) */
+  candidates: RectificationCandidate[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Display names for each event type
+ */
+export const LIFE_EVENT_NAMES: Record<LifeEventType, string> = {
+  marriage: 'Marriage',
+  childbirth: 'Birth of a Child',
+  career: 'Job Change',
+  relocation: 'Relocation',
+  education: 'Graduation',
+  property: 'Property Purchase',
+  health: 'Illness or Surgery',
+  bereavement: 'Loss of a Parent',
+};
+
+/**
+ * Houses and karakas each event type is judged by
+ */
+export const LIFE_EVENT_SIGNIFICATORS: Record<LifeEventType, EventSignificators> = {
+  marriage: { houses: [7, 2, 11], karakas: ['venus', 'jupiter'] },
+  childbirth: { houses: [5, 9, 11], karakas: ['jupiter'] },
+  career: { houses: [10, 6, 11], karakas: ['sun', 'saturn', 'mercury'] },
+  relocation: { houses: [4, 12, 3], karakas: ['moon', 'rahu'] },
+  education: { houses: [4, 5, 9], karakas: ['mercury', 'jupiter'] },
+  property: { houses: [4, 11, 2], karakas: ['mars', 'venus'] },
+  health: { houses: [6, 8, 12], karakas: ['sun', 'mars', 'saturn'] },
+  bereavement: { houses: [8, 12, 2], karakas: ['saturn', 'ketu'] },
+};
+
+/**
+ * Display names for each factor
+ */
+export const RECTIFICATION_FACTOR_NAMES: Record<RectificationFactor, string> = {
+  dasha: 'Dasha Lord',
+  dasha_change: 'Dasha Change',
+  transit: 'Transit to Angle',
+};
+
+/**
+ * Weight of each dasha level; the shorter the period, the more it pins
+ * down the time
+ */
+export const DASHA_LEVEL_WEIGHTS: Record<DashaLevel, number> = {
+  mahadasha: 1,
+  antardasha: 2,
+  pratyantardasha: 3,
+};
+
+/**
+ * Weight and orb in degrees of the bodies whose transits over the angles
+ * are scored
+ */
+export const RECTIFICATION_TRANSITS: Partial<Record<VedicPlanet, { weight: number; orb: number }>> = {
+  saturn: { weight: 2, orb: 3 },
+  jupiter: { weight: 2, orb: 3 },
+  rahu: { weight: 1.5, orb: 2 },
+  ketu: { weight: 1.5, orb: 2 },
+  mars: { weight: 1, orb: 2 },
+};
+
+/** Days either side of an event within which a new sub-period counts */
+const DASHA_CHANGE_DAYS: Partial<Record<DashaLevel, number>> = {
+  antardasha: 60,
+  pratyantardasha: 10,
+};
+
+/** Strength of each aspect to an angle relative to a conjunction */
+const ANGLE_ASPECTS: { angle: number; name: string; factor: number }[] = [
+  { angle: 0, name: 'conjunct', factor: 1 },
+  { angle: 180, name: 'opposite', factor: 0.75 },
+  { angle: 90, name: 'square', factor: 0.5 },
+];
+
+/** Widest birth window searched, in hours */
+const MAX_WINDOW_HOURS = 24;
+
+const NATAL_PLANETS: DashaLord[] = ['sun', 'moon', 'mars', 'mercury', 'jupiter', 'venus', 'saturn', 'rahu', 'ketu'];
+
+const MS_PER_DAY = 86400000;
+
+/** Candidates scored between yields in rectifyBirthTimeAsync */
+const CANDIDATES_PER_SLICE = 15;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Angular separation of two longitudes (0-180)
+ */
+function separation(a: number, b: number): number {
+  const diff = normalizeDegrees(a - b);
+  return diff > 180 ? 360 - diff : diff;
+}
+
+function ordinal(value: number): string {
+  const suffix = value === 1 ? 'st' : value === 2 ? 'nd' : value === 3 ? 'rd' : 'th';
+  return `${value}${suffix}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * House (1-12) of a sidereal longitude counted whole-sign from the lagna
+ */
+function houseFrom(lagnaIndex: number, longitude: number): number {
+  return ((Math.floor(normalizeDegrees(longitude) / 30) - lagnaIndex + 12) % 12) + 1;
+}
+
+/**
+ * Houses ruled by a planet for a lagna; the nodes act for the lord of the
+ * sign they occupy
+ */
+function ruledHouses(lord: DashaLord, lagnaIndex: number, natal: Record<DashaLord, number>): number[] {
+  const ruler = lord === 'rahu' || lord === 'ketu'
+    ? PLANET_RULERSHIP[VEDIC_RASHIS[Math.floor(natal[lord] / 30)]]
+    : lord;
+  return VEDIC_RASHIS
+    .map((rashi, index) => (PLANET_RULERSHIP[rashi] === ruler ? ((index - lagnaIndex + 12) % 12) + 1 : 0))
+    .filter(house => house > 0);
+}
+
+/**
+ * Dasha points for one event: lords running at the event and sub-periods
+ * beginning near it
+ */
+function scoreDashas(
+  event: LifeEvent,
+  periods: DashaPeriod[],
+  lagnaIndex: number,
+  natal: Record<DashaLord, number>
+): { lords: DashaLord[]; reasons: RectificationReason[] } {
+  const { houses, karakas } = LIFE_EVENT_SIGNIFICATORS[event.type];
+  const active = findActiveDashas(periods, event.date);
+  const reasons: RectificationReason[] = [];
+
+  active.forEach(period => {
+    const weight = DASHA_LEVEL_WEIGHTS[period.level];
+    const periodName = `${capitalize(period.lord)} ${DASHA_LEVEL_NAMES[period.level].toLowerCase()}`;
+
+    const ruled = ruledHouses(period.lord, lagnaIndex, natal).filter(house => houses.includes(house));
+    if (ruled.length > 0) {
+      reasons.push({
+        factor: 'dasha',
+        points: weight,
+        description: `${periodName}: lord of the ${ruled.map(ordinal).join(' and ')} house`,
+      });
+    }
+    const occupied = houseFrom(lagnaIndex, natal[period.lord]);
+    if (houses.includes(occupied)) {
+      reasons.push({
+        factor: 'dasha',
+        points: weight * 0.5,
+        description: `${periodName}: placed in the ${ordinal(occupied)} house`,
+      });
+    }
+    if (karakas.includes(period.lord)) {
+      reasons.push({
+        factor: 'dasha',
+        points: weight * 0.5,
+        description: `${periodName}: natural significator`,
+      });
+    }
+
+    const changeDays = DASHA_CHANGE_DAYS[period.level];
+    const daysSinceStart = (event.date.getTime() - period.start.getTime()) / MS_PER_DAY;
+    if (changeDays !== undefined && daysSinceStart <= changeDays) {
+      reasons.push({
+        factor: 'dasha_change',
+        points: weight * 0.5,
+        description: `${periodName} began ${Math.round(daysSinceStart)} days before`,
+      });
+    }
+    const next = (period.end.getTime() - event.date.getTime()) / MS_PER_DAY;
+    if (changeDays !== undefined && next <= changeDays) {
+      reasons.push({
+        factor: 'dasha_change',
+        points: weight * 0.25,
+        description: `${periodName} ended ${Math.round(next)} days after`,
+      });
+    }
+  });
+
+  return { lords: active.map(period => period.lord), reasons };
+}
+
+/**
+ * Transit points for one event: slow bodies aspecting the natal angles
+ */
+function scoreTransits(
+  transits: Partial<Record<VedicPlanet, number>>,
+  angles: { name: string; longitude: number }[]
+): RectificationReason[] {
+  const reasons: RectificationReason[] = [];
+
+  (Object.keys(RECTIFICATION_TRANSITS) as VedicPlanet[]).forEach(planet => {
+    const { weight, orb } = RECTIFICATION_TRANSITS[planet]!;
+    angles.forEach(angle => {
+      const distance = separation(transits[planet]!, angle.longitude);
+      ANGLE_ASPECTS.forEach(aspect => {
+        const exactness = Math.abs(distance - aspect.angle);
+        if (exactness > orb) return;
+        reasons.push({
+          factor: 'transit',
+          points: weight * aspect.factor * (1 - exactness / orb),
+          description: `Transit ${capitalize(planet)} ${aspect.name} ${angle.name} (${exactness.toFixed(1)}°)`,
+        });
+      });
+    });
+  });
+
+  return reasons;
+}
+
+/**
+ * Score a candidate birth time against the events
+ *
+ * `natal` holds sidereal longitudes of the slower bodies; the Moon is
+ * recomputed here. `transits` holds the tropical positions at each event.
+ */
+function scoreCandidate(
+  time: Date,
+  events: LifeEvent[],
+  transits: Partial<Record<VedicPlanet, number>>[],
+  natal: Record<DashaLord, number>,
+  location: ObserverLocation,
+  ayanamsaConfig: AyanamsaConfig
+): RectificationCandidate {
+  const jd = julianDayFromDate(time);
+  const ayanamsa = getAyanamsa(ayanamsaConfig, jd);
+  const obliquity = obliquityOfEcliptic(jd + deltaT(jd) / 86400);
+  const siderealTime = localSiderealTime(jd, location.longitude);
+  const ascendant = calculateAscendant(siderealTime, location.latitude, obliquity);
+  const midheaven = calculateMidheaven(siderealTime, obliquity);
+
+  const moon = normalizeDegrees(calculatePlanetPosition('moon', jd).longitude - ayanamsa);
+  const chart = { ...natal, moon };
+  const lagnaIndex = Math.floor(normalizeDegrees(ascendant - ayanamsa) / 30);
+  const angles = [
+    { name: 'Ascendant', longitude: ascendant },
+    { name: 'Midheaven', longitude: midheaven },
+  ];
+
+  const { periods } = calculateVimshottariDasha(moon, time);
+  const scores = events.map((event, index): EventScore => {
+    const dashas = scoreDashas(event, periods, lagnaIndex, chart);
+    const reasons = [...dashas.reasons, ...scoreTransits(transits[index], angles)]
+      .map(reason => ({ ...reason, points: round(reason.points) }));
+    return {
+      event,
+      score: round(reasons.reduce((sum, reason) => sum + reason.points, 0)),
+      dashaLords: dashas.lords,
+      reasons,
+    };
+  });
+
+  const total = (factor?: RectificationFactor[]) => round(
+    scores.flatMap(score => score.reasons)
+      .filter(reason => !factor || factor.includes(reason.factor))
+      .reduce((sum, reason) => sum + reason.points, 0)
+  );
+
+  return {
+    time,
+    ascendant: normalizeDegrees(ascendant - ayanamsa),
+    lagna: VEDIC_RASHIS[lagnaIndex],
+    midheaven: normalizeDegrees(midheaven - ayanamsa),
+    score: total(),
+    dashaScore: total(['dasha', 'dasha_change']),
+    transitScore: total(['transit']),
+    events: scores,
+  };
+}
+
+/**
+ * Validate the options and compute what every candidate shares: the slower
+ * natal planets at the middle of the window and the transits at each event
+ */
+function prepareRectification(options: RectificationOptions) {
+  const {
+    start,
+    end,
+    location = DEFAULT_OBSERVER_LOCATION,
+    events,
+    stepMinutes = 4,
+    ayanamsaConfig = { system: DEFAULT_AYANAMSA },
+  } = options;
+
+  if (end < start) {
+    throw new Error('Birth window must end after it starts');
+  }
+  if ((end.getTime() - start.getTime()) / 3600000 > MAX_WINDOW_HOURS) {
+    throw new Error(`Birth window cannot exceed ${MAX_WINDOW_HOURS} hours`);
+  }
+  if (!(stepMinutes >= 1)) {
+    throw new Error(`Invalid rectification step: ${stepMinutes} minutes`);
+  }
+  if (events.length === 0) {
+    throw new Error('At least one life event is needed for rectification');
+  }
+  events.forEach(event => {
+    if (Number.isNaN(event.date.getTime()) || event.date <= end) {
+      throw new Error(`${LIFE_EVENT_NAMES[event.type]} must be dated after the birth window`);
+    }
+  });
+
+  const middleJd = julianDayFromDate(new Date((start.getTime() + end.getTime()) / 2));
+  const middleAyanamsa = getAyanamsa(ayanamsaConfig, middleJd);
+  const positions = calculatePlanetPositions(middleJd);
+  const natal = {} as Record<DashaLord, number>;
+  NATAL_PLANETS.forEach(planet => {
+    natal[planet] = normalizeDegrees(positions[planet].longitude - middleAyanamsa);
+  });
+
+  const transits = events.map(event => {
+    const eventJd = julianDayFromDate(event.date);
+    const longitudes: Partial<Record<VedicPlanet, number>> = {};
+    (Object.keys(RECTIFICATION_TRANSITS) as VedicPlanet[]).forEach(planet => {
+      longitudes[planet] = calculatePlanetPosition(planet, eventJd).longitude;
+    });
+    return longitudes;
+  });
+
+  const step = stepMinutes * 60000;
+  const times: Date[] = [];
+  for (let time = start.getTime(); time <= end.getTime(); time += step) {
+    times.push(new Date(time));
+  }
+
+  return {
+    end,
+    step,
+    times,
+    score: (time: Date) => scoreCandidate(time, events, transits, natal, location, ayanamsaConfig),
+  };
+}
+
+/**
+ * Group scored candidates into ascendants and rank both
+ */
+function rankCandidates(scanned: RectificationCandidate[], step: number, end: Date): RectificationResult {
+  // Consecutive candidates with the same lagna form one ascendant
+  const ascendants: AscendantCandidate[] = [];
+  scanned.forEach((candidate, index) => {
+    const current = ascendants[ascendants.length - 1];
+    const spanEnd = new Date(Math.min(candidate.time.getTime() + step, end.getTime()));
+    if (current && scanned[index - 1].lagna === candidate.lagna) {
+      current.end = spanEnd;
+      if (candidate.score > current.best.score) current.best = candidate;
+      return;
+    }
+    ascendants.push({ lagna: candidate.lagna, start: candidate.time, end: spanEnd, best: candidate, strength: 0 });
+  });
+  const byScore = (a: { score: number; time: Date }, b: { score: number; time: Date }) =>
+    b.score - a.score || a.time.getTime() - b.time.getTime();
+
+  ascendants.sort((a, b) => byScore(a.best, b.best));
+  const topScore = ascendants[0].best.score;
+  ascendants.forEach(ascendant => {
+    ascendant.strength = topScore > 0 ? Math.round((Math.max(0, ascendant.best.score) / topScore) * 100) : 0;
+  });
+
+  return {
+    ascendants,
+    candidates: [...scanned].sort(byScore),
+  };
+}
+
+/**
+ * Rank candidate birth times and rising signs within a window by how well
+ * they time the given life events
+ */
+export function rectifyBirthTime(options: RectificationOptions): RectificationResult {
+  const { end, step, times, score } = prepareRectification(options);
+  return rankCandidates(times.map(score), step, end);
+}
+
+/**
+ * rectifyBirthTime in slices, yielding to the event loop between them
+ */
+export async function rectifyBirthTimeAsync(
+  options: RectificationOptions,
+  { onProgress, isCancelled }: RectificationProgressOptions = {}
+): Promise<RectificationResult> {
+  const { end, step, times, score } = prepareRectification(options);
+  const scanned: RectificationCandidate[] = [];
+
+  while (scanned.length < times.length) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (isCancelled?.()) {
+      throw new Error('Rectification cancelled');
+    }
+    times.slice(scanned.length, scanned.length + CANDIDATES_PER_SLICE).forEach(time => scanned.push(score(time)));
+    onProgress?.(scanned.length / times.length);
+  }
+
+  return rankCandidates(scanned, step, end);
+}
@@ -0,0 +1,330 @@
+/**
+ * Corp Astro UI Library - Retrograde Calendar
+ *
+ * Retrograde cycles of Mercury through Pluto from the offline ephemeris.
+ * A cycle runs through four stages:
+ * - Pre-shadow: from the day the planet first reaches the degree where it
+ *   will later station direct, up to the retrograde station
+ * - Retrograde: from the retrograde station to the direct station
+ * - Post-shadow: from the direct station until the planet regains the
+ *   degree of its retrograde station
+ *
+ * Stations are found by scanning the daily motion for sign changes and
+ * refining by bisection; shadow limits by bisection on longitude. Positions
+ * are geocentric apparent tropical longitudes.
+ *
+ * @module retrogradeUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { Planet } from './PlanetIndicator';
+import { RetrogradeData, RetrogradeStatus } from './RetrogradeBadge';
+import { calculatePlanetPosition, dateFromJulianDay, julianDayFromDate } from './ephemerisUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Planets that turn retrograde
+ */
+export type RetrogradePlanet = Exclude<Planet, 'sun' | 'moon'>;
+
+/**
+ * Stage of a retrograde cycle
+ */
+export type RetrogradePhase = 'pre_shadow' | 'retrograde' | 'post_shadow' | 'direct';
+
+/**
+ * Moment a planet appears to stand still
+ */
+export interface Station {
+  /** Planet */
+  planet: RetrogradePlanet;
+  /** Direction the planet turns to */
+  type: 'retrograde' | 'direct';
+  /** Instant of the station */
+  date: Date;
+  /** Tropical longitude at the station */
+  longitude: number;
+}
+
+/**
+ * One retrograde cycle with its shadow periods
+ */
+export interface RetrogradeCycle {
+  /** Planet */
+  planet: RetrogradePlanet;
+  /** Planet first reaches the direct-station degree */
+  preShadowStart: Date;
+  /** Retrograde station */
+  stationRetrograde: Station;
+  /** Direct station */
+  stationDirect: Station;
+  /** Planet regains the retrograde-station degree */
+  postShadowEnd: Date;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Planets scanned, in order of speed
+ */
+export const RETROGRADE_PLANETS: RetrogradePlanet[] = [
+  'mercury', 'venus', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune', 'pluto',
+];
+
+/**
+ * Display names for each stage
+ */
+export const RETROGRADE_PHASE_NAMES: Record<RetrogradePhase, string> = {
+  pre_shadow: 'Pre-Shadow',
+  retrograde: 'Retrograde',
+  post_shadow: 'Post-Shadow',
+  direct: 'Direct',
+};
+
+/**
+ * Typical effects of each planet's retrograde
+ */
+export const RETROGRADE_EFFECTS: Record<RetrogradePlanet, string> = {
+  mercury: 'Communication delays, tech issues, revisit old projects.',
+  venus: 'Reassess relationships, values and spending; old flames return.',
+  mars: 'Energy turns inward; review strategy before pushing ahead.',
+  jupiter: 'Growth slows to reflect on beliefs, plans and opportunities.',
+  saturn: 'Rework structures, commitments and long-term responsibilities.',
+  uranus: 'Inner change before outer breakthroughs; revisit freedoms.',
+  neptune: 'Illusions lift; clarify dreams, faith and intuition.',
+  pluto: 'Deep inner transformation; confront power and control patterns.',
+};
+
+/**
+ * Days either side of a station counted as stationary
+ */
+export const STATION_ORB_DAYS: Record<RetrogradePlanet, number> = {
+  mercury: 1,
+  venus: 2,
+  mars: 3,
+  jupiter: 5,
+  saturn: 5,
+  uranus: 7,
+  neptune: 7,
+  pluto: 7,
+};
+
+/** Scan step in days; shorter than any retrograde or direct run */
+const SCAN_STEP: Record<RetrogradePlanet, number> = {
+  mercury: 1,
+  venus: 2,
+  mars: 2,
+  jupiter: 4,
+  saturn: 4,
+  uranus: 4,
+  neptune: 4,
+  pluto: 4,
+};
+
+/** Longest shadow period searched, in days */
+const MAX_SHADOW_DAYS = 240;
+
+/** Bisection steps (about a minute for a one-day bracket) */
+const BISECTION_STEPS = 12;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Signed difference a - b in degrees (-180 to 180)
+ */
+function angleDifference(a: number, b: number): number {
+  const diff = normalizeDegrees(a - b);
+  return diff > 180 ? diff - 360 : diff;
+}
+
+/**
+ * Zero of a function between two Julian Days where its sign differs
+ */
+function bisect(valueAt: (jd: number) => number, low: number, high: number): number {
+  const lowNegative = valueAt(low) < 0;
+  for (let iteration = 0; iteration < BISECTION_STEPS; iteration++) {
+    const middle = (low + high) / 2;
+    if ((valueAt(middle) < 0) === lowNegative) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Calendar date as 'YYYY-MM-DD' (UTC)
+ */
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / 86400000;
+}
+
+/**
+ * Retrograde and direct stations of a planet within a date range
+ */
+export function findStations(planet: RetrogradePlanet, start: Date, end: Date): Station[] {
+  if (end <= start) {
+    throw new Error('Station search range must end after it starts');
+  }
+
+  const speedAt = (jd: number) => calculatePlanetPosition(planet, jd).speed;
+  const step = SCAN_STEP[planet];
+  const endJd = julianDayFromDate(end);
+  const stations: Station[] = [];
+
+  let jd = julianDayFromDate(start);
+  let previous = speedAt(jd);
+  while (jd < endJd) {
+    const next = Math.min(jd + step, endJd);
+    const current = speedAt(next);
+    if ((previous < 0) !== (current < 0)) {
+      const stationJd = bisect(speedAt, jd, next);
+      stations.push({
+        planet,
+        type: previous > 0 ? 'retrograde' : 'direct',
+        date: dateFromJulianDay(stationJd),
+        longitude: calculatePlanetPosition(planet, stationJd).longitude,
+      });
+    }
+    previous = current;
+    jd = next;
+  }
+
+  return stations;
+}
+
+/**
+ * Instant a planet moving direct reaches a longitude, searching from a
+ * Julian Day in one direction
+ */
+function findLongitudeCrossing(planet: RetrogradePlanet, longitude: number, fromJd: number, direction: 1 | -1): Date {
+  const offset = (jd: number) => angleDifference(calculatePlanetPosition(planet, jd).longitude, longitude);
+  const step = SCAN_STEP[planet] * direction;
+
+  let jd = fromJd;
+  while (Math.abs(jd - fromJd) < MAX_SHADOW_DAYS) {
+    const next = jd + step;
+    // Before the station the planet is behind the degree, after it ahead
+    if (direction < 0 ? offset(next) < 0 : offset(next) > 0) {
+      return dateFromJulianDay(bisect(offset, Math.min(jd, next), Math.max(jd, next)));
+    }
+    jd = next;
+  }
+  throw new Error(`No shadow limit found for ${planet} within ${MAX_SHADOW_DAYS} days`);
+}
+
+/**
+ * Retrograde cycles of a planet whose shadow periods overlap a date range
+ */
+export function findRetrogradeCycles(planet: RetrogradePlanet, start: Date, end: Date): RetrogradeCycle[] {
+  const margin = MAX_SHADOW_DAYS * 86400000;
+  const stations = findStations(planet, new Date(start.getTime() - margin), new Date(end.getTime() + margin));
+  const cycles: RetrogradeCycle[] = [];
+
+  stations.forEach((station, index) => {
+    const direct = stations[index + 1];
+    if (station.type !== 'retrograde' || !direct) return;
+
+    const cycle: RetrogradeCycle = {
+      planet,
+      preShadowStart: findLongitudeCrossing(planet, direct.longitude, julianDayFromDate(station.date), -1),
+      stationRetrograde: station,
+      stationDirect: direct,
+      postShadowEnd: findLongitudeCrossing(planet, station.longitude, julianDayFromDate(direct.date), 1),
+    };
+    if (cycle.preShadowStart < end && cycle.postShadowEnd > start) {
+      cycles.push(cycle);
+    }
+  });
+
+  return cycles;
+}
+
+/**
+ * Retrograde cycles of every planet overlapping a date range, in order of
+ * the retrograde station
+ */
+export function getRetrogradeSeason(
+  start: Date,
+  end: Date,
+  planets: RetrogradePlanet[] = RETROGRADE_PLANETS
+): RetrogradeCycle[] {
+  return planets
+    .flatMap(planet => findRetrogradeCycles(planet, start, end))
+    .sort((a, b) => a.stationRetrograde.date.getTime() - b.stationRetrograde.date.getTime());
+}
+
+/**
+ * Stage of a cycle at an instant
+ */
+export function getRetrogradePhase(cycle: RetrogradeCycle, date: Date): RetrogradePhase {
+  if (date < cycle.preShadowStart || date >= cycle.postShadowEnd) return 'direct';
+  if (date < cycle.stationRetrograde.date) return 'pre_shadow';
+  if (date < cycle.stationDirect.date) return 'retrograde';
+  return 'post_shadow';
+}
+
+/**
+ * Badge data for a cycle at an instant
+ *
+ * Within the station orb the status is 'stationary'. Dates, duration and days
+ * remaining refer to the retrograde run; days remaining count down to the
+ * direct station, or to the retrograde station while it is still ahead.
+ */
+export function getRetrogradeData(cycle: RetrogradeCycle, date: Date = new Date()): RetrogradeData {
+  const { planet, stationRetrograde, stationDirect } = cycle;
+  const orb = STATION_ORB_DAYS[planet];
+  const phase = getRetrogradePhase(cycle, date);
+
+  const nearStation = [stationRetrograde, stationDirect].some(
+    station => Math.abs(daysBetween(station.date, date)) <= orb
+  );
+  const status: RetrogradeStatus = nearStation ? 'stationary' : phase === 'retrograde' ? 'retrograde' : 'direct';
+
+  const target = date < stationRetrograde.date ? stationRetrograde.date : stationDirect.date;
+  const remaining = Math.ceil(daysBetween(date, target));
+
+  // Strongest at the stations, fading through the retrograde and shadows
+  const duration = daysBetween(stationRetrograde.date, stationDirect.date);
+  const fromStation = Math.min(
+    Math.abs(daysBetween(stationRetrograde.date, date)),
+    Math.abs(daysBetween(stationDirect.date, date))
+  );
+  const influence =
+    status === 'stationary' ? 100
+      : phase === 'retrograde' ? Math.round(90 - 30 * Math.min(1, fromStation / (duration / 2)))
+        : phase === 'direct' ? 10
+          : 40;
+
+  return {
+    planet,
+    status,
+    startDate: formatDay(stationRetrograde.date),
+    endDate: formatDay(stationDirect.date),
+    duration: Math.round(duration),
+    daysRemaining: remaining > 0 ? remaining : undefined,
+    influence,
+    effects: RETROGRADE_EFFECTS[planet],
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * Corp Astro UI Library - Solar & Lunar Returns
+ *
+ * Finds the exact moments the Sun and Moon come back to their natal
+ * longitudes and casts return charts for a location. The mean motion gives a
+ * first estimate, refined by Newton steps on the apparent longitude to well
+ * under a second. Returns can be tropical (Western) or sidereal (the Vedic
+ * Varsha Pravesha, which the Varshaphal annual chart is cast for).
+ *
+ * Each return chart comes as ephemeris data plus ready-to-render
+ * AstrologyWheel and North Indian chart data; the wheel follows the return's
+ * zodiac and the North Indian chart is always sidereal.
+ *
+ * @module returnChartUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { AstrologyWheelData, HouseData, PlanetPosition } from './AstrologyWheel';
+import type { NorthIndianChartData, VedicPlanet } from './NorthIndianChart';
+import type { RawAstrologicalData } from './NorthIndianChartDataProcessor';
+import type { Planet } from './PlanetIndicator';
+import type { ZodiacSign } from './ZodiacCard';
+import { AyanamsaConfig, DEFAULT_AYANAMSA, applyAyanamsa, getAyanamsa } from './ayanamsaUtils';
+import {
+  EphemerisResult,
+  calculateEphemeris,
+  calculatePlanetPosition,
+  dateFromJulianDay,
+  julianDay,
+  julianDayFromDate,
+} from './ephemerisUtils';
+import { DEFAULT_OBSERVER_LOCATION, ObserverLocation } from './horizonUtils';
+import { HouseSystem } from './houseSystemUtils';
+import { calculateWheelAspects, getWheelHouse } from './synastryUtils';
+import { calculateDivisionalChart } from './vargaUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Body whose return is sought
+ */
+export type ReturnBody = 'solar' | 'lunar';
+
+/**
+ * Zodiac a return is measured in
+ */
+export type ReturnZodiac = 'tropical' | 'sidereal';
+
+/**
+ * Natal chart a return is cast for (tropical longitudes, as from calculateEphemeris)
+ */
+export type ReturnNatalChart = Pick<EphemerisResult, 'planets' | 'julianDay'> & Partial<Pick<EphemerisResult, 'title'>>;
+
+/**
+ * Return search and chart options
+ */
+export interface ReturnOptions {
+  /** Place the return chart is cast for (default: New Delhi) */
+  location?: ObserverLocation;
+  /** Zodiac of the return (default: 'tropical') */
+  zodiac?: ReturnZodiac;
+  /** Ayanamsa for sidereal returns and the North Indian chart (default: Lahiri) */
+  ayanamsaConfig?: AyanamsaConfig;
+  /** House system of the return chart */
+  houseSystem?: HouseSystem;
+}
+
+/**
+ * A cast return chart
+ */
+export interface ReturnChart {
+  /** Body that returned */
+  type: ReturnBody;
+  /** Return instant */
+  date: Date;
+  /** Zodiac the return is measured in */
+  zodiac: ReturnZodiac;
+  /** Natal longitude of the body in that zodiac, which it returns to */
+  returnLongitude: number;
+  /** Place the chart is cast for */
+  location: ObserverLocation;
+  /** Tropical chart at the return instant */
+  chart: EphemerisResult;
+  /** Wheel data in the return's zodiac */
+  wheel: AstrologyWheelData;
+  /** Sidereal Rasi chart data */
+  northIndian: NorthIndianChartData;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Mean daily motion in degrees, for the first estimate of a return
+ */
+export const RETURN_MEAN_MOTION: Record<ReturnBody, number> = {
+  solar: 0.98564736,
+  lunar: 13.17639648,
+};
+
+/** Newton steps stop below this correction (days, about 0.01 s) */
+const RETURN_TOLERANCE_DAYS = 1e-7;
+
+/** Newton steps before giving up */
+const MAX_RETURN_ITERATIONS = 12;
+
+const RETURN_BODIES: Record<ReturnBody, VedicPlanet> = {
+  solar: 'sun',
+  lunar: 'moon',
+};
+
+/**
+ * Bodies drawn on return wheels
+ */
+const WHEEL_PLANETS: Planet[] = [
+  'sun',
+  'moon',
+  'mercury',
+  'venus',
+  'mars',
+  'jupiter',
+  'saturn',
+  'uranus',
+  'neptune',
+  'pluto',
+];
+
+const ZODIAC_SIGNS: ZodiacSign[] = [
+  'aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo',
+  'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces',
+];
+
+const RETURN_NAMES: Record<ReturnBody, string> = {
+  solar: 'Solar Return',
+  lunar: 'Lunar Return',
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Signed difference a - b in degrees (-180 to 180)
+ */
+function angleDifference(a: number, b: number): number {
+  const diff = normalizeDegrees(a - b);
+  return diff > 180 ? diff - 360 : diff;
+}
+
+/**
+ * Local clock time of an instant as 'YYYY-MM-DDTHH:mm:ss'
+ */
+function localDatetime(date: Date, timezone: number): string {
+  return new Date(date.getTime() + timezone * 3600000).toISOString().slice(0, 19);
+}
+
+/**
+ * Ayanamsa to subtract for a zodiac at a Julian Day
+ */
+function zodiacOffset(zodiac: ReturnZodiac, ayanamsaConfig: AyanamsaConfig, jd: number): number {
+  return zodiac === 'sidereal' ? getAyanamsa(ayanamsaConfig, jd) : 0;
+}
+
+/**
+ * Natal longitude of the returning body in the return's zodiac
+ */
+function natalReturnLongitude(natal: ReturnNatalChart, type: ReturnBody, options: ReturnOptions): number {
+  const { zodiac = 'tropical', ayanamsaConfig = { system: DEFAULT_AYANAMSA } } = options;
+  return normalizeDegrees(natal.planets[RETURN_BODIES[type]] - zodiacOffset(zodiac, ayanamsaConfig, natal.julianDay));
+}
+
+/**
+ * Julian Day (UT) of the first return at or after a Julian Day
+ */
+function findReturnJulianDay(natal: ReturnNatalChart, type: ReturnBody, fromJd: number, options: ReturnOptions): number {
+  const { zodiac = 'tropical', ayanamsaConfig = { system: DEFAULT_AYANAMSA } } = options;
+  const body = RETURN_BODIES[type];
+  const target = natalReturnLongitude(natal, type, options);
+  const longitudeAt = (jd: number) => {
+    const position = calculatePlanetPosition(body, jd);
+    return { longitude: position.longitude - zodiacOffset(zodiac, ayanamsaConfig, jd), speed: position.speed };
+  };
+
+  let jd = fromJd + normalizeDegrees(target - longitudeAt(fromJd).longitude) / RETURN_MEAN_MOTION[type];
+  for (let iteration = 0; iteration < MAX_RETURN_ITERATIONS; iteration++) {
+    const { longitude, speed } = longitudeAt(jd);
+    const step = angleDifference(target, longitude) / speed;
+    jd += step;
+    if (Math.abs(step) < RETURN_TOLERANCE_DAYS) return jd;
+  }
+  throw new Error(`${RETURN_NAMES[type]} search did not converge near ${dateFromJulianDay(jd).toISOString()}`);
+}
+
+/**
+ * Exact solar return in a calendar year
+ */
+export function findSolarReturn(natal: ReturnNatalChart, year: number, options: ReturnOptions = {}): Date {
+  if (!Number.isInteger(year)) {
+    throw new Error(`Invalid year: ${year}`);
+  }
+  return dateFromJulianDay(findReturnJulianDay(natal, 'solar', julianDay(year, 1, 1), options));
+}
+
+/**
+ * Exact lunar return at or after a date
+ */
+export function findLunarReturn(natal: ReturnNatalChart, after: Date, options: ReturnOptions = {}): Date {
+  return dateFromJulianDay(findReturnJulianDay(natal, 'lunar', julianDayFromDate(after), options));
+}
+
+/**
+ * Every lunar return within a date range, in order
+ */
+export function findLunarReturns(natal: ReturnNatalChart, start: Date, end: Date, options: ReturnOptions = {}): Date[] {
+  if (end <= start) {
+    throw new Error('Lunar return search range must end after it starts');
+  }
+
+  const endJd = julianDayFromDate(end);
+  const returns: Date[] = [];
+  let jd = findReturnJulianDay(natal, 'lunar', julianDayFromDate(start), options);
+  while (jd < endJd) {
+    returns.push(dateFromJulianDay(jd));
+    // Skip a day past the return so the search moves on to the next month
+    jd = findReturnJulianDay(natal, 'lunar', jd + 1, options);
+  }
+  return returns;
+}
+
+/**
+ * AstrologyWheel data from chart data in either zodiac
+ */
+export function createWheelData(
+  chart: RawAstrologicalData,
+  options: Pick<AstrologyWheelData, 'chartType' | 'title' | 'date'> = {}
+): AstrologyWheelData {
+  const cusps = chart.houseCusps?.length === 12
+    ? chart.houseCusps
+    : Array.from({ length: 12 }, (_, index) => chart.ascendant + index * 30);
+  const houses: HouseData[] = cusps.map((cusp, index) => ({
+    number: index + 1,
+    sign: ZODIAC_SIGNS[Math.floor(normalizeDegrees(cusp) / 30)],
+    cusp: normalizeDegrees(cusp),
+  }));
+
+  const planets: PlanetPosition[] = WHEEL_PLANETS
+    .filter(planet => chart.planets[planet] !== undefined)
+    .map(planet => {
+      const degree = normalizeDegrees(chart.planets[planet]);
+      return {
+        planet,
+        sign: ZODIAC_SIGNS[Math.floor(degree / 30)],
+        degree,
+        house: getWheelHouse(degree, houses),
+        retrograde: chart.retrograde?.[planet],
+      };
+    });
+
+  return {
+    houses,
+    planets,
+    aspects: calculateWheelAspects(planets),
+    chartType: options.chartType,
+    title: options.title ?? chart.title,
+    date: options.date ?? chart.datetime,
+  };
+}
+
+/**
+ * Cast the chart for a return instant
+ */
+export function castReturnChart(
+  natal: ReturnNatalChart,
+  type: ReturnBody,
+  date: Date,
+  options: ReturnOptions = {}
+): ReturnChart {
+  const {
+    location = DEFAULT_OBSERVER_LOCATION,
+    zodiac = 'tropical',
+    ayanamsaConfig = { system: DEFAULT_AYANAMSA },
+    houseSystem,
+  } = options;
+
+  const datetime = localDatetime(date, location.timezone);
+  const title = [natal.title, `${RETURN_NAMES[type]} ${datetime.slice(0, 10)}`].filter(Boolean).join(' · ');
+  const chart = calculateEphemeris({
+    datetime,
+    timezone: location.timezone,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    location: location.name,
+    title,
+    houseSystem,
+  });
+
+  const wheelChart = zodiac === 'sidereal' ? applyAyanamsa(chart, ayanamsaConfig).data : chart;
+  const northIndian: NorthIndianChartData = {
+    ...calculateDivisionalChart(chart, 'D1', ayanamsaConfig),
+    retrogradePlanets: (Object.keys(chart.retrograde) as VedicPlanet[]).filter(planet => chart.retrograde[planet]),
+  };
+
+  return {
+    type,
+    date,
+    zodiac,
+    returnLongitude: natalReturnLongitude(natal, type, options),
+    location,
+    chart,
+    wheel: createWheelData(wheelChart, { chartType: type === 'solar' ? 'solar-return' : 'lunar-return', title }),
+    northIndian,
+  };
+}
+
+/**
+ * Solar return chart for a calendar year
+ */
+export function calculateSolarReturn(natal: ReturnNatalChart, year: number, options: ReturnOptions = {}): ReturnChart {
+  return castReturnChart(natal, 'solar', findSolarReturn(natal, year, options), options);
+}
+
+/**
+ * Lunar return charts within a date range
+ */
+export function calculateLunarReturns(
+  natal: ReturnNatalChart,
+  start: Date,
+  end: Date,
+  options: ReturnOptions = {}
+): ReturnChart[] {
+  return findLunarReturns(natal, start, end, options).map(date => castReturnChart(natal, 'lunar', date, options));
+}
@@ -0,0 +1,490 @@
+/**
+ * Corp Astro UI Library - Shadbala
+ *
+ * Six-fold planetary strength (Shadbala) of the seven grahas after Brihat
+ * Parashara Hora Shastra: positional (Sthana), directional (Dig), temporal
+ * (Kala), motional (Chesta), natural (Naisargika) and aspectual (Drik)
+ * strength. Components are computed in virupas and reported in rupas
+ * (60 virupas = 1 rupa).
+ *
+ * Sunrise and sunset are taken from the Sun's position relative to the
+ * ascendant, and planetary war (Yuddha bala) is not applied.
+ *
+ * @module shadbalaUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import {
+  VedicPlanet,
+  NorthIndianChartType,
+  VEDIC_RASHIS,
+  PLANET_RULERSHIP,
+} from './NorthIndianChart';
+import type { RawAstrologicalData } from './NorthIndianChartDataProcessor';
+import { AyanamsaConfig, DEFAULT_AYANAMSA, applyAyanamsa, getAyanamsaForDatetime } from './ayanamsaUtils';
+import { julianDay } from './ephemerisUtils';
+import { calculateMidheaven } from './houseSystemUtils';
+import { calculateVargaLongitude } from './vargaUtils';
+import { CompoundRelationship, getCompoundRelationship } from './friendshipUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Planets that receive Shadbala
+ */
+export type ShadbalaPlanet = 'sun' | 'moon' | 'mars' | 'mercury' | 'jupiter' | 'venus' | 'saturn';
+
+/**
+ * The six strength components, in rupas
+ */
+export interface ShadbalaComponents {
+  /** Positional strength */
+  sthana: number;
+  /** Directional strength */
+  dig: number;
+  /** Temporal strength */
+  kala: number;
+  /** Motional strength */
+  chesta: number;
+  /** Natural strength */
+  naisargika: number;
+  /** Aspectual strength (may be negative) */
+  drik: number;
+}
+
+/**
+ * Sub-components of Sthana and Kala bala, in virupas
+ */
+export interface ShadbalaDetails {
+  uchcha: number;
+  saptavargaja: number;
+  ojayugma: number;
+  kendradi: number;
+  drekkana: number;
+  nathonnatha: number;
+  paksha: number;
+  tribhaga: number;
+  abda: number;
+  masa: number;
+  vara: number;
+  hora: number;
+  ayana: number;
+}
+
+/**
+ * Shadbala of a single planet
+ */
+export interface ShadbalaResult {
+  planet: ShadbalaPlanet;
+  /** Component strengths in rupas */
+  components: ShadbalaComponents;
+  /** Sub-components in virupas */
+  details: ShadbalaDetails;
+  /** Total strength in rupas */
+  total: number;
+  /** Minimum strength required in rupas */
+  required: number;
+  /** Total divided by the requirement */
+  ratio: number;
+  /** Whether the planet meets its requirement */
+  isStrong: boolean;
+}
+
+/**
+ * Shadbala calculation options
+ */
+export interface ShadbalaOptions {
+  /** Ayanamsa applied to tropical data and used for declinations */
+  ayanamsa?: AyanamsaConfig;
+}
+
+/**
+ * Chart input, optionally carrying ephemeris output
+ */
+export type ShadbalaInput = RawAstrologicalData & {
+  positions?: Partial<Record<VedicPlanet, { speed: number }>>;
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Virupas in one rupa */
+export const VIRUPAS_PER_RUPA = 60;
+
+/**
+ * Planets in Shadbala order
+ */
+export const SHADBALA_PLANETS: ShadbalaPlanet[] = [
+  'sun', 'moon', 'mars', 'mercury', 'jupiter', 'venus', 'saturn',
+];
+
+/**
+ * Display names for each component
+ */
+export const SHADBALA_COMPONENT_NAMES: Record<keyof ShadbalaComponents, string> = {
+  sthana: 'Sthana Bala',
+  dig: 'Dig Bala',
+  kala: 'Kala Bala',
+  chesta: 'Chesta Bala',
+  naisargika: 'Naisargika Bala',
+  drik: 'Drik Bala',
+};
+
+/**
+ * Minimum Shadbala in rupas for a planet to be considered strong
+ */
+export const REQUIRED_SHADBALA: Record<ShadbalaPlanet, number> = {
+  sun: 6.5,
+  moon: 6,
+  mars: 5,
+  mercury: 7,
+  jupiter: 6.5,
+  venus: 5.5,
+  saturn: 5,
+};
+
+/**
+ * Natural strength in virupas, Sun brightest to Saturn dimmest
+ */
+const NAISARGIKA_BALA: Record<ShadbalaPlanet, number> = {
+  sun: 60,
+  moon: (60 * 6) / 7,
+  venus: (60 * 5) / 7,
+  jupiter: (60 * 4) / 7,
+  mercury: (60 * 3) / 7,
+  mars: (60 * 2) / 7,
+  saturn: 60 / 7,
+};
+
+/**
+ * Sidereal longitude of deep exaltation
+ */
+const EXALTATION_POINTS: Record<ShadbalaPlanet, number> = {
+  sun: 10,
+  moon: 33,
+  mars: 298,
+  mercury: 165,
+  jupiter: 95,
+  venus: 357,
+  saturn: 200,
+};
+
+/**
+ * Moolatrikona portions: sign index and degree range
+ */
+const MOOLATRIKONA: Record<ShadbalaPlanet, { sign: number; from: number; to: number }> = {
+  sun: { sign: 4, from: 0, to: 20 },
+  moon: { sign: 1, from: 3, to: 30 },
+  mars: { sign: 0, from: 0, to: 12 },
+  mercury: { sign: 5, from: 15, to: 20 },
+  jupiter: { sign: 8, from: 0, to: 10 },
+  venus: { sign: 6, from: 0, to: 15 },
+  saturn: { sign: 10, from: 0, to: 20 },
+};
+
+/** Divisional charts scored by Saptavargaja bala */
+const SAPTAVARGA: NorthIndianChartType[] = ['D1', 'D2', 'D3', 'D7', 'D9', 'D12', 'D30'];
+
+/**
+ * Saptavargaja points for each relationship with a varga's sign lord
+ */
+const SAPTAVARGAJA_POINTS: Record<CompoundRelationship | 'moolatrikona' | 'own', number> = {
+  moolatrikona: 45,
+  own: 30,
+  great_friend: 20,
+  friend: 15,
+  neutral: 10,
+  enemy: 4,
+  great_enemy: 2,
+};
+
+/**
+ * Decanate (0-2) giving Drekkana bala: male, neuter and female planets
+ */
+const DREKKANA_STRONG: Record<ShadbalaPlanet, number> = {
+  sun: 0,
+  mars: 0,
+  jupiter: 0,
+  mercury: 1,
+  saturn: 1,
+  moon: 2,
+  venus: 2,
+};
+
+/**
+ * Point of maximum directional strength, as an angle
+ */
+const DIG_BALA_POINT: Record<ShadbalaPlanet, 'ascendant' | 'midheaven' | 'descendant' | 'nadir'> = {
+  jupiter: 'ascendant',
+  mercury: 'ascendant',
+  sun: 'midheaven',
+  mars: 'midheaven',
+  saturn: 'descendant',
+  moon: 'nadir',
+  venus: 'nadir',
+};
+
+/** Lords of the weekdays, Sunday first */
+const WEEKDAY_LORDS: ShadbalaPlanet[] = ['sun', 'moon', 'mars', 'mercury', 'jupiter', 'venus', 'saturn'];
+
+/** Chaldean order, the succession of planetary hours */
+const CHALDEAN_ORDER: ShadbalaPlanet[] = ['saturn', 'jupiter', 'mars', 'sun', 'venus', 'mercury', 'moon'];
+
+/** Julian Day of the Kali Yuga epoch, the origin of the Ahargana */
+const KALI_YUGA_EPOCH = 588465.5;
+
+/** Mean daily motion in longitude (degrees/day) */
+const MEAN_DAILY_MOTION: Record<'mars' | 'mercury' | 'jupiter' | 'venus' | 'saturn', number> = {
+  mercury: 0.9856,
+  venus: 0.9856,
+  mars: 0.524,
+  jupiter: 0.0831,
+  saturn: 0.0335,
+};
+
+/**
+ * Houses aspected in full in addition to the 7th
+ */
+const SPECIAL_ASPECTS: Partial<Record<ShadbalaPlanet, number[]>> = {
+  mars: [90, 210],
+  jupiter: [120, 240],
+  saturn: [60, 270],
+};
+
+/** Mean obliquity of the ecliptic used for declinations */
+const OBLIQUITY = 23.4393;
+
+const DEG_TO_RAD = Math.PI / 180;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Shortest arc between two longitudes (0-180)
+ */
+function angularDistance(a: number, b: number): number {
+  const diff = normalizeDegrees(a - b);
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Weekday (0 = Sunday) of a Julian Day
+ */
+function weekdayOf(jd: number): number {
+  return Math.floor(jd + 1.5) % 7;
+}
+
+/**
+ * Aspect value in virupas for a forward arc from the aspecting planet
+ */
+function drishtiValue(planet: ShadbalaPlanet, arc: number): number {
+  if (SPECIAL_ASPECTS[planet]?.some(point => Math.abs(arc - point) <= 15)) return 60;
+  if (arc < 30 || arc >= 300) return 0;
+  if (arc < 60) return (arc - 30) / 2;
+  if (arc < 90) return arc - 60 + 15;
+  if (arc < 120) return (120 - arc) / 2 + 30;
+  if (arc < 150) return 150 - arc;
+  if (arc < 180) return (arc - 150) * 2;
+  return (300 - arc) / 2;
+}
+
+/**
+ * Chesta bala of a star planet from its daily motion
+ */
+function motionStrength(planet: keyof typeof MEAN_DAILY_MOTION, speed?: number, isRetrograde?: boolean): number {
+  if (speed === undefined) {
+    return isRetrograde ? 60 : 7.5;
+  }
+  const ratio = speed / MEAN_DAILY_MOTION[planet];
+  if (ratio < 0) return 60;          // Vakra
+  if (Math.abs(ratio) < 0.05) return 15; // Vikala
+  if (ratio < 0.5) return 15;        // Mandatara
+  if (ratio < 0.9) return 30;        // Manda
+  if (ratio <= 1.1) return 7.5;      // Sama
+  if (ratio <= 1.5) return 45;       // Chara
+  return 30;                         // Atichara
+}
+
+/**
+ * Saptavargaja bala: dignity in the seven principal vargas
+ */
+function saptavargajaBala(
+  planet: ShadbalaPlanet,
+  longitude: number,
+  positions: Partial<Record<VedicPlanet, number>>
+): number {
+  return SAPTAVARGA.reduce((total, chartType) => {
+    const vargaLongitude = calculateVargaLongitude(longitude, chartType);
+    const sign = Math.floor(vargaLongitude / 30);
+    const degree = vargaLongitude - sign * 30;
+    const lord = PLANET_RULERSHIP[VEDIC_RASHIS[sign]];
+    const moolatrikona = MOOLATRIKONA[planet];
+
+    if (chartType === 'D1' && sign === moolatrikona.sign && degree >= moolatrikona.from && degree < moolatrikona.to) {
+      return total + SAPTAVARGAJA_POINTS.moolatrikona;
+    }
+    if (lord === planet) {
+      return total + SAPTAVARGAJA_POINTS.own;
+    }
+    return total + SAPTAVARGAJA_POINTS[getCompoundRelationship(planet, lord, positions)];
+  }, 0);
+}
+
+/**
+ * Calculate Shadbala for the seven grahas
+ *
+ * Tropical data is converted with the chart's ayanamsa (or the one given).
+ * Chesta bala uses daily motion from ephemeris `positions` when present,
+ * otherwise the retrograde flags. The midheaven comes from the chart's
+ * sidereal time when known, otherwise the 10th cusp of equal houses.
+ * Sidereal input without a sidereal time is used as given, with no ayanamsa,
+ * so Ayana bala then reads declinations from the sidereal longitudes.
+ */
+export function calculateShadbala(rawData: ShadbalaInput, options: ShadbalaOptions = {}): ShadbalaResult[] {
+  const ayanamsaConfig = options.ayanamsa ?? {
+    system: rawData.ayanamsa ?? DEFAULT_AYANAMSA,
+    customOffset: rawData.customAyanamsa,
+  };
+  const { data, ayanamsa } = applyAyanamsa(rawData, ayanamsaConfig);
+  const { siderealTime, obliquity } = rawData;
+  // Sidereal input only needs the ayanamsa to place the midheaven from the sidereal time
+  const ayanamsaValue = rawData.zodiac === 'tropical' ? ayanamsa
+    : siderealTime !== undefined && obliquity !== undefined ? getAyanamsaForDatetime(ayanamsaConfig, rawData.datetime, rawData.timezone)
+    : 0;
+
+  const match = /^(-?\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/.exec(rawData.datetime.trim());
+  if (!match) {
+    throw new Error(`Invalid datetime: ${rawData.datetime}`);
+  }
+  const [, year, month, day, hour = '0'] = match;
+
+  const planets = data.planets;
+  const ascendant = data.ascendant;
+  const midheaven = siderealTime !== undefined && obliquity !== undefined
+    ? normalizeDegrees(calculateMidheaven(siderealTime, obliquity) - ayanamsaValue)
+    : normalizeDegrees(ascendant + 270);
+  const digPoints = {
+    ascendant,
+    midheaven,
+    descendant: normalizeDegrees(ascendant + 180),
+    nadir: normalizeDegrees(midheaven + 180),
+  };
+
+  // Day and night from the Sun's arc behind the ascendant: 0 at sunrise, 180 at sunset
+  const solarArc = normalizeDegrees(ascendant - planets.sun);
+  const isDay = solarArc < 180;
+  const progress = (solarArc % 180) / 180;
+  const fromMidnight = isDay ? 180 - Math.abs(progress - 0.5) * 180 : Math.abs(progress - 0.5) * 180;
+
+  // The Vedic day begins at sunrise
+  const civilJd = julianDay(Number(year), Number(month), Number(day));
+  const dayJd = !isDay && Number(hour) < 12 ? civilJd - 1 : civilJd;
+  const dayLord = WEEKDAY_LORDS[weekdayOf(dayJd)];
+  const ahargana = dayJd - KALI_YUGA_EPOCH;
+  const yearLord = WEEKDAY_LORDS[weekdayOf(KALI_YUGA_EPOCH + Math.floor(ahargana / 360) * 360)];
+  const monthLord = WEEKDAY_LORDS[weekdayOf(KALI_YUGA_EPOCH + Math.floor(ahargana / 30) * 30)];
+  const horaIndex = Math.floor((isDay ? 0 : 12) + progress * 12);
+  const horaLord = CHALDEAN_ORDER[(CHALDEAN_ORDER.indexOf(dayLord) + horaIndex) % 7];
+  const tribhaga = Math.min(Math.floor(progress * 3), 2);
+  const tribhagaLord = (isDay ? ['mercury', 'sun', 'saturn'] : ['moon', 'venus', 'mars'])[tribhaga];
+
+  const elongation = normalizeDegrees(planets.moon - planets.sun);
+  const lunarAngle = elongation > 180 ? 360 - elongation : elongation;
+  const isWaxing = elongation < 180;
+  const ascendantSign = Math.floor(normalizeDegrees(ascendant) / 30);
+
+  const ayanaBala = (planet: ShadbalaPlanet): number => {
+    const tropical = normalizeDegrees(planets[planet] + ayanamsaValue);
+    const declination = Math.asin(Math.sin(OBLIQUITY * DEG_TO_RAD) * Math.sin(tropical * DEG_TO_RAD)) / DEG_TO_RAD;
+    const kranti = planet === 'mercury' ? Math.abs(declination)
+      : planet === 'moon' || planet === 'saturn' ? -declination
+      : declination;
+    const value = ((24 + kranti) / 48) * 60;
+    return planet === 'sun' ? value * 2 : value;
+  };
+
+  const pakshaBala = (planet: ShadbalaPlanet): number => {
+    const benefic = lunarAngle / 3;
+    if (planet === 'moon') return benefic * 2;
+    return planet === 'jupiter' || planet === 'venus' || planet === 'mercury' ? benefic : 60 - benefic;
+  };
+
+  const isBenefic = (planet: ShadbalaPlanet): boolean => (
+    planet === 'jupiter' || planet === 'venus' || planet === 'mercury' || (planet === 'moon' && isWaxing)
+  );
+
+  return SHADBALA_PLANETS.map(planet => {
+    const longitude = normalizeDegrees(planets[planet]);
+    const sign = Math.floor(longitude / 30);
+    const degree = longitude - sign * 30;
+    const isOddSign = sign % 2 === 0;
+    const isOddNavamsa = Math.floor(calculateVargaLongitude(longitude, 'D9') / 30) % 2 === 0;
+    const prefersEven = planet === 'moon' || planet === 'venus';
+    const house = ((sign - ascendantSign + 12) % 12) + 1;
+
+    const details: ShadbalaDetails = {
+      uchcha: (180 - angularDistance(longitude, EXALTATION_POINTS[planet])) / 3,
+      saptavargaja: saptavargajaBala(planet, longitude, planets),
+      ojayugma: (isOddSign !== prefersEven ? 15 : 0) + (isOddNavamsa !== prefersEven ? 15 : 0),
+      kendradi: house % 3 === 1 ? 60 : house % 3 === 2 ? 30 : 15,
+      drekkana: Math.floor(degree / 10) === DREKKANA_STRONG[planet] ? 15 : 0,
+      nathonnatha: planet === 'mercury' ? 60
+        : planet === 'sun' || planet === 'jupiter' || planet === 'venus' ? fromMidnight / 3
+        : 60 - fromMidnight / 3,
+      paksha: pakshaBala(planet),
+      tribhaga: planet === 'jupiter' || planet === tribhagaLord ? 60 : 0,
+      abda: planet === yearLord ? 15 : 0,
+      masa: planet === monthLord ? 30 : 0,
+      vara: planet === dayLord ? 45 : 0,
+      hora: planet === horaLord ? 60 : 0,
+      ayana: ayanaBala(planet),
+    };
+
+    const sthana = details.uchcha + details.saptavargaja + details.ojayugma + details.kendradi + details.drekkana;
+    const kala = details.nathonnatha + details.paksha + details.tribhaga + details.abda
+      + details.masa + details.vara + details.hora + details.ayana;
+    const dig = (180 - angularDistance(longitude, digPoints[DIG_BALA_POINT[planet]])) / 3;
+    const chesta = planet === 'sun' ? details.ayana
+      : planet === 'moon' ? lunarAngle / 3
+      : motionStrength(planet, rawData.positions?.[planet]?.speed, data.retrograde?.[planet]);
+    const drik = SHADBALA_PLANETS
+      .filter(other => other !== planet)
+      .reduce((total, other) => {
+        const value = drishtiValue(other, normalizeDegrees(longitude - planets[other]));
+        return total + (isBenefic(other) ? value : -value);
+      }, 0) / 4;
+
+    const components: ShadbalaComponents = {
+      sthana: sthana / VIRUPAS_PER_RUPA,
+      dig: dig / VIRUPAS_PER_RUPA,
+      kala: kala / VIRUPAS_PER_RUPA,
+      chesta: chesta / VIRUPAS_PER_RUPA,
+      naisargika: NAISARGIKA_BALA[planet] / VIRUPAS_PER_RUPA,
+      drik: drik / VIRUPAS_PER_RUPA,
+    };
+    const total = Object.values(components).reduce((sum, value) => sum + value, 0);
+
+    return {
+      planet,
+      components,
+      details,
+      total,
+      required: REQUIRED_SHADBALA[planet],
+      ratio: total / REQUIRED_SHADBALA[planet],
+      isStrong: total >= REQUIRED_SHADBALA[planet],
+    };
+  });
+}
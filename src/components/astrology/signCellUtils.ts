@@ -0,0 +1,92 @@
+/**
+ * Corp Astro UI Library - Sign Cells
+ *
+ * Maps a processed chart onto the twelve fixed signs for the chart styles
+ * that keep the zodiac in place (South and East Indian) and mark the
+ * ascendant instead.
+ *
+ * @module signCellUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import {
+  VedicPlanet,
+  VedicRashi,
+  NorthIndianChartData,
+  NorthIndianHouseData,
+  NorthIndianHouseNumber,
+  VEDIC_RASHIS,
+  PLANET_RULERSHIP,
+} from './NorthIndianChart';
+import { sortPlanetsByDegree } from './chartLayoutUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A sign of a fixed-sign chart with the house and planets it holds
+ */
+export interface SignCell {
+  /** Rashi of the cell */
+  rashi: VedicRashi;
+  /** Whole-sign house number counted from the ascendant sign */
+  houseNumber: NorthIndianHouseNumber;
+  /** House of the processed chart occupying the sign */
+  house: NorthIndianHouseData;
+  /** Planets in the sign, ordered by degree */
+  planets: VedicPlanet[];
+  /** Whether the ascendant falls in the sign */
+  isAscendant: boolean;
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Sign index (Aries = 0) of the ascendant of a processed chart
+ */
+export function getAscendantSign(data: NorthIndianChartData): number {
+  if (data.ascendantDegree !== undefined) {
+    return Math.floor((((data.ascendantDegree % 360) + 360) % 360) / 30);
+  }
+  const ascendantHouse = data.houses.find(house => house.number === data.ascendant);
+  return ascendantHouse ? VEDIC_RASHIS.indexOf(ascendantHouse.rashi) : 0;
+}
+
+/**
+ * Map a processed chart onto the twelve fixed signs (Aries first)
+ *
+ * Planets are placed by their sidereal degree when known, otherwise by the
+ * rashi of the house holding them. Signs without a house of their own (with
+ * unequal house systems) get a whole-sign house so they stay pressable.
+ */
+export function getSignCells(data: NorthIndianChartData): SignCell[] {
+  const ascendantSign = getAscendantSign(data);
+
+  return VEDIC_RASHIS.map((rashi, sign) => {
+    const houseNumber = (((sign - ascendantSign + 12) % 12) + 1) as NorthIndianHouseNumber;
+    const house = data.houses.find(candidate => candidate.rashi === rashi) ?? {
+      number: houseNumber,
+      rashi,
+      planets: [],
+      houseLord: PLANET_RULERSHIP[rashi],
+    };
+
+    const planets = data.planetDegrees
+      ? (Object.entries(data.planetDegrees) as [VedicPlanet, number][])
+          .filter(([, degree]) => Math.floor((((degree % 360) + 360) % 360) / 30) === sign)
+          .map(([planet]) => planet)
+      : data.houses.filter(candidate => candidate.rashi === rashi).flatMap(candidate => candidate.planets);
+
+    return {
+      rashi,
+      houseNumber,
+      house,
+      planets: sortPlanetsByDegree(planets, data.planetDegrees),
+      isAscendant: sign === ascendantSign,
+    };
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Corp Astro UI Library - Sky Map Model
+ *
+ * Builds `StarMapData` for the sky overhead at a given time and place from
+ * the bundled star catalogue and the ephemeris. Catalogue positions are
+ * precessed from J2000 to the date, converted to altitude and azimuth, and
+ * projected stereographically onto the unit square: the zenith sits at the
+ * centre, the horizon on the inscribed circle, north at the top and east on
+ * the left, as when holding the map overhead.
+ *
+ * @module skyMapUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { Planet } from './PlanetIndicator';
+import { StarData, StarMapData } from './StarMap';
+import {
+  calculatePlanetPosition,
+  deltaT,
+  eclipticToEquatorial,
+  J2000,
+  julianDayFromDate,
+  obliquityOfEcliptic,
+} from './ephemerisUtils';
+import { calculateHorizontalPosition, DEFAULT_OBSERVER_LOCATION, ObserverLocation } from './horizonUtils';
+import { BRIGHT_STARS, CatalogueStar, CONSTELLATION_FIGURES } from './starCatalogue';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Position above the observer's horizon
+ */
+export interface HorizontalPosition {
+  /** Altitude above the horizon in degrees */
+  altitude: number;
+  /** Azimuth from north through east in degrees */
+  azimuth: number;
+}
+
+/**
+ * Options for building a sky map
+ */
+export interface SkyMapOptions {
+  /** Observer; defaults to New Delhi */
+  location?: ObserverLocation;
+  /** Faintest star shown; stars on constellation figures are always kept */
+  magnitudeLimit?: number;
+  /** Bodies marked on the map; none when empty */
+  planets?: Planet[];
+  /** Map title */
+  title?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Bodies marked by default
+ */
+export const SKY_MAP_PLANETS: Planet[] = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn'];
+
+/**
+ * Typical apparent magnitude of each body, used for its marker size
+ */
+export const PLANET_MAGNITUDES: Record<Planet, number> = {
+  sun: -26.7,
+  moon: -12.7,
+  mercury: 0.0,
+  venus: -4.2,
+  mars: 0.7,
+  jupiter: -2.4,
+  saturn: 0.6,
+  uranus: 5.7,
+  neptune: 7.8,
+  pluto: 14.4,
+};
+
+/**
+ * Ids of the stars the constellation figures are drawn through, kept at any
+ * magnitude so the figures stay whole
+ */
+const FIGURE_STAR_IDS = new Set(CONSTELLATION_FIGURES.flatMap(figure => figure.lines.flat()));
+
+/**
+ * Marker colour of each body
+ */
+export const PLANET_MARKER_COLORS: Record<Planet, string> = {
+  sun: '#FFD54F',
+  moon: '#ECEFF1',
+  mercury: '#B0BEC5',
+  venus: '#FFF8E1',
+  mars: '#FF7043',
+  jupiter: '#FFE0B2',
+  saturn: '#F0E68C',
+  uranus: '#80DEEA',
+  neptune: '#7986CB',
+  pluto: '#BCAAA4',
+};
+
+/**
+ * Star tint by B-V colour index: upper bound of each band and its colour,
+ * from blue-white O/B stars to red M stars
+ */
+const COLOR_INDEX_BANDS: [number, string][] = [
+  [-0.1, '#9BB0FF'],
+  [0.15, '#CAD7FF'],
+  [0.45, '#F8F7FF'],
+  [0.68, '#FFF4EA'],
+  [1.15, '#FFD2A1'],
+  [1.6, '#FFBE7F'],
+  [Infinity, '#FF9F5A'],
+];
+
+/** Brightest magnitude used for marker sizes, so the Sun and Moon stay in scale */
+const BRIGHTEST_MARKER_MAGNITUDE = -3;
+
+const DEG = Math.PI / 180;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Display colour for a B-V colour index
+ */
+export function getStarColor(colorIndex: number): string {
+  const band = COLOR_INDEX_BANDS.find(([upper]) => colorIndex < upper);
+  return band ? band[1] : COLOR_INDEX_BANDS[COLOR_INDEX_BANDS.length - 1][1];
+}
+
+/**
+ * Precess J2000 equatorial coordinates to the mean equator of a date
+ * (IAU 1976 angles); right ascension and declination in degrees
+ */
+export function precessFromJ2000(
+  rightAscension: number,
+  declination: number,
+  jd: number
+): { rightAscension: number; declination: number } {
+  const T = (jd - J2000) / 36525;
+  const zeta = (2306.2181 * T + 0.30188 * T * T + 0.017998 * T ** 3) / 3600 * DEG;
+  const z = (2306.2181 * T + 1.09468 * T * T + 0.018203 * T ** 3) / 3600 * DEG;
+  const theta = (2004.3109 * T - 0.42665 * T * T - 0.041833 * T ** 3) / 3600 * DEG;
+
+  const ra = rightAscension * DEG;
+  const dec = declination * DEG;
+  const A = Math.cos(dec) * Math.sin(ra + zeta);
+  const B = Math.cos(theta) * Math.cos(dec) * Math.cos(ra + zeta) - Math.sin(theta) * Math.sin(dec);
+  const C = Math.sin(theta) * Math.cos(dec) * Math.cos(ra + zeta) + Math.cos(theta) * Math.sin(dec);
+
+  return {
+    rightAscension: ((Math.atan2(A, B) + z) / DEG + 360) % 360,
+    declination: Math.asin(Math.max(-1, Math.min(1, C))) / DEG,
+  };
+}
+
+/**
+ * Altitude and azimuth of a catalogue star for a place and instant
+ */
+export function getStarPosition(star: CatalogueStar, date: Date, location: ObserverLocation): HorizontalPosition {
+  const jdUT = julianDayFromDate(date);
+  const { rightAscension, declination } = precessFromJ2000(star.ra * 15, star.dec, jdUT);
+  return calculateHorizontalPosition(rightAscension, declination, jdUT, location);
+}
+
+/**
+ * Altitude and azimuth of a body's apparent position for a place and instant
+ */
+export function getPlanetSkyPosition(planet: Planet, date: Date, location: ObserverLocation): HorizontalPosition {
+  const jdUT = julianDayFromDate(date);
+  const jdTT = jdUT + deltaT(jdUT) / 86400;
+  const position = calculatePlanetPosition(planet, jdUT);
+  const { rightAscension, declination } = eclipticToEquatorial(
+    position.longitude,
+    position.latitude,
+    obliquityOfEcliptic(jdTT)
+  );
+  return calculateHorizontalPosition(rightAscension, declination, jdUT, location);
+}
+
+/**
+ * Stereographic map position (0-1) of a point above the horizon; the
+ * horizon falls on the circle of radius 0.5 about the centre
+ */
+export function projectHorizontal({ altitude, azimuth }: HorizontalPosition): { x: number; y: number } {
+  const radius = 0.5 * Math.tan((90 - altitude) * DEG / 2);
+  return {
+    x: 0.5 - radius * Math.sin(azimuth * DEG),
+    y: 0.5 - radius * Math.cos(azimuth * DEG),
+  };
+}
+
+/**
+ * Star map of the sky above a place at an instant
+ *
+ * Only stars and bodies above the horizon are included. Stars fainter than
+ * the magnitude limit are left out unless a constellation figure runs
+ * through them; figures keep the segments whose two stars are both visible.
+ */
+export function createSkyMap(date: Date = new Date(), options: SkyMapOptions = {}): StarMapData {
+  const {
+    location = DEFAULT_OBSERVER_LOCATION,
+    magnitudeLimit = 5,
+    planets = SKY_MAP_PLANETS,
+    title = 'Sky Tonight',
+  } = options;
+
+  const stars: StarData[] = [];
+  BRIGHT_STARS.forEach(star => {
+    if (star.magnitude > magnitudeLimit && !FIGURE_STAR_IDS.has(star.id)) return;
+    const position = getStarPosition(star, date, location);
+    if (position.altitude < 0) return;
+    stars.push({
+      id: star.id,
+      name: star.name,
+      ...projectHorizontal(position),
+      magnitude: star.magnitude,
+      color: getStarColor(star.colorIndex),
+      constellation: star.constellation,
+      type: 'star',
+    });
+  });
+
+  planets.forEach(planet => {
+    const position = getPlanetSkyPosition(planet, date, location);
+    if (position.altitude < 0) return;
+    stars.push({
+      id: `planet-${planet}`,
+      name: planet.charAt(0).toUpperCase() + planet.slice(1),
+      ...projectHorizontal(position),
+      magnitude: Math.max(BRIGHTEST_MARKER_MAGNITUDE, PLANET_MAGNITUDES[planet]),
+      color: PLANET_MARKER_COLORS[planet],
+      type: 'planet',
+    });
+  });
+
+  const visible = new Set(stars.map(star => star.id));
+  const constellations = CONSTELLATION_FIGURES
+    .map(figure => ({
+      id: figure.id,
+      name: figure.name,
+      description: figure.description,
+      connections: figure.lines.flatMap(line =>
+        line.slice(1)
+          .map((id, index) => [line[index], id])
+          .filter(pair => pair.every(id => visible.has(id)))
+      ),
+    }))
+    .filter(constellation => constellation.connections.length > 0);
+
+  return {
+    stars,
+    constellations,
+    title,
+    datetime: date.toISOString(),
+    location: location.name ?? `${location.latitude.toFixed(2)}°, ${location.longitude.toFixed(2)}°`,
+    horizon: true,
+  };
+}
@@ -0,0 +1,2633 @@
+/**
+ * Corp Astro UI Library - Bright Star Catalogue
+ *
+ * Bundled star catalogue for the sky map: every Hipparcos star down to
+ * magnitude 5.0, plus the fainter stars the constellation figures pass
+ * through. Positions are J2000 right ascension (hours) and declination
+ * (degrees), rounded to about an arc minute; B-V colour indices give each
+ * star its tint. Star and figure data come from the d3-celestial catalogues
+ * (BSD-3-Clause, Olaf Frohn).
+ *
+ * Figures cover all 88 IAU constellations, with Serpens Caput and Cauda as
+ * one figure, and are stored as polylines of star ids.
+ *
+ * @module starCatalogue
+ * @version 1.0.0
+ * @since 2024
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Catalogue entry for one star
+ */
+export interface CatalogueStar {
+  /** Bayer, Flamsteed or Hipparcos designation with IAU abbreviation, e.g. 'alpha-ori', '51-and', 'hip43103-cnc' */
+  id: string;
+  /** Proper name */
+  name?: string;
+  /** J2000 right ascension in hours */
+  ra: number;
+  /** J2000 declination in degrees */
+  dec: number;
+  /** Visual magnitude */
+  magnitude: number;
+  /** B-V colour index */
+  colorIndex: number;
+  /** IAU constellation abbreviation (lowercase) */
+  constellation: string;
+}
+
+/**
+ * Stick figure of a constellation
+ */
+export interface ConstellationFigure {
+  /** IAU abbreviation (lowercase) */
+  id: string;
+  /** Latin name */
+  name: string;
+  /** Common meaning */
+  description: string;
+  /** Polylines through star ids */
+  lines: string[][];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Catalogue stars, grouped by constellation
+ */
+export const BRIGHT_STARS: CatalogueStar[] = [
+  // Andromeda
+  { id: 'alpha-and', name: 'Alpheratz', ra: 0.140, dec: 29.090, magnitude: 2.07, colorIndex: -0.04, constellation: 'and' },
+  { id: 'beta-and', name: 'Mirach', ra: 1.162, dec: 35.621, magnitude: 2.07, colorIndex: 1.58, constellation: 'and' },
+  { id: 'gamma1-and', name: 'Almach', ra: 2.065, dec: 42.330, magnitude: 2.10, colorIndex: 1.37, constellation: 'and' },
+  { id: 'delta-and', ra: 0.655, dec: 30.861, magnitude: 3.27, colorIndex: 1.27, constellation: 'and' },
+  { id: '51-and', ra: 1.633, dec: 48.628, magnitude: 3.59, colorIndex: 1.27, constellation: 'and' },
+  { id: 'omicron-and', ra: 23.032, dec: 42.326, magnitude: 3.62, colorIndex: -0.10, constellation: 'and' },
+  { id: 'lambda-and', ra: 23.626, dec: 46.458, magnitude: 3.81, colorIndex: 0.98, constellation: 'and' },
+  { id: 'mu-and', ra: 0.946, dec: 38.499, magnitude: 3.86, colorIndex: 0.13, constellation: 'and' },
+  { id: 'zeta-and', ra: 0.789, dec: 24.267, magnitude: 4.08, colorIndex: 1.10, constellation: 'and' },
+  { id: 'upsilon-and', ra: 1.613, dec: 41.406, magnitude: 4.10, colorIndex: 0.54, constellation: 'and' },
+  { id: 'kappa-and', ra: 23.673, dec: 44.334, magnitude: 4.15, colorIndex: -0.07, constellation: 'and' },
+  { id: 'phi-and', ra: 1.158, dec: 47.242, magnitude: 4.26, colorIndex: 0.01, constellation: 'and' },
+  { id: 'iota-and', ra: 23.636, dec: 43.268, magnitude: 4.29, colorIndex: -0.08, constellation: 'and' },
+  { id: 'pi-and', ra: 0.615, dec: 33.719, magnitude: 4.34, colorIndex: -0.12, constellation: 'and' },
+  { id: 'epsilon-and', ra: 0.643, dec: 29.312, magnitude: 4.34, colorIndex: 0.87, constellation: 'and' },
+  { id: 'eta-and', ra: 0.953, dec: 23.418, magnitude: 4.40, colorIndex: 0.94, constellation: 'and' },
+  { id: 'sigma-and', ra: 0.305, dec: 36.785, magnitude: 4.51, colorIndex: 0.05, constellation: 'and' },
+  { id: 'nu-and', ra: 0.830, dec: 41.079, magnitude: 4.53, colorIndex: -0.14, constellation: 'and' },
+  { id: '7-and', ra: 23.209, dec: 49.406, magnitude: 4.53, colorIndex: 0.30, constellation: 'and' },
+  { id: 'theta-and', ra: 0.285, dec: 38.682, magnitude: 4.61, colorIndex: 0.06, constellation: 'and' },
+  { id: '3-and', ra: 23.070, dec: 50.052, magnitude: 4.64, colorIndex: 1.06, constellation: 'and' },
+  { id: '65-and', ra: 2.427, dec: 50.279, magnitude: 4.73, colorIndex: 1.53, constellation: 'and' },
+  { id: '58-and', ra: 2.141, dec: 37.859, magnitude: 4.78, colorIndex: 0.12, constellation: 'and' },
+  { id: '8-and', ra: 23.296, dec: 49.015, magnitude: 4.82, colorIndex: 1.67, constellation: 'and' },
+  { id: 'omega-and', ra: 1.461, dec: 45.407, magnitude: 4.83, colorIndex: 0.42, constellation: 'and' },
+  { id: 'b-and', ra: 2.220, dec: 44.232, magnitude: 4.84, colorIndex: 1.48, constellation: 'and' },
+  { id: 'xi-and', ra: 1.372, dec: 45.529, magnitude: 4.87, colorIndex: 1.08, constellation: 'and' },
+  { id: 'tau-and', ra: 1.676, dec: 40.577, magnitude: 4.96, colorIndex: -0.07, constellation: 'and' },
+  { id: 'hip7918-and', ra: 1.696, dec: 42.613, magnitude: 4.96, colorIndex: 0.62, constellation: 'and' },
+  { id: 'psi-and', ra: 23.767, dec: 46.420, magnitude: 4.97, colorIndex: 1.09, constellation: 'and' },
+
+  // Antlia
+  { id: 'alpha-ant', ra: 10.453, dec: -31.068, magnitude: 4.28, colorIndex: 1.43, constellation: 'ant' },
+  { id: 'epsilon-ant', ra: 9.487, dec: -35.951, magnitude: 4.51, colorIndex: 1.41, constellation: 'ant' },
+  { id: 'iota-ant', ra: 10.945, dec: -37.138, magnitude: 4.60, colorIndex: 1.01, constellation: 'ant' },
+  { id: 'theta-ant', ra: 9.737, dec: -27.770, magnitude: 4.78, colorIndex: 0.52, constellation: 'ant' },
+  { id: 'hip48559-ant', ra: 9.903, dec: -25.932, magnitude: 4.87, colorIndex: 1.20, constellation: 'ant' },
+  { id: 'hip51979-ant', ra: 10.620, dec: -27.413, magnitude: 4.87, colorIndex: 1.63, constellation: 'ant' },
+
+  // Apus
+  { id: 'alpha-aps', ra: 14.798, dec: -79.045, magnitude: 3.83, colorIndex: 1.43, constellation: 'aps' },
+  { id: 'gamma-aps', ra: 16.558, dec: -78.897, magnitude: 3.86, colorIndex: 0.92, constellation: 'aps' },
+  { id: 'beta-aps', ra: 16.718, dec: -77.517, magnitude: 4.23, colorIndex: 1.06, constellation: 'aps' },
+  { id: 'delta1-aps', ra: 16.339, dec: -78.696, magnitude: 4.68, colorIndex: 1.68, constellation: 'aps' },
+  { id: 'zeta-aps', ra: 17.367, dec: -67.771, magnitude: 4.76, colorIndex: 1.19, constellation: 'aps' },
+  { id: 'eta-aps', ra: 14.304, dec: -81.008, magnitude: 4.89, colorIndex: 0.24, constellation: 'aps' },
+
+  // Aquarius
+  { id: 'beta-aqr', name: 'Sadalsuud', ra: 21.526, dec: -5.571, magnitude: 2.90, colorIndex: 0.83, constellation: 'aqr' },
+  { id: 'alpha-aqr', name: 'Sadalmelik', ra: 22.096, dec: -0.320, magnitude: 2.95, colorIndex: 0.97, constellation: 'aqr' },
+  { id: 'delta-aqr', name: 'Skat', ra: 22.911, dec: -15.821, magnitude: 3.27, colorIndex: 0.07, constellation: 'aqr' },
+  { id: 'zeta1-aqr', ra: 22.481, dec: -0.020, magnitude: 3.65, colorIndex: 0.41, constellation: 'aqr' },
+  { id: 'c2-aqr', ra: 23.157, dec: -21.172, magnitude: 3.68, colorIndex: 1.20, constellation: 'aqr' },
+  { id: 'lambda-aqr', ra: 22.877, dec: -7.580, magnitude: 3.73, colorIndex: 1.63, constellation: 'aqr' },
+  { id: 'epsilon-aqr', name: 'Albali', ra: 20.795, dec: -9.496, magnitude: 3.78, colorIndex: 0.00, constellation: 'aqr' },
+  { id: 'gamma-aqr', name: 'Sadachbia', ra: 22.361, dec: -1.387, magnitude: 3.86, colorIndex: -0.06, constellation: 'aqr' },
+  { id: 'b1-aqr', ra: 23.383, dec: -20.101, magnitude: 3.96, colorIndex: 1.08, constellation: 'aqr' },
+  { id: 'eta-aqr', ra: 22.589, dec: -0.117, magnitude: 4.04, colorIndex: -0.08, constellation: 'aqr' },
+  { id: 'tau2-aqr', ra: 22.827, dec: -13.593, magnitude: 4.05, colorIndex: 1.57, constellation: 'aqr' },
+  { id: 'theta-aqr', ra: 22.281, dec: -7.783, magnitude: 4.17, colorIndex: 0.98, constellation: 'aqr' },
+  { id: 'phi-aqr', ra: 23.239, dec: -6.049, magnitude: 4.22, colorIndex: 1.54, constellation: 'aqr' },
+  { id: 'psi1-aqr', ra: 23.265, dec: -9.088, magnitude: 4.24, colorIndex: 1.11, constellation: 'aqr' },
+  { id: 'iota-aqr', ra: 22.107, dec: -13.870, magnitude: 4.29, colorIndex: -0.07, constellation: 'aqr' },
+  { id: 'b2-aqr', ra: 23.434, dec: -20.642, magnitude: 4.38, colorIndex: 1.46, constellation: 'aqr' },
+  { id: 'psi2-aqr', ra: 23.298, dec: -9.182, magnitude: 4.41, colorIndex: -0.14, constellation: 'aqr' },
+  { id: 'k-aqr', ra: 20.796, dec: -5.028, magnitude: 4.43, colorIndex: 1.64, constellation: 'aqr' },
+  { id: 'c1-aqr', ra: 23.111, dec: -23.743, magnitude: 4.48, colorIndex: 0.89, constellation: 'aqr' },
+  { id: 'omega2-aqr', ra: 23.712, dec: -14.545, magnitude: 4.49, colorIndex: -0.03, constellation: 'aqr' },
+  { id: 'nu-aqr', ra: 21.160, dec: -11.372, magnitude: 4.50, colorIndex: 0.93, constellation: 'aqr' },
+  { id: 'xi-aqr', ra: 21.629, dec: -7.854, magnitude: 4.68, colorIndex: 0.17, constellation: 'aqr' },
+  { id: 'g-aqr', ra: 22.726, dec: -18.830, magnitude: 4.68, colorIndex: 1.36, constellation: 'aqr' },
+  { id: 'b3-aqr', ra: 23.555, dec: -20.915, magnitude: 4.70, colorIndex: 0.02, constellation: 'aqr' },
+  { id: 'c3-aqr', ra: 23.165, dec: -22.458, magnitude: 4.71, colorIndex: 0.67, constellation: 'aqr' },
+  { id: 'mu-aqr', ra: 20.878, dec: -8.983, magnitude: 4.73, colorIndex: 0.33, constellation: 'aqr' },
+  { id: 'omicron-aqr', ra: 22.055, dec: -2.155, magnitude: 4.74, colorIndex: -0.10, constellation: 'aqr' },
+  { id: 'pi-aqr', ra: 22.421, dec: 1.377, magnitude: 4.80, colorIndex: -0.17, constellation: 'aqr' },
+  { id: 'sigma-aqr', ra: 22.511, dec: -10.678, magnitude: 4.82, colorIndex: -0.05, constellation: 'aqr' },
+  { id: 'A2-aqr', ra: 23.696, dec: -17.817, magnitude: 4.82, colorIndex: 0.82, constellation: 'aqr' },
+  { id: 'chi-aqr', ra: 23.281, dec: -7.726, magnitude: 4.93, colorIndex: 1.61, constellation: 'aqr' },
+  { id: 'omega1-aqr', ra: 23.663, dec: -14.222, magnitude: 4.97, colorIndex: 0.26, constellation: 'aqr' },
+  { id: 'psi3-aqr', ra: 23.316, dec: -9.611, magnitude: 4.99, colorIndex: -0.02, constellation: 'aqr' },
+
+  // Aquila
+  { id: 'alpha-aql', name: 'Altair', ra: 19.846, dec: 8.868, magnitude: 0.76, colorIndex: 0.22, constellation: 'aql' },
+  { id: 'gamma-aql', name: 'Tarazed', ra: 19.771, dec: 10.613, magnitude: 2.72, colorIndex: 1.51, constellation: 'aql' },
+  { id: 'zeta-aql', name: 'Okab', ra: 19.090, dec: 13.864, magnitude: 2.99, colorIndex: 0.01, constellation: 'aql' },
+  { id: 'theta-aql', ra: 20.188, dec: -0.822, magnitude: 3.24, colorIndex: -0.07, constellation: 'aql' },
+  { id: 'delta-aql', ra: 19.425, dec: 3.115, magnitude: 3.36, colorIndex: 0.32, constellation: 'aql' },
+  { id: 'lambda-aql', ra: 19.104, dec: -4.883, magnitude: 3.43, colorIndex: -0.10, constellation: 'aql' },
+  { id: 'beta-aql', name: 'Alshain', ra: 19.922, dec: 6.407, magnitude: 3.71, colorIndex: 0.85, constellation: 'aql' },
+  { id: 'eta-aql', ra: 19.875, dec: 1.006, magnitude: 3.87, colorIndex: 0.63, constellation: 'aql' },
+  { id: 'epsilon-aql', ra: 18.994, dec: 15.068, magnitude: 4.02, colorIndex: 1.08, constellation: 'aql' },
+  { id: 'i-aql', ra: 19.028, dec: -5.739, magnitude: 4.02, colorIndex: 1.08, constellation: 'aql' },
+  { id: 'l-aql', ra: 20.639, dec: -1.105, magnitude: 4.31, colorIndex: 0.95, constellation: 'aql' },
+  { id: 'iota-aql', ra: 19.612, dec: -1.287, magnitude: 4.36, colorIndex: -0.08, constellation: 'aql' },
+  { id: 'mu-aql', ra: 19.568, dec: 7.379, magnitude: 4.45, colorIndex: 1.18, constellation: 'aql' },
+  { id: 'nu-aql', ra: 19.442, dec: 0.339, magnitude: 4.64, colorIndex: 0.58, constellation: 'aql' },
+  { id: 'xi-aql', ra: 19.904, dec: 8.461, magnitude: 4.71, colorIndex: 1.02, constellation: 'aql' },
+  { id: '69-aql', ra: 20.494, dec: -2.885, magnitude: 4.91, colorIndex: 1.16, constellation: 'aql' },
+  { id: '70-aql', ra: 20.612, dec: -2.550, magnitude: 4.91, colorIndex: 1.61, constellation: 'aql' },
+  { id: 'kappa-aql', ra: 19.615, dec: -7.027, magnitude: 4.93, colorIndex: -0.05, constellation: 'aql' },
+  { id: 'rho-aql', ra: 20.238, dec: 15.198, magnitude: 4.94, colorIndex: 0.07, constellation: 'aql' },
+  { id: 'f-aql', ra: 19.342, dec: -5.416, magnitude: 4.98, colorIndex: 0.94, constellation: 'aql' },
+
+  // Ara
+  { id: 'beta-ara', ra: 17.422, dec: -55.530, magnitude: 2.84, colorIndex: 1.48, constellation: 'ara' },
+  { id: 'alpha-ara', ra: 17.531, dec: -49.876, magnitude: 2.84, colorIndex: -0.14, constellation: 'ara' },
+  { id: 'zeta-ara', ra: 16.977, dec: -55.990, magnitude: 3.12, colorIndex: 1.55, constellation: 'ara' },
+  { id: 'gamma-ara', ra: 17.423, dec: -56.378, magnitude: 3.31, colorIndex: -0.15, constellation: 'ara' },
+  { id: 'delta-ara', ra: 17.518, dec: -60.684, magnitude: 3.60, colorIndex: -0.10, constellation: 'ara' },
+  { id: 'theta-ara', ra: 18.111, dec: -50.092, magnitude: 3.65, colorIndex: -0.10, constellation: 'ara' },
+  { id: 'eta-ara', ra: 16.830, dec: -59.041, magnitude: 3.77, colorIndex: 1.56, constellation: 'ara' },
+  { id: 'epsilon1-ara', ra: 16.993, dec: -53.160, magnitude: 4.06, colorIndex: 1.45, constellation: 'ara' },
+  { id: 'sigma-ara', ra: 17.594, dec: -46.506, magnitude: 4.56, colorIndex: -0.02, constellation: 'ara' },
+  { id: 'lambda-ara', ra: 17.673, dec: -49.416, magnitude: 4.76, colorIndex: 0.41, constellation: 'ara' },
+
+  // Aries
+  { id: 'alpha-ari', name: 'Hamal', ra: 2.120, dec: 23.462, magnitude: 2.01, colorIndex: 1.15, constellation: 'ari' },
+  { id: 'beta-ari', name: 'Sheratan', ra: 1.911, dec: 20.808, magnitude: 2.64, colorIndex: 0.17, constellation: 'ari' },
+  { id: 'c-ari', ra: 2.833, dec: 27.261, magnitude: 3.61, colorIndex: -0.10, constellation: 'ari' },
+  { id: 'gamma1-ari', name: 'Mesarthim', ra: 1.892, dec: 19.294, magnitude: 3.88, colorIndex: -0.05, constellation: 'ari' },
+  { id: 'delta-ari', ra: 3.194, dec: 19.727, magnitude: 4.35, colorIndex: 1.03, constellation: 'ari' },
+  { id: 'hip15549-ari', ra: 3.339, dec: 29.049, magnitude: 4.47, colorIndex: 1.55, constellation: 'ari' },
+  { id: '39-ari', ra: 2.798, dec: 29.247, magnitude: 4.52, colorIndex: 1.11, constellation: 'ari' },
+  { id: 'epsilon-ari', ra: 2.987, dec: 21.340, magnitude: 4.63, colorIndex: 0.05, constellation: 'ari' },
+  { id: '35-ari', ra: 2.724, dec: 27.707, magnitude: 4.65, colorIndex: -0.12, constellation: 'ari' },
+  { id: 'lambda-ari', ra: 1.965, dec: 23.596, magnitude: 4.79, colorIndex: 0.29, constellation: 'ari' },
+  { id: 'zeta-ari', ra: 3.248, dec: 21.044, magnitude: 4.87, colorIndex: -0.01, constellation: 'ari' },
+  { id: '14-ari', ra: 2.157, dec: 25.940, magnitude: 4.98, colorIndex: 0.34, constellation: 'ari' },
+
+  // Auriga
+  { id: 'alpha-aur', name: 'Capella', ra: 5.278, dec: 45.998, magnitude: 0.08, colorIndex: 0.80, constellation: 'aur' },
+  { id: 'beta-aur', name: 'Menkalinan', ra: 5.992, dec: 44.947, magnitude: 1.90, colorIndex: 0.08, constellation: 'aur' },
+  { id: 'theta-aur', ra: 5.995, dec: 37.213, magnitude: 2.65, colorIndex: -0.08, constellation: 'aur' },
+  { id: 'iota-aur', name: 'Hassaleh', ra: 4.950, dec: 33.166, magnitude: 2.69, colorIndex: 1.49, constellation: 'aur' },
+  { id: 'epsilon-aur', name: 'Almaaz', ra: 5.033, dec: 43.823, magnitude: 3.03, colorIndex: 0.54, constellation: 'aur' },
+  { id: 'eta-aur', name: 'Haedus', ra: 5.109, dec: 41.234, magnitude: 3.18, colorIndex: -0.15, constellation: 'aur' },
+  { id: 'zeta-aur', name: 'Saclateni', ra: 5.041, dec: 41.076, magnitude: 3.69, colorIndex: 1.15, constellation: 'aur' },
+  { id: 'delta-aur', ra: 5.992, dec: 54.285, magnitude: 3.72, colorIndex: 1.01, constellation: 'aur' },
+  { id: 'nu-aur', ra: 5.858, dec: 39.148, magnitude: 3.97, colorIndex: 1.13, constellation: 'aur' },
+  { id: 'pi-aur', ra: 5.999, dec: 45.937, magnitude: 4.30, colorIndex: 1.70, constellation: 'aur' },
+  { id: 'kappa-aur', ra: 6.256, dec: 29.498, magnitude: 4.32, colorIndex: 1.02, constellation: 'aur' },
+  { id: 'tau-aur', ra: 5.820, dec: 39.181, magnitude: 4.51, colorIndex: 0.95, constellation: 'aur' },
+  { id: '16-aur', ra: 5.303, dec: 33.372, magnitude: 4.54, colorIndex: 1.25, constellation: 'aur' },
+  { id: 'lambda-aur', ra: 5.319, dec: 40.099, magnitude: 4.69, colorIndex: 0.63, constellation: 'aur' },
+  { id: 'chi-aur', ra: 5.545, dec: 32.192, magnitude: 4.71, colorIndex: 0.28, constellation: 'aur' },
+  { id: 'upsilon-aur', ra: 5.851, dec: 37.306, magnitude: 4.72, colorIndex: 1.62, constellation: 'aur' },
+  { id: '2-aur', ra: 4.877, dec: 36.703, magnitude: 4.79, colorIndex: 1.41, constellation: 'aur' },
+  { id: 'psi2-aur', ra: 6.656, dec: 42.489, magnitude: 4.80, colorIndex: 1.24, constellation: 'aur' },
+  { id: 'mu-aur', ra: 5.224, dec: 38.484, magnitude: 4.82, colorIndex: 0.19, constellation: 'aur' },
+  { id: '1-aur', ra: 4.832, dec: 37.488, magnitude: 4.89, colorIndex: 1.45, constellation: 'aur' },
+  { id: '63-aur', ra: 7.194, dec: 39.321, magnitude: 4.91, colorIndex: 1.45, constellation: 'aur' },
+  { id: 'psi1-aur', ra: 6.415, dec: 49.288, magnitude: 4.92, colorIndex: 1.91, constellation: 'aur' },
+  { id: '4-aur', ra: 4.988, dec: 37.890, magnitude: 4.93, colorIndex: 0.04, constellation: 'aur' },
+  { id: 'xi-aur', ra: 5.914, dec: 55.707, magnitude: 4.96, colorIndex: 0.05, constellation: 'aur' },
+  { id: '9-aur', ra: 5.111, dec: 51.598, magnitude: 4.98, colorIndex: 0.34, constellation: 'aur' },
+  { id: 'psi7-aur', ra: 6.846, dec: 41.781, magnitude: 4.99, colorIndex: 1.26, constellation: 'aur' },
+
+  // Boötes
+  { id: 'alpha-boo', name: 'Arcturus', ra: 14.261, dec: 19.182, magnitude: -0.05, colorIndex: 1.24, constellation: 'boo' },
+  { id: 'epsilon-boo', name: 'Izar', ra: 14.750, dec: 27.074, magnitude: 2.35, colorIndex: 0.97, constellation: 'boo' },
+  { id: 'eta-boo', name: 'Muphrid', ra: 13.911, dec: 18.398, magnitude: 2.68, colorIndex: 0.58, constellation: 'boo' },
+  { id: 'gamma-boo', name: 'Seginus', ra: 14.535, dec: 38.308, magnitude: 3.04, colorIndex: 0.19, constellation: 'boo' },
+  { id: 'delta-boo', ra: 15.258, dec: 33.315, magnitude: 3.46, colorIndex: 0.96, constellation: 'boo' },
+  { id: 'beta-boo', name: 'Nekkar', ra: 15.032, dec: 40.391, magnitude: 3.49, colorIndex: 0.96, constellation: 'boo' },
+  { id: 'rho-boo', ra: 14.530, dec: 30.371, magnitude: 3.57, colorIndex: 1.30, constellation: 'boo' },
+  { id: 'zeta-boo', ra: 14.686, dec: 13.728, magnitude: 3.78, colorIndex: 0.04, constellation: 'boo' },
+  { id: 'theta-boo', ra: 14.420, dec: 51.851, magnitude: 4.04, colorIndex: 0.50, constellation: 'boo' },
+  { id: 'upsilon-boo', ra: 13.825, dec: 15.798, magnitude: 4.05, colorIndex: 1.52, constellation: 'boo' },
+  { id: 'lambda-boo', ra: 14.273, dec: 46.088, magnitude: 4.18, colorIndex: 0.09, constellation: 'boo' },
+  { id: 'mu1-boo', ra: 15.408, dec: 37.377, magnitude: 4.31, colorIndex: 0.31, constellation: 'boo' },
+  { id: 'sigma-boo', ra: 14.578, dec: 29.745, magnitude: 4.47, colorIndex: 0.36, constellation: 'boo' },
+  { id: 'pi1-boo', ra: 14.679, dec: 16.418, magnitude: 4.49, colorIndex: 0.00, constellation: 'boo' },
+  { id: 'tau-boo', ra: 13.788, dec: 17.457, magnitude: 4.50, colorIndex: 0.51, constellation: 'boo' },
+  { id: 'psi-boo', ra: 15.074, dec: 26.948, magnitude: 4.52, colorIndex: 1.24, constellation: 'boo' },
+  { id: 'kappa2-boo', ra: 14.225, dec: 51.790, magnitude: 4.53, colorIndex: 0.23, constellation: 'boo' },
+  { id: 'xi-boo', ra: 14.856, dec: 19.101, magnitude: 4.54, colorIndex: 0.72, constellation: 'boo' },
+  { id: 'omicron-boo', ra: 14.754, dec: 16.964, magnitude: 4.60, colorIndex: 0.97, constellation: 'boo' },
+  { id: 'iota-boo', ra: 14.269, dec: 51.367, magnitude: 4.75, colorIndex: 0.24, constellation: 'boo' },
+  { id: 'A-boo', ra: 14.300, dec: 35.510, magnitude: 4.80, colorIndex: 1.06, constellation: 'boo' },
+  { id: '34-boo', ra: 14.724, dec: 26.528, magnitude: 4.80, colorIndex: 1.67, constellation: 'boo' },
+  { id: 'omega-boo', ra: 15.035, dec: 25.008, magnitude: 4.80, colorIndex: 1.51, constellation: 'boo' },
+  { id: 'd-boo', ra: 14.173, dec: 25.092, magnitude: 4.82, colorIndex: 0.54, constellation: 'boo' },
+  { id: 'i-boo', ra: 15.063, dec: 47.654, magnitude: 4.83, colorIndex: 0.65, constellation: 'boo' },
+  { id: '20-boo', ra: 14.329, dec: 16.307, magnitude: 4.84, colorIndex: 1.23, constellation: 'boo' },
+  { id: 'hip70327-boo', ra: 14.390, dec: 8.447, magnitude: 4.86, colorIndex: 0.01, constellation: 'boo' },
+  { id: '31-boo', ra: 14.694, dec: 8.162, magnitude: 4.86, colorIndex: 0.99, constellation: 'boo' },
+  { id: 'e-boo', ra: 13.829, dec: 21.264, magnitude: 4.92, colorIndex: 1.43, constellation: 'boo' },
+  { id: 'c-boo', ra: 15.122, dec: 24.869, magnitude: 4.93, colorIndex: 0.43, constellation: 'boo' },
+  { id: 'nu2-boo', ra: 15.530, dec: 40.899, magnitude: 4.98, colorIndex: 0.09, constellation: 'boo' },
+  { id: 'kappa1-boo', ra: 14.224, dec: 51.788, magnitude: 6.62, colorIndex: 0.39, constellation: 'boo' },
+
+  // Caelum
+  { id: 'alpha-cae', ra: 4.676, dec: -41.864, magnitude: 4.44, colorIndex: 0.34, constellation: 'cae' },
+  { id: 'gamma-cae', ra: 5.073, dec: -35.483, magnitude: 4.55, colorIndex: 1.18, constellation: 'cae' },
+  { id: 'beta-cae', ra: 4.701, dec: -37.144, magnitude: 5.04, colorIndex: 0.39, constellation: 'cae' },
+  { id: 'delta-cae', ra: 4.514, dec: -44.954, magnitude: 5.07, colorIndex: -0.19, constellation: 'cae' },
+
+  // Camelopardalis
+  { id: 'beta-cam', ra: 5.057, dec: 60.442, magnitude: 4.03, colorIndex: 0.92, constellation: 'cam' },
+  { id: 'hip16228-cam', ra: 3.484, dec: 59.940, magnitude: 4.21, colorIndex: 0.42, constellation: 'cam' },
+  { id: 'alpha-cam', ra: 4.901, dec: 66.343, magnitude: 4.26, colorIndex: -0.01, constellation: 'cam' },
+  { id: 'hip47193-cam', ra: 9.618, dec: 81.326, magnitude: 4.28, colorIndex: 1.49, constellation: 'cam' },
+  { id: 'hip17884-cam', ra: 3.825, dec: 65.526, magnitude: 4.39, colorIndex: 1.87, constellation: 'cam' },
+  { id: '7-cam', ra: 4.955, dec: 53.752, magnitude: 4.43, colorIndex: -0.02, constellation: 'cam' },
+  { id: 'hip16281-cam', ra: 3.499, dec: 58.879, magnitude: 4.55, colorIndex: 0.49, constellation: 'cam' },
+  { id: 'hip33694-cam', ra: 7.001, dec: 76.977, magnitude: 4.55, colorIndex: 1.36, constellation: 'cam' },
+  { id: 'gamma-cam', ra: 3.839, dec: 71.332, magnitude: 4.59, colorIndex: 0.06, constellation: 'cam' },
+  { id: 'hip113116-cam', ra: 22.907, dec: 84.346, magnitude: 4.70, colorIndex: 1.42, constellation: 'cam' },
+  { id: 'hip15520-cam', ra: 3.333, dec: 65.652, magnitude: 4.74, colorIndex: -0.11, constellation: 'cam' },
+  { id: 'hip29997-cam', ra: 6.314, dec: 69.320, magnitude: 4.76, colorIndex: 0.03, constellation: 'cam' },
+  { id: 'hip112519-cam', ra: 22.791, dec: 83.154, magnitude: 4.77, colorIndex: 1.26, constellation: 'cam' },
+  { id: 'hip17587-cam', ra: 3.767, dec: 63.345, magnitude: 4.78, colorIndex: 0.75, constellation: 'cam' },
+  { id: 'hip36547-cam', ra: 7.518, dec: 82.412, magnitude: 4.92, colorIndex: 1.63, constellation: 'cam' },
+  { id: 'hip18505-cam', ra: 3.957, dec: 63.072, magnitude: 4.95, colorIndex: -0.07, constellation: 'cam' },
+  { id: 'hip18488-cam', ra: 3.952, dec: 61.109, magnitude: 4.99, colorIndex: 1.44, constellation: 'cam' },
+  { id: 'hip19018-cam', ra: 4.074, dec: 59.156, magnitude: 5.00, colorIndex: 0.49, constellation: 'cam' },
+
+  // Cancer
+  { id: 'beta-cnc', name: 'Tarf', ra: 8.275, dec: 9.185, magnitude: 3.53, colorIndex: 1.48, constellation: 'cnc' },
+  { id: 'delta-cnc', name: 'Asellus Australis', ra: 8.745, dec: 18.154, magnitude: 3.94, colorIndex: 1.08, constellation: 'cnc' },
+  { id: 'hip43103-cnc', ra: 8.778, dec: 28.760, magnitude: 4.03, colorIndex: 1.01, constellation: 'cnc' },
+  { id: 'alpha-cnc', name: 'Acubens', ra: 8.975, dec: 11.858, magnitude: 4.26, colorIndex: 0.14, constellation: 'cnc' },
+  { id: 'gamma-cnc', name: 'Asellus Borealis', ra: 8.721, dec: 21.468, magnitude: 4.66, colorIndex: 0.01, constellation: 'cnc' },
+  { id: 'zeta1-cnc', ra: 8.204, dec: 17.648, magnitude: 4.67, colorIndex: 0.53, constellation: 'cnc' },
+  { id: 'hip43100-cnc', ra: 8.778, dec: 28.765, magnitude: 6.58, colorIndex: 0.05, constellation: 'cnc' },
+
+  // Canes Venatici
+  { id: 'alpha2-cvn', name: 'Cor Caroli', ra: 12.934, dec: 38.318, magnitude: 2.89, colorIndex: -0.12, constellation: 'cvn' },
+  { id: 'beta-cvn', ra: 12.562, dec: 41.358, magnitude: 4.24, colorIndex: 0.59, constellation: 'cvn' },
+  { id: '24-cvn', ra: 13.574, dec: 49.016, magnitude: 4.68, colorIndex: 0.13, constellation: 'cvn' },
+  { id: '20-cvn', ra: 13.292, dec: 40.573, magnitude: 4.72, colorIndex: 0.31, constellation: 'cvn' },
+  { id: '5-cvn', ra: 12.400, dec: 51.562, magnitude: 4.76, colorIndex: 0.88, constellation: 'cvn' },
+  { id: 'hip67665-cvn', ra: 13.863, dec: 34.444, magnitude: 4.76, colorIndex: 1.61, constellation: 'cvn' },
+  { id: '25-cvn', ra: 13.624, dec: 36.295, magnitude: 4.82, colorIndex: 0.24, constellation: 'cvn' },
+  { id: 'hip66257-cvn', ra: 13.580, dec: 37.182, magnitude: 4.91, colorIndex: 0.40, constellation: 'cvn' },
+  { id: 'hip64540-cvn', ra: 13.229, dec: 40.153, magnitude: 4.94, colorIndex: 1.06, constellation: 'cvn' },
+  { id: 'alpha1-cvn', ra: 12.933, dec: 38.315, magnitude: 5.61, colorIndex: 0.34, constellation: 'cvn' },
+
+  // Canis Major
+  { id: 'alpha-cma', name: 'Sirius', ra: 6.752, dec: -16.716, magnitude: -1.44, colorIndex: 0.01, constellation: 'cma' },
+  { id: 'epsilon-cma', name: 'Adhara', ra: 6.977, dec: -28.972, magnitude: 1.50, colorIndex: -0.21, constellation: 'cma' },
+  { id: 'delta-cma', name: 'Wezen', ra: 7.140, dec: -26.393, magnitude: 1.83, colorIndex: 0.67, constellation: 'cma' },
+  { id: 'beta-cma', name: 'Mirzam', ra: 6.378, dec: -17.956, magnitude: 1.98, colorIndex: -0.24, constellation: 'cma' },
+  { id: 'eta-cma', name: 'Aludra', ra: 7.402, dec: -29.303, magnitude: 2.45, colorIndex: -0.08, constellation: 'cma' },
+  { id: 'zeta-cma', name: 'Furud', ra: 6.339, dec: -30.063, magnitude: 3.02, colorIndex: -0.16, constellation: 'cma' },
+  { id: 'omicron2-cma', ra: 7.050, dec: -23.833, magnitude: 3.02, colorIndex: -0.08, constellation: 'cma' },
+  { id: 'sigma-cma', ra: 7.029, dec: -27.935, magnitude: 3.49, colorIndex: 1.73, constellation: 'cma' },
+  { id: 'kappa-cma', ra: 6.831, dec: -32.508, magnitude: 3.50, colorIndex: -0.12, constellation: 'cma' },
+  { id: 'omicron1-cma', ra: 6.902, dec: -24.184, magnitude: 3.89, colorIndex: 1.74, constellation: 'cma' },
+  { id: 'nu2-cma', ra: 6.611, dec: -19.256, magnitude: 3.95, colorIndex: 1.04, constellation: 'cma' },
+  { id: 'omega-cma', ra: 7.247, dec: -26.773, magnitude: 4.01, colorIndex: -0.15, constellation: 'cma' },
+  { id: 'theta-cma', ra: 6.903, dec: -12.039, magnitude: 4.08, colorIndex: 1.42, constellation: 'cma' },
+  { id: 'gamma-cma', name: 'Muliphein', ra: 7.063, dec: -15.633, magnitude: 4.11, colorIndex: -0.11, constellation: 'cma' },
+  { id: 'xi1-cma', ra: 6.531, dec: -23.418, magnitude: 4.34, colorIndex: -0.24, constellation: 'cma' },
+  { id: 'iota-cma', ra: 6.936, dec: -17.054, magnitude: 4.36, colorIndex: -0.06, constellation: 'cma' },
+  { id: 'tau-cma', ra: 7.312, dec: -24.954, magnitude: 4.37, colorIndex: -0.13, constellation: 'cma' },
+  { id: 'nu3-cma', ra: 6.632, dec: -18.238, magnitude: 4.42, colorIndex: 1.14, constellation: 'cma' },
+  { id: '27-cma', ra: 7.238, dec: -26.352, magnitude: 4.42, colorIndex: -0.17, constellation: 'cma' },
+  { id: 'lambda-cma', ra: 6.470, dec: -32.580, magnitude: 4.47, colorIndex: -0.17, constellation: 'cma' },
+  { id: 'xi2-cma', ra: 6.584, dec: -22.965, magnitude: 4.54, colorIndex: -0.04, constellation: 'cma' },
+  { id: 'pi-cma', ra: 6.927, dec: -20.137, magnitude: 4.66, colorIndex: 0.37, constellation: 'cma' },
+  { id: 'hip35205-cma', ra: 7.276, dec: -27.881, magnitude: 4.66, colorIndex: 1.59, constellation: 'cma' },
+  { id: 'hip31827-cma', ra: 6.655, dec: -14.146, magnitude: 4.82, colorIndex: 1.46, constellation: 'cma' },
+  { id: '15-cma', ra: 6.892, dec: -20.224, magnitude: 4.82, colorIndex: -0.21, constellation: 'cma' },
+  { id: '145-cma', ra: 7.277, dec: -23.316, magnitude: 4.83, colorIndex: 1.60, constellation: 'cma' },
+  { id: '29-cma', ra: 7.311, dec: -24.559, magnitude: 4.88, colorIndex: -0.16, constellation: 'cma' },
+  { id: 'hip35727-cma', ra: 7.370, dec: -19.017, magnitude: 4.94, colorIndex: -0.04, constellation: 'cma' },
+  { id: 'hip29735-cma', ra: 6.262, dec: -13.718, magnitude: 5.00, colorIndex: -0.08, constellation: 'cma' },
+  { id: 'mu-cma', ra: 6.935, dec: -14.043, magnitude: 5.00, colorIndex: 1.18, constellation: 'cma' },
+
+  // Canis Minor
+  { id: 'alpha-cmi', name: 'Procyon', ra: 7.655, dec: 5.225, magnitude: 0.40, colorIndex: 0.43, constellation: 'cmi' },
+  { id: 'beta-cmi', name: 'Gomeisa', ra: 7.453, dec: 8.289, magnitude: 2.89, colorIndex: -0.10, constellation: 'cmi' },
+  { id: 'gamma-cmi', ra: 7.469, dec: 8.925, magnitude: 4.33, colorIndex: 1.43, constellation: 'cmi' },
+  { id: 'G-cmi', ra: 8.038, dec: 2.335, magnitude: 4.39, colorIndex: 1.25, constellation: 'cmi' },
+  { id: '6-cmi', ra: 7.497, dec: 12.007, magnitude: 4.55, colorIndex: 1.28, constellation: 'cmi' },
+  { id: 'epsilon-cmi', ra: 7.427, dec: 9.276, magnitude: 4.99, colorIndex: 0.99, constellation: 'cmi' },
+
+  // Capricornus
+  { id: 'delta-cap', name: 'Deneb Algedi', ra: 21.784, dec: -16.127, magnitude: 2.85, colorIndex: 0.18, constellation: 'cap' },
+  { id: 'beta-cap', name: 'Dabih', ra: 20.350, dec: -14.781, magnitude: 3.05, colorIndex: 0.79, constellation: 'cap' },
+  { id: 'alpha2-cap', name: 'Algedi', ra: 20.301, dec: -12.545, magnitude: 3.58, colorIndex: 0.88, constellation: 'cap' },
+  { id: 'gamma-cap', name: 'Nashira', ra: 21.668, dec: -16.662, magnitude: 3.69, colorIndex: 0.32, constellation: 'cap' },
+  { id: 'zeta-cap', ra: 21.444, dec: -22.411, magnitude: 3.77, colorIndex: 1.00, constellation: 'cap' },
+  { id: 'theta-cap', ra: 21.099, dec: -17.233, magnitude: 4.08, colorIndex: -0.01, constellation: 'cap' },
+  { id: 'omega-cap', ra: 20.864, dec: -26.919, magnitude: 4.12, colorIndex: 1.63, constellation: 'cap' },
+  { id: 'psi-cap', ra: 20.768, dec: -25.271, magnitude: 4.13, colorIndex: 0.43, constellation: 'cap' },
+  { id: 'iota-cap', ra: 21.371, dec: -16.834, magnitude: 4.28, colorIndex: 0.89, constellation: 'cap' },
+  { id: 'alpha1-cap', ra: 20.294, dec: -12.508, magnitude: 4.30, colorIndex: 0.93, constellation: 'cap' },
+  { id: 'A-cap', ra: 21.119, dec: -25.006, magnitude: 4.49, colorIndex: 1.60, constellation: 'cap' },
+  { id: 'b-cap', ra: 21.479, dec: -21.807, magnitude: 4.50, colorIndex: 0.89, constellation: 'cap' },
+  { id: 'epsilon-cap', ra: 21.618, dec: -19.466, magnitude: 4.51, colorIndex: -0.18, constellation: 'cap' },
+  { id: 'kappa-cap', ra: 21.711, dec: -18.866, magnitude: 4.72, colorIndex: 0.87, constellation: 'cap' },
+  { id: 'nu-cap', ra: 20.344, dec: -12.759, magnitude: 4.77, colorIndex: -0.05, constellation: 'cap' },
+  { id: 'rho-cap', ra: 20.481, dec: -17.814, magnitude: 4.77, colorIndex: 0.39, constellation: 'cap' },
+  { id: 'eta-cap', ra: 21.073, dec: -19.855, magnitude: 4.82, colorIndex: 0.17, constellation: 'cap' },
+
+  // Carina
+  { id: 'alpha-car', name: 'Canopus', ra: 6.399, dec: -52.696, magnitude: -0.62, colorIndex: 0.16, constellation: 'car' },
+  { id: 'beta-car', name: 'Miaplacidus', ra: 9.220, dec: -69.717, magnitude: 1.67, colorIndex: 0.07, constellation: 'car' },
+  { id: 'epsilon-car', name: 'Avior', ra: 8.375, dec: -59.510, magnitude: 1.86, colorIndex: 1.20, constellation: 'car' },
+  { id: 'iota-car', ra: 9.285, dec: -59.275, magnitude: 2.21, colorIndex: 0.19, constellation: 'car' },
+  { id: 'theta-car', ra: 10.716, dec: -64.394, magnitude: 2.74, colorIndex: -0.22, constellation: 'car' },
+  { id: 'upsilon-car', ra: 9.785, dec: -65.072, magnitude: 2.92, colorIndex: 0.27, constellation: 'car' },
+  { id: 'omega-car', ra: 10.229, dec: -70.038, magnitude: 3.29, colorIndex: -0.07, constellation: 'car' },
+  { id: 'p-car', ra: 10.534, dec: -61.685, magnitude: 3.30, colorIndex: -0.09, constellation: 'car' },
+  { id: 'q-car', ra: 10.285, dec: -61.332, magnitude: 3.39, colorIndex: 1.54, constellation: 'car' },
+  { id: 'a-car', ra: 9.183, dec: -58.967, magnitude: 3.43, colorIndex: -0.19, constellation: 'car' },
+  { id: 'chi-car', ra: 7.946, dec: -52.982, magnitude: 3.46, colorIndex: -0.18, constellation: 'car' },
+  { id: 'l-car', ra: 9.754, dec: -62.508, magnitude: 3.69, colorIndex: 1.01, constellation: 'car' },
+  { id: 'u-car', ra: 10.892, dec: -58.853, magnitude: 3.78, colorIndex: 0.94, constellation: 'car' },
+  { id: 's-car', ra: 10.465, dec: -58.739, magnitude: 3.81, colorIndex: 0.32, constellation: 'car' },
+  { id: 'c-car', ra: 8.917, dec: -60.645, magnitude: 3.84, colorIndex: -0.10, constellation: 'car' },
+  { id: 'x-car', ra: 11.143, dec: -58.975, magnitude: 3.93, colorIndex: 1.23, constellation: 'car' },
+  { id: 'i-car', ra: 9.188, dec: -62.317, magnitude: 3.96, colorIndex: -0.18, constellation: 'car' },
+  { id: 'I-car', ra: 10.407, dec: -74.032, magnitude: 3.99, colorIndex: 0.37, constellation: 'car' },
+  { id: 'h-car', ra: 9.574, dec: -59.230, magnitude: 4.08, colorIndex: -0.01, constellation: 'car' },
+  { id: 'd-car', ra: 8.677, dec: -59.761, magnitude: 4.31, colorIndex: -0.12, constellation: 'car' },
+  { id: 'g-car', ra: 9.270, dec: -57.541, magnitude: 4.34, colorIndex: 1.60, constellation: 'car' },
+  { id: 'N-car', ra: 6.583, dec: -52.976, magnitude: 4.35, colorIndex: -0.02, constellation: 'car' },
+  { id: 'A-car', ra: 6.831, dec: -53.622, magnitude: 4.41, colorIndex: 0.90, constellation: 'car' },
+  { id: 'r-car', ra: 10.593, dec: -57.558, magnitude: 4.45, colorIndex: 1.60, constellation: 'car' },
+  { id: 'G-car', ra: 9.086, dec: -72.603, magnitude: 4.47, colorIndex: 0.61, constellation: 'car' },
+  { id: 'f-car', ra: 8.778, dec: -56.770, magnitude: 4.50, colorIndex: -0.17, constellation: 'car' },
+  { id: 'm-car', ra: 9.656, dec: -61.328, magnitude: 4.51, colorIndex: -0.07, constellation: 'car' },
+  { id: 'w-car', ra: 10.726, dec: -60.567, magnitude: 4.58, colorIndex: 1.70, constellation: 'car' },
+  { id: 'y-car', ra: 11.210, dec: -60.318, magnitude: 4.59, colorIndex: 0.54, constellation: 'car' },
+  { id: 'z-car', ra: 11.109, dec: -62.424, magnitude: 4.62, colorIndex: 0.99, constellation: 'car' },
+  { id: 'P-car', ra: 10.457, dec: -57.639, magnitude: 4.65, colorIndex: 0.47, constellation: 'car' },
+  { id: 'E-car', ra: 9.094, dec: -70.538, magnitude: 4.66, colorIndex: -0.15, constellation: 'car' },
+  { id: 't2-car', ra: 10.646, dec: -59.183, magnitude: 4.69, colorIndex: 1.56, constellation: 'car' },
+  { id: 'K-car', ra: 10.506, dec: -71.993, magnitude: 4.72, colorIndex: 0.04, constellation: 'car' },
+  { id: 'B-car', ra: 8.150, dec: -61.302, magnitude: 4.74, colorIndex: 0.44, constellation: 'car' },
+  { id: 'hip52370-car', ra: 10.704, dec: -64.466, magnitude: 4.76, colorIndex: -0.14, constellation: 'car' },
+  { id: 'k-car', ra: 9.349, dec: -62.405, magnitude: 4.79, colorIndex: 0.93, constellation: 'car' },
+  { id: 'hip52502-car', ra: 10.735, dec: -63.961, magnitude: 4.80, colorIndex: -0.13, constellation: 'car' },
+  { id: 'D-car', ra: 8.006, dec: -63.568, magnitude: 4.81, colorIndex: -0.17, constellation: 'car' },
+  { id: 'e2-car', ra: 8.589, dec: -58.009, magnitude: 4.84, colorIndex: 0.98, constellation: 'car' },
+  { id: 'hip52736-car', ra: 10.781, dec: -64.383, magnitude: 4.87, colorIndex: -0.15, constellation: 'car' },
+  { id: 'Q-car', ra: 7.594, dec: -52.534, magnitude: 4.93, colorIndex: 1.37, constellation: 'car' },
+  { id: 'b1-car', ra: 8.950, dec: -59.229, magnitude: 4.93, colorIndex: -0.18, constellation: 'car' },
+  { id: 'hip51495-car', ra: 10.517, dec: -73.222, magnitude: 4.94, colorIndex: 1.68, constellation: 'car' },
+  { id: 'L-car', ra: 10.383, dec: -66.901, magnitude: 4.97, colorIndex: -0.13, constellation: 'car' },
+  { id: 'z2-car', ra: 11.143, dec: -61.947, magnitude: 5.11, colorIndex: 0.20, constellation: 'car' },
+
+  // Cassiopeia
+  { id: 'gamma-cas', ra: 0.945, dec: 60.717, magnitude: 2.15, colorIndex: -0.05, constellation: 'cas' },
+  { id: 'alpha-cas', name: 'Schedar', ra: 0.675, dec: 56.537, magnitude: 2.24, colorIndex: 1.17, constellation: 'cas' },
+  { id: 'beta-cas', name: 'Caph', ra: 0.153, dec: 59.150, magnitude: 2.28, colorIndex: 0.38, constellation: 'cas' },
+  { id: 'delta-cas', name: 'Ruchbah', ra: 1.430, dec: 60.235, magnitude: 2.66, colorIndex: 0.16, constellation: 'cas' },
+  { id: 'epsilon-cas', name: 'Segin', ra: 1.907, dec: 63.670, magnitude: 3.35, colorIndex: -0.15, constellation: 'cas' },
+  { id: 'eta-cas', ra: 0.818, dec: 57.815, magnitude: 3.46, colorIndex: 0.59, constellation: 'cas' },
+  { id: 'zeta-cas', ra: 0.616, dec: 53.897, magnitude: 3.69, colorIndex: -0.20, constellation: 'cas' },
+  { id: '50-cas', ra: 2.057, dec: 72.421, magnitude: 3.95, colorIndex: 0.00, constellation: 'cas' },
+  { id: 'kappa-cas', ra: 0.550, dec: 62.932, magnitude: 4.17, colorIndex: 0.13, constellation: 'cas' },
+  { id: 'theta-cas', ra: 1.185, dec: 55.150, magnitude: 4.34, colorIndex: 0.17, constellation: 'cas' },
+  { id: 'iota-cas', ra: 2.484, dec: 67.403, magnitude: 4.46, colorIndex: 0.15, constellation: 'cas' },
+  { id: 'omicron-cas', ra: 0.745, dec: 48.284, magnitude: 4.48, colorIndex: -0.07, constellation: 'cas' },
+  { id: 'A-cas', ra: 2.033, dec: 70.907, magnitude: 4.49, colorIndex: 0.16, constellation: 'cas' },
+  { id: 'rho-cas', ra: 23.906, dec: 57.499, magnitude: 4.51, colorIndex: 1.19, constellation: 'cas' },
+  { id: 'upsilon2-cas', ra: 0.944, dec: 59.181, magnitude: 4.62, colorIndex: 0.96, constellation: 'cas' },
+  { id: 'chi-cas', ra: 1.566, dec: 59.232, magnitude: 4.68, colorIndex: 0.99, constellation: 'cas' },
+  { id: 'psi-cas', ra: 1.432, dec: 68.130, magnitude: 4.72, colorIndex: 1.05, constellation: 'cas' },
+  { id: 'lambda-cas', ra: 0.530, dec: 54.522, magnitude: 4.74, colorIndex: -0.10, constellation: 'cas' },
+  { id: 'xi-cas', ra: 0.701, dec: 50.513, magnitude: 4.80, colorIndex: -0.10, constellation: 'cas' },
+  { id: 'hip4151-cas', ra: 0.884, dec: 61.124, magnitude: 4.80, colorIndex: 0.54, constellation: 'cas' },
+  { id: 'upsilon1-cas', ra: 0.917, dec: 58.973, magnitude: 4.83, colorIndex: 1.22, constellation: 'cas' },
+  { id: '1-cas', ra: 23.110, dec: 59.420, magnitude: 4.84, colorIndex: -0.06, constellation: 'cas' },
+  { id: 'hip14862-cas', ra: 3.199, dec: 74.394, magnitude: 4.85, colorIndex: 0.04, constellation: 'cas' },
+  { id: 'tau-cas', ra: 23.784, dec: 58.652, magnitude: 4.88, colorIndex: 1.12, constellation: 'cas' },
+  { id: 'sigma-cas', ra: 23.983, dec: 55.755, magnitude: 4.88, colorIndex: -0.07, constellation: 'cas' },
+  { id: 'hip115990-cas', ra: 23.501, dec: 58.549, magnitude: 4.89, colorIndex: -0.12, constellation: 'cas' },
+  { id: 'nu-cas', ra: 0.814, dec: 50.968, magnitude: 4.90, colorIndex: -0.09, constellation: 'cas' },
+  { id: 'pi-cas', ra: 0.724, dec: 47.025, magnitude: 4.95, colorIndex: 0.17, constellation: 'cas' },
+  { id: 'phi-cas', ra: 1.335, dec: 58.232, magnitude: 4.95, colorIndex: 0.68, constellation: 'cas' },
+  { id: '4-cas', ra: 23.414, dec: 62.283, magnitude: 4.96, colorIndex: 1.68, constellation: 'cas' },
+  { id: 'omega-cas', ra: 1.933, dec: 68.685, magnitude: 4.97, colorIndex: -0.08, constellation: 'cas' },
+
+  // Centaurus
+  { id: 'alpha1-cen', name: 'Rigil Kentaurus', ra: 14.660, dec: -60.834, magnitude: -0.01, colorIndex: 0.71, constellation: 'cen' },
+  { id: 'beta-cen', name: 'Hadar', ra: 14.064, dec: -60.373, magnitude: 0.61, colorIndex: -0.23, constellation: 'cen' },
+  { id: 'alpha2-cen', ra: 14.660, dec: -60.837, magnitude: 1.35, colorIndex: 0.90, constellation: 'cen' },
+  { id: 'theta-cen', name: 'Menkent', ra: 14.111, dec: -36.370, magnitude: 2.06, colorIndex: 1.01, constellation: 'cen' },
+  { id: 'gamma-cen', name: 'Muhlifain', ra: 12.692, dec: -48.960, magnitude: 2.20, colorIndex: -0.02, constellation: 'cen' },
+  { id: 'epsilon-cen', ra: 13.665, dec: -53.466, magnitude: 2.29, colorIndex: -0.17, constellation: 'cen' },
+  { id: 'eta-cen', ra: 14.592, dec: -42.158, magnitude: 2.33, colorIndex: -0.16, constellation: 'cen' },
+  { id: 'zeta-cen', ra: 13.926, dec: -47.288, magnitude: 2.55, colorIndex: -0.18, constellation: 'cen' },
+  { id: 'delta-cen', ra: 12.139, dec: -50.722, magnitude: 2.58, colorIndex: -0.13, constellation: 'cen' },
+  { id: 'iota-cen', ra: 13.343, dec: -36.712, magnitude: 2.75, colorIndex: 0.07, constellation: 'cen' },
+  { id: 'lambda-cen', ra: 11.596, dec: -63.020, magnitude: 3.11, colorIndex: -0.04, constellation: 'cen' },
+  { id: 'kappa-cen', ra: 14.986, dec: -42.104, magnitude: 3.13, colorIndex: -0.21, constellation: 'cen' },
+  { id: 'nu-cen', ra: 13.825, dec: -41.688, magnitude: 3.41, colorIndex: -0.23, constellation: 'cen' },
+  { id: 'mu-cen', ra: 13.827, dec: -42.474, magnitude: 3.47, colorIndex: -0.17, constellation: 'cen' },
+  { id: 'phi-cen', ra: 13.971, dec: -42.101, magnitude: 3.83, colorIndex: -0.22, constellation: 'cen' },
+  { id: 'tau-cen', ra: 12.628, dec: -48.541, magnitude: 3.85, colorIndex: 0.05, constellation: 'cen' },
+  { id: 'upsilon1-cen', ra: 13.978, dec: -44.804, magnitude: 3.87, colorIndex: -0.21, constellation: 'cen' },
+  { id: 'pi-cen', ra: 11.350, dec: -54.491, magnitude: 3.90, colorIndex: -0.16, constellation: 'cen' },
+  { id: 'd-cen', ra: 13.517, dec: -39.407, magnitude: 3.90, colorIndex: 1.19, constellation: 'cen' },
+  { id: 'sigma-cen', ra: 12.467, dec: -50.231, magnitude: 3.91, colorIndex: -0.19, constellation: 'cen' },
+  { id: 'rho-cen', ra: 12.194, dec: -52.368, magnitude: 3.97, colorIndex: -0.16, constellation: 'cen' },
+  { id: 'b-cen', ra: 14.699, dec: -37.794, magnitude: 4.01, colorIndex: -0.16, constellation: 'cen' },
+  { id: 'psi-cen', ra: 14.343, dec: -37.885, magnitude: 4.05, colorIndex: -0.03, constellation: 'cen' },
+  { id: 'c1-cen', ra: 14.728, dec: -35.174, magnitude: 4.06, colorIndex: 1.36, constellation: 'cen' },
+  { id: 'hip57439-cen', ra: 11.775, dec: -61.178, magnitude: 4.11, colorIndex: 0.90, constellation: 'cen' },
+  { id: 'g-cen', ra: 13.824, dec: -34.451, magnitude: 4.19, colorIndex: 1.52, constellation: 'cen' },
+  { id: 'i-cen', ra: 13.761, dec: -33.044, magnitude: 4.23, colorIndex: 0.39, constellation: 'cen' },
+  { id: 'n-cen', ra: 12.891, dec: -40.179, magnitude: 4.25, colorIndex: 0.22, constellation: 'cen' },
+  { id: 'xi2-cen', ra: 13.115, dec: -49.906, magnitude: 4.27, colorIndex: -0.18, constellation: 'cen' },
+  { id: 'j-cen', ra: 11.828, dec: -63.788, magnitude: 4.30, colorIndex: -0.15, constellation: 'cen' },
+  { id: 'v-cen', ra: 14.339, dec: -56.386, magnitude: 4.30, colorIndex: 0.08, constellation: 'cen' },
+  { id: 'k-cen', ra: 13.864, dec: -32.994, magnitude: 4.32, colorIndex: -0.15, constellation: 'cen' },
+  { id: 'e-cen', ra: 12.885, dec: -48.943, magnitude: 4.33, colorIndex: 1.34, constellation: 'cen' },
+  { id: 'upsilon2-cen', ra: 14.029, dec: -45.603, magnitude: 4.34, colorIndex: 0.60, constellation: 'cen' },
+  { id: 'chi-cen', ra: 14.101, dec: -41.180, magnitude: 4.36, colorIndex: -0.20, constellation: 'cen' },
+  { id: 'a-cen', ra: 14.384, dec: -39.512, magnitude: 4.41, colorIndex: -0.18, constellation: 'cen' },
+  { id: 'hip59173-cen', ra: 12.135, dec: -50.661, magnitude: 4.46, colorIndex: -0.16, constellation: 'cen' },
+  { id: 'B-cen', ra: 11.852, dec: -45.173, magnitude: 4.47, colorIndex: 1.28, constellation: 'cen' },
+  { id: 'J-cen', ra: 13.377, dec: -60.988, magnitude: 4.52, colorIndex: -0.14, constellation: 'cen' },
+  { id: 'm-cen', ra: 13.400, dec: -64.536, magnitude: 4.52, colorIndex: 0.82, constellation: 'cen' },
+  { id: 'hip64425-cen', ra: 13.205, dec: -59.921, magnitude: 4.58, colorIndex: -0.07, constellation: 'cen' },
+  { id: 'A-cen', ra: 11.579, dec: -54.264, magnitude: 4.62, colorIndex: -0.08, constellation: 'cen' },
+  { id: 'hip38500-cen', ra: 7.884, dec: -49.613, magnitude: 4.63, colorIndex: -0.23, constellation: 'cen' },
+  { id: 'l-cen', ra: 12.665, dec: -39.987, magnitude: 4.63, colorIndex: -0.08, constellation: 'cen' },
+  { id: 'M-cen', ra: 13.778, dec: -51.433, magnitude: 4.64, colorIndex: 0.95, constellation: 'cen' },
+  { id: 'w-cen', ra: 12.710, dec: -48.813, magnitude: 4.66, colorIndex: 1.07, constellation: 'cen' },
+  { id: 'f-cen', ra: 13.105, dec: -48.463, magnitude: 4.71, colorIndex: -0.15, constellation: 'cen' },
+  { id: 'hip68191-cen', ra: 13.961, dec: -63.687, magnitude: 4.71, colorIndex: 1.07, constellation: 'cen' },
+  { id: 'hip40096-cen', ra: 8.191, dec: -42.987, magnitude: 4.73, colorIndex: 0.16, constellation: 'cen' },
+  { id: 'hip69191-cen', ra: 14.165, dec: -53.439, magnitude: 4.74, colorIndex: 0.94, constellation: 'cen' },
+  { id: 'hip116602-cen', ra: 23.631, dec: -45.492, magnitude: 4.74, colorIndex: 0.08, constellation: 'cen' },
+  { id: 'hip35020-cen', ra: 7.244, dec: -48.272, magnitude: 4.75, colorIndex: -0.09, constellation: 'cen' },
+  { id: 'h-cen', ra: 13.887, dec: -31.928, magnitude: 4.75, colorIndex: -0.11, constellation: 'cen' },
+  { id: 'hip70264-cen', ra: 14.377, dec: -58.459, magnitude: 4.76, colorIndex: 0.80, constellation: 'cen' },
+  { id: 'hip98761-cen', ra: 20.059, dec: -37.941, magnitude: 4.77, colorIndex: 1.42, constellation: 'cen' },
+  { id: 'hip70104-cen', ra: 14.345, dec: -45.187, magnitude: 4.78, colorIndex: 0.31, constellation: 'cen' },
+  { id: 'hip9095-cen', ra: 1.953, dec: -47.385, magnitude: 4.82, colorIndex: 0.86, constellation: 'cen' },
+  { id: 'G-cen', ra: 12.442, dec: -51.451, magnitude: 4.82, colorIndex: -0.14, constellation: 'cen' },
+  { id: 'xi1-cen', ra: 13.059, dec: -49.527, magnitude: 4.83, colorIndex: 0.03, constellation: 'cen' },
+  { id: 'hip64408-cen', ra: 13.201, dec: -37.803, magnitude: 4.85, colorIndex: 0.69, constellation: 'cen' },
+  { id: 'hip87846-cen', ra: 17.947, dec: -44.342, magnitude: 4.85, colorIndex: 1.18, constellation: 'cen' },
+  { id: 'hip87936-cen', ra: 17.963, dec: -41.716, magnitude: 4.88, colorIndex: 1.62, constellation: 'cen' },
+  { id: 'hip51523-cen', ra: 10.523, dec: -53.715, magnitude: 4.89, colorIndex: 0.50, constellation: 'cen' },
+  { id: 'hip57443-cen', ra: 11.775, dec: -40.500, magnitude: 4.89, colorIndex: 0.66, constellation: 'cen' },
+  { id: 'p-cen', ra: 12.845, dec: -33.999, magnitude: 4.90, colorIndex: -0.03, constellation: 'cen' },
+  { id: 'hip64583-cen', ra: 13.238, dec: -59.103, magnitude: 4.90, colorIndex: 0.49, constellation: 'cen' },
+  { id: 'hip78655-cen', ra: 16.057, dec: -38.602, magnitude: 4.90, colorIndex: -0.15, constellation: 'cen' },
+  { id: 'c2-cen', ra: 14.750, dec: -35.192, magnitude: 4.92, colorIndex: 0.01, constellation: 'cen' },
+  { id: 'hip88726-cen', ra: 18.114, dec: -43.425, magnitude: 4.92, colorIndex: 0.26, constellation: 'cen' },
+  { id: 'hip56986-cen', ra: 11.682, dec: -62.090, magnitude: 4.93, colorIndex: 1.11, constellation: 'cen' },
+  { id: 'hip33357-cen', ra: 6.938, dec: -48.721, magnitude: 4.94, colorIndex: 1.67, constellation: 'cen' },
+  { id: 'Q-cen', ra: 13.696, dec: -54.559, magnitude: 4.99, colorIndex: -0.06, constellation: 'cen' },
+  { id: 'hip78323-cen', ra: 15.992, dec: -41.744, magnitude: 4.99, colorIndex: 0.99, constellation: 'cen' },
+  { id: 'hip57175-cen', ra: 11.725, dec: -62.489, magnitude: 5.00, colorIndex: 0.78, constellation: 'cen' },
+  { id: 'omicron1-cen', ra: 11.529, dec: -59.442, magnitude: 5.07, colorIndex: 1.03, constellation: 'cen' },
+
+  // Cepheus
+  { id: 'alpha-cep', name: 'Alderamin', ra: 21.310, dec: 62.586, magnitude: 2.45, colorIndex: 0.26, constellation: 'cep' },
+  { id: 'gamma-cep', name: 'Errai', ra: 23.656, dec: 77.632, magnitude: 3.21, colorIndex: 1.03, constellation: 'cep' },
+  { id: 'beta-cep', name: 'Alfirk', ra: 21.478, dec: 70.561, magnitude: 3.23, colorIndex: -0.20, constellation: 'cep' },
+  { id: 'zeta-cep', ra: 22.181, dec: 58.201, magnitude: 3.39, colorIndex: 1.56, constellation: 'cep' },
+  { id: 'eta-cep', ra: 20.755, dec: 61.839, magnitude: 3.41, colorIndex: 0.91, constellation: 'cep' },
+  { id: 'iota-cep', ra: 22.828, dec: 66.200, magnitude: 3.50, colorIndex: 1.05, constellation: 'cep' },
+  { id: 'delta-cep', ra: 22.486, dec: 58.415, magnitude: 4.07, colorIndex: 0.78, constellation: 'cep' },
+  { id: 'epsilon-cep', ra: 22.251, dec: 57.044, magnitude: 4.18, colorIndex: 0.28, constellation: 'cep' },
+  { id: 'theta-cep', ra: 20.493, dec: 62.994, magnitude: 4.21, colorIndex: 0.20, constellation: 'cep' },
+  { id: 'mu-cep', ra: 21.725, dec: 58.780, magnitude: 4.23, colorIndex: 2.24, constellation: 'cep' },
+  { id: 'nu-cep', ra: 21.757, dec: 61.121, magnitude: 4.25, colorIndex: 0.47, constellation: 'cep' },
+  { id: 'xi-cep', ra: 22.063, dec: 64.628, magnitude: 4.26, colorIndex: 0.38, constellation: 'cep' },
+  { id: 'kappa-cep', ra: 20.148, dec: 77.711, magnitude: 4.38, colorIndex: -0.05, constellation: 'cep' },
+  { id: 'pi-cep', ra: 23.132, dec: 75.388, magnitude: 4.41, colorIndex: 0.80, constellation: 'cep' },
+  { id: 'upsilon1-cep', ra: 20.756, dec: 57.580, magnitude: 4.52, colorIndex: 0.54, constellation: 'cep' },
+  { id: '11-cep', ra: 21.699, dec: 71.311, magnitude: 4.55, colorIndex: 1.11, constellation: 'cep' },
+  { id: 'omicron-cep', ra: 23.310, dec: 68.111, magnitude: 4.75, colorIndex: 0.84, constellation: 'cep' },
+  { id: '9-cep', ra: 21.632, dec: 62.082, magnitude: 4.76, colorIndex: 0.25, constellation: 'cep' },
+  { id: '24-cep', ra: 22.163, dec: 72.341, magnitude: 4.79, colorIndex: 0.92, constellation: 'cep' },
+
+  // Cetus
+  { id: 'beta-cet', name: 'Diphda', ra: 0.726, dec: -17.987, magnitude: 2.04, colorIndex: 1.02, constellation: 'cet' },
+  { id: 'alpha-cet', name: 'Menkar', ra: 3.038, dec: 4.090, magnitude: 2.54, colorIndex: 1.63, constellation: 'cet' },
+  { id: 'eta-cet', ra: 1.143, dec: -10.182, magnitude: 3.46, colorIndex: 1.16, constellation: 'cet' },
+  { id: 'gamma-cet', ra: 2.722, dec: 3.236, magnitude: 3.47, colorIndex: 0.09, constellation: 'cet' },
+  { id: 'tau-cet', ra: 1.734, dec: -15.938, magnitude: 3.49, colorIndex: 0.73, constellation: 'cet' },
+  { id: 'iota-cet', ra: 0.324, dec: -8.824, magnitude: 3.56, colorIndex: 1.21, constellation: 'cet' },
+  { id: 'theta-cet', ra: 1.400, dec: -8.183, magnitude: 3.60, colorIndex: 1.06, constellation: 'cet' },
+  { id: 'zeta-cet', ra: 1.858, dec: -10.335, magnitude: 3.74, colorIndex: 1.14, constellation: 'cet' },
+  { id: 'upsilon-cet', ra: 2.000, dec: -21.078, magnitude: 3.99, colorIndex: 1.55, constellation: 'cet' },
+  { id: 'delta-cet', ra: 2.658, dec: 0.329, magnitude: 4.08, colorIndex: -0.21, constellation: 'cet' },
+  { id: 'pi-cet', ra: 2.735, dec: -13.859, magnitude: 4.24, colorIndex: -0.12, constellation: 'cet' },
+  { id: 'mu-cet', ra: 2.749, dec: 10.114, magnitude: 4.27, colorIndex: 0.31, constellation: 'cet' },
+  { id: 'xi2-cet', ra: 2.469, dec: 8.460, magnitude: 4.30, colorIndex: -0.05, constellation: 'cet' },
+  { id: 'xi1-cet', ra: 2.217, dec: 8.847, magnitude: 4.36, colorIndex: 0.88, constellation: 'cet' },
+  { id: '7-cet', ra: 0.244, dec: -18.933, magnitude: 4.44, colorIndex: 1.64, constellation: 'cet' },
+  { id: '2-cet', ra: 0.062, dec: -17.336, magnitude: 4.55, colorIndex: -0.05, constellation: 'cet' },
+  { id: 'chi-cet', ra: 1.826, dec: -10.686, magnitude: 4.66, colorIndex: 0.33, constellation: 'cet' },
+  { id: 'lambda-cet', ra: 2.995, dec: 8.907, magnitude: 4.71, colorIndex: -0.11, constellation: 'cet' },
+  { id: 'sigma-cet', ra: 2.535, dec: -15.245, magnitude: 4.74, colorIndex: 0.45, constellation: 'cet' },
+  { id: 'phi1-cet', ra: 0.736, dec: -10.610, magnitude: 4.77, colorIndex: 1.00, constellation: 'cet' },
+  { id: '20-cet', ra: 0.883, dec: -1.144, magnitude: 4.78, colorIndex: 1.55, constellation: 'cet' },
+  { id: 'epsilon-cet', ra: 2.659, dec: -11.872, magnitude: 4.83, colorIndex: 0.45, constellation: 'cet' },
+  { id: 'kappa-cet', ra: 3.323, dec: 3.370, magnitude: 4.84, colorIndex: 0.68, constellation: 'cet' },
+  { id: 'nu-cet', ra: 2.598, dec: 5.593, magnitude: 4.87, colorIndex: 0.88, constellation: 'cet' },
+  { id: 'rho-cet', ra: 2.432, dec: -12.290, magnitude: 4.88, colorIndex: -0.03, constellation: 'cet' },
+  { id: '6-cet', ra: 0.188, dec: -15.468, magnitude: 4.89, colorIndex: 0.49, constellation: 'cet' },
+  { id: '46-cet', ra: 1.427, dec: -14.599, magnitude: 4.90, colorIndex: 1.23, constellation: 'cet' },
+  { id: '56-cet', ra: 1.945, dec: -22.527, magnitude: 4.92, colorIndex: 1.43, constellation: 'cet' },
+  { id: 'hip7999-cet', ra: 1.712, dec: -3.690, magnitude: 4.98, colorIndex: 1.38, constellation: 'cet' },
+  { id: '3-cet', ra: 0.075, dec: -10.509, magnitude: 4.99, colorIndex: 1.62, constellation: 'cet' },
+  { id: 'omicron-cet', ra: 2.322, dec: -2.978, magnitude: 6.47, colorIndex: 0.97, constellation: 'cet' },
+
+  // Chamaeleon
+  { id: 'alpha-cha', ra: 8.309, dec: -76.920, magnitude: 4.05, colorIndex: 0.41, constellation: 'cha' },
+  { id: 'gamma-cha', ra: 10.591, dec: -78.608, magnitude: 4.11, colorIndex: 1.58, constellation: 'cha' },
+  { id: 'beta-cha', ra: 12.306, dec: -79.312, magnitude: 4.24, colorIndex: -0.12, constellation: 'cha' },
+  { id: 'theta-cha', ra: 8.344, dec: -77.484, magnitude: 4.34, colorIndex: 1.16, constellation: 'cha' },
+  { id: 'delta2-cha', ra: 10.763, dec: -80.540, magnitude: 4.45, colorIndex: -0.19, constellation: 'cha' },
+  { id: 'epsilon-cha', ra: 11.994, dec: -78.222, magnitude: 4.88, colorIndex: -0.05, constellation: 'cha' },
+  { id: 'delta1-cha', ra: 10.755, dec: -80.470, magnitude: 5.46, colorIndex: 0.96, constellation: 'cha' },
+
+  // Circinus
+  { id: 'alpha-cir', ra: 14.708, dec: -64.975, magnitude: 3.18, colorIndex: 0.26, constellation: 'cir' },
+  { id: 'beta-cir', ra: 15.292, dec: -58.801, magnitude: 4.07, colorIndex: 0.09, constellation: 'cir' },
+  { id: 'gamma-cir', ra: 15.390, dec: -59.321, magnitude: 4.48, colorIndex: 0.17, constellation: 'cir' },
+  { id: 'epsilon-cir', ra: 15.294, dec: -63.611, magnitude: 4.85, colorIndex: 1.26, constellation: 'cir' },
+
+  // Columba
+  { id: 'alpha-col', ra: 5.661, dec: -34.074, magnitude: 2.65, colorIndex: -0.12, constellation: 'col' },
+  { id: 'beta-col', ra: 5.849, dec: -35.768, magnitude: 3.12, colorIndex: 1.15, constellation: 'col' },
+  { id: 'delta-col', ra: 6.369, dec: -33.436, magnitude: 3.85, colorIndex: 0.86, constellation: 'col' },
+  { id: 'epsilon-col', ra: 5.520, dec: -35.471, magnitude: 3.86, colorIndex: 1.13, constellation: 'col' },
+  { id: 'eta-col', ra: 5.986, dec: -42.815, magnitude: 3.96, colorIndex: 1.15, constellation: 'col' },
+  { id: 'gamma-col', ra: 5.959, dec: -35.283, magnitude: 4.36, colorIndex: -0.17, constellation: 'col' },
+  { id: 'kappa-col', ra: 6.276, dec: -35.141, magnitude: 4.37, colorIndex: 0.98, constellation: 'col' },
+  { id: 'omicron-col', ra: 5.291, dec: -34.895, magnitude: 4.81, colorIndex: 0.99, constellation: 'col' },
+  { id: 'lambda-col', ra: 5.885, dec: -33.801, magnitude: 4.88, colorIndex: -0.15, constellation: 'col' },
+  { id: 'xi-col', ra: 5.925, dec: -37.121, magnitude: 4.97, colorIndex: 1.10, constellation: 'col' },
+  { id: 'theta-col', ra: 6.125, dec: -37.253, magnitude: 5.00, colorIndex: -0.10, constellation: 'col' },
+
+  // Coma Berenices
+  { id: 'beta-com', ra: 13.198, dec: 27.878, magnitude: 4.23, colorIndex: 0.57, constellation: 'com' },
+  { id: 'alpha-com', ra: 13.166, dec: 17.529, magnitude: 4.32, colorIndex: 0.46, constellation: 'com' },
+  { id: 'gamma-com', ra: 12.449, dec: 28.268, magnitude: 4.35, colorIndex: 1.13, constellation: 'com' },
+  { id: '11-com', ra: 12.345, dec: 17.793, magnitude: 4.72, colorIndex: 1.01, constellation: 'com' },
+  { id: '36-com', ra: 12.982, dec: 17.409, magnitude: 4.76, colorIndex: 1.57, constellation: 'com' },
+  { id: 'hip21029-com', ra: 4.509, dec: 16.194, magnitude: 4.78, colorIndex: 0.17, constellation: 'com' },
+  { id: '12-com', ra: 12.375, dec: 25.846, magnitude: 4.78, colorIndex: 0.52, constellation: 'com' },
+  { id: '23-com', ra: 12.581, dec: 22.629, magnitude: 4.80, colorIndex: 0.01, constellation: 'com' },
+  { id: '41-com', ra: 13.120, dec: 27.625, magnitude: 4.80, colorIndex: 1.48, constellation: 'com' },
+  { id: 'hip92088-com', ra: 18.768, dec: 26.662, magnitude: 4.83, colorIndex: 1.20, constellation: 'com' },
+  { id: '37-com', ra: 13.005, dec: 30.785, magnitude: 4.88, colorIndex: 1.17, constellation: 'com' },
+  { id: '35-com', ra: 12.888, dec: 21.245, magnitude: 4.89, colorIndex: 0.90, constellation: 'com' },
+  { id: '14-com', ra: 12.440, dec: 27.268, magnitude: 4.92, colorIndex: 0.28, constellation: 'com' },
+  { id: '7-com', ra: 12.272, dec: 23.945, magnitude: 4.93, colorIndex: 0.96, constellation: 'com' },
+  { id: '31-com', ra: 12.862, dec: 27.541, magnitude: 4.93, colorIndex: 0.68, constellation: 'com' },
+  { id: '16-com', ra: 12.450, dec: 26.826, magnitude: 4.98, colorIndex: 0.09, constellation: 'com' },
+  { id: 'hip59856-com', ra: 12.275, dec: 33.062, magnitude: 4.99, colorIndex: 1.14, constellation: 'com' },
+
+  // Corona Austrina
+  { id: 'beta-cra', ra: 19.167, dec: -39.341, magnitude: 4.10, colorIndex: 1.16, constellation: 'cra' },
+  { id: 'alpha-cra', ra: 19.158, dec: -37.904, magnitude: 4.11, colorIndex: 0.04, constellation: 'cra' },
+  { id: 'gamma-cra', ra: 19.107, dec: -37.063, magnitude: 4.23, colorIndex: 0.52, constellation: 'cra' },
+  { id: 'delta-cra', ra: 19.139, dec: -40.497, magnitude: 4.57, colorIndex: 1.07, constellation: 'cra' },
+  { id: 'theta-cra', ra: 18.558, dec: -42.312, magnitude: 4.62, colorIndex: 0.99, constellation: 'cra' },
+  { id: 'zeta-cra', ra: 19.052, dec: -42.095, magnitude: 4.74, colorIndex: -0.03, constellation: 'cra' },
+  { id: 'epsilon-cra', ra: 18.979, dec: -37.107, magnitude: 4.83, colorIndex: 0.40, constellation: 'cra' },
+  { id: 'eta2-cra', ra: 18.826, dec: -43.434, magnitude: 5.60, colorIndex: -0.08, constellation: 'cra' },
+
+  // Corona Borealis
+  { id: 'alpha-crb', name: 'Alphecca', ra: 15.578, dec: 26.715, magnitude: 2.22, colorIndex: 0.03, constellation: 'crb' },
+  { id: 'beta-crb', ra: 15.464, dec: 29.106, magnitude: 3.66, colorIndex: 0.32, constellation: 'crb' },
+  { id: 'gamma-crb', ra: 15.712, dec: 26.296, magnitude: 3.81, colorIndex: 0.02, constellation: 'crb' },
+  { id: 'theta-crb', ra: 15.549, dec: 31.359, magnitude: 4.14, colorIndex: -0.13, constellation: 'crb' },
+  { id: 'epsilon-crb', ra: 15.960, dec: 26.878, magnitude: 4.14, colorIndex: 1.23, constellation: 'crb' },
+  { id: 'delta-crb', ra: 15.827, dec: 26.068, magnitude: 4.59, colorIndex: 0.79, constellation: 'crb' },
+  { id: 'zeta1-crb', ra: 15.656, dec: 36.636, magnitude: 4.64, colorIndex: -0.10, constellation: 'crb' },
+  { id: 'tau-crb', ra: 16.150, dec: 36.491, magnitude: 4.73, colorIndex: 1.01, constellation: 'crb' },
+  { id: 'kappa-crb', ra: 15.854, dec: 35.657, magnitude: 4.79, colorIndex: 1.00, constellation: 'crb' },
+  { id: 'xi-crb', ra: 16.368, dec: 30.892, magnitude: 4.86, colorIndex: 0.97, constellation: 'crb' },
+  { id: 'iota-crb', ra: 16.024, dec: 29.851, magnitude: 4.98, colorIndex: -0.05, constellation: 'crb' },
+  { id: 'eta-crb', ra: 15.387, dec: 30.288, magnitude: 4.99, colorIndex: 0.58, constellation: 'crb' },
+
+  // Corvus
+  { id: 'gamma-crv', name: 'Gienah', ra: 12.263, dec: -17.542, magnitude: 2.58, colorIndex: -0.11, constellation: 'crv' },
+  { id: 'beta-crv', name: 'Kraz', ra: 12.573, dec: -23.397, magnitude: 2.65, colorIndex: 0.89, constellation: 'crv' },
+  { id: 'delta-crv', name: 'Algorab', ra: 12.498, dec: -16.515, magnitude: 2.94, colorIndex: -0.01, constellation: 'crv' },
+  { id: 'epsilon-crv', name: 'Minkar', ra: 12.169, dec: -22.620, magnitude: 3.02, colorIndex: 1.33, constellation: 'crv' },
+  { id: 'alpha-crv', name: 'Alchiba', ra: 12.140, dec: -24.729, magnitude: 4.02, colorIndex: 0.33, constellation: 'crv' },
+  { id: 'eta-crv', ra: 12.535, dec: -16.196, magnitude: 4.30, colorIndex: 0.39, constellation: 'crv' },
+  { id: 'hip36795-crv', ra: 7.568, dec: -22.296, magnitude: 4.44, colorIndex: 0.52, constellation: 'crv' },
+  { id: 'hip39095-crv', ra: 7.998, dec: -18.399, magnitude: 4.61, colorIndex: 0.09, constellation: 'crv' },
+  { id: 'hip24927-crv', ra: 5.341, dec: -21.240, magnitude: 4.70, colorIndex: -0.05, constellation: 'crv' },
+  { id: 'hip36431-crv', ra: 7.498, dec: -23.024, magnitude: 4.85, colorIndex: 0.24, constellation: 'crv' },
+  { id: 'hip23362-crv', ra: 5.024, dec: -20.052, magnitude: 4.91, colorIndex: -0.05, constellation: 'crv' },
+  { id: 'hip47592-crv', ra: 9.704, dec: -23.916, magnitude: 4.93, colorIndex: 0.53, constellation: 'crv' },
+  { id: 'hip48615-crv', ra: 9.915, dec: -19.009, magnitude: 4.94, colorIndex: 1.56, constellation: 'crv' },
+  { id: 'hip21644-crv', ra: 4.648, dec: -12.123, magnitude: 4.99, colorIndex: 0.07, constellation: 'crv' },
+
+  // Crater
+  { id: 'delta-crt', ra: 11.322, dec: -14.778, magnitude: 3.56, colorIndex: 1.11, constellation: 'crt' },
+  { id: 'gamma-crt', ra: 11.415, dec: -17.684, magnitude: 4.06, colorIndex: 0.22, constellation: 'crt' },
+  { id: 'alpha-crt', ra: 10.996, dec: -18.299, magnitude: 4.08, colorIndex: 1.08, constellation: 'crt' },
+  { id: 'beta-crt', ra: 11.194, dec: -22.826, magnitude: 4.46, colorIndex: 0.03, constellation: 'crt' },
+  { id: 'theta-crt', ra: 11.611, dec: -9.802, magnitude: 4.70, colorIndex: -0.07, constellation: 'crt' },
+  { id: 'zeta-crt', ra: 11.746, dec: -18.351, magnitude: 4.71, colorIndex: 0.96, constellation: 'crt' },
+  { id: 'epsilon-crt', ra: 11.410, dec: -10.859, magnitude: 4.81, colorIndex: 1.56, constellation: 'crt' },
+  { id: '17-crt', ra: 11.538, dec: -29.261, magnitude: 4.93, colorIndex: 0.54, constellation: 'crt' },
+  { id: 'lambda-crt', ra: 11.389, dec: -18.780, magnitude: 5.08, colorIndex: 0.44, constellation: 'crt' },
+  { id: 'eta-crt', ra: 11.934, dec: -17.151, magnitude: 5.17, colorIndex: -0.02, constellation: 'crt' },
+
+  // Crux
+  { id: 'alpha1-cru', name: 'Acrux', ra: 12.443, dec: -63.099, magnitude: 0.77, colorIndex: -0.24, constellation: 'cru' },
+  { id: 'beta-cru', name: 'Mimosa', ra: 12.795, dec: -59.689, magnitude: 1.25, colorIndex: -0.24, constellation: 'cru' },
+  { id: 'gamma-cru', name: 'Gacrux', ra: 12.519, dec: -57.113, magnitude: 1.59, colorIndex: 1.60, constellation: 'cru' },
+  { id: 'delta-cru', name: 'Imai', ra: 12.252, dec: -58.749, magnitude: 2.79, colorIndex: -0.19, constellation: 'cru' },
+  { id: 'epsilon-cru', name: 'Ginan', ra: 12.356, dec: -60.401, magnitude: 3.59, colorIndex: 1.39, constellation: 'cru' },
+  { id: 'mu1-cru', ra: 12.910, dec: -57.178, magnitude: 4.03, colorIndex: -0.18, constellation: 'cru' },
+  { id: 'zeta-cru', ra: 12.307, dec: -64.003, magnitude: 4.06, colorIndex: -0.17, constellation: 'cru' },
+  { id: 'eta-cru', ra: 12.115, dec: -64.614, magnitude: 4.14, colorIndex: 0.35, constellation: 'cru' },
+  { id: 'theta1-cru', ra: 12.050, dec: -63.313, magnitude: 4.32, colorIndex: 0.28, constellation: 'cru' },
+  { id: 'hip62327-cru', ra: 12.773, dec: -56.489, magnitude: 4.62, colorIndex: -0.15, constellation: 'cru' },
+  { id: 'lambda-cru', ra: 12.911, dec: -59.147, magnitude: 4.62, colorIndex: -0.15, constellation: 'cru' },
+  { id: 'iota-cru', ra: 12.761, dec: -60.981, magnitude: 4.69, colorIndex: 1.05, constellation: 'cru' },
+  { id: 'theta2-cru', ra: 12.072, dec: -63.166, magnitude: 4.72, colorIndex: -0.08, constellation: 'cru' },
+  { id: '39-cru', ra: 12.699, dec: -59.686, magnitude: 4.91, colorIndex: -0.04, constellation: 'cru' },
+
+  // Cygnus
+  { id: 'alpha-cyg', name: 'Deneb', ra: 20.691, dec: 45.280, magnitude: 1.25, colorIndex: 0.09, constellation: 'cyg' },
+  { id: 'gamma-cyg', name: 'Sadr', ra: 20.370, dec: 40.257, magnitude: 2.23, colorIndex: 0.67, constellation: 'cyg' },
+  { id: 'epsilon-cyg', name: 'Aljanah', ra: 20.770, dec: 33.970, magnitude: 2.48, colorIndex: 1.02, constellation: 'cyg' },
+  { id: 'delta-cyg', name: 'Fawaris', ra: 19.750, dec: 45.131, magnitude: 2.86, colorIndex: 0.00, constellation: 'cyg' },
+  { id: 'beta1-cyg', name: 'Albireo', ra: 19.512, dec: 27.960, magnitude: 3.05, colorIndex: 1.09, constellation: 'cyg' },
+  { id: 'zeta-cyg', ra: 21.216, dec: 30.227, magnitude: 3.21, colorIndex: 0.99, constellation: 'cyg' },
+  { id: 'xi-cyg', ra: 21.082, dec: 43.928, magnitude: 3.72, colorIndex: 1.61, constellation: 'cyg' },
+  { id: 'tau-cyg', ra: 21.247, dec: 38.045, magnitude: 3.74, colorIndex: 0.39, constellation: 'cyg' },
+  { id: 'iota-cyg', ra: 19.495, dec: 51.730, magnitude: 3.76, colorIndex: 0.15, constellation: 'cyg' },
+  { id: 'kappa-cyg', ra: 19.285, dec: 53.368, magnitude: 3.80, colorIndex: 0.95, constellation: 'cyg' },
+  { id: 'omicron1-cyg', ra: 20.227, dec: 46.741, magnitude: 3.80, colorIndex: 1.27, constellation: 'cyg' },
+  { id: 'eta-cyg', ra: 19.938, dec: 35.083, magnitude: 3.89, colorIndex: 1.02, constellation: 'cyg' },
+  { id: 'nu-cyg', ra: 20.953, dec: 41.167, magnitude: 3.94, colorIndex: 0.03, constellation: 'cyg' },
+  { id: 'omicron2-cyg', ra: 20.258, dec: 47.714, magnitude: 3.96, colorIndex: 1.45, constellation: 'cyg' },
+  { id: 'rho-cyg', ra: 21.566, dec: 45.592, magnitude: 3.98, colorIndex: 0.89, constellation: 'cyg' },
+  { id: '41-cyg', ra: 20.490, dec: 30.369, magnitude: 4.01, colorIndex: 0.40, constellation: 'cyg' },
+  { id: '52-cyg', ra: 20.761, dec: 30.720, magnitude: 4.22, colorIndex: 1.05, constellation: 'cyg' },
+  { id: 'sigma-cyg', ra: 21.290, dec: 39.395, magnitude: 4.22, colorIndex: 0.10, constellation: 'cyg' },
+  { id: 'pi2-cyg', ra: 21.780, dec: 49.310, magnitude: 4.23, colorIndex: -0.12, constellation: 'cyg' },
+  { id: '33-cyg', ra: 20.223, dec: 56.568, magnitude: 4.28, colorIndex: 0.11, constellation: 'cyg' },
+  { id: 'upsilon-cyg', ra: 21.299, dec: 34.897, magnitude: 4.41, colorIndex: -0.10, constellation: 'cyg' },
+  { id: '39-cyg', ra: 20.398, dec: 32.190, magnitude: 4.43, colorIndex: 1.33, constellation: 'cyg' },
+  { id: 'theta-cyg', ra: 19.607, dec: 50.221, magnitude: 4.49, colorIndex: 0.40, constellation: 'cyg' },
+  { id: 'mu1-cyg', ra: 21.736, dec: 28.743, magnitude: 4.49, colorIndex: 0.51, constellation: 'cyg' },
+  { id: 'lambda-cyg', ra: 20.790, dec: 36.491, magnitude: 4.53, colorIndex: -0.08, constellation: 'cyg' },
+  { id: 'f2-cyg', ra: 21.110, dec: 47.648, magnitude: 4.56, colorIndex: 1.57, constellation: 'cyg' },
+  { id: '47-cyg', ra: 20.565, dec: 35.251, magnitude: 4.61, colorIndex: 1.59, constellation: 'cyg' },
+  { id: 'phi-cyg', ra: 19.656, dec: 30.153, magnitude: 4.68, colorIndex: 0.97, constellation: 'cyg' },
+  { id: 'pi1-cyg', ra: 21.702, dec: 51.190, magnitude: 4.69, colorIndex: -0.12, constellation: 'cyg' },
+  { id: '8-cyg', ra: 19.530, dec: 34.453, magnitude: 4.74, colorIndex: -0.15, constellation: 'cyg' },
+  { id: 'f1-cyg', ra: 20.997, dec: 47.521, magnitude: 4.74, colorIndex: -0.08, constellation: 'cyg' },
+  { id: 'P-cyg', ra: 20.296, dec: 38.033, magnitude: 4.77, colorIndex: 0.38, constellation: 'cyg' },
+  { id: '30-cyg', ra: 20.222, dec: 46.816, magnitude: 4.80, colorIndex: 0.10, constellation: 'cyg' },
+  { id: '57-cyg', ra: 20.887, dec: 44.387, magnitude: 4.80, colorIndex: -0.13, constellation: 'cyg' },
+  { id: '55-cyg', ra: 20.816, dec: 46.114, magnitude: 4.81, colorIndex: 0.57, constellation: 'cyg' },
+  { id: '72-cyg', ra: 21.580, dec: 38.534, magnitude: 4.87, colorIndex: 1.08, constellation: 'cyg' },
+  { id: '15-cyg', ra: 19.738, dec: 37.354, magnitude: 4.89, colorIndex: 0.95, constellation: 'cyg' },
+  { id: 'psi-cyg', ra: 19.927, dec: 52.439, magnitude: 4.91, colorIndex: 0.12, constellation: 'cyg' },
+  { id: 'b2-cyg', ra: 20.157, dec: 36.840, magnitude: 4.93, colorIndex: -0.14, constellation: 'cyg' },
+  { id: 'b3-cyg', ra: 20.242, dec: 36.806, magnitude: 4.93, colorIndex: 0.15, constellation: 'cyg' },
+  { id: 'hip102571-cyg', ra: 20.786, dec: 34.374, magnitude: 4.93, colorIndex: 1.29, constellation: 'cyg' },
+  { id: 'omega1-cyg', ra: 20.501, dec: 48.952, magnitude: 4.94, colorIndex: -0.09, constellation: 'cyg' },
+  { id: '22-cyg', ra: 19.931, dec: 38.487, magnitude: 4.95, colorIndex: -0.09, constellation: 'cyg' },
+  { id: 'hip98073-cyg', ra: 19.932, dec: 58.846, magnitude: 4.98, colorIndex: 1.58, constellation: 'cyg' },
+  { id: '2-cyg', ra: 19.402, dec: 29.621, magnitude: 4.99, colorIndex: -0.12, constellation: 'cyg' },
+  { id: '17-cyg', ra: 19.774, dec: 33.728, magnitude: 5.00, colorIndex: 0.48, constellation: 'cyg' },
+
+  // Delphinus
+  { id: 'beta-del', ra: 20.626, dec: 14.595, magnitude: 3.64, colorIndex: 0.42, constellation: 'del' },
+  { id: 'alpha-del', ra: 20.661, dec: 15.912, magnitude: 3.77, colorIndex: -0.06, constellation: 'del' },
+  { id: 'epsilon-del', ra: 20.554, dec: 11.303, magnitude: 4.03, colorIndex: -0.12, constellation: 'del' },
+  { id: 'gamma2-del', ra: 20.778, dec: 16.124, magnitude: 4.27, colorIndex: 1.04, constellation: 'del' },
+  { id: 'delta-del', ra: 20.724, dec: 15.075, magnitude: 4.43, colorIndex: 0.30, constellation: 'del' },
+  { id: 'zeta-del', ra: 20.588, dec: 14.674, magnitude: 4.64, colorIndex: 0.12, constellation: 'del' },
+  { id: 'gamma1-del', ra: 20.777, dec: 16.124, magnitude: 5.15, colorIndex: 0.49, constellation: 'del' },
+
+  // Dorado
+  { id: 'alpha-dor', ra: 4.567, dec: -55.045, magnitude: 3.30, colorIndex: -0.08, constellation: 'dor' },
+  { id: 'beta-dor', ra: 5.560, dec: -62.490, magnitude: 3.76, colorIndex: 0.64, constellation: 'dor' },
+  { id: 'gamma-dor', ra: 4.267, dec: -51.487, magnitude: 4.26, colorIndex: 0.31, constellation: 'dor' },
+  { id: 'delta-dor', ra: 5.746, dec: -65.736, magnitude: 4.34, colorIndex: 0.22, constellation: 'dor' },
+  { id: '36-dor', ra: 5.902, dec: -63.090, magnitude: 4.65, colorIndex: 1.02, constellation: 'dor' },
+  { id: 'zeta-dor', ra: 5.092, dec: -57.473, magnitude: 4.71, colorIndex: 0.53, constellation: 'dor' },
+  { id: 'theta-dor', ra: 5.229, dec: -67.185, magnitude: 4.81, colorIndex: 1.27, constellation: 'dor' },
+
+  // Draco
+  { id: 'gamma-dra', name: 'Eltanin', ra: 17.943, dec: 51.489, magnitude: 2.24, colorIndex: 1.52, constellation: 'dra' },
+  { id: 'eta-dra', name: 'Athebyne', ra: 16.400, dec: 61.514, magnitude: 2.73, colorIndex: 0.91, constellation: 'dra' },
+  { id: 'beta-dra', name: 'Rastaban', ra: 17.507, dec: 52.301, magnitude: 2.79, colorIndex: 0.95, constellation: 'dra' },
+  { id: 'delta-dra', name: 'Altais', ra: 19.209, dec: 67.662, magnitude: 3.07, colorIndex: 0.99, constellation: 'dra' },
+  { id: 'zeta-dra', name: 'Aldhibah', ra: 17.146, dec: 65.715, magnitude: 3.17, colorIndex: -0.12, constellation: 'dra' },
+  { id: 'iota-dra', name: 'Edasich', ra: 15.415, dec: 58.966, magnitude: 3.29, colorIndex: 1.17, constellation: 'dra' },
+  { id: 'chi-dra', ra: 18.351, dec: 72.733, magnitude: 3.55, colorIndex: 0.49, constellation: 'dra' },
+  { id: 'alpha-dra', name: 'Thuban', ra: 14.073, dec: 64.376, magnitude: 3.67, colorIndex: -0.05, constellation: 'dra' },
+  { id: 'xi-dra', name: 'Grumium', ra: 17.892, dec: 56.873, magnitude: 3.73, colorIndex: 1.18, constellation: 'dra' },
+  { id: 'lambda-dra', name: 'Giausar', ra: 11.523, dec: 69.331, magnitude: 3.82, colorIndex: 1.61, constellation: 'dra' },
+  { id: 'epsilon-dra', ra: 19.803, dec: 70.268, magnitude: 3.84, colorIndex: 0.89, constellation: 'dra' },
+  { id: 'kappa-dra', ra: 12.558, dec: 69.788, magnitude: 3.85, colorIndex: -0.12, constellation: 'dra' },
+  { id: 'theta-dra', ra: 16.031, dec: 58.565, magnitude: 4.01, colorIndex: 0.53, constellation: 'dra' },
+  { id: 'phi-dra', ra: 18.346, dec: 71.338, magnitude: 4.22, colorIndex: -0.09, constellation: 'dra' },
+  { id: 'tau-dra', ra: 19.259, dec: 73.356, magnitude: 4.45, colorIndex: 1.26, constellation: 'dra' },
+  { id: 'rho-dra', ra: 20.047, dec: 67.874, magnitude: 4.51, colorIndex: 1.31, constellation: 'dra' },
+  { id: 'psi-dra', ra: 17.699, dec: 72.149, magnitude: 4.57, colorIndex: 0.43, constellation: 'dra' },
+  { id: 'i-dra', ra: 13.857, dec: 64.723, magnitude: 4.58, colorIndex: 1.57, constellation: 'dra' },
+  { id: 'pi-dra', ra: 19.344, dec: 65.715, magnitude: 4.60, colorIndex: 0.03, constellation: 'dra' },
+  { id: 'omicron-dra', ra: 18.853, dec: 59.388, magnitude: 4.63, colorIndex: 1.19, constellation: 'dra' },
+  { id: 'sigma-dra', ra: 19.539, dec: 69.661, magnitude: 4.67, colorIndex: 0.79, constellation: 'dra' },
+  { id: 'omega-dra', ra: 17.616, dec: 68.758, magnitude: 4.77, colorIndex: 0.43, constellation: 'dra' },
+  { id: 'd-dra', ra: 18.543, dec: 57.046, magnitude: 4.77, colorIndex: 0.61, constellation: 'dra' },
+  { id: '42-dra', ra: 18.433, dec: 65.564, magnitude: 4.82, colorIndex: 1.18, constellation: 'dra' },
+  { id: 'upsilon-dra', ra: 18.907, dec: 71.297, magnitude: 4.82, colorIndex: 1.15, constellation: 'dra' },
+  { id: 'g-dra', ra: 16.682, dec: 64.589, magnitude: 4.84, colorIndex: 1.21, constellation: 'dra' },
+  { id: 'hip82020-dra', ra: 16.755, dec: 56.782, magnitude: 4.84, colorIndex: 0.38, constellation: 'dra' },
+  { id: 'nu2-dra', ra: 17.538, dec: 55.173, magnitude: 4.86, colorIndex: 0.28, constellation: 'dra' },
+  { id: 'h-dra', ra: 16.934, dec: 65.135, magnitude: 4.88, colorIndex: 0.48, constellation: 'dra' },
+  { id: 'nu1-dra', name: 'Kuma', ra: 17.536, dec: 55.184, magnitude: 4.89, colorIndex: 0.25, constellation: 'dra' },
+  { id: 'mu-dra', ra: 17.089, dec: 54.470, magnitude: 4.91, colorIndex: 0.47, constellation: 'dra' },
+  { id: 'hip92689-dra', ra: 18.887, dec: 50.708, magnitude: 4.92, colorIndex: 0.90, constellation: 'dra' },
+  { id: 'A-dra', ra: 16.466, dec: 68.768, magnitude: 4.94, colorIndex: -0.05, constellation: 'dra' },
+  { id: '6-dra', ra: 12.579, dec: 70.022, magnitude: 4.95, colorIndex: 1.31, constellation: 'dra' },
+  { id: 'hip78180-dra', ra: 15.963, dec: 54.750, magnitude: 4.96, colorIndex: 0.27, constellation: 'dra' },
+  { id: 'b-dra', ra: 18.399, dec: 58.801, magnitude: 4.98, colorIndex: 0.08, constellation: 'dra' },
+  { id: '36-dra', ra: 18.232, dec: 64.397, magnitude: 4.99, colorIndex: 0.44, constellation: 'dra' },
+  { id: '54-dra', ra: 19.232, dec: 57.705, magnitude: 5.00, colorIndex: 1.16, constellation: 'dra' },
+
+  // Equuleus
+  { id: 'alpha-equ', ra: 21.264, dec: 5.248, magnitude: 3.92, colorIndex: 0.55, constellation: 'equ' },
+  { id: 'delta-equ', ra: 21.241, dec: 10.007, magnitude: 4.47, colorIndex: 0.53, constellation: 'equ' },
+  { id: 'gamma-equ', ra: 21.172, dec: 10.132, magnitude: 4.70, colorIndex: 0.26, constellation: 'equ' },
+
+  // Eridanus
+  { id: 'alpha-eri', name: 'Achernar', ra: 1.629, dec: -57.237, magnitude: 0.45, colorIndex: -0.16, constellation: 'eri' },
+  { id: 'beta-eri', ra: 5.131, dec: -5.086, magnitude: 2.78, colorIndex: 0.16, constellation: 'eri' },
+  { id: 'theta1-eri', ra: 2.971, dec: -40.305, magnitude: 2.88, colorIndex: 0.13, constellation: 'eri' },
+  { id: 'gamma-eri', ra: 3.967, dec: -13.508, magnitude: 2.97, colorIndex: 1.59, constellation: 'eri' },
+  { id: 'delta-eri', ra: 3.721, dec: -9.763, magnitude: 3.52, colorIndex: 0.92, constellation: 'eri' },
+  { id: 'upsilon4-eri', ra: 4.298, dec: -33.798, magnitude: 3.55, colorIndex: -0.11, constellation: 'eri' },
+  { id: 'phi-eri', ra: 2.275, dec: -51.512, magnitude: 3.56, colorIndex: -0.12, constellation: 'eri' },
+  { id: 'chi-eri', ra: 1.933, dec: -51.609, magnitude: 3.69, colorIndex: 0.84, constellation: 'eri' },
+  { id: 'tau4-eri', ra: 3.325, dec: -21.758, magnitude: 3.70, colorIndex: 1.61, constellation: 'eri' },
+  { id: 'epsilon-eri', ra: 3.549, dec: -9.458, magnitude: 3.72, colorIndex: 0.88, constellation: 'eri' },
+  { id: 'upsilon2-eri', ra: 4.593, dec: -30.562, magnitude: 3.81, colorIndex: 0.96, constellation: 'eri' },
+  { id: 'l-eri', ra: 4.636, dec: -14.304, magnitude: 3.86, colorIndex: 1.08, constellation: 'eri' },
+  { id: 'eta-eri', ra: 2.940, dec: -8.898, magnitude: 3.89, colorIndex: 1.09, constellation: 'eri' },
+  { id: 'nu-eri', ra: 4.605, dec: -3.353, magnitude: 3.93, colorIndex: -0.21, constellation: 'eri' },
+  { id: '43-eri', ra: 4.401, dec: -34.017, magnitude: 3.97, colorIndex: 1.47, constellation: 'eri' },
+  { id: 'mu-eri', ra: 4.758, dec: -3.255, magnitude: 4.01, colorIndex: -0.15, constellation: 'eri' },
+  { id: 'omicron1-eri', ra: 4.198, dec: -6.838, magnitude: 4.04, colorIndex: 0.33, constellation: 'eri' },
+  { id: 'tau3-eri', ra: 3.040, dec: -23.625, magnitude: 4.08, colorIndex: 0.16, constellation: 'eri' },
+  { id: 'iota-eri', ra: 2.678, dec: -39.855, magnitude: 4.11, colorIndex: 1.01, constellation: 'eri' },
+  { id: 'g-eri', ra: 3.824, dec: -36.200, magnitude: 4.17, colorIndex: 0.93, constellation: 'eri' },
+  { id: 'tau6-eri', ra: 3.781, dec: -23.250, magnitude: 4.22, colorIndex: 0.43, constellation: 'eri' },
+  { id: 'kappa-eri', ra: 2.450, dec: -47.704, magnitude: 4.24, colorIndex: -0.14, constellation: 'eri' },
+  { id: 'lambda-eri', ra: 5.152, dec: -8.754, magnitude: 4.25, colorIndex: -0.19, constellation: 'eri' },
+  { id: 'e-eri', ra: 3.332, dec: -43.070, magnitude: 4.26, colorIndex: 0.71, constellation: 'eri' },
+  { id: 'tau5-eri', ra: 3.563, dec: -21.633, magnitude: 4.26, colorIndex: -0.11, constellation: 'eri' },
+  { id: 'f-eri', ra: 3.810, dec: -37.620, magnitude: 4.30, colorIndex: -0.04, constellation: 'eri' },
+  { id: '54-eri', ra: 4.674, dec: -19.672, magnitude: 4.32, colorIndex: 1.60, constellation: 'eri' },
+  { id: 'omega-eri', ra: 4.882, dec: -5.453, magnitude: 4.36, colorIndex: 0.26, constellation: 'eri' },
+  { id: 'pi-eri', ra: 3.769, dec: -12.102, magnitude: 4.43, colorIndex: 1.60, constellation: 'eri' },
+  { id: 'omicron2-eri', ra: 4.255, dec: -7.653, magnitude: 4.43, colorIndex: 0.82, constellation: 'eri' },
+  { id: 'w-eri', ra: 3.905, dec: -2.955, magnitude: 4.46, colorIndex: 0.67, constellation: 'eri' },
+  { id: 'tau1-eri', ra: 2.752, dec: -18.573, magnitude: 4.47, colorIndex: 0.48, constellation: 'eri' },
+  { id: 'upsilon1-eri', ra: 4.558, dec: -29.767, magnitude: 4.49, colorIndex: 0.97, constellation: 'eri' },
+  { id: 'y-eri', ra: 3.618, dec: -40.275, magnitude: 4.57, colorIndex: 1.02, constellation: 'eri' },
+  { id: 'h-eri', ra: 3.714, dec: -37.313, magnitude: 4.59, colorIndex: 1.19, constellation: 'eri' },
+  { id: 'tau9-eri', ra: 3.999, dec: -24.016, magnitude: 4.62, colorIndex: -0.12, constellation: 'eri' },
+  { id: 'tau8-eri', ra: 3.895, dec: -24.612, magnitude: 4.64, colorIndex: -0.14, constellation: 'eri' },
+  { id: 's-eri', ra: 2.663, dec: -42.892, magnitude: 4.74, colorIndex: 0.06, constellation: 'eri' },
+  { id: 'v-eri', ra: 3.510, dec: -5.075, magnitude: 4.74, colorIndex: -0.09, constellation: 'eri' },
+  { id: 'tau2-eri', ra: 2.851, dec: -21.004, magnitude: 4.76, colorIndex: 0.91, constellation: 'eri' },
+  { id: '64-eri', ra: 4.999, dec: -12.537, magnitude: 4.78, colorIndex: 0.27, constellation: 'eri' },
+  { id: 'zeta-eri', ra: 3.264, dec: -8.820, magnitude: 4.80, colorIndex: 0.23, constellation: 'eri' },
+  { id: 'psi-eri', ra: 5.024, dec: -7.174, magnitude: 4.80, colorIndex: -0.16, constellation: 'eri' },
+  { id: '15-eri', ra: 3.306, dec: -22.511, magnitude: 4.86, colorIndex: 0.90, constellation: 'eri' },
+  { id: 'A-eri', ra: 4.240, dec: -10.256, magnitude: 4.87, colorIndex: 1.16, constellation: 'eri' },
+  { id: '45-eri', ra: 4.531, dec: -0.044, magnitude: 4.91, colorIndex: 1.32, constellation: 'eri' },
+
+  // Fornax
+  { id: 'alpha-for', ra: 3.201, dec: -28.988, magnitude: 3.80, colorIndex: 0.54, constellation: 'for' },
+  { id: 'beta-for', ra: 2.818, dec: -32.406, magnitude: 4.45, colorIndex: 0.98, constellation: 'for' },
+  { id: 'nu-for', ra: 2.075, dec: -29.297, magnitude: 4.68, colorIndex: -0.16, constellation: 'for' },
+  { id: 'omega-for', ra: 2.564, dec: -28.232, magnitude: 4.96, colorIndex: -0.05, constellation: 'for' },
+  { id: 'delta-for', ra: 3.704, dec: -31.938, magnitude: 4.99, colorIndex: -0.16, constellation: 'for' },
+
+  // Gemini
+  { id: 'beta-gem', name: 'Pollux', ra: 7.755, dec: 28.026, magnitude: 1.16, colorIndex: 0.99, constellation: 'gem' },
+  { id: 'alpha-gem', name: 'Castor', ra: 7.577, dec: 31.888, magnitude: 1.58, colorIndex: 0.03, constellation: 'gem' },
+  { id: 'gamma-gem', name: 'Alhena', ra: 6.629, dec: 16.399, magnitude: 1.93, colorIndex: 0.00, constellation: 'gem' },
+  { id: 'mu-gem', name: 'Tejat', ra: 6.383, dec: 22.514, magnitude: 2.87, colorIndex: 1.62, constellation: 'gem' },
+  { id: 'epsilon-gem', name: 'Mebsuta', ra: 6.732, dec: 25.131, magnitude: 3.06, colorIndex: 1.38, constellation: 'gem' },
+  { id: 'eta-gem', name: 'Propus', ra: 6.248, dec: 22.507, magnitude: 3.31, colorIndex: 1.60, constellation: 'gem' },
+  { id: 'xi-gem', name: 'Alzirr', ra: 6.755, dec: 12.896, magnitude: 3.35, colorIndex: 0.44, constellation: 'gem' },
+  { id: 'delta-gem', name: 'Wasat', ra: 7.335, dec: 21.982, magnitude: 3.50, colorIndex: 0.37, constellation: 'gem' },
+  { id: 'kappa-gem', ra: 7.741, dec: 24.398, magnitude: 3.57, colorIndex: 0.93, constellation: 'gem' },
+  { id: 'lambda-gem', ra: 7.302, dec: 16.540, magnitude: 3.58, colorIndex: 0.11, constellation: 'gem' },
+  { id: 'theta-gem', ra: 6.880, dec: 33.961, magnitude: 3.60, colorIndex: 0.10, constellation: 'gem' },
+  { id: 'iota-gem', ra: 7.429, dec: 27.798, magnitude: 3.78, colorIndex: 1.02, constellation: 'gem' },
+  { id: 'zeta-gem', name: 'Mekbuda', ra: 7.068, dec: 20.570, magnitude: 4.01, colorIndex: 0.90, constellation: 'gem' },
+  { id: 'upsilon-gem', ra: 7.599, dec: 26.896, magnitude: 4.06, colorIndex: 1.54, constellation: 'gem' },
+  { id: 'nu-gem', ra: 6.483, dec: 20.212, magnitude: 4.13, colorIndex: -0.12, constellation: 'gem' },
+  { id: '1-gem', ra: 6.069, dec: 23.263, magnitude: 4.16, colorIndex: 0.83, constellation: 'gem' },
+  { id: 'rho-gem', ra: 7.485, dec: 31.785, magnitude: 4.16, colorIndex: 0.32, constellation: 'gem' },
+  { id: 'sigma-gem', ra: 7.722, dec: 28.884, magnitude: 4.23, colorIndex: 1.12, constellation: 'gem' },
+  { id: 'tau-gem', ra: 7.186, dec: 30.245, magnitude: 4.41, colorIndex: 1.26, constellation: 'gem' },
+  { id: '30-gem', ra: 6.733, dec: 13.228, magnitude: 4.49, colorIndex: 1.17, constellation: 'gem' },
+  { id: 'e-gem', ra: 6.911, dec: 13.178, magnitude: 4.73, colorIndex: 0.32, constellation: 'gem' },
+  { id: 'omicron-gem', ra: 7.653, dec: 34.584, magnitude: 4.89, colorIndex: 0.41, constellation: 'gem' },
+  { id: 'g-gem', ra: 7.769, dec: 18.510, magnitude: 4.89, colorIndex: 1.43, constellation: 'gem' },
+  { id: 'chi-gem', ra: 8.059, dec: 27.794, magnitude: 4.94, colorIndex: 1.13, constellation: 'gem' },
+  { id: 'phi-gem', ra: 7.892, dec: 26.766, magnitude: 4.97, colorIndex: 0.10, constellation: 'gem' },
+
+  // Grus
+  { id: 'alpha-gru', name: 'Alnair', ra: 22.137, dec: -46.961, magnitude: 1.73, colorIndex: -0.07, constellation: 'gru' },
+  { id: 'beta-gru', ra: 22.711, dec: -46.885, magnitude: 2.07, colorIndex: 1.61, constellation: 'gru' },
+  { id: 'gamma-gru', ra: 21.899, dec: -37.365, magnitude: 3.00, colorIndex: -0.08, constellation: 'gru' },
+  { id: 'epsilon-gru', ra: 22.809, dec: -51.317, magnitude: 3.49, colorIndex: 0.08, constellation: 'gru' },
+  { id: 'iota-gru', ra: 23.173, dec: -45.247, magnitude: 3.88, colorIndex: 1.00, constellation: 'gru' },
+  { id: 'delta1-gru', ra: 22.488, dec: -43.496, magnitude: 3.97, colorIndex: 1.02, constellation: 'gru' },
+  { id: 'zeta-gru', ra: 23.015, dec: -52.754, magnitude: 4.11, colorIndex: 0.96, constellation: 'gru' },
+  { id: 'delta2-gru', ra: 22.496, dec: -43.749, magnitude: 4.12, colorIndex: 1.57, constellation: 'gru' },
+  { id: 'theta-gru', ra: 23.115, dec: -43.520, magnitude: 4.28, colorIndex: 0.42, constellation: 'gru' },
+  { id: 'lambda-gru', ra: 22.102, dec: -39.543, magnitude: 4.47, colorIndex: 1.35, constellation: 'gru' },
+  { id: 'mu1-gru', ra: 22.260, dec: -41.347, magnitude: 4.79, colorIndex: 0.79, constellation: 'gru' },
+  { id: 'rho-gru', ra: 22.725, dec: -41.414, magnitude: 4.84, colorIndex: 1.03, constellation: 'gru' },
+  { id: 'eta-gru', ra: 22.761, dec: -53.500, magnitude: 4.84, colorIndex: 1.18, constellation: 'gru' },
+
+  // Hercules
+  { id: 'beta-her', name: 'Kornephoros', ra: 16.504, dec: 21.490, magnitude: 2.78, colorIndex: 0.95, constellation: 'her' },
+  { id: 'alpha1-her', name: 'Rasalgethi', ra: 17.244, dec: 14.390, magnitude: 2.78, colorIndex: 1.16, constellation: 'her' },
+  { id: 'zeta-her', ra: 16.688, dec: 31.603, magnitude: 2.81, colorIndex: 0.65, constellation: 'her' },
+  { id: 'delta-her', name: 'Sarin', ra: 17.251, dec: 24.839, magnitude: 3.12, colorIndex: 0.08, constellation: 'her' },
+  { id: 'pi-her', ra: 17.251, dec: 36.809, magnitude: 3.16, colorIndex: 1.44, constellation: 'her' },
+  { id: 'mu-her', ra: 17.774, dec: 27.721, magnitude: 3.42, colorIndex: 0.75, constellation: 'her' },
+  { id: 'eta-her', ra: 16.715, dec: 38.922, magnitude: 3.48, colorIndex: 0.92, constellation: 'her' },
+  { id: 'xi-her', ra: 17.963, dec: 29.248, magnitude: 3.70, colorIndex: 0.94, constellation: 'her' },
+  { id: 'gamma-her', ra: 16.365, dec: 19.153, magnitude: 3.74, colorIndex: 0.30, constellation: 'her' },
+  { id: 'iota-her', ra: 17.658, dec: 46.006, magnitude: 3.82, colorIndex: -0.18, constellation: 'her' },
+  { id: 'omicron-her', ra: 18.126, dec: 28.762, magnitude: 3.84, colorIndex: -0.02, constellation: 'her' },
+  { id: '109-her', ra: 18.395, dec: 21.770, magnitude: 3.85, colorIndex: 1.17, constellation: 'her' },
+  { id: 'theta-her', ra: 17.938, dec: 37.251, magnitude: 3.86, colorIndex: 1.35, constellation: 'her' },
+  { id: 'tau-her', ra: 16.329, dec: 46.313, magnitude: 3.91, colorIndex: -0.15, constellation: 'her' },
+  { id: 'epsilon-her', ra: 17.005, dec: 30.926, magnitude: 3.92, colorIndex: -0.02, constellation: 'her' },
+  { id: 'rho-her', ra: 17.395, dec: 37.146, magnitude: 4.15, colorIndex: -0.01, constellation: 'her' },
+  { id: '110-her', ra: 18.761, dec: 20.546, magnitude: 4.19, colorIndex: 0.48, constellation: 'her' },
+  { id: 'sigma-her', ra: 16.568, dec: 42.437, magnitude: 4.20, colorIndex: -0.01, constellation: 'her' },
+  { id: 'phi-her', ra: 16.146, dec: 44.935, magnitude: 4.23, colorIndex: -0.04, constellation: 'her' },
+  { id: '95-her', ra: 18.025, dec: 21.596, magnitude: 4.26, colorIndex: 0.41, constellation: 'her' },
+  { id: '111-her', ra: 18.784, dec: 18.181, magnitude: 4.34, colorIndex: 0.15, constellation: 'her' },
+  { id: '102-her', ra: 18.146, dec: 20.815, magnitude: 4.37, colorIndex: -0.16, constellation: 'her' },
+  { id: 'lambda-her', ra: 17.512, dec: 26.111, magnitude: 4.41, colorIndex: 1.43, constellation: 'her' },
+  { id: 'nu-her', ra: 17.975, dec: 30.189, magnitude: 4.41, colorIndex: 0.38, constellation: 'her' },
+  { id: 'omega-her', ra: 16.424, dec: 14.033, magnitude: 4.57, colorIndex: 0.00, constellation: 'her' },
+  { id: '113-her', ra: 18.912, dec: 22.645, magnitude: 4.57, colorIndex: 0.78, constellation: 'her' },
+  { id: 'chi-her', ra: 15.878, dec: 42.452, magnitude: 4.60, colorIndex: 0.56, constellation: 'her' },
+  { id: 'e-her', ra: 17.295, dec: 37.291, magnitude: 4.64, colorIndex: 0.04, constellation: 'her' },
+  { id: '93-her', ra: 18.001, dec: 16.751, magnitude: 4.67, colorIndex: 1.25, constellation: 'her' },
+  { id: 'upsilon-her', ra: 16.047, dec: 46.037, magnitude: 4.72, colorIndex: -0.09, constellation: 'her' },
+  { id: 'u-her', ra: 17.289, dec: 33.100, magnitude: 4.80, colorIndex: -0.17, constellation: 'her' },
+  { id: '52-her', ra: 16.821, dec: 45.983, magnitude: 4.82, colorIndex: 0.09, constellation: 'her' },
+  { id: 'g-her', ra: 16.477, dec: 41.882, magnitude: 4.83, colorIndex: 1.29, constellation: 'her' },
+  { id: 'h-her', ra: 16.543, dec: 11.488, magnitude: 4.84, colorIndex: 1.50, constellation: 'her' },
+  { id: '42-her', ra: 16.646, dec: 48.928, magnitude: 4.86, colorIndex: 1.56, constellation: 'her' },
+  { id: '60-her', ra: 17.090, dec: 12.741, magnitude: 4.89, colorIndex: 0.12, constellation: 'her' },
+  { id: '106-her', ra: 18.338, dec: 21.961, magnitude: 4.92, colorIndex: 1.59, constellation: 'her' },
+  { id: '98-her', ra: 18.101, dec: 22.219, magnitude: 4.96, colorIndex: 1.66, constellation: 'her' },
+  { id: 'A-her', ra: 18.198, dec: 31.405, magnitude: 4.96, colorIndex: 1.64, constellation: 'her' },
+  { id: 'kappa-her', ra: 16.135, dec: 17.047, magnitude: 5.00, colorIndex: 0.93, constellation: 'her' },
+  { id: 'hip88788-her', ra: 18.125, dec: 43.462, magnitude: 5.00, colorIndex: 0.91, constellation: 'her' },
+
+  // Horologium
+  { id: 'alpha-hor', ra: 4.233, dec: -42.294, magnitude: 3.85, colorIndex: 1.08, constellation: 'hor' },
+  { id: 'delta-hor', ra: 4.181, dec: -41.994, magnitude: 4.93, colorIndex: 0.33, constellation: 'hor' },
+  { id: 'beta-hor', ra: 2.980, dec: -64.071, magnitude: 4.98, colorIndex: 0.13, constellation: 'hor' },
+  { id: 'mu-hor', ra: 3.060, dec: -59.738, magnitude: 5.12, colorIndex: 0.35, constellation: 'hor' },
+  { id: 'zeta-hor', ra: 2.678, dec: -54.550, magnitude: 5.21, colorIndex: 0.41, constellation: 'hor' },
+  { id: 'eta-hor', ra: 2.623, dec: -52.543, magnitude: 5.30, colorIndex: 0.29, constellation: 'hor' },
+  { id: 'iota-hor', ra: 2.709, dec: -50.800, magnitude: 5.40, colorIndex: 0.56, constellation: 'hor' },
+
+  // Hydra
+  { id: 'alpha-hya', name: 'Alphard', ra: 9.460, dec: -8.659, magnitude: 1.99, colorIndex: 1.44, constellation: 'hya' },
+  { id: 'gamma-hya', ra: 13.315, dec: -23.172, magnitude: 2.99, colorIndex: 0.92, constellation: 'hya' },
+  { id: 'zeta-hya', ra: 8.923, dec: 5.946, magnitude: 3.11, colorIndex: 0.98, constellation: 'hya' },
+  { id: 'nu-hya', ra: 10.827, dec: -16.194, magnitude: 3.11, colorIndex: 1.23, constellation: 'hya' },
+  { id: 'pi-hya', ra: 14.106, dec: -26.682, magnitude: 3.25, colorIndex: 1.09, constellation: 'hya' },
+  { id: 'epsilon-hya', ra: 8.780, dec: 6.419, magnitude: 3.38, colorIndex: 0.69, constellation: 'hya' },
+  { id: 'xi-hya', ra: 11.550, dec: -31.858, magnitude: 3.54, colorIndex: 0.95, constellation: 'hya' },
+  { id: 'lambda-hya', ra: 10.176, dec: -12.354, magnitude: 3.61, colorIndex: 1.01, constellation: 'hya' },
+  { id: 'mu-hya', ra: 10.435, dec: -16.836, magnitude: 3.83, colorIndex: 1.46, constellation: 'hya' },
+  { id: 'theta-hya', ra: 9.239, dec: 2.314, magnitude: 3.89, colorIndex: -0.06, constellation: 'hya' },
+  { id: 'iota-hya', ra: 9.664, dec: -1.143, magnitude: 3.90, colorIndex: 1.31, constellation: 'hya' },
+  { id: 'C-hya', ra: 8.428, dec: -3.906, magnitude: 3.91, colorIndex: -0.01, constellation: 'hya' },
+  { id: 'upsilon1-hya', ra: 9.858, dec: -14.847, magnitude: 4.11, colorIndex: 0.92, constellation: 'hya' },
+  { id: 'delta-hya', ra: 8.628, dec: 5.704, magnitude: 4.14, colorIndex: 0.00, constellation: 'hya' },
+  { id: 'beta-hya', ra: 11.882, dec: -33.908, magnitude: 4.29, colorIndex: -0.10, constellation: 'hya' },
+  { id: 'eta-hya', ra: 8.720, dec: 3.399, magnitude: 4.30, colorIndex: -0.19, constellation: 'hya' },
+  { id: 'D-hya', ra: 8.773, dec: -13.548, magnitude: 4.32, colorIndex: 0.90, constellation: 'hya' },
+  { id: 'rho-hya', ra: 8.807, dec: 5.838, magnitude: 4.35, colorIndex: -0.04, constellation: 'hya' },
+  { id: 'E-hya', ra: 14.838, dec: -27.960, magnitude: 4.42, colorIndex: 1.37, constellation: 'hya' },
+  { id: 'sigma-hya', ra: 8.646, dec: 3.341, magnitude: 4.45, colorIndex: 1.22, constellation: 'hya' },
+  { id: 'tau2-hya', ra: 9.533, dec: -1.185, magnitude: 4.54, colorIndex: 0.11, constellation: 'hya' },
+  { id: 'hip88839-hya', ra: 18.135, dec: -28.457, magnitude: 4.55, colorIndex: 0.94, constellation: 'hya' },
+  { id: 'tau1-hya', ra: 9.486, dec: -2.769, magnitude: 4.59, colorIndex: 0.41, constellation: 'hya' },
+  { id: 'upsilon2-hya', ra: 10.085, dec: -13.065, magnitude: 4.60, colorIndex: -0.09, constellation: 'hya' },
+  { id: 'F-hya', ra: 8.728, dec: -7.234, magnitude: 4.63, colorIndex: 0.84, constellation: 'hya' },
+  { id: 'hip36514-hya', ra: 7.512, dec: -30.962, magnitude: 4.65, colorIndex: 0.90, constellation: 'hya' },
+  { id: 'hip89678-hya', ra: 18.301, dec: -27.043, magnitude: 4.66, colorIndex: 1.63, constellation: 'hya' },
+  { id: 'omicron-hya', ra: 11.670, dec: -34.745, magnitude: 4.70, colorIndex: -0.07, constellation: 'hya' },
+  { id: 'G-hya', ra: 9.455, dec: -22.344, magnitude: 4.72, colorIndex: 1.15, constellation: 'hya' },
+  { id: 'I-hya', ra: 9.688, dec: -23.591, magnitude: 4.76, colorIndex: -0.12, constellation: 'hya' },
+  { id: '26-hya', ra: 9.330, dec: -11.975, magnitude: 4.77, colorIndex: 0.93, constellation: 'hya' },
+  { id: 'k-hya', ra: 14.385, dec: -27.754, magnitude: 4.78, colorIndex: 1.30, constellation: 'hya' },
+  { id: 'hip87220-hya', ra: 17.820, dec: -31.703, magnitude: 4.79, colorIndex: -0.03, constellation: 'hya' },
+  { id: 'P-hya', ra: 9.341, dec: -9.556, magnitude: 4.80, colorIndex: 0.91, constellation: 'hya' },
+  { id: 'hip91918-hya', ra: 18.739, dec: -35.642, magnitude: 4.86, colorIndex: -0.17, constellation: 'hya' },
+  { id: '9-hya', ra: 8.695, dec: -15.943, magnitude: 4.87, colorIndex: 1.06, constellation: 'hya' },
+  { id: 'hip52009-hya', ra: 10.626, dec: -13.384, magnitude: 4.89, colorIndex: 2.80, constellation: 'hya' },
+  { id: 'phi-hya', ra: 10.643, dec: -16.877, magnitude: 4.91, colorIndex: 0.92, constellation: 'hya' },
+  { id: 'chi1-hya', ra: 11.089, dec: -27.294, magnitude: 4.92, colorIndex: 0.37, constellation: 'hya' },
+  { id: 'psi-hya', ra: 13.151, dec: -23.118, magnitude: 4.94, colorIndex: 1.05, constellation: 'hya' },
+  { id: 'hip78650-hya', ra: 16.056, dec: -25.865, magnitude: 4.96, colorIndex: 1.23, constellation: 'hya' },
+  { id: 'l-hya', ra: 14.470, dec: -29.492, magnitude: 4.97, colorIndex: -0.07, constellation: 'hya' },
+  { id: 'a-hya', ra: 8.667, dec: -12.475, magnitude: 4.98, colorIndex: 1.42, constellation: 'hya' },
+  { id: 'hip32855-hya', ra: 6.848, dec: -34.367, magnitude: 4.99, colorIndex: 1.38, constellation: 'hya' },
+  { id: 'omega-hya', ra: 9.100, dec: 5.092, magnitude: 4.99, colorIndex: 1.19, constellation: 'hya' },
+  { id: 'hip98842-hya', ra: 20.072, dec: -32.056, magnitude: 4.99, colorIndex: 1.21, constellation: 'hya' },
+  { id: 'hip55588-hya', ra: 11.387, dec: -36.165, magnitude: 5.00, colorIndex: 1.46, constellation: 'hya' },
+  { id: 'hip88060-hya', ra: 17.985, dec: -30.253, magnitude: 5.00, colorIndex: 1.65, constellation: 'hya' },
+
+  // Hydrus
+  { id: 'beta-hyi', ra: 0.429, dec: -77.254, magnitude: 2.82, colorIndex: 0.62, constellation: 'hyi' },
+  { id: 'alpha-hyi', ra: 1.980, dec: -61.570, magnitude: 2.86, colorIndex: 0.29, constellation: 'hyi' },
+  { id: 'gamma-hyi', ra: 3.787, dec: -74.239, magnitude: 3.26, colorIndex: 1.59, constellation: 'hyi' },
+  { id: 'delta-hyi', ra: 2.362, dec: -68.659, magnitude: 4.08, colorIndex: 0.03, constellation: 'hyi' },
+  { id: 'epsilon-hyi', ra: 2.660, dec: -68.267, magnitude: 4.12, colorIndex: -0.06, constellation: 'hyi' },
+  { id: 'eta2-hyi', ra: 1.916, dec: -67.647, magnitude: 4.68, colorIndex: 0.93, constellation: 'hyi' },
+  { id: 'nu-hyi', ra: 2.841, dec: -75.067, magnitude: 4.76, colorIndex: 1.34, constellation: 'hyi' },
+  { id: 'zeta-hyi', ra: 2.759, dec: -67.617, magnitude: 4.83, colorIndex: 0.06, constellation: 'hyi' },
+
+  // Indus
+  { id: 'alpha-ind', ra: 20.626, dec: -47.291, magnitude: 3.11, colorIndex: 1.00, constellation: 'ind' },
+  { id: 'beta-ind', ra: 20.913, dec: -58.454, magnitude: 3.67, colorIndex: 1.25, constellation: 'ind' },
+  { id: 'theta-ind', ra: 21.331, dec: -53.449, magnitude: 4.39, colorIndex: 0.19, constellation: 'ind' },
+  { id: 'delta-ind', ra: 21.965, dec: -54.993, magnitude: 4.40, colorIndex: 0.30, constellation: 'ind' },
+  { id: 'eta-ind', ra: 20.734, dec: -51.921, magnitude: 4.51, colorIndex: 0.28, constellation: 'ind' },
+  { id: 'epsilon-ind', ra: 22.056, dec: -56.786, magnitude: 4.69, colorIndex: 1.06, constellation: 'ind' },
+  { id: 'zeta-ind', ra: 20.825, dec: -46.227, magnitude: 4.90, colorIndex: 1.49, constellation: 'ind' },
+
+  // Lacerta
+  { id: 'alpha-lac', ra: 22.522, dec: 50.282, magnitude: 3.76, colorIndex: 0.03, constellation: 'lac' },
+  { id: '1-lac', ra: 22.266, dec: 37.749, magnitude: 4.14, colorIndex: 1.45, constellation: 'lac' },
+  { id: '5-lac', ra: 22.492, dec: 47.707, magnitude: 4.34, colorIndex: 1.68, constellation: 'lac' },
+  { id: 'beta-lac', ra: 22.393, dec: 52.229, magnitude: 4.42, colorIndex: 1.01, constellation: 'lac' },
+  { id: 'hip109754-lac', ra: 22.231, dec: 39.715, magnitude: 4.50, colorIndex: 1.39, constellation: 'lac' },
+  { id: '11-lac', ra: 22.675, dec: 44.276, magnitude: 4.50, colorIndex: 1.32, constellation: 'lac' },
+  { id: '6-lac', ra: 22.508, dec: 43.123, magnitude: 4.52, colorIndex: -0.09, constellation: 'lac' },
+  { id: '2-lac', ra: 22.350, dec: 46.537, magnitude: 4.55, colorIndex: -0.10, constellation: 'lac' },
+  { id: '4-lac', ra: 22.409, dec: 49.476, magnitude: 4.55, colorIndex: 0.09, constellation: 'lac' },
+  { id: '9-lac', ra: 22.623, dec: 51.545, magnitude: 4.64, colorIndex: 0.25, constellation: 'lac' },
+  { id: '10-lac', ra: 22.654, dec: 39.050, magnitude: 4.89, colorIndex: -0.21, constellation: 'lac' },
+  { id: '15-lac', ra: 22.867, dec: 43.312, magnitude: 4.95, colorIndex: 1.56, constellation: 'lac' },
+  { id: 'hip113288-lac', ra: 22.941, dec: 49.733, magnitude: 4.99, colorIndex: 1.78, constellation: 'lac' },
+
+  // Leo
+  { id: 'alpha-leo', name: 'Regulus', ra: 10.140, dec: 11.967, magnitude: 1.36, colorIndex: -0.09, constellation: 'leo' },
+  { id: 'gamma1-leo', name: 'Algieba', ra: 10.333, dec: 19.841, magnitude: 2.01, colorIndex: 1.13, constellation: 'leo' },
+  { id: 'beta-leo', name: 'Denebola', ra: 11.818, dec: 14.572, magnitude: 2.14, colorIndex: 0.09, constellation: 'leo' },
+  { id: 'delta-leo', name: 'Zosma', ra: 11.235, dec: 20.524, magnitude: 2.56, colorIndex: 0.13, constellation: 'leo' },
+  { id: 'epsilon-leo', ra: 9.764, dec: 23.774, magnitude: 2.97, colorIndex: 0.81, constellation: 'leo' },
+  { id: 'theta-leo', name: 'Chertan', ra: 11.237, dec: 15.430, magnitude: 3.33, colorIndex: 0.00, constellation: 'leo' },
+  { id: 'zeta-leo', name: 'Adhafera', ra: 10.278, dec: 23.417, magnitude: 3.43, colorIndex: 0.31, constellation: 'leo' },
+  { id: 'eta-leo', ra: 10.122, dec: 16.763, magnitude: 3.48, colorIndex: -0.03, constellation: 'leo' },
+  { id: 'omicron-leo', ra: 9.686, dec: 9.892, magnitude: 3.52, colorIndex: 0.52, constellation: 'leo' },
+  { id: 'rho-leo', ra: 10.547, dec: 9.307, magnitude: 3.84, colorIndex: -0.15, constellation: 'leo' },
+  { id: 'mu-leo', name: 'Rasalas', ra: 9.879, dec: 26.007, magnitude: 3.88, colorIndex: 1.22, constellation: 'leo' },
+  { id: 'iota-leo', ra: 11.399, dec: 10.530, magnitude: 4.00, colorIndex: 0.42, constellation: 'leo' },
+  { id: 'sigma-leo', ra: 11.352, dec: 6.029, magnitude: 4.05, colorIndex: -0.06, constellation: 'leo' },
+  { id: '54-leo', ra: 10.927, dec: 24.750, magnitude: 4.30, colorIndex: 0.02, constellation: 'leo' },
+  { id: 'upsilon-leo', ra: 11.616, dec: -0.824, magnitude: 4.30, colorIndex: 0.98, constellation: 'leo' },
+  { id: 'lambda-leo', ra: 9.529, dec: 22.968, magnitude: 4.32, colorIndex: 1.54, constellation: 'leo' },
+  { id: 'A-leo', ra: 10.132, dec: 9.998, magnitude: 4.39, colorIndex: 1.45, constellation: 'leo' },
+  { id: 'b-leo', ra: 11.039, dec: 20.180, magnitude: 4.42, colorIndex: 0.05, constellation: 'leo' },
+  { id: 'phi-leo', ra: 11.278, dec: -3.652, magnitude: 4.45, colorIndex: 0.21, constellation: 'leo' },
+  { id: 'kappa-leo', ra: 9.411, dec: 26.182, magnitude: 4.47, colorIndex: 1.22, constellation: 'leo' },
+  { id: '93-leo', ra: 11.800, dec: 20.219, magnitude: 4.50, colorIndex: 0.55, constellation: 'leo' },
+  { id: '72-leo', ra: 11.253, dec: 23.096, magnitude: 4.56, colorIndex: 1.66, constellation: 'leo' },
+  { id: 'chi-leo', ra: 11.084, dec: 7.336, magnitude: 4.62, colorIndex: 0.33, constellation: 'leo' },
+  { id: 'pi-leo', ra: 10.004, dec: 8.044, magnitude: 4.68, colorIndex: 1.59, constellation: 'leo' },
+  { id: 'p2-leo', ra: 11.030, dec: -2.485, magnitude: 4.73, colorIndex: 1.59, constellation: 'leo' },
+  { id: 'e-leo', ra: 11.505, dec: -3.003, magnitude: 4.77, colorIndex: 1.53, constellation: 'leo' },
+  { id: '40-leo', ra: 10.329, dec: 19.471, magnitude: 4.78, colorIndex: 0.45, constellation: 'leo' },
+  { id: 'd-leo', ra: 11.009, dec: 3.618, magnitude: 4.84, colorIndex: 1.14, constellation: 'leo' },
+  { id: 'tau-leo', ra: 11.466, dec: 2.856, magnitude: 4.95, colorIndex: 1.00, constellation: 'leo' },
+  { id: 'c-leo', ra: 11.012, dec: 6.101, magnitude: 4.98, colorIndex: 0.17, constellation: 'leo' },
+  { id: 'xi-leo', ra: 9.532, dec: 11.300, magnitude: 4.99, colorIndex: 1.05, constellation: 'leo' },
+  { id: '10-leo', ra: 9.620, dec: 6.836, magnitude: 5.00, colorIndex: 1.05, constellation: 'leo' },
+
+  // Leo Minor
+  { id: '46-lmi', ra: 10.889, dec: 34.215, magnitude: 3.79, colorIndex: 1.04, constellation: 'lmi' },
+  { id: 'beta-lmi', ra: 10.465, dec: 36.707, magnitude: 4.20, colorIndex: 0.91, constellation: 'lmi' },
+  { id: '21-lmi', ra: 10.124, dec: 35.245, magnitude: 4.49, colorIndex: 0.19, constellation: 'lmi' },
+  { id: '10-lmi', ra: 9.570, dec: 36.398, magnitude: 4.54, colorIndex: 0.91, constellation: 'lmi' },
+  { id: '37-lmi', ra: 10.645, dec: 31.976, magnitude: 4.68, colorIndex: 0.82, constellation: 'lmi' },
+  { id: '30-lmi', ra: 10.432, dec: 33.796, magnitude: 4.72, colorIndex: 0.26, constellation: 'lmi' },
+  { id: 'hip51658-lmi', ra: 10.554, dec: 40.426, magnitude: 4.72, colorIndex: 0.22, constellation: 'lmi' },
+
+  // Lepus
+  { id: 'alpha-lep', name: 'Arneb', ra: 5.546, dec: -17.822, magnitude: 2.58, colorIndex: 0.21, constellation: 'lep' },
+  { id: 'beta-lep', name: 'Nihal', ra: 5.471, dec: -20.759, magnitude: 2.81, colorIndex: 0.81, constellation: 'lep' },
+  { id: 'epsilon-lep', ra: 5.091, dec: -22.371, magnitude: 3.19, colorIndex: 1.46, constellation: 'lep' },
+  { id: 'mu-lep', ra: 5.216, dec: -16.206, magnitude: 3.29, colorIndex: -0.11, constellation: 'lep' },
+  { id: 'zeta-lep', ra: 5.783, dec: -14.822, magnitude: 3.55, colorIndex: 0.10, constellation: 'lep' },
+  { id: 'gamma-lep', ra: 5.741, dec: -22.448, magnitude: 3.59, colorIndex: 0.48, constellation: 'lep' },
+  { id: 'eta-lep', ra: 5.940, dec: -14.168, magnitude: 3.71, colorIndex: 0.34, constellation: 'lep' },
+  { id: 'delta-lep', ra: 5.855, dec: -20.879, magnitude: 3.76, colorIndex: 0.98, constellation: 'lep' },
+  { id: 'lambda-lep', ra: 5.326, dec: -13.177, magnitude: 4.29, colorIndex: -0.23, constellation: 'lep' },
+  { id: 'kappa-lep', ra: 5.221, dec: -12.941, magnitude: 4.36, colorIndex: -0.09, constellation: 'lep' },
+  { id: 'iota-lep', ra: 5.205, dec: -11.869, magnitude: 4.45, colorIndex: -0.10, constellation: 'lep' },
+  { id: 'theta-lep', ra: 6.103, dec: -14.935, magnitude: 4.67, colorIndex: 0.05, constellation: 'lep' },
+  { id: '17-lep', ra: 6.083, dec: -16.484, magnitude: 4.92, colorIndex: 0.20, constellation: 'lep' },
+
+  // Libra
+  { id: 'beta-lib', name: 'Zubeneschamali', ra: 15.283, dec: -9.383, magnitude: 2.61, colorIndex: -0.07, constellation: 'lib' },
+  { id: 'alpha2-lib', name: 'Zubenelgenubi', ra: 14.848, dec: -16.042, magnitude: 2.75, colorIndex: 0.15, constellation: 'lib' },
+  { id: 'sigma-lib', name: 'Brachium', ra: 15.068, dec: -25.282, magnitude: 3.25, colorIndex: 1.67, constellation: 'lib' },
+  { id: 'upsilon-lib', ra: 15.617, dec: -28.135, magnitude: 3.60, colorIndex: 1.36, constellation: 'lib' },
+  { id: 'tau-lib', ra: 15.644, dec: -29.778, magnitude: 3.66, colorIndex: -0.18, constellation: 'lib' },
+  { id: 'gamma-lib', name: 'Zubenelhakrabi', ra: 15.592, dec: -14.790, magnitude: 3.91, colorIndex: 1.01, constellation: 'lib' },
+  { id: 'theta-lib', ra: 15.897, dec: -16.729, magnitude: 4.13, colorIndex: 1.00, constellation: 'lib' },
+  { id: '16-lib', ra: 14.953, dec: -4.346, magnitude: 4.47, colorIndex: 0.32, constellation: 'lib' },
+  { id: 'iota-lib', ra: 15.204, dec: -19.792, magnitude: 4.54, colorIndex: -0.07, constellation: 'lib' },
+  { id: '37-lib', ra: 15.570, dec: -10.065, magnitude: 4.61, colorIndex: 1.00, constellation: 'lib' },
+  { id: 'kappa-lib', ra: 15.699, dec: -19.679, magnitude: 4.75, colorIndex: 1.57, constellation: 'lib' },
+  { id: 'delta-lib', ra: 15.016, dec: -8.519, magnitude: 4.91, colorIndex: 0.00, constellation: 'lib' },
+  { id: 'epsilon-lib', ra: 15.403, dec: -10.322, magnitude: 4.92, colorIndex: 0.45, constellation: 'lib' },
+  { id: '11-lib', ra: 14.850, dec: -2.299, magnitude: 4.93, colorIndex: 0.99, constellation: 'lib' },
+  { id: '48-lib', ra: 15.970, dec: -14.279, magnitude: 4.95, colorIndex: -0.08, constellation: 'lib' },
+  { id: '42-lib', ra: 15.671, dec: -23.818, magnitude: 4.97, colorIndex: 1.30, constellation: 'lib' },
+
+  // Lupus
+  { id: 'alpha-lup', ra: 14.699, dec: -47.388, magnitude: 2.30, colorIndex: -0.15, constellation: 'lup' },
+  { id: 'beta-lup', ra: 14.976, dec: -43.134, magnitude: 2.68, colorIndex: -0.18, constellation: 'lup' },
+  { id: 'gamma-lup', ra: 15.586, dec: -41.167, magnitude: 2.80, colorIndex: -0.22, constellation: 'lup' },
+  { id: 'delta-lup', ra: 15.356, dec: -40.648, magnitude: 3.22, colorIndex: -0.23, constellation: 'lup' },
+  { id: 'epsilon-lup', ra: 15.378, dec: -44.690, magnitude: 3.37, colorIndex: -0.19, constellation: 'lup' },
+  { id: 'zeta-lup', ra: 15.205, dec: -52.099, magnitude: 3.41, colorIndex: 0.92, constellation: 'lup' },
+  { id: 'eta-lup', ra: 16.002, dec: -38.397, magnitude: 3.42, colorIndex: -0.21, constellation: 'lup' },
+  { id: 'iota-lup', ra: 14.323, dec: -46.058, magnitude: 3.55, colorIndex: -0.18, constellation: 'lup' },
+  { id: 'phi1-lup', ra: 15.363, dec: -36.261, magnitude: 3.57, colorIndex: 1.53, constellation: 'lup' },
+  { id: 'kappa1-lup', ra: 15.199, dec: -48.738, magnitude: 3.88, colorIndex: -0.03, constellation: 'lup' },
+  { id: 'pi-lup', ra: 15.085, dec: -47.051, magnitude: 3.91, colorIndex: -0.14, constellation: 'lup' },
+  { id: 'chi-lup', ra: 15.849, dec: -33.627, magnitude: 3.97, colorIndex: -0.04, constellation: 'lup' },
+  { id: 'rho-lup', ra: 14.631, dec: -49.426, magnitude: 4.05, colorIndex: -0.15, constellation: 'lup' },
+  { id: 'lambda-lup', ra: 15.147, dec: -45.280, magnitude: 4.07, colorIndex: -0.16, constellation: 'lup' },
+  { id: 'theta-lup', ra: 16.110, dec: -36.802, magnitude: 4.22, colorIndex: -0.18, constellation: 'lup' },
+  { id: 'mu-lup', ra: 15.309, dec: -47.875, magnitude: 4.27, colorIndex: -0.09, constellation: 'lup' },
+  { id: 'omicron-lup', ra: 14.861, dec: -43.575, magnitude: 4.32, colorIndex: -0.15, constellation: 'lup' },
+  { id: 'tau2-lup', ra: 14.436, dec: -45.379, magnitude: 4.33, colorIndex: 0.43, constellation: 'lup' },
+  { id: 'omega-lup', ra: 15.634, dec: -42.567, magnitude: 4.34, colorIndex: 1.41, constellation: 'lup' },
+  { id: 'f-lup', ra: 15.297, dec: -30.149, magnitude: 4.35, colorIndex: 1.10, constellation: 'lup' },
+  { id: 'sigma-lup', ra: 14.544, dec: -50.457, magnitude: 4.44, colorIndex: -0.18, constellation: 'lup' },
+  { id: 'phi2-lup', ra: 15.386, dec: -36.858, magnitude: 4.54, colorIndex: -0.15, constellation: 'lup' },
+  { id: 'd-lup', ra: 15.598, dec: -44.958, magnitude: 4.55, colorIndex: -0.17, constellation: 'lup' },
+  { id: 'tau1-lup', ra: 14.436, dec: -45.221, magnitude: 4.56, colorIndex: -0.15, constellation: 'lup' },
+  { id: 'k-lup', ra: 15.422, dec: -38.734, magnitude: 4.60, colorIndex: 0.00, constellation: 'lup' },
+  { id: 'g-lup', ra: 15.686, dec: -44.661, magnitude: 4.64, colorIndex: 0.41, constellation: 'lup' },
+  { id: 'psi1-lup', ra: 15.663, dec: -34.412, magnitude: 4.66, colorIndex: 0.96, constellation: 'lup' },
+  { id: 'psi2-lup', ra: 15.711, dec: -34.710, magnitude: 4.75, colorIndex: -0.15, constellation: 'lup' },
+  { id: 'e-lup', ra: 15.214, dec: -44.500, magnitude: 4.83, colorIndex: -0.18, constellation: 'lup' },
+  { id: 'i-lup', ra: 15.244, dec: -31.519, magnitude: 4.91, colorIndex: 0.37, constellation: 'lup' },
+  { id: 'nu1-lup', ra: 15.369, dec: -47.928, magnitude: 4.99, colorIndex: 0.52, constellation: 'lup' },
+
+  // Lynx
+  { id: 'alpha-lyn', ra: 9.351, dec: 34.393, magnitude: 3.14, colorIndex: 1.55, constellation: 'lyn' },
+  { id: '38-lyn', ra: 9.314, dec: 36.803, magnitude: 3.82, colorIndex: 0.07, constellation: 'lyn' },
+  { id: '31-lyn', ra: 8.381, dec: 43.188, magnitude: 4.25, colorIndex: 1.55, constellation: 'lyn' },
+  { id: '15-lyn', ra: 6.955, dec: 58.423, magnitude: 4.35, colorIndex: 0.85, constellation: 'lyn' },
+  { id: '2-lyn', ra: 6.327, dec: 59.011, magnitude: 4.44, colorIndex: 0.03, constellation: 'lyn' },
+  { id: 'hip44700-lyn', ra: 9.109, dec: 38.452, magnitude: 4.56, colorIndex: 1.04, constellation: 'lyn' },
+  { id: '21-lyn', ra: 7.445, dec: 49.212, magnitude: 4.61, colorIndex: 0.00, constellation: 'lyn' },
+  { id: '27-lyn', ra: 8.141, dec: 51.507, magnitude: 4.78, colorIndex: 0.05, constellation: 'lyn' },
+  { id: 'hip47029-lyn', ra: 9.584, dec: 39.621, magnitude: 4.81, colorIndex: 0.99, constellation: 'lyn' },
+  { id: '12-lyn', ra: 6.771, dec: 59.442, magnitude: 4.86, colorIndex: 0.08, constellation: 'lyn' },
+  { id: '16-lyn', ra: 6.960, dec: 45.094, magnitude: 4.90, colorIndex: 0.03, constellation: 'lyn' },
+  { id: '24-lyn', ra: 7.717, dec: 58.710, magnitude: 4.93, colorIndex: 0.10, constellation: 'lyn' },
+  { id: 'hip35384-lyn', ra: 7.309, dec: 49.465, magnitude: 5.00, colorIndex: 0.09, constellation: 'lyn' },
+
+  // Lyra
+  { id: 'alpha-lyr', name: 'Vega', ra: 18.616, dec: 38.784, magnitude: 0.03, colorIndex: 0.00, constellation: 'lyr' },
+  { id: 'gamma-lyr', name: 'Sulafat', ra: 18.982, dec: 32.690, magnitude: 3.25, colorIndex: -0.05, constellation: 'lyr' },
+  { id: 'beta-lyr', name: 'Sheliak', ra: 18.835, dec: 33.363, magnitude: 3.52, colorIndex: 0.00, constellation: 'lyr' },
+  { id: '13-lyr', ra: 18.922, dec: 43.946, magnitude: 4.08, colorIndex: 1.40, constellation: 'lyr' },
+  { id: 'delta2-lyr', ra: 18.908, dec: 36.899, magnitude: 4.22, colorIndex: 1.57, constellation: 'lyr' },
+  { id: 'kappa-lyr', ra: 18.331, dec: 36.065, magnitude: 4.33, colorIndex: 1.16, constellation: 'lyr' },
+  { id: 'zeta1-lyr', ra: 18.746, dec: 37.605, magnitude: 4.34, colorIndex: 0.19, constellation: 'lyr' },
+  { id: 'theta-lyr', ra: 19.273, dec: 38.134, magnitude: 4.35, colorIndex: 1.26, constellation: 'lyr' },
+  { id: 'eta-lyr', ra: 19.229, dec: 39.146, magnitude: 4.43, colorIndex: -0.15, constellation: 'lyr' },
+  { id: 'epsilon2-lyr', ra: 18.740, dec: 39.613, magnitude: 4.59, colorIndex: 0.18, constellation: 'lyr' },
+  { id: 'epsilon1-lyr', ra: 18.739, dec: 39.670, magnitude: 4.67, colorIndex: 0.17, constellation: 'lyr' },
+  { id: 'lambda-lyr', ra: 19.000, dec: 32.145, magnitude: 4.94, colorIndex: 1.47, constellation: 'lyr' },
+  { id: '16-lyr', ra: 19.024, dec: 46.935, magnitude: 5.00, colorIndex: 0.19, constellation: 'lyr' },
+
+  // Mensa
+  { id: 'alpha-men', ra: 6.171, dec: -74.753, magnitude: 5.08, colorIndex: 0.71, constellation: 'men' },
+  { id: 'gamma-men', ra: 5.531, dec: -76.341, magnitude: 5.18, colorIndex: 1.13, constellation: 'men' },
+  { id: 'beta-men', ra: 5.045, dec: -71.314, magnitude: 5.30, colorIndex: 1.00, constellation: 'men' },
+  { id: 'eta-men', ra: 4.920, dec: -74.937, magnitude: 5.47, colorIndex: 1.52, constellation: 'men' },
+
+  // Microscopium
+  { id: 'gamma-mic', ra: 21.022, dec: -32.258, magnitude: 4.67, colorIndex: 0.89, constellation: 'mic' },
+  { id: 'epsilon-mic', ra: 21.299, dec: -32.172, magnitude: 4.71, colorIndex: 0.07, constellation: 'mic' },
+  { id: 'theta1-mic', ra: 21.346, dec: -40.809, magnitude: 4.80, colorIndex: 0.03, constellation: 'mic' },
+  { id: 'alpha-mic', ra: 20.833, dec: -33.780, magnitude: 4.89, colorIndex: 1.00, constellation: 'mic' },
+  { id: 'iota-mic', ra: 20.808, dec: -43.989, magnitude: 5.11, colorIndex: 0.36, constellation: 'mic' },
+
+  // Monoceros
+  { id: 'beta-mon', ra: 6.480, dec: -7.033, magnitude: 3.76, colorIndex: -0.11, constellation: 'mon' },
+  { id: 'alpha-mon', ra: 7.687, dec: -9.551, magnitude: 3.94, colorIndex: 1.02, constellation: 'mon' },
+  { id: 'gamma-mon', ra: 6.248, dec: -6.275, magnitude: 3.99, colorIndex: 1.32, constellation: 'mon' },
+  { id: 'delta-mon', ra: 7.198, dec: -0.493, magnitude: 4.15, colorIndex: -0.01, constellation: 'mon' },
+  { id: 'zeta-mon', ra: 8.143, dec: -2.984, magnitude: 4.36, colorIndex: 0.97, constellation: 'mon' },
+  { id: 'epsilon-mon', ra: 6.396, dec: 4.593, magnitude: 4.39, colorIndex: 0.21, constellation: 'mon' },
+  { id: '13-mon', ra: 6.548, dec: 7.333, magnitude: 4.47, colorIndex: 0.02, constellation: 'mon' },
+  { id: '18-mon', ra: 6.798, dec: 2.412, magnitude: 4.48, colorIndex: 1.10, constellation: 'mon' },
+  { id: '15-mon', ra: 6.683, dec: 9.896, magnitude: 4.66, colorIndex: -0.23, constellation: 'mon' },
+  { id: '28-mon', ra: 8.020, dec: -1.393, magnitude: 4.69, colorIndex: 1.48, constellation: 'mon' },
+  { id: '17-mon', ra: 6.789, dec: 8.037, magnitude: 4.77, colorIndex: 1.40, constellation: 'mon' },
+  { id: '20-mon', ra: 7.170, dec: -4.237, magnitude: 4.91, colorIndex: 1.02, constellation: 'mon' },
+  { id: '3-mon', ra: 6.031, dec: -10.598, magnitude: 4.92, colorIndex: -0.13, constellation: 'mon' },
+  { id: '27-mon', ra: 7.996, dec: -3.680, magnitude: 4.93, colorIndex: 1.21, constellation: 'mon' },
+  { id: '19-mon', ra: 7.049, dec: -4.239, magnitude: 4.99, colorIndex: -0.20, constellation: 'mon' },
+
+  // Musca
+  { id: 'alpha-mus', ra: 12.620, dec: -69.136, magnitude: 2.69, colorIndex: -0.18, constellation: 'mus' },
+  { id: 'beta-mus', ra: 12.771, dec: -68.108, magnitude: 3.04, colorIndex: -0.18, constellation: 'mus' },
+  { id: 'delta-mus', ra: 13.038, dec: -71.549, magnitude: 3.61, colorIndex: 1.19, constellation: 'mus' },
+  { id: 'lambda-mus', ra: 11.760, dec: -66.729, magnitude: 3.63, colorIndex: 0.16, constellation: 'mus' },
+  { id: 'gamma-mus', ra: 12.541, dec: -72.133, magnitude: 3.84, colorIndex: -0.16, constellation: 'mus' },
+  { id: 'epsilon-mus', ra: 12.293, dec: -67.961, magnitude: 4.06, colorIndex: 1.60, constellation: 'mus' },
+  { id: 'mu-mus', ra: 11.804, dec: -66.815, magnitude: 4.75, colorIndex: 1.52, constellation: 'mus' },
+  { id: 'hip92024-mus', ra: 18.757, dec: -64.871, magnitude: 4.78, colorIndex: 0.20, constellation: 'mus' },
+  { id: 'eta-mus', ra: 13.254, dec: -67.895, magnitude: 4.79, colorIndex: -0.08, constellation: 'mus' },
+  { id: 'hip64820-mus', ra: 13.287, dec: -66.783, magnitude: 4.86, colorIndex: 1.48, constellation: 'mus' },
+  { id: 'hip57851-mus', ra: 11.864, dec: -65.206, magnitude: 4.89, colorIndex: -0.12, constellation: 'mus' },
+  { id: 'hip57696-mus', ra: 11.832, dec: -70.226, magnitude: 4.98, colorIndex: 1.36, constellation: 'mus' },
+
+  // Norma
+  { id: 'gamma2-nor', ra: 16.331, dec: -50.156, magnitude: 4.01, colorIndex: 1.08, constellation: 'nor' },
+  { id: 'epsilon-nor', ra: 16.453, dec: -47.555, magnitude: 4.46, colorIndex: -0.07, constellation: 'nor' },
+  { id: 'iota1-nor', ra: 16.059, dec: -57.775, magnitude: 4.63, colorIndex: 0.25, constellation: 'nor' },
+  { id: 'eta-nor', ra: 16.054, dec: -49.230, magnitude: 4.65, colorIndex: 0.90, constellation: 'nor' },
+  { id: 'delta-nor', ra: 16.108, dec: -45.173, magnitude: 4.73, colorIndex: 0.23, constellation: 'nor' },
+  { id: 'mu-nor', ra: 16.568, dec: -44.045, magnitude: 4.86, colorIndex: 0.04, constellation: 'nor' },
+  { id: 'kappa-nor', ra: 16.225, dec: -54.630, magnitude: 4.95, colorIndex: 1.02, constellation: 'nor' },
+  { id: 'gamma1-nor', ra: 16.284, dec: -50.068, magnitude: 4.97, colorIndex: 0.79, constellation: 'nor' },
+
+  // Octans
+  { id: 'nu-oct', ra: 21.691, dec: -77.390, magnitude: 3.73, colorIndex: 1.01, constellation: 'oct' },
+  { id: 'beta-oct', ra: 22.768, dec: -81.382, magnitude: 4.13, colorIndex: 0.21, constellation: 'oct' },
+  { id: 'delta-oct', ra: 14.449, dec: -83.668, magnitude: 4.31, colorIndex: 1.30, constellation: 'oct' },
+  { id: 'theta-oct', ra: 0.027, dec: -77.066, magnitude: 4.78, colorIndex: 1.25, constellation: 'oct' },
+
+  // Ophiuchus
+  { id: 'alpha-oph', name: 'Rasalhague', ra: 17.582, dec: 12.560, magnitude: 2.08, colorIndex: 0.15, constellation: 'oph' },
+  { id: 'eta-oph', name: 'Sabik', ra: 17.173, dec: -15.725, magnitude: 2.43, colorIndex: 0.06, constellation: 'oph' },
+  { id: 'zeta-oph', ra: 16.619, dec: -10.567, magnitude: 2.54, colorIndex: 0.04, constellation: 'oph' },
+  { id: 'delta-oph', name: 'Yed Prior', ra: 16.239, dec: -3.694, magnitude: 2.73, colorIndex: 1.58, constellation: 'oph' },
+  { id: 'beta-oph', name: 'Cebalrai', ra: 17.725, dec: 4.567, magnitude: 2.76, colorIndex: 1.17, constellation: 'oph' },
+  { id: 'kappa-oph', ra: 16.961, dec: 9.375, magnitude: 3.19, colorIndex: 1.16, constellation: 'oph' },
+  { id: 'epsilon-oph', name: 'Yed Posterior', ra: 16.305, dec: -4.692, magnitude: 3.23, colorIndex: 0.97, constellation: 'oph' },
+  { id: 'theta-oph', ra: 17.367, dec: -25.000, magnitude: 3.27, colorIndex: -0.19, constellation: 'oph' },
+  { id: 'nu-oph', ra: 17.984, dec: -9.774, magnitude: 3.32, colorIndex: 0.99, constellation: 'oph' },
+  { id: '72-oph', ra: 18.122, dec: 9.564, magnitude: 3.71, colorIndex: 0.16, constellation: 'oph' },
+  { id: 'gamma-oph', ra: 17.798, dec: 2.707, magnitude: 3.75, colorIndex: 0.04, constellation: 'oph' },
+  { id: 'lambda-oph', ra: 16.515, dec: 1.984, magnitude: 3.82, colorIndex: 0.02, constellation: 'oph' },
+  { id: '67-oph', ra: 18.011, dec: 2.932, magnitude: 3.93, colorIndex: 0.03, constellation: 'oph' },
+  { id: 'p-oph', ra: 18.091, dec: 2.500, magnitude: 4.03, colorIndex: 0.86, constellation: 'oph' },
+  { id: 'b-oph', ra: 17.440, dec: -24.175, magnitude: 4.16, colorIndex: 0.28, constellation: 'oph' },
+  { id: 'chi-oph', ra: 16.450, dec: -18.456, magnitude: 4.22, colorIndex: 0.22, constellation: 'oph' },
+  { id: 'd-oph', ra: 17.456, dec: -29.867, magnitude: 4.28, colorIndex: 0.40, constellation: 'oph' },
+  { id: 'phi-oph', ra: 16.519, dec: -16.613, magnitude: 4.29, colorIndex: 0.92, constellation: 'oph' },
+  { id: 'A-oph', ra: 17.256, dec: -26.603, magnitude: 4.33, colorIndex: 0.85, constellation: 'oph' },
+  { id: 'sigma-oph', ra: 17.442, dec: 4.140, magnitude: 4.34, colorIndex: 1.48, constellation: 'oph' },
+  { id: 'iota-oph', ra: 16.900, dec: 10.165, magnitude: 4.39, colorIndex: -0.09, constellation: 'oph' },
+  { id: 'xi-oph', ra: 17.350, dec: -21.113, magnitude: 4.39, colorIndex: 0.39, constellation: 'oph' },
+  { id: '68-oph', ra: 18.029, dec: 1.305, magnitude: 4.42, colorIndex: 0.05, constellation: 'oph' },
+  { id: 'omega-oph', ra: 16.536, dec: -21.466, magnitude: 4.45, colorIndex: 0.13, constellation: 'oph' },
+  { id: 'psi-oph', ra: 16.402, dec: -20.037, magnitude: 4.48, colorIndex: 1.00, constellation: 'oph' },
+  { id: '47-oph', ra: 17.444, dec: -5.087, magnitude: 4.53, colorIndex: 0.39, constellation: 'oph' },
+  { id: 'rho-oph', ra: 16.426, dec: -23.447, magnitude: 4.57, colorIndex: 0.23, constellation: 'oph' },
+  { id: 'mu-oph', ra: 17.631, dec: -8.119, magnitude: 4.58, colorIndex: 0.13, constellation: 'oph' },
+  { id: 'upsilon-oph', ra: 16.463, dec: -8.372, magnitude: 4.62, colorIndex: 0.18, constellation: 'oph' },
+  { id: '20-oph', ra: 16.831, dec: -10.783, magnitude: 4.64, colorIndex: 0.48, constellation: 'oph' },
+  { id: '71-oph', ra: 18.122, dec: 8.734, magnitude: 4.64, colorIndex: 0.95, constellation: 'oph' },
+  { id: '41-oph', ra: 17.277, dec: -0.445, magnitude: 4.72, colorIndex: 1.12, constellation: 'oph' },
+  { id: 'tau-oph', ra: 18.051, dec: -8.180, magnitude: 4.77, colorIndex: 0.41, constellation: 'oph' },
+  { id: 'c-oph', ra: 17.524, dec: -23.963, magnitude: 4.78, colorIndex: 0.02, constellation: 'oph' },
+  { id: '66-oph', ra: 18.004, dec: 4.369, magnitude: 4.79, colorIndex: -0.10, constellation: 'oph' },
+  { id: '30-oph', ra: 17.018, dec: -4.223, magnitude: 4.82, colorIndex: 1.48, constellation: 'oph' },
+  { id: '74-oph', ra: 18.348, dec: 3.377, magnitude: 4.85, colorIndex: 0.91, constellation: 'oph' },
+  { id: '58-oph', ra: 17.724, dec: -21.683, magnitude: 4.86, colorIndex: 0.47, constellation: 'oph' },
+  { id: '32-oph', ra: 17.052, dec: 14.092, magnitude: 4.97, colorIndex: 1.60, constellation: 'oph' },
+
+  // Orion
+  { id: 'beta-ori', name: 'Rigel', ra: 5.242, dec: -8.202, magnitude: 0.18, colorIndex: -0.03, constellation: 'ori' },
+  { id: 'alpha-ori', name: 'Betelgeuse', ra: 5.920, dec: 7.407, magnitude: 0.45, colorIndex: 1.50, constellation: 'ori' },
+  { id: 'gamma-ori', name: 'Bellatrix', ra: 5.419, dec: 6.350, magnitude: 1.64, colorIndex: -0.22, constellation: 'ori' },
+  { id: 'epsilon-ori', name: 'Alnilam', ra: 5.604, dec: -1.202, magnitude: 1.69, colorIndex: -0.18, constellation: 'ori' },
+  { id: 'zeta-ori', name: 'Alnitak', ra: 5.679, dec: -1.943, magnitude: 1.74, colorIndex: -0.20, constellation: 'ori' },
+  { id: 'kappa-ori', name: 'Saiph', ra: 5.796, dec: -9.670, magnitude: 2.07, colorIndex: -0.17, constellation: 'ori' },
+  { id: 'delta-ori', name: 'Mintaka', ra: 5.533, dec: -0.299, magnitude: 2.25, colorIndex: -0.17, constellation: 'ori' },
+  { id: 'iota-ori', name: 'Hatysa', ra: 5.591, dec: -5.910, magnitude: 2.75, colorIndex: -0.21, constellation: 'ori' },
+  { id: 'pi3-ori', name: 'Tabit', ra: 4.831, dec: 6.961, magnitude: 3.19, colorIndex: 0.48, constellation: 'ori' },
+  { id: 'eta-ori', ra: 5.408, dec: -2.397, magnitude: 3.35, colorIndex: -0.24, constellation: 'ori' },
+  { id: 'lambda-ori', name: 'Meissa', ra: 5.586, dec: 9.934, magnitude: 3.39, colorIndex: -0.16, constellation: 'ori' },
+  { id: 'tau-ori', ra: 5.293, dec: -6.844, magnitude: 3.59, colorIndex: -0.12, constellation: 'ori' },
+  { id: 'pi4-ori', ra: 4.853, dec: 5.605, magnitude: 3.68, colorIndex: -0.16, constellation: 'ori' },
+  { id: 'pi5-ori', ra: 4.904, dec: 2.441, magnitude: 3.71, colorIndex: -0.18, constellation: 'ori' },
+  { id: 'sigma-ori', ra: 5.646, dec: -2.600, magnitude: 3.77, colorIndex: -0.19, constellation: 'ori' },
+  { id: 'omicron2-ori', ra: 4.940, dec: 13.514, magnitude: 4.06, colorIndex: 1.16, constellation: 'ori' },
+  { id: 'phi2-ori', ra: 5.615, dec: 9.291, magnitude: 4.09, colorIndex: 0.95, constellation: 'ori' },
+  { id: 'mu-ori', ra: 6.040, dec: 9.647, magnitude: 4.12, colorIndex: 0.17, constellation: 'ori' },
+  { id: 'e-ori', ra: 5.399, dec: -7.808, magnitude: 4.13, colorIndex: 0.94, constellation: 'ori' },
+  { id: '32-ori', ra: 5.513, dec: 5.948, magnitude: 4.20, colorIndex: -0.14, constellation: 'ori' },
+  { id: 'pi2-ori', ra: 4.844, dec: 8.900, magnitude: 4.35, colorIndex: 0.01, constellation: 'ori' },
+  { id: 'phi1-ori', ra: 5.580, dec: 9.490, magnitude: 4.39, colorIndex: -0.16, constellation: 'ori' },
+  { id: 'chi1-ori', ra: 5.906, dec: 20.276, magnitude: 4.39, colorIndex: 0.59, constellation: 'ori' },
+  { id: 'nu-ori', ra: 6.126, dec: 14.768, magnitude: 4.42, colorIndex: -0.16, constellation: 'ori' },
+  { id: 'xi-ori', ra: 6.199, dec: 14.209, magnitude: 4.45, colorIndex: -0.18, constellation: 'ori' },
+  { id: 'rho-ori', ra: 5.222, dec: 2.861, magnitude: 4.46, colorIndex: 1.17, constellation: 'ori' },
+  { id: 'pi6-ori', ra: 4.976, dec: 1.714, magnitude: 4.47, colorIndex: 1.37, constellation: 'ori' },
+  { id: 'omega-ori', ra: 5.653, dec: 4.122, magnitude: 4.50, colorIndex: -0.10, constellation: 'ori' },
+  { id: 'hip28413-ori', ra: 6.001, dec: -3.074, magnitude: 4.53, colorIndex: 1.20, constellation: 'ori' },
+  { id: 'c-ori', ra: 5.590, dec: -4.838, magnitude: 4.58, colorIndex: -0.18, constellation: 'ori' },
+  { id: 'psi-ori', ra: 5.447, dec: 3.096, magnitude: 4.59, colorIndex: -0.20, constellation: 'ori' },
+  { id: 'upsilon-ori', ra: 5.532, dec: -7.301, magnitude: 4.62, colorIndex: -0.26, constellation: 'ori' },
+  { id: 'pi1-ori', ra: 4.915, dec: 10.151, magnitude: 4.64, colorIndex: 0.09, constellation: 'ori' },
+  { id: 'chi2-ori', ra: 6.065, dec: 20.139, magnitude: 4.64, colorIndex: 0.24, constellation: 'ori' },
+  { id: '11-ori', ra: 5.076, dec: 15.404, magnitude: 4.65, colorIndex: -0.06, constellation: 'ori' },
+  { id: 'omicron1-ori', ra: 4.876, dec: 14.251, magnitude: 4.71, colorIndex: 1.77, constellation: 'ori' },
+  { id: '31-ori', ra: 5.496, dec: -1.092, magnitude: 4.71, colorIndex: 1.59, constellation: 'ori' },
+  { id: 'o-ori', ra: 5.363, dec: -0.383, magnitude: 4.72, colorIndex: -0.17, constellation: 'ori' },
+  { id: '56-ori', ra: 5.874, dec: 1.855, magnitude: 4.76, colorIndex: 1.38, constellation: 'ori' },
+  { id: 'd-ori', ra: 5.648, dec: -7.213, magnitude: 4.77, colorIndex: 0.14, constellation: 'ori' },
+  { id: 'hip26199-ori', ra: 5.584, dec: -6.002, magnitude: 4.78, colorIndex: -0.25, constellation: 'ori' },
+  { id: '15-ori', ra: 5.162, dec: 15.597, magnitude: 4.81, colorIndex: 0.31, constellation: 'ori' },
+  { id: '25-ori', ra: 5.412, dec: 1.846, magnitude: 4.89, colorIndex: -0.20, constellation: 'ori' },
+  { id: 'b-ori', ra: 5.708, dec: 1.475, magnitude: 4.90, colorIndex: 1.14, constellation: 'ori' },
+  { id: 'hip30093-ori', ra: 6.333, dec: -2.945, magnitude: 4.91, colorIndex: 1.61, constellation: 'ori' },
+  { id: 'hip26736-ori', ra: 5.681, dec: -1.129, magnitude: 4.95, colorIndex: -0.20, constellation: 'ori' },
+  { id: 'f1-ori', ra: 6.201, dec: 16.130, magnitude: 4.95, colorIndex: -0.15, constellation: 'ori' },
+  { id: 'theta1-ori', ra: 5.588, dec: -5.387, magnitude: 4.98, colorIndex: 0.00, constellation: 'ori' },
+  { id: 'theta2-ori', ra: 5.590, dec: -5.416, magnitude: 4.98, colorIndex: -0.10, constellation: 'ori' },
+  { id: 'm-ori', ra: 5.381, dec: 3.545, magnitude: 4.99, colorIndex: -0.10, constellation: 'ori' },
+
+  // Pavo
+  { id: 'alpha-pav', name: 'Peacock', ra: 20.427, dec: -56.735, magnitude: 1.94, colorIndex: -0.12, constellation: 'pav' },
+  { id: 'beta-pav', ra: 20.749, dec: -66.203, magnitude: 3.42, colorIndex: 0.16, constellation: 'pav' },
+  { id: 'delta-pav', ra: 20.145, dec: -66.182, magnitude: 3.55, colorIndex: 0.75, constellation: 'pav' },
+  { id: 'eta-pav', ra: 17.762, dec: -64.724, magnitude: 3.61, colorIndex: 1.16, constellation: 'pav' },
+  { id: 'epsilon-pav', ra: 20.010, dec: -72.910, magnitude: 3.97, colorIndex: -0.03, constellation: 'pav' },
+  { id: 'zeta-pav', ra: 18.717, dec: -71.428, magnitude: 4.01, colorIndex: 1.13, constellation: 'pav' },
+  { id: 'gamma-pav', ra: 21.441, dec: -65.366, magnitude: 4.21, colorIndex: 0.49, constellation: 'pav' },
+  { id: 'lambda-pav', ra: 18.870, dec: -62.188, magnitude: 4.22, colorIndex: -0.15, constellation: 'pav' },
+  { id: 'pi-pav', ra: 18.143, dec: -63.669, magnitude: 4.33, colorIndex: 0.23, constellation: 'pav' },
+  { id: 'xi-pav', ra: 18.387, dec: -61.494, magnitude: 4.35, colorIndex: 1.46, constellation: 'pav' },
+  { id: 'kappa-pav', ra: 18.949, dec: -67.234, magnitude: 4.40, colorIndex: 0.53, constellation: 'pav' },
+  { id: 'nu-pav', ra: 18.523, dec: -62.278, magnitude: 4.63, colorIndex: -0.12, constellation: 'pav' },
+  { id: 'phi1-pav', ra: 20.593, dec: -60.582, magnitude: 4.75, colorIndex: 0.29, constellation: 'pav' },
+  { id: 'rho-pav', ra: 20.626, dec: -61.530, magnitude: 4.86, colorIndex: 0.45, constellation: 'pav' },
+  { id: 'hip98608-pav', ra: 20.029, dec: -59.376, magnitude: 4.95, colorIndex: 1.36, constellation: 'pav' },
+
+  // Pegasus
+  { id: 'epsilon-peg', name: 'Enif', ra: 21.736, dec: 9.875, magnitude: 2.38, colorIndex: 1.52, constellation: 'peg' },
+  { id: 'beta-peg', name: 'Scheat', ra: 23.063, dec: 28.083, magnitude: 2.44, colorIndex: 1.66, constellation: 'peg' },
+  { id: 'alpha-peg', name: 'Markab', ra: 23.079, dec: 15.205, magnitude: 2.49, colorIndex: 0.00, constellation: 'peg' },
+  { id: 'gamma-peg', name: 'Algenib', ra: 0.221, dec: 15.184, magnitude: 2.83, colorIndex: -0.19, constellation: 'peg' },
+  { id: 'eta-peg', name: 'Matar', ra: 22.717, dec: 30.221, magnitude: 2.93, colorIndex: 0.85, constellation: 'peg' },
+  { id: 'zeta-peg', name: 'Homam', ra: 22.691, dec: 10.831, magnitude: 3.41, colorIndex: -0.09, constellation: 'peg' },
+  { id: 'mu-peg', ra: 22.833, dec: 24.602, magnitude: 3.51, colorIndex: 0.93, constellation: 'peg' },
+  { id: 'theta-peg', name: 'Biham', ra: 22.170, dec: 6.198, magnitude: 3.52, colorIndex: 0.09, constellation: 'peg' },
+  { id: 'iota-peg', ra: 22.117, dec: 25.345, magnitude: 3.77, colorIndex: 0.43, constellation: 'peg' },
+  { id: 'lambda-peg', ra: 22.776, dec: 23.566, magnitude: 3.97, colorIndex: 1.07, constellation: 'peg' },
+  { id: '1-peg', ra: 21.368, dec: 19.805, magnitude: 4.08, colorIndex: 1.11, constellation: 'peg' },
+  { id: 'kappa-peg', ra: 21.744, dec: 25.645, magnitude: 4.14, colorIndex: 0.42, constellation: 'peg' },
+  { id: 'xi-peg', ra: 22.778, dec: 12.173, magnitude: 4.20, colorIndex: 0.50, constellation: 'peg' },
+  { id: 'pi-peg', ra: 22.166, dec: 33.178, magnitude: 4.28, colorIndex: 0.47, constellation: 'peg' },
+  { id: '9-peg', ra: 21.742, dec: 17.350, magnitude: 4.34, colorIndex: 1.16, constellation: 'peg' },
+  { id: 'upsilon-peg', ra: 23.423, dec: 23.404, magnitude: 4.42, colorIndex: 0.62, constellation: 'peg' },
+  { id: '2-peg', ra: 21.499, dec: 23.639, magnitude: 4.52, colorIndex: 1.62, constellation: 'peg' },
+  { id: '55-peg', ra: 23.117, dec: 9.409, magnitude: 4.54, colorIndex: 1.56, constellation: 'peg' },
+  { id: '70-peg', ra: 23.486, dec: 12.761, magnitude: 4.54, colorIndex: 0.94, constellation: 'peg' },
+  { id: 'tau-peg', ra: 23.344, dec: 23.740, magnitude: 4.58, colorIndex: 0.18, constellation: 'peg' },
+  { id: 'psi-peg', ra: 23.963, dec: 25.141, magnitude: 4.63, colorIndex: 1.58, constellation: 'peg' },
+  { id: '56-peg', ra: 23.119, dec: 25.468, magnitude: 4.76, colorIndex: 1.28, constellation: 'peg' },
+  { id: '32-peg', ra: 22.355, dec: 28.331, magnitude: 4.78, colorIndex: -0.01, constellation: 'peg' },
+  { id: '35-peg', ra: 22.464, dec: 4.696, magnitude: 4.78, colorIndex: 1.04, constellation: 'peg' },
+  { id: 'chi-peg', ra: 0.243, dec: 20.207, magnitude: 4.79, colorIndex: 1.57, constellation: 'peg' },
+  { id: 'omicron-peg', ra: 22.696, dec: 29.308, magnitude: 4.80, colorIndex: -0.01, constellation: 'peg' },
+  { id: '31-peg', ra: 22.359, dec: 12.205, magnitude: 4.82, colorIndex: -0.13, constellation: 'peg' },
+  { id: 'nu-peg', ra: 22.095, dec: 5.059, magnitude: 4.86, colorIndex: 1.44, constellation: 'peg' },
+  { id: 'rho-peg', ra: 22.920, dec: 8.816, magnitude: 4.91, colorIndex: 0.00, constellation: 'peg' },
+  { id: '78-peg', ra: 23.733, dec: 29.361, magnitude: 4.93, colorIndex: 0.94, constellation: 'peg' },
+  { id: '72-peg', ra: 23.566, dec: 31.325, magnitude: 4.97, colorIndex: 1.38, constellation: 'peg' },
+
+  // Perseus
+  { id: 'alpha-per', name: 'Mirfak', ra: 3.405, dec: 49.861, magnitude: 1.79, colorIndex: 0.48, constellation: 'per' },
+  { id: 'beta-per', name: 'Algol', ra: 3.136, dec: 40.956, magnitude: 2.09, colorIndex: 0.00, constellation: 'per' },
+  { id: 'zeta-per', ra: 3.902, dec: 31.884, magnitude: 2.84, colorIndex: 0.27, constellation: 'per' },
+  { id: 'epsilon-per', ra: 3.964, dec: 40.010, magnitude: 2.90, colorIndex: -0.20, constellation: 'per' },
+  { id: 'gamma-per', ra: 3.080, dec: 53.506, magnitude: 2.91, colorIndex: 0.72, constellation: 'per' },
+  { id: 'delta-per', ra: 3.715, dec: 47.788, magnitude: 3.01, colorIndex: -0.12, constellation: 'per' },
+  { id: 'rho-per', name: 'Gorgonea Tertia', ra: 3.086, dec: 38.840, magnitude: 3.32, colorIndex: 1.53, constellation: 'per' },
+  { id: 'eta-per', name: 'Miram', ra: 2.845, dec: 55.895, magnitude: 3.77, colorIndex: 1.69, constellation: 'per' },
+  { id: 'nu-per', ra: 3.753, dec: 42.578, magnitude: 3.77, colorIndex: 0.42, constellation: 'per' },
+  { id: 'kappa-per', ra: 3.158, dec: 44.858, magnitude: 3.79, colorIndex: 0.98, constellation: 'per' },
+  { id: 'omicron-per', name: 'Atik', ra: 3.739, dec: 32.288, magnitude: 3.84, colorIndex: 0.02, constellation: 'per' },
+  { id: 'tau-per', ra: 2.904, dec: 52.763, magnitude: 3.93, colorIndex: 0.76, constellation: 'per' },
+  { id: 'c-per', ra: 4.144, dec: 47.712, magnitude: 3.96, colorIndex: -0.03, constellation: 'per' },
+  { id: 'xi-per', name: 'Menkib', ra: 3.983, dec: 35.791, magnitude: 3.98, colorIndex: 0.02, constellation: 'per' },
+  { id: 'phi-per', ra: 1.728, dec: 50.689, magnitude: 4.01, colorIndex: -0.10, constellation: 'per' },
+  { id: 'iota-per', ra: 3.151, dec: 49.613, magnitude: 4.05, colorIndex: 0.59, constellation: 'per' },
+  { id: 'theta-per', ra: 2.737, dec: 49.228, magnitude: 4.10, colorIndex: 0.51, constellation: 'per' },
+  { id: 'mu-per', ra: 4.248, dec: 48.409, magnitude: 4.12, colorIndex: 0.94, constellation: 'per' },
+  { id: '16-per', ra: 2.843, dec: 38.319, magnitude: 4.22, colorIndex: 0.34, constellation: 'per' },
+  { id: 'lambda-per', ra: 4.110, dec: 50.351, magnitude: 4.25, colorIndex: -0.01, constellation: 'per' },
+  { id: 'e-per', ra: 4.612, dec: 41.265, magnitude: 4.25, colorIndex: 1.17, constellation: 'per' },
+  { id: 'psi-per', ra: 3.608, dec: 48.193, magnitude: 4.32, colorIndex: -0.06, constellation: 'per' },
+  { id: 'sigma-per', ra: 3.510, dec: 47.995, magnitude: 4.36, colorIndex: 1.37, constellation: 'per' },
+  { id: '17-per', ra: 2.859, dec: 35.060, magnitude: 4.56, colorIndex: 1.55, constellation: 'per' },
+  { id: 'b-per', ra: 4.304, dec: 50.295, magnitude: 4.60, colorIndex: 0.04, constellation: 'per' },
+  { id: 'omega-per', ra: 3.188, dec: 39.612, magnitude: 4.61, colorIndex: 1.11, constellation: 'per' },
+  { id: '34-per', ra: 3.489, dec: 49.509, magnitude: 4.67, colorIndex: -0.10, constellation: 'per' },
+  { id: 'f-per', ra: 4.248, dec: 40.484, magnitude: 4.67, colorIndex: 1.01, constellation: 'per' },
+  { id: 'pi-per', ra: 2.979, dec: 39.663, magnitude: 4.68, colorIndex: 0.07, constellation: 'per' },
+  { id: 'k-per', ra: 3.092, dec: 56.706, magnitude: 4.77, colorIndex: 1.02, constellation: 'per' },
+  { id: 'd-per', ra: 4.359, dec: 46.499, magnitude: 4.80, colorIndex: -0.02, constellation: 'per' },
+  { id: 'hip15416-per', ra: 3.312, dec: 34.223, magnitude: 4.85, colorIndex: 1.49, constellation: 'per' },
+  { id: '12-per', ra: 2.704, dec: 40.194, magnitude: 4.91, colorIndex: 0.58, constellation: 'per' },
+  { id: '54-per', ra: 4.340, dec: 34.567, magnitude: 4.93, colorIndex: 0.95, constellation: 'per' },
+  { id: '24-per', ra: 2.984, dec: 35.183, magnitude: 4.94, colorIndex: 1.24, constellation: 'per' },
+  { id: 'l-per', ra: 3.357, dec: 43.330, magnitude: 4.96, colorIndex: 0.05, constellation: 'per' },
+  { id: 'o-per', ra: 3.706, dec: 33.965, magnitude: 4.97, colorIndex: -0.05, constellation: 'per' },
+  { id: 'g-per', ra: 2.038, dec: 54.487, magnitude: 4.99, colorIndex: -0.07, constellation: 'per' },
+  { id: 'hip16147-per', ra: 3.468, dec: 49.063, magnitude: 4.99, colorIndex: -0.09, constellation: 'per' },
+  { id: 'hip13949-per', ra: 2.994, dec: 41.033, magnitude: 5.89, colorIndex: 1.45, constellation: 'per' },
+
+  // Phoenix
+  { id: 'alpha-phe', ra: 0.438, dec: -42.306, magnitude: 2.40, colorIndex: 1.08, constellation: 'phe' },
+  { id: 'beta-phe', ra: 1.101, dec: -46.718, magnitude: 3.32, colorIndex: 0.89, constellation: 'phe' },
+  { id: 'gamma-phe', ra: 1.473, dec: -43.318, magnitude: 3.41, colorIndex: 1.54, constellation: 'phe' },
+  { id: 'epsilon-phe', ra: 0.157, dec: -45.747, magnitude: 3.88, colorIndex: 1.01, constellation: 'phe' },
+  { id: 'kappa-phe', ra: 0.437, dec: -43.680, magnitude: 3.93, colorIndex: 0.17, constellation: 'phe' },
+  { id: 'delta-phe', ra: 1.521, dec: -49.073, magnitude: 3.93, colorIndex: 0.97, constellation: 'phe' },
+  { id: 'zeta-phe', ra: 1.140, dec: -55.246, magnitude: 3.94, colorIndex: -0.12, constellation: 'phe' },
+  { id: 'eta-phe', ra: 0.723, dec: -57.463, magnitude: 4.36, colorIndex: 0.02, constellation: 'phe' },
+  { id: 'psi-phe', ra: 1.894, dec: -46.303, magnitude: 4.39, colorIndex: 1.60, constellation: 'phe' },
+  { id: 'mu-phe', ra: 0.689, dec: -46.085, magnitude: 4.59, colorIndex: 0.95, constellation: 'phe' },
+  { id: 'iota-phe', ra: 23.585, dec: -42.615, magnitude: 4.69, colorIndex: 0.08, constellation: 'phe' },
+  { id: 'lambda1-phe', ra: 0.524, dec: -48.803, magnitude: 4.76, colorIndex: 0.02, constellation: 'phe' },
+  { id: 'nu-phe', ra: 1.253, dec: -45.532, magnitude: 4.97, colorIndex: 0.57, constellation: 'phe' },
+
+  // Pictor
+  { id: 'alpha-pic', ra: 6.803, dec: -61.941, magnitude: 3.24, colorIndex: 0.23, constellation: 'pic' },
+  { id: 'beta-pic', ra: 5.788, dec: -51.066, magnitude: 3.85, colorIndex: 0.17, constellation: 'pic' },
+  { id: 'gamma-pic', ra: 5.830, dec: -56.167, magnitude: 4.50, colorIndex: 1.07, constellation: 'pic' },
+  { id: 'delta-pic', ra: 6.172, dec: -54.969, magnitude: 4.72, colorIndex: -0.23, constellation: 'pic' },
+
+  // Pisces
+  { id: 'eta-psc', name: 'Alpherg', ra: 1.525, dec: 15.346, magnitude: 3.62, colorIndex: 0.97, constellation: 'psc' },
+  { id: 'gamma-psc', ra: 23.286, dec: 3.282, magnitude: 3.70, colorIndex: 0.92, constellation: 'psc' },
+  { id: 'alpha-psc', name: 'Alrescha', ra: 2.034, dec: 2.764, magnitude: 3.82, colorIndex: 0.02, constellation: 'psc' },
+  { id: 'omega-psc', ra: 23.989, dec: 6.863, magnitude: 4.03, colorIndex: 0.42, constellation: 'psc' },
+  { id: 'iota-psc', ra: 23.666, dec: 5.626, magnitude: 4.13, colorIndex: 0.51, constellation: 'psc' },
+  { id: 'omicron-psc', name: 'Torcular', ra: 1.757, dec: 9.158, magnitude: 4.26, colorIndex: 0.94, constellation: 'psc' },
+  { id: 'epsilon-psc', ra: 1.049, dec: 7.890, magnitude: 4.27, colorIndex: 0.95, constellation: 'psc' },
+  { id: 'theta-psc', ra: 23.466, dec: 6.379, magnitude: 4.27, colorIndex: 1.06, constellation: 'psc' },
+  { id: '30-psc', ra: 0.033, dec: -6.014, magnitude: 4.37, colorIndex: 1.63, constellation: 'psc' },
+  { id: 'delta-psc', ra: 0.811, dec: 7.585, magnitude: 4.44, colorIndex: 1.50, constellation: 'psc' },
+  { id: 'nu-psc', ra: 1.691, dec: 5.488, magnitude: 4.45, colorIndex: 1.35, constellation: 'psc' },
+  { id: 'beta-psc', ra: 23.065, dec: 3.820, magnitude: 4.48, colorIndex: -0.12, constellation: 'psc' },
+  { id: 'lambda-psc', ra: 23.701, dec: 1.780, magnitude: 4.49, colorIndex: 0.20, constellation: 'psc' },
+  { id: 'tau-psc', ra: 1.194, dec: 30.090, magnitude: 4.51, colorIndex: 1.09, constellation: 'psc' },
+  { id: '33-psc', ra: 0.089, dec: -5.708, magnitude: 4.61, colorIndex: 1.03, constellation: 'psc' },
+  { id: 'xi-psc', ra: 1.893, dec: 3.188, magnitude: 4.61, colorIndex: 0.93, constellation: 'psc' },
+  { id: 'chi-psc', ra: 1.191, dec: 21.035, magnitude: 4.66, colorIndex: 1.02, constellation: 'psc' },
+  { id: 'phi-psc', ra: 1.229, dec: 24.584, magnitude: 4.67, colorIndex: 1.05, constellation: 'psc' },
+  { id: 'upsilon-psc', ra: 1.324, dec: 27.264, magnitude: 4.74, colorIndex: 0.03, constellation: 'psc' },
+  { id: 'mu-psc', ra: 1.503, dec: 6.144, magnitude: 4.84, colorIndex: 1.37, constellation: 'psc' },
+  { id: '27-psc', ra: 23.978, dec: -3.556, magnitude: 4.88, colorIndex: 0.93, constellation: 'psc' },
+  { id: 'kappa-psc', ra: 23.449, dec: 1.256, magnitude: 4.95, colorIndex: 0.04, constellation: 'psc' },
+  { id: '19-psc', ra: 23.773, dec: 3.487, magnitude: 4.95, colorIndex: 2.51, constellation: 'psc' },
+  { id: 'b-psc', ra: 23.339, dec: 5.381, magnitude: 5.05, colorIndex: 1.20, constellation: 'psc' },
+  { id: 'zeta-psc', ra: 1.229, dec: 7.575, magnitude: 5.21, colorIndex: 0.32, constellation: 'psc' },
+
+  // Piscis Austrinus
+  { id: 'alpha-psa', name: 'Fomalhaut', ra: 22.961, dec: -29.622, magnitude: 1.17, colorIndex: 0.14, constellation: 'psa' },
+  { id: 'epsilon-psa', ra: 22.678, dec: -27.044, magnitude: 4.18, colorIndex: -0.10, constellation: 'psa' },
+  { id: 'delta-psa', ra: 22.932, dec: -32.540, magnitude: 4.20, colorIndex: 0.95, constellation: 'psa' },
+  { id: 'beta-psa', ra: 22.525, dec: -32.346, magnitude: 4.29, colorIndex: 0.01, constellation: 'psa' },
+  { id: 'iota-psa', ra: 21.749, dec: -33.026, magnitude: 4.35, colorIndex: -0.05, constellation: 'psa' },
+  { id: 'gamma-psa', ra: 22.875, dec: -32.876, magnitude: 4.46, colorIndex: -0.04, constellation: 'psa' },
+  { id: 'mu-psa', ra: 22.140, dec: -32.989, magnitude: 4.50, colorIndex: 0.05, constellation: 'psa' },
+  { id: 'tau-psa', ra: 22.169, dec: -32.548, magnitude: 4.94, colorIndex: 0.49, constellation: 'psa' },
+  { id: 'upsilon-psa', ra: 22.141, dec: -34.044, magnitude: 4.99, colorIndex: 1.50, constellation: 'psa' },
+  { id: 'theta-psa', ra: 21.796, dec: -30.898, magnitude: 5.02, colorIndex: 0.04, constellation: 'psa' },
+
+  // Puppis
+  { id: 'zeta-pup', name: 'Naos', ra: 8.060, dec: -40.003, magnitude: 2.21, colorIndex: -0.27, constellation: 'pup' },
+  { id: 'pi-pup', ra: 7.286, dec: -37.097, magnitude: 2.71, colorIndex: 1.62, constellation: 'pup' },
+  { id: 'rho-pup', ra: 8.126, dec: -24.304, magnitude: 2.83, colorIndex: 0.46, constellation: 'pup' },
+  { id: 'tau-pup', ra: 6.832, dec: -50.615, magnitude: 2.94, colorIndex: 1.21, constellation: 'pup' },
+  { id: 'nu-pup', ra: 6.629, dec: -43.196, magnitude: 3.17, colorIndex: -0.10, constellation: 'pup' },
+  { id: 'sigma-pup', ra: 7.487, dec: -43.301, magnitude: 3.25, colorIndex: 1.51, constellation: 'pup' },
+  { id: 'xi-pup', ra: 7.822, dec: -24.860, magnitude: 3.34, colorIndex: 1.22, constellation: 'pup' },
+  { id: 'c-pup', ra: 7.754, dec: -37.969, magnitude: 3.62, colorIndex: 1.71, constellation: 'pup' },
+  { id: 'a-pup', ra: 7.870, dec: -40.576, magnitude: 3.71, colorIndex: 1.01, constellation: 'pup' },
+  { id: 'kappa1-pup', ra: 7.647, dec: -26.804, magnitude: 3.80, colorIndex: -0.16, constellation: 'pup' },
+  { id: 'l-pup', ra: 7.730, dec: -28.955, magnitude: 3.94, colorIndex: 0.16, constellation: 'pup' },
+  { id: 'P-pup', ra: 7.821, dec: -46.373, magnitude: 4.10, colorIndex: -0.16, constellation: 'pup' },
+  { id: 'j-pup', ra: 7.948, dec: -22.880, magnitude: 4.20, colorIndex: 0.72, constellation: 'pup' },
+  { id: 'J-pup', ra: 7.888, dec: -48.103, magnitude: 4.22, colorIndex: -0.13, constellation: 'pup' },
+  { id: 'omicron-pup', ra: 7.801, dec: -25.937, magnitude: 4.40, colorIndex: -0.07, constellation: 'pup' },
+  { id: '16-pup', ra: 8.150, dec: -19.245, magnitude: 4.40, colorIndex: -0.16, constellation: 'pup' },
+  { id: 'L2-pup', ra: 7.226, dec: -44.640, magnitude: 4.42, colorIndex: 1.33, constellation: 'pup' },
+  { id: 'h2-pup', ra: 8.234, dec: -40.348, magnitude: 4.42, colorIndex: 1.17, constellation: 'pup' },
+  { id: 'h1-pup', ra: 8.189, dec: -39.618, magnitude: 4.44, colorIndex: 1.59, constellation: 'pup' },
+  { id: 'q-pup', ra: 8.309, dec: -36.659, magnitude: 4.44, colorIndex: 0.22, constellation: 'pup' },
+  { id: 'hip38957-pup', ra: 7.971, dec: -49.245, magnitude: 4.47, colorIndex: -0.18, constellation: 'pup' },
+  { id: 'I-pup', ra: 7.209, dec: -46.759, magnitude: 4.49, colorIndex: 0.32, constellation: 'pup' },
+  { id: 'b-pup', ra: 7.877, dec: -38.863, magnitude: 4.49, colorIndex: -0.19, constellation: 'pup' },
+  { id: 'f-pup', ra: 7.623, dec: -34.968, magnitude: 4.53, colorIndex: -0.08, constellation: 'pup' },
+  { id: '1-pup', ra: 7.726, dec: -28.411, magnitude: 4.63, colorIndex: 1.63, constellation: 'pup' },
+  { id: 'v1-pup', ra: 7.305, dec: -36.734, magnitude: 4.65, colorIndex: -0.10, constellation: 'pup' },
+  { id: 'p-pup', ra: 7.590, dec: -28.369, magnitude: 4.65, colorIndex: -0.11, constellation: 'pup' },
+  { id: 'm-pup', ra: 7.638, dec: -25.365, magnitude: 4.69, colorIndex: -0.10, constellation: 'pup' },
+  { id: 'Q-pup', ra: 7.806, dec: -47.078, magnitude: 4.69, colorIndex: 1.04, constellation: 'pup' },
+  { id: '19-pup', ra: 8.188, dec: -12.927, magnitude: 4.72, colorIndex: 0.94, constellation: 'pup' },
+  { id: 'chi-pup', ra: 7.961, dec: -30.335, magnitude: 4.76, colorIndex: 0.15, constellation: 'pup' },
+  { id: 'r-pup', ra: 8.225, dec: -35.900, magnitude: 4.78, colorIndex: -0.11, constellation: 'pup' },
+  { id: 'hip36773-pup', ra: 7.563, dec: -14.524, magnitude: 4.82, colorIndex: 1.36, constellation: 'pup' },
+  { id: 'A-pup', ra: 7.148, dec: -39.656, magnitude: 4.83, colorIndex: -0.18, constellation: 'pup' },
+  { id: 'w-pup', ra: 8.356, dec: -33.054, magnitude: 4.83, colorIndex: 1.42, constellation: 'pup' },
+  { id: 'd1-pup', ra: 7.658, dec: -38.308, magnitude: 4.84, colorIndex: -0.19, constellation: 'pup' },
+  { id: 'L1-pup', ra: 7.220, dec: -45.183, magnitude: 4.87, colorIndex: 0.00, constellation: 'pup' },
+  { id: 'H-pup', ra: 7.065, dec: -49.584, magnitude: 4.92, colorIndex: 0.14, constellation: 'pup' },
+  { id: '140-pup', ra: 7.673, dec: -15.264, magnitude: 4.98, colorIndex: 1.54, constellation: 'pup' },
+  { id: '20-pup', ra: 8.222, dec: -15.788, magnitude: 4.99, colorIndex: 1.07, constellation: 'pup' },
+
+  // Pyxis
+  { id: 'alpha-pyx', ra: 8.727, dec: -33.186, magnitude: 3.68, colorIndex: -0.18, constellation: 'pyx' },
+  { id: 'beta-pyx', ra: 8.668, dec: -35.308, magnitude: 3.97, colorIndex: 0.94, constellation: 'pyx' },
+  { id: 'gamma-pyx', ra: 8.842, dec: -27.710, magnitude: 4.02, colorIndex: 1.27, constellation: 'pyx' },
+  { id: 'kappa-pyx', ra: 9.134, dec: -25.858, magnitude: 4.62, colorIndex: 1.59, constellation: 'pyx' },
+  { id: 'theta-pyx', ra: 9.358, dec: -25.965, magnitude: 4.71, colorIndex: 1.63, constellation: 'pyx' },
+  { id: 'lambda-pyx', ra: 9.387, dec: -28.834, magnitude: 4.71, colorIndex: 0.89, constellation: 'pyx' },
+  { id: 'zeta-pyx', ra: 8.662, dec: -29.561, magnitude: 4.86, colorIndex: 0.90, constellation: 'pyx' },
+  { id: 'delta-pyx', ra: 8.925, dec: -27.682, magnitude: 4.87, colorIndex: 0.14, constellation: 'pyx' },
+
+  // Reticulum
+  { id: 'alpha-ret', ra: 4.240, dec: -62.474, magnitude: 3.33, colorIndex: 0.92, constellation: 'ret' },
+  { id: 'beta-ret', ra: 3.737, dec: -64.807, magnitude: 3.84, colorIndex: 1.13, constellation: 'ret' },
+  { id: 'epsilon-ret', ra: 4.275, dec: -59.302, magnitude: 4.44, colorIndex: 1.08, constellation: 'ret' },
+  { id: 'gamma-ret', ra: 4.015, dec: -62.159, magnitude: 4.48, colorIndex: 1.50, constellation: 'ret' },
+  { id: 'delta-ret', ra: 3.979, dec: -61.400, magnitude: 4.56, colorIndex: 1.59, constellation: 'ret' },
+  { id: 'kappa-ret', ra: 3.490, dec: -62.938, magnitude: 4.71, colorIndex: 0.41, constellation: 'ret' },
+  { id: 'iota-ret', ra: 4.022, dec: -61.079, magnitude: 4.97, colorIndex: 1.39, constellation: 'ret' },
+
+  // Sagitta
+  { id: 'gamma-sge', ra: 19.979, dec: 19.492, magnitude: 3.51, colorIndex: 1.57, constellation: 'sge' },
+  { id: 'delta-sge', ra: 19.790, dec: 18.534, magnitude: 3.68, colorIndex: 1.31, constellation: 'sge' },
+  { id: 'alpha-sge', ra: 19.668, dec: 18.014, magnitude: 4.39, colorIndex: 0.78, constellation: 'sge' },
+  { id: 'beta-sge', ra: 19.684, dec: 17.476, magnitude: 4.39, colorIndex: 1.04, constellation: 'sge' },
+
+  // Sagittarius
+  { id: 'epsilon-sgr', name: 'Kaus Australis', ra: 18.403, dec: -34.385, magnitude: 1.79, colorIndex: -0.03, constellation: 'sgr' },
+  { id: 'sigma-sgr', name: 'Nunki', ra: 18.921, dec: -26.297, magnitude: 2.05, colorIndex: -0.13, constellation: 'sgr' },
+  { id: 'zeta-sgr', name: 'Ascella', ra: 19.044, dec: -29.880, magnitude: 2.60, colorIndex: 0.06, constellation: 'sgr' },
+  { id: 'delta-sgr', name: 'Kaus Media', ra: 18.350, dec: -29.828, magnitude: 2.72, colorIndex: 1.38, constellation: 'sgr' },
+  { id: 'lambda-sgr', name: 'Kaus Borealis', ra: 18.466, dec: -25.422, magnitude: 2.82, colorIndex: 1.02, constellation: 'sgr' },
+  { id: 'pi-sgr', name: 'Albaldah', ra: 19.163, dec: -21.024, magnitude: 2.88, colorIndex: 0.38, constellation: 'sgr' },
+  { id: 'gamma2-sgr', name: 'Alnasl', ra: 18.097, dec: -30.424, magnitude: 2.98, colorIndex: 0.98, constellation: 'sgr' },
+  { id: 'eta-sgr', ra: 18.294, dec: -36.762, magnitude: 3.10, colorIndex: 1.58, constellation: 'sgr' },
+  { id: 'phi-sgr', ra: 18.761, dec: -26.991, magnitude: 3.17, colorIndex: -0.11, constellation: 'sgr' },
+  { id: 'tau-sgr', ra: 19.116, dec: -27.670, magnitude: 3.32, colorIndex: 1.17, constellation: 'sgr' },
+  { id: 'xi2-sgr', ra: 18.962, dec: -21.107, magnitude: 3.52, colorIndex: 1.15, constellation: 'sgr' },
+  { id: 'omicron-sgr', ra: 19.078, dec: -21.741, magnitude: 3.76, colorIndex: 1.01, constellation: 'sgr' },
+  { id: 'mu-sgr', ra: 18.229, dec: -21.059, magnitude: 3.84, colorIndex: 0.20, constellation: 'sgr' },
+  { id: 'rho1-sgr', ra: 19.361, dec: -17.847, magnitude: 3.92, colorIndex: 0.23, constellation: 'sgr' },
+  { id: 'beta1-sgr', ra: 19.377, dec: -44.459, magnitude: 3.96, colorIndex: -0.09, constellation: 'sgr' },
+  { id: 'alpha-sgr', ra: 19.398, dec: -40.616, magnitude: 3.96, colorIndex: -0.10, constellation: 'sgr' },
+  { id: 'iota-sgr', ra: 19.921, dec: -41.868, magnitude: 4.12, colorIndex: 1.06, constellation: 'sgr' },
+  { id: 'beta2-sgr', ra: 19.387, dec: -44.800, magnitude: 4.27, colorIndex: 0.35, constellation: 'sgr' },
+  { id: 'theta1-sgr', ra: 19.996, dec: -35.276, magnitude: 4.37, colorIndex: -0.15, constellation: 'sgr' },
+  { id: 'c-sgr', ra: 20.044, dec: -27.710, magnitude: 4.43, colorIndex: 1.64, constellation: 'sgr' },
+  { id: 'upsilon-sgr', ra: 19.362, dec: -15.955, magnitude: 4.52, colorIndex: 0.08, constellation: 'sgr' },
+  { id: '3-sgr', ra: 17.793, dec: -27.831, magnitude: 4.53, colorIndex: 0.60, constellation: 'sgr' },
+  { id: 'b1-sgr', ra: 19.949, dec: -27.170, magnitude: 4.54, colorIndex: 1.46, constellation: 'sgr' },
+  { id: 'h2-sgr', ra: 19.612, dec: -24.884, magnitude: 4.59, colorIndex: -0.07, constellation: 'sgr' },
+  { id: 'hip88567-sgr', ra: 18.084, dec: -29.580, magnitude: 4.66, colorIndex: 0.77, constellation: 'sgr' },
+  { id: 'omega-sgr', ra: 19.931, dec: -26.299, magnitude: 4.70, colorIndex: 0.75, constellation: 'sgr' },
+  { id: '4-sgr', ra: 17.997, dec: -23.816, magnitude: 4.74, colorIndex: -0.03, constellation: 'sgr' },
+  { id: '21-sgr', ra: 18.423, dec: -20.542, magnitude: 4.81, colorIndex: 1.31, constellation: 'sgr' },
+  { id: 'A-sgr', ra: 19.983, dec: -26.196, magnitude: 4.84, colorIndex: 0.88, constellation: 'sgr' },
+  { id: 'nu1-sgr', ra: 18.903, dec: -22.745, magnitude: 4.86, colorIndex: 1.41, constellation: 'sgr' },
+  { id: 'psi-sgr', ra: 19.259, dec: -25.257, magnitude: 4.86, colorIndex: 0.57, constellation: 'sgr' },
+  { id: 'f-sgr', ra: 19.773, dec: -19.761, magnitude: 4.87, colorIndex: 1.06, constellation: 'sgr' },
+  { id: 'd-sgr', ra: 19.294, dec: -18.953, magnitude: 4.88, colorIndex: 1.01, constellation: 'sgr' },
+  { id: '11-sgr', ra: 18.195, dec: -23.701, magnitude: 4.96, colorIndex: 1.05, constellation: 'sgr' },
+  { id: 'nu2-sgr', ra: 18.919, dec: -22.671, magnitude: 5.00, colorIndex: 1.35, constellation: 'sgr' },
+  { id: 'chi1-sgr', ra: 19.421, dec: -24.509, magnitude: 5.02, colorIndex: 0.23, constellation: 'sgr' },
+
+  // Scorpius
+  { id: 'alpha-sco', name: 'Antares', ra: 16.490, dec: -26.432, magnitude: 1.06, colorIndex: 1.86, constellation: 'sco' },
+  { id: 'lambda-sco', name: 'Shaula', ra: 17.560, dec: -37.104, magnitude: 1.62, colorIndex: -0.23, constellation: 'sco' },
+  { id: 'theta-sco', name: 'Sargas', ra: 17.622, dec: -42.998, magnitude: 1.86, colorIndex: 0.41, constellation: 'sco' },
+  { id: 'delta-sco', name: 'Dschubba', ra: 16.006, dec: -22.622, magnitude: 2.29, colorIndex: -0.12, constellation: 'sco' },
+  { id: 'epsilon-sco', name: 'Larawag', ra: 16.836, dec: -34.293, magnitude: 2.29, colorIndex: 1.14, constellation: 'sco' },
+  { id: 'kappa-sco', ra: 17.708, dec: -39.030, magnitude: 2.39, colorIndex: -0.17, constellation: 'sco' },
+  { id: 'beta1-sco', name: 'Acrab', ra: 16.091, dec: -19.805, magnitude: 2.56, colorIndex: -0.07, constellation: 'sco' },
+  { id: 'upsilon-sco', name: 'Lesath', ra: 17.513, dec: -37.296, magnitude: 2.70, colorIndex: -0.18, constellation: 'sco' },
+  { id: 'tau-sco', name: 'Paikauhale', ra: 16.598, dec: -28.216, magnitude: 2.82, colorIndex: -0.21, constellation: 'sco' },
+  { id: 'pi-sco', name: 'Fang', ra: 15.981, dec: -26.114, magnitude: 2.89, colorIndex: -0.18, constellation: 'sco' },
+  { id: 'sigma-sco', name: 'Alniyat', ra: 16.353, dec: -25.593, magnitude: 2.90, colorIndex: 0.30, constellation: 'sco' },
+  { id: 'iota1-sco', ra: 17.793, dec: -40.127, magnitude: 2.99, colorIndex: 0.51, constellation: 'sco' },
+  { id: 'mu1-sco', ra: 16.865, dec: -38.047, magnitude: 3.00, colorIndex: -0.20, constellation: 'sco' },
+  { id: 'G-sco', ra: 17.831, dec: -37.043, magnitude: 3.19, colorIndex: 1.19, constellation: 'sco' },
+  { id: 'eta-sco', ra: 17.203, dec: -43.239, magnitude: 3.32, colorIndex: 0.44, constellation: 'sco' },
+  { id: 'mu2-sco', ra: 16.872, dec: -38.017, magnitude: 3.56, colorIndex: -0.21, constellation: 'sco' },
+  { id: 'zeta2-sco', ra: 16.910, dec: -42.361, magnitude: 3.62, colorIndex: 1.39, constellation: 'sco' },
+  { id: 'rho-sco', ra: 15.948, dec: -29.214, magnitude: 3.87, colorIndex: -0.20, constellation: 'sco' },
+  { id: 'omega1-sco', ra: 16.113, dec: -20.669, magnitude: 3.93, colorIndex: -0.05, constellation: 'sco' },
+  { id: 'nu-sco', ra: 16.200, dec: -19.461, magnitude: 4.00, colorIndex: 0.08, constellation: 'sco' },
+  { id: 'hip78727-sco', ra: 16.073, dec: -11.374, magnitude: 4.16, colorIndex: 0.46, constellation: 'sco' },
+  { id: 'H-sco', ra: 16.606, dec: -35.255, magnitude: 4.18, colorIndex: 1.53, constellation: 'sco' },
+  { id: 'N-sco', ra: 16.523, dec: -34.704, magnitude: 4.24, colorIndex: -0.17, constellation: 'sco' },
+  { id: 'Q-sco', ra: 17.609, dec: -38.635, magnitude: 4.26, colorIndex: 1.07, constellation: 'sco' },
+  { id: 'omega2-sco', ra: 16.123, dec: -20.869, magnitude: 4.31, colorIndex: 0.83, constellation: 'sco' },
+  { id: 'omicron-sco', ra: 16.344, dec: -24.169, magnitude: 4.55, colorIndex: 0.76, constellation: 'sco' },
+  { id: 'c2-sco', ra: 16.205, dec: -27.926, magnitude: 4.58, colorIndex: -0.17, constellation: 'sco' },
+  { id: 'A-sco', ra: 15.894, dec: -25.327, magnitude: 4.59, colorIndex: -0.07, constellation: 'sco' },
+  { id: 'b-sco', ra: 15.850, dec: -25.751, magnitude: 4.63, colorIndex: -0.07, constellation: 'sco' },
+  { id: 'zeta1-sco', ra: 16.900, dec: -42.362, magnitude: 4.70, colorIndex: 0.44, constellation: 'sco' },
+  { id: 'iota2-sco', ra: 17.836, dec: -40.090, magnitude: 4.78, colorIndex: 0.26, constellation: 'sco' },
+  { id: 'i-sco', ra: 16.503, dec: -25.115, magnitude: 4.79, colorIndex: -0.12, constellation: 'sco' },
+  { id: 'd-sco', ra: 16.305, dec: -28.614, magnitude: 4.80, colorIndex: 0.01, constellation: 'sco' },
+  { id: 'k-sco', ra: 17.080, dec: -34.123, magnitude: 4.83, colorIndex: 0.26, constellation: 'sco' },
+  { id: 'beta2-sco', ra: 16.091, dec: -19.802, magnitude: 4.90, colorIndex: -0.02, constellation: 'sco' },
+  { id: '24-sco', ra: 16.693, dec: -17.742, magnitude: 4.91, colorIndex: 1.09, constellation: 'sco' },
+  { id: 'psi-sco', ra: 16.200, dec: -10.064, magnitude: 4.93, colorIndex: 0.09, constellation: 'sco' },
+
+  // Sculptor
+  { id: 'alpha-scl', ra: 0.977, dec: -29.357, magnitude: 4.30, colorIndex: -0.15, constellation: 'scl' },
+  { id: 'beta-scl', ra: 23.550, dec: -37.818, magnitude: 4.38, colorIndex: -0.10, constellation: 'scl' },
+  { id: 'gamma-scl', ra: 23.314, dec: -32.532, magnitude: 4.41, colorIndex: 1.11, constellation: 'scl' },
+  { id: 'delta-scl', ra: 23.815, dec: -28.130, magnitude: 4.59, colorIndex: 0.00, constellation: 'scl' },
+  { id: 'eta-scl', ra: 0.465, dec: -33.007, magnitude: 4.86, colorIndex: 1.63, constellation: 'scl' },
+
+  // Scutum
+  { id: 'alpha-sct', ra: 18.587, dec: -8.244, magnitude: 3.85, colorIndex: 1.32, constellation: 'sct' },
+  { id: 'beta-sct', ra: 18.786, dec: -4.748, magnitude: 4.22, colorIndex: 1.09, constellation: 'sct' },
+  { id: 'zeta-sct', ra: 18.394, dec: -8.934, magnitude: 4.66, colorIndex: 0.93, constellation: 'sct' },
+  { id: 'gamma-sct', ra: 18.487, dec: -14.566, magnitude: 4.67, colorIndex: 0.08, constellation: 'sct' },
+  { id: 'delta-sct', ra: 18.705, dec: -9.053, magnitude: 4.70, colorIndex: 0.36, constellation: 'sct' },
+  { id: 'eta-sct', ra: 18.951, dec: -5.846, magnitude: 4.83, colorIndex: 1.06, constellation: 'sct' },
+  { id: 'epsilon-sct', ra: 18.725, dec: -8.275, magnitude: 4.88, colorIndex: 1.11, constellation: 'sct' },
+
+  // Serpens
+  { id: 'alpha-ser', name: 'Unukalhai', ra: 15.738, dec: 6.426, magnitude: 2.63, colorIndex: 1.17, constellation: 'ser' },
+  { id: 'eta-ser', ra: 18.355, dec: -2.899, magnitude: 3.23, colorIndex: 0.94, constellation: 'ser' },
+  { id: 'mu-ser', ra: 15.827, dec: -3.430, magnitude: 3.54, colorIndex: -0.04, constellation: 'ser' },
+  { id: 'xi-ser', ra: 17.626, dec: -15.399, magnitude: 3.54, colorIndex: 0.26, constellation: 'ser' },
+  { id: 'beta-ser', ra: 15.770, dec: 15.422, magnitude: 3.65, colorIndex: 0.07, constellation: 'ser' },
+  { id: 'epsilon-ser', ra: 15.847, dec: 4.478, magnitude: 3.71, colorIndex: 0.15, constellation: 'ser' },
+  { id: 'delta-ser', ra: 15.580, dec: 10.539, magnitude: 3.80, colorIndex: 0.27, constellation: 'ser' },
+  { id: 'gamma-ser', ra: 15.941, dec: 15.662, magnitude: 3.85, colorIndex: 0.48, constellation: 'ser' },
+  { id: 'kappa-ser', ra: 15.812, dec: 18.142, magnitude: 4.09, colorIndex: 1.62, constellation: 'ser' },
+  { id: 'omicron-ser', ra: 17.690, dec: -12.875, magnitude: 4.24, colorIndex: 0.09, constellation: 'ser' },
+  { id: 'nu-ser', ra: 17.347, dec: -12.847, magnitude: 4.32, colorIndex: 0.04, constellation: 'ser' },
+  { id: 'lambda-ser', ra: 15.774, dec: 7.353, magnitude: 4.42, colorIndex: 0.60, constellation: 'ser' },
+  { id: 'iota-ser', ra: 15.693, dec: 19.670, magnitude: 4.51, colorIndex: 0.06, constellation: 'ser' },
+  { id: 'zeta-ser', ra: 18.008, dec: -3.690, magnitude: 4.62, colorIndex: 0.39, constellation: 'ser' },
+  { id: 'theta1-ser', ra: 18.937, dec: 4.204, magnitude: 4.62, colorIndex: 0.16, constellation: 'ser' },
+  { id: 'rho-ser', ra: 15.854, dec: 20.978, magnitude: 4.74, colorIndex: 1.53, constellation: 'ser' },
+  { id: 'pi-ser', ra: 16.038, dec: 22.805, magnitude: 4.82, colorIndex: 0.07, constellation: 'ser' },
+  { id: 'sigma-ser', ra: 16.368, dec: 1.029, magnitude: 4.82, colorIndex: 0.34, constellation: 'ser' },
+  { id: 'theta2-ser', ra: 18.937, dec: 4.202, magnitude: 4.98, colorIndex: 0.20, constellation: 'ser' },
+
+  // Sextans
+  { id: 'alpha-sex', ra: 10.132, dec: -0.372, magnitude: 4.48, colorIndex: -0.03, constellation: 'sex' },
+  { id: '2-sex', ra: 9.641, dec: 4.649, magnitude: 4.68, colorIndex: 1.31, constellation: 'sex' },
+  { id: 'gamma-sex', ra: 9.875, dec: -8.105, magnitude: 5.07, colorIndex: 0.04, constellation: 'sex' },
+  { id: 'beta-sex', ra: 10.505, dec: -0.637, magnitude: 5.08, colorIndex: -0.14, constellation: 'sex' },
+  { id: 'delta-sex', ra: 10.491, dec: -2.739, magnitude: 5.19, colorIndex: -0.05, constellation: 'sex' },
+
+  // Taurus
+  { id: 'alpha-tau', name: 'Aldebaran', ra: 4.599, dec: 16.509, magnitude: 0.87, colorIndex: 1.54, constellation: 'tau' },
+  { id: 'beta-tau', name: 'Elnath', ra: 5.438, dec: 28.608, magnitude: 1.65, colorIndex: -0.13, constellation: 'tau' },
+  { id: 'eta-tau', name: 'Alcyone', ra: 3.791, dec: 24.105, magnitude: 2.85, colorIndex: -0.09, constellation: 'tau' },
+  { id: 'zeta-tau', name: 'Tianguan', ra: 5.627, dec: 21.142, magnitude: 2.97, colorIndex: -0.15, constellation: 'tau' },
+  { id: 'theta2-tau', ra: 4.478, dec: 15.871, magnitude: 3.40, colorIndex: 0.18, constellation: 'tau' },
+  { id: 'lambda-tau', ra: 4.011, dec: 12.490, magnitude: 3.41, colorIndex: -0.10, constellation: 'tau' },
+  { id: 'epsilon-tau', name: 'Ain', ra: 4.477, dec: 19.180, magnitude: 3.53, colorIndex: 1.01, constellation: 'tau' },
+  { id: 'omicron-tau', ra: 3.414, dec: 9.029, magnitude: 3.61, colorIndex: 0.89, constellation: 'tau' },
+  { id: '27-tau', ra: 3.819, dec: 24.053, magnitude: 3.62, colorIndex: -0.07, constellation: 'tau' },
+  { id: 'gamma-tau', name: 'Prima Hyadum', ra: 4.330, dec: 15.628, magnitude: 3.65, colorIndex: 0.98, constellation: 'tau' },
+  { id: '17-tau', ra: 3.748, dec: 24.113, magnitude: 3.72, colorIndex: -0.10, constellation: 'tau' },
+  { id: 'xi-tau', ra: 3.453, dec: 9.733, magnitude: 3.73, colorIndex: -0.08, constellation: 'tau' },
+  { id: 'delta-tau', name: 'Secunda Hyadum', ra: 4.382, dec: 17.543, magnitude: 3.77, colorIndex: 0.98, constellation: 'tau' },
+  { id: 'theta1-tau', ra: 4.476, dec: 15.962, magnitude: 3.84, colorIndex: 0.95, constellation: 'tau' },
+  { id: '20-tau', ra: 3.764, dec: 24.368, magnitude: 3.87, colorIndex: -0.06, constellation: 'tau' },
+  { id: 'nu-tau', ra: 4.053, dec: 5.989, magnitude: 3.91, colorIndex: 0.03, constellation: 'tau' },
+  { id: 'f-tau', ra: 3.515, dec: 12.937, magnitude: 4.14, colorIndex: 1.11, constellation: 'tau' },
+  { id: '23-tau', ra: 3.772, dec: 23.948, magnitude: 4.14, colorIndex: -0.05, constellation: 'tau' },
+  { id: 'kappa-tau', ra: 4.423, dec: 22.294, magnitude: 4.21, colorIndex: 0.14, constellation: 'tau' },
+  { id: 'd-tau', ra: 4.594, dec: 10.161, magnitude: 4.25, colorIndex: 0.18, constellation: 'tau' },
+  { id: 'mu-tau', ra: 4.259, dec: 8.892, magnitude: 4.27, colorIndex: -0.05, constellation: 'tau' },
+  { id: 'c1-tau', ra: 4.636, dec: 12.511, magnitude: 4.27, colorIndex: 0.12, constellation: 'tau' },
+  { id: 'tau-tau', ra: 4.704, dec: 22.957, magnitude: 4.27, colorIndex: -0.11, constellation: 'tau' },
+  { id: 'upsilon-tau', ra: 4.438, dec: 22.814, magnitude: 4.28, colorIndex: 0.26, constellation: 'tau' },
+  { id: '10-tau', ra: 3.615, dec: 0.402, magnitude: 4.29, colorIndex: 0.57, constellation: 'tau' },
+  { id: 'q-tau', ra: 3.753, dec: 24.467, magnitude: 4.30, colorIndex: -0.11, constellation: 'tau' },
+  { id: '68-tau', ra: 4.425, dec: 17.928, magnitude: 4.30, colorIndex: 0.05, constellation: 'tau' },
+  { id: '119-tau', ra: 5.537, dec: 18.594, magnitude: 4.32, colorIndex: 2.06, constellation: 'tau' },
+  { id: 'A1-tau', ra: 4.078, dec: 22.082, magnitude: 4.36, colorIndex: 1.06, constellation: 'tau' },
+  { id: '71-tau', ra: 4.439, dec: 15.618, magnitude: 4.48, colorIndex: 0.26, constellation: 'tau' },
+  { id: '136-tau', ra: 5.889, dec: 27.612, magnitude: 4.56, colorIndex: -0.01, constellation: 'tau' },
+  { id: 'iota-tau', ra: 5.052, dec: 21.590, magnitude: 4.62, colorIndex: 0.15, constellation: 'tau' },
+  { id: 'rho-tau', ra: 4.564, dec: 14.844, magnitude: 4.65, colorIndex: 0.26, constellation: 'tau' },
+  { id: 'sigma2-tau', ra: 4.655, dec: 15.918, magnitude: 4.67, colorIndex: 0.15, constellation: 'tau' },
+  { id: 'pi-tau', ra: 4.443, dec: 14.714, magnitude: 4.69, colorIndex: 0.98, constellation: 'tau' },
+  { id: '64-tau', ra: 4.402, dec: 17.444, magnitude: 4.80, colorIndex: 0.15, constellation: 'tau' },
+  { id: '139-tau', ra: 5.967, dec: 25.954, magnitude: 4.81, colorIndex: -0.09, constellation: 'tau' },
+  { id: '47-tau', ra: 4.232, dec: 9.264, magnitude: 4.84, colorIndex: 0.80, constellation: 'tau' },
+  { id: '126-tau', ra: 5.688, dec: 16.534, magnitude: 4.84, colorIndex: -0.12, constellation: 'tau' },
+  { id: 'o-tau', ra: 5.461, dec: 21.937, magnitude: 4.88, colorIndex: -0.14, constellation: 'tau' },
+  { id: '132-tau', ra: 5.817, dec: 24.567, magnitude: 4.88, colorIndex: 1.02, constellation: 'tau' },
+  { id: '134-tau', ra: 5.826, dec: 12.651, magnitude: 4.89, colorIndex: -0.07, constellation: 'tau' },
+  { id: 'm-tau', ra: 5.124, dec: 18.645, magnitude: 4.91, colorIndex: 0.66, constellation: 'tau' },
+  { id: 'omega-tau', ra: 4.288, dec: 20.579, magnitude: 4.93, colorIndex: 0.26, constellation: 'tau' },
+  { id: '75-tau', ra: 4.474, dec: 16.360, magnitude: 4.96, colorIndex: 1.14, constellation: 'tau' },
+  { id: 'n-tau', ra: 5.321, dec: 22.096, magnitude: 4.96, colorIndex: 0.94, constellation: 'tau' },
+  { id: 'phi-tau', ra: 4.339, dec: 27.351, magnitude: 4.97, colorIndex: 1.15, constellation: 'tau' },
+  { id: '111-tau', ra: 5.407, dec: 17.384, magnitude: 5.00, colorIndex: 0.54, constellation: 'tau' },
+
+  // Telescopium
+  { id: 'alpha-tel', ra: 18.450, dec: -45.968, magnitude: 3.49, colorIndex: -0.18, constellation: 'tel' },
+  { id: 'zeta-tel', ra: 18.481, dec: -49.071, magnitude: 4.10, colorIndex: 0.99, constellation: 'tel' },
+  { id: 'epsilon-tel', ra: 18.187, dec: -45.954, magnitude: 4.52, colorIndex: 1.01, constellation: 'tel' },
+  { id: 'lambda-tel', ra: 18.974, dec: -52.939, magnitude: 4.85, colorIndex: -0.05, constellation: 'tel' },
+  { id: 'iota-tel', ra: 19.587, dec: -48.099, magnitude: 4.88, colorIndex: 1.10, constellation: 'tel' },
+  { id: 'delta1-tel', ra: 18.529, dec: -45.915, magnitude: 4.92, colorIndex: -0.10, constellation: 'tel' },
+  { id: 'xi-tel', ra: 20.123, dec: -52.881, magnitude: 4.93, colorIndex: 1.59, constellation: 'tel' },
+
+  // Triangulum
+  { id: 'beta-tri', ra: 2.159, dec: 34.987, magnitude: 3.00, colorIndex: 0.14, constellation: 'tri' },
+  { id: 'alpha-tri', ra: 1.885, dec: 29.579, magnitude: 3.42, colorIndex: 0.49, constellation: 'tri' },
+  { id: 'gamma-tri', ra: 2.289, dec: 33.847, magnitude: 4.03, colorIndex: 0.02, constellation: 'tri' },
+  { id: 'delta-tri', ra: 2.284, dec: 34.224, magnitude: 4.84, colorIndex: 0.61, constellation: 'tri' },
+  { id: '6-tri', ra: 2.206, dec: 30.303, magnitude: 4.94, colorIndex: 0.77, constellation: 'tri' },
+
+  // Triangulum Australe
+  { id: 'alpha-tra', name: 'Atria', ra: 16.811, dec: -69.028, magnitude: 1.91, colorIndex: 1.45, constellation: 'tra' },
+  { id: 'beta-tra', ra: 15.919, dec: -63.431, magnitude: 2.83, colorIndex: 0.32, constellation: 'tra' },
+  { id: 'gamma-tra', ra: 15.315, dec: -68.680, magnitude: 2.87, colorIndex: 0.01, constellation: 'tra' },
+  { id: 'delta-tra', ra: 16.257, dec: -63.686, magnitude: 3.86, colorIndex: 1.10, constellation: 'tra' },
+  { id: 'epsilon-tra', ra: 15.612, dec: -66.317, magnitude: 4.11, colorIndex: 1.16, constellation: 'tra' },
+  { id: 'zeta-tra', ra: 16.474, dec: -70.084, magnitude: 4.90, colorIndex: 0.56, constellation: 'tra' },
+
+  // Tucana
+  { id: 'alpha-tuc', ra: 22.308, dec: -60.260, magnitude: 2.87, colorIndex: 1.39, constellation: 'tuc' },
+  { id: 'gamma-tuc', ra: 23.290, dec: -58.236, magnitude: 3.99, colorIndex: 0.41, constellation: 'tuc' },
+  { id: 'zeta-tuc', ra: 0.335, dec: -64.875, magnitude: 4.23, colorIndex: 0.58, constellation: 'tuc' },
+  { id: 'kappa-tuc', ra: 1.263, dec: -68.876, magnitude: 4.25, colorIndex: 0.48, constellation: 'tuc' },
+  { id: 'beta1-tuc', ra: 0.526, dec: -62.958, magnitude: 4.36, colorIndex: -0.06, constellation: 'tuc' },
+  { id: 'epsilon-tuc', ra: 23.999, dec: -65.577, magnitude: 4.49, colorIndex: -0.07, constellation: 'tuc' },
+  { id: 'delta-tuc', ra: 22.456, dec: -64.966, magnitude: 4.51, colorIndex: -0.03, constellation: 'tuc' },
+  { id: 'beta2-tuc', ra: 0.526, dec: -62.966, magnitude: 4.53, colorIndex: 0.15, constellation: 'tuc' },
+  { id: 'nu-tuc', ra: 22.550, dec: -61.982, magnitude: 4.91, colorIndex: 1.61, constellation: 'tuc' },
+  { id: 'eta-tuc', ra: 23.960, dec: -64.298, magnitude: 5.00, colorIndex: 0.06, constellation: 'tuc' },
+
+  // Ursa Major
+  { id: 'epsilon-uma', name: 'Alioth', ra: 12.900, dec: 55.960, magnitude: 1.76, colorIndex: -0.02, constellation: 'uma' },
+  { id: 'alpha-uma', name: 'Dubhe', ra: 11.062, dec: 61.751, magnitude: 1.81, colorIndex: 1.06, constellation: 'uma' },
+  { id: 'eta-uma', name: 'Alkaid', ra: 13.792, dec: 49.313, magnitude: 1.85, colorIndex: -0.10, constellation: 'uma' },
+  { id: 'zeta-uma', name: 'Mizar', ra: 13.399, dec: 54.925, magnitude: 2.23, colorIndex: 0.06, constellation: 'uma' },
+  { id: 'beta-uma', name: 'Merak', ra: 11.031, dec: 56.382, magnitude: 2.34, colorIndex: 0.03, constellation: 'uma' },
+  { id: 'gamma-uma', name: 'Phecda', ra: 11.897, dec: 53.695, magnitude: 2.41, colorIndex: 0.04, constellation: 'uma' },
+  { id: 'psi-uma', ra: 11.161, dec: 44.498, magnitude: 3.00, colorIndex: 1.14, constellation: 'uma' },
+  { id: 'mu-uma', name: 'Tania Australis', ra: 10.372, dec: 41.499, magnitude: 3.06, colorIndex: 1.60, constellation: 'uma' },
+  { id: 'iota-uma', name: 'Talitha', ra: 8.987, dec: 48.042, magnitude: 3.12, colorIndex: 0.22, constellation: 'uma' },
+  { id: 'theta-uma', ra: 9.548, dec: 51.677, magnitude: 3.17, colorIndex: 0.47, constellation: 'uma' },
+  { id: 'delta-uma', name: 'Megrez', ra: 12.257, dec: 57.033, magnitude: 3.32, colorIndex: 0.08, constellation: 'uma' },
+  { id: 'omicron-uma', name: 'Muscida', ra: 8.504, dec: 60.718, magnitude: 3.35, colorIndex: 0.86, constellation: 'uma' },
+  { id: 'lambda-uma', name: 'Tania Borealis', ra: 10.285, dec: 42.914, magnitude: 3.45, colorIndex: 0.03, constellation: 'uma' },
+  { id: 'nu-uma', name: 'Alula Borealis', ra: 11.308, dec: 33.094, magnitude: 3.49, colorIndex: 1.40, constellation: 'uma' },
+  { id: 'kappa-uma', name: 'Alkaphrah', ra: 9.060, dec: 47.157, magnitude: 3.57, colorIndex: 0.01, constellation: 'uma' },
+  { id: 'h-uma', ra: 9.525, dec: 63.062, magnitude: 3.65, colorIndex: 0.36, constellation: 'uma' },
+  { id: 'chi-uma', ra: 11.768, dec: 47.779, magnitude: 3.69, colorIndex: 1.18, constellation: 'uma' },
+  { id: 'upsilon-uma', ra: 9.850, dec: 59.039, magnitude: 3.78, colorIndex: 0.29, constellation: 'uma' },
+  { id: 'xi-uma', name: 'Alula Australis', ra: 11.303, dec: 31.531, magnitude: 3.79, colorIndex: 0.61, constellation: 'uma' },
+  { id: '10-uma', ra: 9.011, dec: 41.783, magnitude: 3.96, colorIndex: 0.46, constellation: 'uma' },
+  { id: 'g-uma', ra: 13.420, dec: 54.988, magnitude: 3.99, colorIndex: 0.17, constellation: 'uma' },
+  { id: 'f-uma', ra: 9.148, dec: 51.605, magnitude: 4.46, colorIndex: 0.29, constellation: 'uma' },
+  { id: '26-uma', ra: 9.580, dec: 52.051, magnitude: 4.47, colorIndex: 0.03, constellation: 'uma' },
+  { id: 'd-uma', ra: 9.575, dec: 69.830, magnitude: 4.54, colorIndex: 0.78, constellation: 'uma' },
+  { id: 'phi-uma', ra: 9.868, dec: 54.064, magnitude: 4.55, colorIndex: 0.04, constellation: 'uma' },
+  { id: 'pi2-uma', ra: 8.670, dec: 64.328, magnitude: 4.59, colorIndex: 1.18, constellation: 'uma' },
+  { id: '83-uma', ra: 13.679, dec: 54.682, magnitude: 4.63, colorIndex: 1.63, constellation: 'uma' },
+  { id: 'omega-uma', ra: 10.900, dec: 43.190, magnitude: 4.66, colorIndex: -0.04, constellation: 'uma' },
+  { id: 'tau-uma', ra: 9.182, dec: 63.514, magnitude: 4.67, colorIndex: 0.38, constellation: 'uma' },
+  { id: 'rho-uma', ra: 9.042, dec: 67.630, magnitude: 4.74, colorIndex: 1.54, constellation: 'uma' },
+  { id: '55-uma', ra: 11.319, dec: 38.186, magnitude: 4.76, colorIndex: 0.11, constellation: 'uma' },
+  { id: 'sigma2-uma', ra: 9.173, dec: 67.134, magnitude: 4.80, colorIndex: 0.49, constellation: 'uma' },
+  { id: 'e-uma', ra: 9.270, dec: 54.022, magnitude: 4.80, colorIndex: 0.20, constellation: 'uma' },
+  { id: '36-uma', ra: 10.510, dec: 55.980, magnitude: 4.82, colorIndex: 0.54, constellation: 'uma' },
+  { id: 'hip51808-uma', ra: 10.585, dec: 75.713, magnitude: 4.86, colorIndex: 0.96, constellation: 'uma' },
+  { id: '78-uma', ra: 13.012, dec: 56.366, magnitude: 4.93, colorIndex: 0.37, constellation: 'uma' },
+  { id: 'hip50933-uma', ra: 10.402, dec: 65.566, magnitude: 4.94, colorIndex: -0.05, constellation: 'uma' },
+  { id: '56-uma', ra: 11.380, dec: 43.483, magnitude: 4.99, colorIndex: 1.00, constellation: 'uma' },
+
+  // Ursa Minor
+  { id: 'alpha-umi', name: 'Polaris', ra: 2.530, dec: 89.264, magnitude: 1.97, colorIndex: 0.64, constellation: 'umi' },
+  { id: 'beta-umi', name: 'Kochab', ra: 14.845, dec: 74.156, magnitude: 2.07, colorIndex: 1.47, constellation: 'umi' },
+  { id: 'gamma-umi', name: 'Pherkad', ra: 15.345, dec: 71.834, magnitude: 3.00, colorIndex: 0.06, constellation: 'umi' },
+  { id: 'epsilon-umi', ra: 16.766, dec: 82.037, magnitude: 4.21, colorIndex: 0.90, constellation: 'umi' },
+  { id: '2-umi', ra: 1.146, dec: 86.257, magnitude: 4.24, colorIndex: 1.21, constellation: 'umi' },
+  { id: '5-umi', ra: 14.459, dec: 75.696, magnitude: 4.25, colorIndex: 1.43, constellation: 'umi' },
+  { id: 'zeta-umi', ra: 15.734, dec: 77.794, magnitude: 4.29, colorIndex: 0.04, constellation: 'umi' },
+  { id: 'delta-umi', name: 'Yildun', ra: 17.537, dec: 86.587, magnitude: 4.35, colorIndex: 0.02, constellation: 'umi' },
+  { id: 'hip73199-umi', ra: 14.960, dec: 65.933, magnitude: 4.63, colorIndex: 1.59, constellation: 'umi' },
+  { id: '4-umi', ra: 14.147, dec: 77.547, magnitude: 4.80, colorIndex: 1.37, constellation: 'umi' },
+  { id: 'eta-umi', ra: 16.292, dec: 75.755, magnitude: 4.95, colorIndex: 0.39, constellation: 'umi' },
+  { id: 'theta-umi', ra: 15.524, dec: 77.349, magnitude: 5.00, colorIndex: 1.54, constellation: 'umi' },
+
+  // Vela
+  { id: 'gamma2-vel', name: 'Regor', ra: 8.159, dec: -47.337, magnitude: 1.75, colorIndex: -0.14, constellation: 'vel' },
+  { id: 'delta-vel', name: 'Alsephina', ra: 8.745, dec: -54.709, magnitude: 1.93, colorIndex: 0.04, constellation: 'vel' },
+  { id: 'lambda-vel', name: 'Suhail', ra: 9.133, dec: -43.433, magnitude: 2.23, colorIndex: 1.67, constellation: 'vel' },
+  { id: 'kappa-vel', ra: 9.369, dec: -55.011, magnitude: 2.47, colorIndex: -0.14, constellation: 'vel' },
+  { id: 'mu-vel', ra: 10.779, dec: -49.420, magnitude: 2.69, colorIndex: 0.90, constellation: 'vel' },
+  { id: 'N-vel', ra: 9.520, dec: -57.034, magnitude: 3.16, colorIndex: 1.54, constellation: 'vel' },
+  { id: 'phi-vel', ra: 9.948, dec: -54.568, magnitude: 3.52, colorIndex: -0.07, constellation: 'vel' },
+  { id: 'omicron-vel', ra: 8.672, dec: -52.922, magnitude: 3.60, colorIndex: -0.17, constellation: 'vel' },
+  { id: 'psi-vel', ra: 9.512, dec: -40.467, magnitude: 3.60, colorIndex: 0.37, constellation: 'vel' },
+  { id: 'c-vel', ra: 9.069, dec: -47.098, magnitude: 3.75, colorIndex: 1.17, constellation: 'vel' },
+  { id: 'b-vel', ra: 8.677, dec: -46.649, magnitude: 3.77, colorIndex: 0.67, constellation: 'vel' },
+  { id: 'p-vel', ra: 10.622, dec: -48.226, magnitude: 3.84, colorIndex: 0.30, constellation: 'vel' },
+  { id: 'q-vel', ra: 10.246, dec: -42.122, magnitude: 3.85, colorIndex: 0.05, constellation: 'vel' },
+  { id: 'a-vel', ra: 8.767, dec: -46.041, magnitude: 3.87, colorIndex: 0.01, constellation: 'vel' },
+  { id: 'd-vel', ra: 8.740, dec: -42.649, magnitude: 4.05, colorIndex: 0.87, constellation: 'vel' },
+  { id: 'e-vel', ra: 8.627, dec: -42.989, magnitude: 4.11, colorIndex: 0.11, constellation: 'vel' },
+  { id: 'x-vel', ra: 10.655, dec: -55.603, magnitude: 4.29, colorIndex: 1.02, constellation: 'vel' },
+  { id: 'M-vel', ra: 9.614, dec: -49.355, magnitude: 4.34, colorIndex: 0.17, constellation: 'vel' },
+  { id: 'i-vel', ra: 11.003, dec: -42.226, magnitude: 4.37, colorIndex: 0.12, constellation: 'vel' },
+  { id: 'w-vel', ra: 9.002, dec: -41.254, magnitude: 4.45, colorIndex: 0.65, constellation: 'vel' },
+  { id: 'J-vel', ra: 10.349, dec: -56.043, magnitude: 4.50, colorIndex: -0.10, constellation: 'vel' },
+  { id: 'm-vel', ra: 9.861, dec: -46.548, magnitude: 4.58, colorIndex: 1.17, constellation: 'vel' },
+  { id: 'hip50555-vel', ra: 10.327, dec: -55.029, magnitude: 4.59, colorIndex: 1.60, constellation: 'vel' },
+  { id: 'k-vel', ra: 9.263, dec: -37.413, magnitude: 4.63, colorIndex: 0.47, constellation: 'vel' },
+  { id: 'H-vel', ra: 8.939, dec: -52.724, magnitude: 4.68, colorIndex: -0.12, constellation: 'vel' },
+  { id: 'n-vel', ra: 8.687, dec: -47.317, magnitude: 4.74, colorIndex: 0.14, constellation: 'vel' },
+  { id: 'B-vel', ra: 8.375, dec: -48.490, magnitude: 4.79, colorIndex: -0.15, constellation: 'vel' },
+  { id: 'r-vel', ra: 10.372, dec: -41.650, magnitude: 4.82, colorIndex: 1.09, constellation: 'vel' },
+  { id: 'hip42726-vel', ra: 8.707, dec: -53.114, magnitude: 4.83, colorIndex: -0.17, constellation: 'vel' },
+  { id: 'Q-vel', ra: 10.149, dec: -51.811, magnitude: 4.85, colorIndex: -0.12, constellation: 'vel' },
+  { id: 'l-vel', ra: 9.260, dec: -38.570, magnitude: 4.92, colorIndex: 1.08, constellation: 'vel' },
+  { id: 'g-vel', ra: 8.830, dec: -45.308, magnitude: 4.94, colorIndex: 0.04, constellation: 'vel' },
+  { id: 'hip45085-vel', ra: 9.185, dec: -44.868, magnitude: 4.99, colorIndex: 0.22, constellation: 'vel' },
+
+  // Virgo
+  { id: 'alpha-vir', name: 'Spica', ra: 13.420, dec: -11.161, magnitude: 0.98, colorIndex: -0.23, constellation: 'vir' },
+  { id: 'gamma-vir', name: 'Porrima', ra: 12.694, dec: -1.449, magnitude: 2.74, colorIndex: 0.37, constellation: 'vir' },
+  { id: 'epsilon-vir', name: 'Vindemiatrix', ra: 13.036, dec: 10.959, magnitude: 2.85, colorIndex: 0.93, constellation: 'vir' },
+  { id: 'zeta-vir', name: 'Heze', ra: 13.578, dec: -0.596, magnitude: 3.38, colorIndex: 0.11, constellation: 'vir' },
+  { id: 'delta-vir', name: 'Minelauva', ra: 12.927, dec: 3.397, magnitude: 3.39, colorIndex: 1.57, constellation: 'vir' },
+  { id: 'beta-vir', name: 'Zavijava', ra: 11.845, dec: 1.765, magnitude: 3.59, colorIndex: 0.52, constellation: 'vir' },
+  { id: '109-vir', ra: 14.771, dec: 1.893, magnitude: 3.73, colorIndex: -0.01, constellation: 'vir' },
+  { id: 'mu-vir', ra: 14.718, dec: -5.658, magnitude: 3.87, colorIndex: 0.39, constellation: 'vir' },
+  { id: 'eta-vir', name: 'Zaniah', ra: 12.332, dec: -0.667, magnitude: 3.89, colorIndex: 0.03, constellation: 'vir' },
+  { id: 'nu-vir', ra: 11.764, dec: 6.529, magnitude: 4.04, colorIndex: 1.50, constellation: 'vir' },
+  { id: 'iota-vir', ra: 14.267, dec: -6.000, magnitude: 4.07, colorIndex: 0.51, constellation: 'vir' },
+  { id: 'omicron-vir', ra: 12.087, dec: 8.733, magnitude: 4.12, colorIndex: 0.97, constellation: 'vir' },
+  { id: 'kappa-vir', ra: 14.215, dec: -10.274, magnitude: 4.18, colorIndex: 1.32, constellation: 'vir' },
+  { id: 'tau-vir', ra: 14.027, dec: 1.544, magnitude: 4.23, colorIndex: 0.12, constellation: 'vir' },
+  { id: 'theta-vir', ra: 13.166, dec: -5.539, magnitude: 4.38, colorIndex: -0.01, constellation: 'vir' },
+  { id: '110-vir', ra: 15.048, dec: 2.091, magnitude: 4.39, colorIndex: 1.03, constellation: 'vir' },
+  { id: 'lambda-vir', ra: 14.319, dec: -13.371, magnitude: 4.52, colorIndex: 0.13, constellation: 'vir' },
+  { id: 'pi-vir', ra: 12.015, dec: 6.614, magnitude: 4.65, colorIndex: 0.12, constellation: 'vir' },
+  { id: 'chi-vir', ra: 12.654, dec: -7.996, magnitude: 4.66, colorIndex: 1.24, constellation: 'vir' },
+  { id: 'l-vir', ra: 13.533, dec: -6.256, magnitude: 4.68, colorIndex: 1.61, constellation: 'vir' },
+  { id: '61-vir', ra: 13.307, dec: -18.311, magnitude: 4.74, colorIndex: 0.71, constellation: 'vir' },
+  { id: '69-vir', ra: 13.458, dec: -15.974, magnitude: 4.76, colorIndex: 1.10, constellation: 'vir' },
+  { id: 'psi-vir', ra: 12.906, dec: -9.539, magnitude: 4.77, colorIndex: 1.59, constellation: 'vir' },
+  { id: 'sigma-vir', ra: 13.293, dec: 5.470, magnitude: 4.78, colorIndex: 1.64, constellation: 'vir' },
+  { id: 'phi-vir', ra: 14.470, dec: -2.228, magnitude: 4.81, colorIndex: 0.69, constellation: 'vir' },
+  { id: 'xi-vir', ra: 11.755, dec: 8.258, magnitude: 4.84, colorIndex: 0.17, constellation: 'vir' },
+  { id: 'rho-vir', ra: 12.698, dec: 10.236, magnitude: 4.88, colorIndex: 0.08, constellation: 'vir' },
+  { id: 'o-vir', ra: 13.569, dec: 3.659, magnitude: 4.92, colorIndex: 0.03, constellation: 'vir' },
+  { id: 'hip69269-vir', ra: 14.181, dec: -16.302, magnitude: 4.93, colorIndex: 1.68, constellation: 'vir' },
+  { id: '89-vir', ra: 13.831, dec: -18.134, magnitude: 4.96, colorIndex: 1.06, constellation: 'vir' },
+  { id: 'c-vir', ra: 12.339, dec: 3.313, magnitude: 4.97, colorIndex: 1.17, constellation: 'vir' },
+  { id: '70-vir', ra: 13.474, dec: 13.779, magnitude: 4.97, colorIndex: 0.71, constellation: 'vir' },
+  { id: 'hip69389-vir', ra: 14.204, dec: 2.409, magnitude: 4.99, colorIndex: -0.12, constellation: 'vir' },
+
+  // Volans
+  { id: 'beta-vol', ra: 8.429, dec: -66.137, magnitude: 3.77, colorIndex: 1.13, constellation: 'vol' },
+  { id: 'gamma2-vol', ra: 7.146, dec: -70.499, magnitude: 3.78, colorIndex: 1.01, constellation: 'vol' },
+  { id: 'zeta-vol', ra: 7.697, dec: -72.606, magnitude: 3.93, colorIndex: 1.03, constellation: 'vol' },
+  { id: 'delta-vol', ra: 7.281, dec: -67.957, magnitude: 3.97, colorIndex: 0.76, constellation: 'vol' },
+  { id: 'alpha-vol', ra: 9.041, dec: -66.396, magnitude: 4.00, colorIndex: 0.14, constellation: 'vol' },
+  { id: 'epsilon-vol', ra: 8.132, dec: -68.617, magnitude: 4.35, colorIndex: -0.11, constellation: 'vol' },
+
+  // Vulpecula
+  { id: 'alpha-vul', ra: 19.478, dec: 24.665, magnitude: 4.44, colorIndex: 1.50, constellation: 'vul' },
+  { id: '23-vul', ra: 20.263, dec: 27.814, magnitude: 4.50, colorIndex: 1.26, constellation: 'vul' },
+  { id: '31-vul', ra: 20.869, dec: 27.097, magnitude: 4.56, colorIndex: 0.83, constellation: 'vul' },
+  { id: '13-vul', ra: 19.891, dec: 24.080, magnitude: 4.57, colorIndex: -0.05, constellation: 'vul' },
+  { id: '15-vul', ra: 20.018, dec: 27.754, magnitude: 4.66, colorIndex: 0.18, constellation: 'vul' },
+  { id: '1-vul', ra: 19.270, dec: 21.390, magnitude: 4.76, colorIndex: -0.06, constellation: 'vul' },
+  { id: 'hip99824-vul', ra: 20.254, dec: 25.592, magnitude: 4.79, colorIndex: -0.18, constellation: 'vul' },
+  { id: '29-vul', ra: 20.642, dec: 21.201, magnitude: 4.81, colorIndex: -0.03, constellation: 'vul' },
+  { id: '12-vul', ra: 19.851, dec: 22.610, magnitude: 4.90, colorIndex: -0.15, constellation: 'vul' },
+  { id: '30-vul', ra: 20.748, dec: 25.271, magnitude: 4.92, colorIndex: 1.18, constellation: 'vul' },
+  { id: '9-vul', ra: 19.576, dec: 19.773, magnitude: 5.00, colorIndex: -0.09, constellation: 'vul' },
+];
+
+/**
+ * Constellation stick figures
+ */
+export const CONSTELLATION_FIGURES: ConstellationFigure[] = [
+  {
+    id: 'and',
+    name: 'Andromeda',
+    description: 'The Chained Princess',
+    lines: [
+      ['gamma1-and', 'beta-and', 'delta-and', 'alpha-and'],
+      ['eta-and', 'zeta-and', 'epsilon-and', 'delta-and', 'pi-and', 'iota-and', 'omicron-and'],
+      ['iota-and', 'kappa-and', 'lambda-and'],
+      ['beta-and', 'mu-and', 'nu-and', 'phi-and', '51-and'],
+      ['kappa-and', 'psi-and'],
+    ],
+  },
+  {
+    id: 'ant',
+    name: 'Antlia',
+    description: 'The Air Pump',
+    lines: [['epsilon-ant', 'alpha-ant', 'iota-ant']],
+  },
+  {
+    id: 'aps',
+    name: 'Apus',
+    description: 'The Bird of Paradise',
+    lines: [['alpha-aps', 'delta1-aps', 'beta-aps', 'gamma-aps']],
+  },
+  {
+    id: 'aqr',
+    name: 'Aquarius',
+    description: 'The Water Bearer',
+    lines: [
+      [
+        'epsilon-aqr', 'mu-aqr', 'beta-aqr', 'alpha-aqr', 'gamma-aqr', 'zeta1-aqr', 'eta-aqr', 'lambda-aqr',
+        'psi2-aqr', 'c2-aqr',
+      ],
+      ['beta-aqr', 'iota-aqr'],
+      ['alpha-aqr', 'theta-aqr'],
+      ['zeta1-aqr', 'pi-aqr'],
+      ['b1-aqr', 'psi2-aqr', 'A2-aqr'],
+    ],
+  },
+  {
+    id: 'aql',
+    name: 'Aquila',
+    description: 'The Eagle',
+    lines: [
+      [
+        'gamma-aql', 'alpha-aql', 'beta-aql', 'theta-aql', 'eta-aql', 'delta-aql', 'zeta-aql', 'alpha-aql',
+        'delta-aql', 'lambda-aql',
+      ],
+    ],
+  },
+  {
+    id: 'ara',
+    name: 'Ara',
+    description: 'The Altar',
+    lines: [['gamma-ara', 'delta-ara', 'eta-ara', 'zeta-ara', 'epsilon1-ara', 'alpha-ara', 'beta-ara']],
+  },
+  {
+    id: 'ari',
+    name: 'Aries',
+    description: 'The Ram',
+    lines: [['c-ari', 'alpha-ari', 'beta-ari', 'gamma1-ari']],
+  },
+  {
+    id: 'aur',
+    name: 'Auriga',
+    description: 'The Charioteer',
+    lines: [
+      [
+        'beta-aur', 'alpha-aur', 'eta-aur', 'iota-aur', 'beta-tau', 'theta-aur', 'beta-aur', 'delta-aur',
+        'alpha-aur', 'epsilon-aur', 'zeta-aur',
+      ],
+    ],
+  },
+  {
+    id: 'boo',
+    name: 'Boötes',
+    description: 'The Herdsman',
+    lines: [
+      [
+        'tau-boo', 'eta-boo', 'alpha-boo', 'rho-boo', 'gamma-boo', 'beta-boo', 'delta-boo', 'epsilon-boo',
+        'alpha-boo', 'zeta-boo',
+      ],
+      ['gamma-boo', 'lambda-boo', 'kappa1-boo', 'theta-boo', 'lambda-boo'],
+    ],
+  },
+  {
+    id: 'cae',
+    name: 'Caelum',
+    description: 'The Chisel',
+    lines: [['delta-cae', 'alpha-cae', 'beta-cae', 'gamma-cae']],
+  },
+  {
+    id: 'cam',
+    name: 'Camelopardalis',
+    description: 'The Giraffe',
+    lines: [['7-cam', 'beta-cam', 'alpha-cam', 'gamma-cam', 'hip17884-cam', 'hip16228-cam'], ['alpha-cam', 'hip29997-cam', 'hip33694-cam']],
+  },
+  {
+    id: 'cnc',
+    name: 'Cancer',
+    description: 'The Crab',
+    lines: [['alpha-cnc', 'delta-cnc', 'gamma-cnc', 'hip43100-cnc'], ['delta-cnc', 'beta-cnc']],
+  },
+  {
+    id: 'cvn',
+    name: 'Canes Venatici',
+    description: 'The Hunting Dogs',
+    lines: [['alpha1-cvn', 'beta-cvn']],
+  },
+  {
+    id: 'cma',
+    name: 'Canis Major',
+    description: 'The Great Dog',
+    lines: [
+      ['beta-cma', 'alpha-cma', 'omicron2-cma', 'delta-cma', 'sigma-cma', 'epsilon-cma', 'zeta-cma'],
+      ['eta-cma', 'delta-cma'],
+      ['alpha-cma', 'iota-cma', 'gamma-cma', 'theta-cma', 'iota-cma'],
+    ],
+  },
+  {
+    id: 'cmi',
+    name: 'Canis Minor',
+    description: 'The Little Dog',
+    lines: [['alpha-cmi', 'beta-cmi']],
+  },
+  {
+    id: 'cap',
+    name: 'Capricornus',
+    description: 'The Sea Goat',
+    lines: [
+      [
+        'alpha1-cap', 'beta-cap', 'rho-cap', 'psi-cap', 'omega-cap', 'zeta-cap', 'delta-cap', 'gamma-cap',
+        'iota-cap', 'theta-cap', 'alpha1-cap',
+      ],
+    ],
+  },
+  {
+    id: 'car',
+    name: 'Carina',
+    description: 'The Keel',
+    lines: [
+      [
+        'nu-pup', 'alpha-car', 'beta-car', 'omega-car', 'theta-car', 'p-car', 'q-car', 'iota-car',
+        'epsilon-car', 'chi-car', 'gamma2-vel', 'delta-vel', 'iota-car',
+      ],
+      ['theta-car', 'z-car', 'z2-car', 'y-car', 'x-car', 'u-car', 'p-car'],
+    ],
+  },
+  {
+    id: 'cas',
+    name: 'Cassiopeia',
+    description: 'The Queen',
+    lines: [['epsilon-cas', 'delta-cas', 'gamma-cas', 'alpha-cas', 'beta-cas']],
+  },
+  {
+    id: 'cen',
+    name: 'Centaurus',
+    description: 'The Centaur',
+    lines: [
+      [
+        'pi-cen', 'delta-cen', 'sigma-cen', 'gamma-cen', 'epsilon-cen', 'zeta-cen', 'mu-cen', 'nu-cen',
+        'theta-cen', 'eta-cen', 'kappa-cen',
+      ],
+      ['nu-cen', 'iota-cen'],
+      ['alpha2-cen', 'epsilon-cen', 'beta-cen'],
+      ['sigma-cen', 'rho-cen', 'omicron1-cen'],
+    ],
+  },
+  {
+    id: 'cep',
+    name: 'Cepheus',
+    description: 'The King',
+    lines: [
+      [
+        'theta-cep', 'eta-cep', 'alpha-cep', 'mu-cep', 'epsilon-cep', 'zeta-cep', 'delta-cep', 'iota-cep',
+        'gamma-cep', 'beta-cep', 'alpha-cep',
+      ],
+      ['beta-cep', 'iota-cep'],
+    ],
+  },
+  {
+    id: 'cet',
+    name: 'Cetus',
+    description: 'The Whale',
+    lines: [
+      [
+        'gamma-cet', 'nu-cet', 'xi2-cet', 'mu-cet', 'lambda-cet', 'alpha-cet', 'gamma-cet', 'delta-cet',
+        'omicron-cet', 'zeta-cet', 'tau-cet', 'beta-cet', 'iota-cet', 'eta-cet', 'theta-cet', 'zeta-cet',
+      ],
+    ],
+  },
+  {
+    id: 'cha',
+    name: 'Chamaeleon',
+    description: 'The Chameleon',
+    lines: [['alpha-cha', 'gamma-cha', 'delta1-cha', 'beta-cha', 'epsilon-cha', 'gamma-cha']],
+  },
+  {
+    id: 'cir',
+    name: 'Circinus',
+    description: 'The Compasses',
+    lines: [['beta-cir', 'alpha-cir', 'gamma-cir']],
+  },
+  {
+    id: 'col',
+    name: 'Columba',
+    description: 'The Dove',
+    lines: [['delta-col', 'beta-col', 'alpha-col', 'epsilon-col'], ['beta-col', 'eta-col']],
+  },
+  {
+    id: 'com',
+    name: 'Coma Berenices',
+    description: 'Berenice\'s Hair',
+    lines: [['alpha-com', 'beta-com', 'gamma-com']],
+  },
+  {
+    id: 'cra',
+    name: 'Corona Austrina',
+    description: 'The Southern Crown',
+    lines: [['epsilon-cra', 'gamma-cra', 'alpha-cra', 'beta-cra', 'delta-cra', 'zeta-cra', 'eta2-cra', 'theta-cra']],
+  },
+  {
+    id: 'crb',
+    name: 'Corona Borealis',
+    description: 'The Northern Crown',
+    lines: [['theta-crb', 'beta-crb', 'alpha-crb', 'gamma-crb', 'delta-crb', 'epsilon-crb', 'iota-crb']],
+  },
+  {
+    id: 'crv',
+    name: 'Corvus',
+    description: 'The Crow',
+    lines: [['alpha-crv', 'epsilon-crv', 'gamma-crv', 'delta-crv', 'beta-crv', 'epsilon-crv']],
+  },
+  {
+    id: 'crt',
+    name: 'Crater',
+    description: 'The Cup',
+    lines: [
+      [
+        'theta-crt', 'epsilon-crt', 'delta-crt', 'alpha-crt', 'beta-crt', 'lambda-crt', 'gamma-crt',
+        'zeta-crt', 'eta-crt',
+      ],
+      ['delta-crt', 'gamma-crt'],
+    ],
+  },
+  {
+    id: 'cru',
+    name: 'Crux',
+    description: 'The Southern Cross',
+    lines: [['beta-cru', 'delta-cru'], ['alpha1-cru', 'gamma-cru']],
+  },
+  {
+    id: 'cyg',
+    name: 'Cygnus',
+    description: 'The Swan',
+    lines: [
+      ['zeta-cyg', 'epsilon-cyg', 'gamma-cyg', 'delta-cyg', 'iota-cyg', 'kappa-cyg'],
+      ['alpha-cyg', 'gamma-cyg', 'eta-cyg', 'beta1-cyg'],
+    ],
+  },
+  {
+    id: 'del',
+    name: 'Delphinus',
+    description: 'The Dolphin',
+    lines: [['epsilon-del', 'beta-del', 'alpha-del', 'gamma1-del', 'delta-del', 'beta-del']],
+  },
+  {
+    id: 'dor',
+    name: 'Dorado',
+    description: 'The Swordfish',
+    lines: [['gamma-dor', 'alpha-dor', 'beta-dor', 'delta-dor', '36-dor', 'beta-dor', 'zeta-dor', 'alpha-dor']],
+  },
+  {
+    id: 'dra',
+    name: 'Draco',
+    description: 'The Dragon',
+    lines: [
+      [
+        'xi-dra', 'gamma-dra', 'beta-dra', 'nu2-dra', 'xi-dra', 'delta-dra', 'phi-dra', 'zeta-dra', 'eta-dra',
+        'theta-dra', 'iota-dra', 'alpha-dra', 'kappa-dra', 'lambda-dra',
+      ],
+      ['phi-dra', 'chi-dra'],
+      ['delta-dra', 'epsilon-dra'],
+    ],
+  },
+  {
+    id: 'equ',
+    name: 'Equuleus',
+    description: 'The Little Horse',
+    lines: [['alpha-equ', 'delta-equ', 'gamma-equ']],
+  },
+  {
+    id: 'eri',
+    name: 'Eridanus',
+    description: 'The River',
+    lines: [
+      [
+        'beta-eri', 'mu-eri', 'nu-eri', 'omicron1-eri', 'gamma-eri', 'pi-eri', 'delta-eri', 'epsilon-eri',
+        'eta-eri', 'pi-cet', 'tau1-eri', 'tau3-eri', 'tau4-eri', 'tau5-eri', 'tau6-eri', 'upsilon2-eri',
+        '43-eri', 'upsilon4-eri', 'g-eri', 'y-eri', 'e-eri', 'theta1-eri', 'iota-eri', 'kappa-eri', 'phi-eri',
+        'chi-eri', 'alpha-eri',
+      ],
+    ],
+  },
+  {
+    id: 'for',
+    name: 'Fornax',
+    description: 'The Furnace',
+    lines: [['alpha-for', 'beta-for', 'nu-for']],
+  },
+  {
+    id: 'gem',
+    name: 'Gemini',
+    description: 'The Twins',
+    lines: [
+      [
+        'eta-gem', 'mu-gem', 'epsilon-gem', 'tau-gem', 'alpha-gem', 'beta-gem', 'upsilon-gem', 'delta-gem',
+        'zeta-gem', 'gamma-gem', 'xi-gem',
+      ],
+      ['delta-gem', 'lambda-gem'],
+    ],
+  },
+  {
+    id: 'gru',
+    name: 'Grus',
+    description: 'The Crane',
+    lines: [
+      ['zeta-gru', 'epsilon-gru', 'beta-gru', 'delta2-gru', 'alpha-gru', 'beta-gru'],
+      ['delta1-gru', 'mu1-gru', 'lambda-gru', 'gamma-gru'],
+    ],
+  },
+  {
+    id: 'her',
+    name: 'Hercules',
+    description: 'The Hero',
+    lines: [
+      ['gamma-her', 'beta-her', 'zeta-her', 'eta-her', 'sigma-her', 'tau-her', 'phi-her', 'chi-her'],
+      ['zeta-her', 'epsilon-her'],
+      ['eta-her', 'pi-her'],
+      ['theta-her', 'rho-her', 'pi-her', 'epsilon-her', 'delta-her', 'mu-her', 'xi-her', 'omicron-her'],
+      ['alpha1-her', 'beta-her'],
+    ],
+  },
+  {
+    id: 'hor',
+    name: 'Horologium',
+    description: 'The Pendulum Clock',
+    lines: [['alpha-hor', 'iota-hor', 'eta-hor', 'zeta-hor', 'mu-hor', 'beta-hor']],
+  },
+  {
+    id: 'hya',
+    name: 'Hydra',
+    description: 'The Water Snake',
+    lines: [
+      [
+        'epsilon-hya', 'rho-hya', 'eta-hya', 'sigma-hya', 'delta-hya', 'epsilon-hya', 'zeta-hya', 'theta-hya',
+        'iota-hya', 'alpha-hya', 'upsilon1-hya', 'lambda-hya', 'mu-hya', 'nu-hya', 'xi-hya', 'beta-hya',
+        'gamma-hya', 'pi-hya', 'E-hya',
+      ],
+    ],
+  },
+  {
+    id: 'hyi',
+    name: 'Hydrus',
+    description: 'The Lesser Water Snake',
+    lines: [['beta-hyi', 'gamma-hyi', 'epsilon-hyi', 'delta-hyi', 'eta2-hyi', 'alpha-hyi']],
+  },
+  {
+    id: 'ind',
+    name: 'Indus',
+    description: 'The Indian',
+    lines: [['alpha-ind', 'eta-ind', 'beta-ind', 'delta-ind', 'theta-ind', 'alpha-ind']],
+  },
+  {
+    id: 'lac',
+    name: 'Lacerta',
+    description: 'The Lizard',
+    lines: [
+      ['beta-lac', 'alpha-lac', '5-lac', '2-lac', '6-lac', '11-lac', '5-lac', '4-lac', 'beta-lac'],
+      ['6-lac', 'hip109754-lac', '1-lac'],
+    ],
+  },
+  {
+    id: 'leo',
+    name: 'Leo',
+    description: 'The Lion',
+    lines: [
+      ['alpha-leo', 'eta-leo', 'gamma1-leo', 'delta-leo', 'beta-leo', 'theta-leo', 'alpha-leo'],
+      ['gamma1-leo', 'zeta-leo', 'mu-leo', 'epsilon-leo'],
+    ],
+  },
+  {
+    id: 'lmi',
+    name: 'Leo Minor',
+    description: 'The Lesser Lion',
+    lines: [['21-lmi', '30-lmi', '46-lmi', 'beta-lmi', '21-lmi', '10-lmi']],
+  },
+  {
+    id: 'lep',
+    name: 'Lepus',
+    description: 'The Hare',
+    lines: [
+      ['theta-lep', 'eta-lep', 'zeta-lep', 'alpha-lep', 'mu-lep', 'epsilon-lep', 'beta-lep', 'gamma-lep', 'delta-lep'],
+      ['kappa-lep', 'mu-lep', 'lambda-lep'],
+    ],
+  },
+  {
+    id: 'lib',
+    name: 'Libra',
+    description: 'The Scales',
+    lines: [['sigma-lib', 'alpha2-lib', 'beta-lib', 'gamma-lib', 'upsilon-lib', 'tau-lib'], ['alpha2-lib', 'gamma-lib']],
+  },
+  {
+    id: 'lup',
+    name: 'Lupus',
+    description: 'The Wolf',
+    lines: [
+      [
+        'chi-lup', 'psi1-lup', 'phi1-lup', 'delta-lup', 'beta-lup', 'alpha-lup', 'zeta-lup', 'mu-lup',
+        'epsilon-lup', 'gamma-lup', 'eta-lup', 'theta-lup',
+      ],
+      ['delta-lup', 'gamma-lup'],
+    ],
+  },
+  {
+    id: 'lyn',
+    name: 'Lynx',
+    description: 'The Lynx',
+    lines: [['2-lyn', '15-lyn', '21-lyn', '31-lyn', '10-uma', '38-lyn', 'alpha-lyn']],
+  },
+  {
+    id: 'lyr',
+    name: 'Lyra',
+    description: 'The Lyre',
+    lines: [['zeta1-lyr', 'epsilon2-lyr', 'alpha-lyr', 'zeta1-lyr', 'delta2-lyr', 'gamma-lyr', 'beta-lyr', 'zeta1-lyr']],
+  },
+  {
+    id: 'men',
+    name: 'Mensa',
+    description: 'The Table Mountain',
+    lines: [['alpha-men', 'gamma-men', 'eta-men', 'beta-men']],
+  },
+  {
+    id: 'mic',
+    name: 'Microscopium',
+    description: 'The Microscope',
+    lines: [['alpha-mic', 'iota-mic', 'theta1-mic', 'epsilon-mic', 'gamma-mic', 'alpha-mic']],
+  },
+  {
+    id: 'mon',
+    name: 'Monoceros',
+    description: 'The Unicorn',
+    lines: [['alpha-mon', 'zeta-mon', 'delta-mon', 'beta-mon', 'gamma-mon'], ['delta-mon', '18-mon', 'epsilon-mon', '13-mon', '15-mon']],
+  },
+  {
+    id: 'mus',
+    name: 'Musca',
+    description: 'The Fly',
+    lines: [['lambda-mus', 'epsilon-mus', 'alpha-mus', 'beta-mus', 'delta-mus', 'gamma-mus', 'alpha-mus']],
+  },
+  {
+    id: 'nor',
+    name: 'Norma',
+    description: 'The Carpenter\'s Square',
+    lines: [['delta-nor', 'epsilon-nor', 'gamma2-nor', 'eta-nor', 'delta-nor']],
+  },
+  {
+    id: 'oct',
+    name: 'Octans',
+    description: 'The Octant',
+    lines: [['delta-oct', 'beta-oct', 'nu-oct', 'delta-oct']],
+  },
+  {
+    id: 'oph',
+    name: 'Ophiuchus',
+    description: 'The Serpent Bearer',
+    lines: [
+      [
+        'nu-oph', 'gamma-oph', 'beta-oph', 'alpha-oph', 'kappa-oph', 'lambda-oph', 'delta-oph', 'epsilon-oph',
+        'zeta-oph', 'eta-oph',
+      ],
+      ['kappa-oph', 'zeta-oph', 'phi-oph', 'chi-oph', 'psi-oph', 'rho-oph'],
+      ['beta-oph', 'eta-oph', 'theta-oph', 'd-oph'],
+    ],
+  },
+  {
+    id: 'ori',
+    name: 'Orion',
+    description: 'The Hunter',
+    lines: [
+      ['nu-ori', 'chi1-ori', 'chi2-ori', 'xi-ori', 'mu-ori', 'alpha-ori', 'gamma-ori', 'pi1-ori'],
+      ['pi6-ori', 'pi5-ori', 'pi4-ori', 'pi3-ori', 'pi2-ori', 'pi1-ori', 'omicron2-ori', '11-ori', '15-ori'],
+      ['beta-ori', 'eta-ori', 'delta-ori', 'gamma-ori', 'lambda-ori', 'alpha-ori', 'zeta-ori', 'kappa-ori'],
+      ['zeta-ori', 'epsilon-ori', 'delta-ori'],
+    ],
+  },
+  {
+    id: 'pav',
+    name: 'Pavo',
+    description: 'The Peacock',
+    lines: [
+      [
+        'alpha-pav', 'beta-pav', 'delta-pav', 'lambda-pav', 'xi-pav', 'pi-pav', 'eta-pav', 'zeta-pav',
+        'epsilon-pav', 'beta-pav', 'gamma-pav',
+      ],
+    ],
+  },
+  {
+    id: 'peg',
+    name: 'Pegasus',
+    description: 'The Winged Horse',
+    lines: [
+      [
+        'pi-peg', 'eta-peg', 'beta-peg', 'alpha-and', 'gamma-peg', 'alpha-peg', 'xi-peg', 'zeta-peg',
+        'theta-peg', 'epsilon-peg',
+      ],
+      ['alpha-peg', 'beta-peg', 'mu-peg', 'lambda-peg', 'iota-peg', 'kappa-peg'],
+    ],
+  },
+  {
+    id: 'per',
+    name: 'Perseus',
+    description: 'The Hero',
+    lines: [
+      [
+        'omicron-per', 'zeta-per', 'xi-per', 'epsilon-per', 'nu-per', 'delta-per', 'psi-per', 'alpha-per',
+        'gamma-per', 'eta-per', 'tau-per', 'iota-per', 'kappa-per', 'beta-per', 'omega-per', 'rho-per',
+        'pi-per', 'hip13949-per', 'beta-per',
+      ],
+      ['lambda-per', 'mu-per', 'c-per', 'delta-per'],
+      ['iota-per', 'theta-per', 'phi-per'],
+    ],
+  },
+  {
+    id: 'phe',
+    name: 'Phoenix',
+    description: 'The Phoenix',
+    lines: [['alpha-phe', 'beta-phe', 'gamma-phe', 'delta-phe', 'zeta-phe', 'beta-phe', 'epsilon-phe', 'alpha-phe']],
+  },
+  {
+    id: 'pic',
+    name: 'Pictor',
+    description: 'The Painter\'s Easel',
+    lines: [['alpha-pic', 'gamma-pic', 'beta-pic']],
+  },
+  {
+    id: 'psc',
+    name: 'Pisces',
+    description: 'The Fishes',
+    lines: [
+      [
+        'phi-psc', 'tau-psc', 'upsilon-psc', 'phi-psc', 'chi-psc', 'eta-psc', 'omicron-psc', 'alpha-psc',
+        'xi-psc', 'nu-psc', 'mu-psc', 'zeta-psc', 'epsilon-psc', 'delta-psc', 'omega-psc', 'iota-psc',
+        'theta-psc', 'b-psc', 'gamma-psc', 'kappa-psc', 'lambda-psc', '19-psc', 'iota-psc',
+      ],
+      ['gamma-psc', 'beta-psc'],
+    ],
+  },
+  {
+    id: 'psa',
+    name: 'Piscis Austrinus',
+    description: 'The Southern Fish',
+    lines: [['epsilon-psa', 'alpha-psa', 'delta-psa', 'gamma-psa', 'beta-psa', 'mu-psa', 'iota-psa', 'theta-psa', 'mu-psa', 'epsilon-psa']],
+  },
+  {
+    id: 'pup',
+    name: 'Puppis',
+    description: 'The Stern',
+    lines: [
+      ['nu-pup', 'pi-pup', 'p-pup', 'kappa1-pup', 'xi-pup', 'j-pup', 'rho-pup', 'zeta-pup', 'gamma2-vel'],
+      ['xi-pup', 'omicron-pup', 'l-pup', 'p-pup'],
+    ],
+  },
+  {
+    id: 'pyx',
+    name: 'Pyxis',
+    description: 'The Mariner\'s Compass',
+    lines: [['zeta-pup', 'beta-pyx', 'alpha-pyx', 'gamma-pyx']],
+  },
+  {
+    id: 'ret',
+    name: 'Reticulum',
+    description: 'The Reticle',
+    lines: [['alpha-ret', 'epsilon-ret', 'delta-ret', 'beta-ret', 'alpha-ret']],
+  },
+  {
+    id: 'sge',
+    name: 'Sagitta',
+    description: 'The Arrow',
+    lines: [['alpha-sge', 'delta-sge', 'gamma-sge'], ['beta-sge', 'delta-sge']],
+  },
+  {
+    id: 'sgr',
+    name: 'Sagittarius',
+    description: 'The Archer',
+    lines: [
+      ['eta-sgr', 'epsilon-sgr', 'delta-sgr', 'lambda-sgr', 'mu-sgr'],
+      ['beta1-sgr', 'alpha-sgr', 'zeta-sgr', 'phi-sgr', 'lambda-sgr'],
+      [
+        'iota-sgr', 'theta1-sgr', 'omega-sgr', 'h2-sgr', 'chi1-sgr', 'psi-sgr', 'sigma-sgr', 'phi-sgr',
+        'delta-sgr', 'gamma2-sgr', 'epsilon-sgr', 'zeta-sgr', 'tau-sgr', 'sigma-sgr', 'omicron-sgr', 'pi-sgr',
+        'd-sgr', 'rho1-sgr', 'upsilon-sgr',
+      ],
+      ['omicron-sgr', 'xi2-sgr', 'nu1-sgr', 'sigma-sgr'],
+    ],
+  },
+  {
+    id: 'sco',
+    name: 'Scorpius',
+    description: 'The Scorpion',
+    lines: [
+      ['pi-sco', 'delta-sco', 'beta1-sco'],
+      [
+        'delta-sco', 'sigma-sco', 'alpha-sco', 'tau-sco', 'epsilon-sco', 'mu1-sco', 'zeta2-sco', 'eta-sco',
+        'theta-sco', 'iota1-sco', 'kappa-sco', 'lambda-sco',
+      ],
+    ],
+  },
+  {
+    id: 'scl',
+    name: 'Sculptor',
+    description: 'The Sculptor\'s Workshop',
+    lines: [['alpha-scl', 'delta-scl', 'gamma-scl', 'beta-scl']],
+  },
+  {
+    id: 'sct',
+    name: 'Scutum',
+    description: 'The Shield',
+    lines: [['alpha-sct', 'beta-sct', 'delta-sct', 'gamma-sct', 'alpha-sct']],
+  },
+  {
+    id: 'ser',
+    name: 'Serpens',
+    description: 'The Serpent',
+    lines: [
+      [
+        'beta-ser', 'iota-ser', 'kappa-ser', 'gamma-ser', 'beta-ser', 'delta-ser', 'alpha-ser', 'epsilon-ser',
+        'delta-oph',
+      ],
+      ['eta-oph', 'xi-ser', 'nu-oph', 'tau-oph', 'eta-ser', 'theta1-ser'],
+    ],
+  },
+  {
+    id: 'sex',
+    name: 'Sextans',
+    description: 'The Sextant',
+    lines: [['alpha-sex', 'gamma-sex', 'delta-sex', 'beta-sex']],
+  },
+  {
+    id: 'tau',
+    name: 'Taurus',
+    description: 'The Bull',
+    lines: [
+      ['zeta-tau', 'alpha-tau', 'theta2-tau', 'gamma-tau', 'delta-tau', 'epsilon-tau', 'beta-tau'],
+      ['gamma-tau', 'lambda-tau', 'xi-tau', 'nu-tau'],
+      ['xi-tau', 'omicron-tau', '10-tau'],
+    ],
+  },
+  {
+    id: 'tel',
+    name: 'Telescopium',
+    description: 'The Telescope',
+    lines: [['epsilon-tel', 'alpha-tel', 'zeta-tel']],
+  },
+  {
+    id: 'tri',
+    name: 'Triangulum',
+    description: 'The Triangle',
+    lines: [['alpha-tri', 'beta-tri', 'gamma-tri', 'alpha-tri']],
+  },
+  {
+    id: 'tra',
+    name: 'Triangulum Australe',
+    description: 'The Southern Triangle',
+    lines: [['alpha-tra', 'beta-tra', 'gamma-tra', 'alpha-tra']],
+  },
+  {
+    id: 'tuc',
+    name: 'Tucana',
+    description: 'The Toucan',
+    lines: [['alpha-tuc', 'gamma-tuc', 'beta1-tuc', 'zeta-tuc', 'epsilon-tuc', 'delta-tuc', 'alpha-tuc']],
+  },
+  {
+    id: 'uma',
+    name: 'Ursa Major',
+    description: 'The Great Bear',
+    lines: [
+      ['delta-uma', 'alpha-uma', 'beta-uma', 'gamma-uma', 'delta-uma', 'epsilon-uma', 'zeta-uma', 'eta-uma'],
+      ['gamma-uma', 'chi-uma', 'nu-uma', 'xi-uma'],
+      ['chi-uma', 'psi-uma', 'mu-uma'],
+      ['psi-uma', 'lambda-uma'],
+      ['alpha-uma', 'h-uma', 'omicron-uma', 'upsilon-uma', 'beta-uma'],
+      ['beta-uma', 'phi-uma', 'theta-uma', 'iota-uma'],
+      ['kappa-uma', 'theta-uma'],
+    ],
+  },
+  {
+    id: 'umi',
+    name: 'Ursa Minor',
+    description: 'The Little Bear',
+    lines: [['zeta-umi', 'eta-umi', 'gamma-umi', 'beta-umi', 'zeta-umi', 'epsilon-umi', 'delta-umi', 'alpha-umi']],
+  },
+  {
+    id: 'vel',
+    name: 'Vela',
+    description: 'The Sails',
+    lines: [['delta-vel', 'kappa-vel', 'phi-vel', 'mu-vel', 'q-vel', 'psi-vel', 'lambda-vel', 'gamma2-vel']],
+  },
+  {
+    id: 'vir',
+    name: 'Virgo',
+    description: 'The Maiden',
+    lines: [
+      ['nu-vir', 'beta-vir', 'eta-vir', 'gamma-vir', 'theta-vir', 'alpha-vir', 'iota-vir', 'mu-vir'],
+      ['epsilon-vir', 'delta-vir', 'gamma-vir'],
+      ['theta-vir', 'zeta-vir', 'tau-vir', '109-vir'],
+    ],
+  },
+  {
+    id: 'vol',
+    name: 'Volans',
+    description: 'The Flying Fish',
+    lines: [['alpha-vol', 'beta-vol', 'epsilon-vol', 'delta-vol', 'gamma2-vol', 'epsilon-vol', 'alpha-vol']],
+  },
+  {
+    id: 'vul',
+    name: 'Vulpecula',
+    description: 'The Little Fox',
+    lines: [['1-vul', 'alpha-vul', '13-vul', '15-vul', '23-vul']],
+  },
+];
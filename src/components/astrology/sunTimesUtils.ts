@@ -0,0 +1,150 @@
+/**
+ * Corp Astro UI Library - Sunrise, Sunset and Kaal Periods
+ *
+ * Solar day for an observer: sunrise, sunset and civil twilight from the
+ * offline ephemeris, and the daily inauspicious periods reckoned from them.
+ *
+ * Rahu Kaal, Yamaganda and Gulika Kaal each take one of the eight equal
+ * parts of daytime (sunrise to sunset); which part depends on the weekday.
+ * Sunrise and sunset refer to the upper limb with standard refraction
+ * (-0°50'); civil twilight begins and ends with the Sun's centre 6° below
+ * the horizon.
+ *
+ * @module sunTimesUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import {
+  ObserverLocation,
+  DEFAULT_OBSERVER_LOCATION,
+  calculateAltitude,
+  findHorizonCrossings,
+  localDayStart,
+} from './horizonUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Daily inauspicious periods
+ */
+export type KaalPeriod = 'rahu_kaal' | 'yamaganda' | 'gulika_kaal';
+
+/**
+ * A span of time
+ */
+export interface TimeWindow {
+  /** Start of the window */
+  start: Date;
+  /** End of the window */
+  end: Date;
+}
+
+/**
+ * Solar events of one local day
+ *
+ * Near the poles the Sun may not rise or set, in which case the events and
+ * the kaal periods are left undefined.
+ */
+export interface SunTimes {
+  /** Sunrise */
+  sunrise?: Date;
+  /** Sunset */
+  sunset?: Date;
+  /** Start of morning civil twilight */
+  civilDawn?: Date;
+  /** End of evening civil twilight */
+  civilDusk?: Date;
+  /** Length of daytime in hours */
+  dayLength?: number;
+  /** Inauspicious periods of the day */
+  kaal?: Record<KaalPeriod, TimeWindow>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Altitude of the Sun's centre at sunrise and sunset */
+export const SUNRISE_ALTITUDE = -0.8333;
+
+/** Altitude of the Sun's centre at the limits of civil twilight */
+export const CIVIL_TWILIGHT_ALTITUDE = -6;
+
+/**
+ * Display names for each period
+ */
+export const KAAL_PERIOD_NAMES: Record<KaalPeriod, string> = {
+  rahu_kaal: 'Rahu Kaal',
+  yamaganda: 'Yamaganda',
+  gulika_kaal: 'Gulika Kaal',
+};
+
+/**
+ * Eighth of daytime (1-8) occupied by each period, Sunday first
+ */
+export const KAAL_SEGMENTS: Record<KaalPeriod, number[]> = {
+  rahu_kaal: [8, 2, 7, 5, 6, 4, 3],
+  yamaganda: [5, 4, 3, 2, 1, 7, 6],
+  gulika_kaal: [7, 6, 5, 4, 3, 2, 1],
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Weekday (Sunday = 0) of the location's calendar day containing a date
+ */
+function localWeekday(date: Date, timezone: number): number {
+  return new Date(date.getTime() + timezone * 3600000).getUTCDay();
+}
+
+/**
+ * Inauspicious periods of a day from its sunrise and sunset
+ */
+export function calculateKaalPeriods(
+  sunrise: Date,
+  sunset: Date,
+  weekday: number
+): Record<KaalPeriod, TimeWindow> {
+  if (sunset <= sunrise) {
+    throw new Error('Sunset must fall after sunrise');
+  }
+  const part = (sunset.getTime() - sunrise.getTime()) / 8;
+  const window = (segment: number): TimeWindow => ({
+    start: new Date(sunrise.getTime() + (segment - 1) * part),
+    end: new Date(sunrise.getTime() + segment * part),
+  });
+
+  return {
+    rahu_kaal: window(KAAL_SEGMENTS.rahu_kaal[weekday]),
+    yamaganda: window(KAAL_SEGMENTS.yamaganda[weekday]),
+    gulika_kaal: window(KAAL_SEGMENTS.gulika_kaal[weekday]),
+  };
+}
+
+/**
+ * Sunrise, sunset, civil twilight and kaal periods on the location's
+ * calendar day containing a date
+ */
+export function calculateSunTimes(date: Date, location: ObserverLocation = DEFAULT_OBSERVER_LOCATION): SunTimes {
+  const start = localDayStart(date, location.timezone);
+  const sunHeight = (target: number) => (jd: number) => calculateAltitude('sun', jd, location).altitude - target;
+
+  const { rise: sunrise, set: sunset } = findHorizonCrossings(sunHeight(SUNRISE_ALTITUDE), start);
+  const { rise: civilDawn, set: civilDusk } = findHorizonCrossings(sunHeight(CIVIL_TWILIGHT_ALTITUDE), start);
+
+  const hasDay = sunrise !== undefined && sunset !== undefined && sunset > sunrise;
+
+  return {
+    sunrise,
+    sunset,
+    civilDawn,
+    civilDusk,
+    dayLength: hasDay ? (sunset.getTime() - sunrise.getTime()) / 3600000 : undefined,
+    kaal: hasDay ? calculateKaalPeriods(sunrise, sunset, localWeekday(date, location.timezone)) : undefined,
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Corp Astro UI Library - Synastry, Transit and Composite Charts
+ *
+ * Builds the data behind the AstrologyWheel's bi-wheel and composite modes:
+ * aspects between two sets of planets (natal against transiting, or partner
+ * against partner), bi-wheel data with the second chart placed in the natal
+ * houses, and composite charts from the midpoints of two charts.
+ *
+ * Composite charts use the midpoint method: each composite planet and house
+ * cusp is the nearer midpoint of the two charts' positions.
+ *
+ * @module synastryUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { AstrologyWheelData, AspectData, HouseData, PlanetPosition } from './AstrologyWheel';
+import type { ZodiacSign } from './ZodiacCard';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Aspect type drawn on the wheel
+ */
+export type WheelAspectType = AspectData['type'];
+
+/**
+ * Options for aspect calculation
+ */
+export interface WheelAspectOptions {
+  /** Multiplier applied to every orb (default: 1) */
+  orbScale?: number;
+}
+
+/**
+ * Options for bi-wheel data
+ */
+export interface BiWheelOptions extends WheelAspectOptions {
+  /** Chart title (defaults to the natal title) */
+  title?: string;
+  /** Date of the transit or partner chart */
+  date?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Aspect angles and maximum orbs in degrees
+ */
+export const WHEEL_ASPECTS: Record<WheelAspectType, { angle: number; orb: number }> = {
+  conjunction: { angle: 0, orb: 8 },
+  opposition: { angle: 180, orb: 8 },
+  trine: { angle: 120, orb: 6 },
+  square: { angle: 90, orb: 6 },
+  sextile: { angle: 60, orb: 4 },
+  quincunx: { angle: 150, orb: 3 },
+};
+
+/**
+ * Transits are read with half the natal orbs
+ */
+export const TRANSIT_ORB_SCALE = 0.5;
+
+const ZODIAC_SIGNS: ZodiacSign[] = [
+  'aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo',
+  'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces',
+];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize a longitude to 0-360
+ */
+function normalizeDegrees(degree: number): number {
+  return ((degree % 360) + 360) % 360;
+}
+
+/**
+ * Zodiac sign of a longitude
+ */
+function signFromDegree(degree: number): ZodiacSign {
+  return ZODIAC_SIGNS[Math.floor(normalizeDegrees(degree) / 30)];
+}
+
+/**
+ * Midpoint of two longitudes along the shorter arc
+ */
+export function getMidpoint(degree1: number, degree2: number): number {
+  const difference = ((degree2 - degree1 + 540) % 360) - 180;
+  return normalizeDegrees(degree1 + difference / 2);
+}
+
+/**
+ * House of a longitude given a chart's houses
+ */
+export function getWheelHouse(degree: number, houses: HouseData[]): number {
+  const sorted = [...houses].sort((a, b) => a.number - b.number);
+  const longitude = normalizeDegrees(degree);
+
+  for (let index = 0; index < sorted.length; index++) {
+    const start = normalizeDegrees(sorted[index].cusp);
+    const end = normalizeDegrees(sorted[(index + 1) % sorted.length].cusp);
+    const span = normalizeDegrees(end - start) || 360;
+    if (normalizeDegrees(longitude - start) < span) {
+      return sorted[index].number;
+    }
+  }
+
+  return 1;
+}
+
+/**
+ * Closest aspect between two longitudes, if within orb
+ */
+function findAspect(
+  degree1: number,
+  degree2: number,
+  orbScale: number
+): { type: WheelAspectType; degree: number; strength: number } | null {
+  const distance = Math.abs(((degree2 - degree1 + 540) % 360) - 180);
+  let closest: { type: WheelAspectType; degree: number; strength: number } | null = null;
+  let closestOrb = Infinity;
+
+  for (const [type, { angle, orb }] of Object.entries(WHEEL_ASPECTS) as [WheelAspectType, { angle: number; orb: number }][]) {
+    const maxOrb = orb * orbScale;
+    const actualOrb = Math.abs(distance - angle);
+    if (actualOrb <= maxOrb && actualOrb < closestOrb) {
+      closestOrb = actualOrb;
+      closest = { type, degree: angle, strength: Math.round(100 - (actualOrb / maxOrb) * 100) };
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Aspects between the planets of one chart
+ */
+export function calculateWheelAspects(
+  planets: PlanetPosition[],
+  options: WheelAspectOptions = {}
+): AspectData[] {
+  const { orbScale = 1 } = options;
+  const aspects: AspectData[] = [];
+
+  for (let i = 0; i < planets.length; i++) {
+    for (let j = i + 1; j < planets.length; j++) {
+      const aspect = findAspect(planets[i].degree, planets[j].degree, orbScale);
+      if (aspect) {
+        aspects.push({ planet1: planets[i].planet, planet2: planets[j].planet, ...aspect });
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => b.strength - a.strength);
+}
+
+/**
+ * Aspects from the planets of one chart to those of another
+ *
+ * `planet1` always belongs to the inner (natal) chart and `planet2` to the
+ * outer (transit or partner) chart. Same-planet contacts are included, as in
+ * transit returns and synastry.
+ */
+export function calculateCrossAspects(
+  inner: PlanetPosition[],
+  outer: PlanetPosition[],
+  options: WheelAspectOptions = {}
+): AspectData[] {
+  const { orbScale = 1 } = options;
+  const aspects: AspectData[] = [];
+
+  inner.forEach(innerPlanet => {
+    outer.forEach(outerPlanet => {
+      const aspect = findAspect(innerPlanet.degree, outerPlanet.degree, orbScale);
+      if (aspect) {
+        aspects.push({ planet1: innerPlanet.planet, planet2: outerPlanet.planet, ...aspect });
+      }
+    });
+  });
+
+  return aspects.sort((a, b) => b.strength - a.strength);
+}
+
+/**
+ * Bi-wheel data: a natal chart with transiting or partner planets outside it
+ *
+ * The outer planets are placed in the natal houses and aspected against the
+ * natal planets. Transits use TRANSIT_ORB_SCALE unless an orb scale is given.
+ */
+export function createBiWheelData(
+  natal: AstrologyWheelData,
+  outerPlanets: PlanetPosition[],
+  chartType: 'transit' | 'synastry',
+  options: BiWheelOptions = {}
+): AstrologyWheelData {
+  const orbScale = options.orbScale ?? (chartType === 'transit' ? TRANSIT_ORB_SCALE : 1);
+  const placedOuter = outerPlanets.map(position => ({
+    ...position,
+    sign: signFromDegree(position.degree),
+    house: getWheelHouse(position.degree, natal.houses),
+  }));
+
+  return {
+    ...natal,
+    chartType,
+    title: options.title ?? natal.title,
+    date: options.date ?? natal.date,
+    outerPlanets: placedOuter,
+    crossAspects: calculateCrossAspects(natal.planets, placedOuter, { orbScale }),
+  };
+}
+
+/**
+ * Composite chart from the midpoints of two charts
+ *
+ * Planets present in both charts get the nearer midpoint of their two
+ * positions. House cusps are midpoints too; when a cusp's nearer midpoint
+ * would fall behind the previous cusp, the opposite midpoint is used so the
+ * houses keep their zodiacal order.
+ */
+export function calculateCompositeChart(
+  chartA: AstrologyWheelData,
+  chartB: AstrologyWheelData,
+  options: WheelAspectOptions & { title?: string } = {}
+): AstrologyWheelData {
+  const housesA = [...chartA.houses].sort((a, b) => a.number - b.number);
+  const housesB = [...chartB.houses].sort((a, b) => a.number - b.number);
+  if (housesA.length !== housesB.length || housesA.length === 0) {
+    throw new Error('Composite charts require both charts to have the same houses');
+  }
+
+  const cusps: number[] = [];
+  housesA.forEach((house, index) => {
+    let cusp = getMidpoint(house.cusp, housesB[index].cusp);
+    if (index > 0) {
+      const previous = cusps[index - 1];
+      if (normalizeDegrees(cusp - previous) > 180) {
+        cusp = normalizeDegrees(cusp + 180);
+      }
+    }
+    cusps.push(cusp);
+  });
+
+  const houses: HouseData[] = housesA.map((house, index) => ({
+    number: house.number,
+    sign: signFromDegree(cusps[index]),
+    cusp: cusps[index],
+  }));
+
+  const planets: PlanetPosition[] = [];
+  chartA.planets.forEach(positionA => {
+    const positionB = chartB.planets.find(candidate => candidate.planet === positionA.planet);
+    if (!positionB) return;
+    const degree = getMidpoint(positionA.degree, positionB.degree);
+    planets.push({
+      planet: positionA.planet,
+      sign: signFromDegree(degree),
+      degree,
+      house: getWheelHouse(degree, houses),
+    });
+  });
+
+  return {
+    houses,
+    planets,
+    aspects: calculateWheelAspects(planets, options),
+    chartType: 'composite',
+    title: options.title ?? [chartA.title, chartB.title].filter(Boolean).join(' & '),
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * timeZoneUtils.ts Reference Value Test
+ * Compares resolved UTC offsets against the IANA time zone database and
+ * checks place search and birth place resolution
+ */
+
+import { resolveBirthPlace, searchPlaces } from './placesUtils';
+import { resolveLocalTime } from './timeZoneUtils';
+
+let failures = 0;
+
+const formatHours = (hours: number): string => `${hours >= 0 ? '+' : ''}${hours.toFixed(4)}h`;
+
+const checkOffset = (
+  label: string,
+  zone: string,
+  datetime: string,
+  longitude: number,
+  expected: number,
+  flags: { ambiguous?: boolean; skipped?: boolean } = {}
+) => {
+  const resolved = resolveLocalTime(zone, datetime, longitude);
+  const passed =
+    Math.abs(resolved.offset - expected) < 1e-6 &&
+    resolved.ambiguous === (flags.ambiguous ?? false) &&
+    resolved.skipped === (flags.skipped ?? false);
+  if (!passed) failures++;
+  const notes = [resolved.ambiguous && 'ambiguous', resolved.skipped && 'skipped'].filter(Boolean).join(', ');
+  console.log(
+    `${passed ? 'PASS' : 'FAIL'} ${label}: ${formatHours(resolved.offset)} ${resolved.name}${notes ? ` (${notes})` : ''} (expected ${formatHours(expected)})`
+  );
+};
+
+const checkInstant = (label: string, actual: Date, expected: string) => {
+  const passed = actual.toISOString() === new Date(expected).toISOString();
+  if (!passed) failures++;
+  console.log(`${passed ? 'PASS' : 'FAIL'} ${label}: ${actual.toISOString()} (expected ${expected})`);
+};
+
+const checkText = (label: string, actual: string | undefined, expected: string) => {
+  const passed = actual === expected;
+  if (!passed) failures++;
+  console.log(`${passed ? 'PASS' : 'FAIL'} ${label}: ${actual} (expected ${expected})`);
+};
+
+// US War Time ran year-round from 1942-02-09 to 1945-09-30
+console.log('=== US War Time ===');
+checkOffset('New York 1942-01-15', 'America/New_York', '1942-01-15T12:00', -74, -5);
+checkOffset('New York 1943-01-15', 'America/New_York', '1943-01-15T12:00', -74, -4);
+checkOffset('New York 1944-07-15', 'America/New_York', '1944-07-15T12:00', -74, -4);
+checkOffset('New York 1945-09-29', 'America/New_York', '1945-09-29T12:00', -74, -4);
+checkOffset('New York 1945-10-15', 'America/New_York', '1945-10-15T12:00', -74, -5);
+checkOffset('Chicago 1944-01-15', 'America/Chicago', '1944-01-15T12:00', -87.63, -5);
+checkOffset('Denver 1944-12-15', 'America/Denver', '1944-12-15T12:00', -104.99, -6);
+checkOffset('Los Angeles 1945-03-01', 'America/Los_Angeles', '1945-03-01T12:00', -118.24, -7);
+checkOffset('Toronto 1943-11-15', 'America/Toronto', '1943-11-15T12:00', -79.38, -4);
+checkOffset('Chicago 1950-01-15', 'America/Chicago', '1950-01-15T12:00', -87.63, -6);
+
+// British Standard Time kept GMT+1 all year from 1968-10-27 to 1971-10-31
+console.log('\n=== British Standard Time ===');
+checkOffset('London 1968-01-15', 'Europe/London', '1968-01-15T12:00', -0.13, 0);
+checkOffset('London 1968-07-15', 'Europe/London', '1968-07-15T12:00', -0.13, 1);
+checkOffset('London 1969-01-15', 'Europe/London', '1969-01-15T12:00', -0.13, 1);
+checkOffset('London 1971-01-15', 'Europe/London', '1971-01-15T12:00', -0.13, 1);
+checkOffset('London 1972-01-15', 'Europe/London', '1972-01-15T12:00', -0.13, 0);
+checkOffset('London 1972-07-15', 'Europe/London', '1972-07-15T12:00', -0.13, 1);
+
+// US clock changes of 2021: back on 7 November, forward on 14 March
+console.log('\n=== US Clock Changes 2021 ===');
+checkOffset('New York 2021-11-07 01:30', 'America/New_York', '2021-11-07T01:30', -74, -4, { ambiguous: true });
+checkInstant('New York 2021-11-07 01:30 first occurrence',
+  resolveLocalTime('America/New_York', '2021-11-07T01:30', -74).utc, '2021-11-07T05:30:00Z');
+checkOffset('New York 2021-11-07 03:00', 'America/New_York', '2021-11-07T03:00', -74, -5);
+checkOffset('New York 2021-03-14 01:30', 'America/New_York', '2021-03-14T01:30', -74, -5);
+checkOffset('New York 2021-03-14 02:30', 'America/New_York', '2021-03-14T02:30', -74, -5, { skipped: true });
+checkInstant('New York 2021-03-14 02:30 read on standard time',
+  resolveLocalTime('America/New_York', '2021-03-14T02:30', -74).utc, '2021-03-14T07:30:00Z');
+checkOffset('New York 2021-03-14 03:30', 'America/New_York', '2021-03-14T03:30', -74, -4);
+checkOffset('London 2021-03-28 01:30', 'Europe/London', '2021-03-28T01:30', -0.13, 0, { skipped: true });
+checkInstant('London 2021-03-28 01:30 read on GMT',
+  resolveLocalTime('Europe/London', '2021-03-28T01:30', -0.13).utc, '2021-03-28T01:30:00Z');
+
+// India: Indian War Time and the Bombay and Calcutta city times
+console.log('\n=== India ===');
+checkOffset('Delhi 1943-06-01', 'Asia/Kolkata', '1943-06-01T12:00', 77.21, 6.5);
+checkOffset('Delhi 1947-08-15', 'Asia/Kolkata', '1947-08-15T00:00', 77.21, 5.5);
+checkOffset('Bombay 1950-06-01', 'India/Bombay', '1950-06-01T12:00', 72.88, 4 + 51 / 60);
+checkOffset('Bombay 1956-06-01', 'India/Bombay', '1956-06-01T12:00', 72.88, 5.5);
+checkOffset('Calcutta 1940-06-01', 'India/Calcutta', '1940-06-01T12:00', 88.36, 5 + 53 / 60 + 20 / 3600);
+
+// Sydney: summer time from October to April
+console.log('\n=== Sydney ===');
+checkOffset('Sydney 2020-01-15', 'Australia/Sydney', '2020-01-15T12:00', 151.21, 11);
+checkOffset('Sydney 2020-07-15', 'Australia/Sydney', '2020-07-15T12:00', 151.21, 10);
+
+// Place search and birth place resolution
+console.log('\n=== Places ===');
+checkText('Search "Mumbay"', searchPlaces('Mumbay')[0]?.place.name, 'Mumbai');
+checkText('Search "Banglore"', searchPlaces('Banglore')[0]?.place.name, 'Bengaluru');
+checkText('Search "Hyderabad, Sindh" country', searchPlaces('Hyderabad, Sindh')[0]?.place.country, 'PK');
+const mumbai = resolveBirthPlace('Mumbai', '1950-06-01T12:00');
+checkText('Mumbai 1950 time kept', mumbai.timeName, 'Bombay Time');
+checkInstant('Mumbai 1950-06-01 12:00 birth instant', mumbai.utc, '1950-06-01T07:09:00Z');
+
+console.log(`\n=== ${failures === 0 ? 'All Tests Passed' : `${failures} Test(s) Failed`} ===`);
@@ -0,0 +1,534 @@
+/**
+ * Corp Astro UI Library - Historical Time Zones
+ *
+ * Offline table of historical UTC offsets for the zones used by the places
+ * gazetteer, in the spirit of the IANA time zone database: each zone is a
+ * list of eras, and an era either has a fixed offset or follows a set of
+ * daylight saving rules. Before standard time was adopted a place kept its
+ * local mean time, reckoned from its longitude.
+ *
+ * India is modelled with the city times the IANA database folds into
+ * Asia/Kolkata: Bombay Time (UTC+4:51) was kept in Bombay until 1955 and
+ * Calcutta Time (UTC+5:53:20) in Calcutta until 1948, while the rest of the
+ * country used Indian Standard Time from 1906, one hour ahead during the
+ * Second World War.
+ *
+ * Rules are simplified from the IANA data. Summer time before 1968 in
+ * Britain and before 1977 in continental Europe, and city-level summer time
+ * in North America before 1967 (except New York), is not modelled.
+ *
+ * @module timeZoneUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import { julianDayFromDate, julianDayFromLocal } from './ephemerisUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Day of the month a rule fires on: a date (15), the last weekday of the
+ * month ('lastSun'), or the first weekday on or after a date ('Sun>=8')
+ */
+export type RuleDay = number | string;
+
+/**
+ * One daylight saving transition, repeated yearly over a range of years
+ */
+export interface DaylightRule {
+  /** First year the rule applies */
+  from: number;
+  /** Last year the rule applies (Infinity for ongoing rules) */
+  to: number;
+  /** Month (1-12) */
+  month: number;
+  /** Day of the month */
+  day: RuleDay;
+  /** Hour of the change on the local clock (may exceed 24) */
+  at: number;
+  /** Clock `at` is read on (default: 'wall', the clock in use before the change) */
+  basis?: 'wall' | 'standard' | 'utc';
+  /** Hours added to standard time from the change on */
+  save: number;
+}
+
+/**
+ * A stretch of a zone's history with one offset or rule set
+ */
+export interface TimeZoneEra {
+  /** Standard offset from UTC in hours, east positive; 'lmt' for local mean time */
+  offset: number | 'lmt';
+  /** Fixed daylight or war time hours added to the offset */
+  save?: number;
+  /** Daylight saving rule set in force */
+  rules?: string;
+  /** Name of the time kept */
+  name?: string;
+  /** Name of the time kept while a daylight saving rule is in force */
+  daylightName?: string;
+  /** Local clock time the era ends (YYYY-MM-DDTHH:mm); the last era has none */
+  until?: string;
+}
+
+/**
+ * Offset in force at an instant
+ */
+export interface ZoneOffset {
+  /** Total offset from UTC in hours, east positive */
+  offset: number;
+  /** Standard part of the offset */
+  standardOffset: number;
+  /** Daylight or war time part of the offset */
+  daylightSaving: number;
+  /** Name of the time kept */
+  name: string;
+}
+
+/**
+ * Local clock time resolved to an instant
+ */
+export interface LocalTimeResolution extends ZoneOffset {
+  /** The instant */
+  utc: Date;
+  /** Clock time occurred twice (clocks turned back); the first is used */
+  ambiguous: boolean;
+  /** Clock time never occurred (clocks turned forward); read with the earlier offset */
+  skipped: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Daylight saving rule sets
+ */
+export const DAYLIGHT_RULES: Record<string, DaylightRule[]> = {
+  US: [
+    { from: 1918, to: 1919, month: 3, day: 'lastSun', at: 2, save: 1 },
+    { from: 1918, to: 1919, month: 10, day: 'lastSun', at: 2, save: 0 },
+    { from: 1942, to: 1942, month: 2, day: 9, at: 2, save: 1 },
+    { from: 1945, to: 1945, month: 9, day: 30, at: 2, save: 0 },
+    { from: 1967, to: 2006, month: 10, day: 'lastSun', at: 2, save: 0 },
+    { from: 1967, to: 1973, month: 4, day: 'lastSun', at: 2, save: 1 },
+    { from: 1974, to: 1974, month: 1, day: 6, at: 2, save: 1 },
+    { from: 1975, to: 1975, month: 2, day: 'lastSun', at: 2, save: 1 },
+    { from: 1976, to: 1986, month: 4, day: 'lastSun', at: 2, save: 1 },
+    { from: 1987, to: 2006, month: 4, day: 'Sun>=1', at: 2, save: 1 },
+    { from: 2007, to: Infinity, month: 3, day: 'Sun>=8', at: 2, save: 1 },
+    { from: 2007, to: Infinity, month: 11, day: 'Sun>=1', at: 2, save: 0 },
+  ],
+  NYC: [
+    { from: 1920, to: 1920, month: 3, day: 'lastSun', at: 2, save: 1 },
+    { from: 1920, to: 1920, month: 10, day: 'lastSun', at: 2, save: 0 },
+    { from: 1921, to: 1966, month: 4, day: 'lastSun', at: 2, save: 1 },
+    { from: 1921, to: 1954, month: 9, day: 'lastSun', at: 2, save: 0 },
+    { from: 1955, to: 1966, month: 10, day: 'lastSun', at: 2, save: 0 },
+  ],
+  Canada: [
+    { from: 1974, to: 1986, month: 4, day: 'lastSun', at: 2, save: 1 },
+    { from: 1974, to: 2006, month: 10, day: 'lastSun', at: 2, save: 0 },
+    { from: 1987, to: 2006, month: 4, day: 'Sun>=1', at: 2, save: 1 },
+    { from: 2007, to: Infinity, month: 3, day: 'Sun>=8', at: 2, save: 1 },
+    { from: 2007, to: Infinity, month: 11, day: 'Sun>=1', at: 2, save: 0 },
+  ],
+  EU: [
+    { from: 1977, to: 1980, month: 4, day: 'Sun>=1', at: 1, basis: 'utc', save: 1 },
+    { from: 1977, to: 1977, month: 9, day: 'lastSun', at: 1, basis: 'utc', save: 0 },
+    { from: 1978, to: 1978, month: 10, day: 1, at: 1, basis: 'utc', save: 0 },
+    { from: 1979, to: 1995, month: 9, day: 'lastSun', at: 1, basis: 'utc', save: 0 },
+    { from: 1981, to: Infinity, month: 3, day: 'lastSun', at: 1, basis: 'utc', save: 1 },
+    { from: 1996, to: Infinity, month: 10, day: 'lastSun', at: 1, basis: 'utc', save: 0 },
+  ],
+  GB: [
+    { from: 1968, to: 1968, month: 2, day: 18, at: 2, basis: 'standard', save: 1 },
+    { from: 1972, to: 1980, month: 3, day: 'Sun>=16', at: 2, basis: 'standard', save: 1 },
+    { from: 1972, to: 1980, month: 10, day: 'Sun>=23', at: 2, basis: 'standard', save: 0 },
+    { from: 1981, to: Infinity, month: 3, day: 'lastSun', at: 1, basis: 'utc', save: 1 },
+    { from: 1981, to: 1989, month: 10, day: 'Sun>=23', at: 1, basis: 'utc', save: 0 },
+    { from: 1990, to: 1995, month: 10, day: 'Sun>=22', at: 1, basis: 'utc', save: 0 },
+    { from: 1996, to: Infinity, month: 10, day: 'lastSun', at: 1, basis: 'utc', save: 0 },
+  ],
+  France: [
+    { from: 1976, to: 1976, month: 3, day: 28, at: 1, save: 1 },
+    { from: 1976, to: 1976, month: 9, day: 26, at: 1, save: 0 },
+  ],
+  China: [
+    { from: 1986, to: 1986, month: 5, day: 4, at: 2, save: 1 },
+    { from: 1986, to: 1991, month: 9, day: 'Sun>=11', at: 2, save: 0 },
+    { from: 1987, to: 1991, month: 4, day: 'Sun>=11', at: 2, save: 1 },
+  ],
+  Japan: [
+    { from: 1948, to: 1948, month: 5, day: 'Sat>=1', at: 24, save: 1 },
+    { from: 1948, to: 1951, month: 9, day: 'Sat>=8', at: 25, save: 0 },
+    { from: 1949, to: 1949, month: 4, day: 'Sat>=1', at: 24, save: 1 },
+    { from: 1950, to: 1951, month: 5, day: 'Sat>=1', at: 24, save: 1 },
+  ],
+  Australia: [
+    { from: 1971, to: 1985, month: 10, day: 'lastSun', at: 2, basis: 'standard', save: 1 },
+    { from: 1972, to: 1972, month: 2, day: 27, at: 2, basis: 'standard', save: 0 },
+    { from: 1973, to: 1981, month: 3, day: 'Sun>=1', at: 2, basis: 'standard', save: 0 },
+    { from: 1982, to: 1983, month: 4, day: 'Sun>=1', at: 2, basis: 'standard', save: 0 },
+    { from: 1984, to: 1985, month: 3, day: 'Sun>=1', at: 2, basis: 'standard', save: 0 },
+    { from: 1986, to: 1989, month: 3, day: 'Sun>=15', at: 2, basis: 'standard', save: 0 },
+    { from: 1986, to: 1986, month: 10, day: 19, at: 2, basis: 'standard', save: 1 },
+    { from: 1987, to: 1999, month: 10, day: 'lastSun', at: 2, basis: 'standard', save: 1 },
+    { from: 1990, to: 1995, month: 3, day: 'Sun>=1', at: 2, basis: 'standard', save: 0 },
+    { from: 1996, to: 2005, month: 3, day: 'lastSun', at: 2, basis: 'standard', save: 0 },
+    { from: 2000, to: 2000, month: 8, day: 'lastSun', at: 2, basis: 'standard', save: 1 },
+    { from: 2001, to: 2007, month: 10, day: 'lastSun', at: 2, basis: 'standard', save: 1 },
+    { from: 2006, to: 2006, month: 4, day: 'Sun>=1', at: 2, basis: 'standard', save: 0 },
+    { from: 2007, to: 2007, month: 3, day: 'lastSun', at: 2, basis: 'standard', save: 0 },
+    { from: 2008, to: Infinity, month: 4, day: 'Sun>=1', at: 2, basis: 'standard', save: 0 },
+    { from: 2008, to: Infinity, month: 10, day: 'Sun>=1', at: 2, basis: 'standard', save: 1 },
+  ],
+  SouthAfrica: [
+    { from: 1942, to: 1943, month: 9, day: 'Sun>=15', at: 2, save: 1 },
+    { from: 1943, to: 1944, month: 3, day: 'Sun>=15', at: 2, save: 0 },
+  ],
+};
+
+const INDIAN_STANDARD_TIME: TimeZoneEra[] = [
+  { offset: 5.5, name: 'Indian Standard Time', until: '1941-10-01T00:00' },
+  { offset: 5.5, save: 1, name: 'Indian War Time', until: '1942-05-15T00:00' },
+  { offset: 5.5, name: 'Indian Standard Time', until: '1942-09-01T00:00' },
+  { offset: 5.5, save: 1, name: 'Indian War Time', until: '1945-10-15T00:00' },
+  { offset: 5.5, name: 'Indian Standard Time' },
+];
+
+/**
+ * Eras of each zone, oldest first
+ */
+export const TIME_ZONES: Record<string, TimeZoneEra[]> = {
+  'Asia/Kolkata': [{ offset: 'lmt', until: '1906-01-01T00:00' }, ...INDIAN_STANDARD_TIME],
+  'India/Bombay': [
+    { offset: 4 + 51 / 60, name: 'Bombay Time', until: '1955-01-01T00:00' },
+    { offset: 5.5, name: 'Indian Standard Time' },
+  ],
+  'India/Calcutta': [
+    { offset: 5 + 53 / 60 + 20 / 3600, name: 'Calcutta Time', until: '1948-01-01T00:00' },
+    { offset: 5.5, name: 'Indian Standard Time' },
+  ],
+  'Asia/Karachi': [
+    { offset: 'lmt', until: '1907-01-01T00:00' },
+    { offset: 5.5, name: 'Indian Standard Time', until: '1942-09-01T00:00' },
+    { offset: 5.5, save: 1, name: 'Indian War Time', until: '1945-10-15T00:00' },
+    { offset: 5.5, name: 'Indian Standard Time', until: '1951-09-30T00:00' },
+    { offset: 5, name: 'Pakistan Standard Time', until: '2002-04-07T00:00' },
+    { offset: 5, save: 1, name: 'Pakistan Summer Time', until: '2002-10-06T00:00' },
+    { offset: 5, name: 'Pakistan Standard Time', until: '2008-06-01T00:00' },
+    { offset: 5, save: 1, name: 'Pakistan Summer Time', until: '2008-11-01T00:00' },
+    { offset: 5, name: 'Pakistan Standard Time', until: '2009-04-15T00:00' },
+    { offset: 5, save: 1, name: 'Pakistan Summer Time', until: '2009-11-01T00:00' },
+    { offset: 5, name: 'Pakistan Standard Time' },
+  ],
+  'Asia/Dhaka': [
+    { offset: 'lmt', until: '1890-01-01T00:00' },
+    { offset: 5 + 53 / 60 + 20 / 3600, name: 'Calcutta Time', until: '1941-10-01T00:00' },
+    { offset: 6.5, name: 'Burma Time', until: '1942-05-15T00:00' },
+    { offset: 5.5, name: 'Indian Standard Time', until: '1942-09-01T00:00' },
+    { offset: 6.5, name: 'Burma Time', until: '1951-09-30T00:00' },
+    { offset: 6, name: 'Bangladesh Standard Time', until: '2009-06-19T23:00' },
+    { offset: 6, save: 1, name: 'Bangladesh Summer Time', until: '2010-01-01T00:00' },
+    { offset: 6, name: 'Bangladesh Standard Time' },
+  ],
+  'Asia/Kathmandu': [
+    { offset: 'lmt', until: '1920-01-01T00:00' },
+    { offset: 5.5, name: 'Indian Standard Time', until: '1986-01-01T00:00' },
+    { offset: 5.75, name: 'Nepal Time' },
+  ],
+  'Asia/Thimphu': [
+    { offset: 'lmt', until: '1947-08-15T00:00' },
+    { offset: 5.5, name: 'Indian Standard Time', until: '1987-10-01T00:00' },
+    { offset: 6, name: 'Bhutan Time' },
+  ],
+  'Asia/Colombo': [
+    { offset: 'lmt', until: '1906-01-01T00:00' },
+    { offset: 5.5, name: 'Sri Lanka Time', until: '1942-01-05T00:00' },
+    { offset: 5.5, save: 0.5, name: 'Sri Lanka Half War Time', until: '1942-09-01T00:00' },
+    { offset: 5.5, save: 1, name: 'Sri Lanka War Time', until: '1945-10-16T02:00' },
+    { offset: 5.5, name: 'Sri Lanka Time', until: '1996-05-25T00:00' },
+    { offset: 6.5, name: 'Sri Lanka Time', until: '1996-10-26T00:30' },
+    { offset: 6, name: 'Sri Lanka Time', until: '2006-04-15T00:30' },
+    { offset: 5.5, name: 'Sri Lanka Time' },
+  ],
+  'Asia/Dubai': [
+    { offset: 'lmt', until: '1920-01-01T00:00' },
+    { offset: 4, name: 'Gulf Standard Time' },
+  ],
+  'Asia/Qatar': [
+    { offset: 'lmt', until: '1920-01-01T00:00' },
+    { offset: 4, name: 'Gulf Standard Time', until: '1972-06-01T00:00' },
+    { offset: 3, name: 'Arabia Standard Time' },
+  ],
+  'Asia/Riyadh': [
+    { offset: 'lmt', until: '1947-03-14T00:00' },
+    { offset: 3, name: 'Arabia Standard Time' },
+  ],
+  'Asia/Bangkok': [
+    { offset: 'lmt', until: '1920-04-01T00:00' },
+    { offset: 7, name: 'Indochina Time' },
+  ],
+  'Asia/Singapore': [
+    { offset: 'lmt', until: '1905-06-01T00:00' },
+    { offset: 7, name: 'Malaya Time', until: '1933-01-01T00:00' },
+    { offset: 7, save: 1 / 3, name: 'Malaya Summer Time', until: '1936-01-01T00:00' },
+    { offset: 7 + 1 / 3, name: 'Malaya Time', until: '1941-09-01T00:00' },
+    { offset: 7.5, name: 'Malaya Time', until: '1942-02-16T00:00' },
+    { offset: 9, name: 'Japan Standard Time', until: '1945-09-12T00:00' },
+    { offset: 7.5, name: 'Malaya Time', until: '1982-01-01T00:00' },
+    { offset: 8, name: 'Singapore Time' },
+  ],
+  'Asia/Shanghai': [
+    { offset: 'lmt', until: '1901-01-01T00:00' },
+    { offset: 8, rules: 'China', name: 'China Standard Time', daylightName: 'China Daylight Time' },
+  ],
+  'Asia/Tokyo': [
+    { offset: 'lmt', until: '1888-01-01T00:00' },
+    { offset: 9, rules: 'Japan', name: 'Japan Standard Time', daylightName: 'Japan Daylight Time' },
+  ],
+  'Europe/London': [
+    { offset: 'lmt', until: '1847-12-01T00:00' },
+    { offset: 0, rules: 'GB', name: 'Greenwich Mean Time', daylightName: 'British Summer Time', until: '1968-10-27T00:00' },
+    { offset: 0, save: 1, name: 'British Standard Time', until: '1971-10-31T03:00' },
+    { offset: 0, rules: 'GB', name: 'Greenwich Mean Time', daylightName: 'British Summer Time' },
+  ],
+  'Europe/Paris': [
+    { offset: 'lmt', until: '1911-03-11T00:00' },
+    { offset: 0, name: 'Western European Time', until: '1940-06-14T23:00' },
+    { offset: 1, save: 1, name: 'Central European Summer Time', until: '1945-09-16T03:00' },
+    { offset: 1, rules: 'France', name: 'Central European Time', daylightName: 'Central European Summer Time', until: '1977-01-01T00:00' },
+    { offset: 1, rules: 'EU', name: 'Central European Time', daylightName: 'Central European Summer Time' },
+  ],
+  'Europe/Berlin': [
+    { offset: 'lmt', until: '1893-04-01T00:00' },
+    { offset: 1, name: 'Central European Time', until: '1940-04-01T02:00' },
+    { offset: 1, save: 1, name: 'Central European Summer Time', until: '1945-11-18T03:00' },
+    { offset: 1, name: 'Central European Time', until: '1980-01-01T00:00' },
+    { offset: 1, rules: 'EU', name: 'Central European Time', daylightName: 'Central European Summer Time' },
+  ],
+  'America/New_York': [
+    { offset: 'lmt', until: '1883-11-18T12:00' },
+    { offset: -5, rules: 'US', name: 'Eastern Standard Time', daylightName: 'Eastern Daylight Time', until: '1920-01-01T00:00' },
+    { offset: -5, rules: 'NYC', name: 'Eastern Standard Time', daylightName: 'Eastern Daylight Time', until: '1942-01-01T00:00' },
+    { offset: -5, rules: 'US', name: 'Eastern Standard Time', daylightName: 'Eastern Daylight Time', until: '1946-01-01T00:00' },
+    { offset: -5, rules: 'NYC', name: 'Eastern Standard Time', daylightName: 'Eastern Daylight Time', until: '1967-01-01T00:00' },
+    { offset: -5, rules: 'US', name: 'Eastern Standard Time', daylightName: 'Eastern Daylight Time' },
+  ],
+  'America/Toronto': [
+    { offset: 'lmt', until: '1895-01-01T00:00' },
+    { offset: -5, rules: 'US', name: 'Eastern Standard Time', daylightName: 'Eastern Daylight Time', until: '1974-01-01T00:00' },
+    { offset: -5, rules: 'Canada', name: 'Eastern Standard Time', daylightName: 'Eastern Daylight Time' },
+  ],
+  'America/Chicago': [
+    { offset: 'lmt', until: '1883-11-18T12:00' },
+    { offset: -6, rules: 'US', name: 'Central Standard Time', daylightName: 'Central Daylight Time' },
+  ],
+  'America/Denver': [
+    { offset: 'lmt', until: '1883-11-18T12:00' },
+    { offset: -7, rules: 'US', name: 'Mountain Standard Time', daylightName: 'Mountain Daylight Time' },
+  ],
+  'America/Phoenix': [
+    { offset: 'lmt', until: '1883-11-18T11:31' },
+    { offset: -7, rules: 'US', name: 'Mountain Standard Time', daylightName: 'Mountain Daylight Time', until: '1944-01-01T00:01' },
+    { offset: -7, name: 'Mountain Standard Time', until: '1944-04-01T00:01' },
+    { offset: -7, save: 1, name: 'Mountain War Time', until: '1944-10-01T00:01' },
+    { offset: -7, name: 'Mountain Standard Time', until: '1967-01-01T00:00' },
+    { offset: -7, rules: 'US', name: 'Mountain Standard Time', daylightName: 'Mountain Daylight Time', until: '1968-03-21T00:00' },
+    { offset: -7, name: 'Mountain Standard Time' },
+  ],
+  'America/Los_Angeles': [
+    { offset: 'lmt', until: '1883-11-18T12:07' },
+    { offset: -8, rules: 'US', name: 'Pacific Standard Time', daylightName: 'Pacific Daylight Time' },
+  ],
+  'Australia/Sydney': [
+    { offset: 'lmt', until: '1895-02-01T00:00' },
+    { offset: 10, rules: 'Australia', name: 'Australian Eastern Standard Time', daylightName: 'Australian Eastern Daylight Time' },
+  ],
+  'Africa/Johannesburg': [
+    { offset: 'lmt', until: '1892-02-08T00:00' },
+    { offset: 1.5, name: 'South African Time', until: '1903-03-01T00:00' },
+    { offset: 2, rules: 'SouthAfrica', name: 'South African Standard Time', daylightName: 'South African Summer Time' },
+  ],
+  'Africa/Nairobi': [
+    { offset: 'lmt', until: '1928-07-01T00:00' },
+    { offset: 3, name: 'East Africa Time', until: '1930-01-04T00:00' },
+    { offset: 2.5, name: 'East Africa Time', until: '1937-01-01T00:00' },
+    { offset: 2.75, name: 'East Africa Time', until: '1942-08-01T00:00' },
+    { offset: 3, name: 'East Africa Time' },
+  ],
+  'Africa/Lagos': [
+    { offset: 'lmt', until: '1905-07-01T00:00' },
+    { offset: 0, name: 'Greenwich Mean Time', until: '1908-07-01T00:00' },
+    { offset: 13 / 60 + 35 / 3600, name: 'Lagos Time', until: '1914-01-01T00:00' },
+    { offset: 0.5, name: 'Lagos Time', until: '1919-09-01T00:00' },
+    { offset: 1, name: 'West Africa Time' },
+  ],
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MS_PER_HOUR = 3600000;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Local mean time offset of a longitude in hours
+ */
+export function localMeanTimeOffset(longitude: number): number {
+  return longitude / 15;
+}
+
+/**
+ * Clock time string as milliseconds, treating the clock as UTC
+ */
+function clockMs(datetime: string): number {
+  return Math.round((julianDayFromLocal(datetime, 0) - 2440587.5) * 86400000);
+}
+
+/**
+ * Day of the month a rule fires on in a year
+ */
+function resolveRuleDay(year: number, month: number, day: RuleDay): number {
+  if (typeof day === 'number') return day;
+
+  const last = /^last(\w{3})$/.exec(day);
+  if (last) {
+    const weekday = WEEKDAYS.indexOf(last[1]);
+    const lastDate = new Date(Date.UTC(year, month, 0));
+    return lastDate.getUTCDate() - ((lastDate.getUTCDay() - weekday + 7) % 7);
+  }
+
+  const onOrAfter = /^(\w{3})>=(\d+)$/.exec(day);
+  if (onOrAfter) {
+    const weekday = WEEKDAYS.indexOf(onOrAfter[1]);
+    const from = Number(onOrAfter[2]);
+    return from + ((weekday - new Date(Date.UTC(year, month - 1, from)).getUTCDay() + 7) % 7);
+  }
+
+  throw new Error(`Invalid rule day: ${day}`);
+}
+
+/**
+ * Instant (ms) a rule fires in a year
+ */
+function ruleInstant(rule: DaylightRule, year: number, standardOffset: number): number {
+  const day = resolveRuleDay(year, rule.month, rule.day);
+  const clock = Date.UTC(year, rule.month - 1, day) + rule.at * MS_PER_HOUR;
+  const basis = rule.basis ?? 'wall';
+  if (basis === 'utc') return clock;
+  // On the wall clock an ending rule is read in daylight time
+  const wallSave = basis === 'wall' && rule.save === 0 ? 1 : 0;
+  return clock - (standardOffset + wallSave) * MS_PER_HOUR;
+}
+
+/**
+ * Daylight saving in force at an instant under a rule set, counting only
+ * rules that fired since the era began (`since`, ms)
+ */
+function ruleSaving(rulesId: string, time: number, standardOffset: number, since: number): number {
+  const rules = DAYLIGHT_RULES[rulesId];
+  if (!rules) {
+    throw new Error(`Unknown daylight saving rules: ${rulesId}`);
+  }
+
+  const year = new Date(time + standardOffset * MS_PER_HOUR).getUTCFullYear();
+  let latest = -Infinity;
+  let save = 0;
+  // The saving carries forward from the last rule to fire in the era, however
+  // many years back (US War Time ran from February 1942 to September 1945 on
+  // two rules); an era starts on standard time
+  rules.forEach(rule => {
+    const lastYear = Math.min(year, rule.to);
+    [lastYear - 1, lastYear].forEach(ruleYear => {
+      if (ruleYear < rule.from) return;
+      const instant = ruleInstant(rule, ruleYear, standardOffset);
+      if (instant >= since && instant <= time && instant > latest) {
+        latest = instant;
+        save = rule.save;
+      }
+    });
+  });
+  return save;
+}
+
+/**
+ * Eras of a zone, throwing for unknown zones
+ */
+function getZoneEras(zone: string): TimeZoneEra[] {
+  const eras = TIME_ZONES[zone];
+  if (!eras) {
+    throw new Error(`Unknown time zone: ${zone}`);
+  }
+  return eras;
+}
+
+/**
+ * Offset in force in a zone at an instant; `longitude` sets local mean time
+ * before the zone adopted standard time
+ */
+export function getZoneOffset(zone: string, date: Date, longitude: number): ZoneOffset {
+  const eras = getZoneEras(zone);
+  const time = date.getTime();
+
+  const eraEnd = (candidate: TimeZoneEra): number => {
+    if (!candidate.until) return Infinity;
+    const standard = candidate.offset === 'lmt' ? localMeanTimeOffset(longitude) : candidate.offset;
+    return clockMs(candidate.until) - (standard + (candidate.save ?? 0)) * MS_PER_HOUR;
+  };
+  const index = eras.findIndex(candidate => time < eraEnd(candidate));
+  const era = eras[index];
+  const eraStart = index > 0 ? eraEnd(eras[index - 1]) : -Infinity;
+
+  const standardOffset = era.offset === 'lmt' ? localMeanTimeOffset(longitude) : era.offset;
+  const daylightSaving = era.rules ? ruleSaving(era.rules, time, standardOffset, eraStart) : era.save ?? 0;
+  const name = era.offset === 'lmt'
+    ? 'Local Mean Time'
+    : era.rules && daylightSaving > 0
+      ? era.daylightName ?? 'Daylight Saving Time'
+      : era.name ?? 'Standard Time';
+
+  return { offset: standardOffset + daylightSaving, standardOffset, daylightSaving, name };
+}
+
+/**
+ * Instant of a local clock time in a zone
+ *
+ * Clock times repeated when clocks are turned back resolve to the first
+ * occurrence; times skipped when clocks go forward are read with the offset
+ * in force before the change.
+ */
+export function resolveLocalTime(zone: string, datetime: string, longitude: number): LocalTimeResolution {
+  getZoneEras(zone);
+  const clock = clockMs(datetime);
+  const day = 24 * MS_PER_HOUR;
+
+  // Offsets either side of the clock time cover any transition near it
+  const before = getZoneOffset(zone, new Date(clock - day), longitude);
+  const after = getZoneOffset(zone, new Date(clock + day), longitude);
+  const candidates = [before, after, getZoneOffset(zone, new Date(clock), longitude)];
+
+  const valid = candidates
+    .map(candidate => ({ time: clock - candidate.offset * MS_PER_HOUR, candidate }))
+    .filter(({ time, candidate }) => getZoneOffset(zone, new Date(time), longitude).offset === candidate.offset)
+    .sort((a, b) => a.time - b.time);
+  const distinct = new Set(valid.map(({ time }) => time));
+
+  if (valid.length === 0) {
+    const utc = new Date(clock - before.offset * MS_PER_HOUR);
+    return { ...before, utc, ambiguous: false, skipped: true };
+  }
+  const utc = new Date(valid[0].time);
+  return { ...valid[0].candidate, utc, ambiguous: distinct.size > 1, skipped: false };
+}
+
+/**
+ * Julian Day (UT) of a local clock time in a zone
+ */
+export function julianDayInZone(zone: string, datetime: string, longitude: number): number {
+  return julianDayFromDate(resolveLocalTime(zone, datetime, longitude).utc);
+}
@@ -0,0 +1,544 @@
+/**
+ * Corp Astro UI Library - Transit Forecasts
+ *
+ * Rule-based personal horoscopes from current transits to a natal chart.
+ * Over the forecast period the transiting planets are sampled and three kinds
+ * of event collected:
+ * - Aspects from transiting to natal planets (transit orbs)
+ * - Ingresses of transiting planets into natal houses
+ * - The Moon's natal house (daily forecasts only)
+ *
+ * Each event scores points for the categories its planets and house rule.
+ * The category total sets the luck rating and mood; the strongest events are
+ * written up from the template library below, and the lucky numbers and
+ * colours follow the most supportive transiting planets. Positions are
+ * tropical; houses are the natal cusps, or equal houses from the ascendant.
+ *
+ * @module transitForecastUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { AspectData, HouseData, PlanetPosition } from './AstrologyWheel';
+import type { HoroscopeCategory, HoroscopeData, HoroscopePeriod } from './HoroscopeCard';
+import type { RawAstrologicalData } from './NorthIndianChartDataProcessor';
+import type { Planet } from './PlanetIndicator';
+import type { ZodiacSign } from './ZodiacCard';
+import { calculatePlanetPosition, dateFromJulianDay, julianDayFromDate } from './ephemerisUtils';
+import { DEFAULT_OBSERVER_LOCATION, localDayStart } from './horizonUtils';
+import { reduceNumber } from './numerologyUtils';
+import { TRANSIT_ORB_SCALE, WheelAspectType, calculateCrossAspects, getWheelHouse } from './synastryUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Natal chart a forecast is cast for (tropical longitudes)
+ */
+export type ForecastNatalChart = Pick<RawAstrologicalData, 'planets' | 'ascendant' | 'houseCusps'>;
+
+/**
+ * Kind of transit event
+ */
+export type TransitEventKind = 'aspect' | 'ingress' | 'moon';
+
+/**
+ * One transit event within a forecast period
+ */
+export interface TransitEvent {
+  /** Kind of event */
+  kind: TransitEventKind;
+  /** Transiting planet */
+  planet: Planet;
+  /** Natal planet aspected */
+  natalPlanet?: Planet;
+  /** Aspect formed */
+  aspect?: WheelAspectType;
+  /** Natal house the transiting planet occupies or enters */
+  house: number;
+  /** Aspect strength, or 100 for ingresses and Moon transits (0-100) */
+  strength: number;
+  /** Moment the event is exact or begins (closest sample) */
+  date: Date;
+  /** Points: positive supports, negative challenges */
+  points: number;
+  /** Categories the event bears on */
+  categories: HoroscopeCategory[];
+  /** Description from the template library */
+  text: string;
+}
+
+/**
+ * Forecast options
+ */
+export interface ForecastOptions {
+  /** Offset of local time from UTC in hours (default: IST) */
+  timezone?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Transiting planets considered
+ */
+export const FORECAST_PLANETS: Planet[] = [
+  'sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune', 'pluto',
+];
+
+/**
+ * Natal planets aspected; the outer planets' natal places are generational
+ */
+export const NATAL_FORECAST_PLANETS: Planet[] = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn'];
+
+/**
+ * Display names for each category
+ */
+export const HOROSCOPE_CATEGORY_NAMES: Record<HoroscopeCategory, string> = {
+  general: 'General',
+  love: 'Love',
+  career: 'Career',
+  health: 'Health',
+  money: 'Money',
+};
+
+/**
+ * Categories each planet rules
+ */
+export const PLANET_CATEGORIES: Record<Planet, HoroscopeCategory[]> = {
+  sun: ['general', 'career'],
+  moon: ['general', 'health'],
+  mercury: ['career', 'money'],
+  venus: ['love', 'money'],
+  mars: ['health', 'career'],
+  jupiter: ['general', 'money', 'career'],
+  saturn: ['career', 'health'],
+  uranus: ['general'],
+  neptune: ['love', 'health'],
+  pluto: ['career', 'money'],
+};
+
+/**
+ * Categories each natal house rules (index 0 = 1st house)
+ */
+export const HOUSE_CATEGORIES: HoroscopeCategory[][] = [
+  ['general', 'health'], ['money'], ['general'], ['general'], ['love'], ['health', 'career'],
+  ['love'], ['money'], ['general'], ['career'], ['money'], ['health'],
+];
+
+/**
+ * Template library: what each planet brings and each house covers
+ */
+export const PLANET_KEYWORDS: Record<Planet, string> = {
+  sun: 'confidence and purpose',
+  moon: 'feelings and instincts',
+  mercury: 'ideas and conversations',
+  venus: 'affection and pleasure',
+  mars: 'drive and courage',
+  jupiter: 'growth and good fortune',
+  saturn: 'discipline and responsibility',
+  uranus: 'surprises and breakthroughs',
+  neptune: 'imagination and intuition',
+  pluto: 'transformation and power',
+};
+
+export const HOUSE_AREAS: string[] = [
+  'self and appearance', 'money and possessions', 'communication and short trips', 'home and family',
+  'romance and creativity', 'work and wellbeing', 'partnerships', 'shared resources and intimacy',
+  'travel and learning', 'career and reputation', 'friends and ambitions', 'rest and reflection',
+];
+
+const ASPECT_PHRASES: Record<WheelAspectType, string> = {
+  conjunction: 'joins',
+  opposition: 'opposes',
+  trine: 'trines',
+  square: 'squares',
+  sextile: 'sextiles',
+  quincunx: 'is quincunx',
+};
+
+const ASPECT_OUTCOMES: Record<'supportive' | 'testing', string[]> = {
+  supportive: ['support', 'energise', 'smooth the way for'],
+  testing: ['test', 'put pressure on', 'challenge'],
+};
+
+const PERIOD_INTROS: Record<HoroscopePeriod, string> = {
+  daily: 'Today',
+  weekly: 'This week',
+  monthly: 'This month',
+};
+
+const CATEGORY_FOCUS: Record<HoroscopeCategory, string> = {
+  general: 'your overall outlook',
+  love: 'your love life',
+  career: 'your work',
+  health: 'your wellbeing',
+  money: 'your finances',
+};
+
+const MOOD_SUMMARIES: Record<NonNullable<HoroscopeData['mood']>, string> = {
+  excellent: 'the sky strongly favours',
+  good: 'the planets gently support',
+  average: 'mixed influences colour',
+  challenging: 'tense transits test',
+};
+
+const CATEGORY_ADVICE: Record<HoroscopeCategory, Record<NonNullable<HoroscopeData['mood']>, string>> = {
+  general: {
+    excellent: 'Say yes to the openings that appear.',
+    good: 'Steady effort brings pleasing results.',
+    average: 'Keep plans flexible and pace yourself.',
+    challenging: 'Slow down and choose your battles.',
+  },
+  love: {
+    excellent: 'Express your feelings openly.',
+    good: 'Small gestures go a long way.',
+    average: 'Listen more than you speak.',
+    challenging: 'Give each other space before deciding anything.',
+  },
+  career: {
+    excellent: 'Pitch your ideas and take the lead.',
+    good: 'Collaborate and build on recent progress.',
+    average: 'Focus on finishing what is already started.',
+    challenging: 'Double-check details and avoid confrontation.',
+  },
+  health: {
+    excellent: 'Channel your energy into an active routine.',
+    good: 'Balanced habits keep you feeling strong.',
+    average: 'Rest as much as you work.',
+    challenging: 'Prioritise sleep and avoid overexertion.',
+  },
+  money: {
+    excellent: 'A good time to act on sound investments.',
+    good: 'Budget wisely and opportunities grow.',
+    average: 'Hold off on large purchases.',
+    challenging: 'Avoid risks and review your spending.',
+  },
+};
+
+/**
+ * Points for each aspect; conjunctions take the planet's own nature
+ */
+const ASPECT_POINTS: Record<WheelAspectType, number> = {
+  conjunction: 0,
+  opposition: -2,
+  trine: 2,
+  square: -2,
+  sextile: 1.5,
+  quincunx: -0.5,
+};
+
+/** Nature of each transiting planet: conjunction points and ingress points */
+const PLANET_NATURE: Record<Planet, number> = {
+  sun: 1,
+  moon: 1,
+  mercury: 1,
+  venus: 2,
+  mars: -1,
+  jupiter: 2,
+  saturn: -2,
+  uranus: 0,
+  neptune: 0,
+  pluto: -1,
+};
+
+/** Weight of each transiting planet; slow planets mark longer trends */
+const PLANET_WEIGHT: Record<Planet, number> = {
+  sun: 1,
+  moon: 0.5,
+  mercury: 1,
+  venus: 1,
+  mars: 1.2,
+  jupiter: 1.5,
+  saturn: 1.5,
+  uranus: 1.3,
+  neptune: 1.3,
+  pluto: 1.3,
+};
+
+/**
+ * Chaldean planetary numbers and colours used for lucky numbers and colours
+ */
+export const PLANET_NUMBERS: Record<Planet, number> = {
+  sun: 1, moon: 2, jupiter: 3, uranus: 4, mercury: 5, venus: 6, neptune: 7, saturn: 8, mars: 9, pluto: 9,
+};
+
+export const PLANET_COLORS: Record<Planet, string> = {
+  sun: 'Gold',
+  moon: 'Silver',
+  mercury: 'Green',
+  venus: 'Pink',
+  mars: 'Red',
+  jupiter: 'Yellow',
+  saturn: 'Navy Blue',
+  uranus: 'Electric Blue',
+  neptune: 'Sea Green',
+  pluto: 'Maroon',
+};
+
+/** Sampling of each period: length in days, sample step in hours */
+const PERIOD_SAMPLING: Record<HoroscopePeriod, { days: number; stepHours: number }> = {
+  daily: { days: 1, stepHours: 6 },
+  weekly: { days: 7, stepHours: 24 },
+  monthly: { days: 30, stepHours: 24 },
+};
+
+const ZODIAC_SIGNS: ZodiacSign[] = [
+  'aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo',
+  'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces',
+];
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th', '9th', '10th', '11th', '12th'];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Natal houses as wheel house data; equal houses without cusps
+ */
+function natalHouses(natal: ForecastNatalChart): HouseData[] {
+  const cusps = natal.houseCusps?.length === 12
+    ? natal.houseCusps
+    : Array.from({ length: 12 }, (_, index) => natal.ascendant + index * 30);
+  return cusps.map((cusp, index) => ({
+    number: index + 1,
+    sign: ZODIAC_SIGNS[Math.floor(normalizeDegrees(cusp) / 30)],
+    cusp: normalizeDegrees(cusp),
+  }));
+}
+
+function toPositions(
+  longitudes: Partial<Record<Planet, number>>,
+  houses: HouseData[],
+  planets: Planet[] = FORECAST_PLANETS
+): PlanetPosition[] {
+  return planets
+    .filter(planet => longitudes[planet] !== undefined)
+    .map(planet => {
+      const degree = normalizeDegrees(longitudes[planet]!);
+      return {
+        planet,
+        sign: ZODIAC_SIGNS[Math.floor(degree / 30)],
+        degree,
+        house: getWheelHouse(degree, houses),
+      };
+    });
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Event for an aspect from a transiting to a natal planet
+ */
+function aspectEvent(aspect: AspectData, transit: PlanetPosition, date: Date): TransitEvent {
+  const nature = aspect.type === 'conjunction' ? PLANET_NATURE[transit.planet] : ASPECT_POINTS[aspect.type];
+  const points = nature * PLANET_WEIGHT[transit.planet] * (0.5 + aspect.strength / 200);
+  const outcomes = ASPECT_OUTCOMES[points >= 0 ? 'supportive' : 'testing'];
+  const outcome = outcomes[FORECAST_PLANETS.indexOf(aspect.planet1) % outcomes.length];
+
+  return {
+    kind: 'aspect',
+    planet: transit.planet,
+    natalPlanet: aspect.planet1,
+    aspect: aspect.type,
+    house: transit.house,
+    strength: aspect.strength,
+    date,
+    points,
+    categories: unique([...PLANET_CATEGORIES[transit.planet], ...PLANET_CATEGORIES[aspect.planet1]]),
+    text: `${capitalize(transit.planet)} ${ASPECT_PHRASES[aspect.type]} your natal ${capitalize(aspect.planet1)}: ` +
+      `${PLANET_KEYWORDS[transit.planet]} ${outcome} your ${PLANET_KEYWORDS[aspect.planet1]}.`,
+  };
+}
+
+/**
+ * Event for a transiting planet entering, or (the Moon) passing through, a house
+ */
+function houseEvent(kind: 'ingress' | 'moon', transit: PlanetPosition, date: Date): TransitEvent {
+  const area = HOUSE_AREAS[transit.house - 1];
+  return {
+    kind,
+    planet: transit.planet,
+    house: transit.house,
+    strength: 100,
+    date,
+    points: PLANET_NATURE[transit.planet] * PLANET_WEIGHT[transit.planet] * 0.75,
+    categories: unique([...HOUSE_CATEGORIES[transit.house - 1], ...PLANET_CATEGORIES[transit.planet]]),
+    text: kind === 'moon'
+      ? `The Moon moves through your ${ORDINALS[transit.house - 1]} house, turning your feelings toward ${area}.`
+      : `${capitalize(transit.planet)} enters your ${ORDINALS[transit.house - 1]} house, bringing ${PLANET_KEYWORDS[transit.planet]} to ${area}.`,
+  };
+}
+
+/**
+ * Start and end of a forecast period beginning on the local day of a date
+ */
+export function getForecastRange(
+  period: HoroscopePeriod,
+  date: Date = new Date(),
+  options: ForecastOptions = {}
+): { start: Date; end: Date } {
+  const { timezone = DEFAULT_OBSERVER_LOCATION.timezone } = options;
+  const start = localDayStart(date, timezone);
+  return { start: dateFromJulianDay(start), end: dateFromJulianDay(start + PERIOD_SAMPLING[period].days) };
+}
+
+/**
+ * Transit events to a natal chart during a forecast period
+ *
+ * Aspects keep their closest sample; the Moon is only followed in daily
+ * forecasts, where it changes house within hours.
+ */
+export function findTransitEvents(
+  natal: ForecastNatalChart,
+  period: HoroscopePeriod,
+  date: Date = new Date(),
+  options: ForecastOptions = {}
+): TransitEvent[] {
+  const houses = natalHouses(natal);
+  const natalPositions = toPositions(natal.planets, houses, NATAL_FORECAST_PLANETS);
+  const { start, end } = getForecastRange(period, date, options);
+  const stepMs = PERIOD_SAMPLING[period].stepHours * 3600000;
+  const transitPlanets = period === 'daily' ? FORECAST_PLANETS : FORECAST_PLANETS.filter(planet => planet !== 'moon');
+
+  const aspects = new Map<string, TransitEvent>();
+  const houseEvents: TransitEvent[] = [];
+  let previousHouses: Partial<Record<Planet, number>> = {};
+
+  for (let time = start.getTime(); time <= end.getTime(); time += stepMs) {
+    const sampleDate = new Date(time);
+    const jd = julianDayFromDate(sampleDate);
+    const longitudes: Partial<Record<Planet, number>> = {};
+    transitPlanets.forEach(planet => {
+      longitudes[planet] = calculatePlanetPosition(planet, jd).longitude;
+    });
+    const transits = toPositions(longitudes, houses);
+
+    calculateCrossAspects(natalPositions, transits, { orbScale: TRANSIT_ORB_SCALE }).forEach(aspect => {
+      const transit = transits.find(position => position.planet === aspect.planet2)!;
+      const key = `${aspect.planet2}-${aspect.type}-${aspect.planet1}`;
+      const existing = aspects.get(key);
+      if (!existing || aspect.strength > existing.strength) {
+        aspects.set(key, aspectEvent(aspect, transit, sampleDate));
+      }
+    });
+
+    transits.forEach(transit => {
+      const previous = previousHouses[transit.planet];
+      if (transit.planet === 'moon') {
+        if (previous === undefined) houseEvents.push(houseEvent('moon', transit, sampleDate));
+      } else if (previous !== undefined && previous !== transit.house) {
+        houseEvents.push(houseEvent('ingress', transit, sampleDate));
+      }
+    });
+    previousHouses = Object.fromEntries(transits.map(transit => [transit.planet, transit.house]));
+  }
+
+  return [...aspects.values(), ...houseEvents].sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+}
+
+/**
+ * Date range label of a forecast period, e.g. 'Oct 17' or 'Oct 17 - Oct 23'
+ */
+function formatRange(period: HoroscopePeriod, start: Date, end: Date, timezone: number): string {
+  const label = (value: Date) =>
+    new Date(value.getTime() + timezone * 3600000).toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  return period === 'daily' ? label(start) : `${label(start)} - ${label(new Date(end.getTime() - 1))}`;
+}
+
+/**
+ * Horoscope for one category from a period's transit events
+ */
+export function buildHoroscope(
+  events: TransitEvent[],
+  category: HoroscopeCategory,
+  period: HoroscopePeriod,
+  date: Date = new Date(),
+  options: ForecastOptions = {}
+): HoroscopeData {
+  const { timezone = DEFAULT_OBSERVER_LOCATION.timezone } = options;
+  const { start, end } = getForecastRange(period, date, options);
+  const relevant = events.filter(event => event.categories.includes(category));
+  const score = relevant.reduce((sum, event) => sum + event.points, 0);
+
+  // Net support per event, so long periods with many events are not extreme
+  const luckRating = Math.max(1, Math.min(5, Math.round(3 + (1.5 * score) / Math.sqrt(Math.max(1, relevant.length)))));
+  const mood: NonNullable<HoroscopeData['mood']> =
+    luckRating >= 5 ? 'excellent' : luckRating === 4 ? 'good' : luckRating === 3 ? 'average' : 'challenging';
+
+  const highlights = relevant.slice(0, 3);
+  const supportive = relevant.filter(event => event.points > 0);
+  const luckyPlanets = unique(supportive.map(event => event.planet)).slice(0, 2);
+  if (luckyPlanets.length === 0) luckyPlanets.push('jupiter');
+
+  const content = [
+    `${PERIOD_INTROS[period]}, ${MOOD_SUMMARIES[mood]} ${CATEGORY_FOCUS[category]}.`,
+    ...highlights.map(event => event.text),
+    CATEGORY_ADVICE[category][mood],
+  ].join(' ');
+
+  return {
+    content,
+    period,
+    dateRange: formatRange(period, start, end, timezone),
+    luckRating,
+    luckyNumbers: unique([
+      ...luckyPlanets.map(planet => PLANET_NUMBERS[planet]),
+      reduceNumber(new Date(start.getTime() + timezone * 3600000).getUTCDate()).value,
+      ...highlights.map(event => event.house),
+    ]).slice(0, 3),
+    luckyColors: luckyPlanets.map(planet => PLANET_COLORS[planet]),
+    mood,
+    themes: unique(highlights.map(event => capitalize(HOUSE_AREAS[event.house - 1]))),
+  };
+}
+
+/**
+ * Personal horoscope for a period and category
+ */
+export function generateHoroscope(
+  natal: ForecastNatalChart,
+  period: HoroscopePeriod,
+  category: HoroscopeCategory = 'general',
+  date: Date = new Date(),
+  options: ForecastOptions = {}
+): HoroscopeData {
+  return buildHoroscope(findTransitEvents(natal, period, date, options), category, period, date, options);
+}
+
+/**
+ * Horoscopes for every category of a period, sharing one transit scan
+ */
+export function generateHoroscopes(
+  natal: ForecastNatalChart,
+  period: HoroscopePeriod,
+  date: Date = new Date(),
+  options: ForecastOptions = {}
+): Record<HoroscopeCategory, HoroscopeData> {
+  const events = findTransitEvents(natal, period, date, options);
+  const categories = Object.keys(HOROSCOPE_CATEGORY_NAMES) as HoroscopeCategory[];
+  return Object.fromEntries(
+    categories.map(category => [category, buildHoroscope(events, category, period, date, options)])
+  ) as Record<HoroscopeCategory, HoroscopeData>;
+}
@@ -0,0 +1,276 @@
+/**
+ * Corp Astro UI Library - Divisional Charts (Vargas)
+ *
+ * Derives the Parashari divisional charts (D1-D60) from sidereal Rasi
+ * longitudes. Each varga maps a longitude into a divisional sign and degree;
+ * the resulting charts use whole sign houses from the divisional ascendant,
+ * as is customary for vargas.
+ *
+ * @module vargaUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import {
+  VedicPlanet,
+  NorthIndianChartType,
+  NorthIndianChartData,
+  NorthIndianHouseData,
+  NorthIndianHouseNumber,
+  VEDIC_RASHIS,
+  PLANET_RULERSHIP,
+} from './NorthIndianChart';
+import type { RawAstrologicalData } from './NorthIndianChartDataProcessor';
+import { AyanamsaConfig, DEFAULT_AYANAMSA, applyAyanamsa } from './ayanamsaUtils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Every supported divisional chart, in display order
+ */
+export const VARGA_CHART_TYPES: NorthIndianChartType[] = [
+  'D1', 'D2', 'D3', 'D4', 'D7', 'D9', 'D10', 'D12', 'D16', 'D20', 'D24', 'D30', 'D60',
+];
+
+/**
+ * Number of divisions of each sign
+ */
+export const VARGA_DIVISIONS: Record<NorthIndianChartType, number> = {
+  D1: 1,
+  D2: 2,
+  D3: 3,
+  D4: 4,
+  D7: 7,
+  D9: 9,
+  D10: 10,
+  D12: 12,
+  D16: 16,
+  D20: 20,
+  D24: 24,
+  D30: 30,
+  D60: 60,
+};
+
+/**
+ * Display names for each divisional chart
+ */
+export const VARGA_NAMES: Record<NorthIndianChartType, string> = {
+  D1: 'Rashi Chart (D1)',
+  D2: 'Hora (D2)',
+  D3: 'Drekkana (D3)',
+  D4: 'Chaturthamsa (D4)',
+  D7: 'Saptamsa (D7)',
+  D9: 'Navamsa Chart (D9)',
+  D10: 'Dasamsa Chart (D10)',
+  D12: 'Dwadasamsa (D12)',
+  D16: 'Shodasamsa (D16)',
+  D20: 'Vimsamsa (D20)',
+  D24: 'Chaturvimsamsa (D24)',
+  D30: 'Trimsamsa (D30)',
+  D60: 'Shashtyamsa (D60)',
+};
+
+/** Sign indices (Aries = 0) used by the irregular vargas */
+const ARIES = 0;
+const CANCER = 3;
+const LEO = 4;
+const SAGITTARIUS = 8;
+
+/**
+ * Trimsamsa portions: upper bound in degrees and the sign it maps to
+ */
+const TRIMSAMSA_ODD: [number, number][] = [
+  [5, 0],   // Mars - Aries
+  [10, 10], // Saturn - Aquarius
+  [18, 8],  // Jupiter - Sagittarius
+  [25, 2],  // Mercury - Gemini
+  [30, 6],  // Venus - Libra
+];
+
+const TRIMSAMSA_EVEN: [number, number][] = [
+  [5, 1],   // Venus - Taurus
+  [12, 5],  // Mercury - Virgo
+  [20, 11], // Jupiter - Pisces
+  [25, 9],  // Saturn - Capricorn
+  [30, 7],  // Mars - Scorpio
+];
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Sign the first division of a sign maps to, and the step between divisions
+ */
+function vargaStart(chartType: NorthIndianChartType, sign: number): { start: number; step: number } {
+  const isOddSign = sign % 2 === 0;
+  const modality = sign % 3; // 0 movable, 1 fixed, 2 dual
+
+  switch (chartType) {
+    case 'D3':
+      return { start: sign, step: 4 };
+    case 'D4':
+      return { start: sign, step: 3 };
+    case 'D7':
+      return { start: isOddSign ? sign : sign + 6, step: 1 };
+    case 'D9':
+      return { start: sign + [0, 8, 4][modality], step: 1 };
+    case 'D10':
+      return { start: isOddSign ? sign : sign + 8, step: 1 };
+    case 'D16':
+      return { start: [ARIES, LEO, SAGITTARIUS][modality], step: 1 };
+    case 'D20':
+      return { start: [ARIES, SAGITTARIUS, LEO][modality], step: 1 };
+    case 'D24':
+      return { start: isOddSign ? LEO : CANCER, step: 1 };
+    default:
+      return { start: sign, step: 1 };
+  }
+}
+
+/**
+ * Divisional longitude of a sidereal longitude
+ *
+ * The divisional sign follows the Parashari rules; the degree within it is
+ * the position inside the division scaled to 30°.
+ */
+export function calculateVargaLongitude(longitude: number, chartType: NorthIndianChartType): number {
+  const normalized = normalizeDegrees(longitude);
+  const sign = Math.floor(normalized / 30);
+  const degree = normalized - sign * 30;
+  const isOddSign = sign % 2 === 0;
+
+  if (chartType === 'D1') {
+    return normalized;
+  }
+
+  if (chartType === 'D2') {
+    const isFirstHalf = degree < 15;
+    const vargaSign = isOddSign === isFirstHalf ? LEO : CANCER;
+    return vargaSign * 30 + ((degree % 15) / 15) * 30;
+  }
+
+  if (chartType === 'D30') {
+    const portions = isOddSign ? TRIMSAMSA_ODD : TRIMSAMSA_EVEN;
+    let lower = 0;
+    for (const [upper, vargaSign] of portions) {
+      if (degree < upper) {
+        return vargaSign * 30 + ((degree - lower) / (upper - lower)) * 30;
+      }
+      lower = upper;
+    }
+  }
+
+  const divisions = VARGA_DIVISIONS[chartType];
+  const position = (degree * divisions) / 30;
+  const part = Math.min(Math.floor(position), divisions - 1);
+  const { start, step } = vargaStart(chartType, sign);
+  const vargaSign = (start + part * step) % 12;
+  return vargaSign * 30 + (position - part) * 30;
+}
+
+/**
+ * Derive divisional chart input from Rasi data
+ *
+ * Tropical data is converted to sidereal first. The result uses whole sign
+ * houses from the divisional ascendant and can be passed to the processor.
+ */
+export function calculateVargaData(
+  rawData: RawAstrologicalData,
+  chartType: NorthIndianChartType,
+  ayanamsa?: AyanamsaConfig
+): RawAstrologicalData {
+  const { data: sidereal } = applyAyanamsa(rawData, ayanamsa ?? {
+    system: rawData.ayanamsa ?? DEFAULT_AYANAMSA,
+    customOffset: rawData.customAyanamsa,
+  });
+
+  const planets = {} as Record<VedicPlanet, number>;
+  (Object.entries(sidereal.planets) as [VedicPlanet, number][]).forEach(([planet, degree]) => {
+    planets[planet] = calculateVargaLongitude(degree, chartType);
+  });
+
+  const ascendant = calculateVargaLongitude(sidereal.ascendant, chartType);
+  const firstHouse = Math.floor(ascendant / 30) * 30;
+
+  return {
+    datetime: sidereal.datetime,
+    location: sidereal.location,
+    title: sidereal.title,
+    planets,
+    ascendant,
+    houseCusps: Array.from({ length: 12 }, (_, index) => normalizeDegrees(firstHouse + index * 30)),
+    houseSystem: 'whole_sign',
+    retrograde: sidereal.retrograde,
+    ayanamsa: sidereal.ayanamsa,
+    customAyanamsa: sidereal.customAyanamsa,
+    zodiac: 'sidereal',
+    chartType,
+  };
+}
+
+/**
+ * Build a divisional chart ready for display
+ */
+export function calculateDivisionalChart(
+  rawData: RawAstrologicalData,
+  chartType: NorthIndianChartType,
+  ayanamsa?: AyanamsaConfig
+): NorthIndianChartData {
+  const varga = calculateVargaData(rawData, chartType, ayanamsa);
+  const ascendantSign = Math.floor(varga.ascendant / 30);
+
+  const houses: NorthIndianHouseData[] = Array.from({ length: 12 }, (_, index) => {
+    const sign = (ascendantSign + index) % 12;
+    const rashi = VEDIC_RASHIS[sign];
+    return {
+      number: (index + 1) as NorthIndianHouseNumber,
+      rashi,
+      planets: (Object.entries(varga.planets) as [VedicPlanet, number][])
+        .filter(([, degree]) => Math.floor(degree / 30) === sign)
+        .map(([planet]) => planet),
+      houseLord: PLANET_RULERSHIP[rashi],
+      cusp: sign * 30,
+    };
+  });
+
+  return {
+    houses,
+    ascendant: 1,
+    ascendantDegree: varga.ascendant,
+    planetDegrees: varga.planets,
+    chartType,
+    datetime: varga.datetime,
+    location: varga.location,
+    title: varga.title,
+    ayanamsa: varga.ayanamsa,
+    houseSystem: 'whole_sign',
+  };
+}
+
+/**
+ * Build a set of divisional charts keyed by chart type
+ *
+ * The result can be passed straight to `NorthIndianChartNavigator.availableCharts`.
+ */
+export function calculateDivisionalCharts(
+  rawData: RawAstrologicalData,
+  chartTypes: NorthIndianChartType[] = VARGA_CHART_TYPES,
+  ayanamsa?: AyanamsaConfig
+): Record<string, NorthIndianChartData> {
+  const charts: Record<string, NorthIndianChartData> = {};
+  chartTypes.forEach(chartType => {
+    charts[chartType] = calculateDivisionalChart(rawData, chartType, ayanamsa);
+  });
+  return charts;
+}
@@ -0,0 +1,500 @@
+/**
+ * Corp Astro UI Library - Tajika Varshaphal (Annual Chart)
+ *
+ * Builds the Tajika annual chart from the sidereal solar return (Varsha
+ * Pravesha): the Muntha, the five office-bearers (Pancha Adhikaris), their
+ * Panchavargiya bala, the lord of the year (Varshesha) and the principal
+ * Sahams.
+ *
+ * The year lord is the strongest office-bearer aspecting the annual lagna by
+ * Tajika aspect (houses 1, 3, 4, 5, 7, 9, 10 and 11 from the planet), or the
+ * strongest office-bearer when none does. Panchavargiya bala uses the
+ * natural (Parashari) relationships and the Egyptian terms for Hadda. Sahams
+ * are measured on equal houses from the annual ascendant.
+ *
+ * @module varshaphalUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import type { AstrologyWheelData } from './AstrologyWheel';
+import {
+  EXALTATION_POSITIONS,
+  NorthIndianChartData,
+  PLANET_RULERSHIP,
+  VEDIC_RASHIS,
+  VedicRashi,
+} from './NorthIndianChart';
+import { DEFAULT_AYANAMSA, getAyanamsa } from './ayanamsaUtils';
+import { EphemerisResult, dateFromJulianDay } from './ephemerisUtils';
+import { getNaturalRelationship } from './friendshipUtils';
+import { ReturnChart, ReturnNatalChart, ReturnOptions, calculateSolarReturn } from './returnChartUtils';
+import { calculateVargaLongitude } from './vargaUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Natal chart a Varshaphal is cast for (tropical longitudes)
+ */
+export type VarshaphalNatalChart = ReturnNatalChart & Pick<EphemerisResult, 'ascendant'>;
+
+/**
+ * Varshaphal options
+ */
+export type VarshaphalOptions = Omit<ReturnOptions, 'zodiac' | 'houseSystem'>;
+
+/**
+ * Planet taking part in Tajika strength and office
+ */
+export type TajikaPlanet = 'sun' | 'moon' | 'mars' | 'mercury' | 'jupiter' | 'venus' | 'saturn';
+
+/**
+ * The five offices (Pancha Adhikaris) contending for lord of the year
+ */
+export type TajikaOffice = 'munthaLord' | 'birthLagnaLord' | 'yearLagnaLord' | 'triRashiLord' | 'dinRatriLord';
+
+/**
+ * Reading of the Muntha by its house from the annual lagna
+ */
+export type MunthaEffect = 'excellent' | 'good' | 'adverse';
+
+/**
+ * Sahams (sensitive points) computed for the year
+ */
+export type SahamId =
+  | 'punya'
+  | 'vidya'
+  | 'yasas'
+  | 'mitra'
+  | 'mahatmya'
+  | 'asha'
+  | 'bhratri'
+  | 'gaurava'
+  | 'pitri'
+  | 'matri'
+  | 'putra'
+  | 'vivaha'
+  | 'karma'
+  | 'roga'
+  | 'vyapara'
+  | 'artha'
+  | 'paradesa';
+
+/**
+ * Muntha, the progressed natal lagna
+ */
+export interface Muntha {
+  /** Sidereal longitude (natal lagna advanced one sign per year) */
+  longitude: number;
+  /** Sign occupied */
+  sign: VedicRashi;
+  /** House from the annual lagna */
+  house: number;
+  /** Lord of the Muntha sign */
+  lord: TajikaPlanet;
+  /** Reading of the house */
+  effect: MunthaEffect;
+}
+
+/**
+ * Panchavargiya bala, the five-fold Tajika strength (0-20)
+ */
+export interface PanchavargiyaBala {
+  planet: TajikaPlanet;
+  /** Sign strength (0-30) */
+  kshetra: number;
+  /** Exaltation strength (0-20) */
+  uchcha: number;
+  /** Term strength (0-15) */
+  hadda: number;
+  /** Decanate strength (0-10) */
+  drekkana: number;
+  /** Navamsa strength (0-5) */
+  navamsa: number;
+  /** Sum of the five divided by four (0-20) */
+  total: number;
+}
+
+/**
+ * Holder of one of the five offices
+ */
+export interface OfficeBearer {
+  office: TajikaOffice;
+  planet: TajikaPlanet;
+  /** Panchavargiya bala of the planet (0-20) */
+  strength: number;
+  /** Whether the planet aspects the annual lagna by Tajika aspect */
+  aspectsLagna: boolean;
+}
+
+/**
+ * A computed Saham
+ */
+export interface Saham {
+  id: SahamId;
+  name: string;
+  /** Matter of life the Saham signifies */
+  signification: string;
+  /** Sidereal longitude */
+  longitude: number;
+  sign: VedicRashi;
+  /** House from the annual lagna */
+  house: number;
+  lord: TajikaPlanet;
+}
+
+/**
+ * Complete Varshaphal for one year of life
+ */
+export interface VarshaphalResult {
+  /** Calendar year of the Varsha Pravesha */
+  year: number;
+  /** Completed years of life at the Varsha Pravesha */
+  age: number;
+  /** Sidereal solar return the year is cast for */
+  solarReturn: ReturnChart;
+  /** Sun above the horizon at the Varsha Pravesha */
+  isDayChart: boolean;
+  /** Sidereal annual ascendant */
+  ascendant: number;
+  muntha: Muntha;
+  officeBearers: OfficeBearer[];
+  /** Lord of the year (Varshesha) */
+  yearLord: TajikaPlanet;
+  /** Panchavargiya bala of the seven planets */
+  strengths: PanchavargiyaBala[];
+  sahams: Saham[];
+  /** Annual chart for the North Indian chart component */
+  northIndian: NorthIndianChartData;
+  /** Annual chart for the astrology wheel (sidereal) */
+  wheel: AstrologyWheelData;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TAJIKA_PLANETS: TajikaPlanet[] = ['sun', 'moon', 'mars', 'mercury', 'jupiter', 'venus', 'saturn'];
+
+/**
+ * Display names for the offices
+ */
+export const TAJIKA_OFFICE_NAMES: Record<TajikaOffice, string> = {
+  munthaLord: 'Muntha Lord',
+  birthLagnaLord: 'Janma Lagna Lord',
+  yearLagnaLord: 'Varsha Lagna Lord',
+  triRashiLord: 'Tri-Rashi Lord',
+  dinRatriLord: 'Din-Ratri Lord',
+};
+
+/**
+ * Houses from a planet it aspects by Tajika aspect
+ */
+const TAJIKA_ASPECT_HOUSES = [1, 3, 4, 5, 7, 9, 10, 11];
+
+/**
+ * Muntha reading by house from the annual lagna
+ */
+const MUNTHA_HOUSE_EFFECTS: Record<number, MunthaEffect> = {
+  1: 'good', 2: 'good', 3: 'good', 4: 'adverse', 5: 'good', 6: 'adverse',
+  7: 'adverse', 8: 'adverse', 9: 'excellent', 10: 'excellent', 11: 'excellent', 12: 'adverse',
+};
+
+/**
+ * Tri-Rashi lords of the annual lagna sign by day and by night
+ */
+const TRI_RASHI_LORDS: Record<VedicRashi, { day: TajikaPlanet; night: TajikaPlanet }> = {
+  aries: { day: 'sun', night: 'jupiter' },
+  taurus: { day: 'venus', night: 'moon' },
+  gemini: { day: 'saturn', night: 'mercury' },
+  cancer: { day: 'venus', night: 'mars' },
+  leo: { day: 'jupiter', night: 'sun' },
+  virgo: { day: 'moon', night: 'venus' },
+  libra: { day: 'mercury', night: 'saturn' },
+  scorpio: { day: 'mars', night: 'venus' },
+  sagittarius: { day: 'saturn', night: 'saturn' },
+  capricorn: { day: 'mars', night: 'mars' },
+  aquarius: { day: 'jupiter', night: 'jupiter' },
+  pisces: { day: 'moon', night: 'moon' },
+};
+
+/**
+ * Egyptian terms (Hadda): lord and end degree of each term in a sign
+ */
+const HADDA_TERMS: Record<VedicRashi, [TajikaPlanet, number][]> = {
+  aries: [['jupiter', 6], ['venus', 12], ['mercury', 20], ['mars', 25], ['saturn', 30]],
+  taurus: [['venus', 8], ['mercury', 14], ['jupiter', 22], ['saturn', 27], ['mars', 30]],
+  gemini: [['mercury', 6], ['jupiter', 12], ['venus', 17], ['mars', 24], ['saturn', 30]],
+  cancer: [['mars', 7], ['venus', 13], ['mercury', 19], ['jupiter', 26], ['saturn', 30]],
+  leo: [['jupiter', 6], ['venus', 11], ['saturn', 18], ['mercury', 24], ['mars', 30]],
+  virgo: [['mercury', 7], ['venus', 17], ['jupiter', 21], ['mars', 28], ['saturn', 30]],
+  libra: [['saturn', 6], ['mercury', 14], ['jupiter', 21], ['venus', 28], ['mars', 30]],
+  scorpio: [['mars', 7], ['venus', 11], ['mercury', 19], ['jupiter', 24], ['saturn', 30]],
+  sagittarius: [['jupiter', 12], ['venus', 17], ['mercury', 21], ['saturn', 26], ['mars', 30]],
+  capricorn: [['mercury', 7], ['jupiter', 14], ['venus', 22], ['saturn', 26], ['mars', 30]],
+  aquarius: [['mercury', 7], ['venus', 13], ['jupiter', 20], ['mars', 25], ['saturn', 30]],
+  pisces: [['venus', 12], ['jupiter', 16], ['mercury', 19], ['mars', 28], ['saturn', 30]],
+};
+
+/**
+ * Full strength of each Panchavargiya component held in own dignity
+ */
+const PANCHAVARGIYA_FULL = {
+  kshetra: 30,
+  hadda: 15,
+  drekkana: 10,
+  navamsa: 5,
+} as const;
+
+/**
+ * Share of full strength by relationship to the lord of the division
+ */
+const RELATIONSHIP_SHARE = {
+  own: 1,
+  friend: 1 / 2,
+  neutral: 3 / 8,
+  enemy: 1 / 4,
+} as const;
+
+/** Point a Saham formula refers to */
+type SahamPoint = TajikaPlanet | 'lagna' | 'punya' | 'cusp2' | 'cusp2Lord' | 'cusp9' | 'cusp9Lord';
+
+/**
+ * Saham formulas A - B + C for a day chart; `reverseAtNight` swaps A and B
+ */
+const SAHAM_DEFINITIONS: Record<SahamId, {
+  name: string;
+  signification: string;
+  terms: [SahamPoint, SahamPoint, SahamPoint];
+  reverseAtNight: boolean;
+}> = {
+  punya: { name: 'Punya', signification: 'Fortune and merit', terms: ['moon', 'sun', 'lagna'], reverseAtNight: true },
+  vidya: { name: 'Vidya', signification: 'Learning', terms: ['sun', 'moon', 'lagna'], reverseAtNight: true },
+  yasas: { name: 'Yasas', signification: 'Fame', terms: ['jupiter', 'punya', 'lagna'], reverseAtNight: true },
+  mitra: { name: 'Mitra', signification: 'Friends', terms: ['jupiter', 'punya', 'venus'], reverseAtNight: true },
+  mahatmya: { name: 'Mahatmya', signification: 'Greatness', terms: ['punya', 'mars', 'lagna'], reverseAtNight: true },
+  asha: { name: 'Asha', signification: 'Desires', terms: ['saturn', 'mars', 'lagna'], reverseAtNight: true },
+  bhratri: { name: 'Bhratri', signification: 'Siblings', terms: ['jupiter', 'saturn', 'lagna'], reverseAtNight: false },
+  gaurava: { name: 'Gaurava', signification: 'Honour', terms: ['jupiter', 'moon', 'sun'], reverseAtNight: true },
+  pitri: { name: 'Pitri', signification: 'Father', terms: ['saturn', 'sun', 'lagna'], reverseAtNight: true },
+  matri: { name: 'Matri', signification: 'Mother', terms: ['moon', 'venus', 'lagna'], reverseAtNight: true },
+  putra: { name: 'Putra', signification: 'Children', terms: ['jupiter', 'moon', 'lagna'], reverseAtNight: true },
+  vivaha: { name: 'Vivaha', signification: 'Marriage', terms: ['venus', 'saturn', 'lagna'], reverseAtNight: false },
+  karma: { name: 'Karma', signification: 'Work', terms: ['mars', 'mercury', 'lagna'], reverseAtNight: true },
+  roga: { name: 'Roga', signification: 'Illness', terms: ['lagna', 'moon', 'lagna'], reverseAtNight: false },
+  vyapara: { name: 'Vyapara', signification: 'Trade', terms: ['mars', 'saturn', 'lagna'], reverseAtNight: true },
+  artha: { name: 'Artha', signification: 'Wealth', terms: ['cusp2', 'cusp2Lord', 'lagna'], reverseAtNight: true },
+  paradesa: { name: 'Paradesa', signification: 'Foreign travel', terms: ['cusp9', 'cusp9Lord', 'lagna'], reverseAtNight: true },
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Normalize degrees to 0-360 range
+ */
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Sign of a longitude
+ */
+function signOf(longitude: number): VedicRashi {
+  return VEDIC_RASHIS[Math.floor(normalizeDegrees(longitude) / 30)];
+}
+
+/**
+ * Lord of the sign a longitude falls in
+ */
+function lordOf(longitude: number): TajikaPlanet {
+  return PLANET_RULERSHIP[signOf(longitude)] as TajikaPlanet;
+}
+
+/**
+ * Whole-sign house of a longitude from the lagna
+ */
+function houseFrom(longitude: number, lagna: number): number {
+  const offset = VEDIC_RASHIS.indexOf(signOf(longitude)) - VEDIC_RASHIS.indexOf(signOf(lagna));
+  return ((offset + 12) % 12) + 1;
+}
+
+/**
+ * Lord of the Egyptian term a longitude falls in
+ */
+function haddaLord(longitude: number): TajikaPlanet {
+  const degree = normalizeDegrees(longitude) % 30;
+  const terms = HADDA_TERMS[signOf(longitude)];
+  return (terms.find(([, end]) => degree < end) ?? terms[terms.length - 1])[0];
+}
+
+/**
+ * Strength a planet draws from a division ruled by a lord
+ */
+function dignityStrength(planet: TajikaPlanet, lord: TajikaPlanet, full: number): number {
+  if (planet === lord) return full * RELATIONSHIP_SHARE.own;
+  return full * RELATIONSHIP_SHARE[getNaturalRelationship(planet, lord)];
+}
+
+/**
+ * Panchavargiya bala of a planet at a sidereal longitude
+ */
+export function calculatePanchavargiyaBala(planet: TajikaPlanet, longitude: number): PanchavargiyaBala {
+  const exaltation = EXALTATION_POSITIONS[planet];
+  const exaltationLongitude = VEDIC_RASHIS.indexOf(exaltation.rashi) * 30 + exaltation.degree;
+  const fromExaltation = Math.abs(normalizeDegrees(longitude - exaltationLongitude + 180) - 180);
+
+  const kshetra = dignityStrength(planet, lordOf(longitude), PANCHAVARGIYA_FULL.kshetra);
+  const uchcha = (180 - fromExaltation) / 9;
+  const hadda = dignityStrength(planet, haddaLord(longitude), PANCHAVARGIYA_FULL.hadda);
+  const drekkana = dignityStrength(planet, lordOf(calculateVargaLongitude(longitude, 'D3')), PANCHAVARGIYA_FULL.drekkana);
+  const navamsa = dignityStrength(planet, lordOf(calculateVargaLongitude(longitude, 'D9')), PANCHAVARGIYA_FULL.navamsa);
+
+  return {
+    planet,
+    kshetra,
+    uchcha,
+    hadda,
+    drekkana,
+    navamsa,
+    total: (kshetra + uchcha + hadda + drekkana + navamsa) / 4,
+  };
+}
+
+/**
+ * Whether a planet aspects the lagna by Tajika aspect
+ */
+function aspectsLagna(longitude: number, lagna: number): boolean {
+  return TAJIKA_ASPECT_HOUSES.includes(houseFrom(lagna, longitude));
+}
+
+/**
+ * Saham longitude A - B + C, adding a sign when C does not fall from B to A
+ */
+function sahamLongitude(a: number, b: number, c: number): number {
+  const base = normalizeDegrees(a - b + c);
+  return normalizeDegrees(c - b) <= normalizeDegrees(a - b) ? base : normalizeDegrees(base + 30);
+}
+
+/**
+ * Sahams of an annual chart
+ */
+export function calculateSahams(
+  planets: Record<TajikaPlanet, number>,
+  lagna: number,
+  isDayChart: boolean
+): Saham[] {
+  const points: Partial<Record<SahamPoint, number>> = {
+    ...planets,
+    lagna,
+    cusp2: normalizeDegrees(lagna + 30),
+    cusp2Lord: planets[lordOf(lagna + 30)],
+    cusp9: normalizeDegrees(lagna + 240),
+    cusp9Lord: planets[lordOf(lagna + 240)],
+  };
+
+  // Punya is computed first since several Sahams build on it
+  const ids = Object.keys(SAHAM_DEFINITIONS) as SahamId[];
+  return ids.map(id => {
+    const { name, signification, terms, reverseAtNight } = SAHAM_DEFINITIONS[id];
+    const [a, b, c] = terms.map(term => points[term] as number);
+    const longitude = !isDayChart && reverseAtNight ? sahamLongitude(b, a, c) : sahamLongitude(a, b, c);
+    if (id === 'punya') points.punya = longitude;
+
+    return {
+      id,
+      name,
+      signification,
+      longitude,
+      sign: signOf(longitude),
+      house: houseFrom(longitude, lagna),
+      lord: lordOf(longitude),
+    };
+  });
+}
+
+/**
+ * Muntha for a year of life
+ */
+export function calculateMuntha(natalLagna: number, age: number, annualLagna: number): Muntha {
+  const longitude = normalizeDegrees(natalLagna + age * 30);
+  const house = houseFrom(longitude, annualLagna);
+  return {
+    longitude,
+    sign: signOf(longitude),
+    house,
+    lord: lordOf(longitude),
+    effect: MUNTHA_HOUSE_EFFECTS[house],
+  };
+}
+
+/**
+ * Cast the Tajika Varshaphal for the year of life beginning in a calendar year
+ */
+export function calculateVarshaphal(
+  natal: VarshaphalNatalChart,
+  year: number,
+  options: VarshaphalOptions = {}
+): VarshaphalResult {
+  const { ayanamsaConfig = { system: DEFAULT_AYANAMSA } } = options;
+  const age = year - dateFromJulianDay(natal.julianDay).getUTCFullYear();
+  if (age < 0) {
+    throw new Error(`Varshaphal year ${year} is before the year of birth`);
+  }
+
+  const solarReturn = calculateSolarReturn(natal, year, { ...options, ayanamsaConfig, zodiac: 'sidereal' });
+  const { chart } = solarReturn;
+  const ayanamsa = getAyanamsa(ayanamsaConfig, chart.julianDay);
+  const planets = {} as Record<TajikaPlanet, number>;
+  TAJIKA_PLANETS.forEach(planet => {
+    planets[planet] = normalizeDegrees(chart.planets[planet] - ayanamsa);
+  });
+  const ascendant = normalizeDegrees(chart.ascendant - ayanamsa);
+  const natalLagna = normalizeDegrees(natal.ascendant - getAyanamsa(ayanamsaConfig, natal.julianDay));
+  const isDayChart = normalizeDegrees(planets.sun - ascendant) >= 180;
+
+  const strengths = TAJIKA_PLANETS.map(planet => calculatePanchavargiyaBala(planet, planets[planet]));
+  const strengthOf = (planet: TajikaPlanet) => strengths.find(bala => bala.planet === planet)?.total ?? 0;
+
+  const muntha = calculateMuntha(natalLagna, age, ascendant);
+  const triRashi = TRI_RASHI_LORDS[signOf(ascendant)];
+  const offices: [TajikaOffice, TajikaPlanet][] = [
+    ['munthaLord', muntha.lord],
+    ['birthLagnaLord', lordOf(natalLagna)],
+    ['yearLagnaLord', lordOf(ascendant)],
+    ['triRashiLord', isDayChart ? triRashi.day : triRashi.night],
+    ['dinRatriLord', lordOf(isDayChart ? planets.sun : planets.moon)],
+  ];
+  const officeBearers: OfficeBearer[] = offices.map(([office, planet]) => ({
+    office,
+    planet,
+    strength: strengthOf(planet),
+    aspectsLagna: aspectsLagna(planets[planet], ascendant),
+  }));
+
+  // Strongest aspecting office-bearer; earlier offices win ties
+  const contenders = officeBearers.some(bearer => bearer.aspectsLagna)
+    ? officeBearers.filter(bearer => bearer.aspectsLagna)
+    : officeBearers;
+  const yearLord = contenders.reduce((best, bearer) => (bearer.strength > best.strength ? bearer : best)).planet;
+
+  const title = [natal.title, `Varshaphal ${year}`].filter(Boolean).join(' · ');
+  return {
+    year,
+    age,
+    solarReturn,
+    isDayChart,
+    ascendant,
+    muntha,
+    officeBearers,
+    yearLord,
+    strengths,
+    sahams: calculateSahams(planets, ascendant, isDayChart),
+    northIndian: { ...solarReturn.northIndian, title },
+    wheel: { ...solarReturn.wheel, chartType: 'varshaphal', title },
+  };
+}
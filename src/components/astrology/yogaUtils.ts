@@ -0,0 +1,390 @@
+/**
+ * Corp Astro UI Library - Yoga Detection
+ *
+ * Rule-based detection of classical planetary combinations (yogas) in a
+ * Rasi chart: Raj and Dhana yogas from the association of house lords, the
+ * Pancha Mahapurusha yogas, Gaja Kesari, Budhaditya, Kemadruma, Neecha
+ * Bhanga and Viparita Raja yogas.
+ *
+ * Houses are counted by sign from the ascendant. Two lords are associated
+ * when they are conjunct, exchange signs (parivartana) or oppose each other
+ * (mutual 7th aspect).
+ *
+ * @module yogaUtils
+ * @version 1.0.0
+ * @since 2024
+ */
+
+import {
+  VedicPlanet,
+  NorthIndianHouseNumber,
+  VEDIC_RASHIS,
+  PLANET_RULERSHIP,
+  EXALTATION_POSITIONS,
+  DEBILITATION_POSITIONS,
+} from './NorthIndianChart';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Families of yogas detected
+ */
+export type YogaType =
+  | 'raja'
+  | 'dhana'
+  | 'pancha_mahapurusha'
+  | 'gaja_kesari'
+  | 'budhaditya'
+  | 'kemadruma'
+  | 'neecha_bhanga'
+  | 'viparita_raja';
+
+/**
+ * How fully a yoga is formed
+ */
+export type YogaStrength = 'strong' | 'moderate' | 'weak';
+
+/**
+ * A detected yoga
+ */
+export interface YogaResult {
+  /** Yoga family */
+  type: YogaType;
+  /** Name of the specific yoga, e.g. 'Hamsa Yoga' */
+  name: string;
+  /** Planets forming the yoga */
+  planets: VedicPlanet[];
+  /** Houses those planets occupy */
+  houses: NorthIndianHouseNumber[];
+  /** How fully the yoga is formed */
+  strength: YogaStrength;
+  /** How the yoga is formed and what affects its strength */
+  note: string;
+  /** Whether the yoga is auspicious (Kemadruma is not) */
+  isBenefic: boolean;
+}
+
+type Association = 'conjunction' | 'exchange' | 'opposition';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Display names for each yoga family
+ */
+export const YOGA_TYPE_NAMES: Record<YogaType, string> = {
+  raja: 'Raj Yoga',
+  dhana: 'Dhana Yoga',
+  pancha_mahapurusha: 'Pancha Mahapurusha Yoga',
+  gaja_kesari: 'Gaja Kesari Yoga',
+  budhaditya: 'Budhaditya Yoga',
+  kemadruma: 'Kemadruma Yoga',
+  neecha_bhanga: 'Neecha Bhanga Raj Yoga',
+  viparita_raja: 'Viparita Raj Yoga',
+};
+
+/** The seven grahas considered by the rules */
+const GRAHAS: VedicPlanet[] = ['sun', 'moon', 'mars', 'mercury', 'jupiter', 'venus', 'saturn'];
+
+const KENDRAS = [1, 4, 7, 10];
+const TRIKONAS = [1, 5, 9];
+const DUSTHANAS = [6, 8, 12];
+
+/** Houses of wealth, and the houses of fortune they combine with */
+const DHANA_HOUSES = [2, 11];
+const FORTUNE_HOUSES = [1, 5, 9];
+
+/**
+ * Pancha Mahapurusha yoga formed by each planet
+ */
+const MAHAPURUSHA_YOGAS: Partial<Record<VedicPlanet, string>> = {
+  mars: 'Ruchaka Yoga',
+  mercury: 'Bhadra Yoga',
+  jupiter: 'Hamsa Yoga',
+  venus: 'Malavya Yoga',
+  saturn: 'Shasha Yoga',
+};
+
+/**
+ * Viparita Raj yoga formed by the lord of each dusthana
+ */
+const VIPARITA_YOGAS: Record<number, string> = {
+  6: 'Harsha Yoga',
+  8: 'Sarala Yoga',
+  12: 'Vimala Yoga',
+};
+
+/** Mercury within this arc of the Sun is combust */
+const MERCURY_COMBUSTION_ORB = 14;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Sign index (Aries = 0) of a longitude
+ */
+function signOf(longitude: number): number {
+  return Math.floor((((longitude % 360) + 360) % 360) / 30);
+}
+
+/**
+ * House counted from one sign to another (1-12)
+ */
+function houseFrom(fromSign: number, toSign: number): NorthIndianHouseNumber {
+  return (((toSign - fromSign + 12) % 12) + 1) as NorthIndianHouseNumber;
+}
+
+/**
+ * Ordinal for a house number, e.g. '2nd'
+ */
+function ordinal(house: number): string {
+  if (house === 1) return '1st';
+  if (house === 2) return '2nd';
+  if (house === 3) return '3rd';
+  return `${house}th`;
+}
+
+/**
+ * Capitalised planet or rashi name
+ */
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Detect classical yogas from sidereal positions
+ *
+ * Only the seven grahas take part; Rahu, Ketu and the outer planets are
+ * ignored. Each yoga lists its planets and the houses they occupy.
+ */
+export function detectYogas(
+  planets: Partial<Record<VedicPlanet, number>>,
+  ascendant: number
+): YogaResult[] {
+  const signs: Partial<Record<VedicPlanet, number>> = {};
+  GRAHAS.forEach(planet => {
+    const longitude = planets[planet];
+    if (longitude !== undefined) signs[planet] = signOf(longitude);
+  });
+  const present = GRAHAS.filter(planet => signs[planet] !== undefined);
+
+  const ascendantSign = signOf(ascendant);
+  const moonSign = signs.moon;
+  const houseOf = (planet: VedicPlanet) => houseFrom(ascendantSign, signs[planet]!);
+  const lordOf = (house: number) => PLANET_RULERSHIP[VEDIC_RASHIS[(ascendantSign + house - 1) % 12]];
+  const housesRuled = (planet: VedicPlanet, houses: number[]) => (
+    houses.filter(house => lordOf(house) === planet).sort((a, b) => a - b)
+  );
+  const rashiOf = (planet: VedicPlanet) => VEDIC_RASHIS[signs[planet]!];
+  const isExalted = (planet: VedicPlanet) => EXALTATION_POSITIONS[planet].rashi === rashiOf(planet);
+  const isOwn = (planet: VedicPlanet) => PLANET_RULERSHIP[rashiOf(planet)] === planet;
+  const isInKendra = (planet: VedicPlanet) => KENDRAS.includes(houseOf(planet))
+    || (moonSign !== undefined && KENDRAS.includes(houseFrom(moonSign, signs[planet]!)));
+
+  const associationOf = (a: VedicPlanet, b: VedicPlanet): Association | undefined => {
+    if (signs[a] === signs[b]) return 'conjunction';
+    if (PLANET_RULERSHIP[rashiOf(a)] === b && PLANET_RULERSHIP[rashiOf(b)] === a) return 'exchange';
+    if (houseFrom(signs[a]!, signs[b]!) === 7) return 'opposition';
+    return undefined;
+  };
+
+  const associationStrength = (association: Association, a: VedicPlanet, b: VedicPlanet): YogaStrength => {
+    if (association === 'exchange') return 'strong';
+    const houses = [houseOf(a), houseOf(b)];
+    if (houses.some(house => DUSTHANAS.includes(house))) return 'weak';
+    if (houses.every(house => KENDRAS.includes(house) || TRIKONAS.includes(house))) return 'strong';
+    return 'moderate';
+  };
+
+  const describeLord = (planet: VedicPlanet, houses: number[]) => (
+    `${capitalize(planet)} (${housesRuled(planet, houses).map(ordinal).join(', ')} lord)`
+  );
+
+  const yogas: YogaResult[] = [];
+
+  /**
+   * Yogas formed by associated lords of two groups of houses
+   */
+  const addLordAssociations = (type: 'raja' | 'dhana', groupA: number[], groupB: number[]) => {
+    const seen = new Set<string>();
+    const allHouses = Array.from(new Set([...groupA, ...groupB]));
+    groupA.forEach(houseA => {
+      groupB.forEach(houseB => {
+        const a = lordOf(houseA);
+        const b = lordOf(houseB);
+        const key = [a, b].sort().join('-');
+        if (houseA === houseB || a === b || seen.has(key) || signs[a] === undefined || signs[b] === undefined) return;
+        const association = associationOf(a, b);
+        if (!association) return;
+        seen.add(key);
+        yogas.push({
+          type,
+          name: YOGA_TYPE_NAMES[type],
+          planets: [a, b],
+          houses: [houseOf(a), houseOf(b)],
+          strength: associationStrength(association, a, b),
+          note: `${describeLord(a, allHouses)} and ${describeLord(b, allHouses)} by ${association}`,
+          isBenefic: true,
+        });
+      });
+    });
+  };
+
+  // Raj yogas: kendra and trikona lords together, or one planet ruling both
+  present.forEach(planet => {
+    const kendras = housesRuled(planet, KENDRAS).filter(house => house !== 1);
+    const trikonas = housesRuled(planet, TRIKONAS).filter(house => house !== 1);
+    if (kendras.length === 0 || trikonas.length === 0) return;
+    const house = houseOf(planet);
+    yogas.push({
+      type: 'raja',
+      name: 'Yogakaraka Raj Yoga',
+      planets: [planet],
+      houses: [house],
+      strength: DUSTHANAS.includes(house) ? 'weak'
+        : KENDRAS.includes(house) || TRIKONAS.includes(house) ? 'strong'
+        : 'moderate',
+      note: `${capitalize(planet)} rules the ${housesRuled(planet, [...kendras, ...trikonas]).map(ordinal).join(' and ')} and sits in the ${ordinal(house)}`,
+      isBenefic: true,
+    });
+  });
+  addLordAssociations('raja', KENDRAS, TRIKONAS);
+
+  // Dhana yogas: lords of wealth with lords of wealth or fortune
+  addLordAssociations('dhana', DHANA_HOUSES, [...DHANA_HOUSES, ...FORTUNE_HOUSES]);
+
+  // Pancha Mahapurusha yogas
+  present.forEach(planet => {
+    const name = MAHAPURUSHA_YOGAS[planet];
+    const house = houseOf(planet);
+    if (!name || !KENDRAS.includes(house)) return;
+    const exalted = isExalted(planet);
+    if (!exalted && !isOwn(planet)) return;
+    yogas.push({
+      type: 'pancha_mahapurusha',
+      name,
+      planets: [planet],
+      houses: [house],
+      strength: exalted ? 'strong' : 'moderate',
+      note: `${capitalize(planet)} ${exalted ? 'exalted' : 'in its own sign'} in the ${ordinal(house)} house`,
+      isBenefic: true,
+    });
+  });
+
+  if (moonSign !== undefined) {
+    // Gaja Kesari: Jupiter in a kendra from the Moon
+    if (signs.jupiter !== undefined) {
+      const fromMoon = houseFrom(moonSign, signs.jupiter);
+      if (KENDRAS.includes(fromMoon)) {
+        const debilitated = DEBILITATION_POSITIONS.jupiter.rashi === rashiOf('jupiter');
+        yogas.push({
+          type: 'gaja_kesari',
+          name: YOGA_TYPE_NAMES.gaja_kesari,
+          planets: ['jupiter', 'moon'],
+          houses: [houseOf('jupiter'), houseOf('moon')],
+          strength: debilitated ? 'weak'
+            : isExalted('jupiter') || isOwn('jupiter') ? 'strong'
+            : 'moderate',
+          note: `Jupiter in the ${ordinal(fromMoon)} from the Moon${debilitated ? ', but debilitated' : ''}`,
+          isBenefic: true,
+        });
+      }
+    }
+
+    // Kemadruma: no graha other than the Sun in the 2nd or 12th from the Moon
+    const flanking = present.filter(planet => (
+      planet !== 'sun' && planet !== 'moon' && [2, 12].includes(houseFrom(moonSign, signs[planet]!))
+    ));
+    if (flanking.length === 0) {
+      const cancelling = present.filter(planet => (
+        planet !== 'sun' && planet !== 'moon' && KENDRAS.includes(houseFrom(moonSign, signs[planet]!))
+      ));
+      const moonInKendra = KENDRAS.includes(houseOf('moon'));
+      const isCancelled = cancelling.length > 0 || moonInKendra;
+      yogas.push({
+        type: 'kemadruma',
+        name: YOGA_TYPE_NAMES.kemadruma,
+        planets: ['moon'],
+        houses: [houseOf('moon')],
+        strength: isCancelled ? 'weak' : 'strong',
+        note: isCancelled
+          ? `No planets beside the Moon, but cancelled by ${
+            cancelling.length > 0
+              ? `${cancelling.map(capitalize).join(', ')} in a kendra from the Moon`
+              : 'the Moon in a kendra'
+          }`
+          : 'No planets in the 2nd or 12th from the Moon',
+        isBenefic: false,
+      });
+    }
+  }
+
+  // Budhaditya: Sun and Mercury in the same sign
+  if (signs.sun !== undefined && signs.mercury !== undefined && signs.sun === signs.mercury) {
+    const separation = Math.abs((((planets.mercury! - planets.sun!) % 360) + 540) % 360 - 180);
+    const isCombust = separation < MERCURY_COMBUSTION_ORB;
+    yogas.push({
+      type: 'budhaditya',
+      name: YOGA_TYPE_NAMES.budhaditya,
+      planets: ['sun', 'mercury'],
+      houses: [houseOf('sun')],
+      strength: isCombust ? 'moderate' : 'strong',
+      note: `Sun and Mercury together in the ${ordinal(houseOf('sun'))} house${
+        isCombust ? `, Mercury combust (${separation.toFixed(1)}° from the Sun)` : ''
+      }`,
+      isBenefic: true,
+    });
+  }
+
+  // Neecha Bhanga: debilitation cancelled by a related planet in a kendra
+  present.forEach(planet => {
+    const rashi = rashiOf(planet);
+    if (DEBILITATION_POSITIONS[planet].rashi !== rashi) return;
+    const candidates: { planet: VedicPlanet; role: string }[] = [
+      { planet: PLANET_RULERSHIP[rashi], role: 'lord of its debilitation sign' },
+      { planet: PLANET_RULERSHIP[EXALTATION_POSITIONS[planet].rashi], role: 'lord of its exaltation sign' },
+      ...GRAHAS
+        .filter(other => other !== planet && EXALTATION_POSITIONS[other].rashi === rashi)
+        .map(other => ({ planet: other, role: `exalted in ${capitalize(rashi)}` })),
+    ];
+    const cancellers = candidates.filter(candidate => (
+      candidate.planet !== planet && signs[candidate.planet] !== undefined && isInKendra(candidate.planet)
+    ));
+    if (cancellers.length === 0) return;
+    const cancellingPlanets = Array.from(new Set(cancellers.map(canceller => canceller.planet)));
+    yogas.push({
+      type: 'neecha_bhanga',
+      name: YOGA_TYPE_NAMES.neecha_bhanga,
+      planets: [planet, ...cancellingPlanets],
+      houses: [houseOf(planet), ...cancellingPlanets.map(houseOf)],
+      strength: cancellers.length >= 2 ? 'strong' : 'moderate',
+      note: `${capitalize(planet)} debilitated in ${capitalize(rashi)}, cancelled by ${
+        cancellers.map(canceller => `${capitalize(canceller.planet)} (${canceller.role})`).join(', ')
+      } in a kendra`,
+      isBenefic: true,
+    });
+  });
+
+  // Viparita Raj yogas: lords of dusthanas placed in dusthanas
+  DUSTHANAS.forEach(dusthana => {
+    const lord = lordOf(dusthana);
+    if (signs[lord] === undefined) return;
+    const house = houseOf(lord);
+    if (!DUSTHANAS.includes(house)) return;
+    yogas.push({
+      type: 'viparita_raja',
+      name: VIPARITA_YOGAS[dusthana],
+      planets: [lord],
+      houses: [house],
+      strength: house === dusthana ? 'moderate' : 'strong',
+      note: `${capitalize(lord)} (${ordinal(dusthana)} lord) in the ${ordinal(house)} house`,
+      isBenefic: true,
+    });
+  });
+
+  return yogas;
+}
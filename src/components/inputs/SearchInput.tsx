@@ -100,6 +100,8 @@ export interface SearchInputSearchConfig {
   enableHistory?: boolean;
   /** Maximum history items */
   maxHistoryItems?: number;
+  /** Custom suggestion filter returning matches in display order (default: substring match on the text) */
+  filter?: (suggestions: SearchInputSuggestionItem[], query: string) => SearchInputSuggestionItem[];
 }
 
 /**
@@ -277,11 +279,14 @@ export const SearchInput: React.FC<SearchInputProps> = ({
         
         // Filter suggestions
         if (searchConfig.enableSuggestions && suggestions.length > 0) {
-          const filtered = suggestions.filter(suggestion => {
-            const searchText = searchConfig.caseSensitive ? suggestion.text : suggestion.text.toLowerCase();
-            const searchQuery = searchConfig.caseSensitive ? query : query.toLowerCase();
-            return searchText.includes(searchQuery);
-          }).slice(0, searchConfig.maxSuggestions);
+          const matches = searchConfig.filter
+            ? searchConfig.filter(suggestions, query)
+            : suggestions.filter(suggestion => {
+              const searchText = searchConfig.caseSensitive ? suggestion.text : suggestion.text.toLowerCase();
+              const searchQuery = searchConfig.caseSensitive ? query : query.toLowerCase();
+              return searchText.includes(searchQuery);
+            });
+          const filtered = matches.slice(0, searchConfig.maxSuggestions);
           
           setFilteredSuggestions(filtered);
           setShowSuggestions(filtered.length > 0);
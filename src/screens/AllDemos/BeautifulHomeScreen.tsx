@@ -5,8 +5,10 @@ import { FlatList, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { CompatibilityChart } from '../../components/astrology/CompatibilityChart';
 import { HoroscopeCard } from '../../components/astrology/HoroscopeCard';
 import { LunarPhase } from '../../components/astrology/LunarPhase';
+import { getCurrentLunarPhaseData } from '../../components/astrology/lunarPhaseUtils';
 import { PlanetIndicator } from '../../components/astrology/PlanetIndicator';
 import { RetrogradeBadge } from '../../components/astrology/RetrogradeBadge';
+import { createSkyMap } from '../../components/astrology/skyMapUtils';
 import { StarMap } from '../../components/astrology/StarMap';
 import { ZodiacCard } from '../../components/astrology/ZodiacCard';
 
@@ -71,15 +73,7 @@ const planetData = [
   { planet: 'mercury' as const, position: 45, sign: 'taurus' as const, house: 2, retrograde: true, influence: 70 },
 ];
 
-const lunarPhaseData = {
-  phase: 'full_moon' as const,
-  illumination: 100,
-  date: '2024-05-23',
-  nextPhase: 'waning_gibbous' as const,
-  daysUntilNext: 3,
-  significance: 'Culmination, completion, heightened energy',
-  activities: ['Celebrate achievements', 'Express gratitude'],
-};
+const lunarPhaseData = getCurrentLunarPhaseData();
 
 const retrogradeData = {
   planet: 'mercury' as const,
@@ -92,19 +86,7 @@ const retrogradeData = {
   effects: 'Communication delays, tech issues, revisit old projects.',
 };
 
-const starMapData = {
-  stars: [
-    { id: '1', x: 0.2, y: 0.3, magnitude: 1.2, name: 'Sirius', color: '#fff' },
-    { id: '2', x: 0.5, y: 0.5, magnitude: 2.0, name: 'Betelgeuse', color: '#ffe066' },
-    { id: '3', x: 0.7, y: 0.2, magnitude: 1.8, name: 'Rigel', color: '#b2f7ef' },
-  ],
-  constellations: [
-    { id: 'orion', name: 'Orion', connections: [['1', '2'], ['2', '3']], description: 'The Hunter' },
-  ],
-  title: 'Night Sky',
-  datetime: '2024-05-23T22:00:00Z',
-  location: 'Earth',
-};
+const starMapData = createSkyMap(new Date(), { title: 'Night Sky' });
 
 const BeautifulHomeScreen: React.FC = () => {
   const [isHeaderOverlayVisible, setIsHeaderOverlayVisible] = useState(true);
@@ -1,30 +1,70 @@
-import React from "react";
+import React, { useState } from "react";
 import { SafeAreaView, ScrollView, Text } from "react-native";
-import NorthIndianChart from "../../components/astrology/NorthIndianChart";
+import {
+  NorthIndianChart,
+  NorthIndianChartData,
+  NorthIndianHouseNumber,
+  VedicPlanet,
+  VEDIC_RASHIS,
+  PLANET_RULERSHIP,
+} from "../../components/astrology/NorthIndianChart";
 
-const samplePositions = [
-  { planet: "Sun", house: 1 },
-  { planet: "Mercury", house: 1 },
-  { planet: "Moon", house: 3 },
-  { planet: "Venus", house: 4 },
-  { planet: "Mars", house: 5 },
-  { planet: "Jupiter", house: 6 },
-  { planet: "Saturn", house: 7 },
-  { planet: "Rahu", house: 8 },
-  { planet: "Ketu", house: 9 },
-  { planet: "Neptune", house: 11 },
-  { planet: "Uranus", house: 12 },
-  { planet: "Pluto", house: 12 },
-];
+const samplePlanetDegrees: Partial<Record<VedicPlanet, number>> = {
+  sun: 125.4,
+  mercury: 138.2,
+  moon: 183.7,
+  venus: 212.9,
+  mars: 241.3,
+  jupiter: 272.6,
+  saturn: 304.1,
+  rahu: 335.8,
+  ketu: 155.8,
+  neptune: 47.5,
+  uranus: 96.2,
+  pluto: 101.4,
+};
+
+const sampleAscendantDegree = 130.5;
+
+const ascendantSign = Math.floor(sampleAscendantDegree / 30);
+
+const sampleChart: NorthIndianChartData = {
+  houses: VEDIC_RASHIS.map((_, index) => {
+    const rashi = VEDIC_RASHIS[(ascendantSign + index) % 12];
+    return {
+      number: (index + 1) as NorthIndianHouseNumber,
+      rashi,
+      planets: (Object.entries(samplePlanetDegrees) as [VedicPlanet, number][])
+        .filter(([, degree]) => VEDIC_RASHIS[Math.floor(degree / 30)] === rashi)
+        .map(([planet]) => planet),
+      houseLord: PLANET_RULERSHIP[rashi],
+    };
+  }),
+  ascendant: 1,
+  ascendantDegree: sampleAscendantDegree,
+  planetDegrees: samplePlanetDegrees,
+  retrogradePlanets: ["saturn", "rahu", "ketu"],
+  chartType: "D1",
+};
 
 const NorthIndianChartScreen = () => {
+  const [selection, setSelection] = useState<string>("Tap a house or planet");
+
   return (
-    <SafeAreaView style={{ flex: 1, backgroundColor: '#f8fafc' }}>
-      <ScrollView contentContainerStyle={{ flexGrow: 1, justifyContent: 'center', padding: 24 }}>
-        <Text style={{ fontSize: 20, fontWeight: 'bold', textAlign: 'center', marginBottom: 24 }}>
+    <SafeAreaView style={{ flex: 1, backgroundColor: '#10172A' }}>
+      <ScrollView contentContainerStyle={{ flexGrow: 1, justifyContent: 'center', alignItems: 'center', padding: 24 }}>
+        <Text style={{ fontSize: 20, fontWeight: 'bold', textAlign: 'center', marginBottom: 24, color: '#FFFFFF' }}>
           North Indian Chart Demo
         </Text>
-        <NorthIndianChart positions={samplePositions} />
+        <NorthIndianChart
+          data={sampleChart}
+          showHouseNumbers
+          onHousePress={(house) => setSelection(`House ${house.number} (${house.rashi})`)}
+          onPlanetPress={(planet, house) => setSelection(`${planet} in house ${house.number}`)}
+        />
+        <Text style={{ fontSize: 14, textAlign: 'center', marginTop: 16, color: '#B0B0B0' }}>
+          {selection}
+        </Text>
       </ScrollView>
     </SafeAreaView>
   );
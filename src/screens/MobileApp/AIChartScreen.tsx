@@ -3,6 +3,15 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import React, { useEffect, useRef, useState } from 'react';
 import { Animated, FlatList, KeyboardAvoidingView, Platform, SafeAreaView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { applyAyanamsa, DEFAULT_AYANAMSA } from '../../components/astrology/ayanamsaUtils';
+import { CompatibilityChart } from '../../components/astrology/CompatibilityChart';
+import { calculateEphemeris, EphemerisInput } from '../../components/astrology/ephemerisUtils';
+import {
+  calculateGunaMilan,
+  getGunaMilanCompatibilityData,
+  GunaMilanChart,
+  MATCH_VERDICT_NAMES,
+} from '../../components/astrology/gunaMilanUtils';
 import ButtonIcon from '../../components/buttons/ButtonIcon';
 import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
 import { CARD_GLASS_PRESET, createGlassMorphismStyle } from '../../components/foundations/effects/GlassMorphism';
@@ -19,6 +28,18 @@ interface ChatMessage {
   chartData?: any;
 }
 
+// Sample birth details matched when the user asks about compatibility
+const SAMPLE_MATCH: { groom: EphemerisInput; bride: EphemerisInput } = {
+  groom: { datetime: '1990-07-15T20:00', timezone: 5.5, latitude: 28.6, longitude: 77.2, title: 'Sample groom' },
+  bride: { datetime: '1992-03-11T06:45', timezone: 5.5, latitude: 19.08, longitude: 72.88, title: 'Sample bride' },
+};
+
+// Cast a sidereal chart for matching
+const castMatchChart = (details: EphemerisInput): GunaMilanChart => {
+  const { data } = applyAyanamsa(calculateEphemeris(details), { system: DEFAULT_AYANAMSA });
+  return { planetDegrees: data.planets, ascendantDegree: data.ascendant, title: details.title };
+};
+
 const AIChartScreen: React.FC = () => {
   const { colors } = useTheme();
   const navigation = useNavigation<any>();
@@ -100,13 +121,18 @@ const AIChartScreen: React.FC = () => {
         houses: '1st House: Virgo, 2nd House: Libra, 3rd House: Scorpio'
       };
     } else if (userMessage.toLowerCase().includes('compatibility') || userMessage.toLowerCase().includes('love')) {
-      aiResponse = "Let me analyze your compatibility! Here's what the stars reveal about your relationship dynamics:";
+      const match = calculateGunaMilan(castMatchChart(SAMPLE_MATCH.groom), castMatchChart(SAMPLE_MATCH.bride));
+      const compatibilityData = getGunaMilanCompatibilityData(match);
+      aiResponse = `Here's how Ashtakoota matching works, using an example couple: their charts share ${match.total} of ${match.maxTotal} gunas - ${MATCH_VERDICT_NAMES[match.verdict].toLowerCase()}:`;
       responseType = 'insight';
       chartData = {
-        compatibility: '85%',
-        strengths: ['Emotional connection', 'Shared values', 'Communication'],
-        challenges: ['Different communication styles'],
-        advice: 'Focus on open communication and understanding each other\'s needs.'
+        compatibility: `${compatibilityData.overallScore}%`,
+        compatibilityData,
+        strengths: compatibilityData.strengths,
+        challenges: compatibilityData.challenges,
+        advice: match.manglikCompatible
+          ? 'Focus on open communication and understanding each other\'s needs.'
+          : 'Manglik dosha falls on one side only; consider remedies before committing.'
       };
     } else if (userMessage.toLowerCase().includes('horoscope') || userMessage.toLowerCase().includes('daily')) {
       aiResponse = "Here's your daily cosmic forecast: Today is perfect for new beginnings! The Moon in Aries brings courage and initiative.";
@@ -174,6 +200,9 @@ const AIChartScreen: React.FC = () => {
         <Text style={[styles.messageText, { color: colors.neutral.light }]}>
           {item.text}
         </Text>
+        {item.type === 'insight' && item.chartData?.compatibilityData && (
+          <CompatibilityChart data={item.chartData.compatibilityData} size="small" style={{ marginTop: 12 }} />
+        )}
       </View>
     </AnimatedCard>
   );
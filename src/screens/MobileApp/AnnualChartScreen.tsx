@@ -0,0 +1,447 @@
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { ArrowLeft } from 'lucide-react-native';
+import React, { useCallback, useMemo, useState } from 'react';
+import { SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { AstrologyWheel } from '../../components/astrology/AstrologyWheel';
+import { NorthIndianChart } from '../../components/astrology/NorthIndianChart';
+import { calculateEphemeris, EphemerisInput } from '../../components/astrology/ephemerisUtils';
+import { ObserverLocation } from '../../components/astrology/horizonUtils';
+import { PLACES } from '../../components/astrology/placesData';
+import {
+  formatPlaceName,
+  getPlace,
+  getPlaceLocation,
+  resolveBirthPlace,
+  searchPlaces,
+} from '../../components/astrology/placesUtils';
+import {
+  calculateSolarReturn,
+  castReturnChart,
+  findLunarReturns,
+  ReturnChart,
+} from '../../components/astrology/returnChartUtils';
+import {
+  calculateVarshaphal,
+  TAJIKA_OFFICE_NAMES,
+  VarshaphalResult,
+} from '../../components/astrology/varshaphalUtils';
+import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
+import { CARD_GLASS_PRESET, createGlassMorphismStyle } from '../../components/foundations/effects/GlassMorphism';
+import { useTheme } from '../../components/foundations/themes/useTheme';
+import { SearchInput, SearchInputSuggestionItem } from '../../components/inputs/SearchInput';
+import AnimatedCard from '../../components/MobileApp/AnimatedCard';
+import CosmicBackground from '../../components/MobileApp/CosmicBackground';
+import Statusbar from '../../components/MobileApp/Statusbar';
+import { readStoredValue, StoredProfile } from '../../app/appStorage';
+
+type AnnualView = 'varshaphal' | 'solar' | 'lunar';
+
+const VIEWS: { id: AnnualView; label: string }[] = [
+  { id: 'varshaphal', label: 'Varshaphal' },
+  { id: 'solar', label: 'Solar Return' },
+  { id: 'lunar', label: 'Lunar Returns' },
+];
+
+// Sample birth details, used until a profile with a known birth place is saved
+const SAMPLE_BIRTH: EphemerisInput = {
+  datetime: '1990-07-15T20:00',
+  timezone: 5.5,
+  latitude: 28.6,
+  longitude: 77.2,
+  location: 'New Delhi',
+  title: 'Sample Chart',
+};
+
+// Place suggestions for SearchInput, one per gazetteer place
+const placeSuggestions: SearchInputSuggestionItem[] = PLACES.map(place => ({
+  id: place.id,
+  text: formatPlaceName(place),
+  data: place,
+}));
+
+// Rank suggestions with the gazetteer's fuzzy search (former names, misspellings)
+const filterPlaceSuggestions = (suggestions: SearchInputSuggestionItem[], query: string) => {
+  const byId = new Map(suggestions.map(suggestion => [suggestion.id, suggestion]));
+  return searchPlaces(query)
+    .map(match => byId.get(match.place.id))
+    .filter((suggestion): suggestion is SearchInputSuggestionItem => !!suggestion);
+};
+
+/**
+ * Natal chart input for the saved profile, or undefined when its birth place
+ * cannot be resolved
+ */
+const profileBirth = (profile: StoredProfile): EphemerisInput | undefined => {
+  try {
+    const place = resolveBirthPlace(profile.birthPlaceId ?? profile.birthLocation, profile.birthDatetime);
+    return {
+      datetime: profile.birthDatetime,
+      timezone: place.timezone,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      location: place.name,
+      title: profile.name,
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+const YEARS = [CURRENT_YEAR - 1, CURRENT_YEAR, CURRENT_YEAR + 1, CURRENT_YEAR + 2];
+
+const MUNTHA_EFFECT_NAMES = {
+  excellent: 'Excellent',
+  good: 'Good',
+  adverse: 'Challenging',
+} as const;
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const formatLocalDateTime = (date: Date, timezone: number): string =>
+  new Date(date.getTime() + timezone * 3600000).toISOString().slice(0, 16).replace('T', ' ');
+
+const formatDegree = (longitude: number): string => {
+  const degree = longitude % 30;
+  return `${Math.floor(degree)}°${String(Math.floor((degree % 1) * 60)).padStart(2, '0')}'`;
+};
+
+const AnnualChartScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const navigation = useNavigation<any>();
+  const [year, setYear] = useState(CURRENT_YEAR);
+  const [view, setView] = useState<AnnualView>('varshaphal');
+  const [lunarIndex, setLunarIndex] = useState(0);
+  const [birth, setBirth] = useState<EphemerisInput>(SAMPLE_BIRTH);
+  const [placeQuery, setPlaceQuery] = useState('');
+  const [placeId, setPlaceId] = useState<string | undefined>(undefined);
+
+  const glassCardStyle = createGlassMorphismStyle(CARD_GLASS_PRESET);
+
+  // Cast for the saved profile, re-read when the screen regains focus
+  useFocusEffect(useCallback(() => {
+    readStoredValue<StoredProfile>('profile').then(profile => {
+      setBirth((profile && profileBirth(profile)) ?? SAMPLE_BIRTH);
+    });
+  }, []));
+
+  const natal = useMemo(() => calculateEphemeris(birth), [birth]);
+
+  // Place the returns are cast for: the chosen place, with the UTC offset in
+  // force on that year's birthday, or the birth place
+  const location = useMemo((): ObserverLocation => {
+    const place = placeId ? getPlace(placeId) : undefined;
+    if (place) {
+      const [, month, day] = birth.datetime.slice(0, 10).split('-').map(Number);
+      return getPlaceLocation(place, new Date(Date.UTC(year, month - 1, day)));
+    }
+    return { latitude: birth.latitude, longitude: birth.longitude, timezone: birth.timezone, name: birth.location };
+  }, [birth, placeId, year]);
+
+  const annual = useMemo((): { varshaphal?: VarshaphalResult; lunarDates: Date[]; error?: string } => {
+    try {
+      return {
+        varshaphal: calculateVarshaphal(natal, year, { location }),
+        lunarDates: findLunarReturns(natal, new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year + 1, 0, 1)), {
+          location,
+        }),
+      };
+    } catch (error) {
+      return { lunarDates: [], error: error instanceof Error ? error.message : 'Annual chart failed' };
+    }
+  }, [natal, year, location]);
+
+  // Tropical return; the Varshaphal is cast for the sidereal one
+  const solarReturn = useMemo(
+    () => (view === 'solar' ? calculateSolarReturn(natal, year, { location }) : undefined),
+    [natal, view, year, location]
+  );
+
+  const lunarReturn = useMemo((): ReturnChart | undefined => {
+    const date = annual.lunarDates[lunarIndex];
+    return view === 'lunar' && date ? castReturnChart(natal, 'lunar', date, { location }) : undefined;
+  }, [natal, view, annual.lunarDates, lunarIndex, location]);
+
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  const handleYear = (value: number) => {
+    setYear(value);
+    setLunarIndex(0);
+  };
+
+  const varshaphal = annual.varshaphal;
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          borderColor: String(colors.brand.primary) + '60',
+          backgroundColor: active ? String(colors.brand.primary) + '30' : 'transparent',
+        },
+      ]}
+      accessibilityLabel={label}
+    >
+      <Text style={[styles.chipText, { color: active ? colors.brand.primary : colors.neutral.medium }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderRow = (label: string, value: string, note?: string) => (
+    <View key={label} style={styles.row}>
+      <View style={{ flex: 1 }}>
+        <Text style={[styles.rowLabel, { color: colors.neutral.light }]}>{label}</Text>
+        {note && <Text style={[styles.rowNote, { color: colors.neutral.medium }]}>{note}</Text>}
+      </View>
+      <Text style={[styles.rowValue, { color: colors.luxury.champagne }]}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.cosmos.deep }}>
+      <Statusbar />
+      <CosmicBackground />
+      <SafeAreaView style={{ flex: 1 }}>
+        <PrimaryHeader
+          title={
+            <Text style={{ fontSize: 20, fontWeight: '600', color: colors.brand.primary }}>
+              Annual Forecast
+            </Text>
+          }
+          backgroundColor="transparent"
+          height="custom"
+          customHeight={55}
+          shadow={false}
+          blur={false}
+          animated
+          leftButton={{
+            id: 'back',
+            icon: (
+              <TouchableOpacity
+                onPress={handleBack}
+                style={{
+                  height: 36,
+                  width: 36,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  borderRadius: 18,
+                  backgroundColor: 'rgba(148, 163, 184, 0.1)',
+                  marginLeft: -15
+                }}
+              >
+                <ArrowLeft size={20} color="#CBD5E1" />
+              </TouchableOpacity>
+            ),
+            onPress: handleBack,
+            accessibilityLabel: 'Back',
+          }}
+        />
+
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 140, paddingTop: 20 }}>
+          <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+            <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+              <Text style={[styles.helpText, { color: colors.neutral.medium }]}>
+                Charts for the year of life beginning on the birthday in the chosen year, cast for{' '}
+                {location.name ?? 'the birth place'}.
+              </Text>
+              {birth === SAMPLE_BIRTH && (
+                <Text style={[styles.helpText, { color: colors.neutral.medium }]}>
+                  These are sample birth details. Save your birth date, time and place in Profile to see your own annual charts.
+                </Text>
+              )}
+              <SearchInput
+                value={placeQuery}
+                onSearchChange={query => {
+                  setPlaceQuery(query);
+                  if (query !== placeQuery) setPlaceId(undefined);
+                }}
+                placeholder="Cast for the birth place, or search a place"
+                suggestions={placeSuggestions}
+                onSuggestionSelect={suggestion => {
+                  setPlaceQuery(suggestion.text);
+                  setPlaceId(suggestion.id);
+                  setLunarIndex(0);
+                }}
+                search={{
+                  debounceDelay: 300,
+                  minLength: 1,
+                  maxSuggestions: 5,
+                  enableSuggestions: true,
+                  showSearchIcon: true,
+                  showClearButton: true,
+                  filter: filterPlaceSuggestions,
+                }}
+              />
+              <View style={styles.chipRow}>
+                {YEARS.map(value => renderChip(String(value), String(value), value === year, () => handleYear(value)))}
+              </View>
+              <View style={styles.chipRow}>
+                {VIEWS.map(option => renderChip(option.id, option.label, option.id === view, () => setView(option.id)))}
+              </View>
+            </View>
+          </AnimatedCard>
+
+          {annual.error && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.helpText, { color: '#F87171' }]}>{annual.error}</Text>
+              </View>
+            </AnimatedCard>
+          )}
+
+          {view === 'varshaphal' && varshaphal && (
+            <>
+              <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+                <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                  <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>
+                    Varsha Pravesha {formatLocalDateTime(varshaphal.solarReturn.date, location.timezone)}
+                  </Text>
+                  <Text style={[styles.helpText, { color: colors.neutral.medium }]}>
+                    Year {varshaphal.age + 1} of life · {varshaphal.isDayChart ? 'Day' : 'Night'} chart
+                  </Text>
+                  <View style={styles.chartContainer}>
+                    <NorthIndianChart data={varshaphal.northIndian} size={280} />
+                  </View>
+                </View>
+              </AnimatedCard>
+
+              <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+                <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                  <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>
+                    Year Lord: {capitalize(varshaphal.yearLord)}
+                  </Text>
+                  {renderRow(
+                    'Muntha',
+                    `${capitalize(varshaphal.muntha.sign)} · House ${varshaphal.muntha.house}`,
+                    `Lord ${capitalize(varshaphal.muntha.lord)} · ${MUNTHA_EFFECT_NAMES[varshaphal.muntha.effect]}`
+                  )}
+                  {varshaphal.officeBearers.map(bearer =>
+                    renderRow(
+                      TAJIKA_OFFICE_NAMES[bearer.office],
+                      `${bearer.strength.toFixed(1)} / 20`,
+                      `${capitalize(bearer.planet)}${bearer.aspectsLagna ? ' · aspects lagna' : ''}`
+                    )
+                  )}
+                </View>
+              </AnimatedCard>
+
+              <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+                <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                  <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>Sahams</Text>
+                  {varshaphal.sahams.map(saham =>
+                    renderRow(
+                      `${saham.name} Saham`,
+                      `${capitalize(saham.sign)} ${formatDegree(saham.longitude)}`,
+                      `${saham.signification} · House ${saham.house}`
+                    )
+                  )}
+                </View>
+              </AnimatedCard>
+            </>
+          )}
+
+          {view === 'solar' && solarReturn && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>
+                  Solar Return {formatLocalDateTime(solarReturn.date, location.timezone)}
+                </Text>
+                <View style={styles.chartContainer}>
+                  <AstrologyWheel data={solarReturn.wheel} size="medium" />
+                </View>
+              </View>
+            </AnimatedCard>
+          )}
+
+          {view === 'lunar' && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>Lunar Returns {year}</Text>
+                <View style={styles.chipRow}>
+                  {annual.lunarDates.map((date, index) =>
+                    renderChip(
+                      String(date.getTime()),
+                      formatLocalDateTime(date, location.timezone).slice(5, 10),
+                      index === lunarIndex,
+                      () => setLunarIndex(index)
+                    )
+                  )}
+                </View>
+                {lunarReturn && (
+                  <>
+                    <Text style={[styles.helpText, { color: colors.neutral.medium }]}>
+                      Moon returns at {formatLocalDateTime(lunarReturn.date, location.timezone)}
+                    </Text>
+                    <View style={styles.chartContainer}>
+                      <AstrologyWheel data={lunarReturn.wheel} size="medium" />
+                    </View>
+                  </>
+                )}
+              </View>
+            </AnimatedCard>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  helpText: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chartContainer: {
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(148, 163, 184, 0.2)',
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rowNote: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 16,
+  },
+});
+
+export default AnnualChartScreen;
@@ -0,0 +1,275 @@
+import { useNavigation } from '@react-navigation/native';
+import * as FileSystem from 'expo-file-system';
+import { ArrowLeft } from 'lucide-react-native';
+import React, { useState } from 'react';
+import { SafeAreaView, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  CHART_FILE_EXTENSIONS,
+  CHART_FORMAT_NAMES,
+  ChartFormat,
+  exportCharts,
+  getChartFileName,
+  ImportedChart,
+  importCharts,
+} from '../../components/astrology/chartInterchangeUtils';
+import { NorthIndianChart } from '../../components/astrology/NorthIndianChart';
+import { NorthIndianChartDataProcessor } from '../../components/astrology/NorthIndianChartDataProcessor';
+import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
+import { CARD_GLASS_PRESET, createGlassMorphismStyle } from '../../components/foundations/effects/GlassMorphism';
+import { useTheme } from '../../components/foundations/themes/useTheme';
+import { FileInput, FileObject } from '../../components/inputs/FileInput';
+import AnimatedCard from '../../components/MobileApp/AnimatedCard';
+import CosmicBackground from '../../components/MobileApp/CosmicBackground';
+import Statusbar from '../../components/MobileApp/Statusbar';
+
+const FORMATS = Object.keys(CHART_FORMAT_NAMES) as ChartFormat[];
+
+/** Largest chart file accepted, in bytes */
+const MAX_CHART_FILE_SIZE = 1024 * 1024;
+
+const ChartImportScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const navigation = useNavigation<any>();
+  const [charts, setCharts] = useState<ImportedChart[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [importError, setImportError] = useState<string | undefined>(undefined);
+  const [exportFormat, setExportFormat] = useState<ChartFormat>('json');
+  const [exportError, setExportError] = useState<string | undefined>(undefined);
+
+  const glassCardStyle = createGlassMorphismStyle(CARD_GLASS_PRESET);
+  const selected = charts[selectedIndex];
+
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  const handleFileSelect = async (file: FileObject) => {
+    try {
+      const content = await FileSystem.readAsStringAsync(file.uri);
+      setCharts(importCharts(content, file.name));
+      setSelectedIndex(0);
+      setImportError(undefined);
+    } catch (error) {
+      setCharts([]);
+      setImportError(error instanceof Error ? error.message : 'Could not read chart file');
+    }
+  };
+
+  const handleExport = async () => {
+    if (!selected) return;
+    try {
+      const { birth, raw, chart } = selected;
+      const content = exportCharts(exportFormat, [{ birth, raw, chart }]);
+      setExportError(undefined);
+      await Share.share({ title: getChartFileName(exportFormat, birth?.title ?? raw.title), message: content });
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Could not export chart');
+    }
+  };
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          borderColor: String(colors.brand.primary) + '60',
+          backgroundColor: active ? String(colors.brand.primary) + '30' : 'transparent',
+        },
+      ]}
+      accessibilityLabel={label}
+    >
+      <Text style={[styles.chipText, { color: active ? colors.brand.primary : colors.neutral.medium }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.cosmos.deep }}>
+      <Statusbar />
+      <CosmicBackground />
+      <SafeAreaView style={{ flex: 1 }}>
+        <PrimaryHeader
+          title={
+            <Text style={{ fontSize: 20, fontWeight: '600', color: colors.brand.primary }}>
+              Import & Export Charts
+            </Text>
+          }
+          backgroundColor="transparent"
+          height="custom"
+          customHeight={55}
+          shadow={false}
+          blur={false}
+          animated
+          leftButton={{
+            id: 'back',
+            icon: (
+              <TouchableOpacity
+                onPress={handleBack}
+                style={{
+                  height: 36,
+                  width: 36,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  borderRadius: 18,
+                  backgroundColor: 'rgba(148, 163, 184, 0.1)',
+                  marginLeft: -15
+                }}
+              >
+                <ArrowLeft size={20} color="#CBD5E1" />
+              </TouchableOpacity>
+            ),
+            onPress: handleBack,
+            accessibilityLabel: 'Back',
+          }}
+        />
+
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 140, paddingTop: 20 }}>
+          <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+            <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+              <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>Import a Chart</Text>
+              <Text style={[styles.helpText, { color: colors.neutral.medium }]}>
+                Astrolog (.dat), Jagannatha Hora (.jhd), AAF exported from Solar Fire or Kala (.aaf), or a Corp Astro
+                JSON file.
+              </Text>
+              <FileInput
+                variant="dropzone"
+                fileType="any"
+                dropZoneText="Choose a chart file"
+                validationRules={{ allowedTypes: CHART_FILE_EXTENSIONS, maxSize: MAX_CHART_FILE_SIZE }}
+                validationState={importError ? 'error' : charts.length > 0 ? 'success' : 'default'}
+                errorMessage={importError}
+                successMessage={
+                  charts.length > 0
+                    ? `${charts.length} chart${charts.length === 1 ? '' : 's'} read from ${CHART_FORMAT_NAMES[charts[0].format]}`
+                    : undefined
+                }
+                onFileSelect={handleFileSelect}
+                onValidationError={(_file, error) => setImportError(error)}
+                onFileRemove={() => {
+                  setCharts([]);
+                  setImportError(undefined);
+                }}
+              />
+            </View>
+          </AnimatedCard>
+
+          {charts.length > 1 && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>Charts in File</Text>
+                <View style={styles.chipRow}>
+                  {charts.map((chart, index) =>
+                    renderChip(
+                      String(index),
+                      chart.birth?.title ?? chart.raw.title ?? `Chart ${index + 1}`,
+                      index === selectedIndex,
+                      () => setSelectedIndex(index)
+                    )
+                  )}
+                </View>
+              </View>
+            </AnimatedCard>
+          )}
+
+          {selected && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20, alignItems: 'center' }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary, alignSelf: 'flex-start' }]}>
+                  {selected.birth?.title ?? selected.raw.title ?? 'Imported Chart'}
+                </Text>
+                {selected.birth && (
+                  <Text style={[styles.helpText, { color: colors.neutral.medium, alignSelf: 'flex-start' }]}>
+                    {selected.birth.datetime.replace('T', ' ')} (UTC{selected.birth.timezone >= 0 ? '+' : ''}
+                    {selected.birth.timezone}){selected.birth.location ? ` · ${selected.birth.location}` : ''}
+                  </Text>
+                )}
+                {selected.chart ? (
+                  <NorthIndianChart data={selected.chart} size={280} />
+                ) : (
+                  <NorthIndianChartDataProcessor rawData={selected.raw}>
+                    {({ chartData, error }) =>
+                      error ? (
+                        <Text style={[styles.helpText, { color: colors.neutral.medium }]}>{error}</Text>
+                      ) : (
+                        <NorthIndianChart data={chartData} size={280} />
+                      )
+                    }
+                  </NorthIndianChartDataProcessor>
+                )}
+              </View>
+            </AnimatedCard>
+          )}
+
+          {selected && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>Export</Text>
+                <View style={styles.chipRow}>
+                  {FORMATS.map(format =>
+                    renderChip(format, CHART_FORMAT_NAMES[format], format === exportFormat, () => {
+                      setExportFormat(format);
+                      setExportError(undefined);
+                    })
+                  )}
+                </View>
+                {exportError && <Text style={[styles.helpText, { color: '#F87171' }]}>{exportError}</Text>}
+                <TouchableOpacity
+                  onPress={handleExport}
+                  style={[styles.exportButton, { backgroundColor: colors.brand.primary }]}
+                  accessibilityLabel={`Share as ${CHART_FORMAT_NAMES[exportFormat]}`}
+                >
+                  <Text style={[styles.exportButtonText, { color: colors.cosmos.deep }]}>
+                    Share as {CHART_FORMAT_NAMES[exportFormat]}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </AnimatedCard>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  helpText: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  exportButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 14,
+    marginTop: 4,
+  },
+  exportButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
+
+export default ChartImportScreen;
@@ -93,6 +93,24 @@ const MenuScreen: React.FC = () => {
       onPress:()=>navigation.navigate('ReportsScreen'),
       badge:null,
     },
+    {
+      id: 'chart-import',
+      label: 'Import & Export Charts',
+      description: 'Bring charts from Astrolog, JHora or Solar Fire',
+      icon: 'file-import',
+      color: colors.brand.accent,
+      onPress: () => navigation.navigate('ChartImportScreen'),
+      badge: null,
+    },
+    {
+      id: 'rectification',
+      label: 'Birth Time Rectification',
+      description: 'Find your birth time from life events',
+      icon: 'clock-check-outline',
+      color: colors.mystical.light,
+      onPress: () => navigation.navigate('RectificationScreen'),
+      badge: null,
+    },
     {
       id: 'subscription',
       label: 'Subscriptions',
@@ -0,0 +1,289 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { ArrowLeft } from 'lucide-react-native';
+import React, { useMemo, useState } from 'react';
+import { FlatList, SafeAreaView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { DEFAULT_OBSERVER_LOCATION, formatEventTime } from '../../components/astrology/horizonUtils';
+import {
+  findMuhurtas,
+  MUHURTA_FACTOR_NAMES,
+  MUHURTA_RATING_NAMES,
+  MuhurtaFactor,
+  MuhurtaRating,
+  MuhurtaWindow,
+} from '../../components/astrology/muhurtaUtils';
+import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
+import { CARD_GLASS_PRESET, createGlassMorphismStyle } from '../../components/foundations/effects/GlassMorphism';
+import { useTheme } from '../../components/foundations/themes/useTheme';
+import AnimatedCard from '../../components/MobileApp/AnimatedCard';
+import CosmicBackground from '../../components/MobileApp/CosmicBackground';
+import Statusbar from '../../components/MobileApp/Statusbar';
+
+const SEARCH_RANGES = [
+  { days: 7, label: '7 Days' },
+  { days: 30, label: '30 Days' },
+  { days: 90, label: '90 Days' },
+];
+
+const RATING_COLORS: Record<MuhurtaRating, string> = {
+  excellent: '#4ADE80',
+  good: '#A3E635',
+  fair: '#FACC15',
+  poor: '#F87171',
+};
+
+const FACTOR_ICONS: Record<MuhurtaFactor, keyof typeof MaterialCommunityIcons.glyphMap> = {
+  tithi: 'moon-waxing-crescent',
+  nakshatra: 'star-four-points-outline',
+  vara: 'calendar-week',
+  kaal: 'alert-octagon-outline',
+  lagna: 'weather-sunset-up',
+};
+
+const MuhurtaScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const navigation = useNavigation<any>();
+  const [rangeDays, setRangeDays] = useState(30);
+  const location = DEFAULT_OBSERVER_LOCATION;
+
+  const muhurtas = useMemo(() => {
+    const start = new Date();
+    return findMuhurtas({
+      start,
+      end: new Date(start.getTime() + rangeDays * 86400000),
+      location,
+      limit: 10,
+    });
+  }, [rangeDays, location]);
+
+  const glassCardStyle = createGlassMorphismStyle(CARD_GLASS_PRESET);
+
+  const formatDate = (date: Date) =>
+    new Date(date.getTime() + location.timezone * 3600000).toLocaleDateString(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  const renderMuhurta = ({ item, index }: { item: MuhurtaWindow; index: number }) => (
+    <AnimatedCard style={{ marginBottom: 16, marginTop: -10 }}>
+      <View style={[glassCardStyle, { padding: 18, borderRadius: 20 }]}>
+        <View style={styles.cardHeader}>
+          <Text style={[styles.rank, { color: colors.brand.primary }]}>#{index + 1}</Text>
+          <View style={styles.cardContent}>
+            <Text style={[styles.cardTitle, { color: colors.neutral.light }]}>{formatDate(item.start)}</Text>
+            <Text style={[styles.cardTime, { color: colors.neutral.medium }]}>
+              {formatEventTime(item.start, location.timezone)} - {formatEventTime(item.end, location.timezone)}
+            </Text>
+          </View>
+          <View style={[styles.ratingBadge, { backgroundColor: RATING_COLORS[item.rating] + '25' }]}>
+            <Text style={[styles.ratingText, { color: RATING_COLORS[item.rating] }]}>
+              {MUHURTA_RATING_NAMES[item.rating]} · {item.score}/{item.maxScore}
+            </Text>
+          </View>
+        </View>
+
+        {item.reasons.map(reason => (
+          <View key={reason.factor} style={styles.reasonRow}>
+            <MaterialCommunityIcons
+              name={FACTOR_ICONS[reason.factor]}
+              size={16}
+              color={reason.points > 0 ? colors.brand.primary : reason.points < 0 ? RATING_COLORS.poor : colors.neutral.medium}
+            />
+            <Text style={[styles.reasonText, { color: colors.neutral.medium }]}>
+              <Text style={{ color: colors.neutral.light, fontWeight: '600' }}>{MUHURTA_FACTOR_NAMES[reason.factor]}: </Text>
+              {reason.description}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </AnimatedCard>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.cosmos.deep }}>
+      <Statusbar />
+      <CosmicBackground />
+      <SafeAreaView style={{ flex: 1 }}>
+        <PrimaryHeader
+          title={
+            <Text style={{ fontSize: 20, fontWeight: '600', color: colors.brand.primary }}>
+              Startup Muhurta
+            </Text>
+          }
+          backgroundColor="transparent"
+          height="custom"
+          customHeight={55}
+          shadow={false}
+          blur={false}
+          animated
+          leftButton={{
+            id: 'back',
+            icon: (
+              <TouchableOpacity
+                onPress={handleBack}
+                style={{
+                  height: 36,
+                  width: 36,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  borderRadius: 18,
+                  backgroundColor: 'rgba(148, 163, 184, 0.1)',
+                  marginLeft: -15
+                }}
+              >
+                <ArrowLeft size={20} color="#CBD5E1" />
+              </TouchableOpacity>
+            ),
+            onPress: handleBack,
+            accessibilityLabel: 'Back',
+          }}
+        />
+
+        <FlatList
+          data={muhurtas}
+          keyExtractor={item => item.start.toISOString()}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: 140, paddingTop: 20 }}
+          renderItem={renderMuhurta}
+          ListHeaderComponent={
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <View style={styles.heroHeader}>
+                  <MaterialCommunityIcons name="calendar-clock" size={36} color={colors.brand.primary} />
+                  <View style={styles.heroContent}>
+                    <Text style={[styles.heroTitle, { color: colors.brand.primary }]}>
+                      Auspicious Launch Windows
+                    </Text>
+                    <Text style={[styles.heroSubtitle, { color: colors.neutral.medium }]}>
+                      Daytime hours in {location.name} ranked by tithi, nakshatra, weekday, Rahu Kaal and the rising sign.
+                    </Text>
+                  </View>
+                </View>
+
+                <View style={styles.rangeRow}>
+                  {SEARCH_RANGES.map(range => {
+                    const selected = range.days === rangeDays;
+                    return (
+                      <TouchableOpacity
+                        key={range.days}
+                        onPress={() => setRangeDays(range.days)}
+                        style={[
+                          styles.rangeChip,
+                          {
+                            borderColor: String(colors.brand.primary) + '60',
+                            backgroundColor: selected ? String(colors.brand.primary) + '30' : 'transparent',
+                          },
+                        ]}
+                        accessibilityLabel={`Search the next ${range.label}`}
+                      >
+                        <Text style={[styles.rangeText, { color: selected ? colors.brand.primary : colors.neutral.medium }]}>
+                          {range.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            </AnimatedCard>
+          }
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: colors.neutral.medium }]}>
+              No daytime windows found in this range.
+            </Text>
+          }
+        />
+      </SafeAreaView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  rank: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginRight: 12,
+  },
+  cardContent: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  cardTime: {
+    fontSize: 13,
+  },
+  ratingBadge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  ratingText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 6,
+  },
+  reasonText: {
+    flex: 1,
+    fontSize: 12,
+    lineHeight: 17,
+    marginLeft: 8,
+  },
+  heroHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  heroContent: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  heroTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  heroSubtitle: {
+    fontSize: 13,
+    lineHeight: 19,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  rangeChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginHorizontal: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  rangeText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    fontSize: 14,
+    marginTop: 20,
+  },
+});
+
+export default MuhurtaScreen;
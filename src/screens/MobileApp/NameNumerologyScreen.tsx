@@ -0,0 +1,252 @@
+import { useNavigation } from '@react-navigation/native';
+import { ArrowLeft } from 'lucide-react-native';
+import React, { useMemo, useState } from 'react';
+import { SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  analyzeBusinessName,
+  calculateBirthNumerology,
+  calculateNameNumerology,
+  NUMBER_HARMONY_NAMES,
+  NUMEROLOGY_SYSTEM_NAMES,
+  NumerologySystem,
+} from '../../components/astrology/numerologyUtils';
+import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
+import { CARD_GLASS_PRESET, createGlassMorphismStyle } from '../../components/foundations/effects/GlassMorphism';
+import { useTheme } from '../../components/foundations/themes/useTheme';
+import { DateInput } from '../../components/inputs/DateInput';
+import { TextInput } from '../../components/inputs/TextInput';
+import AnimatedCard from '../../components/MobileApp/AnimatedCard';
+import CoreNumberList from '../../components/MobileApp/CoreNumberList';
+import CosmicBackground from '../../components/MobileApp/CosmicBackground';
+import LetterBreakdown from '../../components/MobileApp/LetterBreakdown';
+import Statusbar from '../../components/MobileApp/Statusbar';
+
+const SYSTEMS = Object.keys(NUMEROLOGY_SYSTEM_NAMES) as NumerologySystem[];
+
+const NameNumerologyScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const navigation = useNavigation<any>();
+  const [fullName, setFullName] = useState('');
+  const [birthDate, setBirthDate] = useState<Date | undefined>(undefined);
+  const [businessName, setBusinessName] = useState('');
+  // Undefined until the user picks a system: personal names then read in the
+  // Pythagorean system and business names in the Chaldean
+  const [chosenSystem, setChosenSystem] = useState<NumerologySystem | undefined>(undefined);
+  const system = chosenSystem ?? 'pythagorean';
+
+  const nameNumbers = useMemo(() => calculateNameNumerology(fullName, system), [fullName, system]);
+  const birthNumbers = useMemo(
+    () => birthDate && calculateBirthNumerology(birthDate.getFullYear(), birthDate.getMonth() + 1, birthDate.getDate()),
+    [birthDate]
+  );
+  const businessAnalysis = useMemo(
+    () =>
+      birthNumbers && /[a-z]/i.test(businessName)
+        ? analyzeBusinessName(businessName, birthNumbers.lifePath.value, chosenSystem)
+        : undefined,
+    [businessName, birthNumbers, chosenSystem]
+  );
+
+  const glassCardStyle = createGlassMorphismStyle(CARD_GLASS_PRESET);
+
+  const coreNumbers = [
+    ...(nameNumbers.letters.length > 0
+      ? [
+          { label: 'Destiny', reduction: nameNumbers.destiny },
+          { label: 'Soul Urge', reduction: nameNumbers.soulUrge },
+          { label: 'Personality', reduction: nameNumbers.personality },
+        ]
+      : []),
+    ...(birthNumbers
+      ? [
+          { label: 'Life Path', reduction: birthNumbers.lifePath },
+          { label: 'Birthday', reduction: birthNumbers.birthday },
+        ]
+      : []),
+  ];
+
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.cosmos.deep }}>
+      <Statusbar />
+      <CosmicBackground />
+      <SafeAreaView style={{ flex: 1 }}>
+        <PrimaryHeader
+          title={
+            <Text style={{ fontSize: 20, fontWeight: '600', color: colors.brand.primary }}>
+              Name Numerology
+            </Text>
+          }
+          backgroundColor="transparent"
+          height="custom"
+          customHeight={55}
+          shadow={false}
+          blur={false}
+          animated
+          leftButton={{
+            id: 'back',
+            icon: (
+              <TouchableOpacity
+                onPress={handleBack}
+                style={{
+                  height: 36,
+                  width: 36,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  borderRadius: 18,
+                  backgroundColor: 'rgba(148, 163, 184, 0.1)',
+                  marginLeft: -15
+                }}
+              >
+                <ArrowLeft size={20} color="#CBD5E1" />
+              </TouchableOpacity>
+            ),
+            onPress: handleBack,
+            accessibilityLabel: 'Back',
+          }}
+        />
+
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 140, paddingTop: 20 }}>
+          <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+            <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+              <Text style={[styles.fieldLabel, { color: colors.neutral.light }]}>Full Name</Text>
+              <TextInput
+                value={fullName}
+                onChangeText={setFullName}
+                placeholder="Enter your full birth name"
+                config={{
+                  enableFloatingLabel: false,
+                  enableCharacterCounter: false,
+                }}
+              />
+
+              <Text style={[styles.fieldLabel, { color: colors.neutral.light }]}>Date of Birth</Text>
+              <DateInput
+                value={birthDate}
+                onDateChange={date => setBirthDate(date ?? undefined)}
+                placeholder="Select date of birth"
+                format="MM/DD/YYYY"
+                maxDate={new Date()}
+              />
+
+              <Text style={[styles.fieldLabel, { color: colors.neutral.light }]}>Business Name</Text>
+              <TextInput
+                value={businessName}
+                onChangeText={setBusinessName}
+                placeholder="Optional: compare with your life path"
+                config={{
+                  enableFloatingLabel: false,
+                  enableCharacterCounter: false,
+                }}
+              />
+
+              <View style={styles.systemRow}>
+                {SYSTEMS.map(option => {
+                  const selected = option === system;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      onPress={() => setChosenSystem(option)}
+                      style={[
+                        styles.systemChip,
+                        {
+                          borderColor: String(colors.brand.primary) + '60',
+                          backgroundColor: selected ? String(colors.brand.primary) + '30' : 'transparent',
+                        },
+                      ]}
+                      accessibilityLabel={`Use the ${NUMEROLOGY_SYSTEM_NAMES[option]} system`}
+                    >
+                      <Text style={[styles.systemText, { color: selected ? colors.brand.primary : colors.neutral.medium }]}>
+                        {NUMEROLOGY_SYSTEM_NAMES[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          </AnimatedCard>
+
+          {coreNumbers.length > 0 && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>Core Numbers</Text>
+                <CoreNumberList numbers={coreNumbers} />
+              </View>
+            </AnimatedCard>
+          )}
+
+          {nameNumbers.letters.length > 0 && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>
+                  Letter Breakdown ({NUMEROLOGY_SYSTEM_NAMES[system]})
+                </Text>
+                <LetterBreakdown letters={nameNumbers.letters} destiny={nameNumbers.destiny} />
+              </View>
+            </AnimatedCard>
+          )}
+
+          {businessAnalysis && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>
+                  Business Name Match ({NUMEROLOGY_SYSTEM_NAMES[chosenSystem ?? 'chaldean']})
+                </Text>
+                <Text style={[styles.matchScore, { color: colors.luxury.champagne }]}>
+                  {businessAnalysis.score}% · {NUMBER_HARMONY_NAMES[businessAnalysis.harmony]}
+                </Text>
+                <Text style={[styles.matchText, { color: colors.neutral.medium }]}>{businessAnalysis.description}</Text>
+                <LetterBreakdown letters={businessAnalysis.name.letters} destiny={businessAnalysis.name.destiny} />
+              </View>
+            </AnimatedCard>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  systemRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  systemChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginHorizontal: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  systemText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  matchScore: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  matchText: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginBottom: 12,
+  },
+});
+
+export default NameNumerologyScreen;
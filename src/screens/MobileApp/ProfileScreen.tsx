@@ -1,9 +1,12 @@
 import { useNavigation } from '@react-navigation/native';
 import { ArrowLeft } from 'lucide-react-native';
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { PLACES } from '../../components/astrology/placesData';
+import { formatPlaceName, formatUtcOffset, getPlace, resolveBirthPlace, searchPlaces } from '../../components/astrology/placesUtils';
 import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
 import { useTheme } from '../../components/foundations/themes/useTheme';
+import { readStoredValue, StoredProfile, writeStoredValue } from '../../app/appStorage';
 import AnimatedCard from '../../components/MobileApp/AnimatedCard';
 import CosmicBackground from '../../components/MobileApp/CosmicBackground';
 import Statusbar from '../../components/MobileApp/Statusbar';
@@ -11,7 +14,7 @@ import Statusbar from '../../components/MobileApp/Statusbar';
 // Import input components
 import { DateInput } from '../../components/inputs/DateInput';
 import { EmailInput } from '../../components/inputs/EmailInput';
-import { SearchInput } from '../../components/inputs/SearchInput';
+import { SearchInput, SearchInputSuggestionItem } from '../../components/inputs/SearchInput';
 import { SelectInput } from '../../components/inputs/SelectInput';
 import { TextInput } from '../../components/inputs/TextInput';
 import { TimeInput } from '../../components/inputs/TimeInput';
@@ -21,6 +24,30 @@ import { CARD_GLASS_PRESET, createGlassMorphismStyle } from '@/src/components/fo
 import ButtonPrimary from '../../components/buttons/ButtonPrimary';
 import { fontSizes } from '../../components/foundations/tokens';
 
+/**
+ * Latitude and longitude as text, e.g. '19.08°N, 72.88°E'
+ */
+const formatCoordinates = (latitude: number, longitude: number): string =>
+  `${Math.abs(latitude).toFixed(2)}°${latitude >= 0 ? 'N' : 'S'}, ${Math.abs(longitude).toFixed(2)}°${longitude >= 0 ? 'E' : 'W'}`;
+
+// Birth location suggestions for SearchInput, one per gazetteer place
+const locationSuggestions: SearchInputSuggestionItem[] = PLACES.map(place => ({
+  id: place.id,
+  text: formatPlaceName(place),
+  secondary: formatCoordinates(place.latitude, place.longitude),
+  data: place,
+}));
+
+// Rank suggestions with the gazetteer's fuzzy search (former names, misspellings)
+const filterLocationSuggestions = (suggestions: SearchInputSuggestionItem[], query: string) => {
+  const byId = new Map(suggestions.map(suggestion => [suggestion.id, suggestion]));
+  return searchPlaces(query)
+    .map(match => byId.get(match.place.id))
+    .filter((suggestion): suggestion is SearchInputSuggestionItem => !!suggestion);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
 const ProfileScreen: React.FC = () => {
   const { colors } = useTheme();
   const navigation = useNavigation<any>();
@@ -32,11 +59,31 @@ const ProfileScreen: React.FC = () => {
     dateOfBirth: new Date('1995-08-15'),
     timeOfBirth: { hours: 14, minutes: 30, period: 'PM' as 'PM' | 'AM' },
     gender: 'male',
-    birthLocation: 'Mumbai, India',
+    birthLocation: 'Mumbai, Maharashtra, India',
+    birthPlaceId: 'mumbai-in' as string | undefined,
   });
 
   const [isUpdating, setIsUpdating] = useState(false);
 
+  // Restore the saved profile
+  useEffect(() => {
+    readStoredValue<StoredProfile>('profile').then(profile => {
+      if (!profile) return;
+      const [date, time] = profile.birthDatetime.split('T');
+      const [year, month, day] = date.split('-').map(Number);
+      const [hours, minutes] = time.split(':').map(Number);
+      setFormData({
+        name: profile.name,
+        email: profile.email,
+        dateOfBirth: new Date(year, month - 1, day),
+        timeOfBirth: { hours, minutes, period: hours >= 12 ? 'PM' : 'AM' },
+        gender: profile.gender,
+        birthLocation: profile.birthLocation,
+        birthPlaceId: profile.birthPlaceId,
+      });
+    });
+  }, []);
+
   // Gender options for SelectInput
   const genderOptions = [
     { label: 'Male', value: 'male' },
@@ -45,14 +92,27 @@ const ProfileScreen: React.FC = () => {
     { label: 'Prefer not to say', value: 'prefer-not-to-say' },
   ];
 
-  // Birth location suggestions for SearchInput
-  const locationSuggestions = [
-    { id: '1', text: 'Mumbai, India', secondary: 'Maharashtra, India' },
-    { id: '2', text: 'Delhi, India', secondary: 'Delhi, India' },
-    { id: '3', text: 'Bangalore, India', secondary: 'Karnataka, India' },
-    { id: '4', text: 'Chennai, India', secondary: 'Tamil Nadu, India' },
-    { id: '5', text: 'Kolkata, India', secondary: 'West Bengal, India' },
-  ];
+  // Local birth time as YYYY-MM-DDTHH:mm
+  const birthDatetime = useMemo(() => {
+    const { dateOfBirth, timeOfBirth } = formData;
+    let hours = timeOfBirth.hours;
+    if (timeOfBirth.period === 'PM' && hours < 12) hours += 12;
+    if (timeOfBirth.period === 'AM' && hours === 12) hours = 0;
+    return `${dateOfBirth.getFullYear()}-${pad(dateOfBirth.getMonth() + 1)}-${pad(dateOfBirth.getDate())}` +
+      `T${pad(hours)}:${pad(timeOfBirth.minutes)}`;
+  }, [formData]);
+
+  // Coordinates and UTC offset in force at the birth place and time
+  const resolvedBirthPlace = useMemo(() => {
+    const place = formData.birthPlaceId ? getPlace(formData.birthPlaceId) : undefined;
+    if (!place) return undefined;
+
+    try {
+      return resolveBirthPlace(place, birthDatetime);
+    } catch {
+      return undefined;
+    }
+  }, [formData.birthPlaceId, birthDatetime]);
 
   return (
     <View style={{ flex: 1, backgroundColor: colors.cosmos.deep }}>
@@ -203,10 +263,18 @@ const ProfileScreen: React.FC = () => {
               </Text>
               <SearchInput
                 value={formData.birthLocation}
-                onSearchChange={(location) => setFormData(prev => ({ ...prev, birthLocation: location }))}
+                onSearchChange={(location) => setFormData(prev => ({
+                  ...prev,
+                  birthLocation: location,
+                  birthPlaceId: location === prev.birthLocation ? prev.birthPlaceId : undefined,
+                }))}
                 placeholder="Enter birth location"
                 suggestions={locationSuggestions}
-                onSuggestionSelect={(suggestion) => setFormData(prev => ({ ...prev, birthLocation: suggestion.text }))}
+                onSuggestionSelect={(suggestion) => setFormData(prev => ({
+                  ...prev,
+                  birthLocation: suggestion.text,
+                  birthPlaceId: suggestion.id,
+                }))}
                 search={{
                   debounceDelay: 300,
                   minLength: 1,
@@ -214,10 +282,19 @@ const ProfileScreen: React.FC = () => {
                   enableSuggestions: true,
                   showSearchIcon: true,
                   showClearButton: true,
+                  filter: filterLocationSuggestions,
                 }}
                 size="medium"
                 variant="default"
               />
+              {resolvedBirthPlace && (
+                <Text style={[styles.placeDetail, { color: colors.neutral.medium }]}>
+                  {formatCoordinates(resolvedBirthPlace.latitude, resolvedBirthPlace.longitude)} ·{' '}
+                  {resolvedBirthPlace.timeName} ({formatUtcOffset(resolvedBirthPlace.timezone)})
+                  {resolvedBirthPlace.ambiguous ? ' · clocks went back at this hour; the first occurrence is used' : ''}
+                  {resolvedBirthPlace.skipped ? ' · clocks went forward past this time; please check it' : ''}
+                </Text>
+              )}
             </View>
 
             {/* Update Button */}
@@ -225,11 +302,16 @@ const ProfileScreen: React.FC = () => {
               <ButtonPrimary
                 onPress={() => {
                   setIsUpdating(true);
-                  // Simulate API call
-                  setTimeout(() => {
-                    setIsUpdating(false);
-                    // Handle successful update
-                  }, 2000);
+                  writeStoredValue<StoredProfile>('profile', {
+                    name: formData.name,
+                    email: formData.email,
+                    gender: formData.gender,
+                    birthDatetime,
+                    birthLocation: formData.birthLocation,
+                    birthPlaceId: formData.birthPlaceId,
+                  })
+                    .catch(() => undefined)
+                    .finally(() => setIsUpdating(false));
                 }}
                 loading={{
                   isLoading: isUpdating,
@@ -295,6 +377,10 @@ const styles = StyleSheet.create({
   input: {
     marginBottom: 0,
   },
+  placeDetail: {
+    fontSize: fontSizes.small.size,
+    marginTop: 8,
+  },
   editButtons: {
     flexDirection: 'row',
     gap: 12,
@@ -0,0 +1,539 @@
+import { useNavigation } from '@react-navigation/native';
+import { ArrowLeft } from 'lucide-react-native';
+import React, { useEffect, useState } from 'react';
+import {
+  InteractionManager,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { VedicRashi } from '../../components/astrology/NorthIndianChart';
+import { DEFAULT_OBSERVER_LOCATION } from '../../components/astrology/horizonUtils';
+import {
+  LIFE_EVENT_NAMES,
+  LifeEvent,
+  LifeEventType,
+  RectificationResult,
+  rectifyBirthTimeAsync,
+} from '../../components/astrology/rectificationUtils';
+import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
+import { CARD_GLASS_PRESET, createGlassMorphismStyle } from '../../components/foundations/effects/GlassMorphism';
+import { useTheme } from '../../components/foundations/themes/useTheme';
+import { DateInput } from '../../components/inputs/DateInput';
+import { NumberInput } from '../../components/inputs/NumberInput';
+import { TimeInput, TimeValue } from '../../components/inputs/TimeInput';
+import AnimatedCard from '../../components/MobileApp/AnimatedCard';
+import CosmicBackground from '../../components/MobileApp/CosmicBackground';
+import Statusbar from '../../components/MobileApp/Statusbar';
+
+const STEPS = ['Birth Window', 'Life Events', 'Results'];
+
+const EVENT_TYPES = Object.keys(LIFE_EVENT_NAMES) as LifeEventType[];
+
+/**
+ * UTC instant of a local calendar date and clock time
+ */
+const toInstant = (date: Date, time: TimeValue, timezone: number): Date =>
+  new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), time.hours, time.minutes) - timezone * 3600000);
+
+const formatLocalTime = (date: Date, timezone: number): string =>
+  new Date(date.getTime() + timezone * 3600000).toISOString().slice(11, 16);
+
+const signName = (rashi: VedicRashi): string => rashi.charAt(0).toUpperCase() + rashi.slice(1);
+
+const RectificationScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const navigation = useNavigation<any>();
+  const [step, setStep] = useState(0);
+  const [birthDate, setBirthDate] = useState<Date | undefined>(undefined);
+  const [earliest, setEarliest] = useState<TimeValue>({ hours: 6, minutes: 0 });
+  const [latest, setLatest] = useState<TimeValue>({ hours: 10, minutes: 0 });
+  const [latitude, setLatitude] = useState(DEFAULT_OBSERVER_LOCATION.latitude);
+  const [longitude, setLongitude] = useState(DEFAULT_OBSERVER_LOCATION.longitude);
+  const [timezone, setTimezone] = useState(DEFAULT_OBSERVER_LOCATION.timezone);
+  const [events, setEvents] = useState<LifeEvent[]>([]);
+  const [eventType, setEventType] = useState<LifeEventType>('marriage');
+  const [eventDate, setEventDate] = useState<Date | undefined>(undefined);
+
+  const glassCardStyle = createGlassMorphismStyle(CARD_GLASS_PRESET);
+
+  const [outcome, setOutcome] = useState<{ result?: RectificationResult; error?: string }>({});
+  const [progress, setProgress] = useState<number | undefined>(undefined);
+
+  // The search scores every few minutes of the window, so it runs in slices
+  // after the step transition instead of blocking the render
+  useEffect(() => {
+    setOutcome({});
+    setProgress(undefined);
+    if (step !== 2 || !birthDate) return;
+    const start = toInstant(birthDate, earliest, timezone);
+    let end = toInstant(birthDate, latest, timezone);
+    // A window such as 22:00-02:00 runs past midnight
+    if (end < start) end = new Date(end.getTime() + 86400000);
+
+    let cancelled = false;
+    setProgress(0);
+    const task = InteractionManager.runAfterInteractions(() => {
+      rectifyBirthTimeAsync(
+        {
+          start,
+          end,
+          location: { latitude, longitude, timezone },
+          events: events.map(event => ({ ...event, date: new Date(event.date.getTime() + 12 * 3600000) })),
+        },
+        { onProgress: setProgress, isCancelled: () => cancelled }
+      )
+        .then(result => {
+          if (!cancelled) setOutcome({ result });
+        })
+        .catch(error => {
+          if (!cancelled) setOutcome({ error: error instanceof Error ? error.message : 'Rectification failed' });
+        })
+        .finally(() => {
+          if (!cancelled) setProgress(undefined);
+        });
+    });
+    return () => {
+      cancelled = true;
+      task.cancel();
+    };
+  }, [step, birthDate, earliest, latest, latitude, longitude, timezone, events]);
+
+  const handleBack = () => {
+    if (step > 0) {
+      setStep(step - 1);
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  const handleAddEvent = () => {
+    if (!eventDate) return;
+    setEvents(
+      [...events, { type: eventType, date: eventDate }].sort((a, b) => a.date.getTime() - b.date.getTime())
+    );
+    setEventDate(undefined);
+  };
+
+  const canContinue = step === 0 ? birthDate !== undefined : step === 1 ? events.length > 0 : false;
+  const best = outcome.result?.candidates[0];
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          borderColor: String(colors.brand.primary) + '60',
+          backgroundColor: active ? String(colors.brand.primary) + '30' : 'transparent',
+        },
+      ]}
+      accessibilityLabel={label}
+    >
+      <Text style={[styles.chipText, { color: active ? colors.brand.primary : colors.neutral.medium }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.cosmos.deep }}>
+      <Statusbar />
+      <CosmicBackground />
+      <SafeAreaView style={{ flex: 1 }}>
+        <PrimaryHeader
+          title={
+            <Text style={{ fontSize: 20, fontWeight: '600', color: colors.brand.primary }}>
+              Birth Time Rectification
+            </Text>
+          }
+          backgroundColor="transparent"
+          height="custom"
+          customHeight={55}
+          shadow={false}
+          blur={false}
+          animated
+          leftButton={{
+            id: 'back',
+            icon: (
+              <TouchableOpacity
+                onPress={handleBack}
+                style={{
+                  height: 36,
+                  width: 36,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  borderRadius: 18,
+                  backgroundColor: 'rgba(148, 163, 184, 0.1)',
+                  marginLeft: -15
+                }}
+              >
+                <ArrowLeft size={20} color="#CBD5E1" />
+              </TouchableOpacity>
+            ),
+            onPress: handleBack,
+            accessibilityLabel: 'Back',
+          }}
+        />
+
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 140, paddingTop: 20 }}>
+          <View style={styles.stepRow}>
+            {STEPS.map((label, index) => (
+              <View key={label} style={styles.stepItem}>
+                <View
+                  style={[
+                    styles.stepDot,
+                    {
+                      borderColor: colors.brand.primary,
+                      backgroundColor: index <= step ? colors.brand.primary : 'transparent',
+                    },
+                  ]}
+                >
+                  <Text style={[styles.stepNumber, { color: index <= step ? colors.cosmos.deep : colors.brand.primary }]}>
+                    {index + 1}
+                  </Text>
+                </View>
+                <Text style={[styles.stepLabel, { color: index === step ? colors.brand.primary : colors.neutral.medium }]}>
+                  {label}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {step === 0 && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.helpText, { color: colors.neutral.medium }]}>
+                  Enter the birth date and the earliest and latest times the birth could have been.
+                </Text>
+
+                <Text style={[styles.fieldLabel, { color: colors.neutral.light }]}>Date of Birth</Text>
+                <DateInput
+                  value={birthDate}
+                  onDateChange={date => setBirthDate(date ?? undefined)}
+                  placeholder="Select date of birth"
+                  format="MM/DD/YYYY"
+                  maxDate={new Date()}
+                />
+
+                <Text style={[styles.fieldLabel, { color: colors.neutral.light }]}>Earliest Time</Text>
+                <TimeInput value={earliest} onTimeChange={time => time && setEarliest(time)} format="24h" />
+
+                <Text style={[styles.fieldLabel, { color: colors.neutral.light }]}>Latest Time</Text>
+                <TimeInput value={latest} onTimeChange={time => time && setLatest(time)} format="24h" />
+
+                <Text style={[styles.fieldLabel, { color: colors.neutral.light }]}>Birthplace</Text>
+                <View style={styles.coordinateRow}>
+                  <View style={styles.coordinate}>
+                    <NumberInput
+                      value={latitude}
+                      onValueChange={setLatitude}
+                      label={{ text: 'Latitude (N+)' }}
+                      validation={{ min: -89.9, max: 89.9, decimals: 4, allowNegative: true }}
+                    />
+                  </View>
+                  <View style={styles.coordinate}>
+                    <NumberInput
+                      value={longitude}
+                      onValueChange={setLongitude}
+                      label={{ text: 'Longitude (E+)' }}
+                      validation={{ min: -180, max: 180, decimals: 4, allowNegative: true }}
+                    />
+                  </View>
+                  <View style={styles.coordinate}>
+                    <NumberInput
+                      value={timezone}
+                      onValueChange={setTimezone}
+                      label={{ text: 'UTC Offset' }}
+                      validation={{ min: -14, max: 14, decimals: 2, allowNegative: true }}
+                    />
+                  </View>
+                </View>
+              </View>
+            </AnimatedCard>
+          )}
+
+          {step === 1 && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.helpText, { color: colors.neutral.medium }]}>
+                  Add dated events you are sure of. Three or more spread over several years give the clearest result.
+                </Text>
+
+                <View style={styles.chipRow}>
+                  {EVENT_TYPES.map(type =>
+                    renderChip(type, LIFE_EVENT_NAMES[type], type === eventType, () => setEventType(type))
+                  )}
+                </View>
+
+                <DateInput
+                  value={eventDate}
+                  onDateChange={date => setEventDate(date ?? undefined)}
+                  placeholder="Select event date"
+                  format="MM/DD/YYYY"
+                  minDate={birthDate}
+                  maxDate={new Date()}
+                />
+                <TouchableOpacity
+                  onPress={handleAddEvent}
+                  disabled={!eventDate}
+                  style={[styles.actionButton, { backgroundColor: colors.brand.primary, opacity: eventDate ? 1 : 0.5 }]}
+                  accessibilityLabel={`Add ${LIFE_EVENT_NAMES[eventType]}`}
+                >
+                  <Text style={[styles.actionButtonText, { color: colors.cosmos.deep }]}>
+                    Add {LIFE_EVENT_NAMES[eventType]}
+                  </Text>
+                </TouchableOpacity>
+
+                {events.map((event, index) => (
+                  <View key={`${event.type}-${event.date.getTime()}`} style={styles.eventRow}>
+                    <Text style={[styles.eventText, { color: colors.neutral.light }]}>
+                      {LIFE_EVENT_NAMES[event.type]} · {event.date.toLocaleDateString()}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => setEvents(events.filter((_, other) => other !== index))}
+                      accessibilityLabel={`Remove ${LIFE_EVENT_NAMES[event.type]}`}
+                    >
+                      <Text style={[styles.removeText, { color: colors.neutral.medium }]}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            </AnimatedCard>
+          )}
+
+          {step === 2 && progress !== undefined && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.helpText, { color: colors.neutral.medium }]}>
+                  Scoring candidate birth times… {Math.round(progress * 100)}%
+                </Text>
+                <View style={[styles.strengthTrack, { backgroundColor: String(colors.brand.primary) + '20' }]}>
+                  <View
+                    style={[
+                      styles.strengthFill,
+                      { width: `${Math.round(progress * 100)}%`, backgroundColor: colors.brand.primary },
+                    ]}
+                  />
+                </View>
+              </View>
+            </AnimatedCard>
+          )}
+
+          {step === 2 && outcome.error && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.helpText, { color: '#F87171' }]}>{outcome.error}</Text>
+              </View>
+            </AnimatedCard>
+          )}
+
+          {step === 2 && outcome.result && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>Candidate Ascendants</Text>
+                {outcome.result.ascendants.map(ascendant => (
+                  <View key={ascendant.start.getTime()} style={styles.ascendantRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={[styles.ascendantName, { color: colors.neutral.light }]}>
+                        {signName(ascendant.lagna)} Lagna
+                      </Text>
+                      <Text style={[styles.ascendantMeta, { color: colors.neutral.medium }]}>
+                        Rising {formatLocalTime(ascendant.start, timezone)}-{formatLocalTime(ascendant.end, timezone)} ·
+                        best fit {formatLocalTime(ascendant.best.time, timezone)}
+                      </Text>
+                      <View style={[styles.strengthTrack, { backgroundColor: String(colors.brand.primary) + '20' }]}>
+                        <View
+                          style={[
+                            styles.strengthFill,
+                            { width: `${ascendant.strength}%`, backgroundColor: colors.brand.primary },
+                          ]}
+                        />
+                      </View>
+                    </View>
+                    <Text style={[styles.ascendantScore, { color: colors.luxury.champagne }]}>
+                      {ascendant.best.score}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </AnimatedCard>
+          )}
+
+          {step === 2 && best && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>
+                  Best Fit: {formatLocalTime(best.time, timezone)} ({signName(best.lagna)})
+                </Text>
+                {best.events.map(score => (
+                  <View key={`${score.event.type}-${score.event.date.getTime()}`} style={{ marginBottom: 12 }}>
+                    <Text style={[styles.eventText, { color: colors.neutral.light }]}>
+                      {LIFE_EVENT_NAMES[score.event.type]} · {score.score} pts
+                    </Text>
+                    {score.reasons.map(reason => (
+                      <Text key={reason.description} style={[styles.reasonText, { color: colors.neutral.medium }]}>
+                        • {reason.description}
+                      </Text>
+                    ))}
+                  </View>
+                ))}
+              </View>
+            </AnimatedCard>
+          )}
+
+          {step < 2 && (
+            <TouchableOpacity
+              onPress={() => setStep(step + 1)}
+              disabled={!canContinue}
+              style={[
+                styles.actionButton,
+                styles.nextButton,
+                { backgroundColor: colors.brand.primary, opacity: canContinue ? 1 : 0.5 },
+              ]}
+              accessibilityLabel={step === 1 ? 'Find birth time' : 'Next'}
+            >
+              <Text style={[styles.actionButtonText, { color: colors.cosmos.deep }]}>
+                {step === 1 ? 'Find Birth Time' : 'Next'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  stepRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 24,
+    marginTop: -10,
+  },
+  stepItem: {
+    alignItems: 'center',
+  },
+  stepDot: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 6,
+  },
+  stepNumber: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  stepLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  helpText: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  coordinateRow: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  coordinate: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  actionButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 14,
+    marginTop: 12,
+  },
+  nextButton: {
+    marginHorizontal: 20,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(148, 163, 184, 0.2)',
+  },
+  eventText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  removeText: {
+    fontSize: 13,
+  },
+  ascendantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  ascendantName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  ascendantMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  strengthTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  strengthFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  ascendantScore: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginLeft: 16,
+  },
+  reasonText: {
+    fontSize: 12,
+    lineHeight: 18,
+  },
+});
+
+export default RectificationScreen;
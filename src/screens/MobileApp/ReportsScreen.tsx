@@ -116,6 +116,16 @@ const ReportsScreen: React.FC = () => {
       duration: '15-20 min',
       accuracy: '94%',
     },
+    {
+      id: 'annual',
+      title: 'Annual Forecast',
+      description: 'Varshaphal, solar return and lunar returns for the year ahead',
+      icon: 'calendar-star',
+      color: colors.brand.primary,
+      featured: false,
+      duration: '20-25 min',
+      screen: 'AnnualChartScreen',
+    },
   ];
 
   const glassCardStyle = createGlassMorphismStyle(CARD_GLASS_PRESET);
@@ -159,13 +169,19 @@ const ReportsScreen: React.FC = () => {
             <MaterialCommunityIcons name="clock-outline" size={14} color={colors.neutral.medium} />
             <Text style={[styles.statText, { color: colors.neutral.medium }]}>{item.duration}</Text>
           </View>
-          <View style={styles.statItem}>
-            <MaterialCommunityIcons name="check-circle" size={14} color={colors.neutral.medium} />
-            <Text style={[styles.statText, { color: colors.neutral.medium }]}>{item.accuracy} Accuracy</Text>
-          </View>
+          {item.accuracy && (
+            <View style={styles.statItem}>
+              <MaterialCommunityIcons name="check-circle" size={14} color={colors.neutral.medium} />
+              <Text style={[styles.statText, { color: colors.neutral.medium }]}>{item.accuracy} Accuracy</Text>
+            </View>
+          )}
         </View>
 
-        <TouchableOpacity style={styles.actionButton}>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => item.screen && navigation.navigate(item.screen)}
+          accessibilityLabel={`Generate ${item.title} report`}
+        >
           <LinearGradient
             colors={[item.color, String(item.color) + '80']}
             start={{ x: 0, y: 0 }}
@@ -276,7 +292,7 @@ const ReportsScreen: React.FC = () => {
                     
                     <View style={styles.heroStats}>
                       <View style={styles.heroStatItem}>
-                        <Text style={[styles.statNumber, { color: colors.luxury.pure }]}>6</Text>
+                        <Text style={[styles.statNumber, { color: colors.luxury.pure }]}>{reports.length}</Text>
                         <Text style={[styles.statLabel, { color: colors.neutral.medium }]}>Reports</Text>
                       </View>
                       <View style={styles.heroStatItem}>
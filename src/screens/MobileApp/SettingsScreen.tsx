@@ -9,6 +9,8 @@ import { useTheme } from '../../components/foundations/themes/useTheme';
 import AnimatedCard from '../../components/MobileApp/AnimatedCard';
 import CosmicBackground from '../../components/MobileApp/CosmicBackground';
 import Statusbar from '../../components/MobileApp/Statusbar';
+import { useChartPreferences } from '../../components/astrology/ChartPreferencesContext';
+import { CHART_STYLES, CHART_STYLE_NAMES } from '../../components/astrology/VedicChart';
 // Typography tokens
 import { fontSizes } from '../../components/foundations/tokens';
 
@@ -28,6 +30,7 @@ const SettingsScreen: React.FC = () => {
   const [language, setLanguage] = useState('English');
   const [accountSecure, setAccountSecure] = useState(true);
   const [logoutLoading, setLogoutLoading] = useState(false);
+  const { chartStyle, setChartStyle } = useChartPreferences();
 
   const handleLogout = () => {
     setLogoutLoading(true);
@@ -111,6 +114,24 @@ const SettingsScreen: React.FC = () => {
         },
       ],
     },
+    {
+      id: 'astrology',
+      title: 'Astrology',
+      icon: 'star-four-points',
+      color: colors.luxury.pure,
+      settings: [
+        {
+          id: 'chart_style',
+          label: 'Chart Style',
+          description: `Birth charts drawn in ${CHART_STYLE_NAMES[chartStyle]} style`,
+          value: false,
+          onValueChange: () => setChartStyle(CHART_STYLES[(CHART_STYLES.indexOf(chartStyle) + 1) % CHART_STYLES.length]),
+          type: 'button',
+          buttonLabel: CHART_STYLE_NAMES[chartStyle].split(' ')[0],
+          color: colors.luxury.pure,
+        },
+      ],
+    },
     {
       id: 'interaction',
       title: 'Interaction',
@@ -196,7 +217,7 @@ const SettingsScreen: React.FC = () => {
           onPress={item.onValueChange}
           style={{ backgroundColor: item.color, paddingHorizontal: 18, paddingVertical: 7, borderRadius: 12 }}
         >
-          <Text style={{ color: '#fff', fontWeight: 'bold', fontSize: 14 }}>Sync Now</Text>
+          <Text style={{ color: '#fff', fontWeight: 'bold', fontSize: 14 }}>{item.buttonLabel ?? 'Sync Now'}</Text>
         </TouchableOpacity>
       ) : null}
     </View>
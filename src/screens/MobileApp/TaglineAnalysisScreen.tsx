@@ -0,0 +1,219 @@
+import { useNavigation } from '@react-navigation/native';
+import { ArrowLeft } from 'lucide-react-native';
+import React, { useMemo, useState } from 'react';
+import { SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  calculateNameNumerology,
+  getNumberHarmony,
+  NUMBER_HARMONY_NAMES,
+  NUMBER_MEANINGS,
+  NUMEROLOGY_SYSTEM_NAMES,
+  NumerologySystem,
+} from '../../components/astrology/numerologyUtils';
+import { PrimaryHeader } from '../../components/composite/navigation/header/PrimaryHeader';
+import { CARD_GLASS_PRESET, createGlassMorphismStyle } from '../../components/foundations/effects/GlassMorphism';
+import { useTheme } from '../../components/foundations/themes/useTheme';
+import { TextArea } from '../../components/inputs/TextArea';
+import { TextInput } from '../../components/inputs/TextInput';
+import AnimatedCard from '../../components/MobileApp/AnimatedCard';
+import CoreNumberList from '../../components/MobileApp/CoreNumberList';
+import CosmicBackground from '../../components/MobileApp/CosmicBackground';
+import LetterBreakdown from '../../components/MobileApp/LetterBreakdown';
+import Statusbar from '../../components/MobileApp/Statusbar';
+
+const SYSTEMS = Object.keys(NUMEROLOGY_SYSTEM_NAMES) as NumerologySystem[];
+
+const TaglineAnalysisScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const navigation = useNavigation<any>();
+  const [tagline, setTagline] = useState('');
+  const [businessName, setBusinessName] = useState('');
+  const [system, setSystem] = useState<NumerologySystem>('chaldean');
+
+  const taglineNumbers = useMemo(() => calculateNameNumerology(tagline, system), [tagline, system]);
+  const businessNumbers = useMemo(() => calculateNameNumerology(businessName, system), [businessName, system]);
+  const harmony =
+    taglineNumbers.letters.length > 0 && businessNumbers.letters.length > 0
+      ? getNumberHarmony(taglineNumbers.destiny.value, businessNumbers.destiny.value)
+      : undefined;
+
+  const glassCardStyle = createGlassMorphismStyle(CARD_GLASS_PRESET);
+
+  const coreNumbers = [
+    { label: 'Expression', reduction: taglineNumbers.destiny },
+    { label: 'Emotional Appeal', reduction: taglineNumbers.soulUrge },
+    { label: 'Outer Image', reduction: taglineNumbers.personality },
+  ];
+
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.cosmos.deep }}>
+      <Statusbar />
+      <CosmicBackground />
+      <SafeAreaView style={{ flex: 1 }}>
+        <PrimaryHeader
+          title={
+            <Text style={{ fontSize: 20, fontWeight: '600', color: colors.brand.primary }}>
+              Tagline Analysis
+            </Text>
+          }
+          backgroundColor="transparent"
+          height="custom"
+          customHeight={55}
+          shadow={false}
+          blur={false}
+          animated
+          leftButton={{
+            id: 'back',
+            icon: (
+              <TouchableOpacity
+                onPress={handleBack}
+                style={{
+                  height: 36,
+                  width: 36,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  borderRadius: 18,
+                  backgroundColor: 'rgba(148, 163, 184, 0.1)',
+                  marginLeft: -15
+                }}
+              >
+                <ArrowLeft size={20} color="#CBD5E1" />
+              </TouchableOpacity>
+            ),
+            onPress: handleBack,
+            accessibilityLabel: 'Back',
+          }}
+        />
+
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 140, paddingTop: 20 }}>
+          <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+            <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+              <Text style={[styles.fieldLabel, { color: colors.neutral.light }]}>Tagline</Text>
+              <TextArea
+                value={tagline}
+                onChangeText={setTagline}
+                placeholder="Enter your tagline or slogan"
+              />
+
+              <Text style={[styles.fieldLabel, { color: colors.neutral.light }]}>Business Name</Text>
+              <TextInput
+                value={businessName}
+                onChangeText={setBusinessName}
+                placeholder="Optional: check the tagline against it"
+                config={{
+                  enableFloatingLabel: false,
+                  enableCharacterCounter: false,
+                }}
+              />
+
+              <View style={styles.systemRow}>
+                {SYSTEMS.map(option => {
+                  const selected = option === system;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      onPress={() => setSystem(option)}
+                      style={[
+                        styles.systemChip,
+                        {
+                          borderColor: String(colors.brand.primary) + '60',
+                          backgroundColor: selected ? String(colors.brand.primary) + '30' : 'transparent',
+                        },
+                      ]}
+                      accessibilityLabel={`Use the ${NUMEROLOGY_SYSTEM_NAMES[option]} system`}
+                    >
+                      <Text style={[styles.systemText, { color: selected ? colors.brand.primary : colors.neutral.medium }]}>
+                        {NUMEROLOGY_SYSTEM_NAMES[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          </AnimatedCard>
+
+          {taglineNumbers.letters.length > 0 && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>Tagline Numbers</Text>
+                <CoreNumberList numbers={coreNumbers} />
+              </View>
+            </AnimatedCard>
+          )}
+
+          {taglineNumbers.letters.length > 0 && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>
+                  Letter Breakdown ({NUMEROLOGY_SYSTEM_NAMES[system]})
+                </Text>
+                <LetterBreakdown letters={taglineNumbers.letters} destiny={taglineNumbers.destiny} />
+              </View>
+            </AnimatedCard>
+          )}
+
+          {harmony && (
+            <AnimatedCard style={{ marginBottom: 20, marginTop: -10 }}>
+              <View style={[glassCardStyle, { padding: 20, borderRadius: 20 }]}>
+                <Text style={[styles.sectionTitle, { color: colors.brand.primary }]}>Brand Harmony</Text>
+                <Text style={[styles.matchScore, { color: colors.luxury.champagne }]}>
+                  {NUMBER_HARMONY_NAMES[harmony]}
+                </Text>
+                <Text style={[styles.matchText, { color: colors.neutral.medium }]}>
+                  Tagline {taglineNumbers.destiny.value} ({NUMBER_MEANINGS[taglineNumbers.destiny.value]}) with business
+                  name {businessNumbers.destiny.value} ({NUMBER_MEANINGS[businessNumbers.destiny.value]}).
+                </Text>
+              </View>
+            </AnimatedCard>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  systemRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  systemChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginHorizontal: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  systemText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  matchScore: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  matchText: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginBottom: 12,
+  },
+});
+
+export default TaglineAnalysisScreen;